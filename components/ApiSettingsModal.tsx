@@ -1,6 +1,7 @@
 
 import React, { useState } from 'react';
 import { SparklesIcon, PlusIcon, CrossIcon, SaveIcon } from './Icons.tsx';
+import type { LLMProviderSettings, LLMProviderType } from './types.ts';
 
 export const ApiSettingsModal: React.FC<{
     isOpen: boolean;
@@ -14,7 +15,9 @@ export const ApiSettingsModal: React.FC<{
     topK: number;
     topP: number;
     onAiSettingsChange: (settings: { temperature: number; topK: number; topP: number }) => void;
-}> = ({ isOpen, onClose, userApiKeys, isUsingDefault, onSave, selectedModel, onModelChange, temperature, topK, topP, onAiSettingsChange }) => {
+    providerSettings: LLMProviderSettings;
+    onProviderSettingsChange: (settings: LLMProviderSettings) => void;
+}> = ({ isOpen, onClose, userApiKeys, isUsingDefault, onSave, selectedModel, onModelChange, temperature, topK, topP, onAiSettingsChange, providerSettings, onProviderSettingsChange }) => {
     if (!isOpen) return null;
     
     const [keys, setKeys] = useState<string[]>(userApiKeys);
@@ -22,6 +25,8 @@ export const ApiSettingsModal: React.FC<{
     const [currentTemperature, setCurrentTemperature] = useState<number>(temperature);
     const [currentTopK, setCurrentTopK] = useState<number>(topK);
     const [currentTopP, setCurrentTopP] = useState<number>(topP);
+    const [currentProvider, setCurrentProvider] = useState<LLMProviderSettings>(providerSettings);
+    const isGemini = currentProvider.type === 'gemini';
 
     const handleKeyChange = (index: number, value: string) => {
         const newKeys = [...keys];
@@ -39,8 +44,11 @@ export const ApiSettingsModal: React.FC<{
     };
 
     const handleSaveClick = () => {
-        onSave(keys);
-        onModelChange(currentModel);
+        if (isGemini) {
+            onSave(keys);
+            onModelChange(currentModel);
+        }
+        onProviderSettingsChange(currentProvider);
         onAiSettingsChange({
             temperature: currentTemperature,
             topK: currentTopK,
@@ -57,7 +65,59 @@ export const ApiSettingsModal: React.FC<{
                     {/* Scrollable Content Area */}
                     <div className="p-6 space-y-6 overflow-y-auto flex-1">
 
+                    {/* AI Provider Selection */}
+                    <div className="border border-slate-200 dark:border-slate-600 rounded-lg p-4 space-y-3">
+                        <p className="font-semibold text-sm text-slate-800 dark:text-gray-300">Nhà cung cấp AI:</p>
+                        <select
+                            value={currentProvider.type}
+                            onChange={(e) => setCurrentProvider(prev => ({ ...prev, type: e.target.value as LLMProviderType }))}
+                            className="w-full px-4 py-2.5 bg-white dark:bg-[#373c5a] border border-slate-300 dark:border-slate-600 rounded-md text-slate-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-cyan-400 focus:ring-opacity-75"
+                        >
+                            <option value="gemini">Google Gemini</option>
+                            <option value="openai-compatible">OpenAI-compatible (llama.cpp, Ollama, LM Studio...)</option>
+                        </select>
+
+                        {!isGemini && (
+                            <div className="space-y-3">
+                                <div className="space-y-1">
+                                    <label htmlFor="openai-base-url" className="text-sm text-slate-700 dark:text-gray-300">Địa chỉ máy chủ (Base URL)</label>
+                                    <input
+                                        id="openai-base-url"
+                                        type="text"
+                                        placeholder="http://localhost:8080/v1"
+                                        value={currentProvider.openAIBaseUrl}
+                                        onChange={(e) => setCurrentProvider(prev => ({ ...prev, openAIBaseUrl: e.target.value }))}
+                                        className="w-full bg-slate-100 dark:bg-[#373c5a] border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-sm text-slate-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                    />
+                                </div>
+                                <div className="space-y-1">
+                                    <label htmlFor="openai-model" className="text-sm text-slate-700 dark:text-gray-300">Tên model</label>
+                                    <input
+                                        id="openai-model"
+                                        type="text"
+                                        placeholder="qwen2.5-14b-instruct"
+                                        value={currentProvider.openAIModel}
+                                        onChange={(e) => setCurrentProvider(prev => ({ ...prev, openAIModel: e.target.value }))}
+                                        className="w-full bg-slate-100 dark:bg-[#373c5a] border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-sm text-slate-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                    />
+                                </div>
+                                <div className="space-y-1">
+                                    <label htmlFor="openai-api-key" className="text-sm text-slate-700 dark:text-gray-300">API Key (không bắt buộc với máy chủ cục bộ)</label>
+                                    <input
+                                        id="openai-api-key"
+                                        type="password"
+                                        value={currentProvider.openAIApiKey}
+                                        onChange={(e) => setCurrentProvider(prev => ({ ...prev, openAIApiKey: e.target.value }))}
+                                        className="w-full bg-slate-100 dark:bg-[#373c5a] border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-sm text-slate-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                    />
+                                </div>
+                                <p className="text-xs text-slate-500 dark:text-slate-400">Máy chủ phải hỗ trợ endpoint /chat/completions. Model cục bộ nên hỗ trợ JSON schema (response_format) để trả lời đúng định dạng.</p>
+                            </div>
+                        )}
+                    </div>
+
                     {/* AI Model Selection */}
+                    {isGemini && (
                     <div className="border border-slate-200 dark:border-slate-600 rounded-lg p-4">
                         <p className="font-semibold text-sm mb-3 text-slate-800 dark:text-gray-300">Lựa chọn Model AI:</p>
                         <select
@@ -69,6 +129,7 @@ export const ApiSettingsModal: React.FC<{
                             <option value="gemini-2.5-pro">gemini-2.5-pro</option>
                         </select>
                     </div>
+                    )}
 
                     {/* AI Model Parameters */}
                     <div className="border border-slate-200 dark:border-slate-600 rounded-lg p-4 space-y-4">
@@ -136,6 +197,7 @@ export const ApiSettingsModal: React.FC<{
                     </div>
 
                     {/* Custom API Key Section */}
+                    {isGemini && (
                     <div className="border border-slate-200 dark:border-slate-600 rounded-lg p-4 space-y-3">
                         <p className="font-semibold text-sm text-slate-800 dark:text-gray-300">Sử Dụng API Key Của Bạn</p>
                          {keys.map((key, index) => (
@@ -171,6 +233,7 @@ export const ApiSettingsModal: React.FC<{
                         </p>
                         {!isUsingDefault && <p className="text-xs text-green-500 dark:text-green-400 mt-2 px-1 text-center">Đang hoạt động</p>}
                     </div>
+                    )}
                     
                     </div>
                     
@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import type { FormData, CustomRule } from './types.ts';
+import type { CharacterCardImport } from './utils/characterCard.ts';
+import type { TranslationKey } from './i18n';
+import { useI18n } from './hooks/useI18n';
+
+type CardField = keyof CharacterCardImport['fields'];
+
+const FIELD_LABELS: Record<CardField, TranslationKey> = {
+    characterName: 'cardImport.field.characterName',
+    bio: 'cardImport.field.bio',
+    customPersonality: 'cardImport.field.customPersonality',
+    worldDetail: 'cardImport.field.worldDetail'
+};
+
+const PREVIEW_LENGTH = 400;
+
+export const CharacterCardImportModal: React.FC<{
+    cardImport: CharacterCardImport | null;
+    currentFormData: FormData;
+    onApply: (fields: Partial<FormData>, rules: CustomRule[]) => void;
+    onClose: () => void;
+}> = ({ cardImport, currentFormData, onApply, onClose }) => {
+    const [, { t }] = useI18n();
+    const [selectedFields, setSelectedFields] = useState<Set<CardField>>(new Set());
+    const [includeRules, setIncludeRules] = useState(true);
+
+    useEffect(() => {
+        if (!cardImport) return;
+        const fields = Object.keys(cardImport.fields) as CardField[];
+        setSelectedFields(new Set(fields.filter(field => cardImport.fields[field])));
+        setIncludeRules(true);
+    }, [cardImport]);
+
+    if (!cardImport) return null;
+
+    const toggleField = (field: CardField) => {
+        setSelectedFields(prev => {
+            const next = new Set(prev);
+            if (next.has(field)) next.delete(field); else next.add(field);
+            return next;
+        });
+    };
+
+    const handleApply = () => {
+        const fields: Partial<FormData> = {};
+        selectedFields.forEach(field => {
+            fields[field] = cardImport.fields[field];
+        });
+        onApply(fields, includeRules ? cardImport.rules : []);
+    };
+
+    const preview = (text: string) => text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white/10 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="p-6 border-b border-white/10 flex justify-between items-center">
+                    <h3 className="text-xl font-bold text-white bg-gradient-to-r from-purple-200 to-pink-200 bg-clip-text text-transparent">
+                        {t('cardImport.title', { spec: cardImport.spec.toUpperCase() })}
+                    </h3>
+                    <button
+                        onClick={onClose}
+                        className="w-8 h-8 flex items-center justify-center rounded-xl bg-white/10 hover:bg-white/20 text-white/70 hover:text-white transition-all duration-200 text-xl leading-none"
+                    >
+                        ×
+                    </button>
+                </div>
+
+                <div className="p-6 overflow-y-auto space-y-3">
+                    <p className="text-sm text-white/60">{t('cardImport.pickFields')}</p>
+                    {(Object.keys(FIELD_LABELS) as CardField[]).map(field => {
+                        const value = cardImport.fields[field];
+                        return (
+                            <label key={field} className={`block p-4 bg-white/5 border border-white/10 rounded-xl ${value ? 'cursor-pointer' : 'opacity-50'}`}>
+                                <div className="flex items-center gap-2 mb-2">
+                                    <input
+                                        type="checkbox"
+                                        checked={selectedFields.has(field)}
+                                        onChange={() => toggleField(field)}
+                                        disabled={!value}
+                                        className="h-4 w-4 rounded border-gray-400 text-purple-600 focus:ring-purple-500"
+                                    />
+                                    <span className="text-sm font-semibold text-white">{t(FIELD_LABELS[field])}</span>
+                                    {currentFormData[field] && value && (
+                                        <span className="text-xs text-amber-300">{t('cardImport.willReplace')}</span>
+                                    )}
+                                </div>
+                                <p className="text-xs text-white/80 whitespace-pre-wrap">{value ? preview(value) : t('cardImport.fieldMissing')}</p>
+                            </label>
+                        );
+                    })}
+
+                    <label className={`flex items-center gap-2 p-4 bg-white/5 border border-white/10 rounded-xl ${cardImport.rules.length > 0 ? 'cursor-pointer' : 'opacity-50'}`}>
+                        <input
+                            type="checkbox"
+                            checked={includeRules && cardImport.rules.length > 0}
+                            onChange={(e) => setIncludeRules(e.target.checked)}
+                            disabled={cardImport.rules.length === 0}
+                            className="h-4 w-4 rounded border-gray-400 text-purple-600 focus:ring-purple-500"
+                        />
+                        <span className="text-sm font-semibold text-white">
+                            {cardImport.rules.length > 0
+                                ? t('cardImport.addRules', { count: cardImport.rules.length })
+                                : t('cardImport.noCharacterBook')}
+                        </span>
+                    </label>
+                </div>
+
+                <div className="p-4 border-t border-white/10 flex justify-end gap-3">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 rounded-xl bg-white/10 hover:bg-white/20 border border-white/20 text-white text-sm font-medium transition-all duration-300"
+                    >
+                        {t('cardImport.cancel')}
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        disabled={selectedFields.size === 0 && !(includeRules && cardImport.rules.length > 0)}
+                        className="px-4 py-2 rounded-xl bg-emerald-500/30 hover:bg-emerald-500/40 border border-emerald-400/40 text-white text-sm font-semibold transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {t('cardImport.apply')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import type { CommandTagRejection } from './types.ts';
+import { useI18n } from './hooks/useI18n';
+
+interface CommandTagRejectionModalProps {
+    rejection: CommandTagRejection | null;
+    onClose: () => void;
+}
+
+export const CommandTagRejectionModal: React.FC<CommandTagRejectionModalProps> = ({ rejection, onClose }) => {
+    const [, { t }] = useI18n();
+    if (!rejection) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-[110] p-4" onClick={onClose}>
+            <div
+                className="bg-white/90 dark:bg-[#2a2f4c]/90 backdrop-blur-sm border-2 border-red-400/80 rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col text-slate-900 dark:text-white"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="p-4 border-b-2 border-red-400/80 flex justify-between items-center">
+                    <h3 className="text-xl font-bold text-red-600 dark:text-red-300 flex items-center gap-2">
+                        {t('tagRejection.title')}
+                    </h3>
+                    <button onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white text-3xl leading-none">&times;</button>
+                </div>
+                <div className="p-6 space-y-4 overflow-y-auto text-slate-700 dark:text-gray-300">
+                    <p className="text-sm">
+                        {t('tagRejection.summary', { turn: rejection.turn, count: rejection.tagCount })}
+                    </p>
+                    <div>
+                        <p className="font-semibold text-slate-800 dark:text-gray-100 text-sm uppercase tracking-wider mb-1">
+                            {t('tagRejection.errors')} <span className="text-xs text-slate-500 dark:text-gray-400 normal-case">({rejection.errors.length})</span>
+                        </p>
+                        <ul className="space-y-2">
+                            {rejection.errors.map((error, index) => (
+                                <li key={index} className="text-sm">
+                                    <p className="text-red-600 dark:text-red-400">
+                                        <span className="text-xs font-mono text-slate-500 dark:text-gray-400 mr-1">[{error.tag}]</span>
+                                        {t(error.message.key, error.message.params)}
+                                    </p>
+                                    <p className="text-xs font-mono text-slate-500 dark:text-gray-400 break-all">{error.raw}</p>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,4 +1,5 @@
 import React from 'react';
+import { useI18n } from './hooks/useI18n';
 
 export interface ConfirmationModalProps {
     isOpen: boolean;
@@ -15,12 +16,13 @@ export const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
     isOpen, 
     onClose, 
     onConfirm, 
-    title = "Xác nhận",
+    title,
     message,
-    confirmText = "Có",
-    cancelText = "Hủy bỏ",
+    confirmText,
+    cancelText,
     confirmButtonColor = 'blue'
 }) => {
+    const [, { t }] = useI18n();
     if (!isOpen) return null;
 
     const getConfirmButtonStyles = () => {
@@ -45,7 +47,7 @@ export const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
         <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-[100] p-4" onClick={onClose}>
             <div className="bg-white/95 dark:bg-slate-800/95 backdrop-blur-sm border border-slate-300 dark:border-slate-600 rounded-lg shadow-2xl w-full max-w-md text-slate-900 dark:text-white" onClick={e => e.stopPropagation()}>
                 <div className="p-4 border-b border-slate-200 dark:border-slate-600">
-                    <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-200">{title}</h3>
+                    <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-200">{title ?? t('common.confirm')}</h3>
                 </div>
                 <div className="p-6">
                     <div className="text-slate-700 dark:text-slate-300 text-center">
@@ -57,13 +59,13 @@ export const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
                         onClick={handleConfirm}
                         className={`px-6 py-2 text-white rounded-lg font-semibold transition-all duration-200 transform focus:outline-none focus:ring-2 focus:ring-offset-2 ${getConfirmButtonStyles()}`}
                     >
-                        {confirmText}
+                        {confirmText ?? t('common.yes')}
                     </button>
                     <button
                         onClick={onClose}
                         className="px-6 py-2 bg-red-600 hover:bg-red-700 hover:scale-105 text-white rounded-lg font-semibold transition-all duration-200 transform focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
                     >
-                        {cancelText}
+                        {cancelText ?? t('common.cancel')}
                     </button>
                 </div>
             </div>
@@ -1,9 +1,11 @@
 import React, { useState, useRef, useContext } from 'react';
-import { GoogleGenAI, Type } from "@google/genai";
 import { AIContext } from '../App.tsx';
 import type { FormData, CustomRule } from './types.ts';
-import { RuleLogic } from './types.ts';
+import { RuleLogic, SchemaType } from './types.ts';
 import { RuleHelpers } from './utils/RuleHelpers.ts';
+import { importWorldInfo, exportRulesToWorldInfo } from './utils/worldInfo.ts';
+import { readCharacterCardFile, type CharacterCardImport } from './utils/characterCard.ts';
+import { CharacterCardImportModal } from './CharacterCardImportModal.tsx';
 import { SuggestionModal } from './SuggestionModal.tsx';
 import { FormLabel, CustomSelect, SuggestButton } from './FormControls.tsx';
 import { 
@@ -12,6 +14,9 @@ import {
 } from './Icons.tsx';
 import { useGameSettings } from './hooks/useGameSettings';
 import { getThemeColors } from './utils/themeUtils';
+import { useI18n } from './hooks/useI18n';
+import { LOCALES, isLocale } from './i18n';
+import { MASTERY_TIERS, getMasteryLabel } from './utils/gameEnums';
 
 export const CreateWorld: React.FC<{ 
     onBack: () => void; 
@@ -24,6 +29,7 @@ export const CreateWorld: React.FC<{
     const { ai, isAiReady, apiKeyError, selectedModel } = useContext(AIContext);
     const [gameSettingsState] = useGameSettings();
     const { gameSettings } = gameSettingsState;
+    const [{ locale }, { t }] = useI18n();
     const [formData, setFormData] = useState<FormData>({
         storyName: '',
         genre: '',
@@ -49,6 +55,7 @@ export const CreateWorld: React.FC<{
         startSkills: [{ name: '', description: '', mastery: '' }],
         addGoal: '',
         customRules: [],
+        language: locale,
     });
     
     const [activeTab, setActiveTab] = useState<'context' | 'knowledge'>('context');
@@ -68,6 +75,8 @@ export const CreateWorld: React.FC<{
     const rulesFileInputRef = useRef<HTMLInputElement>(null);
     const worldSetupFileInputRef = useRef<HTMLInputElement>(null);
     const worldInfoFileInputRef = useRef<HTMLInputElement>(null);
+    const characterCardFileInputRef = useRef<HTMLInputElement>(null);
+    const [cardImport, setCardImport] = useState<CharacterCardImport | null>(null);
 
     const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
         const { name, value, type } = e.target;
@@ -327,7 +336,7 @@ export const CreateWorld: React.FC<{
     // --- Suggestion Functions ---
     const handleGenreSuggestion = async () => {
         if (!isAiReady || !ai) {
-            setSuggestionError(apiKeyError || "AI chưa sẵn sàng. Vui lòng kiểm tra thiết lập API Key.");
+            setSuggestionError(apiKeyError || t('createWorld.error.aiNotReady'));
             return;
         }
         if (suggestionLock.current) return;
@@ -338,7 +347,7 @@ export const CreateWorld: React.FC<{
         const prompt = 'Gợi ý 5 chủ đề/bối cảnh độc đáo cho game phiêu lưu văn bản, phong cách tiểu thuyết mạng. BẮT BUỘC 100% tiếng Việt, KHÔNG dùng tiếng Anh. Mỗi cái trên một dòng.';
         
         try {
-            const response = await ai.models.generateContent({
+            const response = await ai.generate({
                 model: selectedModel,
                 contents: prompt,
             });
@@ -348,7 +357,7 @@ export const CreateWorld: React.FC<{
             setIsGenreModalOpen(true);
         } catch (error) {
             console.error('Error generating genre suggestions:', error);
-            setSuggestionError("Gặp lỗi khi tạo gợi ý. Vui lòng kiểm tra API Key và thử lại.");
+            setSuggestionError(t('createWorld.error.suggestionFailed'));
             setGenreSuggestions([]);
         } finally {
             suggestionLock.current = false;
@@ -359,7 +368,7 @@ export const CreateWorld: React.FC<{
 
     const handleWorldDetailSuggestion = async () => {
         if (!isAiReady || !ai) {
-            setSuggestionError(apiKeyError || "AI chưa sẵn sàng. Vui lòng kiểm tra thiết lập API Key.");
+            setSuggestionError(apiKeyError || t('createWorld.error.aiNotReady'));
             return;
         }
         if (suggestionLock.current) return;
@@ -375,7 +384,7 @@ QUAN TRỌNG: BẮT BUỘC 100% tiếng Việt, TUYỆT ĐỐI KHÔNG dùng ti
 Ví dụ: "Giang Hồ hiểm ác đầy rẫy anh hùng hảo hán và ma đầu tàn bạo, nơi công pháp và bí tịch quyết định tất cả, hệ thống cho phép bạn đoạt lấy nội lực, kinh nghiệm chiến đấu từ các cao thủ chính tà, khiến bạn phải ẩn mình giữa vô vàn ân oán giang hồ và lựa chọn giữa chính đạo giả tạo hay ma đạo tàn khốc."`;
         
         try {
-            const response = await ai.models.generateContent({
+            const response = await ai.generate({
                 model: selectedModel,
                 contents: prompt,
             });
@@ -384,9 +393,9 @@ Ví dụ: "Giang Hồ hiểm ác đầy rẫy anh hùng hảo hán và ma đầu
         } catch (error: any) {
             console.error(`Error generating suggestion for world detail:`, error);
             if (error.toString().includes('429')) {
-                setSuggestionError("Bạn đã gửi yêu cầu quá nhanh. Vui lòng chờ một lát rồi thử lại.");
+                setSuggestionError(t('createWorld.error.rateLimited'));
             } else {
-                setSuggestionError("Gặp lỗi khi tạo gợi ý. Vui lòng kiểm tra API Key và thử lại.");
+                setSuggestionError(t('createWorld.error.suggestionFailed'));
             }
         } finally {
             suggestionLock.current = false;
@@ -397,7 +406,7 @@ Ví dụ: "Giang Hồ hiểm ác đầy rẫy anh hùng hảo hán và ma đầu
 
     const handleCharacterSuggestion = async () => {
         if (!isAiReady || !ai) {
-            setSuggestionError(apiKeyError || "AI chưa sẵn sàng. Vui lòng kiểm tra thiết lập API Key.");
+            setSuggestionError(apiKeyError || t('createWorld.error.aiNotReady'));
             return;
         }
         if (suggestionLock.current) return;
@@ -421,16 +430,16 @@ Vui lòng tạo ra một tiểu sử ngắn (2-3 câu) và một kỹ năng kh
 QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔNG dùng tiếng Anh. Trả về kết quả dưới dạng JSON với hai khóa: "bio" và "skill".`;
         
         const characterSuggestionSchema = {
-          type: Type.OBJECT,
+          type: SchemaType.OBJECT,
           properties: {
-            bio: { type: Type.STRING, description: 'Tiểu sử nhân vật gợi ý (2-3 câu, BẮT BUỘC 100% tiếng Việt, KHÔNG dùng tiếng Anh).' },
-            skill: { type: Type.STRING, description: 'Kỹ năng khởi đầu gợi ý (BẮT BUỘC 100% tiếng Việt, KHÔNG dùng tiếng Anh).' }
+            bio: { type: SchemaType.STRING, description: 'Tiểu sử nhân vật gợi ý (2-3 câu, BẮT BUỘC 100% tiếng Việt, KHÔNG dùng tiếng Anh).' },
+            skill: { type: SchemaType.STRING, description: 'Kỹ năng khởi đầu gợi ý (BẮT BUỘC 100% tiếng Việt, KHÔNG dùng tiếng Anh).' }
           },
           required: ['bio', 'skill']
         };
 
         try {
-            const response = await ai.models.generateContent({
+            const response = await ai.generate({
                 model: selectedModel,
                 contents: prompt,
                 config: {
@@ -449,9 +458,9 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
         } catch (error: any) {
             console.error('Error generating character suggestions:', error);
             if (error.toString().includes('429')) {
-                 setSuggestionError("Bạn đã gửi yêu cầu quá nhanh. Vui lòng chờ một lát rồi thử lại.");
+                 setSuggestionError(t('createWorld.error.rateLimited'));
             } else {
-                setSuggestionError("Gặp lỗi khi tạo gợi ý nhân vật. Vui lòng kiểm tra API Key và thử lại.");
+                setSuggestionError(t('createWorld.error.characterSuggestionFailed'));
             }
         } finally {
             suggestionLock.current = false;
@@ -508,14 +517,14 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                             })) : [{ name: '', description: '', mastery: '' }], // Backward compatibility
                         };
                         setFormData(newFormData);
-                        alert('Đã tải thiết lập thành công!');
+                        alert(t('createWorld.alert.setupLoaded'));
                     } else {
                         throw new Error('Tệp không chứa dữ liệu thiết lập hợp lệ.');
                     }
                 }
             } catch (error) {
                 console.error('Lỗi khi tải tệp thiết lập:', error);
-                alert('Không thể đọc tệp thiết lập. Tệp có thể bị hỏng hoặc không đúng định dạng.');
+                alert(t('createWorld.alert.setupReadFailed'));
             }
         };
         reader.readAsText(file);
@@ -527,7 +536,7 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
     
     const handleSaveRulesToFile = () => {
         if (formData.customRules.length === 0) {
-            alert("Không có luật nào để lưu.");
+            alert(t('customRules.alert.nothingToSave'));
             return;
         }
         const exportData = RuleHelpers.exportRulesToJSON(formData.customRules);
@@ -559,7 +568,7 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                     const { rules: importedRules, errors } = RuleHelpers.importRulesFromJSON(text);
                     
                     if (errors.length > 0) {
-                        alert('Cảnh báo khi nhập file:\n' + errors.join('\n'));
+                        alert(t('customRules.alert.importWarnings', { errors: errors.join('\n') }));
                     }
                     
                     if (importedRules.length > 0) {
@@ -573,12 +582,12 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                         });
 
                         setFormData(prev => ({...prev, customRules: [...prev.customRules, ...processedRules]}));
-                        alert(`Đã nhập thành công ${processedRules.length} luật.`);
+                        alert(t('customRules.alert.imported', { count: processedRules.length }));
                     }
                 }
             } catch (error) {
                 console.error('Lỗi khi tải tệp luật:', error);
-                alert('Không thể đọc tệp luật. Tệp có thể bị hỏng hoặc không đúng định dạng.');
+                alert(t('customRules.alert.importFailed'));
             }
         };
         reader.readAsText(file);
@@ -588,23 +597,22 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
         }
     };
 
-    const convertWorldInfoEntryToRule = (entry: any, uid: string): CustomRule => {
-        const rule = RuleHelpers.createDefaultRule();
-        rule.id = `worldinfo-${uid}-${Date.now()}`;
-        rule.title = entry.comment || `WorldInfo Entry ${uid}`;
-        rule.content = entry.content || '';
-        rule.keywords = Array.isArray(entry.key) ? entry.key : (entry.key ? [entry.key] : []);
-        rule.secondaryKeywords = Array.isArray(entry.keysecondary) ? entry.keysecondary : (entry.keysecondary ? [entry.keysecondary] : []);
-        rule.logic = entry.selectiveLogic || 0;
-        rule.order = entry.order || 100;
-        rule.probability = entry.probability !== undefined ? entry.probability : 100;
-        rule.scanDepth = entry.depth || 5;
-        rule.caseSensitive = entry.caseSensitive !== null ? entry.caseSensitive : false;
-        rule.matchWholeWords = entry.matchWholeWords !== null ? entry.matchWholeWords : false;
-        rule.isActive = !entry.disable;
-        rule.category = entry.group || 'worldinfo';
-        
-        return rule;
+    const handleExportWorldInfo = () => {
+        if (formData.customRules.length === 0) {
+            alert(t('customRules.alert.nothingToSave'));
+            return;
+        }
+        const exportData = JSON.stringify(exportRulesToWorldInfo(formData.customRules), null, 2);
+        const blob = new Blob([exportData], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        link.download = `AI-RolePlay-WorldInfo-${timestamp}.json`;
+        link.href = url;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
     };
 
     const handleLoadWorldInfoClick = () => {
@@ -624,31 +632,27 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                     
                     // Check if it's a SillyTavern WorldInfo format
                     if (worldInfoData.entries && typeof worldInfoData.entries === 'object') {
-                        const entries = worldInfoData.entries;
-                        const convertedRules: CustomRule[] = [];
+                        const { rules: convertedRules, errors } = importWorldInfo(worldInfoData);
+                        if (errors.length > 0) {
+                            console.warn('Errors during WorldInfo conversion:', errors);
+                        }
                         const existingIds = new Set(formData.customRules.map(r => r.id));
                         
-                        Object.entries(entries).forEach(([uid, entry]: [string, any]) => {
-                            if (entry && entry.content && typeof entry.content === 'string' && entry.content.trim()) {
-                                const convertedRule = convertWorldInfoEntryToRule(entry, uid);
-                                
-                                // Ensure unique ID
-                                let finalId = convertedRule.id;
-                                while (existingIds.has(finalId)) {
-                                    finalId = `${convertedRule.id}-${Math.random()}`;
-                                }
-                                convertedRule.id = finalId;
-                                
-                                convertedRules.push(convertedRule);
-                                existingIds.add(finalId);
+                        convertedRules.forEach(convertedRule => {
+                            // Ensure unique ID
+                            let finalId = convertedRule.id;
+                            while (existingIds.has(finalId)) {
+                                finalId = `${convertedRule.id}-${Math.random()}`;
                             }
+                            convertedRule.id = finalId;
+                            existingIds.add(finalId);
                         });
 
                         if (convertedRules.length > 0) {
                             setFormData(prev => ({...prev, customRules: [...prev.customRules, ...convertedRules]}));
-                            alert(`Đã nhập thành công ${convertedRules.length} luật từ WorldInfo.`);
+                            alert(t('createWorld.alert.worldInfoImported', { count: convertedRules.length }));
                         } else {
-                            alert('Không tìm thấy nội dung hợp lệ trong WorldInfo entries.');
+                            alert(t('customRules.alert.worldInfoEmpty'));
                         }
                     } else {
                         throw new Error('Tệp không phải định dạng SillyTavern WorldInfo hợp lệ.');
@@ -656,7 +660,7 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                 }
             } catch (error) {
                 console.error('Lỗi khi tải WorldInfo:', error);
-                alert('Không thể đọc tệp WorldInfo. Tệp có thể bị hỏng hoặc không đúng định dạng SillyTavern WorldInfo.');
+                alert(t('createWorld.alert.worldInfoReadFailed'));
             }
         };
         reader.readAsText(file);
@@ -666,6 +670,35 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
         }
     };
 
+    const handleLoadCharacterCardClick = () => {
+        characterCardFileInputRef.current?.click();
+    };
+
+    const handleLoadCharacterCardFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (event.target) {
+            event.target.value = '';
+        }
+        if (!file) return;
+
+        try {
+            const bytes = new Uint8Array(await file.arrayBuffer());
+            setCardImport(await readCharacterCardFile(file.name, bytes));
+        } catch (error) {
+            console.error('Lỗi khi tải thẻ nhân vật:', error);
+            alert(t('createWorld.alert.cardReadFailed', { error: error instanceof Error ? error.message : '' }));
+        }
+    };
+
+    const handleApplyCharacterCard = (fields: Partial<FormData>, rules: CustomRule[]) => {
+        setFormData(prev => {
+            const existingIds = new Set(prev.customRules.map(r => r.id));
+            const newRules = rules.filter(rule => !existingIds.has(rule.id));
+            return { ...prev, ...fields, customRules: [...prev.customRules, ...newRules] };
+        });
+        setCardImport(null);
+    };
+
     const handleLoadWorldSetupClick = () => {
         worldSetupFileInputRef.current?.click();
     };
@@ -717,14 +750,14 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                         };
 
                         setFormData(updatedFormData);
-                        alert(`Đã tải thành công WorldSetup: "${worldData.storyName || 'Unnamed'}" với ${customRules.length} luật tùy chỉnh.`);
+                        alert(t('createWorld.alert.worldSetupLoaded', { name: worldData.storyName || t('createWorld.alert.unnamed'), count: customRules.length }));
                     } else {
                         throw new Error('Định dạng WorldSetup không hợp lệ. Cần có worldData và customRules.');
                     }
                 }
             } catch (error) {
                 console.error('Lỗi khi tải WorldSetup:', error);
-                alert('Không thể đọc tệp WorldSetup. Tệp có thể bị hỏng hoặc không đúng định dạng.');
+                alert(t('createWorld.alert.worldSetupReadFailed'));
             }
         };
         reader.readAsText(file);
@@ -986,6 +1019,9 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                         <button onClick={handleLoadWorldInfoClick} className="px-3 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-md text-white text-sm font-semibold transition-colors duration-200 flex items-center gap-2">
                             <DocumentAddIcon className="w-4 h-4"/> Nhập WorldInfo
                         </button>
+                        <button onClick={handleExportWorldInfo} className="px-3 py-2 bg-indigo-700 hover:bg-indigo-600 rounded-md text-white text-sm font-semibold transition-colors duration-200 flex items-center gap-2" title="Xuất sang định dạng World Info của SillyTavern">
+                            <SaveIcon className="w-4 h-4"/> Xuất WorldInfo
+                        </button>
                     </div>
                 </div>
             );
@@ -1000,7 +1036,7 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                         <div className="p-2 bg-pink-500/20 rounded-xl">
                             <BookOpenIcon className="w-6 h-6 text-pink-300" />
                         </div>
-                        <h2 className="text-xl font-bold text-white">Bối Cảnh Truyện</h2>
+                        <h2 className="text-xl font-bold text-white">{t('createWorld.storyContext')}</h2>
                     </div>
                     <div className="space-y-2">
                         <label htmlFor="storyName" className="block text-sm font-medium text-white/90">
@@ -1230,7 +1266,7 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                         <div className="p-2 bg-sky-500/20 rounded-xl">
                             <UserIcon className="w-6 h-6 text-sky-300" />
                         </div>
-                        <h2 className="text-xl font-bold text-white">Nhân Vật Chính</h2>
+                        <h2 className="text-xl font-bold text-white">{t('createWorld.protagonist')}</h2>
                     </div>
                     <div className="space-y-2">
                         <label htmlFor="characterName" className="block text-sm font-medium text-white/90">
@@ -1430,12 +1466,12 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                                             }}
                                             className="w-full bg-white/10 backdrop-blur-sm border border-white/20 rounded-lg py-2 px-3 text-white focus:outline-none focus:border-sky-400/50 focus:ring-2 focus:ring-sky-400/20 transition-all duration-300"
                                         >
-                                            <option value="" className="bg-slate-800 text-white">Chọn mức độ...</option>
-                                            <option value="Sơ Cấp" className="bg-slate-800 text-white">Sơ Cấp</option>
-                                            <option value="Trung Cấp" className="bg-slate-800 text-white">Trung Cấp</option>
-                                            <option value="Cao Cấp" className="bg-slate-800 text-white">Cao Cấp</option>
-                                            <option value="Đại Thành" className="bg-slate-800 text-white">Đại Thành</option>
-                                            <option value="Viên Mãn" className="bg-slate-800 text-white">Viên Mãn</option>
+                                            <option value="" className="bg-slate-800 text-white">{t('createWorld.chooseMastery')}</option>
+                                            {MASTERY_TIERS.map(tier => {
+                                                // Written in the GM's language, the one the story will use for mastery
+                                                const label = getMasteryLabel(tier, formData.language ?? locale);
+                                                return <option key={tier} value={label} className="bg-slate-800 text-white">{label}</option>;
+                                            })}
                                         </select>
                                     </div>
                                 </div>
@@ -1466,7 +1502,7 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                             <div className="p-2 bg-yellow-500/20 rounded-xl">
                                 <PencilIcon className="w-5 h-5 text-yellow-300" />
                             </div>
-                            <h3 className="text-lg font-bold text-white">Phong cách viết</h3>
+                            <h3 className="text-lg font-bold text-white">{t('createWorld.writingStyle')}</h3>
                         </div>
                         <select 
                             name="writingStyle" 
@@ -1474,9 +1510,22 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                             onChange={handleInputChange}
                             className="w-full bg-white/10 backdrop-blur-sm border border-white/20 rounded-xl py-3 px-4 text-white focus:outline-none focus:border-yellow-400/50 focus:ring-2 focus:ring-yellow-400/20 transition-all duration-300"
                         >
-                            <option value="second_person" className="bg-slate-800 text-white">Ngôi thứ hai - "Ngươi" là nhân vật chính</option>
-                            <option value="first_person" className="bg-slate-800 text-white">Ngôi thứ nhất - Nhân vật chính xưng "Ta/Tôi"</option>
+                            <option value="second_person" className="bg-slate-800 text-white">{t('createWorld.secondPerson')}</option>
+                            <option value="first_person" className="bg-slate-800 text-white">{t('createWorld.firstPerson')}</option>
                         </select>
+                        <label htmlFor="language" className="block text-sm font-medium text-white/90 mt-4 mb-2">{t('createWorld.gmLanguage')}</label>
+                        <select
+                            id="language"
+                            value={formData.language ?? locale}
+                            onChange={e => {
+                                const language = e.target.value;
+                                if (isLocale(language)) setFormData(prev => ({ ...prev, language }));
+                            }}
+                            className="w-full bg-white/10 backdrop-blur-sm border border-white/20 rounded-xl py-3 px-4 text-white focus:outline-none focus:border-yellow-400/50 focus:ring-2 focus:ring-yellow-400/20 transition-all duration-300"
+                        >
+                            {LOCALES.map(option => <option key={option.id} value={option.id} className="bg-slate-800 text-white">{option.label}</option>)}
+                        </select>
+                        <p className="text-xs text-white/60 mt-1">{t('createWorld.gmLanguageHint')}</p>
                     </div>
 
                     {/* Difficulty & Content Card */}
@@ -1485,20 +1534,20 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                             <div className="p-2 bg-red-500/20 rounded-xl">
                                 <DiamondIcon className="w-5 h-5 text-red-300" />
                             </div>
-                            <h3 className="text-lg font-bold text-white">Độ Khó & Nội Dung</h3>
+                            <h3 className="text-lg font-bold text-white">{t('createWorld.difficultyTitle')}</h3>
                         </div>
                         <div className="space-y-4">
                             <div>
-                                <label className="block text-sm font-medium text-white/90 mb-2">Chọn Độ Khó:</label>
+                                <label className="block text-sm font-medium text-white/90 mb-2">{t('createWorld.chooseDifficulty')}</label>
                                 <select 
                                     name="difficulty" 
                                     value={formData.difficulty} 
                                     onChange={handleInputChange}
                                     className="w-full bg-white/10 backdrop-blur-sm border border-white/20 rounded-xl py-3 px-4 text-white focus:outline-none focus:border-red-400/50 focus:ring-2 focus:ring-red-400/20 transition-all duration-300"
                                 >
-                                    <option value="easy" className="bg-slate-800 text-white">Dễ - Tạo ra cho đủ số thôi</option>
-                                    <option value="normal" className="bg-slate-800 text-white">Thường - Cân bằng, phù hợp đa số</option>
-                                    <option value="hard" className="bg-slate-800 text-white">Khó - Thử thách cao, Muốn ăn hành</option>
+                                    <option value="easy" className="bg-slate-800 text-white">{t('createWorld.difficultyEasy')}</option>
+                                    <option value="normal" className="bg-slate-800 text-white">{t('createWorld.difficultyNormal')}</option>
+                                    <option value="hard" className="bg-slate-800 text-white">{t('createWorld.difficultyHard')}</option>
                                 </select>
                             </div>
                             <div className="flex items-start gap-3">
@@ -1512,10 +1561,10 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                                 />
                                 <div>
                                     <label htmlFor="allowNsfw" className="text-sm text-white/90 font-medium">
-                                        Cho phép nội dung 18+ (Cực kỳ chi tiết)
+                                        {t('createWorld.allowNsfw')}
                                     </label>
                                     <p className="text-xs text-white/60 mt-1">
-                                        Khi được chọn, AI sẽ kể câu chuyện có tình tiết 18+ (có yếu tố bạo lực) và hành động tùy ý nsfw.
+                                        {t('createWorld.allowNsfwHint')}
                                     </p>
                                 </div>
                             </div>
@@ -1574,6 +1623,13 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                             accept=".json"
                             className="hidden"
                         />
+                        <input
+                            type="file"
+                            ref={characterCardFileInputRef}
+                            onChange={handleLoadCharacterCardFileChange}
+                            accept=".json,.png"
+                            className="hidden"
+                        />
                         
                         <div className="flex justify-between items-center mb-6">
                             <button 
@@ -1581,7 +1637,7 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                                 className="group flex items-center gap-2 px-4 py-2 rounded-xl bg-white/10 hover:bg-white/20 transition-all duration-300 border border-white/20 hover:border-white/30 backdrop-blur-sm text-white"
                             >
                                 <ArrowLeftIcon className="w-4 h-4 group-hover:-translate-x-1 transition-transform" />
-                                <span className="text-sm font-medium">Về Trang Chủ</span>
+                                <span className="text-sm font-medium">{t('createWorld.backHome')}</span>
                             </button>
                             
                             <div className="flex items-center space-x-3">
@@ -1590,30 +1646,38 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                                     className="group flex items-center gap-2 px-4 py-2 bg-emerald-500/20 hover:bg-emerald-500/30 rounded-xl border border-emerald-400/30 hover:border-emerald-400/50 text-emerald-100 transition-all duration-300 backdrop-blur-sm"
                                 >
                                     <SaveIcon className="w-4 h-4 group-hover:scale-110 transition-transform" />
-                                    <span className="text-sm font-medium">Lưu Thiết Lập</span>
+                                    <span className="text-sm font-medium">{t('createWorld.saveSettings')}</span>
                                 </button>
                                 <button 
                                     onClick={handleLoadSettingsClick} 
                                     className="group flex items-center gap-2 px-4 py-2 bg-sky-500/20 hover:bg-sky-500/30 rounded-xl border border-sky-400/30 hover:border-sky-400/50 text-sky-100 transition-all duration-300 backdrop-blur-sm"
                                 >
                                     <FileIcon className="w-4 h-4 group-hover:scale-110 transition-transform" />
-                                    <span className="text-sm font-medium">Tải Thiết Lập</span>
+                                    <span className="text-sm font-medium">{t('createWorld.loadSettings')}</span>
                                 </button>
                                 <button 
                                     onClick={handleLoadWorldSetupClick} 
                                     className="group flex items-center gap-2 px-4 py-2 bg-emerald-500/20 hover:bg-emerald-500/30 rounded-xl border border-emerald-400/30 hover:border-emerald-400/50 text-emerald-100 transition-all duration-300 backdrop-blur-sm"
                                 >
                                     <DocumentAddIcon className="w-4 h-4 group-hover:scale-110 transition-transform" />
-                                    <span className="text-sm font-medium">Nhập WorldSetup</span>
+                                    <span className="text-sm font-medium">{t('createWorld.importWorldSetup')}</span>
+                                </button>
+                                <button 
+                                    onClick={handleLoadCharacterCardClick} 
+                                    title={t('createWorld.characterCardHint')}
+                                    className="group flex items-center gap-2 px-4 py-2 bg-pink-500/20 hover:bg-pink-500/30 rounded-xl border border-pink-400/30 hover:border-pink-400/50 text-pink-100 transition-all duration-300 backdrop-blur-sm"
+                                >
+                                    <DocumentAddIcon className="w-4 h-4 group-hover:scale-110 transition-transform" />
+                                    <span className="text-sm font-medium">{t('createWorld.importCharacterCard')}</span>
                                 </button>
                             </div>
                         </div>
                         
                         <div className="text-center">
                             <h1 className="text-4xl lg:text-5xl font-bold bg-gradient-to-r from-purple-200 via-pink-200 to-purple-200 bg-clip-text text-transparent mb-3">
-                                Kiến Tạo Thế Giới
+                                {t('createWorld.title')}
                             </h1>
-                            <p className="text-white/70 text-lg">Xây dựng thế giới RPG độc đáo của riêng bạn</p>
+                            <p className="text-white/70 text-lg">{t('createWorld.subtitle')}</p>
                         </div>
                     </div>
 
@@ -1629,7 +1693,7 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                                 }`}
                             >
                                 <BookOpenIcon className="w-5 h-5 inline mr-2" />
-                                Bối Cảnh Thế Giới
+                                {t('createWorld.tabContext')}
                             </button>
                             <button 
                                 onClick={() => setActiveTab('knowledge')}
@@ -1640,7 +1704,7 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                                 }`}
                             >
                                 <SparklesIcon className="w-5 h-5 inline mr-2" />
-                                Tri Thức
+                                {t('createWorld.tabKnowledge')}
                             </button>
                         </div>
                     </div>
@@ -1667,24 +1731,24 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                                 {isInitializing ? (
                                     <div className="flex items-center justify-center gap-3">
                                         <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                                        <span>Đang khởi tạo thế giới...</span>
+                                        <span>{t('createWorld.initializing')}</span>
                                     </div>
                                 ) : isAiReady ? (
                                     <div className="flex items-center justify-center gap-3">
                                         <SparklesIcon className="w-6 h-6 group-hover:rotate-12 transition-transform" />
-                                        <span>Khởi Tạo Thế Giới</span>
+                                        <span>{t('createWorld.start')}</span>
                                         <SparklesIcon className="w-6 h-6 group-hover:-rotate-12 transition-transform" />
                                     </div>
                                 ) : (
                                     <div className="flex items-center justify-center gap-3">
                                         <ExclamationIcon className="w-6 h-6" />
-                                        <span>AI chưa sẵn sàng</span>
+                                        <span>{t('createWorld.aiNotReady')}</span>
                                     </div>
                                 )}
                             </button>
                             
                             <p className="text-white/50 text-sm text-center max-w-lg">
-                                Nhấn nút trên để bắt đầu cuộc phiêu lưu RPG của bạn với AI
+                                {t('createWorld.startHint')}
                             </p>
                         </div>
                     </div>
@@ -1699,7 +1763,13 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                     setFormData(prev => ({ ...prev, genre: suggestion }));
                     setIsGenreModalOpen(false);
                 }}
-                title="Gợi ý thể loại"
+                title={t('createWorld.genreSuggestions')}
+            />
+            <CharacterCardImportModal
+                cardImport={cardImport}
+                currentFormData={formData}
+                onApply={handleApplyCharacterCard}
+                onClose={() => setCardImport(null)}
             />
         </div>
     );
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import type { Entity } from './types';
+import { useI18n } from './hooks/useI18n';
 
 export interface EditItemModalProps {
     isOpen: boolean;
@@ -15,6 +16,7 @@ export const EditItemModal: React.FC<EditItemModalProps> = ({
     onSaveItem
 }) => {
     const [editedItem, setEditedItem] = useState<Entity | null>(null);
+    const [, { t }] = useI18n();
 
     useEffect(() => {
         if (item && isOpen) {
@@ -50,7 +52,7 @@ export const EditItemModal: React.FC<EditItemModalProps> = ({
                 <div className="p-4 border-b-2 border-slate-600/80 flex justify-between items-center flex-shrink-0">
                     <h3 className="text-xl font-bold text-white flex items-center gap-2">
                         <span className="text-purple-400">✏️</span>
-                        CHỈNH SỬA VẬT PHẨM
+                        {t('editItem.title')}
                     </h3>
                     <button 
                         onClick={handleCancel} 
@@ -64,25 +66,25 @@ export const EditItemModal: React.FC<EditItemModalProps> = ({
                 <div className="p-4 flex-1 overflow-y-auto space-y-4">
                     {/* Name */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Tên vật phẩm</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('editItem.name')}</label>
                         <input
                             type="text"
                             value={editedItem.name}
                             onChange={(e) => handleInputChange('name', e.target.value)}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
-                            placeholder="Nhập tên vật phẩm..."
+                            placeholder={t('editItem.namePlaceholder')}
                         />
                     </div>
 
                     {/* Description */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Mô tả</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.description')}</label>
                         <textarea
                             value={editedItem.description}
                             onChange={(e) => handleInputChange('description', e.target.value)}
                             rows={3}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent resize-none"
-                            placeholder="Nhập mô tả vật phẩm..."
+                            placeholder={t('editItem.descriptionPlaceholder')}
                         />
                     </div>
 
@@ -90,7 +92,7 @@ export const EditItemModal: React.FC<EditItemModalProps> = ({
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         {/* Quantities/Uses */}
                         <div>
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Số lượng/Lần sử dụng</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('editItem.quantity')}</label>
                             <input
                                 type="number"
                                 min="0"
@@ -116,7 +118,7 @@ export const EditItemModal: React.FC<EditItemModalProps> = ({
 
                         {/* Durability */}
                         <div>
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Độ bền</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('editItem.durability')}</label>
                             <input
                                 type="number"
                                 min="0"
@@ -137,7 +139,7 @@ export const EditItemModal: React.FC<EditItemModalProps> = ({
 
                     {/* Item Type Selection */}
                     <div className="space-y-3">
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Loại vật phẩm</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('editItem.itemType')}</label>
                         
                         <div className="flex items-center space-x-3">
                             <input
@@ -153,7 +155,7 @@ export const EditItemModal: React.FC<EditItemModalProps> = ({
                                 }}
                                 className="w-4 h-4 text-amber-600 bg-slate-800 border-slate-600 focus:ring-amber-500 focus:ring-2"
                             />
-                            <label htmlFor="usable" className="text-sm font-semibold text-gray-300">Có thể sử dụng</label>
+                            <label htmlFor="usable" className="text-sm font-semibold text-gray-300">{t('editItem.usable')}</label>
                         </div>
 
                         <div className="flex items-center space-x-3">
@@ -169,7 +171,7 @@ export const EditItemModal: React.FC<EditItemModalProps> = ({
                                 }}
                                 className="w-4 h-4 text-amber-600 bg-slate-800 border-slate-600 focus:ring-amber-500 focus:ring-2"
                             />
-                            <label htmlFor="equippable" className="text-sm font-semibold text-gray-300">Có thể trang bị</label>
+                            <label htmlFor="equippable" className="text-sm font-semibold text-gray-300">{t('editItem.equippable')}</label>
                         </div>
 
                         <div className="flex items-center space-x-3">
@@ -186,7 +188,7 @@ export const EditItemModal: React.FC<EditItemModalProps> = ({
                                 }}
                                 className="w-4 h-4 text-amber-600 bg-slate-800 border-slate-600 focus:ring-amber-500 focus:ring-2"
                             />
-                            <label htmlFor="other" className="text-sm font-semibold text-gray-300">Khác</label>
+                            <label htmlFor="other" className="text-sm font-semibold text-gray-300">{t('editItem.other')}</label>
                         </div>
 
                         {editedItem.equippable && (
@@ -198,7 +200,7 @@ export const EditItemModal: React.FC<EditItemModalProps> = ({
                                     onChange={(e) => handleInputChange('equipped', e.target.checked)}
                                     className="w-4 h-4 text-amber-600 bg-slate-800 border-slate-600 rounded focus:ring-amber-500 focus:ring-2"
                                 />
-                                <label htmlFor="equipped" className="text-sm font-semibold text-gray-300">Đang được trang bị</label>
+                                <label htmlFor="equipped" className="text-sm font-semibold text-gray-300">{t('editItem.equipped')}</label>
                             </div>
                         )}
                     </div>
@@ -210,13 +212,13 @@ export const EditItemModal: React.FC<EditItemModalProps> = ({
                         onClick={handleCancel}
                         className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white rounded-md font-semibold transition-colors"
                     >
-                        HỦY
+                        {t('entity.cancel')}
                     </button>
                     <button
                         onClick={handleSave}
                         className="px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white rounded-md font-semibold transition-colors"
                     >
-                        LƯU
+                        {t('entity.save')}
                     </button>
                 </div>
             </div>
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import type { Entity } from './types';
+import { useI18n } from './hooks/useI18n';
 
 export interface EditLocationModalProps {
     isOpen: boolean;
@@ -15,6 +16,7 @@ export const EditLocationModal: React.FC<EditLocationModalProps> = ({
     onSaveLocation
 }) => {
     const [editedLocation, setEditedLocation] = useState<Entity | null>(null);
+    const [, { t }] = useI18n();
 
     useEffect(() => {
         if (location && isOpen) {
@@ -42,19 +44,19 @@ export const EditLocationModal: React.FC<EditLocationModalProps> = ({
 
     const getSafetyStatus = () => {
         if (!editedLocation.description) return '';
-        return editedLocation.description.toLowerCase().includes('an toàn') ? 'safe' : 'unknown';
+        return /an toàn|\bsafe\b/i.test(editedLocation.description) ? 'safe' : 'unknown';
     };
 
     const handleSafetyChange = (safetyStatus: string) => {
         let currentDesc = editedLocation.description || '';
         
         // Remove existing safety indicators
-        currentDesc = currentDesc.replace(/\b(an toàn|không an toàn|nguy hiểm)\b/gi, '').trim();
+        currentDesc = currentDesc.replace(/\b(an toàn|không an toàn|nguy hiểm|not safe|safe|dangerous)\b/gi, '').trim();
         
         if (safetyStatus === 'safe') {
-            currentDesc = currentDesc ? `${currentDesc}. Khu vực này an toàn.` : 'Khu vực này an toàn.';
+            currentDesc = currentDesc ? `${currentDesc}. ${t('editLocation.safeSentence')}` : t('editLocation.safeSentence');
         } else if (safetyStatus === 'dangerous') {
-            currentDesc = currentDesc ? `${currentDesc}. Khu vực này không an toàn.` : 'Khu vực này không an toàn.';
+            currentDesc = currentDesc ? `${currentDesc}. ${t('editLocation.dangerousSentence')}` : t('editLocation.dangerousSentence');
         }
         
         handleInputChange('description', currentDesc);
@@ -70,7 +72,7 @@ export const EditLocationModal: React.FC<EditLocationModalProps> = ({
                 <div className="p-4 border-b-2 border-slate-600/80 flex justify-between items-center flex-shrink-0">
                     <h3 className="text-xl font-bold text-white flex items-center gap-2">
                         <span className="text-green-400">✏️</span>
-                        CHỈNH SỬA ĐỊA ĐIỂM
+                        {t('editLocation.title')}
                     </h3>
                     <button 
                         onClick={handleCancel} 
@@ -86,62 +88,62 @@ export const EditLocationModal: React.FC<EditLocationModalProps> = ({
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         {/* Name */}
                         <div className="md:col-span-2">
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Tên địa điểm</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('editLocation.name')}</label>
                             <input
                                 type="text"
                                 value={editedLocation.name}
                                 onChange={(e) => handleInputChange('name', e.target.value)}
                                 className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
-                                placeholder="Nhập tên địa điểm..."
+                                placeholder={t('editLocation.namePlaceholder')}
                             />
                         </div>
 
                         {/* Parent Location */}
                         <div>
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Thuộc khu vực</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.region')}</label>
                             <input
                                 type="text"
                                 value={editedLocation.location || ''}
                                 onChange={(e) => handleInputChange('location', e.target.value)}
                                 className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
-                                placeholder="Khu vực lớn hơn chứa địa điểm này..."
+                                placeholder={t('editLocation.regionPlaceholder')}
                             />
                         </div>
 
                         {/* Discovery Status (Read-only display) */}
                         <div>
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Trạng thái khám phá</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.discovery')}</label>
                             <div className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-gray-400 cursor-not-allowed">
-                                🗺️ Đã khám phá
+                                {t('entity.discovered')}
                             </div>
-                            <p className="text-xs text-gray-500 mt-1">Trạng thái này được tự động quản lý bởi hệ thống</p>
+                            <p className="text-xs text-gray-500 mt-1">{t('editLocation.discoveryHelp')}</p>
                         </div>
                     </div>
 
                     {/* Safety Status */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Tình trạng an toàn</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.safety')}</label>
                         <select
                             value={getSafetyStatus()}
                             onChange={(e) => handleSafetyChange(e.target.value)}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
                         >
-                            <option value="">-- Chưa rõ --</option>
-                            <option value="safe">🛡️ An toàn</option>
-                            <option value="dangerous">⚠️ Nguy hiểm</option>
+                            <option value="">{t('editLocation.safetyUnset')}</option>
+                            <option value="safe">{t('entity.safe')}</option>
+                            <option value="dangerous">{t('entity.dangerous')}</option>
                         </select>
-                        <p className="text-xs text-gray-500 mt-1">Thông tin này sẽ được thêm vào mô tả địa điểm</p>
+                        <p className="text-xs text-gray-500 mt-1">{t('editLocation.safetyHelp')}</p>
                     </div>
 
                     {/* Description */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Mô tả</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.description')}</label>
                         <textarea
                             value={editedLocation.description}
                             onChange={(e) => handleInputChange('description', e.target.value)}
                             rows={6}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent resize-none"
-                            placeholder="Mô tả chi tiết về địa điểm, bao gồm cảnh quan, đặc điểm, tình trạng an toàn..."
+                            placeholder={t('editLocation.descriptionPlaceholder')}
                         />
                     </div>
 
@@ -149,50 +151,50 @@ export const EditLocationModal: React.FC<EditLocationModalProps> = ({
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         {/* Climate/Environment */}
                         <div>
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Khí hậu/Môi trường</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('editLocation.climate')}</label>
                             <input
                                 type="text"
                                 value={(editedLocation as any).climate || ''}
                                 onChange={(e) => handleInputChange('climate', e.target.value)}
                                 className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
-                                placeholder="Ví dụ: Ôn đới, Sa mạc, Nhiệt đới..."
+                                placeholder={t('editLocation.climatePlaceholder')}
                             />
                         </div>
 
                         {/* Notable Features */}
                         <div>
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Đặc điểm nổi bật</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('editLocation.features')}</label>
                             <input
                                 type="text"
                                 value={(editedLocation as any).features || ''}
                                 onChange={(e) => handleInputChange('features', e.target.value)}
                                 className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
-                                placeholder="Ví dụ: Núi cao, Hồ lớn, Thành phố cổ..."
+                                placeholder={t('editLocation.featuresPlaceholder')}
                             />
                         </div>
                     </div>
 
                     {/* Resources/Economy */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Tài nguyên/Kinh tế</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('editLocation.resources')}</label>
                         <textarea
                             value={(editedLocation as any).resources || ''}
                             onChange={(e) => handleInputChange('resources', e.target.value)}
                             rows={3}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent resize-none"
-                            placeholder="Các tài nguyên, hoạt động kinh tế chính của địa điểm..."
+                            placeholder={t('editLocation.resourcesPlaceholder')}
                         />
                     </div>
 
                     {/* Inhabitants */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Cư dân</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('editLocation.residents')}</label>
                         <textarea
                             value={(editedLocation as any).inhabitants || ''}
                             onChange={(e) => handleInputChange('inhabitants', e.target.value)}
                             rows={3}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent resize-none"
-                            placeholder="Thông tin về những ai sống tại đây, dân số, văn hóa..."
+                            placeholder={t('editLocation.residentsPlaceholder')}
                         />
                     </div>
                 </div>
@@ -203,13 +205,13 @@ export const EditLocationModal: React.FC<EditLocationModalProps> = ({
                         onClick={handleCancel}
                         className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white rounded-md font-semibold transition-colors"
                     >
-                        HỦY
+                        {t('entity.cancel')}
                     </button>
                     <button
                         onClick={handleSave}
                         className="px-4 py-2 bg-green-600 hover:bg-green-500 text-white rounded-md font-semibold transition-colors"
                     >
-                        LƯU
+                        {t('entity.save')}
                     </button>
                 </div>
             </div>
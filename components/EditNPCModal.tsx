@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import type { Entity } from './types';
+import { useI18n } from './hooks/useI18n';
 import { MBTI_PERSONALITIES } from './data/mbti';
+import { classifyRelationship, RELATIONSHIP_KINDS, RELATIONSHIP_LABELS, type RelationshipKind } from './data/relationships';
 
 export interface EditNPCModalProps {
     isOpen: boolean;
@@ -16,6 +18,7 @@ export const EditNPCModal: React.FC<EditNPCModalProps> = ({
     onSaveNPC
 }) => {
     const [editedNPC, setEditedNPC] = useState<Entity | null>(null);
+    const [, { t }] = useI18n();
 
     useEffect(() => {
         if (npc && isOpen) {
@@ -85,7 +88,7 @@ export const EditNPCModal: React.FC<EditNPCModalProps> = ({
                 <div className="p-4 border-b-2 border-slate-600/80 flex justify-between items-center flex-shrink-0">
                     <h3 className="text-xl font-bold text-white flex items-center gap-2">
                         <span className="text-blue-400">✏️</span>
-                        CHỈNH SỬA NPC
+                        {t('editNpc.title')}
                     </h3>
                     <button 
                         onClick={handleCancel} 
@@ -101,62 +104,62 @@ export const EditNPCModal: React.FC<EditNPCModalProps> = ({
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         {/* Name */}
                         <div>
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Tên NPC</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('editNpc.name')}</label>
                             <input
                                 type="text"
                                 value={editedNPC.name}
                                 onChange={(e) => handleInputChange('name', e.target.value)}
                                 className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                                placeholder="Nhập tên NPC..."
+                                placeholder={t('editNpc.namePlaceholder')}
                             />
                         </div>
 
                         {/* Gender */}
                         <div>
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Giới tính</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.gender')}</label>
                             <input
                                 type="text"
                                 value={editedNPC.gender || ''}
                                 onChange={(e) => handleInputChange('gender', e.target.value)}
                                 className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                                placeholder="Nam, Nữ, Khác..."
+                                placeholder={t('entity.genderPlaceholder')}
                             />
                         </div>
 
                         {/* Age */}
                         <div>
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Tuổi</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.age')}</label>
                             <input
                                 type="text"
                                 value={editedNPC.age || ''}
                                 onChange={(e) => handleInputChange('age', e.target.value)}
                                 className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                                placeholder="Ví dụ: 25, Trung niên, Già..."
+                                placeholder={t('editNpc.agePlaceholder')}
                             />
                         </div>
 
                         {/* Location */}
                         <div>
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Vị trí</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.location')}</label>
                             <input
                                 type="text"
                                 value={editedNPC.location || ''}
                                 onChange={(e) => handleInputChange('location', e.target.value)}
                                 className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                                placeholder="Vị trí hiện tại của NPC..."
+                                placeholder={t('editNpc.locationPlaceholder')}
                             />
                         </div>
                     </div>
 
                     {/* Appearance */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Dung mạo</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.appearance')}</label>
                         <textarea
                             value={editedNPC.appearance || ''}
                             onChange={(e) => handleInputChange('appearance', e.target.value)}
                             rows={3}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-                            placeholder="Mô tả ngoại hình của NPC..."
+                            placeholder={t('editNpc.appearancePlaceholder')}
                         />
                     </div>
 
@@ -164,19 +167,19 @@ export const EditNPCModal: React.FC<EditNPCModalProps> = ({
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         {/* Realm */}
                         <div>
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Cảnh giới</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.realm')}</label>
                             <input
                                 type="text"
                                 value={editedNPC.realm || ''}
                                 onChange={(e) => handleInputChange('realm', e.target.value)}
                                 className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                                placeholder="Cảnh giới tu luyện..."
+                                placeholder={t('entity.realmPlaceholder')}
                             />
                         </div>
 
                         {/* Experience */}
                         <div>
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Kinh nghiệm</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.exp')}</label>
                             <input
                                 type="number"
                                 value={editedNPC.currentExp || 0}
@@ -188,37 +191,37 @@ export const EditNPCModal: React.FC<EditNPCModalProps> = ({
 
                     {/* Fame */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Danh vọng</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.fame')}</label>
                         <input
                             type="text"
                             value={editedNPC.fame || ''}
                             onChange={(e) => handleInputChange('fame', e.target.value)}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                            placeholder="Mức độ nổi tiếng của NPC..."
+                            placeholder={t('editNpc.famePlaceholder')}
                         />
                     </div>
 
                     {/* Personality */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Tính cách (Bề ngoài)</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.personality')}</label>
                         <textarea
                             value={editedNPC.personality || ''}
                             onChange={(e) => handleInputChange('personality', e.target.value)}
                             rows={3}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-                            placeholder="Mô tả tính cách bề ngoài của NPC..."
+                            placeholder={t('editNpc.personalityPlaceholder')}
                         />
                     </div>
 
                     {/* MBTI Personality */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Tính cách (Cốt lõi - MBTI)</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.personalityMbti')}</label>
                         <select
                             value={editedNPC.personalityMbti || ''}
                             onChange={(e) => handleInputChange('personalityMbti', e.target.value || undefined)}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                         >
-                            <option value="">-- Chọn loại tính cách --</option>
+                            <option value="">{t('entity.mbtiPlaceholder')}</option>
                             {availableMBTI.map(mbti => (
                                 <option key={mbti} value={mbti}>
                                     {mbti} - {MBTI_PERSONALITIES[mbti].title}
@@ -229,66 +232,52 @@ export const EditNPCModal: React.FC<EditNPCModalProps> = ({
 
                     {/* Motivation */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Động cơ</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.motivation')}</label>
                         <textarea
                             value={editedNPC.motivation || ''}
                             onChange={(e) => handleInputChange('motivation', e.target.value)}
                             rows={3}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-                            placeholder="Động cơ và mục tiêu của NPC..."
+                            placeholder={t('editNpc.motivationPlaceholder')}
                         />
                     </div>
 
                     {/* Relationship */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Quan hệ</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.relationship')}</label>
                         <select
-                            value={editedNPC.relationship || ''}
-                            onChange={(e) => handleInputChange('relationship', e.target.value || undefined)}
+                            value={classifyRelationship(editedNPC.relationship)?.kind ?? ''}
+                            onChange={(e) => handleInputChange('relationship', e.target.value ? t(RELATIONSHIP_LABELS[e.target.value as RelationshipKind]) : undefined)}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                         >
-                            <option value="">-- Chọn quan hệ --</option>
-                            <option value="Người yêu">Người yêu</option>
-                            <option value="Tận tụy">Tận tụy</option>
-                            <option value="Thù địch">Thù địch</option>
-                            <option value="Gia đình">Gia đình</option>
-                            <option value="Đồng đội">Đồng đội</option>
-                            <option value="Bạn thân">Bạn thân</option>
-                            <option value="Thân thiện">Thân thiện</option>
-                            <option value="Tôn kính">Tôn kính</option>
-                            <option value="Tin tưởng">Tin tưởng</option>
-                            <option value="Biết ơn">Biết ơn</option>
-                            <option value="Nghi ngờ">Nghi ngờ</option>
-                            <option value="Cạnh tranh">Cạnh tranh</option>
-                            <option value="Sợ hãi">Sợ hãi</option>
-                            <option value="Tò mò">Tò mò</option>
-                            <option value="Thận trọng">Thận trọng</option>
-                            <option value="Trung lập">Trung lập</option>
-                            <option value="Chưa xác định">Chưa xác định</option>
+                            <option value="">{t('editNpc.relationshipPlaceholder')}</option>
+                            {RELATIONSHIP_KINDS.map(kind => (
+                                <option key={kind} value={kind}>{t(RELATIONSHIP_LABELS[kind])}</option>
+                            ))}
                         </select>
                     </div>
 
                     {/* Skills */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Kỹ năng</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.skills')}</label>
                         <input
                             type="text"
                             value={(editedNPC as any).skillsText || (Array.isArray(editedNPC.skills) ? editedNPC.skills.join(', ') : '')}
                             onChange={(e) => handleSkillsChange(e.target.value)}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                            placeholder="Các kỹ năng, cách nhau bằng dấu phẩy..."
+                            placeholder={t('editNpc.skillsPlaceholder')}
                         />
                     </div>
 
                     {/* Description */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Mô tả</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.description')}</label>
                         <textarea
                             value={editedNPC.description}
                             onChange={(e) => handleInputChange('description', e.target.value)}
                             rows={4}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-                            placeholder="Mô tả chi tiết về NPC..."
+                            placeholder={t('editNpc.descriptionPlaceholder')}
                         />
                     </div>
                 </div>
@@ -299,13 +288,13 @@ export const EditNPCModal: React.FC<EditNPCModalProps> = ({
                         onClick={handleCancel}
                         className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white rounded-md font-semibold transition-colors"
                     >
-                        HỦY
+                        {t('entity.cancel')}
                     </button>
                     <button
                         onClick={handleSave}
                         className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-md font-semibold transition-colors"
                     >
-                        LƯU
+                        {t('entity.save')}
                     </button>
                 </div>
             </div>
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import type { Entity } from './types';
+import { useI18n } from './hooks/useI18n';
 import { MBTI_PERSONALITIES } from './data/mbti';
 
 export interface EditPCModalProps {
@@ -16,6 +17,7 @@ export const EditPCModal: React.FC<EditPCModalProps> = ({
     onSavePC
 }) => {
     const [editedPC, setEditedPC] = useState<Entity | null>(null);
+    const [, { t }] = useI18n();
 
     useEffect(() => {
         if (pc && isOpen) {
@@ -78,7 +80,7 @@ export const EditPCModal: React.FC<EditPCModalProps> = ({
                 <div className="p-4 border-b-2 border-slate-600/80 flex justify-between items-center flex-shrink-0">
                     <h3 className="text-xl font-bold text-white flex items-center gap-2">
                         <span className="text-yellow-400">✏️</span>
-                        CHỈNH SỬA NHÂN VẬT CHÍNH
+                        {t('editPc.title')}
                     </h3>
                     <button 
                         onClick={handleCancel} 
@@ -94,62 +96,62 @@ export const EditPCModal: React.FC<EditPCModalProps> = ({
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         {/* Name */}
                         <div>
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Tên nhân vật</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('editPc.name')}</label>
                             <input
                                 type="text"
                                 value={editedPC.name}
                                 onChange={(e) => handleInputChange('name', e.target.value)}
                                 className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
-                                placeholder="Nhập tên nhân vật..."
+                                placeholder={t('editPc.namePlaceholder')}
                             />
                         </div>
 
                         {/* Gender */}
                         <div>
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Giới tính</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.gender')}</label>
                             <input
                                 type="text"
                                 value={editedPC.gender || ''}
                                 onChange={(e) => handleInputChange('gender', e.target.value)}
                                 className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
-                                placeholder="Nam, Nữ, Khác..."
+                                placeholder={t('entity.genderPlaceholder')}
                             />
                         </div>
 
                         {/* Age */}
                         <div>
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Tuổi</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.age')}</label>
                             <input
                                 type="text"
                                 value={editedPC.age || ''}
                                 onChange={(e) => handleInputChange('age', e.target.value)}
                                 className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
-                                placeholder="Ví dụ: 25, Trung niên..."
+                                placeholder={t('editPc.agePlaceholder')}
                             />
                         </div>
 
                         {/* Location */}
                         <div>
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Vị trí</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.location')}</label>
                             <input
                                 type="text"
                                 value={editedPC.location || ''}
                                 onChange={(e) => handleInputChange('location', e.target.value)}
                                 className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
-                                placeholder="Vị trí hiện tại..."
+                                placeholder={t('editPc.locationPlaceholder')}
                             />
                         </div>
                     </div>
 
                     {/* Appearance */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Dung mạo</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.appearance')}</label>
                         <textarea
                             value={editedPC.appearance || ''}
                             onChange={(e) => handleInputChange('appearance', e.target.value)}
                             rows={3}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent resize-none"
-                            placeholder="Mô tả ngoại hình nhân vật..."
+                            placeholder={t('editPc.appearancePlaceholder')}
                         />
                     </div>
 
@@ -157,19 +159,19 @@ export const EditPCModal: React.FC<EditPCModalProps> = ({
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         {/* Realm */}
                         <div>
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Cảnh giới</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.realm')}</label>
                             <input
                                 type="text"
                                 value={editedPC.realm || ''}
                                 onChange={(e) => handleInputChange('realm', e.target.value)}
                                 className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
-                                placeholder="Cảnh giới tu luyện..."
+                                placeholder={t('entity.realmPlaceholder')}
                             />
                         </div>
 
                         {/* Experience */}
                         <div>
-                            <label className="block text-sm font-semibold text-gray-300 mb-2">Kinh nghiệm</label>
+                            <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.exp')}</label>
                             <input
                                 type="number"
                                 value={editedPC.currentExp || 0}
@@ -181,37 +183,37 @@ export const EditPCModal: React.FC<EditPCModalProps> = ({
 
                     {/* Fame */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Danh vọng</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.fame')}</label>
                         <input
                             type="text"
                             value={editedPC.fame || ''}
                             onChange={(e) => handleInputChange('fame', e.target.value)}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
-                            placeholder="Mức độ nổi tiếng..."
+                            placeholder={t('editPc.famePlaceholder')}
                         />
                     </div>
 
                     {/* Personality */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Tính cách (Bề ngoài)</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.personality')}</label>
                         <textarea
                             value={editedPC.personality || ''}
                             onChange={(e) => handleInputChange('personality', e.target.value)}
                             rows={3}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent resize-none"
-                            placeholder="Mô tả tính cách bề ngoài..."
+                            placeholder={t('editPc.personalityPlaceholder')}
                         />
                     </div>
 
                     {/* MBTI Personality */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Tính cách (Cốt lõi - MBTI)</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.personalityMbti')}</label>
                         <select
                             value={editedPC.personalityMbti || ''}
                             onChange={(e) => handleInputChange('personalityMbti', e.target.value || undefined)}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
                         >
-                            <option value="">-- Chọn loại tính cách --</option>
+                            <option value="">{t('entity.mbtiPlaceholder')}</option>
                             {availableMBTI.map(mbti => (
                                 <option key={mbti} value={mbti}>
                                     {mbti} - {MBTI_PERSONALITIES[mbti].title}
@@ -222,37 +224,37 @@ export const EditPCModal: React.FC<EditPCModalProps> = ({
 
                     {/* Motivation */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Động cơ</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.motivation')}</label>
                         <textarea
                             value={editedPC.motivation || ''}
                             onChange={(e) => handleInputChange('motivation', e.target.value)}
                             rows={3}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent resize-none"
-                            placeholder="Động cơ và mục tiêu..."
+                            placeholder={t('editPc.motivationPlaceholder')}
                         />
                     </div>
 
                     {/* Learned Skills */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Kỹ năng đã học</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.learnedSkills')}</label>
                         <input
                             type="text"
                             value={(editedPC as any).learnedSkillsText || (Array.isArray(editedPC.learnedSkills) ? editedPC.learnedSkills.join(', ') : '')}
                             onChange={(e) => handleLearnedSkillsChange(e.target.value)}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
-                            placeholder="Các kỹ năng đã học, cách nhau bằng dấu phẩy..."
+                            placeholder={t('editPc.learnedSkillsPlaceholder')}
                         />
                     </div>
 
                     {/* Description */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Mô tả</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.description')}</label>
                         <textarea
                             value={editedPC.description}
                             onChange={(e) => handleInputChange('description', e.target.value)}
                             rows={4}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent resize-none"
-                            placeholder="Mô tả chi tiết về nhân vật..."
+                            placeholder={t('editPc.descriptionPlaceholder')}
                         />
                     </div>
                 </div>
@@ -263,13 +265,13 @@ export const EditPCModal: React.FC<EditPCModalProps> = ({
                         onClick={handleCancel}
                         className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white rounded-md font-semibold transition-colors"
                     >
-                        HỦY
+                        {t('entity.cancel')}
                     </button>
                     <button
                         onClick={handleSave}
                         className="px-4 py-2 bg-yellow-600 hover:bg-yellow-500 text-white rounded-md font-semibold transition-colors"
                     >
-                        LƯU
+                        {t('entity.save')}
                     </button>
                 </div>
             </div>
@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import type { Entity } from './types';
+import { useI18n } from './hooks/useI18n';
+import { MASTERY_TIERS, getMasteryLabel, formatMasteryLike } from './utils/gameEnums';
+import { getMasteryThreshold, isMaxMastery as isMaxMasteryLevel } from './utils/skillExpManager';
 
 export interface EditSkillModalProps {
     isOpen: boolean;
@@ -15,6 +18,7 @@ export const EditSkillModal: React.FC<EditSkillModalProps> = ({
     onSaveSkill
 }) => {
     const [editedSkill, setEditedSkill] = useState<Entity | null>(null);
+    const [, { t }] = useI18n();
 
     useEffect(() => {
         if (skill && isOpen) {
@@ -50,7 +54,7 @@ export const EditSkillModal: React.FC<EditSkillModalProps> = ({
                 <div className="p-4 border-b-2 border-slate-600/80 flex justify-between items-center flex-shrink-0">
                     <h3 className="text-xl font-bold text-white flex items-center gap-2">
                         <span className="text-amber-400">✏️</span>
-                        CHỈNH SỬA KỸ NĂNG
+                        {t('editSkill.title')}
                     </h3>
                     <button 
                         onClick={handleCancel} 
@@ -64,31 +68,31 @@ export const EditSkillModal: React.FC<EditSkillModalProps> = ({
                 <div className="p-4 flex-1 overflow-y-auto space-y-4">
                     {/* Name */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Tên kỹ năng</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('editSkill.name')}</label>
                         <input
                             type="text"
                             value={editedSkill.name}
                             onChange={(e) => handleInputChange('name', e.target.value)}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
-                            placeholder="Nhập tên kỹ năng..."
+                            placeholder={t('editSkill.namePlaceholder')}
                         />
                     </div>
 
                     {/* Description */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Mô tả</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.description')}</label>
                         <textarea
                             value={editedSkill.description}
                             onChange={(e) => handleInputChange('description', e.target.value)}
                             rows={3}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent resize-none"
-                            placeholder="Nhập mô tả kỹ năng..."
+                            placeholder={t('editSkill.descriptionPlaceholder')}
                         />
                     </div>
 
                     {/* Mastery Level */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Mức độ thành thạo</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.mastery')}</label>
                         <select
                             value={editedSkill.mastery || ''}
                             onChange={(e) => {
@@ -97,24 +101,22 @@ export const EditSkillModal: React.FC<EditSkillModalProps> = ({
                                 
                                 // Update maxSkillExp when mastery changes
                                 if (newMastery) {
-                                    const masteryThresholds = { 'Sơ Cấp': 100, 'Trung Cấp': 300, 'Cao Cấp': 600, 'Đại Thành': 1000, 'Viên Mãn': 1500 };
-                                    handleInputChange('maxSkillExp', masteryThresholds[newMastery]);
+                                    handleInputChange('maxSkillExp', getMasteryThreshold(newMastery));
                                 }
                             }}
                             className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
                         >
-                            <option value="">-- Chọn mức độ thành thạo --</option>
-                            <option value="Sơ Cấp">Sơ Cấp</option>
-                            <option value="Trung Cấp">Trung Cấp</option>
-                            <option value="Cao Cấp">Cao Cấp</option>
-                            <option value="Đại Thành">Đại Thành</option>
-                            <option value="Viên Mãn">Viên Mãn</option>
+                            <option value="">{t('editSkill.masteryPlaceholder')}</option>
+                            {/* Values keep the language the skill's mastery is already written in */}
+                            {MASTERY_TIERS.map(tier => (
+                                <option key={tier} value={formatMasteryLike(tier, editedSkill.mastery)}>{getMasteryLabel(tier)}</option>
+                            ))}
                         </select>
                     </div>
 
                     {/* Skill Experience */}
                     <div>
-                        <label className="block text-sm font-semibold text-gray-300 mb-2">Kinh nghiệm kỹ năng</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">{t('entity.skillExp')}</label>
                         <div className="flex gap-2">
                             <div className="flex-1">
                                 <input
@@ -123,23 +125,20 @@ export const EditSkillModal: React.FC<EditSkillModalProps> = ({
                                     value={editedSkill.skillExp || 0}
                                     onChange={(e) => handleInputChange('skillExp', parseInt(e.target.value) || 0)}
                                     className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
-                                    placeholder="Kinh nghiệm hiện tại"
+                                    placeholder={t('editSkill.currentExp')}
                                 />
-                                <span className="text-xs text-gray-400 mt-1">Kinh nghiệm hiện tại</span>
+                                <span className="text-xs text-gray-400 mt-1">{t('editSkill.currentExp')}</span>
                             </div>
                             <div className="flex-1">
                                 <input
                                     type="number"
                                     min="1"
-                                    value={editedSkill.maxSkillExp || (() => {
-                                        const masteryThresholds = { 'Sơ Cấp': 100, 'Trung Cấp': 300, 'Cao Cấp': 600, 'Đại Thành': 1000, 'Viên Mãn': 1500 };
-                                        return masteryThresholds[editedSkill.mastery] || 100;
-                                    })()}
+                                    value={editedSkill.maxSkillExp || getMasteryThreshold(editedSkill.mastery)}
                                     onChange={(e) => handleInputChange('maxSkillExp', parseInt(e.target.value) || 100)}
                                     className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
-                                    placeholder="Kinh nghiệm tối đa"
+                                    placeholder={t('editSkill.maxExp')}
                                 />
-                                <span className="text-xs text-gray-400 mt-1">Kinh nghiệm tối đa</span>
+                                <span className="text-xs text-gray-400 mt-1">{t('editSkill.maxExp')}</span>
                             </div>
                         </div>
                         {/* Progress Bar Preview */}
@@ -150,19 +149,19 @@ export const EditSkillModal: React.FC<EditSkillModalProps> = ({
                             const isFull = percentage >= 100;
                             const isCapped = editedSkill.skillCapped === true;
                             const isEligibleForBreakthrough = editedSkill.breakthroughEligible === true;
-                            const isMaxMastery = editedSkill.mastery === 'Viên Mãn';
+                            const isMaxMastery = isMaxMasteryLevel(editedSkill.mastery);
                             return (
                                 <div className="mt-3">
                                     <div className="text-xs text-gray-300 mb-2 flex items-center gap-2">
-                                        <span>Xem trước thanh kinh nghiệm</span>
+                                        <span>{t('editSkill.expPreview')}</span>
                                         {isCapped && (
                                             <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300 text-xs font-medium rounded-full border border-orange-300 dark:border-orange-700">
-                                                🔒 Đạt Bình Cảnh
+                                                {t('entity.skillCapped')}
                                             </span>
                                         )}
                                         {isEligibleForBreakthrough && (
                                             <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300 text-xs font-medium rounded-full border border-purple-300 dark:border-purple-700 animate-pulse">
-                                                ✦ Có thể đột phá
+                                                {t('entity.canBreakthrough')}
                                             </span>
                                         )}
                                     </div>
@@ -191,14 +190,14 @@ export const EditSkillModal: React.FC<EditSkillModalProps> = ({
                                     </div>
                                     <div className="text-xs text-gray-400 mt-1 text-center">
                                         {isCapped && isMaxMastery
-                                            ? '🏆 Đã đạt tối đa!'
+                                            ? t('entity.maxMastery')
                                             : isCapped
                                                 ? isEligibleForBreakthrough
-                                                    ? '✦ Sẵn sàng đột phá!'
-                                                    : '🔒 Chờ cơ hội đột phá'
+                                                    ? t('editSkill.breakthroughReady')
+                                                    : t('editSkill.breakthroughWaiting')
                                                 : isFull
-                                                    ? 'Sẵn sàng thăng cấp!'
-                                                    : `${percentage.toFixed(1)}% tiến độ`
+                                                    ? t('entity.readyToLevel')
+                                                    : t('editSkill.progress', { percent: percentage.toFixed(1) })
                                         }
                                     </div>
                                 </div>
@@ -208,7 +207,7 @@ export const EditSkillModal: React.FC<EditSkillModalProps> = ({
 
                     {/* Breakthrough Status Controls */}
                     <div className="border-t border-slate-600 pt-4">
-                        <label className="block text-sm font-semibold text-gray-300 mb-3">✦ Các trạng thái đột phá</label>
+                        <label className="block text-sm font-semibold text-gray-300 mb-3">{t('editSkill.breakthroughStates')}</label>
                         <div className="space-y-2">
                             <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
                                 <input
@@ -218,7 +217,7 @@ export const EditSkillModal: React.FC<EditSkillModalProps> = ({
                                     className="w-4 h-4 text-orange-600 bg-slate-800 border-slate-600 rounded focus:ring-orange-500 focus:ring-2"
                                 />
                                 <span className="flex items-center gap-1">
-                                    🔒 <strong>Kỹ năng đã cấp hạn</strong> (không thể nhận thêm EXP)
+                                    🔒 <strong>{t('editSkill.capped')}</strong> {t('editSkill.cappedHint')}
                                 </span>
                             </label>
                             <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
@@ -229,14 +228,13 @@ export const EditSkillModal: React.FC<EditSkillModalProps> = ({
                                     className="w-4 h-4 text-purple-600 bg-slate-800 border-slate-600 rounded focus:ring-purple-500 focus:ring-2"
                                 />
                                 <span className="flex items-center gap-1">
-                                    ✦ <strong>Đủ điều kiện đột phá</strong> (hiện lựa chọn "✦Đột Phá✦")
+                                    ✦ <strong>{t('editSkill.eligible')}</strong> {t('editSkill.eligibleHint')}
                                 </span>
                             </label>
                         </div>
                         <div className="mt-3 p-3 bg-slate-800/50 border border-slate-600 rounded-md">
                             <p className="text-xs text-gray-400 leading-relaxed">
-                                <strong className="text-orange-300">⚠️ Lưu ý:</strong> Khi kỹ năng <strong>"đã cấp hạn"</strong>, nó không thể nhận thêm EXP cho đến khi đột phá thành công. 
-                                Các lựa chọn đột phá sẽ chỉ xuất hiện khi kỹ năng <strong>"đủ điều kiện đột phá"</strong> (20% cơ hội mỗi lượt).
+                                <strong className="text-orange-300">{t('editSkill.noteTitle')}</strong> {t('editSkill.note')}
                             </p>
                         </div>
                     </div>
@@ -248,13 +246,13 @@ export const EditSkillModal: React.FC<EditSkillModalProps> = ({
                         onClick={handleCancel}
                         className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white rounded-md font-semibold transition-colors"
                     >
-                        HỦY
+                        {t('entity.cancel')}
                     </button>
                     <button
                         onClick={handleSave}
                         className="px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white rounded-md font-semibold transition-colors"
                     >
-                        LƯU
+                        {t('entity.save')}
                     </button>
                 </div>
             </div>
@@ -1,22 +1,27 @@
 import React, { useState, useRef, useMemo, memo } from 'react';
-import type { CustomRule } from './types.ts';
+import type { CustomRule, RuleActivationSettings } from './types.ts';
 import { RuleLogic } from './types.ts';
 import { RuleHelpers } from './utils/RuleHelpers.ts';
+import { DEFAULT_MAX_RECURSION_DEPTH, DEFAULT_GROUP_WEIGHT } from './utils/RuleActivationEngine.ts';
+import { importWorldInfo, exportRulesToWorldInfo } from './utils/worldInfo.ts';
 import { DocumentAddIcon, PlusIcon, SaveIcon, FileIcon, CogIcon, EyeIcon, EyeSlashIcon } from './Icons.tsx';
+import { useI18n } from './hooks/useI18n';
 
 interface EnhancedCustomRulesModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onSave: (rules: CustomRule[]) => void;
+    onSave: (rules: CustomRule[], activationSettings?: RuleActivationSettings) => void;
     currentRules: CustomRule[];
+    activationSettings?: RuleActivationSettings;
 }
 
 type ViewMode = 'simple' | 'advanced';
 type SortMode = 'priority' | 'alphabetical' | 'category' | 'recent';
 
 const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps> = ({ 
-    isOpen, onClose, onSave, currentRules 
+    isOpen, onClose, onSave, currentRules, activationSettings: initialActivationSettings
 }) => {
+    const [, { t }] = useI18n();
     if (!isOpen) return null;
 
     const [rules, setRules] = useState<CustomRule[]>(
@@ -34,6 +39,9 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
     const [filterCategory, setFilterCategory] = useState<string>('all');
     const [searchQuery, setSearchQuery] = useState('');
     const [expandedRule, setExpandedRule] = useState<string | null>(null);
+    const [activationSettings, setActivationSettings] = useState<RuleActivationSettings>(
+        initialActivationSettings || { recursiveScan: false, maxRecursionDepth: DEFAULT_MAX_RECURSION_DEPTH }
+    );
     
     const fileInputRef = useRef<HTMLInputElement>(null);
     const characterCardFileInputRef = useRef<HTMLInputElement>(null);
@@ -80,16 +88,16 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
         rules.forEach((rule, index) => {
             const validation = RuleHelpers.validateRule(rule);
             if (!validation.isValid) {
-                validationErrors.push(`Luật ${index + 1}: ${validation.errors.join(', ')}`);
+                validationErrors.push(t('customRules.validationError', { index: index + 1, errors: validation.errors.join(', ') }));
             }
         });
 
         if (validationErrors.length > 0) {
-            alert('Có lỗi trong cấu hình luật:\n' + validationErrors.join('\n'));
+            alert(t('customRules.alert.invalidRules', { errors: validationErrors.join('\n') }));
             return;
         }
 
-        onSave(rules);
+        onSave(rules, activationSettings);
         onClose();
     };
 
@@ -110,7 +118,7 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
         const duplicated = { 
             ...rule, 
             id: Date.now().toString(),
-            title: `${rule.title || 'Luật'} (Sao chép)`,
+            title: t('customRules.copyTitle', { title: rule.title || t('customRules.untitled') }),
             createdAt: Date.now(),
             activationCount: 0,
             lastActivated: undefined
@@ -248,7 +256,7 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
 
     const handleSaveRulesToFile = () => {
         if (rules.length === 0) {
-            alert("Không có luật nào để lưu.");
+            alert(t('customRules.alert.nothingToSave'));
             return;
         }
         
@@ -273,45 +281,23 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
         worldInfoInputRef.current?.click();
     };
 
-    // Convert SillyTavern WorldInfo entry to CustomRule
-    const convertWorldInfoEntryToRule = (entry: any): CustomRule => {
-        const rule = RuleHelpers.createDefaultRule();
-        
-        // Basic info
-        rule.id = `worldinfo-${entry.uid || Date.now()}-${Math.random()}`;
-        rule.title = entry.comment || `World Info Entry ${entry.uid || ''}`;
-        rule.content = entry.content || '';
-        rule.isActive = !entry.disable;
-        
-        // Keywords
-        rule.keywords = Array.isArray(entry.key) ? entry.key : [];
-        rule.secondaryKeywords = Array.isArray(entry.keysecondary) ? entry.keysecondary : [];
-        
-        // Logic mapping from SillyTavern
-        if (entry.selectiveLogic !== undefined) {
-            rule.logic = entry.selectiveLogic as RuleLogic;
+    const handleExportWorldInfo = () => {
+        if (rules.length === 0) {
+            alert(t('customRules.alert.nothingToSave'));
+            return;
         }
-        
-        // Priority and settings
-        rule.order = entry.order || 100;
-        rule.probability = entry.useProbability ? (entry.probability || 100) : 100;
-        rule.scanDepth = entry.depth || entry.scanDepth || 5;
-        
-        // Matching options
-        rule.caseSensitive = entry.caseSensitive === true;
-        rule.matchWholeWords = entry.matchWholeWords === true;
-        
-        // Advanced settings
-        rule.maxActivationsPerTurn = entry.sticky > 0 ? undefined : 1; // SillyTavern sticky means can activate multiple times
-        
-        // Metadata
-        rule.createdAt = Date.now();
-        rule.category = entry.group || 'worldinfo';
-        
-        // Estimate token weight
-        rule.tokenWeight = RuleHelpers.estimateTokenWeight(rule.content);
-        
-        return rule;
+
+        const exportData = JSON.stringify(exportRulesToWorldInfo(rules), null, 2);
+        const blob = new Blob([exportData], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        link.download = `AI-RolePlay-WorldInfo-${timestamp}.json`;
+        link.href = url;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
     };
 
     const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -326,7 +312,7 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                     const { rules: importedRules, errors } = RuleHelpers.importRulesFromJSON(text);
                     
                     if (errors.length > 0) {
-                        alert('Cảnh báo khi nhập file:\n' + errors.join('\n'));
+                        alert(t('customRules.alert.importWarnings', { errors: errors.join('\n') }));
                     }
                     
                     if (importedRules.length > 0) {
@@ -340,12 +326,12 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                         });
 
                         setRules(prev => [...prev, ...processedRules]);
-                        alert(`Đã nhập thành công ${processedRules.length} luật.`);
+                        alert(t('customRules.alert.imported', { count: processedRules.length }));
                     }
                 }
             } catch (error) {
                 console.error('Lỗi khi tải file luật:', error);
-                alert('Không thể đọc file luật. File có thể bị hỏng hoặc không đúng định dạng.');
+                alert(t('customRules.alert.importFailed'));
             }
         };
         reader.readAsText(file);
@@ -368,30 +354,15 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                     
                     // Check if it's a valid SillyTavern WorldInfo file
                     if (!worldInfoData.entries || typeof worldInfoData.entries !== 'object') {
-                        alert('Không phải file WorldInfo hợp lệ của SillyTavern. File cần có định dạng: {"entries": {...}}');
+                        alert(t('customRules.alert.invalidWorldInfo'));
                         return;
                     }
 
-                    const convertedRules: CustomRule[] = [];
-                    const errors: string[] = [];
-
-                    // Convert each entry
-                    Object.values(worldInfoData.entries).forEach((entry: any, index: number) => {
-                        try {
-                            if (entry && typeof entry === 'object') {
-                                const convertedRule = convertWorldInfoEntryToRule(entry);
-                                if (convertedRule.content.trim()) {
-                                    convertedRules.push(convertedRule);
-                                }
-                            }
-                        } catch (error) {
-                            errors.push(`Entry ${index + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-                        }
-                    });
+                    const { rules: convertedRules, errors } = importWorldInfo(worldInfoData);
 
                     if (errors.length > 0) {
                         console.warn('Errors during WorldInfo conversion:', errors);
-                        alert(`Đã convert thành công ${convertedRules.length} rules, có ${errors.length} lỗi. Xem console để biết chi tiết.`);
+                        alert(t('customRules.alert.worldInfoConvertErrors', { count: convertedRules.length, errors: errors.length }));
                     }
 
                     if (convertedRules.length > 0) {
@@ -405,14 +376,14 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                         });
 
                         setRules(prev => [...prev, ...processedRules]);
-                        alert(`Đã nhập thành công ${processedRules.length} WorldInfo entries từ SillyTavern!`);
+                        alert(t('customRules.alert.worldInfoImported', { count: processedRules.length }));
                     } else {
-                        alert('Không tìm thấy WorldInfo entries hợp lệ nào trong file.');
+                        alert(t('customRules.alert.worldInfoEmpty'));
                     }
                 }
             } catch (error) {
                 console.error('Lỗi khi đọc file WorldInfo:', error);
-                alert('Không thể đọc file WorldInfo. File có thể bị hỏng hoặc không đúng định dạng JSON.');
+                alert(t('customRules.alert.worldInfoReadFailed'));
             }
         };
         reader.readAsText(file);
@@ -429,18 +400,18 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                     type="text"
                     value={rule.title || ''}
                     onChange={(e) => handleRuleChange(rule.id, { title: e.target.value })}
-                    placeholder={`Tiêu đề luật #${index + 1}...`}
+                    placeholder={t('customRules.titlePlaceholder', { index: index + 1 })}
                     className="flex-1 bg-white dark:bg-[#1f2238] border border-slate-300 dark:border-slate-500 rounded-md py-1 px-2 text-sm text-slate-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
                 />
                 <div className="flex items-center gap-2 ml-2">
                     <span className="text-xs text-slate-600 dark:text-slate-400">
-                        Ưu tiên: {rule.order || 100}
+                        {t('customRules.priorityBadge', { order: rule.order || 100 })}
                     </span>
                     <button
                         onClick={() => setExpandedRule(expandedRule === rule.id ? null : rule.id)}
                         className="text-blue-600 hover:text-blue-500 text-xs px-2 py-1 rounded"
                     >
-                        {expandedRule === rule.id ? 'Thu gọn' : 'Chi tiết'}
+                        {expandedRule === rule.id ? t('customRules.collapse') : t('customRules.details')}
                     </button>
                 </div>
             </div>
@@ -448,7 +419,7 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
             <textarea
                 value={rule.content}
                 onChange={(e) => handleRuleChange(rule.id, { content: e.target.value })}
-                placeholder={`Nội dung luật #${index + 1}...`}
+                placeholder={t('customRules.contentPlaceholder', { index: index + 1 })}
                 className="w-full h-24 bg-white dark:bg-[#1f2238] border border-slate-300 dark:border-slate-500 rounded-md py-2 px-3 text-sm text-slate-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500 resize-y"
             />
             
@@ -460,7 +431,7 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                         onChange={(e) => handleToggleActive(rule.id, e.target.checked)}
                         className="h-4 w-4 rounded border-gray-400 bg-gray-700 text-purple-600 focus:ring-purple-500"
                     />
-                    <span className="ml-2 text-sm text-slate-700 dark:text-gray-300">Hoạt động</span>
+                    <span className="ml-2 text-sm text-slate-700 dark:text-gray-300">{t('customRules.active')}</span>
                 </label>
                 
                 <div className="flex items-center gap-2">
@@ -468,13 +439,13 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                         onClick={() => handleDuplicateRule(rule)} 
                         className="px-2 py-1 bg-blue-600 hover:bg-blue-500 text-white rounded text-xs"
                     >
-                        Sao chép
+                        {t('customRules.duplicate')}
                     </button>
                     <button 
                         onClick={() => handleDeleteRule(rule.id)} 
                         className="px-2 py-1 bg-red-700 hover:bg-red-600 text-white rounded text-xs"
                     >
-                        Xóa
+                        {t('common.delete')}
                     </button>
                 </div>
             </div>
@@ -490,7 +461,7 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                         type="text"
                         value={rule.title || ''}
                         onChange={(e) => handleRuleChange(rule.id, { title: e.target.value })}
-                        placeholder={`Tiêu đề luật #${index + 1}...`}
+                        placeholder={t('customRules.titlePlaceholder', { index: index + 1 })}
                         className="flex-1 bg-white dark:bg-[#1f2238] border border-slate-300 dark:border-slate-500 rounded-md py-1 px-2 text-sm font-medium text-slate-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
                     />
                     <select
@@ -512,20 +483,20 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                             onChange={(e) => handleToggleActive(rule.id, e.target.checked)}
                             className="h-4 w-4 rounded border-gray-400 bg-gray-700 text-purple-600 focus:ring-purple-500"
                         />
-                        <span className="ml-1 text-sm text-slate-700 dark:text-gray-300">Hoạt động</span>
+                        <span className="ml-1 text-sm text-slate-700 dark:text-gray-300">{t('customRules.active')}</span>
                     </label>
                     
                     <button 
                         onClick={() => handleDuplicateRule(rule)} 
                         className="px-2 py-1 bg-blue-600 hover:bg-blue-500 text-white rounded text-xs"
                     >
-                        Sao chép
+                        {t('customRules.duplicate')}
                     </button>
                     <button 
                         onClick={() => handleDeleteRule(rule.id)} 
                         className="px-2 py-1 bg-red-700 hover:bg-red-600 text-white rounded text-xs"
                     >
-                        Xóa
+                        {t('common.delete')}
                     </button>
                 </div>
             </div>
@@ -534,12 +505,12 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
             <div className="space-y-3">
                 <div>
                     <label className="block text-sm font-medium text-slate-700 dark:text-gray-300 mb-1">
-                        Nội dung luật:
+                        {t('customRules.content')}
                     </label>
                     <textarea
                         value={rule.content}
                         onChange={(e) => handleRuleChange(rule.id, { content: e.target.value })}
-                        placeholder={`Nội dung luật #${index + 1}...`}
+                        placeholder={t('customRules.contentPlaceholder', { index: index + 1 })}
                         className="w-full h-20 bg-white dark:bg-[#1f2238] border border-slate-300 dark:border-slate-500 rounded-md py-2 px-3 text-sm text-slate-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500 resize-y"
                     />
                 </div>
@@ -548,10 +519,10 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                     <div>
                         <label className="block text-sm font-medium text-slate-700 dark:text-gray-300 mb-1">
-                            Từ khóa chính (hỗ trợ cụm từ với [dấu ngoặc] hoặc "dấu nháy"):
+                            {t('customRules.primaryKeywords')}
                             {rule.keywords && rule.keywords.length > 0 && (
                                 <span className="ml-2 text-xs text-blue-600 dark:text-blue-400">
-                                    ({rule.keywords.length} từ khóa)
+                                    {t('customRules.keywordCount', { count: rule.keywords.length })}
                                 </span>
                             )}
                         </label>
@@ -572,17 +543,17 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                                 const parsedKeywords = parseKeywords(inputValue);
                                 setKeywordInputValues(prev => ({ ...prev, [rule.id]: formatKeywords(parsedKeywords) }));
                             }}
-                            placeholder='rồng [gọi điện thoại] "nói trong điện thoại" lửa...'
+                            placeholder={t('customRules.primaryKeywordsPlaceholder')}
                             className="w-full bg-white dark:bg-[#1f2238] border border-slate-300 dark:border-slate-500 rounded-md py-1 px-2 text-sm text-slate-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
                         />
                     </div>
                     
                     <div>
                         <label className="block text-sm font-medium text-slate-700 dark:text-gray-300 mb-1">
-                            Từ khóa phụ (hỗ trợ cụm từ với [dấu ngoặc] hoặc "dấu nháy"):
+                            {t('customRules.secondaryKeywords')}
                             {rule.secondaryKeywords && rule.secondaryKeywords.length > 0 && (
                                 <span className="ml-2 text-xs text-green-600 dark:text-green-400">
-                                    ({rule.secondaryKeywords.length} từ khóa)
+                                    {t('customRules.keywordCount', { count: rule.secondaryKeywords.length })}
                                 </span>
                             )}
                         </label>
@@ -603,7 +574,7 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                                 const parsedKeywords = parseKeywords(inputValue);
                                 setSecondaryKeywordInputValues(prev => ({ ...prev, [rule.id]: formatKeywords(parsedKeywords) }));
                             }}
-                            placeholder='[hơi thở lửa] "thổi lửa" băng-giá...'
+                            placeholder={t('customRules.secondaryKeywordsPlaceholder')}
                             className="w-full bg-white dark:bg-[#1f2238] border border-slate-300 dark:border-slate-500 rounded-md py-1 px-2 text-sm text-slate-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
                         />
                     </div>
@@ -613,7 +584,7 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
                     <div>
                         <label className="block text-sm font-medium text-slate-700 dark:text-gray-300 mb-1">
-                            Độ ưu tiên:
+                            {t('customRules.order')}
                         </label>
                         <input
                             type="number"
@@ -627,7 +598,7 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                     
                     <div>
                         <label className="block text-sm font-medium text-slate-700 dark:text-gray-300 mb-1">
-                            Xác suất (%):
+                            {t('customRules.probability')}
                         </label>
                         <input
                             type="number"
@@ -648,17 +619,17 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                                 className="h-4 w-4 rounded border-gray-400 bg-gray-700 text-purple-600 focus:ring-purple-500"
                             />
                             <span className="text-sm font-medium text-slate-700 dark:text-gray-300">
-                                Luôn hoạt động (bỏ qua từ khóa)
+                                {t('customRules.alwaysActive')}
                             </span>
                         </label>
                         <p className="text-xs text-slate-500 dark:text-gray-400 mt-1">
-                            Khi bật, luật này sẽ luôn được bao gồm trong prompt mà không cần từ khóa
+                            {t('customRules.alwaysActiveHint')}
                         </p>
                     </div>
                     
                     <div>
                         <label className="block text-sm font-medium text-slate-700 dark:text-gray-300 mb-1">
-                            Logic từ khóa:
+                            {t('customRules.logic')}
                         </label>
                         <select
                             value={rule.logic || RuleLogic.AND_ANY}
@@ -674,7 +645,7 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                     
                     <div>
                         <label className="block text-sm font-medium text-slate-700 dark:text-gray-300 mb-1">
-                            Độ sâu quét:
+                            {t('customRules.scanDepth')}
                         </label>
                         <input
                             type="number"
@@ -687,10 +658,97 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                     </div>
                 </div>
 
+                {/* Inclusion Group */}
+                <div className="grid grid-cols-3 gap-3">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 dark:text-gray-300 mb-1">
+                            {t('customRules.group')}
+                        </label>
+                        <input
+                            type="text"
+                            value={rule.group || ''}
+                            onChange={(e) => handleRuleChange(rule.id, { group: e.target.value || undefined })}
+                            placeholder="thoi-tiet, gap-go..."
+                            className="w-full bg-white dark:bg-[#1f2238] border border-slate-300 dark:border-slate-500 rounded-md py-1 px-2 text-sm text-slate-800 dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 dark:text-gray-300 mb-1">
+                            {t('customRules.groupWeight')}
+                        </label>
+                        <input
+                            type="number"
+                            value={rule.groupWeight ?? DEFAULT_GROUP_WEIGHT}
+                            onChange={(e) => handleRuleChange(rule.id, { groupWeight: Math.max(0, parseInt(e.target.value) || 0) })}
+                            min="0"
+                            disabled={!rule.group}
+                            className="w-full bg-white dark:bg-[#1f2238] border border-slate-300 dark:border-slate-500 rounded-md py-1 px-2 text-sm text-slate-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+                        />
+                    </div>
+                    <label className="flex items-center space-x-2 cursor-pointer mt-6">
+                        <input
+                            type="checkbox"
+                            checked={rule.groupOverride === true}
+                            onChange={(e) => handleRuleChange(rule.id, { groupOverride: e.target.checked })}
+                            disabled={!rule.group}
+                            className="h-4 w-4 rounded border-gray-400 bg-gray-700 text-purple-600 focus:ring-purple-500"
+                        />
+                        <span className="text-sm font-medium text-slate-700 dark:text-gray-300">
+                            {t('customRules.groupOverride')}
+                        </span>
+                    </label>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-gray-400 -mt-2">
+                    {t('customRules.groupHint')}
+                </p>
+
+                {/* Timed Effects */}
+                <div className="grid grid-cols-3 gap-3">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 dark:text-gray-300 mb-1">
+                            {t('customRules.sticky')}
+                        </label>
+                        <input
+                            type="number"
+                            value={rule.sticky || 0}
+                            onChange={(e) => handleRuleChange(rule.id, { sticky: parseInt(e.target.value) || undefined })}
+                            min="0"
+                            className="w-full bg-white dark:bg-[#1f2238] border border-slate-300 dark:border-slate-500 rounded-md py-1 px-2 text-sm text-slate-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 dark:text-gray-300 mb-1">
+                            {t('customRules.cooldown')}
+                        </label>
+                        <input
+                            type="number"
+                            value={rule.cooldown || 0}
+                            onChange={(e) => handleRuleChange(rule.id, { cooldown: parseInt(e.target.value) || undefined })}
+                            min="0"
+                            className="w-full bg-white dark:bg-[#1f2238] border border-slate-300 dark:border-slate-500 rounded-md py-1 px-2 text-sm text-slate-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 dark:text-gray-300 mb-1">
+                            {t('customRules.delay')}
+                        </label>
+                        <input
+                            type="number"
+                            value={rule.delay || 0}
+                            onChange={(e) => handleRuleChange(rule.id, { delay: parseInt(e.target.value) || undefined })}
+                            min="0"
+                            className="w-full bg-white dark:bg-[#1f2238] border border-slate-300 dark:border-slate-500 rounded-md py-1 px-2 text-sm text-slate-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        />
+                    </div>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-gray-400 -mt-2">
+                    {t('customRules.timedEffectsHint')}
+                </p>
+
                 {/* Scanning Options */}
                 <div>
                     <label className="block text-sm font-medium text-slate-700 dark:text-gray-300 mb-2">
-                        Tùy chọn quét:
+                        {t('customRules.scanOptions')}
                     </label>
                     <div className="grid grid-cols-2 gap-2 mb-3">
                         <label className="flex items-center cursor-pointer">
@@ -700,7 +758,7 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                                 onChange={(e) => handleRuleChange(rule.id, { scanPlayerInput: e.target.checked })}
                                 className="h-3 w-3 rounded border-gray-400 text-purple-600 focus:ring-purple-500"
                             />
-                            <span className="ml-2 text-xs text-slate-700 dark:text-gray-300">Lệnh người chơi</span>
+                            <span className="ml-2 text-xs text-slate-700 dark:text-gray-300">{t('customRules.scanPlayerInput')}</span>
                         </label>
                         <label className="flex items-center cursor-pointer">
                             <input
@@ -709,7 +767,7 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                                 onChange={(e) => handleRuleChange(rule.id, { scanAIOutput: e.target.checked })}
                                 className="h-3 w-3 rounded border-gray-400 text-purple-600 focus:ring-purple-500"
                             />
-                            <span className="ml-2 text-xs text-slate-700 dark:text-gray-300">Phản hồi AI</span>
+                            <span className="ml-2 text-xs text-slate-700 dark:text-gray-300">{t('customRules.scanAIOutput')}</span>
                         </label>
                         <label className="flex items-center cursor-pointer">
                             <input
@@ -718,13 +776,55 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                                 onChange={(e) => handleRuleChange(rule.id, { scanMemories: e.target.checked })}
                                 className="h-3 w-3 rounded border-gray-400 text-purple-600 focus:ring-purple-500"
                             />
-                            <span className="ml-2 text-xs text-slate-700 dark:text-gray-300">Ký ức</span>
+                            <span className="ml-2 text-xs text-slate-700 dark:text-gray-300">{t('customRules.scanMemories')}</span>
+                        </label>
+                        <label className="flex items-center cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={rule.excludeRecursion === true}
+                                onChange={(e) => handleRuleChange(rule.id, { excludeRecursion: e.target.checked })}
+                                className="h-3 w-3 rounded border-gray-400 text-purple-600 focus:ring-purple-500"
+                            />
+                            <span className="ml-2 text-xs text-slate-700 dark:text-gray-300">{t('customRules.excludeRecursion')}</span>
+                        </label>
+                        <label className="flex items-center cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={rule.preventRecursion === true}
+                                onChange={(e) => handleRuleChange(rule.id, { preventRecursion: e.target.checked })}
+                                className="h-3 w-3 rounded border-gray-400 text-purple-600 focus:ring-purple-500"
+                            />
+                            <span className="ml-2 text-xs text-slate-700 dark:text-gray-300">{t('customRules.preventRecursion')}</span>
                         </label>
                     </div>
+
+                    {/* Game State Sources */}
+                    <label className="block text-sm font-medium text-slate-700 dark:text-gray-300 mb-2">
+                        {t('customRules.scanGameState')}
+                    </label>
+                    <div className="grid grid-cols-2 gap-2 mb-3">
+                        {([
+                            ['scanLocation', 'customRules.scanLocation'],
+                            ['scanNPCsPresent', 'customRules.scanNPCsPresent'],
+                            ['scanParty', 'customRules.scanParty'],
+                            ['scanStatuses', 'customRules.scanStatuses'],
+                            ['scanQuests', 'customRules.scanQuests']
+                        ] as const).map(([field, label]) => (
+                            <label key={field} className="flex items-center cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={rule[field] === true}
+                                    onChange={(e) => handleRuleChange(rule.id, { [field]: e.target.checked })}
+                                    className="h-3 w-3 rounded border-gray-400 text-teal-600 focus:ring-teal-500"
+                                />
+                                <span className="ml-2 text-xs text-slate-700 dark:text-gray-300">{t(label)}</span>
+                            </label>
+                        ))}
+                    </div>
                     
                     {/* Matching Options */}
                     <label className="block text-sm font-medium text-slate-700 dark:text-gray-300 mb-2">
-                        Tùy chọn khớp từ khóa:
+                        {t('customRules.matchOptions')}
                     </label>
                     <div className="grid grid-cols-2 gap-2">
                         <label className="flex items-center cursor-pointer">
@@ -734,7 +834,7 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                                 onChange={(e) => handleRuleChange(rule.id, { caseSensitive: e.target.checked })}
                                 className="h-3 w-3 rounded border-gray-400 text-orange-600 focus:ring-orange-500"
                             />
-                            <span className="ml-2 text-xs text-slate-700 dark:text-gray-300">Phân biệt hoa thường</span>
+                            <span className="ml-2 text-xs text-slate-700 dark:text-gray-300">{t('customRules.caseSensitive')}</span>
                         </label>
                         <label className="flex items-center cursor-pointer">
                             <input
@@ -743,7 +843,7 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                                 onChange={(e) => handleRuleChange(rule.id, { matchWholeWords: e.target.checked })}
                                 className="h-3 w-3 rounded border-gray-400 text-orange-600 focus:ring-orange-500"
                             />
-                            <span className="ml-2 text-xs text-slate-700 dark:text-gray-300">Chỉ từ nguyên vẹn</span>
+                            <span className="ml-2 text-xs text-slate-700 dark:text-gray-300">{t('customRules.matchWholeWords')}</span>
                         </label>
                     </div>
                 </div>
@@ -751,9 +851,9 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                 {/* Rule Statistics */}
                 {(rule.activationCount || 0) > 0 && (
                     <div className="text-xs text-slate-600 dark:text-slate-400 border-t border-slate-300 dark:border-slate-600 pt-2">
-                        Đã kích hoạt: {rule.activationCount} lần
-                        {rule.lastActivated && ` • Lần cuối: Lượt: ${rule.lastActivated + 1}`}
-                        {rule.tokenWeight && ` • Tokens ước tính: ${rule.tokenWeight}`}
+                        {t('customRules.activationCount', { count: rule.activationCount ?? 0 })}
+                        {rule.lastActivated && t('customRules.lastActivated', { turn: rule.lastActivated + 1 })}
+                        {rule.tokenWeight && t('customRules.tokenWeight', { tokens: rule.tokenWeight })}
                     </div>
                 )}
             </div>
@@ -791,7 +891,7 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                     <div className="flex justify-between items-center mb-3">
                         <h3 className="text-xl font-semibold flex items-center gap-2">
                             <DocumentAddIcon className="w-6 h-6" /> 
-                            Quản Lý Luật Lệ Nâng Cao
+                            {t('customRules.title')}
                         </h3>
                         <button onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white text-3xl leading-none">
                             &times;
@@ -801,7 +901,7 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                     {/* Controls */}
                     <div className="flex flex-wrap items-center gap-3">
                         <div className="flex items-center gap-2">
-                            <label className="text-sm font-medium">Chế độ:</label>
+                            <label className="text-sm font-medium">{t('customRules.viewMode')}</label>
                             <button
                                 onClick={() => setViewMode(viewMode === 'simple' ? 'advanced' : 'simple')}
                                 className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
@@ -810,32 +910,32 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                                         : 'bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300'
                                 }`}
                             >
-                                {viewMode === 'advanced' ? 'Nâng cao' : 'Đơn giản'}
+                                {viewMode === 'advanced' ? t('customRules.viewAdvanced') : t('customRules.viewSimple')}
                             </button>
                         </div>
 
                         <div className="flex items-center gap-2">
-                            <label className="text-sm font-medium">Sắp xếp:</label>
+                            <label className="text-sm font-medium">{t('customRules.sort')}</label>
                             <select
                                 value={sortMode}
                                 onChange={(e) => setSortMode(e.target.value as SortMode)}
                                 className="bg-white dark:bg-[#1f2238] border border-slate-300 dark:border-slate-500 rounded px-2 py-1 text-sm"
                             >
-                                <option value="priority">Độ ưu tiên</option>
-                                <option value="alphabetical">Tên A-Z</option>
-                                <option value="category">Danh mục</option>
-                                <option value="recent">Mới nhất</option>
+                                <option value="priority">{t('customRules.sort.priority')}</option>
+                                <option value="alphabetical">{t('customRules.sort.alphabetical')}</option>
+                                <option value="category">{t('customRules.sort.category')}</option>
+                                <option value="recent">{t('customRules.sort.recent')}</option>
                             </select>
                         </div>
 
                         <div className="flex items-center gap-2">
-                            <label className="text-sm font-medium">Danh mục:</label>
+                            <label className="text-sm font-medium">{t('customRules.categoryFilter')}</label>
                             <select
                                 value={filterCategory}
                                 onChange={(e) => setFilterCategory(e.target.value)}
                                 className="bg-white dark:bg-[#1f2238] border border-slate-300 dark:border-slate-500 rounded px-2 py-1 text-sm"
                             >
-                                <option value="all">Tất cả</option>
+                                <option value="all">{t('customRules.allCategories')}</option>
                                 {RuleHelpers.getAvailableCategories().map(cat => (
                                     <option key={cat.value} value={cat.value}>{cat.label}</option>
                                 ))}
@@ -847,20 +947,45 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                                 type="text"
                                 value={searchQuery}
                                 onChange={(e) => setSearchQuery(e.target.value)}
-                                placeholder="Tìm kiếm luật..."
+                                placeholder={t('customRules.searchPlaceholder')}
                                 className="w-full bg-white dark:bg-[#1f2238] border border-slate-300 dark:border-slate-500 rounded px-2 py-1 text-sm"
                             />
                         </div>
+
+                        <div className="flex items-center gap-2" title={t('customRules.recursiveScanHint')}>
+                            <label className="flex items-center gap-1 text-sm font-medium cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={activationSettings.recursiveScan}
+                                    onChange={(e) => setActivationSettings(prev => ({ ...prev, recursiveScan: e.target.checked }))}
+                                    className="h-4 w-4 rounded border-gray-400 text-purple-600 focus:ring-purple-500"
+                                />
+                                {t('customRules.recursiveScan')}
+                            </label>
+                            <input
+                                type="number"
+                                value={activationSettings.maxRecursionDepth}
+                                onChange={(e) => setActivationSettings(prev => ({ ...prev, maxRecursionDepth: Math.max(1, parseInt(e.target.value) || 1) }))}
+                                disabled={!activationSettings.recursiveScan}
+                                min="1"
+                                max="10"
+                                title={t('customRules.maxRecursionDepth')}
+                                className="w-14 bg-white dark:bg-[#1f2238] border border-slate-300 dark:border-slate-500 rounded px-2 py-1 text-sm disabled:opacity-50"
+                            />
+                        </div>
                     </div>
 
                     {/* Statistics */}
                     <div className="mt-2 text-sm text-slate-600 dark:text-slate-400">
-                        Hiển thị {filteredAndSortedRules.length}/{rules.length} luật • 
-                        {rules.filter(r => r.isActive).length} hoạt động • 
-                        Tổng ước tính: {rules.reduce((sum, r) => sum + (r.tokenWeight || 0), 0)} tokens
+                        {t('customRules.stats', {
+                            shown: filteredAndSortedRules.length,
+                            total: rules.length,
+                            active: rules.filter(r => r.isActive).length,
+                            tokens: rules.reduce((sum, r) => sum + (r.tokenWeight || 0), 0)
+                        })}
                         {rules.some(r => r.category === 'worldinfo') && (
                             <span className="ml-2 text-purple-600 dark:text-purple-400">
-                                • {rules.filter(r => r.category === 'worldinfo').length} từ WorldInfo
+                                {t('customRules.fromWorldInfo', { count: rules.filter(r => r.category === 'worldinfo').length })}
                             </span>
                         )}
                     </div>
@@ -877,8 +1002,8 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                     {filteredAndSortedRules.length === 0 && (
                         <p className="text-center text-slate-600 dark:text-slate-400 italic py-8">
                             {searchQuery || filterCategory !== 'all' 
-                                ? 'Không tìm thấy luật nào phù hợp với bộ lọc.'
-                                : 'Chưa có luật lệ tùy chỉnh nào.'
+                                ? t('customRules.noMatches')
+                                : t('customRules.empty')
                             }
                         </p>
                     )}
@@ -887,7 +1012,7 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                         onClick={handleAddRule} 
                         className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-500 rounded-md text-white text-sm font-semibold transition-colors duration-200 flex items-center justify-center gap-2"
                     >
-                        <PlusIcon className="w-5 h-5" /> Thêm Luật Mới
+                        <PlusIcon className="w-5 h-5" /> {t('customRules.add')}
                     </button>
                 </div>
 
@@ -900,13 +1025,13 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                                 onClick={handleSaveRulesToFile} 
                                 className="px-2 py-1.5 bg-green-700 hover:bg-green-600 rounded-md text-white text-xs font-semibold transition-colors duration-200 flex items-center gap-1"
                             >
-                                <SaveIcon className="w-3 h-3"/> Xuất
+                                <SaveIcon className="w-3 h-3"/> {t('customRules.exportShort')}
                             </button>
                             <button 
                                 onClick={handleLoadRulesClick} 
                                 className="px-2 py-1.5 bg-sky-600 hover:bg-sky-500 rounded-md text-white text-xs font-semibold transition-colors duration-200 flex items-center gap-1"
                             >
-                                <FileIcon className="w-3 h-3"/> Nhập
+                                <FileIcon className="w-3 h-3"/> {t('customRules.importShort')}
                             </button>
                             <button 
                                 onClick={handleLoadWorldInfoClick} 
@@ -914,19 +1039,25 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                             >
                                 <DocumentAddIcon className="w-3 h-3"/> WorldInfo
                             </button>
+                            <button 
+                                onClick={handleExportWorldInfo} 
+                                className="px-2 py-1.5 bg-indigo-700 hover:bg-indigo-600 rounded-md text-white text-xs font-semibold transition-colors duration-200 flex items-center gap-1"
+                            >
+                                <SaveIcon className="w-3 h-3"/> {t('customRules.exportWorldInfoShort')}
+                            </button>
                         </div>
                         <div className="flex items-center gap-2">
                             <button 
                                 onClick={onClose} 
                                 className="flex-1 px-3 py-2 bg-slate-600 hover:bg-slate-500 rounded-md text-white text-sm font-semibold transition-colors duration-200"
                             >
-                                Hủy
+                                {t('customRules.cancel')}
                             </button>
                             <button 
                                 onClick={handleSave} 
                                 className="flex-1 px-3 py-2 bg-purple-600 hover:bg-purple-500 rounded-md text-white text-sm font-semibold transition-colors duration-200"
                             >
-                                Lưu ({rules.filter(r => r.isActive).length})
+                                {t('customRules.saveShort', { active: rules.filter(r => r.isActive).length })}
                             </button>
                         </div>
                     </div>
@@ -938,19 +1069,26 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                                 onClick={handleSaveRulesToFile} 
                                 className="px-3 py-2 bg-green-700 hover:bg-green-600 rounded-md text-white text-sm font-semibold transition-colors duration-200 flex items-center gap-2"
                             >
-                                <SaveIcon className="w-4 h-4"/> Xuất File
+                                <SaveIcon className="w-4 h-4"/> {t('customRules.exportFile')}
                             </button>
                             <button 
                                 onClick={handleLoadRulesClick} 
                                 className="px-3 py-2 bg-sky-600 hover:bg-sky-500 rounded-md text-white text-sm font-semibold transition-colors duration-200 flex items-center gap-2"
                             >
-                                <FileIcon className="w-4 h-4"/> Nhập File
+                                <FileIcon className="w-4 h-4"/> {t('customRules.importFile')}
                             </button>
                             <button 
                                 onClick={handleLoadWorldInfoClick} 
                                 className="px-3 py-2 bg-purple-700 hover:bg-purple-600 rounded-md text-white text-sm font-semibold transition-colors duration-200 flex items-center gap-2"
                             >
-                                <DocumentAddIcon className="w-4 h-4"/> Nhập WorldInfo
+                                <DocumentAddIcon className="w-4 h-4"/> {t('customRules.importWorldInfo')}
+                            </button>
+                            <button 
+                                onClick={handleExportWorldInfo} 
+                                className="px-3 py-2 bg-indigo-700 hover:bg-indigo-600 rounded-md text-white text-sm font-semibold transition-colors duration-200 flex items-center gap-2"
+                                title={t('customRules.exportWorldInfoHint')}
+                            >
+                                <SaveIcon className="w-4 h-4"/> {t('customRules.exportWorldInfo')}
                             </button>
                         </div>
 
@@ -959,13 +1097,13 @@ const EnhancedCustomRulesModalComponent: React.FC<EnhancedCustomRulesModalProps>
                                 onClick={onClose} 
                                 className="px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded-md text-white text-sm font-semibold transition-colors duration-200"
                             >
-                                Hủy
+                                {t('customRules.cancel')}
                             </button>
                             <button 
                                 onClick={handleSave} 
                                 className="px-4 py-2 bg-purple-600 hover:bg-purple-500 rounded-md text-white text-sm font-semibold transition-colors duration-200"
                             >
-                                Lưu Thay Đổi ({rules.filter(r => r.isActive).length} hoạt động)
+                                {t('customRules.save', { active: rules.filter(r => r.isActive).length })}
                             </button>
                         </div>
                     </div>
@@ -4,6 +4,9 @@ import { getIconForEntity, getIconForStatus, getStatusColors, getStatusBorderCol
 import { CrossIcon } from './Icons.tsx';
 import { MBTI_PERSONALITIES } from './data/mbti.ts';
 import { ConfirmationModal } from './ConfirmationModal';
+import { getMasteryThreshold, isMaxMastery as isMaxMasteryLevel } from './utils/skillExpManager';
+import { classifyRelationship, RELATIONSHIP_LABELS, type RelationshipTone } from './data/relationships';
+import { useI18n } from './hooks/useI18n';
 
 // Utility function to format numbers properly, removing trailing commas
 const formatNumber = (value: number): string => {
@@ -39,6 +42,7 @@ export const EntityInfoModal: React.FC<{
 }> = ({ entity, onClose, onUseItem, onLearnItem, onEquipItem, onUnequipItem, statuses, onStatusClick, onLocationAction, worldData, onEditSkill, onEditNPC, onEditPC, onEditLocation, onDeleteStatus, onMapOpen }) => {
     const [showDeleteStatusConfirm, setShowDeleteStatusConfirm] = useState(false);
     const [statusToDelete, setStatusToDelete] = useState<{ statusName: string; entityName: string } | null>(null);
+    const [, { t }] = useI18n();
 
     if (!entity) return null;
 
@@ -86,89 +90,32 @@ export const EntityInfoModal: React.FC<{
         return isOwnerMatch || isPcMatch;
     });
     
-    // Function to simplify complex relationship text to one clear Vietnamese attitude
+    // Reduce free-form relationship text to one translated attitude
     const simplifyRelationship = (relationship: string): string => {
-        if (!relationship) return 'Chưa xác định';
-        
-        const rel = relationship.toLowerCase();
-        
-        // Define relationship priorities (stronger relationships take precedence)
-        const relationshipPriority = [
-            // Romantic relationships (highest priority)
-            { keywords: ['người yêu', 'tình nhân', 'vợ', 'chồng', 'lover', 'wife', 'husband', 'romantic'], result: 'Người yêu' },
-            
-            // Very strong positive relationships
-            { keywords: ['devoted', 'loyal', 'love', 'adoring', 'yêu thương', 'tận tụy', 'tận hiến'], result: 'Tận tụy' },
-            
-            // Strong negative relationships  
-            { keywords: ['hostile', 'enemy', 'thù địch', 'thù ghét', 'kẻ thù'], result: 'Thù địch' },
-            
-            // Family relationships
-            { keywords: ['gia đình', 'anh em', 'chị em', 'family', 'sibling', 'brother', 'sister'], result: 'Gia đình' },
-            
-            // Close relationships
-            { keywords: ['đồng đội', 'teammate', 'partner', 'ally'], result: 'Đồng đội' },
-            { keywords: ['bạn thân', 'best friend', 'close friend'], result: 'Bạn thân' },
-            
-            // Positive relationships
-            { keywords: ['friendly', 'friend', 'warm', 'bạn bè', 'thân thiện'], result: 'Thân thiện' },
-            { keywords: ['respect', 'admire', 'reverent', 'tôn kính', 'ngưỡng mộ'], result: 'Tôn kính' },
-            { keywords: ['trust', 'confident', 'tin tưởng', 'tin cậy'], result: 'Tin tưởng' },
-            { keywords: ['grateful', 'thankful', 'biết ơn', 'cảm kích'], result: 'Biết ơn' },
-            
-            // Negative relationships
-            { keywords: ['suspicious', 'doubt', 'nghi ngờ', 'hoài nghi'], result: 'Nghi ngờ' },
-            { keywords: ['competitive', 'rival', 'cạnh tranh', 'đối thủ'], result: 'Cạnh tranh' },
-            { keywords: ['fear', 'afraid', 'sợ hãi', 'e ngại'], result: 'Sợ hãi' },
-            
-            // Neutral relationships
-            { keywords: ['curious', 'interested', 'tò mò', 'quan tâm'], result: 'Tò mò' },
-            { keywords: ['cautious', 'careful', 'cẩn thận', 'thận trọng'], result: 'Thận trọng' },
-            { keywords: ['neutral', 'trung lập', 'bình thường'], result: 'Trung lập' }
-        ];
-        
-        // Check each relationship type in priority order
-        for (const relType of relationshipPriority) {
-            for (const keyword of relType.keywords) {
-                if (rel.includes(keyword)) {
-                    return relType.result;
-                }
-            }
-        }
-        
+        const classified = classifyRelationship(relationship);
+        if (classified) return t(RELATIONSHIP_LABELS[classified.kind]);
+
         // If no specific keywords found, extract first meaningful part before "và" or other separators
         const firstPart = relationship.split(/\s*(?:và|and|,|;|\||\s-\s)\s*/)[0].trim();
         if (firstPart.length > 0 && firstPart.length < 20) {
             return firstPart;
         }
-        
-        return 'Chưa rõ';
+
+        return t('relationship.unclear');
     };
 
-    // Helper function to get relationship status color
-    const getRelationshipColor = (relationship: string): string => {
-        const simplified = simplifyRelationship(relationship);
-        const rel = simplified.toLowerCase();
-        
-        // Romantic relationships (special pink/red color)
-        if (rel.includes('người yêu') || rel.includes('tình nhân') || rel.includes('vợ') || rel.includes('chồng')) {
-            return 'text-pink-600 dark:text-pink-400';
-        }
-        // Negative relationships (red)
-        if (rel.includes('thù') || rel.includes('địch') || rel.includes('ghét') || rel.includes('sợ')) {
-            return 'text-red-600 dark:text-red-400';
-        } 
-        // Positive relationships (green)
-        else if (rel.includes('tận tụy') || rel.includes('thân thiện') || rel.includes('tin') || rel.includes('tôn kính') || rel.includes('biết ơn') || rel.includes('gia đình') || rel.includes('đồng đội') || rel.includes('bạn thân')) {
-            return 'text-green-600 dark:text-green-400';
-        } 
-        // Neutral relationships (yellow)
-        else if (rel.includes('trung lập') || rel.includes('tò mò') || rel.includes('thận trọng') || rel.includes('cạnh tranh')) {
-            return 'text-yellow-600 dark:text-yellow-400';
-        }
-        return 'text-slate-700 dark:text-gray-300';
+    const relationshipColors: Record<RelationshipTone, string> = {
+        romantic: 'text-pink-600 dark:text-pink-400',
+        negative: 'text-red-600 dark:text-red-400',
+        positive: 'text-green-600 dark:text-green-400',
+        neutral: 'text-yellow-600 dark:text-yellow-400',
+        unknown: 'text-slate-700 dark:text-gray-300'
     };
 
+    // Helper function to get relationship status color
+    const getRelationshipColor = (relationship: string): string =>
+        relationshipColors[classifyRelationship(relationship)?.tone ?? 'unknown'];
+
     // Helper function to get fame color
     const getFameColor = (fame: string): string => {
         const fameLevel = fame.toLowerCase();
@@ -192,15 +139,15 @@ export const EntityInfoModal: React.FC<{
                     <h3 className={`text-xl font-bold ${typeColors[entity.type] || 'text-slate-900 dark:text-white'} flex items-center gap-2`}>
                         <span className="w-6 h-6">{getIconForEntity(entity)}</span>
                         {entity.name}
-                        {entity.type === 'pc' && <span className="text-xs text-yellow-400 dark:text-yellow-500 font-normal italic">(Nhân vật chính)</span>}
-                        {entity.equipped && <span className="text-xs text-green-400 dark:text-green-500 font-normal italic">(Đang trang bị)</span>}
+                        {entity.type === 'pc' && <span className="text-xs text-yellow-400 dark:text-yellow-500 font-normal italic">{t('entityInfo.pcTag')}</span>}
+                        {entity.equipped && <span className="text-xs text-green-400 dark:text-green-500 font-normal italic">{t('entityInfo.equippedTag')}</span>}
                     </h3>
                     <div className="flex items-center gap-2">
                         {entity.type === 'skill' && onEditSkill && (
                             <button 
                                 onClick={() => onEditSkill(entity)} 
                                 className="text-amber-500 hover:text-amber-400 transition-colors p-1"
-                                title="Chỉnh sửa kỹ năng"
+                                title={t('entityInfo.editSkill')}
                             >
                                 ✏️
                             </button>
@@ -209,7 +156,7 @@ export const EntityInfoModal: React.FC<{
                             <button 
                                 onClick={() => onEditNPC(entity)} 
                                 className="text-blue-500 hover:text-blue-400 transition-colors p-1"
-                                title="Chỉnh sửa NPC"
+                                title={t('entityInfo.editNpc')}
                             >
                                 ✏️
                             </button>
@@ -218,7 +165,7 @@ export const EntityInfoModal: React.FC<{
                             <button 
                                 onClick={() => onEditPC(entity)} 
                                 className="text-yellow-500 hover:text-yellow-400 transition-colors p-1"
-                                title="Chỉnh sửa nhân vật chính"
+                                title={t('entityInfo.editPc')}
                             >
                                 ✏️
                             </button>
@@ -227,7 +174,7 @@ export const EntityInfoModal: React.FC<{
                             <button 
                                 onClick={() => onEditLocation(entity)} 
                                 className="text-green-500 hover:text-green-400 transition-colors p-1"
-                                title="Chỉnh sửa địa điểm"
+                                title={t('entityInfo.editLocation')}
                             >
                                 ✏️
                             </button>
@@ -242,62 +189,62 @@ export const EntityInfoModal: React.FC<{
 
                     {/* Basic Information */}
                     <div className="space-y-2">
-                        <p><strong className="font-semibold text-slate-800 dark:text-gray-100">Loại:</strong> <span className="capitalize">{entity.type === 'pc' ? 'Nhân vật chính' : entity.type === 'location' ? 'Địa điểm' : entity.type}</span></p>
+                        <p><strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.type')}</strong> <span className="capitalize">{entity.type === 'pc' ? t('entity.typePc') : entity.type === 'location' ? t('entity.typeLocation') : entity.type}</span></p>
                         
                         {/* Character-like info */}
                         {(entity.type === 'pc' || entity.type === 'npc' || entity.type === 'companion') && (
                             <>
-                                {entity.gender && <p><strong className="font-semibold text-slate-800 dark:text-gray-100">Giới tính:</strong> {entity.gender}</p>}
-                                {entity.age && <p><strong className="font-semibold text-slate-800 dark:text-gray-100">Tuổi:</strong> {entity.age}</p>}
+                                {entity.gender && <p><strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.gender')}:</strong> {entity.gender}</p>}
+                                {entity.age && <p><strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.age')}:</strong> {entity.age}</p>}
                                 {entity.appearance && (
                                     <div>
-                                        <strong className="font-semibold text-slate-800 dark:text-gray-100">Dung mạo:</strong>
+                                        <strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.appearance')}:</strong>
                                         <p className="pl-2 mt-1 text-sm">{entity.appearance}</p>
                                     </div>
                                 )}
-                                {entity.location && <p><strong className="font-semibold text-slate-800 dark:text-gray-100">Vị trí:</strong> {entity.location}</p>}
+                                {entity.location && <p><strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.location')}:</strong> {entity.location}</p>}
                                 
                                 {/* REALM AND THUC LUC - For PC and NPC */}
-                                {entity.type === 'pc' && entity.realm && <p><strong className="font-semibold text-slate-800 dark:text-gray-100">Cảnh giới:</strong> <span className="text-purple-600 dark:text-purple-400 font-medium">{entity.realm}</span></p>}
+                                {entity.type === 'pc' && entity.realm && <p><strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.realm')}:</strong> <span className="text-purple-600 dark:text-purple-400 font-medium">{entity.realm}</span></p>}
                                 
                                 {/* Always show Thực Lực for NPCs and Companions */}
                                 {(entity.type === 'npc' || entity.type === 'companion') && (
                                     <p>
-                                        <strong className="font-semibold text-slate-800 dark:text-gray-100">Thực Lực:</strong> 
+                                        <strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.power')}:</strong> 
                                         <span className="ml-2 text-cyan-600 dark:text-cyan-400 font-medium">
-                                            {entity.thucLuc || entity.realm || 'Chưa xác định'}
+                                            {entity.thucLuc || entity.realm || t('entity.undetermined')}
                                         </span>
                                     </p>
                                 )}
-                                {entity.currentExp !== undefined && <p><strong className="font-semibold text-slate-800 dark:text-gray-100">{worldData?.expName || 'Kinh nghiệm'}:</strong> <span className="text-blue-600 dark:text-blue-400 font-medium">{formatNumber(entity.currentExp)}</span></p>}
+                                {entity.currentExp !== undefined && <p><strong className="font-semibold text-slate-800 dark:text-gray-100">{worldData?.expName || t('entity.exp')}:</strong> <span className="text-blue-600 dark:text-blue-400 font-medium">{formatNumber(entity.currentExp)}</span></p>}
                                 
                                 {/* DANH VỌNG - Enhanced display for both PC and NPC */}
                                 <div>
-                                    <strong className="font-semibold text-slate-800 dark:text-gray-100">Danh vọng:</strong>
+                                    <strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.fame')}:</strong>
                                     {entity.fame ? (
                                         <span className={`ml-2 ${getFameColor(entity.fame)}`}>{entity.fame}</span>
                                     ) : (
                                         <span className="ml-2 text-gray-500 dark:text-gray-400 italic">
-                                            {entity.type === 'pc' ? 'Chưa có danh tiếng' : 'Chưa xác định'}
+                                            {entity.type === 'pc' ? t('entityInfo.noFame') : t('entity.undetermined')}
                                         </span>
                                     )}
                                 </div>
                                 
                                 {entity.personality && (
                                     <div>
-                                        <strong className="font-semibold text-slate-800 dark:text-gray-100">Tính cách (Bề ngoài):</strong>
+                                        <strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.personality')}:</strong>
                                         <p className="pl-2 mt-1 text-sm">{entity.personality}</p>
                                     </div>
                                 )}
                                 {entity.motivation && (
                                     <div>
-                                        <strong className="font-semibold text-slate-800 dark:text-gray-100">Động cơ:</strong>
+                                        <strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.motivation')}:</strong>
                                         <p className="pl-2 mt-1 text-sm">{entity.motivation}</p>
                                     </div>
                                 )}
                                 {entity.type !== 'pc' && entity.personalityMbti && MBTI_PERSONALITIES[entity.personalityMbti] && (
                                     <div>
-                                        <strong className="font-semibold text-slate-800 dark:text-gray-100">Tính cách (Cốt lõi):</strong>
+                                        <strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.personalityCore')}:</strong>
                                         <p className="pl-2 mt-1 text-sm">
                                             {` ${MBTI_PERSONALITIES[entity.personalityMbti].title} (${entity.personalityMbti}) - `}
                                             <span className="italic">{`"${MBTI_PERSONALITIES[entity.personalityMbti].description}"`}</span>
@@ -312,30 +259,30 @@ export const EntityInfoModal: React.FC<{
                             <>
                                 {/* Location Safety Status */}
                                 <div className="flex items-center gap-2">
-                                    <strong className="font-semibold text-slate-800 dark:text-gray-100">Tình trạng an toàn:</strong>
-                                    {entity.description?.toLowerCase().includes('an toàn') ? (
+                                    <strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.safety')}:</strong>
+                                    {/an toàn|\bsafe\b/i.test(entity.description ?? '') ? (
                                         <span className="inline-flex items-center gap-1 px-2 py-1 bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 text-sm font-medium rounded-full border border-green-300 dark:border-green-700">
-                                            🛡️ An toàn
+                                            {t('entity.safe')}
                                         </span>
                                     ) : (
                                         <span className="inline-flex items-center gap-1 px-2 py-1 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300 text-sm font-medium rounded-full border border-yellow-300 dark:border-yellow-700">
-                                            ⚠️ Chưa rõ
+                                            {t('entity.safetyUnknown')}
                                         </span>
                                     )}
                                 </div>
 
                                 {/* Location Discovery Status */}
                                 <div className="flex items-center gap-2">
-                                    <strong className="font-semibold text-slate-800 dark:text-gray-100">Trạng thái khám phá:</strong>
+                                    <strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.discovery')}:</strong>
                                     <span className="inline-flex items-center gap-1 px-2 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 text-sm font-medium rounded-full border border-blue-300 dark:border-blue-700">
-                                        🗺️ Đã khám phá
+                                        {t('entity.discovered')}
                                     </span>
                                 </div>
 
                                 {/* Current Location Indicator */}
                                 {entity.location && (
                                     <div className="flex items-center gap-2">
-                                        <strong className="font-semibold text-slate-800 dark:text-gray-100">Thuộc khu vực:</strong>
+                                        <strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.region')}:</strong>
                                         <span className="text-slate-600 dark:text-gray-400">{entity.location}</span>
                                     </div>
                                 )}
@@ -345,31 +292,30 @@ export const EntityInfoModal: React.FC<{
                         {/* Mastery for skills only (characters already have realm display above) */}
                         {entity.mastery && entity.type === 'skill' && (
                             <>
-                                <p><strong className="font-semibold text-slate-800 dark:text-gray-100">Mức độ thành thạo:</strong> <span className="text-cyan-600 dark:text-cyan-400 font-semibold">{entity.mastery}</span></p>
+                                <p><strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.mastery')}:</strong> <span className="text-cyan-600 dark:text-cyan-400 font-semibold">{entity.mastery}</span></p>
                                 
                                 {/* Skill Experience Bar */}
                                 {(() => {
                                     const skillExp = entity.skillExp || 0;
-                                    const masteryThresholds = { 'Sơ Cấp': 100, 'Trung Cấp': 300, 'Cao Cấp': 600, 'Đại Thành': 1000, 'Viên Mãn': 1500 };
-                                    const maxExp = masteryThresholds[entity.mastery] || 100;
+                                    const maxExp = getMasteryThreshold(entity.mastery);
                                     const expPercentage = Math.min((skillExp / maxExp) * 100, 100);
                                     const isFull = expPercentage >= 100;
                                     const isCapped = entity.skillCapped === true;
                                     const isEligibleForBreakthrough = entity.breakthroughEligible === true;
-                                    const isMaxMastery = entity.mastery === 'Viên Mãn';
+                                    const isMaxMastery = isMaxMasteryLevel(entity.mastery);
                                     
                                     return (
                                         <div className="mt-3">
                                             <div className="text-xs text-slate-600 dark:text-gray-400 mb-2 flex items-center gap-2">
-                                                <span>Kinh nghiệm kỹ năng</span>
+                                                <span>{t('entity.skillExp')}</span>
                                                 {isCapped && (
                                                     <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300 text-xs font-medium rounded-full border border-orange-300 dark:border-orange-700">
-                                                        🔒 Đạt Bình Cảnh
+                                                        {t('entity.skillCapped')}
                                                     </span>
                                                 )}
                                                 {isEligibleForBreakthrough && (
                                                     <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300 text-xs font-medium rounded-full border border-purple-300 dark:border-purple-700 animate-pulse">
-                                                        ✦ Có thể đột phá
+                                                        {t('entity.canBreakthrough')}
                                                     </span>
                                                 )}
                                             </div>
@@ -398,14 +344,14 @@ export const EntityInfoModal: React.FC<{
                                             </div>
                                             <div className="text-xs text-slate-500 dark:text-gray-500 mt-1 text-center">
                                                 {isCapped && isMaxMastery
-                                                    ? '🏆 Đã đạt tối đa!'
+                                                    ? t('entity.maxMastery')
                                                     : isCapped
                                                         ? isEligibleForBreakthrough
-                                                            ? '✦ Sẵn sàng đột phá! Tìm lựa chọn "✦Đột Phá✦"'
-                                                            : '🔒 Chờ cơ hội đột phá (20% mỗi lượt)'
+                                                            ? t('entityInfo.breakthroughReady')
+                                                            : t('entityInfo.breakthroughWaiting')
                                                         : isFull
-                                                            ? 'Sẵn sàng thăng cấp!'
-                                                            : `${expPercentage.toFixed(1)}% đến cấp độ tiếp theo`
+                                                            ? t('entity.readyToLevel')
+                                                            : t('entityInfo.toNextLevel', { percent: expPercentage.toFixed(1) })
                                                 }
                                             </div>
                                         </div>
@@ -418,7 +364,7 @@ export const EntityInfoModal: React.FC<{
                     {/* PC specific info - Skills */}
                     {entity.type === 'pc' && entity.learnedSkills && Array.isArray(entity.learnedSkills) && entity.learnedSkills.length > 0 && (
                         <div className="pt-3 mt-3 border-t border-slate-200 dark:border-slate-700/60">
-                            <strong className="font-semibold text-slate-800 dark:text-gray-100">Kỹ năng đã học:</strong>
+                            <strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.learnedSkills')}:</strong>
                             <ul className="list-disc list-inside pl-2 mt-1 space-y-1">
                                 {entity.learnedSkills.map((skillName: string) => (
                                     <li key={skillName} className="text-sm text-slate-600 dark:text-gray-400">
@@ -434,20 +380,20 @@ export const EntityInfoModal: React.FC<{
                         <div className="pt-3 mt-3 border-t border-slate-200 dark:border-slate-700/60 space-y-3">
                             {/* QUAN HỆ - Enhanced display */}
                             <div>
-                                <strong className="font-semibold text-slate-800 dark:text-gray-100">Quan hệ:</strong>
+                                <strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.relationship')}:</strong>
                                 {entity.relationship ? (
                                     <span className={`ml-2 ${getRelationshipColor(entity.relationship)}`}>
                                         {simplifyRelationship(entity.relationship)}
                                     </span>
                                 ) : (
-                                    <span className="ml-2 text-gray-500 dark:text-gray-400 italic">Chưa xác định</span>
+                                    <span className="ml-2 text-gray-500 dark:text-gray-400 italic">{t('relationship.undetermined')}</span>
                                 )}
                             </div>
 
                             {/* Skills */}
                             {Array.isArray(entity.skills) && entity.skills.length > 0 && (
                                 <div>
-                                    <strong className="font-semibold text-slate-800 dark:text-gray-100">Kỹ năng:</strong>
+                                    <strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.skills')}:</strong>
                                     <ul className="list-disc list-inside pl-2 mt-1 space-y-1">
                                         {entity.skills.map((skillName: string) => (
                                             <li key={skillName} className="text-sm text-slate-600 dark:text-gray-400">
@@ -463,7 +409,7 @@ export const EntityInfoModal: React.FC<{
                     {/* TRẠNG THÁI - Enhanced display for PC, NPC, and Companion */}
                     {(entity.type === 'pc' || entity.type === 'npc' || entity.type === 'companion') && (
                         <div className="pt-3 mt-3 border-t border-slate-200 dark:border-slate-700/60">
-                            <strong className="font-semibold text-slate-800 dark:text-gray-100">Trạng thái hiện tại:</strong>
+                            <strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entityInfo.currentStatuses')}</strong>
                             
                             {characterStatuses.length > 0 ? (
                                 <div className="flex flex-wrap gap-2 mt-2">
@@ -492,7 +438,7 @@ export const EntityInfoModal: React.FC<{
                                                         setShowDeleteStatusConfirm(true);
                                                     }}
                                                     className="absolute -top-2 -right-2 w-5 h-5 bg-red-500 hover:bg-red-600 hover:scale-110 text-white rounded-full text-xs flex items-center justify-center opacity-0 group-hover:opacity-100 transition-all duration-200 shadow-lg z-10"
-                                                    title={`Xóa trạng thái: ${status.name}`}
+                                                    title={t('entityInfo.removeStatus', { name: status.name })}
                                                 >
                                                     ×
                                                 </button>
@@ -503,7 +449,7 @@ export const EntityInfoModal: React.FC<{
                             ) : (
                                 <div className="mt-2 p-3 bg-slate-100 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700">
                                     <p className="text-sm text-gray-500 dark:text-gray-400 italic text-center">
-                                        {entity.type === 'pc' ? 'Đang trong tình trạng bình thường' : 'Không có trạng thái đặc biệt'}
+                                        {entity.type === 'pc' ? t('entityInfo.pcNoStatus') : t('entityInfo.npcNoStatus')}
                                     </p>
                                 </div>
                             )}
@@ -515,42 +461,42 @@ export const EntityInfoModal: React.FC<{
                         <div className="pt-3 mt-3 border-t border-slate-200 dark:border-slate-700/60 space-y-2">
                             {typeof entity.durability === 'number' && 
                                 <p>
-                                    <strong className="font-semibold text-slate-800 dark:text-gray-100">Độ bền:</strong> 
+                                    <strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entityInfo.durability')}</strong> 
                                     <span className={entity.durability <= 0 ? 'text-red-600 dark:text-red-400 font-bold' : entity.durability <= 20 ? 'text-yellow-600 dark:text-yellow-400' : 'text-green-600 dark:text-green-400'}>
                                         {` ${entity.durability} / 100 `}
-                                        {entity.durability <= 0 && <span className="ml-2">(Hỏng)</span>}
-                                        {entity.durability > 0 && entity.durability <= 20 && <span className="ml-2">(Sắp hỏng)</span>}
+                                        {entity.durability <= 0 && <span className="ml-2">{t('entityInfo.broken')}</span>}
+                                        {entity.durability > 0 && entity.durability <= 20 && <span className="ml-2">{t('entityInfo.nearlyBroken')}</span>}
                                     </span>
                                 </p>
                             }
                             {typeof entity.uses === 'number' && (
                                 <p>
-                                    <strong className="font-semibold text-slate-800 dark:text-gray-100">Số lần dùng:</strong> 
+                                    <strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entityInfo.uses')}</strong> 
                                     <span className={entity.uses <= 0 ? 'text-red-600 dark:text-red-400' : entity.uses <= 2 ? 'text-yellow-600 dark:text-yellow-400' : ''}>
                                         {entity.uses}
-                                        {entity.uses <= 0 && <span className="ml-2">(Đã hết)</span>}
-                                        {entity.uses > 0 && entity.uses <= 2 && <span className="ml-2">(Sắp hết)</span>}
+                                        {entity.uses <= 0 && <span className="ml-2">{t('entityInfo.usedUp')}</span>}
+                                        {entity.uses > 0 && entity.uses <= 2 && <span className="ml-2">{t('entityInfo.almostUsedUp')}</span>}
                                     </span>
                                 </p>
                             )}
                             {entity.owner && (
-                                <p><strong className="font-semibold text-slate-800 dark:text-gray-100">Chủ sở hữu:</strong> {entity.owner}</p>
+                                <p><strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entityInfo.owner')}</strong> {entity.owner}</p>
                             )}
                         </div>
                     )}
 
                     {/* Description */}
                     <div className="pt-3 mt-3 border-t border-slate-200 dark:border-slate-700/60">
-                        <strong className="font-semibold text-slate-800 dark:text-gray-100">Mô tả:</strong>
+                        <strong className="font-semibold text-slate-800 dark:text-gray-100">{t('entity.description')}:</strong>
                         <p className="mt-2 text-sm leading-relaxed bg-slate-50 dark:bg-slate-800/30 p-3 rounded-lg border border-slate-200 dark:border-slate-700">
-                            {entity.description || 'Chưa có mô tả.'}
+                            {entity.description || t('entityInfo.noDescription')}
                         </p>
                     </div>
                     
                     {/* Location Quick Actions */}
                     {entity.type === 'location' && (
                         <div className="mt-4 pt-4 border-t border-slate-200 dark:border-slate-700/60">
-                            <strong className="font-semibold text-slate-800 dark:text-gray-100 mb-3 block">Hành động nhanh:</strong>
+                            <strong className="font-semibold text-slate-800 dark:text-gray-100 mb-3 block">{t('entityInfo.quickActions')}</strong>
                             <div className="grid grid-cols-2 gap-2">
                                 <button 
                                     onClick={() => {
@@ -561,40 +507,40 @@ export const EntityInfoModal: React.FC<{
                                     }}
                                     className="px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md font-medium transition-colors duration-200 flex items-center justify-center gap-2 text-sm"
                                 >
-                                    🗺️ Xem trên bản đồ
+                                    {t('entityInfo.viewOnMap')}
                                 </button>
                                 <button 
                                     onClick={() => {
                                         if (onLocationAction) {
-                                            onLocationAction(`Đi tới ${entity.name}`);
+                                            onLocationAction(t('entityInfo.goToAction', { name: entity.name }));
                                         }
                                         onClose();
                                     }}
                                     className="px-3 py-2 bg-green-600 hover:bg-green-700 text-white rounded-md font-medium transition-colors duration-200 flex items-center justify-center gap-2 text-sm"
                                 >
-                                    📍 Đi tới đây
+                                    {t('entityInfo.goHere')}
                                 </button>
                                 <button 
                                     onClick={() => {
                                         if (onLocationAction) {
-                                            onLocationAction(`Khám phá ${entity.name}`);
+                                            onLocationAction(t('entityInfo.exploreAction', { name: entity.name }));
                                         }
                                         onClose();
                                     }}
                                     className="px-3 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-md font-medium transition-colors duration-200 flex items-center justify-center gap-2 text-sm"
                                 >
-                                    🔍 Khám phá
+                                    {t('entityInfo.explore')}
                                 </button>
                                 <button 
                                     onClick={() => {
                                         if (onLocationAction) {
-                                            onLocationAction(`Ghi chú về ${entity.name}`);
+                                            onLocationAction(t('entityInfo.noteAction', { name: entity.name }));
                                         }
                                         onClose();
                                     }}
                                     className="px-3 py-2 bg-orange-600 hover:bg-orange-700 text-white rounded-md font-medium transition-colors duration-200 flex items-center justify-center gap-2 text-sm"
                                 >
-                                    📝 Ghi chú
+                                    {t('entityInfo.note')}
                                 </button>
                             </div>
                         </div>
@@ -609,14 +555,14 @@ export const EntityInfoModal: React.FC<{
                                         onClick={() => onEquipItem(entity.name)} 
                                         className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-md font-semibold transition-colors duration-200 flex items-center justify-center gap-2"
                                     >
-                                        ⚔️ Trang bị
+                                        {t('entityInfo.equip')}
                                     </button>
                                 ) : (
                                     <button 
                                         onClick={() => onUnequipItem(entity.name)} 
                                         className="px-4 py-2 bg-yellow-600 hover:bg-yellow-700 text-white rounded-md font-semibold transition-colors duration-200 flex items-center justify-center gap-2"
                                     >
-                                        📤 Gỡ trang bị
+                                        {t('entityInfo.unequip')}
                                     </button>
                                 )
                             )}
@@ -625,7 +571,7 @@ export const EntityInfoModal: React.FC<{
                                     onClick={() => onUseItem(entity.name)} 
                                     className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md font-semibold transition-colors duration-200 flex items-center justify-center gap-2"
                                 >
-                                    🍃 Sử dụng {(entity.quantities && `(${entity.quantities} lần)`) || (entity.uses && `(${entity.uses} lần)`)}
+                                    {(entity.quantities || entity.uses) ? t('entityInfo.useCount', { count: entity.quantities || entity.uses }) : t('entityInfo.use')}
                                 </button>
                             )}
                             {isLearnableItem && (
@@ -633,7 +579,7 @@ export const EntityInfoModal: React.FC<{
                                     onClick={() => onLearnItem(entity.name)} 
                                     className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-md font-semibold transition-colors duration-200 flex items-center justify-center gap-2"
                                 >
-                                    📚 Học công pháp
+                                    {t('entityInfo.learn')}
                                 </button>
                             )}
                         </div>
@@ -646,10 +592,10 @@ export const EntityInfoModal: React.FC<{
                 isOpen={showDeleteStatusConfirm}
                 onClose={handleDeleteStatusCancel}
                 onConfirm={handleDeleteStatusConfirm}
-                title="Xác nhận xóa trạng thái"
-                message={`Bạn có muốn xóa trạng thái này không?${statusToDelete ? ` "${statusToDelete.statusName}"` : ''}`}
-                confirmText="Có"
-                cancelText="Hủy bỏ"
+                title={t('entityInfo.removeStatusTitle')}
+                message={statusToDelete ? t('entityInfo.removeStatusMessageNamed', { name: statusToDelete.statusName }) : t('entityInfo.removeStatusMessage')}
+                confirmText={t('common.yes')}
+                cancelText={t('common.cancel')}
                 confirmButtonColor="blue"
             />
         </div>
@@ -3,9 +3,9 @@
 
 
 import React, { useState, useEffect, useRef, useMemo, useContext, useCallback } from 'react';
-import { GoogleGenAI, Type } from "@google/genai";
 import { AIContext } from '../App.tsx';
-import type { SaveData, FormData, KnownEntities, Status, GameHistoryEntry, Memory, Entity, CustomRule, RegexRule, Chronicle, CompressedHistorySegment } from './types.ts';
+import type { SaveData, FormData, KnownEntities, Status, GameHistoryEntry, Memory, Entity, CustomRule, RuleActivationSettings, RegexRule, Chronicle, CompressedHistorySegment, ResponseSchema, CommandTagRejection, ReferenceToolCall, PromptInspection } from './types.ts';
+import { SchemaType } from './types.ts';
 import { buildEnhancedRagPrompt } from './promptBuilder.ts';
 import { RetryStatusPanel, RetryStatusIndicator } from './game/RetryStatusPanel';
 import { setupQueuedChoiceHandler } from './utils/RetryIntegration';
@@ -15,8 +15,14 @@ import { useLastChoiceRetry } from './utils/lastChoiceRetryHandler';
 import { createGameActionHandlers } from './handlers/gameActionHandlers';
 import { createEntityHandlers } from './handlers/entityHandlers';
 import { createGameStateHandlers } from './handlers/gameStateHandlers';
-import { createAutoTrimmedStoryLog } from './utils/storyLogUtils';
+import { createAutoTrimmedStoryLog, formatStoryLogForDisplay, DISPLAY_PLACEMENTS } from './utils/storyLogUtils';
+import { regexSandbox } from './utils/RegexSandbox';
 import { createCommandTagProcessor } from './utils/commandTagProcessor';
+import { appendTagJournal } from './utils/tagJournal';
+import { appendReferenceToolLog } from './utils/referenceTools';
+import { appendPromptInspection } from './utils/promptInspector';
+import { resolvePromptTemplate, getPromptLocale } from './utils/promptTemplates';
+import { createEmbeddingProvider } from './providers/providerFactory';
 import { partyDebugger } from './utils/partyDebugger';
 
 // Custom Hooks
@@ -24,10 +30,17 @@ import { useGameState } from './hooks/useGameState';
 import { useModalState } from './hooks/useModalState';
 import { useGameSettings } from './hooks/useGameSettings';
 import { useHistoryCompression } from './hooks/useHistoryCompression';
+import { useTurnHistory } from './hooks/useTurnHistory';
 
 // Modal Imports
 import { MemoizedModals } from './MemoizedModals.tsx';
 import { GameSettingsModal, GameSettings } from './GameSettingsModal.tsx';
+import { TimelineBranchModal } from './TimelineBranchModal.tsx';
+import { PromptInspectorModal } from './PromptInspectorModal.tsx';
+import { PromptTemplatesModal } from './PromptTemplatesModal.tsx';
+import { SaveLibraryModal } from './SaveLibraryModal.tsx';
+import { CommandTagRejectionModal } from './CommandTagRejectionModal.tsx';
+import { saveSlotManager } from './utils/SaveSlotManager';
 
 // UI Components
 import { DesktopHeader } from './game/DesktopHeader.tsx';
@@ -44,12 +57,16 @@ import { FloatingTimeDisplay } from './FloatingTimeDisplay.tsx';
 
 // Optimization and Management
 import { GameStateOptimizer, CleanupStats } from './GameStateOptimizer';
-import { UnifiedMemoryManager } from './utils/UnifiedMemoryManager';
+import { UnifiedMemoryManager, type CleanupResult } from './utils/UnifiedMemoryManager';
+import { updateHistorySummaries, mergeHistorySummaries } from './utils/historySummarizer';
+import { enhancedGenerateContent } from './utils/RetryIntegration';
 import { MemoryAnalytics } from './utils/MemoryAnalytics';
 import { useDebouncedCallback } from './hooks/useDebounce.ts';
 import { OptimizedInteractiveText } from './OptimizedInteractiveText.tsx';
 import { getThemeColors } from './utils/themeUtils';
 import { createContextHeader } from './utils/weatherGenerator';
+import { retrievalIndex } from './utils/RetrievalIndex';
+import { useI18n } from './hooks/useI18n';
 
 // Helper functions moved to extracted files
 
@@ -59,12 +76,15 @@ export const GameScreen: React.FC<{
     keyRotationNotification: string | null;
     onClearNotification: () => void;
     onLoadGameFromFile?: (file: File) => void;
-}> = ({ initialGameState, onBackToMenu, keyRotationNotification, onClearNotification, onLoadGameFromFile }) => {
+    onLoadSaveData?: (data: SaveData) => void;
+}> = ({ initialGameState, onBackToMenu, keyRotationNotification, onClearNotification, onLoadGameFromFile, onLoadSaveData }) => {
     const { ai, isAiReady, apiKeyError, rotateKey, isUsingDefaultKey, userApiKeyCount, selectedModel, temperature, topK, topP } = useContext(AIContext);
+    const [, { t }] = useI18n();
     
     // Refs
     const isGeneratingRef = useRef<boolean>(false);
     const previousRulesRef = useRef<CustomRule[]>(initialGameState.customRules);
+    const generationAbortRef = useRef<AbortController | null>(null);
 
     // Rule change tracking
     const [ruleChanges, setRuleChanges] = useState<{ activated: CustomRule[], deactivated: CustomRule[], updated: { oldRule: CustomRule, newRule: CustomRule }[] } | null>(null);
@@ -74,6 +94,12 @@ export const GameScreen: React.FC<{
     const [cooldownEndTime, setCooldownEndTime] = useState<number>(0);
     const [cooldownTimeLeft, setCooldownTimeLeft] = useState<number>(0);
 
+    // Partial story text shown while a turn is streaming
+    const [streamingStory, setStreamingStory] = useState<string>('');
+
+    // Last response whose command tags were rejected as a whole
+    const [tagRejection, setTagRejection] = useState<CommandTagRejection | null>(null);
+
     // --- Data Rehydration Logic ---
     const { rehydratedLog, rehydratedChoices } = useMemo(() => {
         // Priority 1: Use directly saved log and choices if they exist (new save format)
@@ -117,35 +143,51 @@ export const GameScreen: React.FC<{
         return { rehydratedLog: log, rehydratedChoices: lastChoices };
     }, [initialGameState]); 
 
+    // Start from the retrieval index saved with the game; the first prompt syncs whatever it misses
+    useEffect(() => {
+        retrievalIndex.load(initialGameState.retrievalIndex);
+    }, [initialGameState]);
+
     // Initialize custom hooks
     const [gameSettingsState, gameSettingsActions] = useGameSettings();
     const [historyCompressionState, historyCompressionActions] = useHistoryCompression(initialGameState);
     const [gameState, gameStateActions] = useGameState(initialGameState, isAiReady, rehydratedLog, rehydratedChoices);
     const [modalState, modalStateActions] = useModalState();
+    const [turnHistoryState, turnHistoryActions] = useTurnHistory(initialGameState);
 
     // Extract values from hooks for easier access
     const {
         worldData, knownEntities, statuses, quests, gameHistory, memories, party,
-        customRules, regexRules, systemInstruction, chronicle, gameTime, turnCount, currentTurnTokens,
-        totalTokens, storyLog, choices, npcsPresent, locationDiscoveryOrder, choiceHistory, cotResearchLog, isLoading,
+        customRules, ruleActivationSettings, regexRules, systemInstruction, promptTemplates, chronicle, gameTime, turnCount, currentTurnTokens,
+        totalTokens, storyLog, choices, npcsPresent, locationDiscoveryOrder, choiceHistory, cotResearchLog, tagJournal, referenceToolLog, isLoading,
         hasGeneratedInitialStory, customAction
     } = gameState;
 
     const {
         setWorldData, setKnownEntities, setStatuses, setQuests, setGameHistory, setMemories,
-        setParty, setCustomRules, setRegexRules, setSystemInstruction, setChronicle, setGameTime,
+        setParty, setCustomRules, setRuleActivationSettings, setRegexRules, setSystemInstruction, setPromptTemplates, setChronicle, setGameTime,
         setTurnCount, setCurrentTurnTokens, setTotalTokens, setStoryLog, setChoices, setNPCsPresent,
-        setLocationDiscoveryOrder, updateChoiceHistory, setCotResearchLog, setIsLoading, setHasGeneratedInitialStory, setCustomAction
+        setLocationDiscoveryOrder, updateChoiceHistory, setCotResearchLog, setTagJournal, setReferenceToolLog, setIsLoading, setHasGeneratedInitialStory, setCustomAction
     } = gameStateActions;
 
     // Create auto-trimmed story log for main story updates
     const storyLogManager = useMemo(() => createAutoTrimmedStoryLog(setStoryLog), [setStoryLog]);
 
+    // Display formatting runs on the main thread, so its rules are screened in the regex sandbox first
+    const [displayStoryLog, setDisplayStoryLog] = useState<string[]>(storyLog);
+    useEffect(() => {
+        let cancelled = false;
+        regexSandbox.screenRules(storyLog.join('\n'), regexRules, DISPLAY_PLACEMENTS).then(() => {
+            if (!cancelled) setDisplayStoryLog(formatStoryLogForDisplay(storyLog, regexRules));
+        });
+        return () => { cancelled = true; };
+    }, [storyLog, regexRules]);
+
     const {
         isHomeModalOpen, isRestartModalOpen, isMemoryModalOpen, isKnowledgeModalOpen,
         isCustomRulesModalOpen, isMapModalOpen, isPcInfoModalOpen, isPartyModalOpen,
         isQuestLogModalOpen, isSidebarOpen, isChoicesModalOpen, isGameSettingsModalOpen,
-        isInventoryModalOpen, isNPCPresenceModalOpen, isAdminModalOpen, isEditItemModalOpen, isEditSkillModalOpen, isEditNPCModalOpen, isEditPCModalOpen, isEditLocationModalOpen, isRegexManagerModalOpen, activeEntity, activeStatus, activeQuest, activeEditItem, activeEditSkill, activeEditNPC, activeEditPC, activeEditLocation, showSaveSuccess, showRulesSavedSuccess,
+        isInventoryModalOpen, isNPCPresenceModalOpen, isAdminModalOpen, isEditItemModalOpen, isEditSkillModalOpen, isEditNPCModalOpen, isEditPCModalOpen, isEditLocationModalOpen, isRegexManagerModalOpen, isTimelineModalOpen, isPromptInspectorModalOpen, isPromptTemplatesModalOpen, isSaveLibraryModalOpen, activeEntity, activeStatus, activeQuest, activeEditItem, activeEditSkill, activeEditNPC, activeEditPC, activeEditLocation, showSaveSuccess, showRulesSavedSuccess,
         notification
     } = modalState;
 
@@ -153,15 +195,22 @@ export const GameScreen: React.FC<{
         setIsHomeModalOpen, setIsRestartModalOpen, setIsMemoryModalOpen, setIsKnowledgeModalOpen,
         setIsCustomRulesModalOpen, setIsMapModalOpen, setIsPcInfoModalOpen, setIsPartyModalOpen,
         setIsQuestLogModalOpen, setIsSidebarOpen, setIsChoicesModalOpen, setIsGameSettingsModalOpen,
-        setIsInventoryModalOpen, setIsNPCPresenceModalOpen, setIsAdminModalOpen, setIsEditItemModalOpen, setIsEditSkillModalOpen, setIsEditNPCModalOpen, setIsEditPCModalOpen, setIsEditLocationModalOpen, setIsRegexManagerModalOpen, setActiveEntity, setActiveStatus, setActiveQuest, setActiveEditItem, setActiveEditSkill, setActiveEditNPC, setActiveEditPC, setActiveEditLocation, setShowSaveSuccess, setShowRulesSavedSuccess,
+        setIsInventoryModalOpen, setIsNPCPresenceModalOpen, setIsAdminModalOpen, setIsEditItemModalOpen, setIsEditSkillModalOpen, setIsEditNPCModalOpen, setIsEditPCModalOpen, setIsEditLocationModalOpen, setIsRegexManagerModalOpen, setIsTimelineModalOpen, setIsPromptInspectorModalOpen, setIsPromptTemplatesModalOpen, setIsSaveLibraryModalOpen, setActiveEntity, setActiveStatus, setActiveQuest, setActiveEditItem, setActiveEditSkill, setActiveEditNPC, setActiveEditPC, setActiveEditLocation, setShowSaveSuccess, setShowRulesSavedSuccess,
         setNotification, modalCloseHandlers
     } = modalStateActions;
 
+    // Persist rules the regex sandbox disabled for running past their time budget
+    useEffect(() => regexSandbox.onRuleTimedOut(rule => {
+        setRegexRules(prev => prev.map(r => r.id === rule.id ? { ...r, disabled: true, timedOutAt: rule.timedOutAt } : r));
+        setNotification(t('game.notify.regexTimedOut', { name: rule.name, ms: regexSandbox.timeBudgetMs }));
+        setTimeout(() => setNotification(null), 5000);
+    }), [setRegexRules, setNotification, t]);
+
     const { gameSettings } = gameSettingsState;
     const { handleSettingsChange } = gameSettingsActions;
 
-    const { compressedHistory, historyStats, cleanupStats } = historyCompressionState;
-    const { setCompressedHistory, setHistoryStats, setCleanupStats } = historyCompressionActions;
+    const { compressedHistory, historySummaries, historyStats, cleanupStats } = historyCompressionState;
+    const { setCompressedHistory, setHistorySummaries, setHistoryStats, setCleanupStats } = historyCompressionActions;
 
     // Unified Memory Management State
     const [archivedMemories, setArchivedMemories] = useState<Memory[]>(initialGameState.archivedMemories || []);
@@ -179,38 +228,40 @@ export const GameScreen: React.FC<{
     const commandTagProcessor = useMemo(() => createCommandTagProcessor({
         setGameTime, setChronicle, setMemories, setStatuses, setKnownEntities, setQuests,
         setParty, setLocationDiscoveryOrder,
-        knownEntities, statuses, party, regexRules, turnCount, worldData
-    }), [knownEntities, statuses, party, regexRules, turnCount, worldData]);
+        knownEntities, statuses, party, quests, memories, gameTime, chronicle, locationDiscoveryOrder,
+        regexRules, turnCount, worldData, onTagsRejected: setTagRejection,
+        onTagsCommitted: entries => setTagJournal(prev => appendTagJournal(prev, entries))
+    }), [knownEntities, statuses, party, quests, memories, gameTime, chronicle, locationDiscoveryOrder, regexRules, turnCount, worldData]);
     
     const parseStoryAndTags = useCallback((storyText: string, applySideEffects = true): string => {
         return commandTagProcessor.parseStoryAndTags(storyText, applySideEffects);
     }, [commandTagProcessor]);
 
     // Define response schema - conditional based on COT setting
-    const responseSchema = useMemo(() => {
+    const responseSchema = useMemo((): ResponseSchema => {
         const baseProperties = {
-            story: { type: Type.STRING, description: "Phần văn bản tường thuật của câu chuyện, bao gồm các định dạng đặc biệt và các thẻ lệnh ẩn." },
+            story: { type: SchemaType.STRING, description: "Phần văn bản tường thuật của câu chuyện, bao gồm các định dạng đặc biệt và các thẻ lệnh ẩn." },
             npcs_present: {
-              type: Type.ARRAY,
+              type: SchemaType.ARRAY,
               items: {
-                type: Type.OBJECT,
+                type: SchemaType.OBJECT,
                 properties: {
-                  name: { type: Type.STRING, description: "Tên NPC" },
-                  gender: { type: Type.STRING, description: "Giới tính NPC" },
-                  age: { type: Type.STRING, description: "Tuổi NPC" },
-                  appearance: { type: Type.STRING, description: "Mô tả ngoại hình NPC" },
-                  description: { type: Type.STRING, description: "Mô tả về NPC" },
-                  relationship: { type: Type.STRING, description: "Quan hệ với player" },
-                  inner_thoughts: { type: Type.STRING, description: "Nội tâm NPC về hành động player" },
-                  realm: { type: Type.STRING, description: "Thực lực hoặc cảnh giới tu luyện của NPC" }
+                  name: { type: SchemaType.STRING, description: "Tên NPC" },
+                  gender: { type: SchemaType.STRING, description: "Giới tính NPC" },
+                  age: { type: SchemaType.STRING, description: "Tuổi NPC" },
+                  appearance: { type: SchemaType.STRING, description: "Mô tả ngoại hình NPC" },
+                  description: { type: SchemaType.STRING, description: "Mô tả về NPC" },
+                  relationship: { type: SchemaType.STRING, description: "Quan hệ với player" },
+                  inner_thoughts: { type: SchemaType.STRING, description: "Nội tâm NPC về hành động player" },
+                  realm: { type: SchemaType.STRING, description: "Thực lực hoặc cảnh giới tu luyện của NPC" }
                 },
                 required: ['name', 'inner_thoughts', 'realm']
               },
               description: "Danh sách các NPC hiện diện trong bối cảnh hiện tại với nội tâm của họ."
             },
             choices: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING },
+              type: SchemaType.ARRAY,
+              items: { type: SchemaType.STRING },
               description: "Một mảng gồm 4-6 lựa chọn cho người chơi."
             }
         };
@@ -218,7 +269,7 @@ export const GameScreen: React.FC<{
         // Add COT reasoning field only if COT is enabled
         const properties = gameSettings.enableCOT 
             ? {
-                cot_reasoning: { type: Type.STRING, description: "MANDATORY: Chain of Thought reasoning steps in Vietnamese, starting with 'BƯỚC MỘT:', 'BƯỚC HAI:', etc." },
+                cot_reasoning: { type: SchemaType.STRING, description: "MANDATORY: Chain of Thought reasoning steps in Vietnamese, starting with 'BƯỚC MỘT:', 'BƯỚC HAI:', etc." },
                 ...baseProperties
               }
             : baseProperties;
@@ -229,7 +280,7 @@ export const GameScreen: React.FC<{
             : ['story', 'choices'];
 
         return {
-            type: Type.OBJECT,
+            type: SchemaType.OBJECT,
             properties,
             required
         };
@@ -248,10 +299,10 @@ export const GameScreen: React.FC<{
             console.log(`🕐 High token usage detected (${currentTurnTokens.toLocaleString()} tokens). Starting 60-second cooldown.`);
             
             // Show notification
-            setNotification(`⚠️ Sử dụng token cao (${Math.round(currentTurnTokens / 1000)}k). Chờ 60 giây trước khi thực hiện hành động tiếp theo.`);
+            setNotification(t('game.notify.highTokenCooldown', { tokens: Math.round(currentTurnTokens / 1000) }));
             setTimeout(() => setNotification(null), 5000);
         }
-    }, [currentTurnTokens, setNotification]);
+    }, [currentTurnTokens, setNotification, t]);
 
     // COT Research Log callback
     const updateCOTResearchLog = useCallback((entry: any) => {
@@ -261,16 +312,60 @@ export const GameScreen: React.FC<{
         ].slice(-100)); // Keep last 100 entries to prevent save file bloat
     }, [setCotResearchLog]);
 
+    const recordReferenceToolCalls = useCallback((calls: ReferenceToolCall[]) => {
+        setReferenceToolLog(prev => appendReferenceToolLog(prev, calls));
+    }, [setReferenceToolLog]);
+
+    // Assembled prompts of the last few turns, for the prompt inspector (not saved)
+    const [promptInspections, setPromptInspections] = useState<PromptInspection[]>([]);
+    const recordPromptInspection = useCallback((inspection: PromptInspection) => {
+        setPromptInspections(prev => appendPromptInspection(prev, inspection));
+    }, []);
+
+    // Model-written summary of a freshly compressed segment, generated in the background
+    const summarizeCompressedHistory = useCallback((processed: CleanupResult['historyProcessed']) => {
+        if (!gameSettings.llmHistorySummaries || !ai || !processed.compressed || !processed.compressedEntries?.length) return;
+        updateHistorySummaries(
+            request => enhancedGenerateContent(ai, request, 'history_summary'),
+            selectedModel, historySummaries, processed.compressed, processed.compressedEntries, knownEntities,
+            getPromptLocale(worldData)
+        ).then(({ summaries, tokens }) => {
+            setHistorySummaries(prev => mergeHistorySummaries(prev, summaries));
+            if (tokens > 0) setTotalTokens(prev => prev + tokens);
+        }).catch(error => console.warn('⚠️ History summarization failed:', error));
+    }, [gameSettings.llmHistorySummaries, ai, selectedModel, historySummaries, knownEntities, worldData, setHistorySummaries, setTotalTokens]);
+
+    // Embedding provider for semantic recall; an incomplete remote setup turns recall off
+    const embeddingProvider = useMemo(() => {
+        try {
+            return createEmbeddingProvider(gameSettings.semanticRecall, {
+                baseUrl: gameSettings.embeddingBaseUrl,
+                model: gameSettings.embeddingModel,
+                apiKey: gameSettings.embeddingApiKey
+            });
+        } catch (error) {
+            console.warn('⚠️ Semantic recall disabled:', error);
+            return null;
+        }
+    }, [gameSettings.semanticRecall, gameSettings.embeddingBaseUrl, gameSettings.embeddingModel, gameSettings.embeddingApiKey]);
+
+    // The world's system instruction unless the player edited the template
+    const activeSystemInstruction = useMemo(
+        () => resolvePromptTemplate('systemInstruction', promptTemplates, {}, systemInstruction),
+        [promptTemplates, systemInstruction]
+    );
+
     // Initialize game action handlers
     const gameActionHandlers = useMemo(() => createGameActionHandlers({
-        ai, selectedModel, systemInstruction, responseSchema,
+        ai, selectedModel, systemInstruction: activeSystemInstruction, responseSchema,
         isUsingDefaultKey, userApiKeyCount, rotateKey, rehydratedChoices,
-        temperature, topK, topP, enableCOT: gameSettings.enableCOT,
-        setIsLoading, setChoices, setCustomAction, setStoryLog, setGameHistory,
+        temperature, topK, topP, enableCOT: gameSettings.enableCOT, enableStreaming: gameSettings.enableStreaming,
+        enableReferenceTools: gameSettings.enableReferenceTools, maxReferenceToolHops: gameSettings.maxReferenceToolHops, embeddingProvider,
+        setIsLoading, setChoices, setCustomAction, setStreamingStory, setStoryLog, setGameHistory,
         setTurnCount, setCurrentTurnTokens, setTotalTokens, setNPCsPresent, setQuests, setKnownEntities,
         gameHistory, customRules, regexRules, ruleChanges, setRuleChanges, parseStoryAndTags,
-        knownEntities, updateChoiceHistory, updateCOTResearchLog, triggerHighTokenCooldown
-    }), [ai, selectedModel, systemInstruction, responseSchema, isUsingDefaultKey, userApiKeyCount, rotateKey, rehydratedChoices, temperature, topK, topP, gameSettings.enableCOT, gameHistory, customRules, regexRules, ruleChanges, parseStoryAndTags, knownEntities, updateChoiceHistory, updateCOTResearchLog, triggerHighTokenCooldown, setNPCsPresent, setQuests, setKnownEntities]);
+        knownEntities, updateChoiceHistory, updateCOTResearchLog, recordReferenceToolCalls, recordPromptInspection, triggerHighTokenCooldown, generationAbortRef
+    }), [ai, selectedModel, activeSystemInstruction, responseSchema, isUsingDefaultKey, userApiKeyCount, rotateKey, rehydratedChoices, temperature, topK, topP, gameSettings.enableCOT, gameSettings.enableStreaming, gameSettings.enableReferenceTools, gameSettings.maxReferenceToolHops, embeddingProvider, gameHistory, customRules, regexRules, ruleChanges, parseStoryAndTags, knownEntities, updateChoiceHistory, updateCOTResearchLog, recordReferenceToolCalls, recordPromptInspection, triggerHighTokenCooldown, setNPCsPresent, setQuests, setKnownEntities]);
 
     // Function to get current game state
     const getCurrentGameState = useCallback((): SaveData => {
@@ -283,8 +378,10 @@ export const GameScreen: React.FC<{
             memories,
             party,
             customRules,
+            ruleActivationSettings,
             regexRules,
             systemInstruction,
+            promptTemplates,
             turnCount,
             totalTokens,
             gameTime,
@@ -294,7 +391,7 @@ export const GameScreen: React.FC<{
             choiceHistory,
             cotResearchLog
         };
-    }, [worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, regexRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, storyLog, choices, choiceHistory, cotResearchLog]);
+    }, [worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, ruleActivationSettings, regexRules, systemInstruction, promptTemplates, turnCount, totalTokens, gameTime, chronicle, storyLog, choices, choiceHistory, cotResearchLog]);
 
     // Initialize entity handlers  
     const entityHandlers = useMemo(() => createEntityHandlers({
@@ -311,14 +408,60 @@ export const GameScreen: React.FC<{
     // Initialize game state handlers
     const gameStateHandlers = useMemo(() => createGameStateHandlers({
         worldData, knownEntities, statuses, quests, gameHistory, memories, party,
-        customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle,
-        compressedHistory, historyStats, cleanupStats, archivedMemories, memoryStats,
-        storyLog, choices, locationDiscoveryOrder, choiceHistory,
-        setShowSaveSuccess, setStoryLog, setChoices, setStatuses, setQuests, setMemories,
-        setKnownEntities, setParty, setCustomRules, setTurnCount, setTotalTokens, setGameTime, setChronicle,
+        customRules, ruleActivationSettings, systemInstruction, promptTemplates, turnCount, totalTokens, gameTime, chronicle,
+        compressedHistory, historySummaries, historyStats, cleanupStats, archivedMemories, memoryStats,
+        storyLog, choices, locationDiscoveryOrder, choiceHistory, tagJournal, referenceToolLog,
+        setShowSaveSuccess, setNotification, setStoryLog, setChoices, setStatuses, setQuests, setMemories,
+        setKnownEntities, setParty, setCustomRules, setRuleActivationSettings, setTurnCount, setTotalTokens, setGameTime, setChronicle,
         setRuleChanges, setGameHistory, setHasGeneratedInitialStory, setIsLoading,
-        isGeneratingRef, initialGameState, previousRulesRef
-    }), [worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory, historyStats, cleanupStats, archivedMemories, memoryStats, storyLog, choices, locationDiscoveryOrder, choiceHistory]);
+        setLocationDiscoveryOrder, setTagJournal, setCompressedHistory,
+        isGeneratingRef, initialGameState, previousRulesRef,
+        serializeTurnSnapshots: turnHistoryActions.serializeTurnSnapshots,
+        resetTurnHistory: turnHistoryActions.resetTurnHistory,
+        serializeTimelines: turnHistoryActions.serializeTimelines,
+        serializeBranchSnapshots: turnHistoryActions.serializeBranchSnapshots,
+        getBranchTip: turnHistoryActions.getBranchTip
+    }), [worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, ruleActivationSettings, systemInstruction, promptTemplates, turnCount, totalTokens, gameTime, chronicle, compressedHistory, historySummaries, historyStats, cleanupStats, archivedMemories, memoryStats, storyLog, choices, locationDiscoveryOrder, choiceHistory, tagJournal, referenceToolLog, turnHistoryActions.serializeTurnSnapshots, turnHistoryActions.resetTurnHistory, turnHistoryActions.serializeTimelines, turnHistoryActions.serializeBranchSnapshots, turnHistoryActions.getBranchTip]);
+
+    // --- Turn Undo/Redo ---
+    // Snapshot the state once a turn has fully settled. turnCount only advances on a successful turn,
+    // and restoring a snapshot sets turnCount to the snapshot's turn, so restores are never re-recorded.
+    useEffect(() => {
+        if (isLoading || storyLog.length === 0) return;
+        const current = turnHistoryActions.getCurrentSnapshot();
+        if (current && current.turn === turnCount) return;
+
+        turnHistoryActions.recordTurn(turnCount, {
+            knownEntities, statuses, quests, party, memories, gameTime, chronicle,
+            gameHistory, storyLog, choices, turnCount, tagJournal, locationDiscoveryOrder, compressedHistory
+        });
+    }, [isLoading, turnCount, storyLog.length]);
+
+    const handleUndoTurn = useCallback(() => {
+        if (isLoading) return;
+        const snapshot = turnHistoryActions.undoTurn();
+        if (snapshot) gameStateHandlers.handleRestoreTurnSnapshot(snapshot);
+    }, [isLoading, turnHistoryActions.undoTurn, gameStateHandlers]);
+
+    const handleRedoTurn = useCallback(() => {
+        if (isLoading) return;
+        const snapshot = turnHistoryActions.redoTurn();
+        if (snapshot) gameStateHandlers.handleRestoreTurnSnapshot(snapshot);
+    }, [isLoading, turnHistoryActions.redoTurn, gameStateHandlers]);
+
+    // --- Branching Timelines ---
+    // Branches share world setup, rules and token stats; only the per-turn state is swapped
+    const handleForkTimeline = useCallback((turn: number, name: string) => {
+        if (isLoading) return;
+        const snapshot = turnHistoryActions.forkAtTurn(turn, name);
+        if (snapshot) gameStateHandlers.handleRestoreTurnSnapshot(snapshot);
+    }, [isLoading, turnHistoryActions.forkAtTurn, gameStateHandlers]);
+
+    const handleSwitchTimeline = useCallback((branchId: string) => {
+        if (isLoading) return;
+        const snapshot = turnHistoryActions.switchBranch(branchId);
+        if (snapshot) gameStateHandlers.handleRestoreTurnSnapshot(snapshot);
+    }, [isLoading, turnHistoryActions.switchBranch, gameStateHandlers]);
 
     // --- Handle Key Rotation Notification ---
     useEffect(() => {
@@ -446,7 +589,7 @@ export const GameScreen: React.FC<{
         }
 
         const currentState: SaveData = {
-            worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory,
+            worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, regexRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory,
             lastCompressionTurn: historyStats.compressionCount, // This seems to be used as an indicator, not a turn number
             historyStats, cleanupStats, archivedMemories, memoryStats
         };
@@ -497,6 +640,7 @@ export const GameScreen: React.FC<{
                 // Add compressed segment if created
                 if (unifiedCleanupResult.historyProcessed.compressed) {
                     setCompressedHistory(prev => [...prev, unifiedCleanupResult.historyProcessed.compressed!]);
+                    summarizeCompressedHistory(unifiedCleanupResult.historyProcessed);
                     setHistoryStats(prev => ({
                         ...prev,
                         compressionCount: prev.compressionCount + 1,
@@ -580,7 +724,8 @@ export const GameScreen: React.FC<{
         compressedHistory,
         historyStats,
         archivedMemories,
-        memoryStats
+        memoryStats,
+        summarizeCompressedHistory
     ]);
     
     const parseApiResponse = useCallback((text: string) => {
@@ -667,10 +812,12 @@ export const GameScreen: React.FC<{
         }
         
         const currentGameState: SaveData = {
-            worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory
+            worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, ruleActivationSettings, systemInstruction, promptTemplates, turnCount, totalTokens, gameTime, chronicle, compressedHistory, historySummaries, npcsPresent, choices
         };
         await gameActionHandlers.handleAction(action, currentGameState);
-    }, [gameActionHandlers, isLoading, ai, isHighTokenCooldown, worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory]);
+    }, [gameActionHandlers, isLoading, ai, isHighTokenCooldown, worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, ruleActivationSettings, systemInstruction, promptTemplates, turnCount, totalTokens, gameTime, chronicle, compressedHistory, historySummaries, npcsPresent, choices]);
+
+    const handleCancelGeneration = useCallback(() => gameActionHandlers.cancelGeneration(), [gameActionHandlers]);
 
     const debouncedHandleAction = useDebouncedCallback((action: string) => {
         handleAction(action);
@@ -720,13 +867,13 @@ export const GameScreen: React.FC<{
         });
         
         // Show success notification
-        setNotification("Vật phẩm đã được chỉnh sửa thành công!");
+        setNotification(t('game.notify.itemEdited'));
         setTimeout(() => setNotification(null), 3000);
         
         // Close the edit modal
         setIsEditItemModalOpen(false);
         setActiveEditItem(null);
-    }, [setKnownEntities, setNotification, setIsEditItemModalOpen, setActiveEditItem]);
+    }, [setKnownEntities, setNotification, setIsEditItemModalOpen, setActiveEditItem, t]);
 
     const handleSaveEditedSkill = useCallback((originalSkill: Entity, editedSkill: Entity) => {
         setKnownEntities(prev => {
@@ -746,13 +893,13 @@ export const GameScreen: React.FC<{
         });
         
         // Show success notification
-        setNotification("Kỹ năng đã được chỉnh sửa thành công!");
+        setNotification(t('game.notify.skillEdited'));
         setTimeout(() => setNotification(null), 3000);
         
         // Close the edit modal
         setIsEditSkillModalOpen(false);
         setActiveEditSkill(null);
-    }, [setKnownEntities, setNotification, setIsEditSkillModalOpen, setActiveEditSkill]);
+    }, [setKnownEntities, setNotification, setIsEditSkillModalOpen, setActiveEditSkill, t]);
 
     const handleSaveEditedNPC = useCallback((originalNPC: Entity, editedNPC: Entity) => {
         setKnownEntities(prev => {
@@ -773,13 +920,13 @@ export const GameScreen: React.FC<{
         });
         
         // Show success notification
-        setNotification("NPC đã được chỉnh sửa thành công!");
+        setNotification(t('game.notify.npcEdited'));
         setTimeout(() => setNotification(null), 3000);
         
         // Close the edit modal
         setIsEditNPCModalOpen(false);
         setActiveEditNPC(null);
-    }, [setKnownEntities, setNotification, setIsEditNPCModalOpen, setActiveEditNPC]);
+    }, [setKnownEntities, setNotification, setIsEditNPCModalOpen, setActiveEditNPC, t]);
 
     const handleSaveEditedPC = useCallback((originalPC: Entity, editedPC: Entity) => {
         setKnownEntities(prev => {
@@ -799,13 +946,13 @@ export const GameScreen: React.FC<{
         });
         
         // Show success notification
-        setNotification("Thông tin nhân vật chính đã được cập nhật thành công!");
+        setNotification(t('game.notify.pcEdited'));
         setTimeout(() => setNotification(null), 3000);
         
         // Close the edit modal
         setIsEditPCModalOpen(false);
         setActiveEditPC(null);
-    }, [setKnownEntities, setNotification, setIsEditPCModalOpen, setActiveEditPC]);
+    }, [setKnownEntities, setNotification, setIsEditPCModalOpen, setActiveEditPC, t]);
 
     const handleSaveEditedLocation = useCallback((originalLocation: Entity, editedLocation: Entity) => {
         setKnownEntities(prev => {
@@ -825,13 +972,13 @@ export const GameScreen: React.FC<{
         });
         
         // Show success notification
-        setNotification("Thông tin địa điểm đã được cập nhật thành công!");
+        setNotification(t('game.notify.locationEdited'));
         setTimeout(() => setNotification(null), 3000);
         
         // Close the edit modal
         setIsEditLocationModalOpen(false);
         setActiveEditLocation(null);
-    }, [setKnownEntities, setNotification, setIsEditLocationModalOpen, setActiveEditLocation]);
+    }, [setKnownEntities, setNotification, setIsEditLocationModalOpen, setActiveEditLocation, t]);
 
     const handleUpdateEntity = useCallback((entityName: string, updates: Partial<Entity>) => {
         setKnownEntities(prev => {
@@ -864,9 +1011,9 @@ export const GameScreen: React.FC<{
         });
         
         // Show success notification
-        setNotification(`Trạng thái "${statusName}" đã được xóa thành công!`);
+        setNotification(t('game.notify.statusRemoved', { name: statusName }));
         setTimeout(() => setNotification(null), 3000);
-    }, [setStatuses, setNotification]);
+    }, [setStatuses, setNotification, t]);
 
     const handleStatusClick = useCallback((status: Status) => entityHandlers.handleStatusClick(status), [entityHandlers]);
     const handleToggleMemoryPin = useCallback((index: number) => gameStateHandlers.handleToggleMemoryPin(index), [gameStateHandlers]);
@@ -880,17 +1027,83 @@ export const GameScreen: React.FC<{
         }
         
         const currentGameState: SaveData = {
-            worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory
+            worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, ruleActivationSettings, systemInstruction, promptTemplates, turnCount, totalTokens, gameTime, chronicle, compressedHistory, historySummaries, npcsPresent
         };
         await gameActionHandlers.handleSuggestAction(storyLog, currentGameState);
-    }, [gameActionHandlers, storyLog, worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory]);
+    }, [gameActionHandlers, storyLog, worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, ruleActivationSettings, systemInstruction, promptTemplates, turnCount, totalTokens, gameTime, chronicle, compressedHistory, historySummaries, npcsPresent]);
 
     const handleSaveGame = useCallback(() => {
         gameStateHandlers.handleSaveGame();
     }, [gameStateHandlers]);
 
-    const handleSaveRules = useCallback((newRules: CustomRule[]) => {
-        gameStateHandlers.handleSaveRules(newRules, setShowRulesSavedSuccess);
+    // --- In-browser save library ---
+    const notifyLoadFailed = useCallback(() => {
+        setNotification(t('game.notify.loadFailed'));
+        setTimeout(() => setNotification(null), 3000);
+    }, [t]);
+
+    // IndexedDB errors and corrupt slots reject; report them like a missing save instead of failing silently
+    const handleLoadSlot = useCallback(async (slotId: string) => {
+        let data: SaveData | null;
+        try {
+            data = await saveSlotManager.loadSlot(slotId);
+        } catch (error) {
+            console.error('❌ Load slot failed:', error);
+            notifyLoadFailed();
+            return;
+        }
+        if (!data || !onLoadSaveData) {
+            notifyLoadFailed();
+            return;
+        }
+        onLoadSaveData(data);
+    }, [onLoadSaveData, notifyLoadFailed]);
+
+    const handleQuickload = useCallback(async () => {
+        let data: SaveData | null;
+        try {
+            data = await saveSlotManager.quickload();
+        } catch (error) {
+            console.error('❌ Quickload failed:', error);
+            notifyLoadFailed();
+            return;
+        }
+        if (!data || !onLoadSaveData) {
+            setNotification(t('game.notify.noQuicksave'));
+            setTimeout(() => setNotification(null), 3000);
+            return;
+        }
+        onLoadSaveData(data);
+    }, [onLoadSaveData, notifyLoadFailed, t]);
+
+    // Autosave every N settled turns; the loaded turn itself is not re-saved
+    const lastAutosaveTurnRef = useRef<number>(initialGameState.turnCount || 0);
+    useEffect(() => {
+        const interval = gameSettings.autosaveInterval ?? 5;
+        if (isLoading || interval <= 0 || turnCount <= 0 || turnCount % interval !== 0) return;
+        if (lastAutosaveTurnRef.current === turnCount) return;
+        lastAutosaveTurnRef.current = turnCount;
+        gameStateHandlers.handleAutosave();
+    }, [isLoading, turnCount, gameSettings.autosaveInterval]);
+
+    // Quicksave / quickload hotkeys
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'F5') {
+                e.preventDefault();
+                if (!isLoading) gameStateHandlers.handleQuicksave();
+            } else if (e.key === 'F9') {
+                e.preventDefault();
+                if (!isLoading) handleQuickload();
+            }
+        };
+
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [isLoading, gameStateHandlers, handleQuickload]);
+
+    const handleSaveRules = useCallback((newRules: CustomRule[], activationSettings?: RuleActivationSettings) => {
+        gameStateHandlers.handleSaveRules(newRules, setShowRulesSavedSuccess, activationSettings);
     }, [gameStateHandlers]);
 
     const handleSaveRegexRules = useCallback((newRules: RegexRule[]) => {
@@ -900,13 +1113,13 @@ export const GameScreen: React.FC<{
             }
             // Show success notification
             if (setNotification && typeof setNotification === 'function') {
-                setNotification('Regex rules saved successfully!');
+                setNotification(t('game.notify.regexSaved'));
                 setTimeout(() => setNotification(null), 3000);
             }
         } catch (error) {
             console.error('Error saving regex rules:', error);
         }
-    }, [setRegexRules, setNotification]);
+    }, [setRegexRules, setNotification, t]);
 
     const handleRestartGame = useCallback(() => {
         setIsRestartModalOpen(false);
@@ -948,7 +1161,7 @@ export const GameScreen: React.FC<{
         });
         
         const currentState: SaveData = {
-            worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory,
+            worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, regexRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory,
             lastCompressionTurn: historyStats.compressionCount, 
             historyStats, cleanupStats, archivedMemories, memoryStats
         };
@@ -984,6 +1197,7 @@ export const GameScreen: React.FC<{
             // Add compressed segment if created
             if (unifiedResult.historyProcessed.compressed) {
                 setCompressedHistory(prev => [...prev, unifiedResult.historyProcessed.compressed!]);
+                summarizeCompressedHistory(unifiedResult.historyProcessed);
                 setHistoryStats(prev => ({
                     ...prev,
                     compressionCount: prev.compressionCount + 1,
@@ -1022,7 +1236,7 @@ export const GameScreen: React.FC<{
                 totalTokensSaved: unifiedResult.tokensSaved + legacyResult.stats.totalTokensSaved
             });
 
-            setNotification(`🧹 Unified cleanup complete! Saved ~${Math.round((unifiedResult.tokensSaved + legacyResult.stats.totalTokensSaved) / 1000)}k tokens.`);
+            setNotification(t('game.notify.unifiedCleanup', { tokens: Math.round((unifiedResult.tokensSaved + legacyResult.stats.totalTokensSaved) / 1000) }));
         } else {
             // Fallback to legacy cleanup if unified didn't trigger
             const result = GameStateOptimizer.forceCleanup(currentState, true);
@@ -1031,11 +1245,11 @@ export const GameScreen: React.FC<{
             setMemories(result.optimizedState.memories);
             setChronicle(result.optimizedState.chronicle);
             
-            setNotification(`🧹 Legacy cleanup complete! Saved ~${Math.round(result.stats.totalTokensSaved / 1000)}k tokens.`);
+            setNotification(t('game.notify.legacyCleanup', { tokens: Math.round(result.stats.totalTokensSaved / 1000) }));
         }
         
         setTimeout(() => setNotification(null), 4000);
-    }, [worldData, knownEntities, statuses, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory, historyStats, cleanupStats, archivedMemories, memoryStats]);
+    }, [worldData, knownEntities, statuses, gameHistory, memories, party, customRules, regexRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory, historyStats, cleanupStats, archivedMemories, memoryStats, summarizeCompressedHistory, t]);
 
     // Debug function to show current system status
     const debugSystemStatus = useCallback(() => {
@@ -1084,18 +1298,22 @@ export const GameScreen: React.FC<{
         // Show insights as notifications
         if (analytics.insights.length > 0) {
             const topInsight = analytics.insights[0];
-            setNotification(`📊 Memory Insight: ${topInsight.title} - ${topInsight.description}`);
+            setNotification(t('game.notify.memoryInsight', { title: topInsight.title, description: topInsight.description }));
         } else {
-            setNotification(`📊 Memory Analysis: ${analytics.overview.totalMemories} memories, ${analytics.overview.averageImportance.toFixed(1)} avg importance, ${analytics.overview.memoryHealth} health`);
+            setNotification(t('game.notify.memoryAnalysis', {
+                count: analytics.overview.totalMemories,
+                importance: analytics.overview.averageImportance.toFixed(1),
+                health: analytics.overview.memoryHealth
+            }));
         }
         
         setTimeout(() => setNotification(null), 6000);
-    }, [worldData, knownEntities, statuses, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory, historyStats, cleanupStats, archivedMemories, memoryStats]);
+    }, [worldData, knownEntities, statuses, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory, historyStats, cleanupStats, archivedMemories, memoryStats, t]);
 
     // Manual smart memory generation for testing
     const generateSmartMemories = useCallback(() => {
         const currentState: SaveData = {
-            worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory,
+            worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, regexRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory,
             lastCompressionTurn: historyStats.compressionCount, 
             historyStats, cleanupStats, archivedMemories, memoryStats
         };
@@ -1113,14 +1331,14 @@ export const GameScreen: React.FC<{
         
         if (result.memories.length > 0) {
             setMemories(prev => [...prev, ...result.memories]);
-            setNotification(`🧠 Generated ${result.memories.length} smart memories! ${result.insights.join(', ')}`);
+            setNotification(t('game.notify.smartMemories', { count: result.memories.length, insights: result.insights.join(', ') }));
             console.log('🧠 Smart Memory Generation Result:', result);
         } else {
-            setNotification(`🧠 No new smart memories generated from recent events.`);
+            setNotification(t('game.notify.noSmartMemories'));
         }
         
         setTimeout(() => setNotification(null), 5000);
-    }, [worldData, knownEntities, statuses, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory, historyStats, cleanupStats, archivedMemories, memoryStats]);
+    }, [worldData, knownEntities, statuses, gameHistory, memories, party, customRules, regexRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory, historyStats, cleanupStats, archivedMemories, memoryStats, t]);
 
 
 
@@ -1151,14 +1369,14 @@ export const GameScreen: React.FC<{
             
             URL.revokeObjectURL(url);
             
-            setNotification('📤 WorldSetup đã được xuất thành công!');
+            setNotification(t('game.notify.worldSetupExported'));
             setTimeout(() => setNotification(null), 3000);
         } catch (error) {
             console.error('Error exporting WorldSetup:', error);
-            setNotification('❌ Lỗi khi xuất WorldSetup');
+            setNotification(t('game.notify.worldSetupExportFailed'));
             setTimeout(() => setNotification(null), 3000);
         }
-    }, [worldData, customRules]);
+    }, [worldData, customRules, t]);
 
     // Expose debug functions to window for manual testing
     React.useEffect(() => {
@@ -1180,7 +1398,7 @@ export const GameScreen: React.FC<{
                 }
                 
                 console.log(`🧹 Cleaned duplicate memories: ${prev.length} → ${uniqueMemories.length}`);
-                setNotification(`🧹 Đã xóa ${prev.length - uniqueMemories.length} memory trùng lặp`);
+                setNotification(t('game.notify.duplicateMemoriesRemoved', { count: prev.length - uniqueMemories.length }));
                 setTimeout(() => setNotification(null), 3000);
                 
                 return uniqueMemories;
@@ -1192,7 +1410,7 @@ export const GameScreen: React.FC<{
             delete (window as any).analyzeMemories;
             delete (window as any).cleanDuplicateMemories;
         };
-    }, [debugSystemStatus, generateSmartMemories, analyzeMemories]);
+    }, [debugSystemStatus, generateSmartMemories, analyzeMemories, t]);
 
     
     const pcStatuses = statuses.filter(s => s.owner === 'pc' || (pcName && s.owner === pcName));
@@ -1273,6 +1491,8 @@ export const GameScreen: React.FC<{
                 onImport={() => {}}
                 onSave={handleSaveGame}
                 onExportWorldSetup={handleExportWorldSetup}
+                onTimeline={() => setIsTimelineModalOpen(true)}
+                onSaveLibrary={() => setIsSaveLibraryModalOpen(true)}
                 onMap={() => setIsMapModalOpen(true)}
                 onRules={() => setIsCustomRulesModalOpen(true)}
                 onRegexManager={() => setIsRegexManagerModalOpen(true)}
@@ -1280,6 +1500,8 @@ export const GameScreen: React.FC<{
                 onMemory={() => setIsMemoryModalOpen(true)}
                 onRestart={() => setIsRestartModalOpen(true)}
                 onAdmin={() => setIsAdminModalOpen(true)}
+                onPromptInspector={() => setIsPromptInspectorModalOpen(true)}
+                onPromptTemplates={() => setIsPromptTemplatesModalOpen(true)}
                 onPlayerInfo={() => setIsPcInfoModalOpen(true)}
                 onParty={() => setIsPartyModalOpen(true)}
                 onQuests={() => setIsQuestLogModalOpen(true)}
@@ -1292,7 +1514,14 @@ export const GameScreen: React.FC<{
                 cleanupStats={cleanupStats!}
             />
 
-            <MobileHeader onOpenSidebar={() => setIsSidebarOpen(true)} worldData={worldData} />
+            <MobileHeader
+                onOpenSidebar={() => setIsSidebarOpen(true)}
+                worldData={worldData}
+                onUndo={handleUndoTurn}
+                onRedo={handleRedoTurn}
+                canUndo={turnHistoryState.canUndo && !isLoading}
+                canRedo={turnHistoryState.canRedo && !isLoading}
+            />
 
             <DesktopHeader 
                 onHome={() => setIsHomeModalOpen(true)} 
@@ -1300,6 +1529,8 @@ export const GameScreen: React.FC<{
                 onImport={() => {}}
                 onSave={handleSaveGame} 
                 onExportWorldSetup={handleExportWorldSetup}
+                onTimeline={() => setIsTimelineModalOpen(true)}
+                onSaveLibrary={() => setIsSaveLibraryModalOpen(true)}
                 onMap={() => setIsMapModalOpen(true)}
                 onRules={() => setIsCustomRulesModalOpen(true)}
                 onRegexManager={() => setIsRegexManagerModalOpen(true)}
@@ -1308,6 +1539,8 @@ export const GameScreen: React.FC<{
                 onRestart={() => setIsRestartModalOpen(true)}
                 onInventory={() => setIsInventoryModalOpen(true)}
                 onAdmin={() => setIsAdminModalOpen(true)}
+                onPromptInspector={() => setIsPromptInspectorModalOpen(true)}
+                onPromptTemplates={() => setIsPromptTemplatesModalOpen(true)}
                 onManualCleanup={handleManualCleanup}
                 onLoadGameFromFile={onLoadGameFromFile || (() => console.log('onLoadGameFromFile not provided'))}
                 hasActiveQuests={quests.some(q => q.status === 'active')}
@@ -1316,13 +1549,19 @@ export const GameScreen: React.FC<{
                 turnCount={turnCount}
                 currentTurnTokens={currentTurnTokens}
                 totalTokens={totalTokens}
+                onUndo={handleUndoTurn}
+                onRedo={handleRedoTurn}
+                canUndo={turnHistoryState.canUndo && !isLoading}
+                canRedo={turnHistoryState.canRedo && !isLoading}
             />
 
             {/* Mobile Layout - Original Design */}
             <div className="flex-grow grid grid-cols-1 md:grid-cols-2 gap-4 mt-4 overflow-hidden p-4 md:p-0 md:hidden">
                 <StoryPanel
-                    storyLog={storyLog}
+                    storyLog={displayStoryLog}
                     isLoading={isLoading}
+                    streamingStory={streamingStory}
+                    onCancelGeneration={gameSettings.enableStreaming ? handleCancelGeneration : undefined}
                     isAiReady={isAiReady}
                     knownEntities={knownEntities}
                     onEntityClick={handleEntityClick}
@@ -1348,8 +1587,10 @@ export const GameScreen: React.FC<{
             <div className="hidden md:flex flex-grow gap-4 mt-4 relative min-h-0">
                 <div className="flex-grow min-h-0" style={{ flexBasis: '60%' }}>
                     <CombinedStoryPanel
-                        storyLog={storyLog}
+                        storyLog={displayStoryLog}
                         isLoading={isLoading}
+                        streamingStory={streamingStory}
+                        onCancelGeneration={gameSettings.enableStreaming ? handleCancelGeneration : undefined}
                         isAiReady={isAiReady}
                         knownEntities={knownEntities}
                         onEntityClick={handleEntityClick}
@@ -1370,6 +1611,9 @@ export const GameScreen: React.FC<{
                         onStatusClick={handleStatusClick}
                         onDeleteStatus={handleDeleteStatus}
                         onDiscardItem={handleDiscardItem}
+                        tagJournal={tagJournal}
+                        referenceToolLog={referenceToolLog}
+                        onRevertTagChange={gameStateHandlers.handleRevertTagChange}
                     />
                 </div>
                 
@@ -1483,6 +1727,7 @@ export const GameScreen: React.FC<{
                             statuses={statuses || []}
                             quests={quests || []}
                             customRules={customRules || []}
+                            ruleActivationSettings={ruleActivationSettings}
                             regexRules={regexRules || []}
                             choices={choices || []}
                             npcsPresent={npcsPresent || []}
@@ -1506,6 +1751,44 @@ export const GameScreen: React.FC<{
                 onSettingsChange={handleSettingsChange}
             />
 
+            <TimelineBranchModal
+                isOpen={isTimelineModalOpen}
+                onClose={modalCloseHandlers.timeline}
+                branches={turnHistoryState.branches}
+                activeBranchId={turnHistoryState.activeBranchId}
+                forkableTurns={isTimelineModalOpen ? turnHistoryActions.getForkableTurns() : []}
+                getBranchTip={turnHistoryActions.getBranchTip}
+                onFork={handleForkTimeline}
+                onSwitch={handleSwitchTimeline}
+                onExport={gameStateHandlers.handleExportTimelineBranch}
+                isLoading={isLoading}
+            />
+
+            <PromptInspectorModal
+                isOpen={isPromptInspectorModalOpen}
+                onClose={modalCloseHandlers.promptInspector}
+                inspections={promptInspections}
+            />
+
+            <PromptTemplatesModal
+                isOpen={isPromptTemplatesModalOpen}
+                onClose={modalCloseHandlers.promptTemplates}
+                overrides={promptTemplates}
+                worldSystemInstruction={systemInstruction}
+                worldName={worldData.storyName}
+                locale={getPromptLocale(worldData)}
+                onSave={setPromptTemplates}
+            />
+
+            <SaveLibraryModal
+                isOpen={isSaveLibraryModalOpen}
+                onClose={modalCloseHandlers.saveLibrary}
+                onLoadSlot={handleLoadSlot}
+                onSaveToSlot={gameStateHandlers.handleSaveToSlot}
+            />
+
+            <CommandTagRejectionModal rejection={tagRejection} onClose={() => setTagRejection(null)} />
+
 
             {/* Floating Time Display - Only show on mobile */}
             <div className="md:hidden">
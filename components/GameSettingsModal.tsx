@@ -1,15 +1,27 @@
 import React, { useState, useEffect } from 'react';
 import { CrossIcon } from './Icons.tsx';
+import type { SemanticRecallMode } from './types.ts';
+import type { TranslationKey } from './i18n';
+import { useI18n } from './hooks/useI18n';
 
 export interface GameSettings {
     fontSize: number;
     fontFamily: string;
     memoryAutoClean: boolean;
     historyAutoCompress: boolean;
+    llmHistorySummaries: boolean;     // Have the model summarize compressed history in the background
     maxActiveHistoryEntries: number;
     historyCompressionThreshold: number;
     themeColor: string;
     enableCOT: boolean;
+    enableStreaming: boolean;
+    enableReferenceTools: boolean;    // Let the model look up reference IDs before each turn
+    maxReferenceToolHops: number;     // Lookup rounds allowed per turn
+    semanticRecall: SemanticRecallMode;   // Embedding-based recall of memories, blended with keyword search
+    embeddingBaseUrl: string;         // OpenAI-style /embeddings endpoint for 'remote'
+    embeddingModel: string;
+    embeddingApiKey: string;
+    autosaveInterval: number; // Turns between autosaves, 0 = off
 }
 
 const DEFAULT_SETTINGS: GameSettings = {
@@ -17,25 +29,40 @@ const DEFAULT_SETTINGS: GameSettings = {
     fontFamily: 'Inter',
     memoryAutoClean: true,
     historyAutoCompress: true,
+    llmHistorySummaries: false,
     maxActiveHistoryEntries: 100,
     historyCompressionThreshold: 72,
     themeColor: 'purple',
     enableCOT: false,
+    enableStreaming: true,
+    enableReferenceTools: false,
+    maxReferenceToolHops: 3,
+    semanticRecall: 'off',
+    embeddingBaseUrl: 'http://localhost:11434/v1',
+    embeddingModel: '',
+    embeddingApiKey: '',
+    autosaveInterval: 5,
 };
 
 const FONT_FAMILIES = [
-    { value: 'Inter', label: 'Inter (Mặc định)' },
+    { value: 'Inter', label: 'Inter' },
     { value: 'Merriweather', label: 'Merriweather (Serif)' },
     { value: 'Lora', label: 'Lora (Serif)' },
     { value: 'Roboto Mono', label: 'Roboto Mono (Monospace)' },
     { value: 'Source Code Pro', label: 'Source Code Pro (Monospace)' }
 ];
 
-export const THEME_COLORS = [
+export const THEME_COLORS: Array<{
+    id: string;
+    name: TranslationKey;
+    description: TranslationKey;
+    colors: { primary: string; secondary: string; accent: string; text: string };
+    preview: string;
+}> = [
     {
         id: 'dark-slate',
-        name: 'Đen Xám Đậm',
-        description: 'Tối tăm và bí ẩn',
+        name: 'settings.theme.darkSlate',
+        description: 'settings.theme.darkSlateDescription',
         colors: {
             primary: 'from-slate-900 via-slate-800 to-slate-900',
             secondary: 'from-gray-800 to-slate-900',
@@ -46,8 +73,8 @@ export const THEME_COLORS = [
     },
     {
         id: 'deep-blue',
-        name: 'Xanh Dương Đậm',
-        description: 'Sâu thẳm như đại dương',
+        name: 'settings.theme.deepBlue',
+        description: 'settings.theme.deepBlueDescription',
         colors: {
             primary: 'from-slate-900 via-blue-900 to-slate-900',
             secondary: 'from-blue-800 to-slate-900',
@@ -58,8 +85,8 @@ export const THEME_COLORS = [
     },
     {
         id: 'purple',
-        name: 'Tím Hoàng Gia',
-        description: 'Hiện tại (Mặc định)',
+        name: 'settings.theme.purple',
+        description: 'settings.theme.purpleDescription',
         colors: {
             primary: 'from-slate-900 via-purple-900 to-slate-900',
             secondary: 'from-purple-800 to-slate-900',
@@ -70,8 +97,8 @@ export const THEME_COLORS = [
     },
     {
         id: 'emerald',
-        name: 'Ngọc Lục Bảo',
-        description: 'Tươi mát và thanh lịch',
+        name: 'settings.theme.emerald',
+        description: 'settings.theme.emeraldDescription',
         colors: {
             primary: 'from-slate-900 via-emerald-900 to-slate-900',
             secondary: 'from-emerald-800 to-slate-900',
@@ -82,8 +109,8 @@ export const THEME_COLORS = [
     },
     {
         id: 'rose-gold',
-        name: 'Hồng Vàng',
-        description: 'Ấm áp và lãng mạn',
+        name: 'settings.theme.roseGold',
+        description: 'settings.theme.roseGoldDescription',
         colors: {
             primary: 'from-slate-800 via-rose-900 to-orange-900',
             secondary: 'from-rose-800 to-orange-800',
@@ -94,8 +121,8 @@ export const THEME_COLORS = [
     },
     {
         id: 'sunset',
-        name: 'Hoàng Hôn',
-        description: 'Sáng sủa như hoàng hôn',
+        name: 'settings.theme.sunset',
+        description: 'settings.theme.sunsetDescription',
         colors: {
             primary: 'from-orange-800 via-red-900 to-pink-800',
             secondary: 'from-red-700 to-pink-800',
@@ -112,6 +139,7 @@ export const GameSettingsModal: React.FC<{
     settings: GameSettings;
     onSettingsChange: (settings: GameSettings) => void;
 }> = ({ isOpen, onClose, settings, onSettingsChange }) => {
+    const [, { t }] = useI18n();
     const [localSettings, setLocalSettings] = useState<GameSettings>(() => ({
         ...DEFAULT_SETTINGS,
         ...settings
@@ -135,6 +163,8 @@ export const GameSettingsModal: React.FC<{
         setLocalSettings(DEFAULT_SETTINGS);
     };
 
+    const onOff = (enabled: boolean) => enabled ? t('settings.on') : t('settings.off');
+
     return (
         <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4" onClick={onClose}>
             <div 
@@ -145,7 +175,7 @@ export const GameSettingsModal: React.FC<{
                 <div className="p-6 border-b-2 border-blue-400 flex justify-between items-center">
                     <h3 className="text-2xl font-bold text-blue-600 dark:text-blue-400 flex items-center gap-3">
                         <span className="text-3xl">⚙️</span>
-                        Cài Đặt Game
+                        {t('settings.title')}
                     </h3>
                     <button 
                         onClick={onClose} 
@@ -160,13 +190,13 @@ export const GameSettingsModal: React.FC<{
                     {/* Font Settings */}
                     <div className="space-y-4">
                         <h4 className="text-lg font-semibold text-slate-800 dark:text-gray-100 border-b border-slate-300 dark:border-slate-600 pb-2">
-                            🔤 Cài Đặt Font
+                            {t('settings.fontSection')}
                         </h4>
                         
                         {/* Font Size */}
                         <div className="space-y-2">
                             <label className="block text-sm font-medium text-slate-700 dark:text-gray-300">
-                                Kích cỡ font: {localSettings.fontSize}px
+                                {t('settings.fontSize', { size: localSettings.fontSize })}
                             </label>
                             <div className="flex items-center gap-4">
                                 <span className="text-sm text-slate-500">12px</span>
@@ -193,14 +223,14 @@ export const GameSettingsModal: React.FC<{
                                 className="p-3 bg-slate-100 dark:bg-slate-800 rounded border text-center"
                                 style={{ fontSize: `${localSettings.fontSize}px`, fontFamily: localSettings.fontFamily }}
                             >
-                                Đây là văn bản mẫu với font hiện tại
+                                {t('settings.fontSample')}
                             </div>
                         </div>
 
                         {/* Font Family */}
                         <div className="space-y-2">
                             <label className="block text-sm font-medium text-slate-700 dark:text-gray-300">
-                                Loại font
+                                {t('settings.fontFamily')}
                             </label>
                             <select
                                 value={localSettings.fontFamily || 'Inter'}
@@ -209,7 +239,7 @@ export const GameSettingsModal: React.FC<{
                             >
                                 {FONT_FAMILIES.map(font => (
                                     <option key={font.value} value={font.value} style={{ fontFamily: font.value }}>
-                                        {font.label}
+                                        {font.value === DEFAULT_SETTINGS.fontFamily ? t('settings.defaultFont', { font: font.label }) : font.label}
                                     </option>
                                 ))}
                             </select>
@@ -219,12 +249,12 @@ export const GameSettingsModal: React.FC<{
                     {/* Theme Color Settings */}
                     <div className="space-y-4">
                         <h4 className="text-lg font-semibold text-slate-800 dark:text-gray-100 border-b border-slate-300 dark:border-slate-600 pb-2">
-                            🎨 Màu Chủ Đề
+                            {t('settings.themeSection')}
                         </h4>
                         
                         <div className="space-y-3">
                             <p className="text-sm text-slate-600 dark:text-slate-400">
-                                Chọn bảng màu để thay đổi giao diện game
+                                {t('settings.themeHint')}
                             </p>
                             
                             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
@@ -249,10 +279,10 @@ export const GameSettingsModal: React.FC<{
                                         {/* Theme Info */}
                                         <div className="text-left">
                                             <h5 className="font-semibold text-slate-800 dark:text-gray-100 text-sm">
-                                                {theme.name}
+                                                {t(theme.name)}
                                             </h5>
                                             <p className="text-xs text-slate-600 dark:text-slate-400 mt-1">
-                                                {theme.description}
+                                                {t(theme.description)}
                                             </p>
                                         </div>
                                         
@@ -271,7 +301,7 @@ export const GameSettingsModal: React.FC<{
                     {/* Performance Settings */}
                     <div className="space-y-4">
                         <h4 className="text-lg font-semibold text-slate-800 dark:text-gray-100 border-b border-slate-300 dark:border-slate-600 pb-2">
-                            ⚡ Cài Đặt Hiệu Suất
+                            {t('settings.performanceSection')}
                         </h4>
 
                         {/* Memory Auto Clean */}
@@ -280,11 +310,11 @@ export const GameSettingsModal: React.FC<{
                                 <div className="flex items-center gap-2">
                                     <span className="text-lg">🧹</span>
                                     <span className="font-semibold text-slate-800 dark:text-gray-100">
-                                        Tự động dọn dẹp bộ nhớ
+                                        {t('settings.memoryAutoClean')}
                                     </span>
                                 </div>
                                 <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
-                                    Tự động xóa các thông tin cũ để giảm tải bộ nhớ và cải thiện hiệu suất
+                                    {t('settings.memoryAutoCleanHint')}
                                 </p>
                             </div>
                             <label className="relative inline-flex items-center cursor-pointer">
@@ -304,11 +334,11 @@ export const GameSettingsModal: React.FC<{
                                 <div className="flex items-center gap-2">
                                     <span className="text-lg">📦</span>
                                     <span className="font-semibold text-slate-800 dark:text-gray-100">
-                                        Tự động nén lịch sử
+                                        {t('settings.historyAutoCompress')}
                                     </span>
                                 </div>
                                 <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
-                                    Tự động nén lịch sử game cũ để tiết kiệm dung lượng lưu trữ
+                                    {t('settings.historyAutoCompressHint')}
                                 </p>
                             </div>
                             <label className="relative inline-flex items-center cursor-pointer">
@@ -322,17 +352,41 @@ export const GameSettingsModal: React.FC<{
                             </label>
                         </div>
 
+                        {/* LLM History Summaries */}
+                        <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700">
+                            <div className="flex-1">
+                                <div className="flex items-center gap-2">
+                                    <span className="text-lg">📜</span>
+                                    <span className="font-semibold text-slate-800 dark:text-gray-100">
+                                        {t('settings.llmHistorySummaries')}
+                                    </span>
+                                </div>
+                                <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+                                    {t('settings.llmHistorySummariesHint')}
+                                </p>
+                            </div>
+                            <label className="relative inline-flex items-center cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={localSettings.llmHistorySummaries ?? false}
+                                    onChange={(e) => setLocalSettings(prev => ({ ...prev, llmHistorySummaries: e.target.checked }))}
+                                    className="sr-only peer"
+                                />
+                                <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-slate-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-slate-600 peer-checked:bg-blue-600"></div>
+                            </label>
+                        </div>
+
                         {/* COT (Chain of Thought) Toggle */}
                         <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700">
                             <div className="flex-1">
                                 <div className="flex items-center gap-2">
                                     <span className="text-lg">🧠</span>
                                     <span className="font-semibold text-slate-800 dark:text-gray-100">
-                                        Chain of Thought (COT)
+                                        {t('settings.cot')}
                                     </span>
                                 </div>
                                 <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
-                                    Bật/tắt quá trình suy nghĩ chi tiết của AI trong phản hồi. Tắt để có phản hồi nhanh hơn nhưng ít chi tiết hơn
+                                    {t('settings.cotHint')}
                                 </p>
                             </div>
                             <label className="relative inline-flex items-center cursor-pointer">
@@ -345,6 +399,120 @@ export const GameSettingsModal: React.FC<{
                                 <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-slate-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-slate-600 peer-checked:bg-blue-600"></div>
                             </label>
                         </div>
+
+                        {/* Streaming Toggle */}
+                        <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700">
+                            <div className="flex-1">
+                                <div className="flex items-center gap-2">
+                                    <span className="text-lg">🌊</span>
+                                    <span className="font-semibold text-slate-800 dark:text-gray-100">
+                                        {t('settings.streaming')}
+                                    </span>
+                                </div>
+                                <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+                                    {t('settings.streamingHint')}
+                                </p>
+                            </div>
+                            <label className="relative inline-flex items-center cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={localSettings.enableStreaming ?? true}
+                                    onChange={(e) => setLocalSettings(prev => ({ ...prev, enableStreaming: e.target.checked }))}
+                                    className="sr-only peer"
+                                />
+                                <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-slate-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-slate-600 peer-checked:bg-blue-600"></div>
+                            </label>
+                        </div>
+
+                        {/* Reference Lookup Toggle */}
+                        <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700 space-y-3">
+                            <div className="flex items-center justify-between">
+                                <div className="flex-1">
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-lg">🔎</span>
+                                        <span className="font-semibold text-slate-800 dark:text-gray-100">
+                                            {t('settings.referenceTools')}
+                                        </span>
+                                    </div>
+                                    <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+                                        {t('settings.referenceToolsHint')}
+                                    </p>
+                                </div>
+                                <label className="relative inline-flex items-center cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={localSettings.enableReferenceTools ?? false}
+                                        onChange={(e) => setLocalSettings(prev => ({ ...prev, enableReferenceTools: e.target.checked }))}
+                                        className="sr-only peer"
+                                    />
+                                    <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-slate-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-slate-600 peer-checked:bg-blue-600"></div>
+                                </label>
+                            </div>
+                            {(localSettings.enableReferenceTools ?? false) && (
+                                <div className="flex items-center justify-between">
+                                    <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                                        {t('settings.maxReferenceToolHops')}
+                                    </span>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        max="5"
+                                        value={localSettings.maxReferenceToolHops ?? 3}
+                                        onChange={(e) => setLocalSettings(prev => ({ ...prev, maxReferenceToolHops: Math.min(5, Math.max(1, parseInt(e.target.value) || 1)) }))}
+                                        className="w-16 p-1 text-sm text-center bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md text-slate-800 dark:text-gray-100"
+                                    />
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Semantic Recall */}
+                        <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700 space-y-3">
+                            <div>
+                                <div className="flex items-center gap-2">
+                                    <span className="text-lg">🧭</span>
+                                    <span className="font-semibold text-slate-800 dark:text-gray-100">
+                                        {t('settings.semanticRecall')}
+                                    </span>
+                                </div>
+                                <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+                                    {t('settings.semanticRecallHint')}
+                                </p>
+                            </div>
+                            <select
+                                value={localSettings.semanticRecall ?? 'off'}
+                                onChange={(e) => setLocalSettings(prev => ({ ...prev, semanticRecall: e.target.value as SemanticRecallMode }))}
+                                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                <option value="off">{t('settings.semanticRecallOff')}</option>
+                                <option value="local">{t('settings.semanticRecallLocal')}</option>
+                                <option value="remote">{t('settings.semanticRecallRemote')}</option>
+                            </select>
+                            {localSettings.semanticRecall === 'remote' && (
+                                <div className="space-y-2">
+                                    <input
+                                        type="text"
+                                        value={localSettings.embeddingBaseUrl ?? ''}
+                                        onChange={(e) => setLocalSettings(prev => ({ ...prev, embeddingBaseUrl: e.target.value }))}
+                                        placeholder="http://localhost:11434/v1"
+                                        className="w-full px-3 py-2 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                    <input
+                                        type="text"
+                                        value={localSettings.embeddingModel ?? ''}
+                                        onChange={(e) => setLocalSettings(prev => ({ ...prev, embeddingModel: e.target.value }))}
+                                        placeholder={t('settings.embeddingModelPlaceholder')}
+                                        className="w-full px-3 py-2 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                    <input
+                                        type="password"
+                                        value={localSettings.embeddingApiKey ?? ''}
+                                        onChange={(e) => setLocalSettings(prev => ({ ...prev, embeddingApiKey: e.target.value }))}
+                                        placeholder={t('settings.embeddingApiKeyPlaceholder')}
+                                        className="w-full px-3 py-2 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                </div>
+                            )}
+                        </div>
                     </div>
 
                     {/* Max Active History Entries Slider */}
@@ -354,18 +522,18 @@ export const GameSettingsModal: React.FC<{
                                 <div className="flex items-center gap-2">
                                     <span className="text-lg">📊</span>
                                     <span className="font-semibold text-slate-800 dark:text-gray-100">
-                                        Số lượng lịch sử tối đa
+                                        {t('settings.maxActiveHistoryEntries')}
                                     </span>
                                 </div>
                                 <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
-                                    Giới hạn số lượng mục lịch sử được giữ lại trong bộ nhớ hoạt động
+                                    {t('settings.maxActiveHistoryEntriesHint')}
                                 </p>
                             </div>
                         </div>
                         <div className="space-y-2">
                             <div className="flex items-center justify-between">
                                 <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
-                                    Giá trị: {localSettings.maxActiveHistoryEntries ?? 100}
+                                    {t('settings.value', { value: localSettings.maxActiveHistoryEntries ?? 100 })}
                                 </span>
                                 <div className="text-xs text-slate-500 dark:text-slate-400">
                                     50 - 500
@@ -396,18 +564,18 @@ export const GameSettingsModal: React.FC<{
                                 <div className="flex items-center gap-2">
                                     <span className="text-lg">📦</span>
                                     <span className="font-semibold text-slate-800 dark:text-gray-100">
-                                        Ngưỡng nén lịch sử
+                                        {t('settings.historyCompressionThreshold')}
                                     </span>
                                 </div>
                                 <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
-                                    Số lượng mục lịch sử tích lũy trước khi tự động nén. Thấp hơn = nén sớm hơn
+                                    {t('settings.historyCompressionThresholdHint')}
                                 </p>
                             </div>
                         </div>
                         <div className="space-y-2">
                             <div className="flex items-center justify-between">
                                 <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
-                                    Giá trị: {localSettings.historyCompressionThreshold ?? 72}
+                                    {t('settings.value', { value: localSettings.historyCompressionThreshold ?? 72 })}
                                 </span>
                                 <div className="text-xs text-slate-500 dark:text-slate-400">
                                     30 - 200
@@ -431,20 +599,67 @@ export const GameSettingsModal: React.FC<{
                         </div>
                     </div>
 
+                    {/* Autosave Interval Slider */}
+                    <div className="space-y-3 p-4 bg-gray-50 dark:bg-slate-800 rounded-lg border border-gray-200 dark:border-slate-700">
+                        <div className="flex items-center justify-between">
+                            <div className="flex-1">
+                                <div className="flex items-center gap-2">
+                                    <span className="text-lg">🔄</span>
+                                    <span className="font-semibold text-slate-800 dark:text-gray-100">
+                                        {t('settings.autosave')}
+                                    </span>
+                                </div>
+                                <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+                                    {t('settings.autosaveHint')}
+                                </p>
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                                <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                                    {t('settings.value', { value: localSettings.autosaveInterval ?? 5 })}
+                                </span>
+                                <div className="text-xs text-slate-500 dark:text-slate-400">
+                                    0 - 20
+                                </div>
+                            </div>
+                            <input
+                                type="range"
+                                min="0"
+                                max="20"
+                                step="1"
+                                value={localSettings.autosaveInterval ?? 5}
+                                onChange={(e) => setLocalSettings(prev => ({ ...prev, autosaveInterval: parseInt(e.target.value) }))}
+                                className="w-full h-2 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer 
+                                         focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50
+                                         [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-5 [&::-webkit-slider-thumb]:h-5 
+                                         [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-blue-500 
+                                         [&::-webkit-slider-thumb]:shadow-lg [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-white
+                                         [&::-moz-range-thumb]:w-5 [&::-moz-range-thumb]:h-5 [&::-moz-range-thumb]:rounded-full 
+                                         [&::-moz-range-thumb]:bg-blue-500 [&::-moz-range-thumb]:border-none [&::-moz-range-thumb]:shadow-lg"
+                            />
+                        </div>
+                    </div>
+
                     {/* Current Settings Info */}
                     <div className="space-y-2 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-700">
                         <h5 className="font-semibold text-blue-800 dark:text-blue-200 flex items-center gap-2">
                             <span>ℹ️</span>
-                            Cài đặt hiện tại
+                            {t('settings.current')}
                         </h5>
                         <div className="text-sm text-blue-700 dark:text-blue-300 space-y-1">
-                            <div>Font: {localSettings.fontFamily} - {localSettings.fontSize}px</div>
-                            <div>Màu chủ đề: {THEME_COLORS.find(t => t.id === localSettings.themeColor)?.name || 'Tím Hoàng Gia'}</div>
-                            <div>Chain of Thought: {localSettings.enableCOT ? '✅ Bật' : '❌ Tắt'}</div>
-                            <div>Dọn dẹp bộ nhớ: {localSettings.memoryAutoClean ? '✅ Bật' : '❌ Tắt'}</div>
-                            <div>Nén lịch sử: {localSettings.historyAutoCompress ? '✅ Bật' : '❌ Tắt'}</div>
-                            <div>Lịch sử tối đa: {localSettings.maxActiveHistoryEntries ?? 100} mục</div>
-                            <div>Ngưỡng nén lịch sử: {localSettings.historyCompressionThreshold ?? 72} mục</div>
+                            <div>{t('settings.summary.font', { font: localSettings.fontFamily, size: localSettings.fontSize })}</div>
+                            <div>{t('settings.summary.theme', { theme: t(THEME_COLORS.find(theme => theme.id === localSettings.themeColor)?.name || 'settings.theme.purple') })}</div>
+                            <div>{t('settings.summary.cot', { state: onOff(localSettings.enableCOT) })}</div>
+                            <div>{t('settings.summary.streaming', { state: onOff(localSettings.enableStreaming ?? true) })}</div>
+                            <div>{t('settings.summary.referenceTools', { state: localSettings.enableReferenceTools ? t('settings.summary.referenceToolsOn', { hops: localSettings.maxReferenceToolHops ?? 3 }) : t('settings.off') })}</div>
+                            <div>{t('settings.summary.semanticRecall', { state: localSettings.semanticRecall === 'local' ? t('settings.summary.semanticRecallLocal') : localSettings.semanticRecall === 'remote' ? `✅ ${localSettings.embeddingModel || t('settings.summary.embeddingServer')}` : t('settings.off') })}</div>
+                            <div>{t('settings.summary.memoryAutoClean', { state: onOff(localSettings.memoryAutoClean) })}</div>
+                            <div>{t('settings.summary.historyAutoCompress', { state: onOff(localSettings.historyAutoCompress) })}</div>
+                            <div>{t('settings.summary.llmHistorySummaries', { state: onOff(localSettings.llmHistorySummaries) })}</div>
+                            <div>{t('settings.summary.maxActiveHistoryEntries', { count: localSettings.maxActiveHistoryEntries ?? 100 })}</div>
+                            <div>{t('settings.summary.historyCompressionThreshold', { count: localSettings.historyCompressionThreshold ?? 72 })}</div>
+                            <div>{t('settings.summary.autosave', { state: (localSettings.autosaveInterval ?? 5) > 0 ? t('settings.summary.autosaveEvery', { turns: localSettings.autosaveInterval ?? 5 }) : t('settings.off') })}</div>
                         </div>
                     </div>
                 </div>
@@ -455,20 +670,20 @@ export const GameSettingsModal: React.FC<{
                         onClick={handleReset}
                         className="px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-md font-semibold transition-colors duration-200 flex items-center gap-2"
                     >
-                        🔄 Đặt lại mặc định
+                        {t('settings.reset')}
                     </button>
                     <div className="flex gap-3">
                         <button
                             onClick={onClose}
                             className="px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-md font-semibold transition-colors duration-200"
                         >
-                            Hủy
+                            {t('settings.cancel')}
                         </button>
                         <button
                             onClick={handleSave}
                             className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md font-semibold transition-colors duration-200 flex items-center gap-2"
                         >
-                            💾 Lưu cài đặt
+                            {t('settings.save')}
                         </button>
                     </div>
                 </div>
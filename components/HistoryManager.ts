@@ -1,4 +1,5 @@
 import type { GameHistoryEntry } from './types';
+import { extractHistoryAction } from './utils/promptTemplates';
 
 export interface HistoryConfig {
     maxActiveEntries: number;      // Số entries tối đa trong active history
@@ -29,6 +30,7 @@ export class HistoryManager {
     ): {
         activeHistory: GameHistoryEntry[];
         compressedSegment?: CompressedHistorySegment;
+        compressedEntries?: GameHistoryEntry[];   // The entries the segment replaced, for model summaries
         shouldCompress: boolean;
         stats: {
             originalSize: number;
@@ -86,6 +88,7 @@ export class HistoryManager {
         return {
             activeHistory,
             compressedSegment,
+            compressedEntries: toCompress,
             shouldCompress: true,
             stats: {
                 originalSize,
@@ -117,9 +120,8 @@ export class HistoryManager {
         entries.forEach((entry, index) => {
             if (entry.role === 'user') {
                 // Extract player actions
-                const actionMatch = entry.parts[0].text.match(/--- HÀNH ĐỘNG CỦA NGƯỜI CHƠI ---\n"([^"]+)"/);
-                if (actionMatch && actionMatch[1] !== 'SYSTEM_RULE_UPDATE') {
-                    const action = actionMatch[1];
+                const action = extractHistoryAction(entry.parts[0].text);
+                if (action && action !== 'SYSTEM_RULE_UPDATE') {
                     // Chỉ giữ actions quan trọng (combat, social, movement)
                     if (this.isImportantAction(action)) {
                         keyActions.push(this.summarizeAction(action));
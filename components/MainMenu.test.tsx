@@ -65,6 +65,19 @@ describe('MainMenu', () => {
     expect(mockProps.onQuickPlay).toHaveBeenCalledTimes(1);
   });
 
+  it('should render continue with the latest save slot', () => {
+    const onContinue = vi.fn();
+    const continueSlot = {
+      id: 'quicksave', name: '', kind: 'quick' as const, savedAt: 0, sizeBytes: 100,
+      thumbnail: { characterName: 'Lý Phàm', realm: 'Trúc Cơ', turn: 12, gameTime: { year: 1, month: 1, day: 1, hour: 8, minute: 0 } }
+    };
+    render(<MainMenu {...mockProps} continueSlot={continueSlot} onContinue={onContinue} />);
+
+    fireEvent.click(screen.getByText('Tiếp Tục'));
+    expect(onContinue).toHaveBeenCalledTimes(1);
+    expect(screen.getByText(/Lượt 12/)).toBeInTheDocument();
+  });
+
   it('should render load game button', () => {
     render(<MainMenu {...mockProps} />);
     
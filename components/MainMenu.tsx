@@ -1,6 +1,10 @@
 
 import React, { useRef, useState } from 'react';
 import { motion } from 'framer-motion';
+import type { SaveSlotMeta } from './types';
+import { LOCALES } from './i18n';
+import { getGameDateParams } from './utils/SaveSlotManager';
+import { useI18n } from './hooks/useI18n';
 
 export const MainMenu: React.FC<{ 
     onStartNewAdventure: () => void; 
@@ -11,11 +15,15 @@ export const MainMenu: React.FC<{
     isUsingDefaultKey: boolean;
     onOpenChangelog: () => void;
     selectedAiModel: string;
-}> = ({ onStartNewAdventure, onQuickPlay, hasLastWorldSetup, onOpenApiSettings, onLoadGameFromFile, isUsingDefaultKey, onOpenChangelog, selectedAiModel }) => {
+    continueSlot?: SaveSlotMeta | null;
+    onContinue?: () => void;
+    onOpenSaveLibrary?: () => void;
+}> = ({ onStartNewAdventure, onQuickPlay, hasLastWorldSetup, onOpenApiSettings, onLoadGameFromFile, isUsingDefaultKey, onOpenChangelog, selectedAiModel, continueSlot, onContinue, onOpenSaveLibrary }) => {
     const fileInputRef = useRef<HTMLInputElement>(null);
     const videoRef = useRef<HTMLVideoElement>(null);
     const [hovered, setHovered] = useState<number | null>(null);
     const [isMuted, setIsMuted] = useState(false);
+    const [{ locale }, { setLocale, t }] = useI18n();
 
     const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
@@ -56,11 +64,13 @@ export const MainMenu: React.FC<{
 
     // Create menu items array with functions
     const menuItems = [
-        { text: "Tạo Thế Giới Mới", onClick: onStartNewAdventure },
-        ...(hasLastWorldSetup && onQuickPlay ? [{ text: "Chơi Ngay", onClick: onQuickPlay }] : []),
-        { text: "Tải Game Từ Tệp (.json)", onClick: handleLoadButtonClick },
-        { text: "Xem Cập Nhật Game", onClick: onOpenChangelog },
-        { text: "Thiết Lập API Key", onClick: onOpenApiSettings }
+        ...(continueSlot && onContinue ? [{ text: t('mainMenu.continue'), onClick: onContinue }] : []),
+        { text: t('mainMenu.newWorld'), onClick: onStartNewAdventure },
+        ...(hasLastWorldSetup && onQuickPlay ? [{ text: t('mainMenu.quickPlay'), onClick: onQuickPlay }] : []),
+        ...(onOpenSaveLibrary ? [{ text: t('mainMenu.saveLibrary'), onClick: onOpenSaveLibrary }] : []),
+        { text: t('mainMenu.loadFromFile'), onClick: handleLoadButtonClick },
+        { text: t('mainMenu.changelog'), onClick: onOpenChangelog },
+        { text: t('mainMenu.apiSettings'), onClick: onOpenApiSettings }
     ];
     
     return (
@@ -95,10 +105,29 @@ export const MainMenu: React.FC<{
           {/* Nút âm thanh tròn nhỏ */}
           <button
             onClick={toggleMute}
+            aria-label={t('mainMenu.toggleSound')}
             className="w-10 h-10 mb-3 rounded-full bg-black/60 border border-yellow-300 flex items-center justify-center text-yellow-300 hover:bg-yellow-400/20 transition"
           >
             {isMuted ? "🔇" : "🔊"}
           </button>
+
+          {/* Chọn ngôn ngữ */}
+          <div className="flex gap-2 mb-4" role="group" aria-label={t('common.language')}>
+            {LOCALES.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setLocale(option.id)}
+                aria-pressed={locale === option.id}
+                className={`px-3 py-1 rounded-full border text-sm transition ${
+                  locale === option.id
+                    ? "bg-yellow-400/30 border-yellow-300 text-yellow-200"
+                    : "bg-black/60 border-yellow-300/40 text-gray-300 hover:bg-yellow-400/20"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
           
           {/* Menu buttons */}
           <div className="flex flex-col gap-3 w-[500px] md:w-[650px] items-center p-0">
@@ -135,8 +164,16 @@ export const MainMenu: React.FC<{
               </motion.div>
             ))}
 
+            {continueSlot && onContinue && (
+              <p className="text-sm text-gray-200 mt-4">
+                {t('mainMenu.continueFrom')} <span className="text-yellow-200">{continueSlot.thumbnail.characterName || t('saveLibrary.unnamedCharacter')}</span>
+                {continueSlot.thumbnail.realm && ` • ${continueSlot.thumbnail.realm}`}
+                {` • ${t('common.turn', { turn: continueSlot.thumbnail.turn })} • ${t('saveLibrary.gameDate', getGameDateParams(continueSlot.thumbnail.gameTime))}`}
+              </p>
+            )}
+
             <p className="text-sm text-gray-300 mt-4 italic">
-              Model AI hiện tại:{" "}
+              {t('mainMenu.currentModel')}{" "}
               <span className="text-yellow-200">{selectedAiModel}</span>
             </p>
           </div>
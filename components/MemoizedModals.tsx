@@ -21,7 +21,7 @@ import { EditPCModal } from './EditPCModal.tsx';
 import { EditLocationModal } from './EditLocationModal.tsx';
 import { RegexManager } from './RegexManager.tsx';
 
-import type { Entity, Status, Quest, KnownEntities, Memory, CustomRule, RegexRule } from './types.ts';
+import type { Entity, Status, Quest, KnownEntities, Memory, CustomRule, RuleActivationSettings, RegexRule } from './types.ts';
 import { MBTI_PERSONALITIES } from './data/mbti.ts';
 import { CrossIcon, UserIcon } from './Icons.tsx';
 import * as GameIcons from './GameIcons.tsx';
@@ -82,7 +82,7 @@ interface MemoizedModalsProps {
     setActiveQuest: (quest: Quest | null) => void;
     handleToggleMemoryPin: (index: number) => void;
     handleEntityClick: (entityName: string) => void;
-    handleSaveRules: (rules: CustomRule[]) => void;
+    handleSaveRules: (rules: CustomRule[], activationSettings?: RuleActivationSettings) => void;
     handleSaveRegexRules?: (rules: RegexRule[]) => void;
     handleAction: (action: string) => void;
     setIsMapModalOpen: (open: boolean) => void;
@@ -131,6 +131,7 @@ interface MemoizedModalsProps {
     statuses: Status[];
     quests: Quest[];
     customRules: CustomRule[];
+    ruleActivationSettings?: RuleActivationSettings;
     regexRules?: RegexRule[];
     choices: string[];
     npcsPresent: any[];
@@ -551,6 +552,7 @@ const MemoizedModalsComponent = ({
     statuses,
     quests,
     customRules,
+    ruleActivationSettings,
     regexRules,
     choices,
     npcsPresent,
@@ -656,6 +658,7 @@ const MemoizedModalsComponent = ({
                 onClose={modalCloseHandlers.customRules} 
                 onSave={handleSaveRules} 
                 currentRules={customRules} 
+                activationSettings={ruleActivationSettings}
             />
             
             <MapModal 
@@ -2,6 +2,7 @@ import React, { useMemo } from 'react';
 import type { Memory } from './types.ts';
 import { PinIcon } from './Icons.tsx';
 import { ImportanceScorer } from './utils/ImportanceScorer.ts';
+import { useI18n } from './hooks/useI18n';
 
 export const MemoryModal: React.FC<{
     isOpen: boolean;
@@ -16,6 +17,7 @@ export const MemoryModal: React.FC<{
         quests: any[];
     };
 }> = ({ isOpen, onClose, memories, onTogglePin, gameState }) => {
+    const [, { t }] = useI18n();
     if (!isOpen) return null;
 
     const MAX_UNPINNED_MEMORIES = 50;
@@ -60,14 +62,14 @@ export const MemoryModal: React.FC<{
             <div className="bg-white/90 dark:bg-[#252945]/90 backdrop-blur-sm border border-slate-300 dark:border-slate-700 rounded-lg shadow-xl w-full max-w-lg text-slate-900 dark:text-white" onClick={e => e.stopPropagation()}>
                 <div className="p-4 border-b border-slate-200 dark:border-slate-600">
                     <div className="flex justify-between items-center mb-2">
-                        <h3 className="text-lg font-semibold">Dòng Ký Ức</h3>
+                        <h3 className="text-lg font-semibold">{t('memory.title')}</h3>
                         <button onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white text-2xl leading-none">&times;</button>
                     </div>
                     <div className="flex items-center gap-4 text-xs text-slate-600 dark:text-slate-400">
-                        <span>📌 {pinnedMemories.length} đã ghim</span>
-                        <span>📄 {memories.length} tổng cộng</span>
+                        <span>{t('memory.pinnedCount', { count: pinnedMemories.length })}</span>
+                        <span>{t('memory.totalCount', { count: memories.length })}</span>
                         {gameState && (
-                            <span>🎯 Sắp xếp theo độ quan trọng</span>
+                            <span>{t('memory.sortedByImportance')}</span>
                         )}
                     </div>
                 </div>
@@ -81,7 +83,7 @@ export const MemoryModal: React.FC<{
                                         <div className="flex-1">
                                             <div className="flex items-center gap-2 mb-1">
                                                 <span className="text-xs font-medium text-yellow-700 dark:text-yellow-300">
-                                                    📌 PINNED
+                                                    {t('memory.pinnedBadge')}
                                                 </span>
                                                 {gameState && (
                                                     <span className="text-xs px-1.5 py-0.5 bg-yellow-200 dark:bg-yellow-800 text-yellow-800 dark:text-yellow-200 rounded">
@@ -103,7 +105,7 @@ export const MemoryModal: React.FC<{
                                                         </span>
                                                     ))}
                                                     {mem.relatedEntities.length > 3 && (
-                                                        <span className="text-xs text-slate-500">+{mem.relatedEntities.length - 3} more</span>
+                                                        <span className="text-xs text-slate-500">{t('memory.moreEntities', { count: mem.relatedEntities.length - 3 })}</span>
                                                     )}
                                                 </div>
                                             )}
@@ -111,7 +113,7 @@ export const MemoryModal: React.FC<{
                                         <button 
                                             onClick={() => onTogglePin(mem.originalIndex)}
                                             className="p-1 rounded-full transition-colors bg-yellow-400 text-slate-800 hover:bg-yellow-500 flex-shrink-0"
-                                            aria-label="Bỏ ghim"
+                                            aria-label={t('memory.unpin')}
                                         >
                                             <PinIcon className="w-4 h-4" />
                                         </button>
@@ -171,7 +173,7 @@ export const MemoryModal: React.FC<{
                                                             </span>
                                                         ))}
                                                         {mem.relatedEntities.length > 3 && (
-                                                            <span className="text-xs text-slate-500">+{mem.relatedEntities.length - 3} more</span>
+                                                            <span className="text-xs text-slate-500">{t('memory.moreEntities', { count: mem.relatedEntities.length - 3 })}</span>
                                                         )}
                                                     </div>
                                                 )}
@@ -188,7 +190,7 @@ export const MemoryModal: React.FC<{
                                             <button 
                                                 onClick={() => onTogglePin(mem.originalIndex)}
                                                 className="p-1 rounded-full transition-colors bg-slate-500 dark:bg-slate-600 hover:bg-slate-400 dark:hover:bg-slate-500 text-white flex-shrink-0"
-                                                aria-label="Ghim"
+                                                aria-label={t('memory.pin')}
                                             >
                                                 <PinIcon className="w-4 h-4" />
                                             </button>
@@ -200,13 +202,13 @@ export const MemoryModal: React.FC<{
                             {/* Hidden memories notice */}
                             {unpinnedMemories.length > MAX_UNPINNED_MEMORIES && (
                                 <p className="text-xs text-center text-slate-500 dark:text-slate-400 pt-2">
-                                    ...và {unpinnedMemories.length - MAX_UNPINNED_MEMORIES} ký ức cũ hơn đã bị ẩn. Ghim lại ký ức quan trọng để chúng luôn hiển thị.
+                                    {t('memory.hiddenNotice', { count: unpinnedMemories.length - MAX_UNPINNED_MEMORIES })}
                                 </p>
                             )}
 
                         </ul>
                     ) : (
-                        <p className="text-gray-500 dark:text-gray-400 text-center py-4">Chưa có ký ức mới.</p>
+                        <p className="text-gray-500 dark:text-gray-400 text-center py-4">{t('memory.empty')}</p>
                     )}
                 </div>
             </div>
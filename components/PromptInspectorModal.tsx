@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import type { PromptInspection, PromptInspectionSection } from './types.ts';
+import { formatPromptInspection, getOverBudgetSections } from './utils/promptInspector';
+import { TokenManager } from './TokenManager';
+import { useI18n } from './hooks/useI18n';
+
+interface PromptInspectorModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    inspections: PromptInspection[];
+}
+
+const SectionView: React.FC<{ section: PromptInspectionSection; totalTokens: number; overBudget: boolean }> = ({ section, totalTokens, overBudget }) => {
+    const [, { t }] = useI18n();
+    const share = totalTokens > 0 ? Math.min(100, (section.tokens / totalTokens) * 100) : 0;
+    const omitted = section.items.filter(item => !item.included).length;
+    return (
+        <details className={`rounded-lg border ${overBudget ? 'border-amber-400' : 'border-slate-200 dark:border-slate-600'}`}>
+            <summary className="cursor-pointer p-2 text-sm">
+                <span className="font-semibold">{t(section.label)}</span>
+                <span className="ml-2 text-xs text-slate-500 dark:text-gray-400">
+                    ~{section.tokens}{section.budget !== undefined && ` / ${section.budget}`} tokens
+                    {section.items.length > 0 && t('promptInspector.sectionItems', { included: section.items.length - omitted, total: section.items.length })}
+                    {omitted > 0 && <span className="text-amber-600 dark:text-amber-400">{t('promptInspector.sectionOmitted', { count: omitted })}</span>}
+                </span>
+                <div className="mt-1 h-1.5 rounded bg-slate-200 dark:bg-slate-700">
+                    <div className={`h-1.5 rounded ${overBudget ? 'bg-amber-500' : 'bg-purple-500'}`} style={{ width: `${share}%` }} />
+                </div>
+            </summary>
+            <div className="p-2 pt-0 space-y-2">
+                {section.parts.length > 0 && (
+                    <ul className="text-xs space-y-0.5">
+                        {section.parts.map((part, index) => (
+                            <li key={index} className={part.budget !== undefined && part.tokens > part.budget ? 'text-amber-600 dark:text-amber-400' : ''}>
+                                {t(part.label)}: ~{part.tokens}{part.budget !== undefined && ` / ${part.budget}`} tokens
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                {section.items.length > 0 && (
+                    <ul className="text-xs space-y-0.5 max-h-40 overflow-y-auto">
+                        {section.items.map((item, index) => (
+                            <li key={index} className={item.included ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                                {item.included ? '✓' : '✗'} <strong>{item.name}</strong> — {t(item.detail.key, item.detail.params)}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <pre className="text-xs whitespace-pre-wrap break-words max-h-80 overflow-y-auto p-2 rounded bg-slate-100 dark:bg-slate-900/60">{section.text}</pre>
+            </div>
+        </details>
+    );
+};
+
+export const PromptInspectorModal: React.FC<PromptInspectorModalProps> = ({ isOpen, onClose, inspections }) => {
+    const [{ locale }, { t }] = useI18n();
+    const [selectedTurn, setSelectedTurn] = useState<number | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    // Follow the newest turn until another one is picked
+    useEffect(() => {
+        if (selectedTurn !== null && !inspections.some(inspection => inspection.turn === selectedTurn)) {
+            setSelectedTurn(null);
+        }
+    }, [inspections, selectedTurn]);
+
+    if (!isOpen) return null;
+
+    const inspection = inspections.find(entry => entry.turn === selectedTurn) || inspections[inspections.length - 1];
+    const overBudget = inspection ? new Set(getOverBudgetSections(inspection).map(section => section.id)) : new Set<string>();
+    const accuracy = TokenManager.getAccuracyStats();
+
+    const handleCopy = async () => {
+        if (!inspection) return;
+        try {
+            await navigator.clipboard.writeText(formatPromptInspection(inspection, locale));
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (error) {
+            console.error('Failed to copy prompt:', error);
+        }
+    };
+
+    const handleExport = () => {
+        if (!inspection) return;
+        const blob = new Blob([JSON.stringify(inspection, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `prompt_turn_${inspection.turn}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-[110] p-4" onClick={onClose}>
+            <div
+                className="bg-white/90 dark:bg-[#2a2f4c]/90 backdrop-blur-sm border-2 border-purple-400/80 rounded-lg shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col text-slate-900 dark:text-white"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="p-4 border-b-2 border-purple-400/80 flex justify-between items-center">
+                    <h3 className="text-xl font-bold text-purple-600 dark:text-purple-300 flex items-center gap-2">
+                        {t('promptInspector.title')}
+                    </h3>
+                    <button onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white text-3xl leading-none">&times;</button>
+                </div>
+
+                <div className="p-6 space-y-4 overflow-y-auto text-slate-700 dark:text-gray-300">
+                    {!inspection ? (
+                        <p className="text-sm italic text-slate-500 dark:text-gray-400">
+                            {t('promptInspector.empty')}
+                        </p>
+                    ) : (
+                        <>
+                            {/* Turn picker, newest first */}
+                            <div className="flex flex-wrap gap-2">
+                                {[...inspections].reverse().map(entry => (
+                                    <button
+                                        key={entry.turn}
+                                        onClick={() => setSelectedTurn(entry.turn)}
+                                        className={`px-3 py-1 text-xs rounded ${entry.turn === inspection.turn ? 'bg-purple-600 text-white' : 'bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500'}`}
+                                    >
+                                        {t('common.turn', { turn: entry.turn })}
+                                    </button>
+                                ))}
+                            </div>
+
+                            {/* Totals */}
+                            <div className="flex flex-wrap items-center justify-between gap-2">
+                                <div className="text-sm">
+                                    <p className="font-semibold truncate">"{inspection.action}"</p>
+                                    <p className="text-xs text-slate-500 dark:text-gray-400">
+                                        {t('promptInspector.totals', {
+                                            total: inspection.totalTokens,
+                                            softLimit: inspection.softLimit,
+                                            system: inspection.systemTokens,
+                                            sections: inspection.sections.length
+                                        })}
+                                    </p>
+                                    <p className="text-xs text-slate-500 dark:text-gray-400">
+                                        {accuracy.length === 0
+                                            ? t('promptInspector.uncalibrated')
+                                            : t('promptInspector.accuracy', {
+                                                model: TokenManager.getActiveModel(),
+                                                stats: accuracy.map(stat => t('promptInspector.accuracyStat', {
+                                                    type: stat.contentType,
+                                                    efficiency: stat.efficiency,
+                                                    error: Math.round(stat.meanError * 100),
+                                                    samples: stat.samples
+                                                })).join(' • ')
+                                            })}
+                                    </p>
+                                </div>
+                                <div className="flex gap-2">
+                                    <button onClick={handleCopy} className="px-3 py-1 text-xs rounded bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500">
+                                        {copied ? t('promptInspector.copied') : t('promptInspector.copy')}
+                                    </button>
+                                    <button onClick={handleExport} className="px-3 py-1 text-xs rounded bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500">
+                                        {t('promptInspector.exportJson')}
+                                    </button>
+                                </div>
+                            </div>
+
+                            {inspection.fallback && (
+                                <p className="text-sm p-2 rounded bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300">
+                                    {t('promptInspector.fallback')}
+                                </p>
+                            )}
+                            {inspection.truncation && (
+                                <p className="text-sm p-2 rounded bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300">
+                                    {t('promptInspector.truncated', {
+                                        hardLimit: inspection.hardLimit,
+                                        by: inspection.truncation.by,
+                                        before: inspection.truncation.tokensBefore,
+                                        after: inspection.truncation.tokensAfter
+                                    })}
+                                    {inspection.truncation.droppedSections.length > 0 && t('promptInspector.dropped', { sections: inspection.truncation.droppedSections.map(label => t(label)).join(', ') })}
+                                </p>
+                            )}
+
+                            {/* System instruction */}
+                            <details className="rounded-lg border border-slate-200 dark:border-slate-600">
+                                <summary className="cursor-pointer p-2 text-sm">
+                                    <span className="font-semibold">System instruction</span>
+                                    <span className="ml-2 text-xs text-slate-500 dark:text-gray-400">~{inspection.systemTokens} tokens</span>
+                                </summary>
+                                <pre className="m-2 mt-0 text-xs whitespace-pre-wrap break-words max-h-80 overflow-y-auto p-2 rounded bg-slate-100 dark:bg-slate-900/60">{inspection.systemInstruction}</pre>
+                            </details>
+
+                            {/* User prompt, section by section */}
+                            <div className="space-y-2">
+                                {inspection.sections.map(section => (
+                                    <SectionView
+                                        key={section.id}
+                                        section={section}
+                                        totalTokens={inspection.totalTokens}
+                                        overBudget={overBudget.has(section.id)}
+                                    />
+                                ))}
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,196 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { PromptTemplateId, PromptTemplateOverrides } from './types.ts';
+import type { Locale } from './i18n';
+import { useI18n } from './hooks/useI18n';
+import {
+    PROMPT_TEMPLATE_SLOTS, validatePromptTemplate, setPromptTemplateOverride, getDefaultPromptTemplate,
+    createPromptTemplatePreset, parsePromptTemplatePreset, applyPromptTemplatePreset
+} from './utils/promptTemplates';
+
+interface PromptTemplatesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    overrides: PromptTemplateOverrides;
+    worldSystemInstruction: string;   // What the system instruction slot falls back to for this world
+    worldName: string;
+    locale: Locale;                   // Language the world's GM writes in, which picks the built-in defaults
+    onSave: (overrides: PromptTemplateOverrides) => void;
+}
+
+type Drafts = Record<PromptTemplateId, string>;
+
+export const PromptTemplatesModal: React.FC<PromptTemplatesModalProps> = ({ isOpen, onClose, overrides, worldSystemInstruction, worldName, locale, onSave }) => {
+    const [{ locale: uiLocale }, { t }] = useI18n();
+    const [selectedId, setSelectedId] = useState<PromptTemplateId>(PROMPT_TEMPLATE_SLOTS[0].id);
+    const [drafts, setDrafts] = useState<Drafts>({} as Drafts);
+    const [message, setMessage] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const getDefaultText = (id: PromptTemplateId): string =>
+        id === 'systemInstruction' ? worldSystemInstruction : getDefaultPromptTemplate(id, locale);
+
+    const buildDrafts = (source: PromptTemplateOverrides): Drafts =>
+        PROMPT_TEMPLATE_SLOTS.reduce((all, slot) => ({ ...all, [slot.id]: source[slot.id] ?? getDefaultText(slot.id) }), {} as Drafts);
+
+    // Start from the saved templates every time the modal opens
+    useEffect(() => {
+        if (isOpen) {
+            setDrafts(buildDrafts(overrides));
+            setMessage(null);
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const slot = PROMPT_TEMPLATE_SLOTS.find(entry => entry.id === selectedId)!;
+    const draft = drafts[selectedId] ?? '';
+    const savedText = overrides[selectedId] ?? getDefaultText(selectedId);
+    const validation = validatePromptTemplate(selectedId, draft, locale);
+    const isDirty = draft !== savedText;
+
+    const handleSave = () => {
+        onSave(setPromptTemplateOverride(overrides, selectedId, draft, getDefaultText(selectedId)));
+        setMessage(t('promptTemplates.saved', { label: t(slot.label) }));
+    };
+
+    const handleReset = () => {
+        onSave(setPromptTemplateOverride(overrides, selectedId, null));
+        setDrafts(prev => ({ ...prev, [selectedId]: getDefaultText(selectedId) }));
+        setMessage(t('promptTemplates.reset', { label: t(slot.label) }));
+    };
+
+    const handleExport = () => {
+        const preset = createPromptTemplatePreset(worldName, overrides);
+        const blob = new Blob([JSON.stringify(preset, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `prompt_templates_${(worldName || 'preset').replace(/\s+/g, '_')}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const preset = parsePromptTemplatePreset(JSON.parse(await file.text()), uiLocale);
+            const result = applyPromptTemplatePreset(overrides, preset, locale);
+            onSave(result.overrides);
+            setDrafts(buildDrafts(result.overrides));
+            const labels = result.skipped.map(entry => {
+                const skippedSlot = PROMPT_TEMPLATE_SLOTS.find(s => s.id === entry.id);
+                return skippedSlot ? t(skippedSlot.label) : entry.id;
+            });
+            setMessage(t('promptTemplates.imported', { name: preset.name || file.name })
+                + (labels.length ? t('promptTemplates.importSkipped', { labels: labels.join(', ') }) : ''));
+        } catch (error) {
+            setMessage(t('promptTemplates.importFailed', { error: error instanceof Error ? error.message : String(error) }));
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-[110] p-4" onClick={onClose}>
+            <div
+                className="bg-white/90 dark:bg-[#2a2f4c]/90 backdrop-blur-sm border-2 border-purple-400/80 rounded-lg shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col text-slate-900 dark:text-white"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="p-4 border-b-2 border-purple-400/80 flex justify-between items-center">
+                    <h3 className="text-xl font-bold text-purple-600 dark:text-purple-300 flex items-center gap-2">
+                        {t('promptTemplates.title')}
+                    </h3>
+                    <div className="flex items-center gap-2">
+                        <input type="file" ref={fileInputRef} onChange={handleImport} accept=".json" className="hidden" />
+                        <button onClick={() => fileInputRef.current?.click()} className="px-3 py-1 text-xs rounded bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500">
+                            {t('promptTemplates.import')}
+                        </button>
+                        <button onClick={handleExport} className="px-3 py-1 text-xs rounded bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500">
+                            {t('promptTemplates.export')}
+                        </button>
+                        <button onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white text-3xl leading-none">&times;</button>
+                    </div>
+                </div>
+
+                <div className="p-6 space-y-4 overflow-y-auto text-slate-700 dark:text-gray-300">
+                    {/* Template picker */}
+                    <div className="flex flex-wrap gap-2">
+                        {PROMPT_TEMPLATE_SLOTS.map(entry => (
+                            <button
+                                key={entry.id}
+                                onClick={() => setSelectedId(entry.id)}
+                                className={`px-3 py-1 text-xs rounded ${entry.id === selectedId ? 'bg-purple-600 text-white' : 'bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500'}`}
+                            >
+                                {t(entry.label)}{overrides[entry.id] !== undefined && ' ✎'}
+                            </button>
+                        ))}
+                    </div>
+
+                    <p className="text-sm">{t(slot.description)}</p>
+                    <p className="text-xs text-slate-500 dark:text-gray-400">
+                        {overrides[selectedId] !== undefined ? t('promptTemplates.usingOverride') : t('promptTemplates.usingDefault')}
+                    </p>
+
+                    {message && (
+                        <p className="text-sm p-2 rounded bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300">{message}</p>
+                    )}
+
+                    <textarea
+                        value={draft}
+                        onChange={e => setDrafts(prev => ({ ...prev, [selectedId]: e.target.value }))}
+                        className="w-full h-80 p-2 text-xs font-mono rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900/60"
+                        spellCheck={false}
+                    />
+
+                    {validation.errors.map((error, index) => (
+                        <p key={`e${index}`} className="text-sm text-red-600 dark:text-red-400">✗ {t(error.key, error.params)}</p>
+                    ))}
+                    {validation.warnings.map((warning, index) => (
+                        <p key={`w${index}`} className="text-sm text-amber-600 dark:text-amber-400">⚠ {t(warning.key, warning.params)}</p>
+                    ))}
+
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            onClick={handleSave}
+                            disabled={!isDirty || validation.errors.length > 0}
+                            className="px-4 py-2 text-sm rounded bg-purple-600 hover:bg-purple-500 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {t('promptTemplates.save')}
+                        </button>
+                        <button
+                            onClick={() => setDrafts(prev => ({ ...prev, [selectedId]: savedText }))}
+                            disabled={!isDirty}
+                            className="px-4 py-2 text-sm rounded bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {t('promptTemplates.discard')}
+                        </button>
+                        <button
+                            onClick={handleReset}
+                            disabled={overrides[selectedId] === undefined}
+                            className="px-4 py-2 text-sm rounded bg-red-600/80 hover:bg-red-500 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {t('promptTemplates.restoreDefault')}
+                        </button>
+                    </div>
+
+                    {/* Placeholders the builder fills for this template */}
+                    {Object.keys(slot.placeholders).length > 0 && (
+                        <details className="rounded-lg border border-slate-200 dark:border-slate-600">
+                            <summary className="cursor-pointer p-2 text-sm font-semibold">{t('promptTemplates.placeholders')}</summary>
+                            <ul className="p-2 pt-0 text-xs space-y-0.5">
+                                {Object.entries(slot.placeholders).map(([name, description]) => (
+                                    <li key={name}><code className="text-purple-600 dark:text-purple-300">{`{{${name}}}`}</code> — {t(description)}</li>
+                                ))}
+                            </ul>
+                        </details>
+                    )}
+
+                    <details className="rounded-lg border border-slate-200 dark:border-slate-600">
+                        <summary className="cursor-pointer p-2 text-sm font-semibold">{t('promptTemplates.defaultText')}</summary>
+                        <pre className="m-2 mt-0 text-xs whitespace-pre-wrap break-words max-h-80 overflow-y-auto p-2 rounded bg-slate-100 dark:bg-slate-900/60">{getDefaultText(selectedId)}</pre>
+                    </details>
+                </div>
+            </div>
+        </div>
+    );
+};
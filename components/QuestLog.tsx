@@ -2,6 +2,7 @@ import React from 'react';
 import type { Quest } from './types';
 import * as GameIcons from './GameIcons';
 import { CrossIcon } from './Icons';
+import { useI18n } from './hooks/useI18n';
 
 const getIconForQuest = (quest: Quest): React.ReactNode => {
     if (!quest) return <GameIcons.ScrollIcon />;
@@ -11,6 +12,7 @@ const getIconForQuest = (quest: Quest): React.ReactNode => {
 };
 
 export const QuestLog: React.FC<{ quests: Quest[]; onQuestClick: (quest: Quest) => void }> = ({ quests, onQuestClick }) => {
+    const [, { t }] = useI18n();
     // Handle undefined quests prop
     const questsArray = quests || [];
     const activeQuests = questsArray.filter(q => q.status === 'active');
@@ -20,7 +22,7 @@ export const QuestLog: React.FC<{ quests: Quest[]; onQuestClick: (quest: Quest)
         <div className="p-4 h-full flex flex-col">
             <div className="flex-grow overflow-y-auto pr-2 space-y-4">
                 <div>
-                    <h4 className="text-sm font-semibold text-yellow-700 dark:text-yellow-300 mb-2 border-b border-yellow-400/20 pb-1">Đang Thực Hiện</h4>
+                    <h4 className="text-sm font-semibold text-yellow-700 dark:text-yellow-300 mb-2 border-b border-yellow-400/20 pb-1">{t('questLog.active')}</h4>
                     {activeQuests.length > 0 ? (
                         <ul className="space-y-2">
                             {activeQuests.map(quest => (
@@ -29,16 +31,16 @@ export const QuestLog: React.FC<{ quests: Quest[]; onQuestClick: (quest: Quest)
                                         <span className="w-4 h-4">{getIconForQuest(quest)}</span>
                                         {quest.title}
                                     </p>
-                                    <p className="text-xs text-yellow-800/80 dark:text-yellow-200/80 pl-6 mt-1">- {quest.objectives.find(o => !o.completed)?.description || "Hoàn thành các mục tiêu."}</p>
+                                    <p className="text-xs text-yellow-800/80 dark:text-yellow-200/80 pl-6 mt-1">- {quest.objectives.find(o => !o.completed)?.description || t('questLog.completeObjectives')}</p>
                                 </li>
                             ))}
                         </ul>
-                    ) : <p className="text-xs text-slate-600 dark:text-slate-400 pl-2 italic">Không có nhiệm vụ nào đang hoạt động.</p>}
+                    ) : <p className="text-xs text-slate-600 dark:text-slate-400 pl-2 italic">{t('questLog.noActive')}</p>}
                 </div>
 
                 {finishedQuests.length > 0 && (
                     <div className="pt-2">
-                        <h4 className="text-sm font-semibold text-gray-600 dark:text-gray-400 mb-2 border-b border-slate-300 dark:border-slate-600 pb-1">Đã Kết Thúc</h4>
+                        <h4 className="text-sm font-semibold text-gray-600 dark:text-gray-400 mb-2 border-b border-slate-300 dark:border-slate-600 pb-1">{t('questLog.finished')}</h4>
                         <ul className="space-y-2">
                             {finishedQuests.sort((a,b) => a.title.localeCompare(b.title)).map(quest => (
                                 <li key={quest.title} onClick={() => onQuestClick(quest)} className="text-sm p-2 bg-slate-200/50 dark:bg-slate-700/50 border-l-4 border-slate-400 dark:border-slate-500 rounded-r-md hover:bg-slate-300/50 dark:hover:bg-slate-600/50 transition-colors cursor-pointer opacity-70">
@@ -1,8 +1,22 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { RegexRule, RegexPlacement, RegexSubstituteMode } from './types';
-import { regexEngine, RegexEngine } from './utils/RegexEngine';
+import { RegexEngine, RegexSkipReason } from './utils/RegexEngine';
+import { regexSandbox, RegexTraceStep } from './utils/RegexSandbox';
 import { DEFAULT_REGEX_TEMPLATES, generateTemplateRules } from './utils/DefaultRegexTemplates';
 import { PlusIcon, SaveIcon, FileIcon, TrashIcon, PlayIcon, StopIcon, EyeIcon, EyeSlashIcon } from './Icons';
+import type { TranslationKey } from './i18n';
+import { useI18n } from './hooks/useI18n';
+
+const PLACEMENT_LABELS: Record<RegexPlacement, TranslationKey> = {
+    [RegexPlacement.PLAYER_INPUT]: 'regex.placement.playerInput',
+    [RegexPlacement.AI_OUTPUT]: 'regex.placement.aiOutput',
+    [RegexPlacement.MEMORY_PROCESSING]: 'regex.placement.memory',
+    [RegexPlacement.ENTITY_DETECTION]: 'regex.placement.entities',
+    [RegexPlacement.QUEST_PROCESSING]: 'regex.placement.quests',
+    [RegexPlacement.DIALOGUE_FORMATTING]: 'regex.placement.dialogue',
+    [RegexPlacement.STAT_EXTRACTION]: 'regex.placement.stats',
+    [RegexPlacement.COMBAT_FORMATTING]: 'regex.placement.combat'
+};
 
 interface RegexEditorModalProps {
     isOpen: boolean;
@@ -19,6 +33,7 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
     rule, 
     existingRuleNames 
 }) => {
+    const [, { t }] = useI18n();
     const [editRule, setEditRule] = useState<RegexRule>(() => ({
         id: rule?.id || Date.now().toString(),
         name: rule?.name || '',
@@ -37,7 +52,8 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
         category: rule?.category || 'General',
         description: rule?.description || '',
         createdAt: rule?.createdAt || Date.now(),
-        lastUsed: rule?.lastUsed
+        lastUsed: rule?.lastUsed,
+        timedOutAt: rule?.timedOutAt
     }));
 
     const [testInput, setTestInput] = useState('');
@@ -66,7 +82,8 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                 category: rule?.category || 'General',
                 description: rule?.description || '',
                 createdAt: rule?.createdAt || Date.now(),
-                lastUsed: rule?.lastUsed
+                lastUsed: rule?.lastUsed,
+                timedOutAt: rule?.timedOutAt
             });
             setTestInput('');
             setTestOutput('');
@@ -78,48 +95,54 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
     useEffect(() => {
         if (editRule.findRegex) {
             const validation = RegexEngine.validateRegexPattern(editRule.findRegex);
-            setValidationError(validation.isValid ? '' : validation.error || 'Invalid pattern');
+            setValidationError(validation.isValid ? '' : validation.error || t('regex.invalidPattern'));
         } else {
             setValidationError('');
         }
-    }, [editRule.findRegex]);
+    }, [editRule.findRegex, t]);
 
-    // Test regex pattern
+    // Test regex pattern (in the sandbox, so a runaway pattern cannot freeze the editor)
     useEffect(() => {
         if (showTesting && testInput && editRule.findRegex && !validationError) {
-            try {
-                const result = regexEngine.runRegexRule(editRule, testInput);
-                setTestOutput(result);
-            } catch (error) {
-                setTestOutput('Error: ' + (error instanceof Error ? error.message : 'Unknown error'));
-            }
+            let cancelled = false;
+            regexSandbox.runRule(editRule, testInput).then(run => {
+                if (cancelled) return;
+                if (run.timedOut) {
+                    setTestOutput(t('regex.test.timedOut', { ms: regexSandbox.timeBudgetMs }));
+                } else if (run.error) {
+                    setTestOutput(t('regex.test.error', { error: run.error }));
+                } else {
+                    setTestOutput(run.output);
+                }
+            });
+            return () => { cancelled = true; };
         }
-    }, [showTesting, testInput, editRule, validationError]);
+    }, [showTesting, testInput, editRule, validationError, t]);
 
     const handleSave = () => {
         // Validation
         if (!editRule.name.trim()) {
-            alert('Rule name is required.');
+            alert(t('regex.alert.nameRequired'));
             return;
         }
 
         if (existingRuleNames.includes(editRule.name) && editRule.name !== rule?.name) {
-            alert('A rule with this name already exists.');
+            alert(t('regex.alert.nameTaken'));
             return;
         }
 
         if (!editRule.findRegex.trim()) {
-            alert('Find regex pattern is required.');
+            alert(t('regex.alert.patternRequired'));
             return;
         }
 
         if (validationError) {
-            alert('Please fix the regex pattern error: ' + validationError);
+            alert(t('regex.alert.fixPattern', { error: validationError }));
             return;
         }
 
         if (editRule.placement.length === 0) {
-            alert('At least one placement must be selected.');
+            alert(t('regex.alert.placementRequired'));
             return;
         }
 
@@ -151,7 +174,7 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                 <div className="p-6">
                     <div className="flex justify-between items-center mb-6">
                         <h2 className="text-2xl font-bold text-gray-800">
-                            {rule ? 'Edit Regex Rule' : 'Create Regex Rule'}
+                            {rule ? t('regex.editor.editTitle') : t('regex.editor.createTitle')}
                         </h2>
                         <button
                             onClick={onClose}
@@ -167,47 +190,47 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                             {/* Basic Info */}
                             <div>
                                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                                    Rule Name *
+                                    {t('regex.editor.name')}
                                 </label>
                                 <input
                                     type="text"
                                     value={editRule.name}
                                     onChange={(e) => setEditRule(prev => ({ ...prev, name: e.target.value }))}
                                     className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
-                                    placeholder="Enter rule name..."
+                                    placeholder={t('regex.editor.namePlaceholder')}
                                 />
                             </div>
 
                             <div>
                                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                                    Description
+                                    {t('regex.editor.description')}
                                 </label>
                                 <textarea
                                     value={editRule.description}
                                     onChange={(e) => setEditRule(prev => ({ ...prev, description: e.target.value }))}
                                     className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
                                     rows={2}
-                                    placeholder="Describe what this rule does..."
+                                    placeholder={t('regex.editor.descriptionPlaceholder')}
                                 />
                             </div>
 
                             <div>
                                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                                    Category
+                                    {t('regex.editor.category')}
                                 </label>
                                 <input
                                     type="text"
                                     value={editRule.category}
                                     onChange={(e) => setEditRule(prev => ({ ...prev, category: e.target.value }))}
                                     className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
-                                    placeholder="e.g., Formatting, Combat, Dialogue..."
+                                    placeholder={t('regex.editor.categoryPlaceholder')}
                                 />
                             </div>
 
                             {/* Regex Pattern */}
                             <div>
                                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                                    Find Regex Pattern *
+                                    {t('regex.editor.findRegex')}
                                 </label>
                                 <textarea
                                     value={editRule.findRegex}
@@ -216,7 +239,7 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                                         validationError ? 'border-red-500' : 'border-gray-300'
                                     }`}
                                     rows={3}
-                                    placeholder="Enter regex pattern... e.g., /\\*([^*]+)\\*/g"
+                                    placeholder={t('regex.editor.findRegexPlaceholder')}
                                 />
                                 {validationError && (
                                     <p className="text-red-500 text-xs mt-1">{validationError}</p>
@@ -225,27 +248,27 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
 
                             <div>
                                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                                    Replace With
+                                    {t('regex.editor.replaceWith')}
                                 </label>
                                 <textarea
                                     value={editRule.replaceString}
                                     onChange={(e) => setEditRule(prev => ({ ...prev, replaceString: e.target.value }))}
                                     className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm text-black"
                                     rows={3}
-                                    placeholder="Replacement text... Use $1, $2 for groups, {{match}} for full match"
+                                    placeholder={t('regex.editor.replacePlaceholder')}
                                 />
                             </div>
 
                             <div>
                                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                                    Trim Strings (one per line)
+                                    {t('regex.editor.trimStrings')}
                                 </label>
                                 <textarea
                                     value={editRule.trimStrings.join('\n')}
                                     onChange={(e) => handleTrimStringsChange(e.target.value)}
                                     className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
                                     rows={2}
-                                    placeholder="Strings to remove from matches..."
+                                    placeholder={t('regex.editor.trimPlaceholder')}
                                 />
                             </div>
                         </div>
@@ -255,7 +278,7 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                             {/* Placement */}
                             <div>
                                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                                    Apply To (Placement) *
+                                    {t('regex.editor.placement')}
                                 </label>
                                 <div className="space-y-2 max-h-40 overflow-y-auto border border-gray-200 rounded p-2">
                                     <div className="flex items-start gap-2 text-sm">
@@ -265,7 +288,7 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                                             onChange={(e) => handlePlacementChange(RegexPlacement.PLAYER_INPUT, e.target.checked)}
                                             className="mt-0.5"
                                         />
-                                        <span className="flex-1 text-black font-semibold">Player Commands</span>
+                                        <span className="flex-1 text-black font-semibold">{t(PLACEMENT_LABELS[RegexPlacement.PLAYER_INPUT])}</span>
                                     </div>
                                     <div className="flex items-start gap-2 text-sm">
                                         <input
@@ -274,7 +297,7 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                                             onChange={(e) => handlePlacementChange(RegexPlacement.AI_OUTPUT, e.target.checked)}
                                             className="mt-0.5"
                                         />
-                                        <span className="flex-1 text-black font-semibold">AI Responses</span>
+                                        <span className="flex-1 text-black font-semibold">{t(PLACEMENT_LABELS[RegexPlacement.AI_OUTPUT])}</span>
                                     </div>
                                     <div className="flex items-start gap-2 text-sm">
                                         <input
@@ -283,7 +306,7 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                                             onChange={(e) => handlePlacementChange(RegexPlacement.MEMORY_PROCESSING, e.target.checked)}
                                             className="mt-0.5"
                                         />
-                                        <span className="flex-1 text-black font-semibold">Memory Storage</span>
+                                        <span className="flex-1 text-black font-semibold">{t(PLACEMENT_LABELS[RegexPlacement.MEMORY_PROCESSING])}</span>
                                     </div>
                                     <div className="flex items-start gap-2 text-sm">
                                         <input
@@ -292,7 +315,7 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                                             onChange={(e) => handlePlacementChange(RegexPlacement.ENTITY_DETECTION, e.target.checked)}
                                             className="mt-0.5"
                                         />
-                                        <span className="flex-1 text-black font-semibold">Entity Extraction</span>
+                                        <span className="flex-1 text-black font-semibold">{t(PLACEMENT_LABELS[RegexPlacement.ENTITY_DETECTION])}</span>
                                     </div>
                                     <div className="flex items-start gap-2 text-sm">
                                         <input
@@ -301,7 +324,7 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                                             onChange={(e) => handlePlacementChange(RegexPlacement.QUEST_PROCESSING, e.target.checked)}
                                             className="mt-0.5"
                                         />
-                                        <span className="flex-1 text-black font-semibold">Quest Updates</span>
+                                        <span className="flex-1 text-black font-semibold">{t(PLACEMENT_LABELS[RegexPlacement.QUEST_PROCESSING])}</span>
                                     </div>
                                     <div className="flex items-start gap-2 text-sm">
                                         <input
@@ -310,7 +333,7 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                                             onChange={(e) => handlePlacementChange(RegexPlacement.DIALOGUE_FORMATTING, e.target.checked)}
                                             className="mt-0.5"
                                         />
-                                        <span className="flex-1 text-black font-semibold">Dialogue Formatting</span>
+                                        <span className="flex-1 text-black font-semibold">{t(PLACEMENT_LABELS[RegexPlacement.DIALOGUE_FORMATTING])}</span>
                                     </div>
                                     <div className="flex items-start gap-2 text-sm">
                                         <input
@@ -319,7 +342,7 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                                             onChange={(e) => handlePlacementChange(RegexPlacement.STAT_EXTRACTION, e.target.checked)}
                                             className="mt-0.5"
                                         />
-                                        <span className="flex-1 text-black font-semibold">Statistics Extraction</span>
+                                        <span className="flex-1 text-black font-semibold">{t(PLACEMENT_LABELS[RegexPlacement.STAT_EXTRACTION])}</span>
                                     </div>
                                     <div className="flex items-start gap-2 text-sm">
                                         <input
@@ -328,22 +351,26 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                                             onChange={(e) => handlePlacementChange(RegexPlacement.COMBAT_FORMATTING, e.target.checked)}
                                             className="mt-0.5"
                                         />
-                                        <span className="flex-1 text-black font-semibold">Combat Formatting</span>
+                                        <span className="flex-1 text-black font-semibold">{t(PLACEMENT_LABELS[RegexPlacement.COMBAT_FORMATTING])}</span>
                                     </div>
                                 </div>
                             </div>
 
                             {/* Options */}
                             <div className="space-y-2">
-                                <label className="block text-sm font-medium text-gray-700">Options</label>
+                                <label className="block text-sm font-medium text-gray-700">{t('regex.editor.options')}</label>
                                 
                                 <div className="flex items-center gap-2 text-sm">
                                     <input
                                         type="checkbox"
                                         checked={editRule.disabled}
-                                        onChange={(e) => setEditRule(prev => ({ ...prev, disabled: e.target.checked }))}
+                                        onChange={(e) => setEditRule(prev => ({
+                                            ...prev,
+                                            disabled: e.target.checked,
+                                            timedOutAt: e.target.checked ? prev.timedOutAt : undefined
+                                        }))}
                                     />
-                                    <span className="text-black font-semibold">Disabled</span>
+                                    <span className="text-black font-semibold">{t('regex.disabled')}</span>
                                 </div>
 
                                 <div className="flex items-center gap-2 text-sm">
@@ -352,7 +379,7 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                                         checked={editRule.markdownOnly}
                                         onChange={(e) => setEditRule(prev => ({ ...prev, markdownOnly: e.target.checked }))}
                                     />
-                                    <span className="text-black font-semibold">Markdown display only</span>
+                                    <span className="text-black font-semibold">{t('regex.editor.markdownOnly')}</span>
                                 </div>
 
                                 <div className="flex items-center gap-2 text-sm">
@@ -361,7 +388,7 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                                         checked={editRule.promptOnly}
                                         onChange={(e) => setEditRule(prev => ({ ...prev, promptOnly: e.target.checked }))}
                                     />
-                                    <span className="text-black font-semibold">Prompt generation only</span>
+                                    <span className="text-black font-semibold">{t('regex.editor.promptOnly')}</span>
                                 </div>
 
                                 <div className="flex items-center gap-2 text-sm">
@@ -370,7 +397,7 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                                         checked={editRule.runOnEdit}
                                         onChange={(e) => setEditRule(prev => ({ ...prev, runOnEdit: e.target.checked }))}
                                     />
-                                    <span className="text-black font-semibold">Run when editing content</span>
+                                    <span className="text-black font-semibold">{t('regex.editor.runOnEdit')}</span>
                                 </div>
 
                                 <div className="flex items-center gap-2 text-sm">
@@ -379,14 +406,14 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                                         checked={editRule.isScoped}
                                         onChange={(e) => setEditRule(prev => ({ ...prev, isScoped: e.target.checked }))}
                                     />
-                                    <span className="text-black font-semibold">Character/World specific</span>
+                                    <span className="text-black font-semibold">{t('regex.editor.scoped')}</span>
                                 </div>
                             </div>
 
                             {/* Macro Substitution */}
                             <div>
                                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                                    Macro Substitution
+                                    {t('regex.editor.substitute')}
                                 </label>
                                 <select
                                     value={editRule.substituteRegex}
@@ -396,9 +423,9 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                                     }))}
                                     className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
                                 >
-                                    <option value={RegexSubstituteMode.NONE} className="text-black">None - Use pattern as-is</option>
-                                    <option value={RegexSubstituteMode.RAW} className="text-black">Raw - Substitute macros</option>
-                                    <option value={RegexSubstituteMode.ESCAPED} className="text-black">Escaped - Substitute and escape</option>
+                                    <option value={RegexSubstituteMode.NONE} className="text-black">{t('regex.editor.substitute.none')}</option>
+                                    <option value={RegexSubstituteMode.RAW} className="text-black">{t('regex.editor.substitute.raw')}</option>
+                                    <option value={RegexSubstituteMode.ESCAPED} className="text-black">{t('regex.editor.substitute.escaped')}</option>
                                 </select>
                             </div>
 
@@ -406,7 +433,7 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                             <div className="grid grid-cols-2 gap-2">
                                 <div>
                                     <label className="block text-sm font-medium text-gray-700 mb-1">
-                                        Min Depth
+                                        {t('regex.editor.minDepth')}
                                     </label>
                                     <input
                                         type="number"
@@ -422,7 +449,7 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                                 </div>
                                 <div>
                                     <label className="block text-sm font-medium text-gray-700 mb-1">
-                                        Max Depth
+                                        {t('regex.editor.maxDepth')}
                                     </label>
                                     <input
                                         type="number"
@@ -442,14 +469,14 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                             <div>
                                 <div className="flex items-center justify-between mb-2">
                                     <label className="text-sm font-medium text-gray-700">
-                                        Test Pattern
+                                        {t('regex.editor.test')}
                                     </label>
                                     <button
                                         onClick={() => setShowTesting(!showTesting)}
                                         className="flex items-center space-x-1 text-blue-600 hover:text-blue-800"
                                     >
                                         {showTesting ? <EyeSlashIcon /> : <EyeIcon />}
-                                        <span className="text-sm">{showTesting ? 'Hide' : 'Show'}</span>
+                                        <span className="text-sm">{showTesting ? t('regex.editor.hide') : t('regex.editor.show')}</span>
                                     </button>
                                 </div>
                                 
@@ -460,12 +487,12 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                                             onChange={(e) => setTestInput(e.target.value)}
                                             className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm text-black"
                                             rows={3}
-                                            placeholder="Enter test text here..."
+                                            placeholder={t('regex.editor.testPlaceholder')}
                                         />
                                         <div className="bg-gray-50 p-2 rounded border text-sm">
-                                            <div className="font-medium text-gray-600 mb-1">Output:</div>
+                                            <div className="font-medium text-gray-600 mb-1">{t('regex.editor.output')}</div>
                                             <div className="whitespace-pre-wrap break-words">
-                                                {testOutput || (testInput ? 'No changes' : 'Enter test input above')}
+                                                {testOutput || (testInput ? t('regex.editor.noChanges') : t('regex.editor.enterTestInput'))}
                                             </div>
                                         </div>
                                     </div>
@@ -480,7 +507,7 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                             onClick={onClose}
                             className="px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50"
                         >
-                            Cancel
+                            {t('regex.cancel')}
                         </button>
                         <button
                             onClick={handleSave}
@@ -488,7 +515,7 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
                             className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center space-x-2"
                         >
                             <SaveIcon />
-                            <span>Save Rule</span>
+                            <span>{t('regex.editor.save')}</span>
                         </button>
                     </div>
                 </div>
@@ -497,17 +524,178 @@ const RegexEditorModal: React.FC<RegexEditorModalProps> = ({
     );
 };
 
+const SKIP_REASON_LABELS: Record<RegexSkipReason, TranslationKey> = {
+    disabled: 'regex.skip.disabled',
+    depth: 'regex.skip.depth',
+    edit: 'regex.skip.edit',
+    mode: 'regex.skip.mode'
+};
+
+const TRACE_STATUS_LABELS: Record<RegexTraceStep['status'], TranslationKey> = {
+    changed: 'regex.status.changed',
+    unchanged: 'regex.status.unchanged',
+    skipped: 'regex.status.skipped',
+    'timed-out': 'regex.status.timedOut',
+    error: 'regex.status.error'
+};
+
+const TRACE_STATUS_STYLES: Record<RegexTraceStep['status'], string> = {
+    changed: 'bg-green-100 text-green-800',
+    unchanged: 'bg-gray-100 text-gray-700',
+    skipped: 'bg-gray-100 text-gray-500',
+    'timed-out': 'bg-orange-100 text-orange-800',
+    error: 'bg-red-100 text-red-800'
+};
+
+interface RegexTestBenchProps {
+    rules: RegexRule[];
+    onRulesTimedOut: (ruleIds: string[]) => void;
+}
+
+const RegexTestBench: React.FC<RegexTestBenchProps> = ({ rules, onRulesTimedOut }) => {
+    const [, { t }] = useI18n();
+    const [sampleText, setSampleText] = useState('');
+    const [placement, setPlacement] = useState<RegexPlacement>(RegexPlacement.AI_OUTPUT);
+    const [depth, setDepth] = useState(0);
+    const [steps, setSteps] = useState<RegexTraceStep[] | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+
+    const placementDescriptions = RegexEngine.getPlacementDescriptions();
+    const placements = Object.keys(placementDescriptions).map(Number) as RegexPlacement[];
+
+    const handleRun = async () => {
+        setIsRunning(true);
+        try {
+            const trace = await regexSandbox.trace(sampleText, placement, rules, { depth, isEdit: false });
+            setSteps(trace);
+            const timedOut = trace.filter(step => step.status === 'timed-out').map(step => step.ruleId);
+            if (timedOut.length > 0) {
+                onRulesTimedOut(timedOut);
+            }
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const finalText = steps && steps.length > 0 ? steps[steps.length - 1].after : sampleText;
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('regex.bench.sample')}
+                </label>
+                <textarea
+                    value={sampleText}
+                    onChange={(e) => setSampleText(e.target.value)}
+                    className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm text-black"
+                    rows={5}
+                    placeholder={t('regex.bench.samplePlaceholder')}
+                />
+            </div>
+
+            <div className="flex flex-wrap items-end gap-3">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('regex.bench.placement')}</label>
+                    <select
+                        value={placement}
+                        onChange={(e) => setPlacement(parseInt(e.target.value) as RegexPlacement)}
+                        className="px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+                    >
+                        {placements.map(p => (
+                            <option key={p} value={p} className="text-black">{t(PLACEMENT_LABELS[p])}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('regex.bench.depth')}</label>
+                    <input
+                        type="number"
+                        value={depth}
+                        onChange={(e) => setDepth(e.target.value ? parseInt(e.target.value) : 0)}
+                        className="w-24 p-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+                        min="0"
+                    />
+                </div>
+                <button
+                    onClick={handleRun}
+                    disabled={isRunning || !sampleText}
+                    className="flex items-center space-x-2 px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                    <PlayIcon />
+                    <span>{isRunning ? t('regex.bench.running') : t('regex.bench.run')}</span>
+                </button>
+            </div>
+
+            {steps && (
+                steps.length === 0 ? (
+                    <p className="text-sm text-gray-500">{t('regex.bench.noRules')}</p>
+                ) : (
+                    <div className="space-y-3">
+                        {steps.map((step, index) => (
+                            <div key={step.ruleId} className="border rounded-lg p-3">
+                                <div className="flex items-center justify-between gap-2">
+                                    <div className="flex items-center space-x-2 min-w-0">
+                                        <span className="text-xs text-gray-500">#{index + 1}</span>
+                                        <h4 className="font-medium text-gray-900 truncate">{step.ruleName}</h4>
+                                        <span className={`px-2 py-1 text-xs rounded ${TRACE_STATUS_STYLES[step.status]}`}>
+                                            {t(TRACE_STATUS_LABELS[step.status])}
+                                        </span>
+                                    </div>
+                                    {step.status !== 'skipped' && (
+                                        <span className="text-xs text-gray-500">{step.durationMs}ms</span>
+                                    )}
+                                </div>
+                                {step.skipReason && (
+                                    <p className="text-xs text-gray-500 mt-1">{t(SKIP_REASON_LABELS[step.skipReason])}</p>
+                                )}
+                                {step.status === 'timed-out' && (
+                                    <p className="text-xs text-orange-700 mt-1">
+                                        {t('regex.bench.timedOut', { ms: regexSandbox.timeBudgetMs })}
+                                    </p>
+                                )}
+                                {step.error && (
+                                    <p className="text-xs text-red-600 mt-1">{step.error}</p>
+                                )}
+                                {step.status === 'changed' && (
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-2">
+                                        <div>
+                                            <p className="text-xs font-medium text-gray-600 mb-1">{t('regex.bench.before')}</p>
+                                            <pre className="p-2 bg-gray-50 border rounded text-xs text-black whitespace-pre-wrap break-words max-h-40 overflow-y-auto">{step.before}</pre>
+                                        </div>
+                                        <div>
+                                            <p className="text-xs font-medium text-gray-600 mb-1">{t('regex.bench.after')}</p>
+                                            <pre className="p-2 bg-green-50 border rounded text-xs text-black whitespace-pre-wrap break-words max-h-40 overflow-y-auto">{step.after}</pre>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+
+                        <div>
+                            <p className="text-sm font-medium text-gray-700 mb-1">{t('regex.bench.finalOutput')}</p>
+                            <pre className="p-2 bg-gray-50 border rounded text-sm text-black whitespace-pre-wrap break-words">{finalText}</pre>
+                        </div>
+                    </div>
+                )
+            )}
+        </div>
+    );
+};
+
 export const RegexManager: React.FC<{
     isOpen: boolean;
     onClose: () => void;
     onSave: (rules: RegexRule[]) => void;
     currentRules: RegexRule[];
 }> = ({ isOpen, onClose, onSave, currentRules = [] }) => {
+    const [, { t }] = useI18n();
     const [rules, setRules] = useState<RegexRule[]>(currentRules || []);
     const [isEditorOpen, setIsEditorOpen] = useState(false);
     const [editingRule, setEditingRule] = useState<RegexRule | undefined>();
     const [selectedRules, setSelectedRules] = useState<Set<string>>(new Set());
     const [filterCategory, setFilterCategory] = useState<string>('');
+    const [activeTab, setActiveTab] = useState<'rules' | 'bench'>('rules');
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     // Update rules when modal opens
@@ -544,7 +732,7 @@ export const RegexManager: React.FC<{
     };
 
     const handleDeleteRule = (id: string) => {
-        if (confirm('Are you sure you want to delete this rule?')) {
+        if (confirm(t('regex.confirm.delete'))) {
             setRules(prev => prev.filter(r => r.id !== id));
             setSelectedRules(prev => {
                 const newSet = new Set(prev);
@@ -556,7 +744,14 @@ export const RegexManager: React.FC<{
 
     const handleToggleRule = (id: string) => {
         setRules(prev => prev.map(r => 
-            r.id === id ? { ...r, disabled: !r.disabled } : r
+            r.id === id ? { ...r, disabled: !r.disabled, timedOutAt: r.disabled ? undefined : r.timedOutAt } : r
+        ));
+    };
+
+    const handleRulesTimedOut = (ruleIds: string[]) => {
+        const timedOutAt = Date.now();
+        setRules(prev => prev.map(r =>
+            ruleIds.includes(r.id) ? { ...r, disabled: true, timedOutAt } : r
         ));
     };
 
@@ -595,7 +790,7 @@ export const RegexManager: React.FC<{
 
     const handleBulkEnable = () => {
         setRules(prev => prev.map(r => 
-            selectedRules.has(r.id) ? { ...r, disabled: false } : r
+            selectedRules.has(r.id) ? { ...r, disabled: false, timedOutAt: undefined } : r
         ));
     };
 
@@ -608,7 +803,7 @@ export const RegexManager: React.FC<{
     const handleBulkDelete = () => {
         if (selectedRules.size === 0) return;
         
-        if (confirm(`Are you sure you want to delete ${selectedRules.size} selected rule(s)?`)) {
+        if (confirm(t('regex.confirm.bulkDelete', { count: selectedRules.size }))) {
             setRules(prev => prev.filter(r => !selectedRules.has(r.id)));
             setSelectedRules(new Set());
         }
@@ -620,7 +815,7 @@ export const RegexManager: React.FC<{
             : rules;
             
         if (exportRules.length === 0) {
-            alert('No rules to export.');
+            alert(t('regex.alert.nothingToExport'));
             return;
         }
 
@@ -646,7 +841,7 @@ export const RegexManager: React.FC<{
             const importedRules = JSON.parse(text) as RegexRule[];
             
             if (!Array.isArray(importedRules)) {
-                throw new Error('Invalid file format');
+                throw new Error(t('regex.invalidFileFormat'));
             }
 
             // Assign new IDs to prevent conflicts
@@ -657,9 +852,9 @@ export const RegexManager: React.FC<{
             }));
 
             setRules(prev => [...prev, ...newRules]);
-            alert(`Successfully imported ${newRules.length} rule(s).`);
+            alert(t('regex.alert.imported', { count: newRules.length }));
         } catch (error) {
-            alert('Error importing rules: ' + (error instanceof Error ? error.message : 'Unknown error'));
+            alert(t('regex.alert.importFailed', { error: error instanceof Error ? error.message : t('regex.alert.unknownError') }));
         }
 
         // Reset file input
@@ -669,10 +864,10 @@ export const RegexManager: React.FC<{
     };
 
     const handleLoadTemplates = () => {
-        if (confirm('This will add default RPG regex templates to your rules. Continue?')) {
+        if (confirm(t('regex.confirm.loadTemplates'))) {
             const templateRules = generateTemplateRules(DEFAULT_REGEX_TEMPLATES);
             setRules(prev => [...prev, ...templateRules]);
-            alert(`Successfully loaded ${templateRules.length} template rule(s)!`);
+            alert(t('regex.alert.templatesLoaded', { count: templateRules.length }));
         }
     };
 
@@ -691,6 +886,7 @@ export const RegexManager: React.FC<{
 
     const filteredRules = getFilteredRules();
     const categories = getCategories();
+    const timedOutCount = rules.filter(r => r.disabled && r.timedOutAt).length;
 
     return (
         <>
@@ -698,7 +894,7 @@ export const RegexManager: React.FC<{
                 <div className="bg-white rounded-lg max-w-6xl w-full max-h-[90vh] overflow-hidden flex flex-col">
                     <div className="p-6 border-b">
                         <div className="flex justify-between items-center mb-4">
-                            <h2 className="text-2xl font-bold text-gray-800">Regex Rules Manager</h2>
+                            <h2 className="text-2xl font-bold text-gray-800">{t('regex.title')}</h2>
                             <button
                                 onClick={onClose}
                                 className="text-gray-500 hover:text-gray-700 text-2xl font-bold"
@@ -707,14 +903,36 @@ export const RegexManager: React.FC<{
                             </button>
                         </div>
 
+                        {/* Tabs */}
+                        <div className="flex space-x-2 mb-4 border-b">
+                            {([['rules', 'regex.tab.rules'], ['bench', 'regex.tab.bench']] as const).map(([tab, label]) => (
+                                <button
+                                    key={tab}
+                                    onClick={() => setActiveTab(tab)}
+                                    className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px ${
+                                        activeTab === tab ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+                                    }`}
+                                >
+                                    {t(label)}
+                                </button>
+                            ))}
+                        </div>
+
+                        {timedOutCount > 0 && (
+                            <div className="mb-4 p-3 bg-orange-50 border border-orange-300 rounded text-sm text-orange-800">
+                                {t('regex.timedOutNotice', { count: timedOutCount, ms: regexSandbox.timeBudgetMs })}
+                            </div>
+                        )}
+
                         {/* Toolbar */}
+                        {activeTab === 'rules' && (
                         <div className="flex flex-wrap items-center gap-3">
                             <button
                                 onClick={handleCreateRule}
                                 className="flex items-center space-x-2 px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
                             >
                                 <PlusIcon />
-                                <span>New Rule</span>
+                                <span>{t('regex.toolbar.newRule')}</span>
                             </button>
 
                             {/* Category Filter */}
@@ -723,7 +941,7 @@ export const RegexManager: React.FC<{
                                 onChange={(e) => setFilterCategory(e.target.value)}
                                 className="px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
                             >
-                                <option value="" className="text-black">All Categories</option>
+                                <option value="" className="text-black">{t('regex.allCategories')}</option>
                                 {categories.map(category => (
                                     <option key={category} value={category} className="text-black">{category}</option>
                                 ))}
@@ -736,8 +954,8 @@ export const RegexManager: React.FC<{
                                     className="px-3 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50"
                                 >
                                     {filteredRules.length > 0 && filteredRules.every(rule => selectedRules.has(rule.id)) 
-                                        ? 'Deselect All' 
-                                        : 'Select All'}
+                                        ? t('regex.deselectAll')
+                                        : t('regex.selectAll')}
                                 </button>
 
                                 {selectedRules.size > 0 && (
@@ -747,7 +965,7 @@ export const RegexManager: React.FC<{
                                             className="flex items-center space-x-1 px-3 py-2 text-green-600 border border-green-300 rounded hover:bg-green-50"
                                         >
                                             <PlayIcon />
-                                            <span>Enable</span>
+                                            <span>{t('regex.toolbar.enable')}</span>
                                         </button>
 
                                         <button
@@ -755,7 +973,7 @@ export const RegexManager: React.FC<{
                                             className="flex items-center space-x-1 px-3 py-2 text-orange-600 border border-orange-300 rounded hover:bg-orange-50"
                                         >
                                             <StopIcon />
-                                            <span>Disable</span>
+                                            <span>{t('regex.toolbar.disable')}</span>
                                         </button>
 
                                         <button
@@ -763,7 +981,7 @@ export const RegexManager: React.FC<{
                                             className="flex items-center space-x-1 px-3 py-2 text-red-600 border border-red-300 rounded hover:bg-red-50"
                                         >
                                             <TrashIcon />
-                                            <span>Delete</span>
+                                            <span>{t('regex.toolbar.delete')}</span>
                                         </button>
                                     </>
                                 )}
@@ -783,7 +1001,7 @@ export const RegexManager: React.FC<{
                                     className="flex items-center space-x-1 px-3 py-2 text-blue-600 border border-blue-300 rounded hover:bg-blue-50"
                                 >
                                     <FileIcon />
-                                    <span>Import</span>
+                                    <span>{t('regex.toolbar.import')}</span>
                                 </button>
 
                                 <button
@@ -791,7 +1009,7 @@ export const RegexManager: React.FC<{
                                     className="flex items-center space-x-1 px-3 py-2 text-green-600 border border-green-300 rounded hover:bg-green-50"
                                 >
                                     <PlusIcon />
-                                    <span>Load Templates</span>
+                                    <span>{t('regex.toolbar.loadTemplates')}</span>
                                 </button>
 
                                 <button
@@ -799,18 +1017,21 @@ export const RegexManager: React.FC<{
                                     className="flex items-center space-x-1 px-3 py-2 text-blue-600 border border-blue-300 rounded hover:bg-blue-50"
                                 >
                                     <SaveIcon />
-                                    <span>Export {selectedRules.size > 0 ? `(${selectedRules.size})` : 'All'}</span>
+                                    <span>{selectedRules.size > 0 ? t('regex.toolbar.exportSelected', { count: selectedRules.size }) : t('regex.toolbar.exportAll')}</span>
                                 </button>
                             </div>
                         </div>
+                        )}
                     </div>
 
                     {/* Rules List */}
                     <div className="flex-1 overflow-y-auto p-6">
-                        {filteredRules.length === 0 ? (
+                        {activeTab === 'bench' ? (
+                            <RegexTestBench rules={rules} onRulesTimedOut={handleRulesTimedOut} />
+                        ) : filteredRules.length === 0 ? (
                             <div className="text-center text-gray-500 py-12">
-                                <p className="text-lg mb-2">No regex rules found</p>
-                                <p className="text-sm">Create your first rule to get started with text processing automation.</p>
+                                <p className="text-lg mb-2">{t('regex.empty')}</p>
+                                <p className="text-sm">{t('regex.emptyHint')}</p>
                             </div>
                         ) : (
                             <div className="space-y-3">
@@ -842,12 +1063,17 @@ export const RegexManager: React.FC<{
                                                         )}
                                                         {rule.disabled && (
                                                             <span className="px-2 py-1 text-xs bg-red-100 text-red-800 rounded">
-                                                                Disabled
+                                                                {t('regex.disabled')}
+                                                            </span>
+                                                        )}
+                                                        {rule.disabled && rule.timedOutAt && (
+                                                            <span className="px-2 py-1 text-xs bg-orange-100 text-orange-800 rounded">
+                                                                {t('regex.timedOut')}
                                                             </span>
                                                         )}
                                                         {rule.isScoped && (
                                                             <span className="px-2 py-1 text-xs bg-purple-100 text-purple-800 rounded">
-                                                                Scoped
+                                                                {t('regex.scoped')}
                                                             </span>
                                                         )}
                                                     </div>
@@ -855,10 +1081,16 @@ export const RegexManager: React.FC<{
                                                     {rule.description && (
                                                         <p className="text-sm text-gray-600 mb-2">{rule.description}</p>
                                                     )}
+
+                                                    {rule.disabled && rule.timedOutAt && (
+                                                        <p className="text-sm text-orange-700 mb-2">
+                                                            {t('regex.autoDisabledAt', { date: new Date(rule.timedOutAt).toLocaleString(), ms: regexSandbox.timeBudgetMs })}
+                                                        </p>
+                                                    )}
                                                     
                                                     <div className="text-xs text-gray-500 space-y-1">
                                                         <div>
-                                                            <span className="font-medium">Pattern:</span>{' '}
+                                                            <span className="font-medium">{t('regex.list.pattern')}</span>{' '}
                                                             <code className="bg-gray-100 px-1 rounded">
                                                                 {rule.findRegex.length > 50 
                                                                     ? rule.findRegex.substring(0, 50) + '...'
@@ -866,8 +1098,8 @@ export const RegexManager: React.FC<{
                                                             </code>
                                                         </div>
                                                         <div>
-                                                            <span className="font-medium">Applies to:</span>{' '}
-                                                            {rule.placement.map(p => RegexEngine.getPlacementDescriptions()[p].split(' - ')[0]).join(', ')}
+                                                            <span className="font-medium">{t('regex.list.appliesTo')}</span>{' '}
+                                                            {rule.placement.map(p => t(PLACEMENT_LABELS[p])).join(', ')}
                                                         </div>
                                                     </div>
                                                 </div>
@@ -881,7 +1113,7 @@ export const RegexManager: React.FC<{
                                                             ? 'text-green-600 hover:bg-green-50' 
                                                             : 'text-orange-600 hover:bg-orange-50'
                                                     }`}
-                                                    title={rule.disabled ? 'Enable rule' : 'Disable rule'}
+                                                    title={rule.disabled ? t('regex.list.enable') : t('regex.list.disable')}
                                                 >
                                                     {rule.disabled ? <PlayIcon /> : <StopIcon />}
                                                 </button>
@@ -889,7 +1121,7 @@ export const RegexManager: React.FC<{
                                                 <button
                                                     onClick={() => handleEditRule(rule)}
                                                     className="p-2 text-blue-600 hover:bg-blue-50 rounded"
-                                                    title="Edit rule"
+                                                    title={t('regex.list.edit')}
                                                 >
                                                     ✏️
                                                 </button>
@@ -897,7 +1129,7 @@ export const RegexManager: React.FC<{
                                                 <button
                                                     onClick={() => handleDeleteRule(rule.id)}
                                                     className="p-2 text-red-600 hover:bg-red-50 rounded"
-                                                    title="Delete rule"
+                                                    title={t('regex.list.delete')}
                                                 >
                                                     <TrashIcon />
                                                 </button>
@@ -913,21 +1145,21 @@ export const RegexManager: React.FC<{
                     <div className="p-6 border-t bg-gray-50">
                         <div className="flex justify-between items-center">
                             <div className="text-sm text-gray-600">
-                                {filteredRules.length} rule(s) • {selectedRules.size} selected
+                                {t('regex.footer', { count: filteredRules.length, selected: selectedRules.size })}
                             </div>
                             <div className="flex space-x-3">
                                 <button
                                     onClick={onClose}
                                     className="px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50"
                                 >
-                                    Cancel
+                                    {t('regex.cancel')}
                                 </button>
                                 <button
                                     onClick={handleSave}
                                     className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center space-x-2"
                                 >
                                     <SaveIcon />
-                                    <span>Save All Rules</span>
+                                    <span>{t('regex.toolbar.saveAll')}</span>
                                 </button>
                             </div>
                         </div>
@@ -0,0 +1,108 @@
+import React from 'react';
+import type { SaveLoadDiagnostics, SaveValidationIssue } from './types.ts';
+import { useI18n } from './hooks/useI18n';
+
+interface SaveDiagnosticsModalProps {
+    diagnostics: SaveLoadDiagnostics | null;
+    onClose: () => void;
+}
+
+const IssueList: React.FC<{ title: string; issues: SaveValidationIssue[]; className: string }> = ({ title, issues, className }) => (
+    <div>
+        <p className="font-semibold text-slate-800 dark:text-gray-100 text-sm uppercase tracking-wider mb-1">
+            {title} <span className="text-xs text-slate-500 dark:text-gray-400 normal-case">({issues.length})</span>
+        </p>
+        <ul className={`text-sm list-disc list-inside space-y-0.5 ${className}`}>
+            {issues.map((issue, index) => (
+                <li key={index}>
+                    <span className="text-xs font-mono text-slate-500 dark:text-gray-400 mr-1">[{issue.section}]</span>
+                    {issue.message}
+                </li>
+            ))}
+        </ul>
+    </div>
+);
+
+export const SaveDiagnosticsModal: React.FC<SaveDiagnosticsModalProps> = ({ diagnostics, onClose }) => {
+    const [, { t }] = useI18n();
+    if (!diagnostics) return null;
+
+    const { fileName, fatal, migration, issues, repairedSave } = diagnostics;
+    const errors = issues.filter(issue => !issue.repaired);
+    const repairs = issues.filter(issue => issue.repaired);
+    const migrationSteps = migration?.steps.filter(step => step.repairs.length > 0) || [];
+
+    const handleDownload = () => {
+        if (!repairedSave) return;
+        const jsonString = JSON.stringify(repairedSave, null, 2);
+        const blob = new Blob([jsonString], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        const baseName = fileName?.replace(/\.json$/i, '')
+            || `AI-RolePlay-${repairedSave.worldData.characterName?.replace(/\s+/g, '_') || 'NhanVat'}`;
+        link.download = `${baseName}-repaired.json`;
+        link.href = url;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const borderColor = fatal ? 'border-red-400/80' : 'border-amber-400/80';
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-[110] p-4" onClick={onClose}>
+            <div
+                className={`bg-white/90 dark:bg-[#2a2f4c]/90 backdrop-blur-sm border-2 ${borderColor} rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col text-slate-900 dark:text-white`}
+                onClick={e => e.stopPropagation()}
+            >
+                <div className={`p-4 border-b-2 ${borderColor} flex justify-between items-center`}>
+                    <h3 className={`text-xl font-bold ${fatal ? 'text-red-600 dark:text-red-300' : 'text-amber-600 dark:text-amber-300'} flex items-center gap-2`}>
+                        {fatal ? t('saveDiagnostics.fatalTitle') : t('saveDiagnostics.title')}
+                    </h3>
+                    <button onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white text-3xl leading-none">&times;</button>
+                </div>
+                <div className="p-6 space-y-4 overflow-y-auto text-slate-700 dark:text-gray-300">
+                    {fileName && <p className="text-xs font-mono text-slate-500 dark:text-gray-400 truncate">{fileName}</p>}
+                    <p className="text-sm">
+                        {fatal ? t('saveDiagnostics.fatal') : t('saveDiagnostics.loaded')}
+                    </p>
+
+                    {errors.length > 0 && (
+                        <IssueList title={fatal ? t('saveDiagnostics.errors') : t('saveDiagnostics.unrepaired')} issues={errors} className="text-red-600 dark:text-red-400" />
+                    )}
+                    {repairs.length > 0 && (
+                        <IssueList title={t('saveDiagnostics.repaired')} issues={repairs} className="text-green-700 dark:text-green-400" />
+                    )}
+
+                    {migration && migrationSteps.length > 0 && (
+                        <div>
+                            <p className="font-semibold text-slate-800 dark:text-gray-100 text-sm uppercase tracking-wider mb-1">
+                                {t('saveDiagnostics.migration', { from: migration.fromVersion, to: migration.toVersion })}
+                            </p>
+                            {migrationSteps.map(step => (
+                                <div key={step.version} className="mb-2">
+                                    <p className="text-xs text-slate-500 dark:text-gray-400">v{step.version} • {step.name}</p>
+                                    <ul className="text-sm list-disc list-inside space-y-0.5">
+                                        {step.repairs.map((repair, index) => <li key={index}>{repair}</li>)}
+                                    </ul>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+                {repairedSave && (
+                    <div className="p-4 border-t border-slate-200 dark:border-slate-700/60 flex justify-between items-center gap-2">
+                        <p className="text-xs text-slate-500 dark:text-gray-400">{t('saveDiagnostics.originalKept')}</p>
+                        <button
+                            onClick={handleDownload}
+                            className="px-4 py-2 text-sm rounded bg-amber-600 hover:bg-amber-700 text-white"
+                        >
+                            {t('saveDiagnostics.download')}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { SaveSlotKind, SaveSlotMeta } from './types.ts';
+import { getGameDateParams, saveSlotManager } from './utils/SaveSlotManager';
+import { useI18n } from './hooks/useI18n';
+import type { TranslationKey } from './i18n';
+
+interface SaveLibraryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onLoadSlot: (slotId: string) => void;
+    // Only provided in-game; the main menu library is load-only
+    onSaveToSlot?: (name: string, slotId?: string) => Promise<SaveSlotMeta | null>;
+}
+
+const KIND_LABELS: Record<SaveSlotKind, TranslationKey> = {
+    manual: 'saveLibrary.kind.manual',
+    auto: 'saveLibrary.kind.auto',
+    quick: 'saveLibrary.kind.quick'
+};
+
+// Slots the player did not name are labelled by kind, in the current language
+const DEFAULT_NAMES: Record<SaveSlotKind, TranslationKey> = {
+    manual: 'saveLibrary.defaultName.manual',
+    auto: 'saveLibrary.defaultName.auto',
+    quick: 'saveLibrary.defaultName.quick'
+};
+
+const formatSize = (bytes: number): string => {
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+export const SaveLibraryModal: React.FC<SaveLibraryModalProps> = ({ isOpen, onClose, onLoadSlot, onSaveToSlot }) => {
+    const [, { t }] = useI18n();
+    const [slots, setSlots] = useState<SaveSlotMeta[]>([]);
+    const [isBusy, setIsBusy] = useState(false);
+    const [newSlotName, setNewSlotName] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const refreshSlots = useCallback(async () => {
+        try {
+            setSlots(await saveSlotManager.listSlots());
+            setError(null);
+        } catch (err) {
+            console.error('❌ Failed to list save slots:', err);
+            setError(t('saveLibrary.readFailed'));
+        }
+    }, [t]);
+
+    useEffect(() => {
+        if (isOpen) refreshSlots();
+    }, [isOpen, refreshSlots]);
+
+    if (!isOpen) return null;
+
+    const slotName = (slot: SaveSlotMeta): string => slot.name || t(DEFAULT_NAMES[slot.kind], {
+        name: slot.thumbnail.characterName || t('saveLibrary.unnamedCharacter'),
+        turn: slot.thumbnail.turn
+    });
+
+    const handleSave = async (slotId?: string, name?: string) => {
+        if (!onSaveToSlot) return;
+        setIsBusy(true);
+        await onSaveToSlot(name ?? newSlotName, slotId);
+        setNewSlotName('');
+        await refreshSlots();
+        setIsBusy(false);
+    };
+
+    const handleDelete = async (slot: SaveSlotMeta) => {
+        if (!confirm(t('saveLibrary.confirmDelete', { name: slotName(slot) }))) return;
+        setIsBusy(true);
+        await saveSlotManager.deleteSlot(slot.id);
+        await refreshSlots();
+        setIsBusy(false);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-[110] p-4" onClick={onClose}>
+            <div
+                className="bg-white/90 dark:bg-[#2a2f4c]/90 backdrop-blur-sm border-2 border-blue-400/80 rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col text-slate-900 dark:text-white"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="p-4 border-b-2 border-blue-400/80 flex justify-between items-center">
+                    <h3 className="text-xl font-bold text-blue-600 dark:text-blue-300 flex items-center gap-2">
+                        {t('saveLibrary.title')}
+                    </h3>
+                    <button onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white text-3xl leading-none">&times;</button>
+                </div>
+
+                <div className="p-6 space-y-4 overflow-y-auto text-slate-700 dark:text-gray-300">
+                    {onSaveToSlot && (
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                value={newSlotName}
+                                onChange={e => setNewSlotName(e.target.value)}
+                                placeholder={t('saveLibrary.namePlaceholder')}
+                                className="flex-grow px-3 py-2 rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm"
+                            />
+                            <button
+                                onClick={() => handleSave()}
+                                disabled={isBusy}
+                                className="px-4 py-2 text-sm rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                            >
+                                {t('saveLibrary.saveNew')}
+                            </button>
+                        </div>
+                    )}
+
+                    {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+                    {slots.length === 0 ? (
+                        <p className="text-sm italic text-slate-500 dark:text-gray-400 text-center py-6">{t('saveLibrary.empty')}</p>
+                    ) : (
+                        <div className="space-y-2">
+                            {slots.map(slot => (
+                                <div key={slot.id} className="p-3 rounded-lg border border-slate-200 dark:border-slate-600 flex flex-wrap items-center justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <p className="font-semibold truncate">
+                                            {slotName(slot)}
+                                            <span className="ml-2 text-xs font-normal text-slate-500 dark:text-gray-400">{t(KIND_LABELS[slot.kind])}</span>
+                                        </p>
+                                        <p className="text-xs text-slate-600 dark:text-gray-300">
+                                            👤 {slot.thumbnail.characterName || t('saveLibrary.unnamedCharacter')}
+                                            {slot.thumbnail.realm && ` • ${slot.thumbnail.realm}`}
+                                            {slot.thumbnail.location && ` • 📍 ${slot.thumbnail.location}`}
+                                        </p>
+                                        <p className="text-xs text-slate-500 dark:text-gray-400">
+                                            {t('common.turn', { turn: slot.thumbnail.turn })} • {t('saveLibrary.gameDate', getGameDateParams(slot.thumbnail.gameTime))} • {new Date(slot.savedAt).toLocaleString()} • {formatSize(slot.sizeBytes)}
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={() => onLoadSlot(slot.id)}
+                                            disabled={isBusy}
+                                            className="px-3 py-1 text-xs rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                                        >
+                                            {t('saveLibrary.load')}
+                                        </button>
+                                        {onSaveToSlot && slot.kind === 'manual' && (
+                                            <button
+                                                onClick={() => handleSave(slot.id, slot.name)}
+                                                disabled={isBusy}
+                                                className="px-3 py-1 text-xs rounded bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 disabled:opacity-50"
+                                            >
+                                                {t('saveLibrary.overwrite')}
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={() => handleDelete(slot)}
+                                            disabled={isBusy}
+                                            className="px-3 py-1 text-xs rounded bg-red-100 hover:bg-red-200 text-red-700 dark:bg-red-900/40 dark:hover:bg-red-900/60 dark:text-red-300 disabled:opacity-50"
+                                        >
+                                            {t('common.delete')}
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <p className="text-xs text-slate-500 dark:text-gray-400">
+                        {t('saveLibrary.shortcuts')}
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,213 @@
+import React, { useState, useMemo } from 'react';
+import type { TimelineBranch, TimelineDiff, TimelineDiffSection, TurnSnapshot } from './types.ts';
+import { MAIN_BRANCH_ID, describeSnapshot, diffTimelineStates } from './utils/timelineBranches';
+import { DEFAULT_SNAPSHOT_CAPACITY, DEFAULT_CHECKPOINT_INTERVAL } from './utils/TurnSnapshotManager';
+import { useI18n } from './hooks/useI18n';
+
+interface TimelineBranchModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    branches: TimelineBranch[];
+    activeBranchId: string;
+    forkableTurns: TurnSnapshot[];
+    getBranchTip: (branchId: string) => TurnSnapshot | null;
+    onFork: (turn: number, name: string) => void;
+    onSwitch: (branchId: string) => void;
+    onExport: (branchId: string, branchName: string) => void;
+    isLoading: boolean;
+}
+
+const DiffSectionView: React.FC<{ title: string; section: TimelineDiffSection }> = ({ title, section }) => {
+    const [, { t }] = useI18n();
+    const total = section.added.length + section.removed.length + section.changed.length;
+    return (
+        <div>
+            <p className="font-semibold text-slate-800 dark:text-gray-100 text-sm uppercase tracking-wider mb-1">
+                {title} <span className="text-xs text-slate-500 dark:text-gray-400 normal-case">{t('timeline.diff.count', { count: total })}</span>
+            </p>
+            {total === 0 ? (
+                <p className="text-sm italic text-slate-500 dark:text-gray-400">{t('timeline.diff.same')}</p>
+            ) : (
+                <ul className="text-sm space-y-0.5">
+                    {section.added.map(name => <li key={`+${name}`} className="text-green-600 dark:text-green-400">+ {name}</li>)}
+                    {section.removed.map(name => <li key={`-${name}`} className="text-red-600 dark:text-red-400">− {name}</li>)}
+                    {section.changed.map(name => <li key={`~${name}`} className="text-amber-600 dark:text-amber-400">~ {name}</li>)}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export const TimelineBranchModal: React.FC<TimelineBranchModalProps> = ({
+    isOpen, onClose, branches, activeBranchId, forkableTurns, getBranchTip,
+    onFork, onSwitch, onExport, isLoading
+}) => {
+    const [, { t }] = useI18n();
+    const [forkTurn, setForkTurn] = useState<number | null>(null);
+    const [forkName, setForkName] = useState('');
+    const [compareBranchId, setCompareBranchId] = useState<string | null>(null);
+
+    // Unnamed branches are numbered in creation order
+    const branchNames = useMemo(() => new Map(branches.map((branch, index) => [
+        branch.id,
+        branch.name || (branch.id === MAIN_BRANCH_ID ? t('timeline.mainBranch') : t('timeline.branchDefault', { n: index + 1 }))
+    ])), [branches, t]);
+    // Newest first; only turns whose state is still kept are offered
+    const forkRows = useMemo(() => [...forkableTurns].reverse(), [forkableTurns]);
+
+    const diff: TimelineDiff | null = useMemo(() => {
+        if (!isOpen || !compareBranchId || compareBranchId === activeBranchId) return null;
+        const activeTip = getBranchTip(activeBranchId);
+        const otherTip = getBranchTip(compareBranchId);
+        if (!activeTip || !otherTip) return null;
+        return diffTimelineStates(activeTip.state, otherTip.state);
+    }, [isOpen, compareBranchId, activeBranchId, getBranchTip, branches]);
+
+    if (!isOpen) return null;
+
+    const handleFork = () => {
+        if (forkTurn === null) return;
+        onFork(forkTurn, forkName);
+        setForkTurn(null);
+        setForkName('');
+        setCompareBranchId(null);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-[110] p-4" onClick={onClose}>
+            <div
+                className="bg-white/90 dark:bg-[#2a2f4c]/90 backdrop-blur-sm border-2 border-purple-400/80 rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col text-slate-900 dark:text-white"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="p-4 border-b-2 border-purple-400/80 flex justify-between items-center">
+                    <h3 className="text-xl font-bold text-purple-600 dark:text-purple-300 flex items-center gap-2">
+                        {t('timeline.title')}
+                    </h3>
+                    <button onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white text-3xl leading-none">&times;</button>
+                </div>
+
+                <div className="p-6 space-y-6 overflow-y-auto text-slate-700 dark:text-gray-300">
+                    {/* Branch list */}
+                    <div>
+                        <p className="font-semibold text-slate-800 dark:text-gray-100 text-sm uppercase tracking-wider mb-2">{t('timeline.branches')}</p>
+                        <div className="space-y-2">
+                            {branches.map(branch => {
+                                const isActive = branch.id === activeBranchId;
+                                const tipTurn = isActive ? (getBranchTip(branch.id)?.turn ?? branch.tipTurn) : branch.tipTurn;
+                                return (
+                                    <div
+                                        key={branch.id}
+                                        className={`p-3 rounded-lg border ${isActive ? 'border-purple-400 bg-purple-50 dark:bg-purple-900/30' : 'border-slate-200 dark:border-slate-600'}`}
+                                    >
+                                        <div className="flex flex-wrap items-center justify-between gap-2">
+                                            <div>
+                                                <p className="font-semibold">
+                                                    {branchNames.get(branch.id)}
+                                                    {isActive && <span className="ml-2 text-xs text-purple-600 dark:text-purple-300">{t('timeline.playing')}</span>}
+                                                </p>
+                                                <p className="text-xs text-slate-500 dark:text-gray-400">
+                                                    {t('common.turn', { turn: tipTurn })}
+                                                    {branch.parentBranchId && t('timeline.forkedFrom', { name: branchNames.get(branch.parentBranchId) || '?', turn: branch.parentTurn ?? '?' })}
+                                                    {branch.divergence?.parentNextAction && t('timeline.parentChose', { action: branch.divergence.parentNextAction })}
+                                                </p>
+                                            </div>
+                                            <div className="flex gap-2">
+                                                {!isActive && (
+                                                    <button
+                                                        onClick={() => { onSwitch(branch.id); setCompareBranchId(null); }}
+                                                        disabled={isLoading}
+                                                        className="px-3 py-1 text-xs rounded bg-purple-600 hover:bg-purple-700 text-white disabled:opacity-50"
+                                                    >
+                                                        {t('timeline.switch')}
+                                                    </button>
+                                                )}
+                                                {!isActive && (
+                                                    <button
+                                                        onClick={() => setCompareBranchId(compareBranchId === branch.id ? null : branch.id)}
+                                                        className="px-3 py-1 text-xs rounded bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500"
+                                                    >
+                                                        {t('timeline.compare')}
+                                                    </button>
+                                                )}
+                                                <button
+                                                    onClick={() => onExport(branch.id, branchNames.get(branch.id) || branch.id)}
+                                                    className="px-3 py-1 text-xs rounded bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500"
+                                                >
+                                                    {t('timeline.export')}
+                                                </button>
+                                            </div>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    {/* Diff against the active branch */}
+                    {compareBranchId && (
+                        <div className="border-t border-slate-200 dark:border-slate-700/60 pt-4 space-y-3">
+                            <p className="text-sm">
+                                {t('timeline.compareWith')} <strong>{branchNames.get(compareBranchId)}</strong> {t('timeline.withActive')}
+                                {diff && diff.turnDelta !== 0 && t('timeline.turnDelta', { delta: `${diff.turnDelta > 0 ? '+' : ''}${diff.turnDelta}` })}
+                            </p>
+                            {diff ? (
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                    <DiffSectionView title={t('timeline.diff.entities')} section={diff.entities} />
+                                    <DiffSectionView title={t('timeline.diff.quests')} section={diff.quests} />
+                                    <DiffSectionView title={t('timeline.diff.statuses')} section={diff.statuses} />
+                                </div>
+                            ) : (
+                                <p className="text-sm italic text-slate-500 dark:text-gray-400">{t('timeline.noDiff')}</p>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Fork from a past turn */}
+                    <div className="border-t border-slate-200 dark:border-slate-700/60 pt-4">
+                        <p className="font-semibold text-slate-800 dark:text-gray-100 text-sm uppercase tracking-wider mb-1">{t('timeline.forkTitle')}</p>
+                        <p className="text-xs text-slate-500 dark:text-gray-400 mb-2">
+                            {t('timeline.forkHelp', { capacity: DEFAULT_SNAPSHOT_CAPACITY, interval: DEFAULT_CHECKPOINT_INTERVAL })}
+                        </p>
+                        {forkableTurns.length === 0 ? (
+                            <p className="text-sm italic text-slate-500 dark:text-gray-400">{t('timeline.noTurns')}</p>
+                        ) : (
+                            <div className="max-h-48 overflow-y-auto space-y-1 mb-3">
+                                {forkRows.map(snapshot => (
+                                    <label
+                                        key={`${snapshot.turn}-${snapshot.timestamp}`}
+                                        className={`flex items-center gap-2 p-2 rounded cursor-pointer text-sm ${forkTurn === snapshot.turn ? 'bg-purple-100 dark:bg-purple-900/40' : 'hover:bg-slate-100 dark:hover:bg-slate-700/50'}`}
+                                    >
+                                        <input
+                                            type="radio"
+                                            name="fork-turn"
+                                            checked={forkTurn === snapshot.turn}
+                                            onChange={() => setForkTurn(snapshot.turn)}
+                                        />
+                                        <span className="font-semibold whitespace-nowrap">{t('common.turn', { turn: snapshot.turn })}</span>
+                                        <span className="truncate">{describeSnapshot(snapshot) ?? (snapshot.turn === 0 ? t('timeline.storyStart') : '')}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                value={forkName}
+                                onChange={e => setForkName(e.target.value)}
+                                placeholder={t('timeline.branchDefault', { n: branches.length + 1 })}
+                                className="flex-grow px-3 py-2 rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm"
+                            />
+                            <button
+                                onClick={handleFork}
+                                disabled={forkTurn === null || isLoading}
+                                className="px-4 py-2 text-sm rounded bg-purple-600 hover:bg-purple-700 text-white disabled:opacity-50"
+                            >
+                                {t('timeline.fork')}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TokenManager } from './TokenManager';
+import { estimatePromptTokens } from './promptBuilder';
+
+// Vietnamese prose at roughly what a real tokenizer reports: 0.4 tokens per character
+const text = 'Lâm Phong rút kiếm, ánh thép lóe lên giữa màn sương sớm trên đỉnh Thanh Vân. '.repeat(10);
+const tokens = (ratio: number) => Math.round(text.length * ratio);
+
+describe('TokenManager calibration', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        TokenManager.resetCalibration();
+        TokenManager.setActiveModel('gemini-test');
+    });
+
+    afterEach(() => {
+        TokenManager.resetCalibration();
+        TokenManager.setActiveModel('');
+        vi.restoreAllMocks();
+    });
+
+    it('learns a per-model ratio from reported counts and scales the other content types by it', () => {
+        const uncalibrated = TokenManager.estimate(text, 'structuredData');
+        const uncalibratedPlain = TokenManager.estimate(text);
+
+        TokenManager.recordUsage('gemini-test', 'structuredData', text, tokens(0.4));
+
+        expect(TokenManager.estimate(text, 'structuredData')).toBe(Math.ceil(text.length * (tokens(0.4) / text.length)));
+        expect(estimatePromptTokens(text)).toBe(TokenManager.estimate(text, 'structuredData'));
+        // Same correction against the fixed ratios: plainText is 1.0/1.2 of structuredData
+        expect(TokenManager.estimate(text)).toBeCloseTo(uncalibratedPlain * tokens(0.4) / uncalibrated, -1);
+        // Other models keep the fixed ratios
+        expect(TokenManager.estimate(text, 'structuredData', 'other-model')).toBe(uncalibrated);
+        expect(localStorage.setItem).toHaveBeenCalledWith('tokenCalibration', expect.stringContaining('gemini-test'));
+    });
+
+    it('averages the first samples, then follows changes gradually and reports its accuracy', () => {
+        TokenManager.recordUsage('gemini-test', 'structuredData', text, tokens(0.4));
+        TokenManager.recordUsage('gemini-test', 'structuredData', text, tokens(0.5));
+        expect(TokenManager.getTokensPerChar('structuredData')).toBeCloseTo(0.45, 2);
+
+        for (let i = 0; i < 20; i++) TokenManager.recordUsage('gemini-test', 'structuredData', text, tokens(0.45));
+        const before = TokenManager.getTokensPerChar('structuredData');
+        TokenManager.recordUsage('gemini-test', 'structuredData', text, tokens(0.65));
+        expect(TokenManager.getTokensPerChar('structuredData')).toBeCloseTo(before + 0.02, 2);
+
+        const [stats] = TokenManager.getAccuracyStats();
+        expect(stats).toMatchObject({ model: 'gemini-test', contentType: 'structuredData', samples: 23 });
+        expect(stats.efficiency).toBeGreaterThan(1);   // The last sample came in above the estimate
+        expect(stats.efficiency).toBeLessThan(1.2);
+        expect(TokenManager.getErrorMargin('structuredData')).toBeLessThan(TokenManager.getConfig().safetyMargin);
+    });
+
+    it('ignores unusable samples and keeps the default margin until it has enough', () => {
+        TokenManager.recordUsage('gemini-test', 'structuredData', 'ngắn', 5);
+        TokenManager.recordUsage('gemini-test', 'structuredData', text, 0);
+        TokenManager.recordUsage('', 'structuredData', text, tokens(0.4));
+        expect(TokenManager.getAccuracyStats()).toEqual([]);
+
+        TokenManager.recordUsage('gemini-test', 'descriptions', text, tokens(0.4));
+        TokenManager.recordUsage('gemini-test', 'descriptions', text, tokens(0.4));
+        expect(TokenManager.getErrorMargin('descriptions')).toBe(TokenManager.getConfig().safetyMargin);
+        TokenManager.recordUsage('gemini-test', 'descriptions', text, tokens(0.4));
+        expect(TokenManager.getErrorMargin('descriptions')).toBeLessThan(0.3);
+
+        TokenManager.resetCalibration('gemini-test');
+        expect(TokenManager.getAccuracyStats()).toEqual([]);
+    });
+});
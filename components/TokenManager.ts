@@ -1,6 +1,9 @@
 /**
  * Unified Token Management System
  * Centralizes all token estimation and management across the application
+ *
+ * Estimates start from fixed per-content-type ratios and are calibrated per model from the
+ * token counts the API reports back (see recordUsage); the learned ratios persist locally.
  */
 
 export interface TokenEstimationConfig {
@@ -24,6 +27,27 @@ export interface TokenUsageStats {
     category: 'critical' | 'important' | 'contextual' | 'supplemental' | 'total';
 }
 
+export interface TokenCalibrationEntry {
+    tokensPerChar: number;  // Learned ratio for this model and content type
+    samples: number;
+    estimated: number;      // Recent estimates and reported counts, decayed with every sample
+    actual: number;
+    meanError: number;      // Running mean of |estimate - actual| / actual
+    updatedAt: number;
+}
+
+// model -> content type -> learned ratio
+export type TokenCalibration = Record<string, Record<string, TokenCalibrationEntry>>;
+
+export interface TokenAccuracyStats {
+    model: string;
+    contentType: string;
+    samples: number;
+    tokensPerChar: number;
+    efficiency: number;     // actual/estimated over recent samples, see calculateEfficiency
+    meanError: number;
+}
+
 export class TokenManager {
     // Centralized configuration - single source of truth
     private static readonly CONFIG: TokenEstimationConfig = {
@@ -51,11 +75,28 @@ export class TokenManager {
         metadata: 0.8          // Tags, labels are compact
     };
 
+    // Calibration from reported token counts
+    private static readonly CALIBRATION_STORAGE_KEY = 'tokenCalibration';
+    private static readonly CALIBRATION_RATE = 0.1;         // Weight of a new sample once warmed up
+    private static readonly CALIBRATION_MIN_CHARS = 200;    // Shorter texts are dominated by per-request overhead
+    private static readonly CALIBRATION_MIN_SAMPLES = 3;    // Before this the error margin stays at safetyMargin
+
+    private static calibration: TokenCalibration | null = null;
+    private static activeModel = '';
+
     /**
      * Core token estimation method - used everywhere
      */
-    static estimate(text: string, contentType: keyof typeof TokenManager.CONTENT_MULTIPLIERS = 'plainText'): number {
+    static estimate(
+        text: string,
+        contentType: keyof typeof TokenManager.CONTENT_MULTIPLIERS = 'plainText',
+        model: string = this.activeModel
+    ): number {
         if (!text || typeof text !== 'string') return 0;
+
+        if (this.isCalibrated(model)) {
+            return Math.ceil(text.length * this.getTokensPerChar(contentType, model));
+        }
         
         const baseEstimate = Math.ceil(text.length * this.CONFIG.charsPerToken);
         const multiplier = this.CONTENT_MULTIPLIERS[contentType];
@@ -132,11 +173,7 @@ export class TokenManager {
         }
 
         // Calculate approximate character limit
-        const multiplier = this.CONTENT_MULTIPLIERS[contentType];
-        const safetyFactor = 1 + this.CONFIG.safetyMargin;
-        const effectiveCharsPerToken = this.CONFIG.charsPerToken * multiplier * safetyFactor;
-        
-        const charLimit = Math.floor(maxTokens / effectiveCharsPerToken);
+        const charLimit = Math.floor(maxTokens / this.getTokensPerChar(contentType));
         
         if (text.length <= charLimit) {
             return text;
@@ -176,6 +213,142 @@ export class TokenManager {
         return Math.round((actual / estimated) * 100) / 100;
     }
 
+    /**
+     * The model later estimates default to; the turn pipeline sets it before building the prompt
+     */
+    static setActiveModel(model: string): void {
+        this.activeModel = model;
+    }
+
+    static getActiveModel(): string {
+        return this.activeModel;
+    }
+
+    /**
+     * Tokens per character for a content type. Learned directly when the model has samples of
+     * that type; otherwise the fixed ratio, scaled by how far the model's other learned ratios
+     * are from their fixed ones.
+     */
+    static getTokensPerChar(contentType: keyof typeof TokenManager.CONTENT_MULTIPLIERS = 'plainText', model: string = this.activeModel): number {
+        const prior = this.getPriorTokensPerChar(contentType);
+        const entries = this.loadCalibration()[model];
+        if (!entries) return prior;
+        if (entries[contentType]) return entries[contentType].tokensPerChar;
+
+        let weighted = 0;
+        let samples = 0;
+        Object.entries(entries).forEach(([type, entry]) => {
+            const typePrior = this.getPriorTokensPerChar(type as keyof typeof TokenManager.CONTENT_MULTIPLIERS);
+            weighted += (entry.tokensPerChar / typePrior) * entry.samples;
+            samples += entry.samples;
+        });
+        return samples > 0 ? prior * (weighted / samples) : prior;
+    }
+
+    /**
+     * Learn from a token count the API reported for a text. The first samples are averaged,
+     * later ones move the ratio by CALIBRATION_RATE so a tokenizer change is picked up.
+     */
+    static recordUsage(
+        model: string,
+        contentType: keyof typeof TokenManager.CONTENT_MULTIPLIERS,
+        text: string,
+        actualTokens: number | undefined
+    ): void {
+        if (!model || !actualTokens || actualTokens <= 0 || !text || text.length < this.CALIBRATION_MIN_CHARS) return;
+
+        const calibration = this.loadCalibration();
+        const entries = calibration[model] || {};
+        const previous = entries[contentType];
+        const observed = actualTokens / text.length;
+
+        if (!previous) {
+            // Nothing learned for this type yet, so there is no calibrated estimate to score
+            entries[contentType] = { tokensPerChar: observed, samples: 1, estimated: 0, actual: 0, meanError: 0, updatedAt: Date.now() };
+        } else {
+            const estimated = Math.ceil(text.length * previous.tokensPerChar);
+            const error = Math.abs(estimated - actualTokens) / actualTokens;
+            const samples = previous.samples + 1;
+            const rate = Math.max(this.CALIBRATION_RATE, 1 / samples);
+            // Scored samples: the first one only set the ratio
+            const errorRate = Math.max(this.CALIBRATION_RATE, 1 / previous.samples);
+            const decay = 1 - this.CALIBRATION_RATE;
+
+            entries[contentType] = {
+                tokensPerChar: previous.tokensPerChar + (observed - previous.tokensPerChar) * rate,
+                samples,
+                estimated: previous.estimated * decay + estimated,
+                actual: previous.actual * decay + actualTokens,
+                meanError: previous.meanError + (error - previous.meanError) * errorRate,
+                updatedAt: Date.now()
+            };
+        }
+        calibration[model] = entries;
+        this.saveCalibration();
+    }
+
+    /**
+     * How well estimates matched reported counts, per content type, for one model
+     */
+    static getAccuracyStats(model: string = this.activeModel): TokenAccuracyStats[] {
+        const entries = this.loadCalibration()[model] || {};
+        return Object.entries(entries).map(([contentType, entry]) => ({
+            model,
+            contentType,
+            samples: entry.samples,
+            tokensPerChar: entry.tokensPerChar,
+            efficiency: this.calculateEfficiency(entry.estimated, entry.actual),
+            meanError: entry.meanError
+        }));
+    }
+
+    /**
+     * Expected relative error of an estimate: the observed error once the model has enough
+     * samples of this content type, the fixed safety margin before that
+     */
+    static getErrorMargin(contentType: keyof typeof TokenManager.CONTENT_MULTIPLIERS = 'plainText', model: string = this.activeModel): number {
+        const entry = this.loadCalibration()[model]?.[contentType];
+        return entry && entry.samples >= this.CALIBRATION_MIN_SAMPLES ? entry.meanError : this.CONFIG.safetyMargin;
+    }
+
+    static resetCalibration(model?: string): void {
+        const calibration = this.loadCalibration();
+        if (model) {
+            delete calibration[model];
+        } else {
+            Object.keys(calibration).forEach(key => delete calibration[key]);
+        }
+        this.saveCalibration();
+    }
+
+    private static isCalibrated(model: string): boolean {
+        return !!model && Object.keys(this.loadCalibration()[model] || {}).length > 0;
+    }
+
+    private static getPriorTokensPerChar(contentType: keyof typeof TokenManager.CONTENT_MULTIPLIERS): number {
+        return this.CONFIG.charsPerToken * (this.CONTENT_MULTIPLIERS[contentType] || 1) * (1 + this.CONFIG.safetyMargin);
+    }
+
+    private static loadCalibration(): TokenCalibration {
+        if (this.calibration) return this.calibration;
+        this.calibration = {};
+        try {
+            const stored = localStorage.getItem(this.CALIBRATION_STORAGE_KEY);
+            if (stored) this.calibration = JSON.parse(stored) || {};
+        } catch (error) {
+            console.error('Failed to load token calibration from storage:', error);
+        }
+        return this.calibration!;
+    }
+
+    private static saveCalibration(): void {
+        try {
+            localStorage.setItem(this.CALIBRATION_STORAGE_KEY, JSON.stringify(this.calibration || {}));
+        } catch (error) {
+            console.error('Failed to save token calibration to storage:', error);
+        }
+    }
+
     /**
      * Get current token limits and configurations
      */
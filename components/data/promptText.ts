@@ -0,0 +1,192 @@
+// promptText.ts - The fixed text the code writes around the prompt templates, in Vietnamese
+//
+// Each locale has one table (data/promptTextEn.ts for English); utils/promptTemplates.ts picks the
+// table for the language the GM of a world writes in. Markers that code searches for again later
+// (like the player action header) must come from these tables, never from a string literal.
+
+export interface InitialStoryPromptInput {
+    rules: string[];
+    concepts: Array<{ name: string; description: string }>;
+    pc: { name: string; gender: string; description: string; personality: string; motivation?: string };
+    skills: string[];                                      // "Name (mastery) - description"
+    world: {
+        name: string;
+        description: string;
+        year: number;
+        month: number;
+        day: number;
+        startLocation?: string;
+        firstPerson: boolean;
+        allowNsfw: boolean;
+    };
+}
+
+export type ActionType = 'relax' | 'request' | 'social' | 'combat' | 'movement' | 'other';
+export type ActionComplexity = 'simple' | 'medium' | 'complex';
+
+// What the prompt builder tells the model about the action, next to the action itself
+export interface ActionContextInput {
+    seed: string;
+    turn?: number;
+    time?: string;
+    analysis?: {
+        type: ActionType;
+        complexity: ActionComplexity;
+        expectedDuration?: string;
+        involvedEntities: string[];
+    };
+}
+
+export interface PromptText {
+    initialStory: (input: InitialStoryPromptInput) => string;
+    suggestAction: (recentStory: string) => string;
+
+    // Headers the prompt builder writes and searches for again when it has to truncate
+    markers: { criticalKnowledge: string; playerAction: string };
+    // Placeholder values when the game state has nothing to fill them with
+    fallbacks: { none: string; unknownLocation: string; unknownName: string; mainCharacter: string };
+    actionTypes: Record<ActionType, { label: string; description: string }>;
+    complexity: Record<ActionComplexity, string>;
+    actionContext: (input: ActionContextInput) => string;
+    cotHeader: string;
+    nsfwNotice: string;
+    // The minimal prompt sent when building the full one fails; the processing rules follow it
+    fallbackPrompt: (input: { pcName: string; location: string; turn: number }) => string;
+    missingStatePrompt: (action: string) => string;
+
+    // Blocks the pre-prompt stages of the turn pipeline append to the prompt
+    constraints: {
+        timeCost: (choiceText: string, tag: string) => string;
+        skillUsage: (skillNames: string, tags: string) => string;
+        breakthrough: (input: BreakthroughConstraintInput) => string;
+        nsfwRequest: string;
+    };
+    // Appended when the model repeated itself; retryMarker identifies such prompts
+    duplicateRetry: { retryMarker: string; note: (attempt: number, seed: number) => string };
+}
+
+export interface BreakthroughConstraintInput {
+    skillName: string;
+    successRate: number;
+    success: boolean;
+    fromMastery?: string;
+    toMastery?: string;
+}
+
+// The tag the model must emit either way; it is parsed, so it is the same in every locale
+export const breakthroughTag = ({ skillName, successRate, success }: BreakthroughConstraintInput): string =>
+    `[SKILL_BREAKTHROUGH: skillName="${skillName}", successRate="${successRate}", result="${success ? 'success' : 'failure'}"]`;
+
+/** "1. a\n2. b" */
+export const numbered = (items: string[]): string => items.map((item, index) => `${index + 1}. ${item}`).join('\n');
+
+export const VI_PROMPT_TEXT: PromptText = {
+    initialStory: ({ rules, concepts, pc, skills, world }) => {
+        const rulesContext = rules.length > 0
+            ? `\n--- TRI THỨC & LUẬT LỆ TÙY CHỈNH (ĐANG ÁP DỤNG) ---\n${rules.map(rule => `- ${rule}`).join('\n')}\n--- KẾT THÚC ---\n`
+            : '';
+        const conceptContext = concepts.length > 0
+            ? `\n--- CÁC LORE_CONCEPT ĐÃ THIẾT LẬP ---\n${concepts.map(c => `• ${c.name}: ${c.description}`).join('\n')}\n--- KẾT THÚC ---\n`
+            : '';
+        const skillList = skills.join('\n  • ');
+        const requirements = [
+            '**NGÔN NGỮ TUYỆT ĐỐI**: BẮT BUỘC 100% tiếng Việt. KHÔNG dùng tiếng Anh trừ tên riêng nước ngoài. Quan hệ nhân vật PHẢI tiếng Việt: "friend"→"bạn", "enemy"→"kẻ thù", "ally"→"đồng minh", "lover"→"người yêu"',
+            '**CHIỀU DÀI**: Chính xác 300-400 từ, chi tiết và sống động',
+            '**SỬ DỤNG CONCEPT**: Phải tích hợp các LORE_CONCEPT đã thiết lập vào câu chuyện một cách tự nhiên',
+            '**THIẾT LẬP BỐI CẢNH**: Tạo tình huống mở đầu thú vị, không quá drama',
+            ...(skillList ? ['**NHẮC ĐẾN KỸ NĂNG**: Phải đề cập hoặc thể hiện kỹ năng khởi đầu của nhân vật trong câu chuyện hoặc lựa chọn, chú ý đến mức độ thành thạo'] : []),
+            ...(pc.motivation ? [`**PHẢN ÁNH ĐỘNG CƠ NHÂN VẬT**: Câu chuyện và lựa chọn phải liên quan đến động cơ/mục tiêu của nhân vật chính: "${pc.motivation}"`] : []),
+            '**TIME_ELAPSED**: Bắt buộc sử dụng [TIME_ELAPSED: hours=0]',
+            '**THẺ LỆNH**: Tạo ít nhất 2-3 thẻ lệnh phù hợp (LORE_LOCATION, LORE_NPC, STATUS_APPLIED_SELF...)',
+            `**LỰA CHỌN**: Tạo 4-6 lựa chọn hành động đa dạng và thú vị${pc.motivation ? `, một số lựa chọn phải hướng tới việc thực hiện mục tiêu: "${pc.motivation}"` : ''}${skillList ? ', và một số lựa chọn cho phép sử dụng kỹ năng khởi đầu với mức độ thành thạo phù hợp' : ''}`
+        ];
+
+        return `${rulesContext}${conceptContext}
+
+BẠN LÀ QUẢN TRÒ AI. Tạo câu chuyện mở đầu cho game RPG với yêu cầu sau:
+
+--- THÔNG TIN NHÂN VẬT CHÍNH ---
+Tên: ${pc.name}
+Giới tính: ${pc.gender}
+Tiểu sử: ${pc.description}
+Tính cách: ${pc.personality}${pc.motivation ? `\n**ĐỘNG CƠ/MỤC TIÊU QUAN TRỌNG**: ${pc.motivation}` : ''}${skillList ? `\n**KỸ NĂNG KHỞI ĐẦU**:\n  • ${skillList}` : ''}
+
+--- THÔNG TIN THẾ GIỚI ---
+Thế giới: ${world.name}
+Mô tả: ${world.description}
+Thời gian: Năm ${world.year}, Tháng ${world.month}, Ngày ${world.day}
+Địa điểm bắt đầu: ${world.startLocation || 'Không xác định'}
+Phong cách viết: ${world.firstPerson ? 'Ngôi thứ nhất - Nhân vật chính xưng "Ta/Tôi"' : 'Ngôi thứ hai - "Ngươi" là nhân vật chính'}
+Nội dung 18+: ${world.allowNsfw ? 'Cho phép. Kích hoạt quy tắc nội dung 18+ của Quản Trò. Viết một cách trần trụi, bạo lực, tục tĩu và không giới hạn.' : 'Không, AI phải tránh các chủ đề và mô tả 18+.'}
+
+--- YÊU CẦU VIẾT STORY ---
+${numbered(requirements)}
+
+Hãy tạo một câu chuyện mở đầu cuốn hút${pc.motivation ? ` và thể hiện rõ động cơ "${pc.motivation}" của nhân vật` : ''}${skillList ? `${pc.motivation ? ', ' : ' và '}nhắc đến hoặc cho phép sử dụng kỹ năng khởi đầu với mức độ thành thạo` : ''}!
+
+**LƯU Ý CUỐI CÙNG**: Kiểm tra kỹ lưỡng toàn bộ output để đảm bảo 100% tiếng Việt, không có từ tiếng Anh nào!`;
+    },
+
+    markers: { criticalKnowledge: '=== TRI THỨC QUAN TRỌNG ===', playerAction: '--- HÀNH ĐỘNG CỦA NGƯỜI CHƠI ---' },
+    fallbacks: { none: 'Không có', unknownLocation: 'Không xác định', unknownName: 'Không rõ', mainCharacter: 'Nhân vật chính' },
+    actionTypes: {
+        relax: { label: 'thư giãn/quan sát', description: 'Hành động thư giãn, tập trung vào việc quan sát và tận hưởng' },
+        request: { label: 'tương tác/yêu cầu', description: 'Hành động tương tác chủ động, yêu cầu phản hồi từ người khác' },
+        social: { label: 'giao tiếp', description: 'Hành động giao tiếp xã hội, trao đổi thông tin' },
+        combat: { label: 'chiến đấu', description: 'Hành động chiến đấu, có thể có nguy hiểm' },
+        movement: { label: 'di chuyển', description: 'Hành động di chuyển từ nơi này sang nơi khác' },
+        other: { label: 'khác', description: 'Hành động đặc biệt hoặc không thuộc loại thông thường' }
+    },
+    complexity: { simple: 'Đơn giản', medium: 'Trung bình', complex: 'Phức tạp' },
+    actionContext: ({ seed, turn, time, analysis }) => {
+        if (!analysis) {
+            return `--- BỐI CẢNH HÀNH ĐỘNG ---\nID: ${seed} | Timestamp: ${new Date().toISOString()}\n--- KẾT THÚC BỐI CẢNH ---\n`;
+        }
+        const type = VI_PROMPT_TEXT.actionTypes[analysis.type];
+        return `--- BỐI CẢNH HÀNH ĐỘNG ---\n`
+            + `Lượt: ${turn} | Thời gian: ${time} | ID: ${seed}\n`
+            + `Phân tích: ${type.label} - ${type.description}\n`
+            + `Độ phức tạp: ${VI_PROMPT_TEXT.complexity[analysis.complexity]} | Thời gian dự kiến: ${analysis.expectedDuration || 'Không xác định'}\n`
+            + (analysis.involvedEntities.length > 0 ? `Đối tượng liên quan: ${analysis.involvedEntities.join(', ')}\n` : '')
+            + `--- KẾT THÚC BỐI CẢNH ---\n`;
+    },
+    cotHeader: '🚨 QUAN TRỌNG: BẮT BUỘC PHẢI THỰC HIỆN COT REASONING TRƯỚC KHI TẠO JSON!',
+    nsfwNotice: 'LƯU Ý: Chế độ NSFW đang BẬT.',
+    fallbackPrompt: ({ pcName, location, turn }) => `
+=== THÔNG TIN CƠ BẢN ===
+Nhân vật: ${pcName}
+Vị trí: ${location}
+Lượt: ${turn}
+`,
+    missingStatePrompt: (action) => `Hành động: ${action}\nTrạng thái: Lỗi hệ thống, không thể xử lý.`,
+    constraints: {
+        timeCost: (choiceText, tag) => `\n\n**⏰ THỜI GIAN BẮT BUỘC**: Hành động này có thời gian ước tính từ lựa chọn: "${choiceText}". Bạn PHẢI sử dụng chính xác thẻ: ${tag}`,
+        skillUsage: (skillNames, tags) => `\n\n**⚔️ KỸ NĂNG SỬ DỤNG**: Hành động này sử dụng kỹ năng: ${skillNames}. Bạn PHẢI bao gồm các thẻ kinh nghiệm kỹ năng sau: ${tags}`,
+        breakthrough: (input) => `\n\n**✦ KẾT QUẢ ĐỘT PHÁ ✦**: Nỗ lực đột phá kỹ năng "${input.skillName}" đã ${input.success ? 'THÀNH CÔNG' : 'THẤT BẠI'}.` + (input.success
+            ? ` Kỹ năng đã tiến từ ${input.fromMastery} lên ${input.toMastery}. Trạng thái kỹ năng đã được cập nhật tự động. Bạn PHẢI viết câu chuyện mô tả cuộc đột phá thành công, sự tiến bộ và sức mạnh mới có được. Dùng thẻ: ${breakthroughTag(input)}`
+            : ` Kỹ năng vẫn ở cấp ${input.fromMastery} và vẫn bị giới hạn. Bạn PHẢI viết câu chuyện mô tả cuộc đột phá thất bại, có thể bị phản phệ, kiệt sức hoặc thụt lùi tạm thời. Dùng thẻ: ${breakthroughTag(input)}`),
+        nsfwRequest: '\nLƯU Ý ĐẶC BIỆT: ...'
+    },
+    duplicateRetry: {
+        retryMarker: 'lần thử lại',
+        note: (attempt, seed) => `\n\n**QUAN TRỌNG**: Đây là lần thử lại #${attempt} do phản hồi trùng lặp. Hãy tạo nội dung HOÀN TOÀN KHÁC với lượt trước. Tập trung vào sự sáng tạo và đa dạng. Seed: ${seed}`
+    },
+
+    suggestAction: (recentStory) => `Bạn là AI hỗ trợ người chơi trong game RPG. Dựa vào bối cảnh câu chuyện gần đây, hãy gợi ý một hành động thú vị và sáng tạo cho người chơi.
+
+=== BỐI CẢNH GAN ĐÂY ===
+${recentStory}
+
+=== YÊU CẦU ===
+- Gợi ý 1 hành động cụ thể, sáng tạo và phù hợp với bối cảnh
+- Hành động phải ngắn gọn, dài 10-20 từ
+- Hành động phải có thể thực hiện được trong tình huống hiện tại
+- Đừng giải thích hay thêm gì khác, chỉ trả về hành động duy nhất
+
+VÍ DỤ:
+- "Quan sát kỹ xung quanh để tìm manh mối"
+- "Hỏi người địa phương về truyền thuyết"
+- "Thử sử dụng kỹ năng để giải quyết vấn đề"
+
+Hãy gợi ý hành động:`
+};
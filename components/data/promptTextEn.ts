@@ -0,0 +1,114 @@
+// promptTextEn.ts - English version of the fixed prompt text in data/promptText.ts
+
+import { breakthroughTag, numbered, type PromptText } from './promptText';
+
+export const EN_PROMPT_TEXT: PromptText = {
+    initialStory: ({ rules, concepts, pc, skills, world }) => {
+        const rulesContext = rules.length > 0
+            ? `\n--- CUSTOM KNOWLEDGE & RULES (ACTIVE) ---\n${rules.map(rule => `- ${rule}`).join('\n')}\n--- END ---\n`
+            : '';
+        const conceptContext = concepts.length > 0
+            ? `\n--- ESTABLISHED LORE_CONCEPTS ---\n${concepts.map(c => `• ${c.name}: ${c.description}`).join('\n')}\n--- END ---\n`
+            : '';
+        const skillList = skills.join('\n  • ');
+        const requirements = [
+            '**LANGUAGE**: Write 100% in English. Names of people and places may keep their original form.',
+            '**LENGTH**: Exactly 300-400 words, detailed and vivid',
+            '**USE THE CONCEPTS**: Weave the established LORE_CONCEPTs into the story naturally',
+            '**SET THE SCENE**: Create an interesting opening situation, without too much drama',
+            ...(skillList ? ['**MENTION SKILLS**: Mention or show the character\'s starting skills in the story or the choices, keeping their mastery level in mind'] : []),
+            ...(pc.motivation ? [`**REFLECT THE MOTIVATION**: The story and choices must relate to the main character's motivation/goal: "${pc.motivation}"`] : []),
+            '**TIME_ELAPSED**: You must use [TIME_ELAPSED: hours=0]',
+            '**COMMAND TAGS**: Create at least 2-3 fitting command tags (LORE_LOCATION, LORE_NPC, STATUS_APPLIED_SELF...)',
+            `**CHOICES**: Create 4-6 varied and interesting action choices${pc.motivation ? `, some of which work toward the goal: "${pc.motivation}"` : ''}${skillList ? ', and some of which use a starting skill at a fitting mastery level' : ''}`
+        ];
+
+        return `${rulesContext}${conceptContext}
+
+YOU ARE THE AI GAME MASTER. Write the opening story of an RPG with these requirements:
+
+--- MAIN CHARACTER ---
+Name: ${pc.name}
+Gender: ${pc.gender}
+Background: ${pc.description}
+Personality: ${pc.personality}${pc.motivation ? `\n**KEY MOTIVATION/GOAL**: ${pc.motivation}` : ''}${skillList ? `\n**STARTING SKILLS**:\n  • ${skillList}` : ''}
+
+--- WORLD ---
+World: ${world.name}
+Description: ${world.description}
+Time: Year ${world.year}, Month ${world.month}, Day ${world.day}
+Starting location: ${world.startLocation || 'Unknown'}
+Writing style: ${world.firstPerson ? 'First person - the main character says "I"' : 'Second person - "you" are the main character'}
+18+ content: ${world.allowNsfw ? 'Allowed. Apply the Game Master\'s 18+ content rules. Write explicitly, violently, crudely and without limits.' : 'No, the AI must avoid 18+ themes and descriptions.'}
+
+--- STORY REQUIREMENTS ---
+${numbered(requirements)}
+
+Write a gripping opening story${pc.motivation ? ` that clearly shows the character's motivation "${pc.motivation}"` : ''}${skillList ? `${pc.motivation ? ', and ' : ' that '}mentions or allows using the starting skills at their mastery level` : ''}!
+
+**FINAL NOTE**: Check the whole output to make sure it is entirely in English.`;
+    },
+
+    markers: { criticalKnowledge: '=== CRITICAL KNOWLEDGE ===', playerAction: '--- PLAYER ACTION ---' },
+    fallbacks: { none: 'None', unknownLocation: 'Unknown', unknownName: 'Unknown', mainCharacter: 'Main character' },
+    actionTypes: {
+        relax: { label: 'relaxing/observing', description: 'A relaxed action, focused on observing and enjoying the moment' },
+        request: { label: 'interaction/request', description: 'An active interaction that asks someone else to respond' },
+        social: { label: 'conversation', description: 'A social action, exchanging information' },
+        combat: { label: 'combat', description: 'A combat action, possibly dangerous' },
+        movement: { label: 'movement', description: 'Moving from one place to another' },
+        other: { label: 'other', description: 'A special action that fits no usual category' }
+    },
+    complexity: { simple: 'Simple', medium: 'Medium', complex: 'Complex' },
+    actionContext: ({ seed, turn, time, analysis }) => {
+        if (!analysis) {
+            return `--- ACTION CONTEXT ---\nID: ${seed} | Timestamp: ${new Date().toISOString()}\n--- END OF CONTEXT ---\n`;
+        }
+        const type = EN_PROMPT_TEXT.actionTypes[analysis.type];
+        return `--- ACTION CONTEXT ---\n`
+            + `Turn: ${turn} | Time: ${time} | ID: ${seed}\n`
+            + `Analysis: ${type.label} - ${type.description}\n`
+            + `Complexity: ${EN_PROMPT_TEXT.complexity[analysis.complexity]} | Expected duration: ${analysis.expectedDuration || 'Unknown'}\n`
+            + (analysis.involvedEntities.length > 0 ? `Involved: ${analysis.involvedEntities.join(', ')}\n` : '')
+            + `--- END OF CONTEXT ---\n`;
+    },
+    cotHeader: '🚨 IMPORTANT: YOU MUST DO THE COT REASONING BEFORE WRITING THE JSON!',
+    nsfwNotice: 'NOTE: NSFW mode is ON.',
+    fallbackPrompt: ({ pcName, location, turn }) => `
+=== BASIC INFO ===
+Character: ${pcName}
+Location: ${location}
+Turn: ${turn}
+`,
+    missingStatePrompt: (action) => `Action: ${action}\nStatus: System error, cannot be processed.`,
+    constraints: {
+        timeCost: (choiceText, tag) => `\n\n**⏰ REQUIRED TIME**: This action has an estimated duration from the choice: "${choiceText}". You MUST use exactly this tag: ${tag}`,
+        skillUsage: (skillNames, tags) => `\n\n**⚔️ SKILLS USED**: This action uses the skills: ${skillNames}. You MUST include these skill experience tags: ${tags}`,
+        breakthrough: (input) => `\n\n**✦ BREAKTHROUGH RESULT ✦**: Breakthrough attempt for "${input.skillName}" has been ${input.success ? 'SUCCESSFUL' : 'FAILED'}.` + (input.success
+            ? ` The skill advanced from ${input.fromMastery} to ${input.toMastery}. Skill state has been automatically updated. You MUST write a story describing successful breakthrough, advancement, and new power gained. Use tag: ${breakthroughTag(input)}`
+            : ` The skill remains at ${input.fromMastery} level and is still capped. You MUST write a story describing failed breakthrough, possible backlash, fatigue, or temporary setback. Use tag: ${breakthroughTag(input)}`),
+        nsfwRequest: '\nSPECIAL NOTE: ...'
+    },
+    duplicateRetry: {
+        retryMarker: 'retry attempt',
+        note: (attempt, seed) => `\n\n**IMPORTANT**: This is retry attempt #${attempt} because the response was a duplicate. Write something COMPLETELY DIFFERENT from the previous turn. Focus on creativity and variety. Seed: ${seed}`
+    },
+
+    suggestAction: (recentStory) => `You assist the player of an RPG. Based on the recent story, suggest one interesting and creative action for the player.
+
+=== RECENT STORY ===
+${recentStory}
+
+=== REQUIREMENTS ===
+- Suggest 1 concrete, creative action that fits the situation
+- Keep the action short, 10-20 words
+- The action must be possible in the current situation
+- Do not explain or add anything else, return only the action
+
+EXAMPLES:
+- "Look around carefully for clues"
+- "Ask the locals about the legend"
+- "Try using a skill to solve the problem"
+
+Suggest an action:`
+};
@@ -0,0 +1,70 @@
+// relationships.ts - Relationship kinds shown on NPC cards and offered by the NPC editor
+//
+// The GM writes a relationship as free text in either language ("Thân thiện và tò mò", "wary ally").
+// classifyRelationship reduces it to one kind so the UI can show a translated label and a colour.
+
+import type { TranslationKey } from '../i18n';
+
+export type RelationshipKind =
+    | 'lover' | 'devoted' | 'hostile' | 'family' | 'teammate' | 'bestFriend'
+    | 'friendly' | 'respectful' | 'trusting' | 'grateful'
+    | 'suspicious' | 'rival' | 'fearful'
+    | 'curious' | 'cautious' | 'neutral' | 'undetermined';
+
+export type RelationshipTone = 'romantic' | 'positive' | 'negative' | 'neutral' | 'unknown';
+
+interface RelationshipDefinition {
+    kind: RelationshipKind;
+    tone: RelationshipTone;
+    keywords: string[];
+}
+
+// Priority order: stronger relationships come first, so "lover and rival" is a lover
+const RELATIONSHIPS: RelationshipDefinition[] = [
+    { kind: 'lover', tone: 'romantic', keywords: ['người yêu', 'tình nhân', 'vợ', 'chồng', 'lover', 'wife', 'husband', 'romantic'] },
+    { kind: 'devoted', tone: 'positive', keywords: ['devoted', 'loyal', 'love', 'adoring', 'yêu thương', 'tận tụy', 'tận hiến'] },
+    { kind: 'hostile', tone: 'negative', keywords: ['hostile', 'enemy', 'thù địch', 'thù ghét', 'kẻ thù'] },
+    { kind: 'family', tone: 'positive', keywords: ['gia đình', 'anh em', 'chị em', 'family', 'sibling', 'brother', 'sister'] },
+    { kind: 'teammate', tone: 'positive', keywords: ['đồng đội', 'teammate', 'partner', 'ally'] },
+    { kind: 'bestFriend', tone: 'positive', keywords: ['bạn thân', 'best friend', 'close friend'] },
+    { kind: 'friendly', tone: 'positive', keywords: ['friendly', 'friend', 'warm', 'bạn bè', 'thân thiện'] },
+    { kind: 'respectful', tone: 'positive', keywords: ['respect', 'admire', 'reverent', 'tôn kính', 'ngưỡng mộ'] },
+    { kind: 'trusting', tone: 'positive', keywords: ['trust', 'confident', 'tin tưởng', 'tin cậy'] },
+    { kind: 'grateful', tone: 'positive', keywords: ['grateful', 'thankful', 'biết ơn', 'cảm kích'] },
+    { kind: 'suspicious', tone: 'unknown', keywords: ['suspicious', 'doubt', 'nghi ngờ', 'hoài nghi'] },
+    { kind: 'rival', tone: 'neutral', keywords: ['competitive', 'rival', 'cạnh tranh', 'đối thủ'] },
+    { kind: 'fearful', tone: 'negative', keywords: ['fear', 'afraid', 'sợ hãi', 'e ngại'] },
+    { kind: 'curious', tone: 'neutral', keywords: ['curious', 'interested', 'tò mò', 'quan tâm'] },
+    { kind: 'cautious', tone: 'neutral', keywords: ['cautious', 'careful', 'cẩn thận', 'thận trọng'] },
+    { kind: 'neutral', tone: 'neutral', keywords: ['neutral', 'trung lập', 'bình thường'] },
+    { kind: 'undetermined', tone: 'unknown', keywords: ['chưa xác định', 'undetermined'] }
+];
+
+export const RELATIONSHIP_KINDS: RelationshipKind[] = RELATIONSHIPS.map(r => r.kind);
+
+export const RELATIONSHIP_LABELS: Record<RelationshipKind, TranslationKey> = {
+    lover: 'relationship.lover',
+    devoted: 'relationship.devoted',
+    hostile: 'relationship.hostile',
+    family: 'relationship.family',
+    teammate: 'relationship.teammate',
+    bestFriend: 'relationship.bestFriend',
+    friendly: 'relationship.friendly',
+    respectful: 'relationship.respectful',
+    trusting: 'relationship.trusting',
+    grateful: 'relationship.grateful',
+    suspicious: 'relationship.suspicious',
+    rival: 'relationship.rival',
+    fearful: 'relationship.fearful',
+    curious: 'relationship.curious',
+    cautious: 'relationship.cautious',
+    neutral: 'relationship.neutral',
+    undetermined: 'relationship.undetermined'
+};
+
+export const classifyRelationship = (text: string | undefined): { kind: RelationshipKind; tone: RelationshipTone } | null => {
+    if (!text) return null;
+    const rel = text.toLowerCase();
+    const match = RELATIONSHIPS.find(r => r.keywords.some(keyword => rel.includes(keyword)));
+    return match ? { kind: match.kind, tone: match.tone } : null;
+};
@@ -8,6 +8,7 @@ import { isHTMLContent } from '../utils/htmlParser';
 import { getIconForLocation, getIconForWeather } from '../utils';
 import * as GameIcons from '../GameIcons';
 import type { KnownEntities } from '../types';
+import { useI18n } from '../hooks/useI18n';
 
 interface VirtualItem {
     id: string;
@@ -32,6 +33,8 @@ interface CombinedStoryPanelProps {
     onEntityClick: (entityName: string) => void;
     apiKeyError: string | null;
     className?: string;
+    streamingStory?: string;
+    onCancelGeneration?: () => void;
     contextHeader?: string;
 }
 
@@ -106,8 +109,11 @@ export const CombinedStoryPanel: React.FC<CombinedStoryPanelProps> = memo(({
     onEntityClick,
     apiKeyError,
     className = '',
-    contextHeader = ''
+    contextHeader = '',
+    streamingStory = '',
+    onCancelGeneration
 }) => {
+    const [, { t }] = useI18n();
     const containerRef = useRef<HTMLDivElement>(null);
     const [virtualState, setVirtualState] = useState<VirtualScrollState>({
         scrollTop: 0,
@@ -184,7 +190,7 @@ export const CombinedStoryPanel: React.FC<CombinedStoryPanelProps> = memo(({
                             key={index}
                             onClick={() => onEntityClick(content)}
                             className="inline-flex items-center gap-1.5 bg-purple-500/20 hover:bg-purple-500/40 text-green-400 hover:text-green-300 px-3 py-1.5 rounded-lg transition-all duration-200 hover:scale-105 border border-purple-400/30 hover:border-purple-300/50"
-                            title={`Xem chi tiết ${content}`}
+                            title={t('story.viewDetails', { name: content })}
                         >
                             <span className="w-4 h-4 text-green-400">{icon}</span>
                             <span className="text-sm font-bold">{content}</span>
@@ -209,7 +215,7 @@ export const CombinedStoryPanel: React.FC<CombinedStoryPanelProps> = memo(({
             }
             return null;
         }).filter(Boolean);
-    }, [onEntityClick, getContentIcon]);
+    }, [onEntityClick, getContentIcon, t]);
 
 
     // Create virtual items from story log
@@ -345,11 +351,11 @@ export const CombinedStoryPanel: React.FC<CombinedStoryPanelProps> = memo(({
             <div className="flex-shrink-0 p-6 border-b border-white/10">
                 <div className="flex items-center justify-between">
                     <h2 className="text-xl font-bold bg-gradient-to-r from-purple-200 via-pink-200 to-purple-200 bg-clip-text text-transparent">
-                        📖 Diễn Biến Câu Chuyện
+                        {t('story.title')}
                     </h2>
                     <div className="flex items-center gap-3 text-sm text-white/70">
                         <div className="bg-white/10 backdrop-blur-sm rounded-xl px-3 py-1">
-                            <span>{storyLog.length} dòng</span>
+                            <span>{t('story.lines', { count: storyLog.length })}</span>
                         </div>
                         {virtualState.isScrolling && (
                             <div className="w-2 h-2 bg-gradient-to-r from-pink-400 to-purple-400 rounded-full animate-pulse" />
@@ -376,10 +382,10 @@ export const CombinedStoryPanel: React.FC<CombinedStoryPanelProps> = memo(({
                         <div className="text-center bg-red-500/10 backdrop-blur-sm border border-red-400/20 rounded-2xl p-8">
                             <div className="text-red-300 mb-4 text-4xl">⚠️</div>
                             <p className="text-white/80 text-lg font-medium">
-                                AI chưa sẵn sàng
+                                {t('story.aiNotReady')}
                             </p>
                             <p className="text-white/60 text-sm mt-2">
-                                {apiKeyError || "Vui lòng kiểm tra API Key và quay về trang chủ"}
+                                {apiKeyError || t('story.checkApiKey')}
                             </p>
                         </div>
                     </div>
@@ -388,10 +394,10 @@ export const CombinedStoryPanel: React.FC<CombinedStoryPanelProps> = memo(({
                         <div className="text-center bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-8">
                             <div className="text-purple-300 mb-4 text-4xl">📖</div>
                             <p className="text-white/80 text-lg font-medium">
-                                Câu chuyện sẽ bắt đầu ở đây...
+                                {t('story.emptyTitle')}
                             </p>
                             <p className="text-white/60 text-sm mt-2">
-                                Hãy chọn một hành động để bắt đầu cuộc phiêu lưu
+                                {t('story.emptyHint')}
                             </p>
                         </div>
                     </div>
@@ -412,6 +418,16 @@ export const CombinedStoryPanel: React.FC<CombinedStoryPanelProps> = memo(({
                                     onHeightMeasured={handleHeightMeasured}
                                 />
                             ))}
+                            {/* Story text streamed so far for the current turn */}
+                            {isLoading && streamingStory && (
+                                <div className="story-item bg-white/5 backdrop-blur-sm border border-purple-400/30 rounded-xl p-4 opacity-90">
+                                    <OptimizedInteractiveText
+                                        text={streamingStory}
+                                        onEntityClick={onEntityClick}
+                                        knownEntities={knownEntities}
+                                    />
+                                </div>
+                            )}
                         </div>
                     </div>
                 )}
@@ -422,8 +438,17 @@ export const CombinedStoryPanel: React.FC<CombinedStoryPanelProps> = memo(({
                         <div className="flex items-center gap-3 bg-gradient-to-r from-purple-500/20 to-pink-500/20 backdrop-blur-xl border border-purple-400/30 px-4 py-3 rounded-2xl shadow-2xl">
                             <SpinnerIcon className="w-5 h-5 text-purple-300" />
                             <span className="text-sm text-white font-medium">
-                                Đang tạo câu chuyện...
+                                {streamingStory ? t('story.writing') : t('story.generating')}
                             </span>
+                            {onCancelGeneration && (
+                                <button
+                                    onClick={onCancelGeneration}
+                                    className="ml-1 px-3 py-1 text-xs font-medium text-white bg-red-500/30 hover:bg-red-500/50 border border-red-400/40 rounded-lg transition-colors"
+                                    title={t('story.stopTitle')}
+                                >
+                                    {t('story.stop')}
+                                </button>
+                            )}
                         </div>
                     </div>
                 )}
@@ -436,7 +461,7 @@ export const CombinedStoryPanel: React.FC<CombinedStoryPanelProps> = memo(({
                             <button
                                 onClick={scrollToBottom}
                                 className="bg-gradient-to-r from-purple-500/30 to-pink-500/30 hover:from-purple-500/40 hover:to-pink-500/40 backdrop-blur-xl border border-purple-400/40 text-white p-3 rounded-2xl shadow-2xl transition-all hover:scale-110 group"
-                                title="Cuộn xuống cuối"
+                                title={t('story.scrollToBottom')}
                             >
                                 <svg className="w-4 h-4 group-hover:animate-bounce" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 14l-7 7m0 0l-7-7m7 7V3" />
@@ -449,7 +474,7 @@ export const CombinedStoryPanel: React.FC<CombinedStoryPanelProps> = memo(({
                             <button
                                 onClick={scrollToBottom}
                                 className="bg-gradient-to-r from-purple-500/50 to-pink-500/50 hover:from-purple-500/60 hover:to-pink-500/60 backdrop-blur-xl border-2 border-purple-400/60 text-white p-4 rounded-full shadow-2xl transition-all active:scale-95 group touch-manipulation"
-                                title="Cuộn xuống cuối"
+                                title={t('story.scrollToBottom')}
                             >
                                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 14l-7 7m0 0l-7-7m7 7V3" />
@@ -2,15 +2,18 @@
 
 import React from 'react';
 import { createPortal } from 'react-dom';
-import { HomeIcon, ArchiveIcon,FileIcon, BrainIcon, MemoryIcon, RefreshIcon, DocumentAddIcon, ExclamationIcon, UserIcon } from '../Icons.tsx';
+import { HomeIcon, ArchiveIcon,FileIcon, BrainIcon, MemoryIcon, RefreshIcon, DocumentAddIcon, ExclamationIcon, UserIcon, UndoIcon, RedoIcon } from '../Icons.tsx';
 import * as GameIcons from '../GameIcons.tsx';
 import type { FormData } from '../types.ts';
+import { useI18n } from '../hooks/useI18n';
 
 interface DesktopHeaderProps {
     onHome: () => void;
     onSettings: () => void;
     onSave: () => void;
     onExportWorldSetup: () => void;
+    onTimeline: () => void;
+    onSaveLibrary: () => void;
     onMap: () => void;
     onRules: () => void;
     onRegexManager: () => void;
@@ -19,6 +22,8 @@ interface DesktopHeaderProps {
     onRestart: () => void;
     onInventory: () => void;
     onAdmin: () => void;
+    onPromptInspector: () => void;
+    onPromptTemplates: () => void;
     onManualCleanup: () => void;
     onLoadGameFromFile: (file: File) => void;
     hasActiveQuests: boolean;
@@ -27,6 +32,10 @@ interface DesktopHeaderProps {
     turnCount: number;
     currentTurnTokens: number;
     totalTokens: number;
+    onUndo: () => void;
+    onRedo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
 }
 const getTokenColor = (tokens: number) => {
     if (tokens > 80000) return 'text-red-500 bg-red-100 dark:bg-red-900/30';
@@ -35,10 +44,12 @@ const getTokenColor = (tokens: number) => {
     return 'text-green-500 bg-green-100 dark:bg-green-900/30';
 };
 export const DesktopHeader: React.FC<DesktopHeaderProps> = ({
-    onHome, onSettings, onSave, onExportWorldSetup, onMap, onRules, onRegexManager, onKnowledge, onMemory, onRestart,
-    onInventory, onAdmin, hasActiveQuests, onManualCleanup, onLoadGameFromFile,
-    worldData, gameTime, turnCount, currentTurnTokens, totalTokens
+    onHome, onSettings, onSave, onExportWorldSetup, onTimeline, onSaveLibrary, onMap, onRules, onRegexManager, onKnowledge, onMemory, onRestart,
+    onInventory, onAdmin, onPromptInspector, onPromptTemplates, hasActiveQuests, onManualCleanup, onLoadGameFromFile,
+    worldData, gameTime, turnCount, currentTurnTokens, totalTokens,
+    onUndo, onRedo, canUndo, canRedo
 }) => {
+    const [, { t }] = useI18n();
     const [showGameMenu, setShowGameMenu] = React.useState(false);
     const [showPlayerMenu, setShowPlayerMenu] = React.useState(false);
     const [showMap, setShowMap] = React.useState(false);
@@ -106,7 +117,7 @@ export const DesktopHeader: React.FC<DesktopHeaderProps> = ({
                     <button 
                         onClick={onHome} 
                         className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors text-slate-600 dark:text-slate-300"
-                        title="Home"
+                        title={t('header.home')}
                     >
                         <HomeIcon className="w-5 h-5" />
                     </button>
@@ -124,23 +135,43 @@ export const DesktopHeader: React.FC<DesktopHeaderProps> = ({
                             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 100 4m0-4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 100 4m0-4v2m0-6V4" />
                             </svg>
-                            <span className="text-sm font-medium">Game</span>
+                            <span className="text-sm font-medium">{t('header.gameMenu')}</span>
                             <svg className={`w-4 h-4 transition-transform ${showGameMenu ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
                             </svg>
                         </button>
                         
                     </div>
+
+                    {/* Turn Undo/Redo */}
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={onUndo}
+                            disabled={!canUndo}
+                            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors text-slate-600 dark:text-slate-300 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+                            title={t('header.undo')}
+                        >
+                            <UndoIcon className="w-5 h-5" />
+                        </button>
+                        <button
+                            onClick={onRedo}
+                            disabled={!canRedo}
+                            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors text-slate-600 dark:text-slate-300 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+                            title={t('header.redo')}
+                        >
+                            <RedoIcon className="w-5 h-5" />
+                        </button>
+                    </div>
                 </div>
 
                 {/* Center: Game Title & Token Counter */}
                 <div className="flex items-center gap-6">
                     <div className="text-center">
-                        <div className="text-lg font-semibold text-slate-800 dark:text-slate-200 truncate max-w-[200px]" title={worldData.storyName || "Phiêu Lưu Ký"}>
-                            {worldData.storyName || "Phiêu Lưu Ký"}
+                        <div className="text-lg font-semibold text-slate-800 dark:text-slate-200 truncate max-w-[200px]" title={worldData.storyName || t('header.defaultStoryName')}>
+                            {worldData.storyName || t('header.defaultStoryName')}
                         </div>
-                        <div className="text-xs text-slate-500 dark:text-slate-400 truncate max-w-[200px]" title={worldData.genre || 'Chưa xác định'}>
-                            {worldData.genre || 'Chưa xác định'}
+                        <div className="text-xs text-slate-500 dark:text-slate-400 truncate max-w-[200px]" title={worldData.genre || t('header.unknownGenre')}>
+                            {worldData.genre || t('header.unknownGenre')}
                         </div>
                     </div>
                     
@@ -149,9 +180,9 @@ export const DesktopHeader: React.FC<DesktopHeaderProps> = ({
                     {/* Token Counter - Always Visible */}
                     <div className={`font-mono px-4 py-2 rounded-lg border-2 transition-all ${getTokenColor(currentTurnTokens)} shadow-sm`}>
                         <div className="flex items-center gap-3 text-sm font-semibold">
-                            <span>Lượt: {currentTurnTokens.toLocaleString()}</span>
+                            <span>{t('header.turnTokens', { tokens: currentTurnTokens.toLocaleString() })}</span>
                             <div className="w-px h-4 bg-current opacity-40"></div>
-                            <span>Tổng: {totalTokens.toLocaleString()}</span>
+                            <span>{t('header.totalTokens', { tokens: totalTokens.toLocaleString() })}</span>
                         </div>
                         <div className="mt-1.5 w-full bg-current opacity-20 rounded-full h-1.5">
                             <div className="bg-current h-1.5 rounded-full transition-all duration-500" 
@@ -172,7 +203,7 @@ export const DesktopHeader: React.FC<DesktopHeaderProps> = ({
                                         transition-colors duration-300"
                             >
                                 <ArchiveIcon className="w-4 h-4 text-slate-200 group-hover:text-black transition-colors duration-300" />
-                                <span className="text-sm font-medium text-slate-200 group-hover:text-black transition-colors duration-300">Lưu Trữ</span>
+                                <span className="text-sm font-medium text-slate-200 group-hover:text-black transition-colors duration-300">{t('header.save')}</span>
                             </button>
                             </div>           
 
@@ -193,12 +224,18 @@ export const DesktopHeader: React.FC<DesktopHeaderProps> = ({
                                     transition-colors duration-300"
                         >
                             <FileIcon className="w-4 h-4 text-slate-200 group-hover:text-black transition-colors duration-300" />
-                            <span className="text-sm font-medium text-slate-200 group-hover:text-black transition-colors duration-300">Load Game</span>
+                            <span className="text-sm font-medium text-slate-200 group-hover:text-black transition-colors duration-300">{t('header.loadGame')}</span>
                         </button>
                     </div>           
 
                     <div className="text-xs text-slate-500 dark:text-slate-400 mr-2">
-                        Năm {Number.isFinite(gameTime.year) ? gameTime.year : 1}, Tháng {Number.isFinite(gameTime.month) ? gameTime.month : 1}, Ngày {Number.isFinite(gameTime.day) ? gameTime.day : 1}, {Number.isFinite(gameTime.hour) ? gameTime.hour : 0}:{(Number.isFinite(gameTime.minute) ? gameTime.minute : 0).toString().padStart(2, '0')}
+                        {t('header.gameTime', {
+                            year: Number.isFinite(gameTime.year) ? gameTime.year : 1,
+                            month: Number.isFinite(gameTime.month) ? gameTime.month : 1,
+                            day: Number.isFinite(gameTime.day) ? gameTime.day : 1,
+                            hour: Number.isFinite(gameTime.hour) ? gameTime.hour : 0,
+                            minute: (Number.isFinite(gameTime.minute) ? gameTime.minute : 0).toString().padStart(2, '0')
+                        })}
                     </div>
 
                     <div className="relative rounded-lg p-[1px] bg-slate-600/40 hover:bg-gradient-to-r hover:from-orange-400 hover:to-red-500 transition-all duration-300">
@@ -210,7 +247,7 @@ export const DesktopHeader: React.FC<DesktopHeaderProps> = ({
                                     transition-colors duration-300"
                         >
                             <GameIcons.MapPinIcon className="w-4 h-4 text-slate-200 group-hover:text-black transition-colors duration-300" />
-                            <span className="text-sm font-medium text-slate-200 group-hover:text-black transition-colors duration-300">Bản Đồ</span>
+                            <span className="text-sm font-medium text-slate-200 group-hover:text-black transition-colors duration-300">{t('header.map')}</span>
                         </button>
                     </div>
 
@@ -225,7 +262,7 @@ export const DesktopHeader: React.FC<DesktopHeaderProps> = ({
                             } text-slate-600 dark:text-slate-300`}
                         >
                             <UserIcon className="w-4 h-4" />
-                            <span className="text-sm font-medium">Player</span>
+                            <span className="text-sm font-medium">{t('header.playerMenu')}</span>
                             {hasActiveQuests && <span className="w-2 h-2 bg-yellow-500 rounded-full"></span>}
                             <svg className={`w-4 h-4 transition-transform ${showPlayerMenu ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
@@ -248,38 +285,51 @@ export const DesktopHeader: React.FC<DesktopHeaderProps> = ({
                     }}
                 >
                     <button onClick={() => { onSettings(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-slate-700 dark:text-slate-200">
-                        ⚙️ Cài đặt
+                        {t('header.settings')}
                     </button>
                     <div className="border-t border-slate-200 dark:border-slate-600 my-1"></div>
                     <button onClick={() => { onSave(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-slate-700 dark:text-slate-200">
-                        <ArchiveIcon className="w-4 h-4" /> Lưu Trữ
+                        <ArchiveIcon className="w-4 h-4" /> {t('header.save')}
+                    </button>
+                    <button onClick={() => { onSaveLibrary(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-slate-700 dark:text-slate-200">
+                        {t('header.saveLibrary')}
+                        <span className="ml-auto text-xs text-slate-400">F5/F9</span>
                     </button>
                     <button onClick={() => { onExportWorldSetup(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-slate-700 dark:text-slate-200">
-                        📤 Xuất WorldSetup
+                        {t('header.exportWorldSetup')}
+                    </button>
+                    <button onClick={() => { onTimeline(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-slate-700 dark:text-slate-200">
+                        {t('header.timeline')}
                     </button>
                     <button onClick={() => { onRules(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-slate-700 dark:text-slate-200">
-                        <DocumentAddIcon className="w-4 h-4" /> Nạp Tri Thức
+                        <DocumentAddIcon className="w-4 h-4" /> {t('header.loadKnowledge')}
                     </button>
                     <button onClick={() => { onRegexManager(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-slate-700 dark:text-slate-200">
-                        🔧 Regex Manager
+                        {t('header.regexManager')}
                     </button>
                     <button onClick={() => { onKnowledge(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-slate-700 dark:text-slate-200">
-                        <BrainIcon className="w-4 h-4" /> Tri Thức
+                        <BrainIcon className="w-4 h-4" /> {t('header.knowledge')}
                         <span className="ml-auto text-xs text-slate-400">K</span>
                     </button>
                     <button onClick={() => { onMemory(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-slate-700 dark:text-slate-200">
-                        <MemoryIcon className="w-4 h-4" /> Ký Ức
+                        <MemoryIcon className="w-4 h-4" /> {t('header.memory')}
                     </button>
                     <div className="border-t border-slate-200 dark:border-slate-600 my-1"></div>
                     <button onClick={() => { onManualCleanup(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-orange-600 dark:text-orange-400">
-                        🧹 Cleanup
+                        {t('header.cleanup')}
                     </button>
                     <div className="border-t border-slate-200 dark:border-slate-600 my-1"></div>
                     <button onClick={() => { onAdmin(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-purple-600 dark:text-purple-400">
-                        ⚙️ Admin Panel
+                        {t('header.admin')}
+                    </button>
+                    <button onClick={() => { onPromptInspector(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-purple-600 dark:text-purple-400">
+                        {t('header.promptInspector')}
+                    </button>
+                    <button onClick={() => { onPromptTemplates(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-purple-600 dark:text-purple-400">
+                        {t('header.promptTemplates')}
                     </button>
                     <button onClick={() => { onRestart(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-red-600 dark:text-red-400">
-                        <RefreshIcon className="w-4 h-4" /> Bắt Đầu Lại
+                        <RefreshIcon className="w-4 h-4" /> {t('header.restart')}
                     </button>
                 </div>,
                 document.body
@@ -296,7 +346,7 @@ export const DesktopHeader: React.FC<DesktopHeaderProps> = ({
                     }}
                 >
                     <button onClick={() => { onInventory(); setShowPlayerMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-slate-700 dark:text-slate-200">
-                        🎒 Túi Đồ
+                        {t('header.inventory')}
                     </button>
                 </div>,
                 document.body
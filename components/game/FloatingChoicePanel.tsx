@@ -13,6 +13,10 @@ import {
     type ChoiceCategory
 } from '../utils/categorySupportSystem';
 import { extractSkillNameFromChoice, parseSuccessRateFromChoice, parseRiskLevelFromChoice, adjustSuccessRate, adjustRiskLevel } from '../utils/skillMasteryAdjustments';
+import { getMasteryTier } from '../utils/skillExpManager';
+import { parseRiskTier, findRiskTierInText, getRiskLabel, type RiskTier } from '../utils/gameEnums';
+import { t } from '../i18n';
+import { useI18n } from '../hooks/useI18n';
 
 // Legacy ChoiceData interface - deprecated, use ChoiceMetadata instead
 interface ChoiceData extends ChoiceMetadata {}
@@ -67,41 +71,38 @@ const parseChoiceData = (choice: string, quests: Quest[], gameState?: any): Choi
         content = content.replace(nsfwMatch[0], '').trim();
     }
     
-    // Extract time from parentheses (look for Vietnamese time units)
-    const timeMatch = content.match(/\(([^)]*(?:phút|giờ|tiếng|ngày|tuần|tháng|năm)[^)]*)\)/i);
+    // Extract time from parentheses (look for Vietnamese or English time units)
+    const timeMatch = content.match(/\(([^)]*(?:phút|giờ|tiếng|ngày|tuần|tháng|năm|\b(?:minute|hour|day|week|month|year)s?\b)[^)]*)\)/i);
     if (timeMatch) {
         time = timeMatch[1];
         content = content.replace(timeMatch[0], '').trim();
     }
     
     // Extract success rate
-    const successMatch = content.match(/(?:Tỷ|Tỉ) lệ thành công:\s*(\d+)%/i);
+    const successMatch = content.match(/(?:(?:Tỷ|Tỉ) lệ thành công|Success rate):\s*(\d+)%/i);
     if (successMatch) {
         successRate = parseInt(successMatch[1]);
         content = content.replace(successMatch[0], '').trim();
     }
     
     // Extract risk and description  
-    const riskMatch = content.match(/Rủi ro:\s*([^,\n]*?)(?:,\s*([^\n]*))?(?=\n|$)/im);
+    const riskMatch = content.match(/(?:Rủi ro|Risk):\s*([^,\n]*?)(?:,\s*([^\n]*))?(?=\n|$)/im);
     if (riskMatch) {
-        const riskText = riskMatch[1].trim().toLowerCase();
-        if (riskText.includes('thấp')) risk = 'Thấp';
-        else if (riskText.includes('trung bình') || riskText.includes('trung binh')) risk = 'Trung Bình';
-        else if (riskText.includes('cực cao') || riskText.includes('cuc cao')) risk = 'Cực Cao';
-        else if (riskText.includes('cao')) risk = 'Cao';
+        const riskText = riskMatch[1].trim();
+        risk = parseRiskTier(riskText) ?? findRiskTierInText(riskText)?.tier;
         riskDescription = riskMatch[2] ? riskMatch[2].trim() : undefined;
         content = content.replace(riskMatch[0], '').trim();
     }
     
     // Extract rewards
-    const rewardsMatch = content.match(/Phần thưởng:\s*(.*?)(?=\n|$)/is);
+    const rewardsMatch = content.match(/(?:Phần thưởng|Rewards?):\s*(.*?)(?=\n|$)/is);
     if (rewardsMatch) {
         rewards = rewardsMatch[1].trim();
         content = content.replace(rewardsMatch[0], '').trim();
     }
     
     // Extract quest linking information
-    const questMatch = content.match(/Mục tiêu nhiệm vụ "([^"]+)"/i);
+    const questMatch = content.match(/(?:Mục tiêu nhiệm vụ|Quest objective) "([^"]+)"/i);
     if (questMatch) {
         const questTitle = questMatch[1];
         // Find the quest and look for uncompleted objectives
@@ -133,7 +134,7 @@ const parseChoiceData = (choice: string, quests: Quest[], gameState?: any): Choi
                     entity.type === 'skill' && entity.name.toLowerCase().includes(skillName.toLowerCase())
                 );
                 
-                if (skillEntity && skillEntity.mastery && skillEntity.mastery !== 'Sơ Cấp') {
+                if (skillEntity && skillEntity.mastery && getMasteryTier(skillEntity.mastery) !== 'novice') {
                     isSkillBoosted = true;
                     console.log(`✨ Detected skill-boosted choice: ${skillName} (${skillEntity.mastery})`);
                 }
@@ -163,22 +164,22 @@ const parseChoiceData = (choice: string, quests: Quest[], gameState?: any): Choi
     if (!risk) {
         // If no risk found, attempt to infer from content or provide default
         if (content.toLowerCase().includes('an toàn') || content.toLowerCase().includes('không nguy hiểm')) {
-            risk = 'Thấp';
+            risk = 'low';
         } else if (content.toLowerCase().includes('nguy hiểm') || content.toLowerCase().includes('rủi ro cao')) {
-            risk = 'Cao';
+            risk = 'high';
         } else {
-            risk = 'Trung Bình'; // Default moderate risk
+            risk = 'medium'; // Default moderate risk
         }
     }
     
     if (!rewards) {
         // If no rewards found, provide a generic description
-        rewards = 'Tiến triển trong câu chuyện và mở ra cơ hội mới.';
+        rewards = t('choices.defaultRewards');
     }
     
     // Apply category support system
     let supportedSuccessRate = successRate;
-    let supportedRisk = risk;
+    let supportedRisk: RiskTier | undefined = risk;
     let supportIndicator = '';
     let supportTooltip = '';
     
@@ -189,7 +190,7 @@ const parseChoiceData = (choice: string, quests: Quest[], gameState?: any): Choi
             if (support.successRateBonus > 0) {
                 const { modifiedSuccessRate, modifiedRisk } = applySupport(successRate, risk, support);
                 supportedSuccessRate = modifiedSuccessRate;
-                supportedRisk = modifiedRisk;
+                supportedRisk = parseRiskTier(modifiedRisk) ?? risk;
                 
                 const indicator = getCategorySupportIndicator(choiceCategory);
                 supportIndicator = indicator.indicator;
@@ -207,14 +208,14 @@ const parseChoiceData = (choice: string, quests: Quest[], gameState?: any): Choi
             entity.type === 'skill' && entity.name.toLowerCase().includes(skillName.toLowerCase())
         );
         
-        if (skillEntity?.mastery && skillEntity.mastery !== 'Sơ Cấp') {
+        if (skillEntity?.mastery && getMasteryTier(skillEntity.mastery) !== 'novice') {
             // Apply skill adjustments on top of support-adjusted values
             const originalFinalRate = finalSuccessRate;
             const originalFinalRisk = finalRisk;
             
             finalSuccessRate = adjustSuccessRate(finalSuccessRate || 0, skillEntity.mastery);
             if (finalRisk) {
-                finalRisk = adjustRiskLevel(finalRisk, skillEntity.mastery);
+                finalRisk = parseRiskTier(adjustRiskLevel(finalRisk, skillEntity.mastery)) ?? finalRisk;
             }
             
             console.log(`🌟 Applied skill mastery ${skillEntity.mastery} on ${skillName}:`);
@@ -251,18 +252,15 @@ const getSuccessRateColor = (rate?: number): string => {
     return 'text-green-400';
 };
 
-const getRiskColor = (risk?: string): string => {
-    if (!risk) return 'text-gray-400';
-    
-    const lowerRisk = risk.toLowerCase().trim();
-    if (lowerRisk.includes('thấp')) return 'text-green-400';
-    if (lowerRisk.includes('trung bình') || lowerRisk.includes('trung binh')) return 'text-yellow-400';
-    if (lowerRisk.includes('cao') && (lowerRisk.includes('cực') || lowerRisk.includes('cuc'))) return 'text-black bg-white px-1 rounded font-bold';
-    if (lowerRisk.includes('cao')) return 'text-red-400';
-    
-    return 'text-gray-400';
+const RISK_COLORS: Record<RiskTier, string> = {
+    low: 'text-green-400',
+    medium: 'text-yellow-400',
+    high: 'text-red-400',
+    extreme: 'text-black bg-white px-1 rounded font-bold'
 };
 
+const getRiskColor = (risk?: RiskTier): string => (risk ? RISK_COLORS[risk] : 'text-gray-400');
+
 export const FloatingChoicePanel: React.FC<FloatingChoicePanelProps> = memo(({
     isAiReady,
     apiKeyError,
@@ -280,6 +278,7 @@ export const FloatingChoicePanel: React.FC<FloatingChoicePanelProps> = memo(({
     cooldownTimeLeft = 0,
     gameState
 }) => {
+    const [{ locale }, { t }] = useI18n();
     const [isChoicesExpanded, setIsChoicesExpanded] = useState(false);
     const [isOpen, setIsOpen] = useState(false);
     const panelRef = useRef<HTMLDivElement>(null);
@@ -374,7 +373,7 @@ export const FloatingChoicePanel: React.FC<FloatingChoicePanelProps> = memo(({
             onClick={() => setIsChoicesExpanded(!isChoicesExpanded)}
             className="bg-gradient-to-r from-slate-800/90 to-slate-900/90 hover:from-cyan-500/40 hover:to-blue-500/40 backdrop-blur-xl border border-slate-600/60 hover:border-cyan-400/60 text-white px-4 py-2 rounded-t-2xl shadow-2xl transition-all duration-300 hover:scale-105 active:scale-95 flex items-center gap-2"
           >
-            <span className="text-sm font-medium">⚔️ Lựa Chọn Của Ngươi</span>
+            <span className="text-sm font-medium">{t('choices.title')}</span>
             <span className="text-xs bg-cyan-500/60 text-white font-semibold px-2 py-1 rounded-full shadow-sm">
               {choices.length}
             </span>
@@ -411,14 +410,14 @@ export const FloatingChoicePanel: React.FC<FloatingChoicePanelProps> = memo(({
               <div className="text-center bg-red-500/10 backdrop-blur-sm border border-red-400/20 rounded-2xl p-4">
                 <div className="text-red-300 mb-2 text-xl">⚠️</div>
                 <p className="text-white/80 text-sm font-medium">
-                  AI chưa sẵn sàng
+                  {t('choices.aiNotReady')}
                 </p>
               </div>
             ) : isLoading && choices.length === 0 ? (
               <div className="flex items-center justify-center">
                 <div className="flex items-center gap-3 bg-gradient-to-r from-cyan-500/20 to-blue-500/20 backdrop-blur-xl border border-cyan-400/30 px-4 py-3 rounded-2xl">
                   <span className="text-white font-medium text-sm">
-                    Đang tải lựa chọn...
+                    {t('choices.loading')}
                   </span>
                 </div>
               </div>
@@ -489,7 +488,7 @@ export const FloatingChoicePanel: React.FC<FloatingChoicePanelProps> = memo(({
                             {/* Quest objective description */}
                             {choiceData.questLink && (
                               <p className="text-yellow-300 font-bold text-sm">
-                                Mục tiêu "{choiceData.questLink.objectiveDescription}" thuộc nhiệm vụ "{choiceData.questLink.questTitle}"
+                                {t('choices.questObjective', { objective: choiceData.questLink.objectiveDescription, quest: choiceData.questLink.questTitle })}
                               </p>
                             )}
                           </div>
@@ -498,18 +497,18 @@ export const FloatingChoicePanel: React.FC<FloatingChoicePanelProps> = memo(({
                           <div className="text-sm">
                             {choiceData.successRate !== undefined && (
                               <span className="text-white">
-                                Tỷ lệ thành công: <span className={`font-medium ${getSuccessRateColor(choiceData.successRate)}`}>
+                                {t('choices.successRate')} <span className={`font-medium ${getSuccessRateColor(choiceData.successRate)}`}>
                                   {choiceData.originalSuccessRate !== undefined && choiceData.originalSuccessRate !== choiceData.successRate && (
                                     <span className="line-through text-gray-500 mr-1">{choiceData.originalSuccessRate}%</span>
                                   )}
                                   {choiceData.successRate}%
                                   {choiceData.originalSuccessRate !== undefined && choiceData.originalSuccessRate !== choiceData.successRate && (
-                                    <span className="text-green-400 ml-1" title="Được hỗ trợ bởi lựa chọn trước đó">⬆</span>
+                                    <span className="text-green-400 ml-1" title={t('choices.supportedByPrevious')}>⬆</span>
                                   )}
                                   {choiceData.isSkillBoosted && (
                                     <span 
                                       className="text-blue-300 ml-1 font-bold" 
-                                      title={`Kỹ năng ${choiceData.skillName} đã nâng cao tỷ lệ thành công`}
+                                      title={t('choices.skillRaisedRate', { skill: choiceData.skillName ?? '' })}
                                     >
                                       ✦
                                     </span>
@@ -522,18 +521,18 @@ export const FloatingChoicePanel: React.FC<FloatingChoicePanelProps> = memo(({
                             )}
                             {choiceData.risk && (
                               <span className="text-white">
-                                Rủi ro: <span className={`font-medium ${getRiskColor(choiceData.risk)}`}>
+                                {t('choices.risk')} <span className={`font-medium ${getRiskColor(choiceData.risk)}`}>
                                   {choiceData.originalRisk && choiceData.originalRisk !== choiceData.risk && (
-                                    <span className="line-through text-gray-500 mr-1">{choiceData.originalRisk}</span>
+                                    <span className="line-through text-gray-500 mr-1">{getRiskLabel(choiceData.originalRisk, locale)}</span>
                                   )}
-                                  {choiceData.risk}
+                                  {getRiskLabel(choiceData.risk, locale)}
                                   {choiceData.originalRisk && choiceData.originalRisk !== choiceData.risk && (
-                                    <span className="text-green-400 ml-1" title="Giảm rủi ro nhờ hỗ trợ">⬇</span>
+                                    <span className="text-green-400 ml-1" title={t('choices.riskReducedBySupport')}>⬇</span>
                                   )}
                                   {choiceData.isSkillBoosted && (
                                     <span 
                                       className="text-blue-300 ml-1 font-bold" 
-                                      title={`Kỹ năng ${choiceData.skillName} đã giảm rủi ro`}
+                                      title={t('choices.skillReducedRisk', { skill: choiceData.skillName ?? '' })}
                                     >
                                       ✦
                                     </span>
@@ -551,7 +550,7 @@ export const FloatingChoicePanel: React.FC<FloatingChoicePanelProps> = memo(({
                           {/* 3. Phần thưởng */}
                           {choiceData.rewards && (
                             <div className="text-sm">
-                              <span className="font-bold bg-gradient-to-r from-[#F4D746] via-[#E0C335] to-[#F4D746] bg-clip-text text-transparent">Phần thưởng:</span>
+                              <span className="font-bold bg-gradient-to-r from-[#F4D746] via-[#E0C335] to-[#F4D746] bg-clip-text text-transparent">{t('choices.rewards')}</span>
                               <span className="text-gray-300 ml-1">
                                 {choiceData.rewards}
                               </span>
@@ -570,11 +569,10 @@ export const FloatingChoicePanel: React.FC<FloatingChoicePanelProps> = memo(({
           <div className="border-t border-white/10 p-4">
             <div className="mb-3">
               <p className="text-sm text-white/70 font-medium mb-1">
-                💭 Hành động tùy ý
+                {t('choices.customAction')}
               </p>
               <p className="text-xs text-white/50">
-                Nhập hành động của riêng bạn (thêm "nsfw" ở cuối để có nội dung
-                18+)
+                {t('choices.customActionHint')}
               </p>
             </div>
             <div className="flex gap-2">
@@ -586,8 +584,8 @@ export const FloatingChoicePanel: React.FC<FloatingChoicePanelProps> = memo(({
                 disabled={isLoading || !isAiReady || isCustomActionLocked}
                 placeholder={
                   isCustomActionLocked
-                    ? "Hành động tùy ý đã bị khóa bởi một luật lệ"
-                    : "Ví dụ: nhặt hòn đá lên..."
+                    ? t('choices.customActionLocked')
+                    : t('choices.customActionPlaceholder')
                 }
                 className="flex-1 bg-white/10 backdrop-blur-sm border border-white/20 rounded-xl py-2 px-3 text-white placeholder-white/50 focus:outline-none focus:border-cyan-400/50 focus:ring-2 focus:ring-cyan-400/20 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
               />
@@ -595,7 +593,7 @@ export const FloatingChoicePanel: React.FC<FloatingChoicePanelProps> = memo(({
                 onClick={handleSuggestAction}
                 disabled={isLoading || !isAiReady}
                 className="px-3 py-2 bg-gradient-to-r from-yellow-500/30 to-orange-500/30 hover:from-yellow-500/40 hover:to-orange-500/40 border border-yellow-400/40 rounded-xl text-yellow-200 hover:text-white transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed backdrop-blur-sm"
-                aria-label="Gợi ý hành động"
+                aria-label={t('choices.suggestAction')}
               >
                 <SparklesIcon className="w-4 h-4" />
               </button>
@@ -608,9 +606,9 @@ export const FloatingChoicePanel: React.FC<FloatingChoicePanelProps> = memo(({
                   isHighTokenCooldown
                 }
                 className="px-4 py-2 bg-gradient-to-r from-cyan-500/30 to-blue-500/30 hover:from-cyan-500/40 hover:to-blue-500/40 border border-cyan-400/40 rounded-xl text-white font-semibold transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed backdrop-blur-sm text-sm"
-                aria-label="Gửi hành động"
+                aria-label={t('choices.sendAction')}
               >
-                {isHighTokenCooldown ? `Chờ ${cooldownTimeLeft}s` : "Gửi"}
+                {isHighTokenCooldown ? t('choices.cooldown', { seconds: cooldownTimeLeft }) : t('choices.send')}
               </button>
             </div>
             </div>
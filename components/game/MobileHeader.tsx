@@ -1,12 +1,18 @@
 
 import React from 'react';
-import { MenuIcon } from '../Icons.tsx';
+import { MenuIcon, UndoIcon, RedoIcon } from '../Icons.tsx';
 import type { FormData } from '../types.ts';
+import { useI18n } from '../hooks/useI18n';
 
 export const MobileHeader: React.FC<{
     onOpenSidebar: () => void;
     worldData: Partial<FormData>;
-}> = ({ onOpenSidebar, worldData }) => {
+    onUndo: () => void;
+    onRedo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+}> = ({ onOpenSidebar, worldData, onUndo, onRedo, canUndo, canRedo }) => {
+    const [, { t }] = useI18n();
     return (
         <div className="flex md:hidden justify-between items-center bg-white/70 dark:bg-[#252945]/80 backdrop-blur-sm p-3 rounded-b-lg shadow-lg flex-shrink-0 border-b border-slate-300/20 dark:border-slate-600/20">
             <button onClick={onOpenSidebar} className="p-2 -ml-2">
@@ -15,7 +21,14 @@ export const MobileHeader: React.FC<{
             <h1 className="text-lg font-bold text-purple-700 dark:text-purple-300 uppercase tracking-wider truncate mx-2">
                 {worldData.storyName || "MANH MUONG TAM QUỐC"}
             </h1>
-             <div className="w-6 h-6 p-2 -mr-2" />
+            <div className="flex items-center -mr-2">
+                <button onClick={onUndo} disabled={!canUndo} className="p-2 disabled:opacity-40" title={t('header.undo')}>
+                    <UndoIcon className="w-5 h-5" />
+                </button>
+                <button onClick={onRedo} disabled={!canRedo} className="p-2 disabled:opacity-40" title={t('header.redo')}>
+                    <RedoIcon className="w-5 h-5" />
+                </button>
+            </div>
         </div>
     );
 };
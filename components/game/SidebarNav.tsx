@@ -4,6 +4,7 @@ import React from 'react';
 import { HomeIcon, ArchiveIcon, BrainIcon, MemoryIcon, RefreshIcon, DocumentAddIcon, CrossIcon, UserIcon, ExclamationIcon, SettingsIcon } from '../Icons.tsx';
 import * as GameIcons from '../GameIcons.tsx';
 import type { GameHistoryEntry } from '../types.ts';
+import { useI18n } from '../hooks/useI18n';
 
 interface SidebarNavProps {
     isOpen: boolean;
@@ -12,6 +13,8 @@ interface SidebarNavProps {
     onSettings: () => void;
     onSave: () => void;
     onExportWorldSetup: () => void;
+    onTimeline: () => void;
+    onSaveLibrary: () => void;
     onMap: () => void;
     onRules: () => void;
     onRegexManager: () => void;
@@ -19,6 +22,8 @@ interface SidebarNavProps {
     onMemory: () => void;
     onRestart: () => void;
     onAdmin: () => void;
+    onPromptInspector: () => void;
+    onPromptTemplates: () => void;
     onPlayerInfo: () => void;
     onParty: () => void;
     onQuests: () => void;
@@ -40,10 +45,11 @@ interface SidebarNavProps {
 }
 
 export const SidebarNav: React.FC<SidebarNavProps> = ({ 
-    isOpen, onClose, onHome, onSettings, onSave, onExportWorldSetup, onMap, onRules, onRegexManager, onKnowledge, onMemory, onRestart, 
-    onAdmin, onPlayerInfo, onParty, onQuests, currentTurnTokens, totalTokens,
+    isOpen, onClose, onHome, onSettings, onSave, onExportWorldSetup, onTimeline, onSaveLibrary, onMap, onRules, onRegexManager, onKnowledge, onMemory, onRestart, 
+    onAdmin, onPromptInspector, onPromptTemplates, onPlayerInfo, onParty, onQuests, currentTurnTokens, totalTokens,
     historyStats, compressedSegments, gameHistory, cleanupStats, onManualCleanup
 }) => {
+    const [, { t }] = useI18n();
     const handleNavigation = (action: () => void) => {
         action();
         onClose();
@@ -54,35 +60,39 @@ export const SidebarNav: React.FC<SidebarNavProps> = ({
             <div className={`fixed inset-0 bg-black/60 z-[80] transition-opacity md:hidden ${isOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'}`} onClick={onClose}></div>
             <div className={`fixed top-0 left-0 bottom-0 w-64 bg-slate-100 dark:bg-[#1f2238] shadow-2xl z-[90] p-4 flex flex-col transform transition-transform md:hidden ${isOpen ? 'translate-x-0' : '-translate-x-full'}`}>
                 <div className="flex justify-between items-center mb-4 flex-shrink-0">
-                    <h3 className="text-lg font-bold text-purple-600 dark:text-purple-400">Menu</h3>
+                    <h3 className="text-lg font-bold text-purple-600 dark:text-purple-400">{t('sidebar.title')}</h3>
                     <button onClick={onClose}><CrossIcon className="w-6 h-6"/></button>
                 </div>
                 <nav className="flex-grow overflow-y-auto pr-2 flex flex-col space-y-3">
-                    <button onClick={() => handleNavigation(onHome)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded"><HomeIcon className="w-5 h-5 mr-3" /> Home</button>
-                    <button onClick={() => handleNavigation(onPlayerInfo)} className="flex items-center text-left w-full px-3 py-2 bg-green-600 dark:bg-green-700 hover:bg-green-500 dark:hover:bg-green-600 rounded text-white">👤 <span className="ml-3">Nhân Vật</span></button>
-                    <button onClick={() => handleNavigation(onParty)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded">🤝 <span className="ml-3">Đồng Đội</span></button>
-                    <button onClick={() => handleNavigation(onQuests)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded">📋 <span className="ml-3">Nhiệm Vụ</span></button>
-                    <button onClick={() => handleNavigation(onSettings)} className="flex items-center text-left w-full px-3 py-2 bg-blue-600 dark:bg-blue-700 hover:bg-blue-500 dark:hover:bg-blue-600 rounded text-white">⚙️ <span className="ml-3">Cài đặt</span></button>
-                    <button onClick={() => handleNavigation(onSave)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded"><ArchiveIcon className="w-5 h-5 mr-3" /> Lưu Trữ</button>
-                    <button onClick={() => handleNavigation(onExportWorldSetup)} className="flex items-center text-left w-full px-3 py-2 bg-blue-600 dark:bg-blue-700 hover:bg-blue-500 dark:hover:bg-blue-600 rounded text-white">📤 <span className="ml-3">Xuất WorldSetup</span></button>
-                    <button onClick={() => handleNavigation(onMap)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded"><GameIcons.MapPinIcon className="w-5 h-5 mr-3" /> Bản Đồ</button>
-                    <button onClick={() => handleNavigation(onRules)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded"><DocumentAddIcon className="w-5 h-5 mr-3" /> Nạp Tri Thức</button>
-                    <button onClick={() => handleNavigation(onRegexManager)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded"><SettingsIcon className="w-5 h-5 mr-3" /> Regex Manager</button>
-                    <button onClick={() => handleNavigation(onKnowledge)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded"><BrainIcon className="w-5 h-5 mr-3" /> Tri Thức <span className="ml-auto text-xs text-slate-400">K</span></button>
-                    <button onClick={() => handleNavigation(onMemory)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded"><MemoryIcon className="w-5 h-5 mr-3" /> Ký Ức</button>
-                    <button onClick={() => handleNavigation(onAdmin)} className="flex items-center text-left w-full px-3 py-2 bg-purple-600/80 hover:bg-purple-500 rounded text-white">⚙️ <span className="ml-3">Admin Panel</span></button>
-                    <button onClick={() => handleNavigation(onRestart)} className="flex items-center text-left w-full px-3 py-2 bg-red-600/80 hover:bg-red-500 rounded text-white"><RefreshIcon className="w-5 h-5 mr-3" /> Bắt Đầu Lại</button>
+                    <button onClick={() => handleNavigation(onHome)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded"><HomeIcon className="w-5 h-5 mr-3" /> {t('sidebar.home')}</button>
+                    <button onClick={() => handleNavigation(onPlayerInfo)} className="flex items-center text-left w-full px-3 py-2 bg-green-600 dark:bg-green-700 hover:bg-green-500 dark:hover:bg-green-600 rounded text-white">👤 <span className="ml-3">{t('sidebar.character')}</span></button>
+                    <button onClick={() => handleNavigation(onParty)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded">🤝 <span className="ml-3">{t('sidebar.party')}</span></button>
+                    <button onClick={() => handleNavigation(onQuests)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded">📋 <span className="ml-3">{t('sidebar.quests')}</span></button>
+                    <button onClick={() => handleNavigation(onSettings)} className="flex items-center text-left w-full px-3 py-2 bg-blue-600 dark:bg-blue-700 hover:bg-blue-500 dark:hover:bg-blue-600 rounded text-white">⚙️ <span className="ml-3">{t('sidebar.settings')}</span></button>
+                    <button onClick={() => handleNavigation(onSave)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded"><ArchiveIcon className="w-5 h-5 mr-3" /> {t('sidebar.save')}</button>
+                    <button onClick={() => handleNavigation(onSaveLibrary)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded">📚 <span className="ml-3">{t('sidebar.saveLibrary')}</span></button>
+                    <button onClick={() => handleNavigation(onExportWorldSetup)} className="flex items-center text-left w-full px-3 py-2 bg-blue-600 dark:bg-blue-700 hover:bg-blue-500 dark:hover:bg-blue-600 rounded text-white">📤 <span className="ml-3">{t('sidebar.exportWorldSetup')}</span></button>
+                    <button onClick={() => handleNavigation(onTimeline)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded">🌿 <span className="ml-3">{t('sidebar.timeline')}</span></button>
+                    <button onClick={() => handleNavigation(onMap)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded"><GameIcons.MapPinIcon className="w-5 h-5 mr-3" /> {t('sidebar.map')}</button>
+                    <button onClick={() => handleNavigation(onRules)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded"><DocumentAddIcon className="w-5 h-5 mr-3" /> {t('sidebar.loadKnowledge')}</button>
+                    <button onClick={() => handleNavigation(onRegexManager)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded"><SettingsIcon className="w-5 h-5 mr-3" /> {t('sidebar.regexManager')}</button>
+                    <button onClick={() => handleNavigation(onKnowledge)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded"><BrainIcon className="w-5 h-5 mr-3" /> {t('sidebar.knowledge')} <span className="ml-auto text-xs text-slate-400">K</span></button>
+                    <button onClick={() => handleNavigation(onMemory)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded"><MemoryIcon className="w-5 h-5 mr-3" /> {t('sidebar.memory')}</button>
+                    <button onClick={() => handleNavigation(onAdmin)} className="flex items-center text-left w-full px-3 py-2 bg-purple-600/80 hover:bg-purple-500 rounded text-white">⚙️ <span className="ml-3">{t('sidebar.admin')}</span></button>
+                    <button onClick={() => handleNavigation(onPromptInspector)} className="flex items-center text-left w-full px-3 py-2 bg-purple-600/80 hover:bg-purple-500 rounded text-white">🔬 <span className="ml-3">{t('sidebar.promptInspector')}</span></button>
+                    <button onClick={() => handleNavigation(onPromptTemplates)} className="flex items-center text-left w-full px-3 py-2 bg-purple-600/80 hover:bg-purple-500 rounded text-white">📝 <span className="ml-3">{t('sidebar.promptTemplates')}</span></button>
+                    <button onClick={() => handleNavigation(onRestart)} className="flex items-center text-left w-full px-3 py-2 bg-red-600/80 hover:bg-red-500 rounded text-white"><RefreshIcon className="w-5 h-5 mr-3" /> {t('sidebar.restart')}</button>
                 </nav>
                 <div className="mt-2 pt-2 border-t border-slate-400 dark:border-slate-600">
     <div className="text-xs text-slate-500 dark:text-slate-400 space-y-1">
         <div className="flex justify-between">
-            <span>Cleanup:</span>
+            <span>{t('sidebar.cleanup')}</span>
             <span className="font-mono text-green-400">{cleanupStats.totalCleanupsPerformed}x</span>
         </div>
         
         {cleanupStats.totalTokensSavedFromCleanup > 0 && (
             <div className="flex justify-between">
-                <span>Saved:</span>
+                <span>{t('sidebar.saved')}</span>
                 <span className="font-mono text-green-400">
                     {Math.round(cleanupStats.totalTokensSavedFromCleanup / 1000)}k
                 </span>
@@ -94,14 +104,14 @@ export const SidebarNav: React.FC<SidebarNavProps> = ({
                 onClick={onManualCleanup}
                 className="w-full mt-1 px-2 py-1 bg-orange-600 hover:bg-orange-500 text-white text-xs rounded"
             >
-                🧹 Manual Cleanup
+                {t('sidebar.manualCleanup')}
             </button>
         )}
     </div>
 </div>
                 <div className="flex-shrink-0 text-center space-y-2 mt-auto pt-4 border-t border-slate-300 dark:border-slate-700">
                     <div className="flex justify-between items-center text-xs">
-                        <span className="text-slate-500 dark:text-slate-400">Lượt:</span>
+                        <span className="text-slate-500 dark:text-slate-400">{t('sidebar.turnTokens')}</span>
                         <span className={`font-mono font-semibold ${
                             currentTurnTokens > 80000 ? 'text-red-400' :
                             currentTurnTokens > 70000 ? 'text-orange-400' :
@@ -124,21 +134,21 @@ export const SidebarNav: React.FC<SidebarNavProps> = ({
                     <div className="mt-2 pt-2 border-t border-slate-400 dark:border-slate-600">
                         <div className="text-xs text-slate-500 dark:text-slate-400 space-y-1">
                             <div className="flex justify-between">
-                                <span>History:</span>
-                                <span className="font-mono">{gameHistory.length} entries</span>
+                                <span>{t('sidebar.history')}</span>
+                                <span className="font-mono">{t('sidebar.historyEntries', { count: gameHistory.length })}</span>
                             </div>
                             
                             {compressedSegments > 0 && (
                                 <>
                                     <div className="flex justify-between">
-                                        <span>Compressed:</span>
-                                        <span className="font-mono text-green-400">{compressedSegments} segments</span>
+                                        <span>{t('sidebar.compressed')}</span>
+                                        <span className="font-mono text-green-400">{t('sidebar.compressedSegments', { count: compressedSegments })}</span>
                                     </div>
                                     
                                     <div className="flex justify-between">
-                                        <span>Saved:</span>
+                                        <span>{t('sidebar.saved')}</span>
                                         <span className="font-mono text-green-400">
-                                            {Math.round(historyStats.totalTokensSaved / 1000)}k tokens
+                                            {t('sidebar.savedTokens', { count: Math.round(historyStats.totalTokensSaved / 1000) })}
                                         </span>
                                     </div>
                                 </>
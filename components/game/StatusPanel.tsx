@@ -4,7 +4,10 @@ import { OptimizedInteractiveText } from '../OptimizedInteractiveText';
 import { getStatusColors, getIconForEntity } from "../utils.ts";
 import { ConfirmationModal } from '../ConfirmationModal';
 import { UserIcon } from '@heroicons/react/24/outline';
-import type { Entity, Status, Quest, KnownEntities, EntityType, NPCPresent } from '../types';
+import type { Entity, Status, Quest, KnownEntities, EntityType, NPCPresent, TagJournalEntry, TagStateChange, ReferenceToolCall } from '../types';
+import { hasTranslation } from '../i18n';
+import { useI18n } from '../hooks/useI18n';
+import { findMasteryTierInText, type MasteryTier } from '../utils/gameEnums';
 
 // Helper function to normalize skill names (remove mastery level in parentheses)
 const normalizeName = (raw: string): string => {
@@ -15,42 +18,48 @@ const normalizeName = (raw: string): string => {
         .trim();
 };
 
+const MASTERY_COLORS: Record<MasteryTier, { border: string; hover: string; text: string }> = {
+    novice: {
+        border: 'border-blue-300/60',
+        hover: 'hover:bg-blue-400/20 hover:border-blue-400/40',
+        text: 'hover:text-blue-200'
+    },
+    intermediate: {
+        border: 'border-green-300/60',
+        hover: 'hover:bg-green-400/20 hover:border-green-400/40', 
+        text: 'hover:text-green-200'
+    },
+    advanced: {
+        border: 'border-yellow-300/60',
+        hover: 'hover:bg-yellow-400/20 hover:border-yellow-400/40',
+        text: 'hover:text-yellow-200'
+    },
+    master: {
+        border: 'border-orange-300/60',
+        hover: 'hover:bg-orange-400/20 hover:border-orange-400/40',
+        text: 'hover:text-orange-200'
+    },
+    perfect: {
+        border: 'border-red-400/60',
+        hover: 'hover:bg-red-500/20 hover:border-red-500/40',
+        text: 'hover:text-red-200'
+    }
+};
+
+// Older saves use these words for mastery levels too
+const MASTERY_SYNONYMS: Array<[string, MasteryTier]> = [
+    ['sơ khai', 'novice'],
+    ['cải tiến', 'advanced'],
+    ['hoàn thiện', 'master'],
+    ['hoàn mãn', 'perfect']
+];
+
 // Mastery level color detection function
 const getMasteryColors = (skillName: string) => {
     const skill = skillName.toLowerCase();
-    
-    // Check for mastery levels in Vietnamese
-    if (skill.includes('sơ cấp') || skill.includes('sơ khai')) {
-        return {
-            border: 'border-blue-300/60',
-            hover: 'hover:bg-blue-400/20 hover:border-blue-400/40',
-            text: 'hover:text-blue-200'
-        };
-    } else if (skill.includes('trung cấp')) {
-        return {
-            border: 'border-green-300/60',
-            hover: 'hover:bg-green-400/20 hover:border-green-400/40', 
-            text: 'hover:text-green-200'
-        };
-    } else if (skill.includes('cao cấp') || skill.includes('cải tiến')) {
-        return {
-            border: 'border-yellow-300/60',
-            hover: 'hover:bg-yellow-400/20 hover:border-yellow-400/40',
-            text: 'hover:text-yellow-200'
-        };
-    } else if (skill.includes('đại thành') || skill.includes('hoàn thiện')) {
-        return {
-            border: 'border-orange-300/60',
-            hover: 'hover:bg-orange-400/20 hover:border-orange-400/40',
-            text: 'hover:text-orange-200'
-        };
-    } else if (skill.includes('viên mãn') || skill.includes('đại viên mãn') || skill.includes('hoàn mãn')) {
-        return {
-            border: 'border-red-400/60',
-            hover: 'hover:bg-red-500/20 hover:border-red-500/40',
-            text: 'hover:text-red-200'
-        };
-    }
+    const tier = findMasteryTierInText(skillName)?.tier
+        ?? MASTERY_SYNONYMS.find(([word]) => skill.includes(word))?.[1];
+    if (tier) return MASTERY_COLORS[tier];
     
     // Default color if no mastery level detected
     return {
@@ -72,9 +81,19 @@ interface StatusPanelProps {
     onStatusClick: (status: Status) => void;
     onDeleteStatus: (statusName: string, entityName: string) => void;
     onDiscardItem?: (item: Entity) => void;
+    tagJournal?: TagJournalEntry[];
+    onRevertTagChange?: (entryId: string, changeIndex?: number) => void;
+    referenceToolLog?: ReferenceToolCall[];
     className?: string;
 }
 
+// Short display form of a journal value
+const formatChangeValue = (value: any): string => {
+    if (value === undefined || value === null) return '∅';
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return text.length > 60 ? `${text.substring(0, 57)}...` : text;
+};
+
 interface TabProps {
     id: string;
     label: string;
@@ -94,14 +113,24 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
     onStatusClick,
     onDeleteStatus,
     onDiscardItem,
+    tagJournal = [],
+    onRevertTagChange,
+    referenceToolLog = [],
     className = ''
 }) => {
-    const [activeTab, setActiveTab] = useState<'character' | 'party' | 'npcs' | 'quests'>('character');
+    const [activeTab, setActiveTab] = useState<'character' | 'party' | 'npcs' | 'quests' | 'changes' | 'lookups'>('character');
     const [expandedQuests, setExpandedQuests] = useState<Set<number>>(
         new Set(quests.map((_, index) => index).filter(index => quests[index].status !== 'completed'))
     );
     const [itemToDiscard, setItemToDiscard] = useState<Entity | null>(null);
     const [statusToDelete, setStatusToDelete] = useState<{status: Status, entityName: string} | null>(null);
+    const [, { t }] = useI18n();
+
+    // Journal slice names, e.g. 'knownEntities' -> 'Thực thể'
+    const getSliceLabel = (slice: string): string => {
+        const key = `statusPanel.slice.${slice}`;
+        return hasTranslation(key) ? t(key) : slice;
+    };
     const [showDiscardConfirm, setShowDiscardConfirm] = useState(false);
     const [showDeleteStatusConfirm, setShowDeleteStatusConfirm] = useState(false);
     const [avatarImage, setAvatarImage] = useState<string | null>(null);
@@ -259,29 +288,41 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
     const tabs: TabProps[] = useMemo(() => [
         {
             id: 'character',
-            label: 'Nhân Vật',
+            label: t('statusPanel.tab.character'),
             icon: '👤',
             count: pcStatuses.length + playerInventory.length
         },
         {
             id: 'party',
-            label: 'Đồng Đội',
+            label: t('statusPanel.tab.party'),
             icon: '🤝',
             count: displayParty.length
         },
         {
             id: 'npcs',
-            label: 'NPC Hiện Diện',
+            label: t('statusPanel.tab.npcs'),
             icon: '👥',
             count: presentNPCs.length
         },
         {
             id: 'quests',
-            label: 'Nhiệm Vụ',
+            label: t('statusPanel.tab.quests'),
             icon: '📋',
             count: quests.filter(q => q.status !== 'completed').length
-        }
-    ], [pcStatuses.length, playerInventory.length, displayParty.length, presentNPCs.length, quests]);
+        },
+        {
+            id: 'changes',
+            label: t('statusPanel.tab.changes'),
+            icon: '📝',
+            count: tagJournal.length
+        },
+        ...(referenceToolLog.length > 0 ? [{
+            id: 'lookups',
+            label: t('statusPanel.tab.lookups'),
+            icon: '🔎',
+            count: referenceToolLog.length
+        }] : [])
+    ], [pcStatuses.length, playerInventory.length, displayParty.length, presentNPCs.length, quests, tagJournal.length, referenceToolLog.length, t]);
 
     // Helper function to get fame color
     const getFameColor = (fame: string): string => {
@@ -313,7 +354,7 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
             return (
                 <div className="text-center py-8">
                     <div className="text-4xl mb-4">👤</div>
-                    <p className="text-white/60">Không có thông tin nhân vật</p>
+                    <p className="text-white/60">{t('statusPanel.noCharacter')}</p>
                 </div>
             );
         }
@@ -329,7 +370,7 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                         accept="image/*"
                         onChange={handleAvatarUpload}
                         className="hidden"
-                        aria-label="Tải lên ảnh đại diện"
+                        aria-label={t('statusPanel.uploadAvatar')}
                     />
                     
                     <div className="flex items-center justify-between mb-3">
@@ -341,8 +382,8 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                                 onKeyDown={handleAvatarKeyDown}
                                 tabIndex={0}
                                 role="button"
-                                aria-label="Nhấn để thay đổi ảnh đại diện"
-                                title="Nhấn để tải lên ảnh đại diện"
+                                aria-label={t('statusPanel.changeAvatar')}
+                                title={t('statusPanel.uploadAvatarHint')}
                             >
                                 {/* Avatar Background */}
                                 <div 
@@ -390,21 +431,21 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                                     onClick={() => onEntityClick(pcEntity.name)}>
                                     {pcEntity.name}
                                 </h3>
-                                <p className="text-sm text-white/60">Nhân vật chính</p>
+                                <p className="text-sm text-white/60">{t('statusPanel.protagonist')}</p>
                             </div>
                         </div>
                     </div>
 
                     <div className="space-y-2 text-sm">
-                        <p><strong className="text-white/90 w-20 inline-block">Tên:</strong> <span className="text-white/80">{pcEntity.name}</span></p>
-                        {pcEntity.gender && <p><strong className="text-white/90 w-20 inline-block">Giới tính:</strong> <span className="text-white/80">{pcEntity.gender}</span></p>}
-                        {pcEntity.age && <p><strong className="text-white/90 w-20 inline-block">Tuổi:</strong> <span className="text-white/80">{pcEntity.age}</span></p>}
-                        {pcEntity.location && <p><strong className="text-white/90 w-20 inline-block">Vị trí:</strong> <span className="text-white/80">{pcEntity.location}</span></p>}
+                        <p><strong className="text-white/90 w-20 inline-block">{t('statusPanel.name')}</strong> <span className="text-white/80">{pcEntity.name}</span></p>
+                        {pcEntity.gender && <p><strong className="text-white/90 w-20 inline-block">{t('statusPanel.gender')}</strong> <span className="text-white/80">{pcEntity.gender}</span></p>}
+                        {pcEntity.age && <p><strong className="text-white/90 w-20 inline-block">{t('statusPanel.age')}</strong> <span className="text-white/80">{pcEntity.age}</span></p>}
+                        {pcEntity.location && <p><strong className="text-white/90 w-20 inline-block">{t('statusPanel.location')}</strong> <span className="text-white/80">{pcEntity.location}</span></p>}
                         
                         {/* Enhanced Appearance */}
                         {pcEntity.appearance && (
                             <div>
-                                <strong className="text-white/90">Dung mạo:</strong>
+                                <strong className="text-white/90">{t('statusPanel.appearance')}</strong>
                                 <p className="pl-2 mt-1 text-sm text-white/70">{pcEntity.appearance}</p>
                             </div>
                         )}
@@ -412,7 +453,7 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                         {/* Enhanced Realm with color */}
                         {pcEntity.realm && (
                             <p>
-                                <strong className="text-white/90 w-20 inline-block">Thực lực:</strong> 
+                                <strong className="text-white/90 w-20 inline-block">{t('statusPanel.realm')}</strong> 
                                 <span className="text-cyan-300 font-semibold">{pcEntity.realm}</span>
                             </p>
                         )}
@@ -420,25 +461,25 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                         {/* Experience Points */}
                         {pcEntity.currentExp !== undefined && (
                             <p>
-                                <strong className="text-white/90 w-20 inline-block">Kinh nghiệm:</strong> 
+                                <strong className="text-white/90 w-20 inline-block">{t('statusPanel.exp')}</strong> 
                                 <span className="text-blue-300 font-semibold">{formatNumber(pcEntity.currentExp)}</span>
                             </p>
                         )}
                         
                         {/* Enhanced Fame with color coding */}
                         <div>
-                            <strong className="text-white/90">Danh vọng:</strong>
+                            <strong className="text-white/90">{t('statusPanel.fame')}</strong>
                             {pcEntity.fame ? (
                                 <span className={`ml-2 ${getFameColor(pcEntity.fame)}`}>{pcEntity.fame}</span>
                             ) : (
-                                <span className="ml-2 text-white/50 italic">Chưa có danh tiếng</span>
+                                <span className="ml-2 text-white/50 italic">{t('statusPanel.noFame')}</span>
                             )}
                         </div>
                         
                         {/* Personality */}
                         {pcEntity.personality && (
                             <div>
-                                <strong className="text-white/90">Tính cách (Bề ngoài):</strong>
+                                <strong className="text-white/90">{t('statusPanel.personalityOuter')}</strong>
                                 <p className="pl-2 mt-1 text-sm text-white/70">{pcEntity.personality}</p>
                             </div>
                         )}
@@ -446,7 +487,7 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                         {/* Core Personality (MBTI) */}
                         {pcEntity.personalityMbti && (
                             <div>
-                                <strong className="text-white/90">Tính cách (Cốt lõi):</strong>
+                                <strong className="text-white/90">{t('statusPanel.personalityCore')}</strong>
                                 <p className="pl-2 mt-1 text-sm text-white/70">
                                     <span className="text-white/80">{pcEntity.personalityMbti}</span>
                                 </p>
@@ -456,7 +497,7 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                         {/* Motivation */}
                         {pcEntity.motivation && (
                             <div>
-                                <strong className="text-white/90">Động cơ:</strong>
+                                <strong className="text-white/90">{t('statusPanel.motivation')}</strong>
                                 <p className="pl-2 mt-1 text-sm text-white/70">{pcEntity.motivation}</p>
                             </div>
                         )}
@@ -464,7 +505,7 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                         {/* Character Description */}
                         {pcEntity.description && (
                             <div>
-                                <strong className="text-white/90">Mô tả:</strong>
+                                <strong className="text-white/90">{t('statusPanel.description')}</strong>
                                 <div className="pl-2 mt-1">
                                     <OptimizedInteractiveText
                                         text={pcEntity.description}
@@ -480,13 +521,13 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                 {/* Skills & Learned Skills */}
                 <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-4">
                     <h4 className="text-sm font-semibold text-white/80 mb-3 flex items-center gap-2">
-                        🛡️ Kỹ năng & Công pháp
+                        {t('statusPanel.skillsTitle')}
                     </h4>
                     
                     {/* Learned Skills */}
                     {resolveLearnedSkills.length > 0 ? (
                         <div className="mb-4">
-                            <p className="text-xs text-white/60 mb-2">Kỹ năng đã học:</p>
+                            <p className="text-xs text-white/60 mb-2">{t('statusPanel.learnedSkills')}</p>
                             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
                                 {resolveLearnedSkills.map((skill, index) => {
                                     const masteryColors = getMasteryColors(skill);
@@ -505,7 +546,7 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                     {/* Regular Skills */}
                     {pcEntity.skills && pcEntity.skills.length > 0 && (
                         <div>
-                            <p className="text-xs text-white/60 mb-2">Kỹ năng khác:</p>
+                            <p className="text-xs text-white/60 mb-2">{t('statusPanel.otherSkills')}</p>
                             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
                                 {pcEntity.skills.map((skill, index) => {
                                     const masteryColors = getMasteryColors(skill);
@@ -523,14 +564,14 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
 
                     {resolveLearnedSkills.length === 0 && 
                      (!pcEntity.skills || pcEntity.skills.length === 0) && (
-                        <p className="text-sm text-white/60 italic">Chưa học được kỹ năng nào.</p>
+                        <p className="text-sm text-white/60 italic">{t('statusPanel.noSkills')}</p>
                     )}
                 </div>
 
 {/* Character Statuses */}
 <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-4">
   <h4 className="text-sm font-semibold text-white/80 mb-3 flex items-center gap-2">
-    ⚡ Trạng thái hiện tại ({pcStatuses.length})
+    {t('statusPanel.statusesTitle', { count: pcStatuses.length })}
   </h4>
   {pcStatuses.length > 0 ? (
     <div className="space-y-2">
@@ -554,7 +595,7 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                   <p className="text-xs text-white/60">{status.effects}</p>
                 )}
                 {status.turns !== undefined && (
-                  <p className="text-xs text-blue-300 mt-1">Còn lại: {status.turns} lượt</p>
+                  <p className="text-xs text-blue-300 mt-1">{t('statusPanel.turnsLeft', { turns: status.turns })}</p>
                 )}
                 {status.duration && status.duration !== 'permanent' && (
                   <p className="text-xs text-blue-300 mt-1">({status.duration})</p>
@@ -567,7 +608,7 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                   setShowDeleteStatusConfirm(true);
                 }}
                 className="opacity-0 group-hover:opacity-100 text-red-400 hover:text-red-300 hover:scale-110 transition-all ml-2 duration-200"
-                title="Xóa trạng thái"
+                title={t('statusPanel.deleteStatus')}
               >
                 ✕
               </button>
@@ -579,7 +620,7 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
   ) : (
     <div className="p-3 bg-white/5 rounded-lg border border-white/10">
       <p className="text-sm text-white/60 italic text-center">
-        Đang trong tình trạng bình thường
+        {t('statusPanel.noStatuses')}
       </p>
     </div>
   )}
@@ -590,7 +631,7 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                 {playerInventory.length > 0 && (
                     <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-4">
                         <h4 className="text-sm font-semibold text-white/80 mb-3 flex items-center gap-2">
-                            🎒 Túi đồ ({playerInventory.length})
+                            {t('statusPanel.inventoryTitle', { count: playerInventory.length })}
                         </h4>
                         <div className="grid grid-cols-1 gap-2">
                             {playerInventory.map((item, index) => (
@@ -616,7 +657,7 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                                                 }}
                                                 className="px-3 py-1 text-xs font-medium border border-red-400/60 bg-red-500/20 text-red-300 rounded-lg hover:bg-red-500/30 hover:border-red-400/80 hover:scale-105 transition-all duration-200"
                                             >
-                                                Vứt bỏ
+                                                {t('statusPanel.discard')}
                                             </button>
                                         )}
                                     </div>
@@ -635,7 +676,7 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
             return (
                 <div className="text-center py-8">
                     <div className="text-4xl mb-4">🤝</div>
-                    <p className="text-white/60">Chưa có đồng đội nào</p>
+                    <p className="text-white/60">{t('statusPanel.noParty')}</p>
                 </div>
             );
         }
@@ -669,7 +710,7 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
 
                         {member.skills && member.skills.length > 0 && (
                             <div>
-                                <p className="text-xs text-white/60 mb-2">Kỹ năng:</p>
+                                <p className="text-xs text-white/60 mb-2">{t('statusPanel.skills')}</p>
                                 <div className="flex flex-wrap gap-1">
                                     {member.skills.map((skill, skillIndex) => (
                                         <span key={skillIndex} 
@@ -695,9 +736,9 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
             return (
                 <div className="text-center py-8">
                     <div className="text-4xl mb-4">👥</div>
-                    <p className="text-white/60">Không có NPC nào hiện diện</p>
+                    <p className="text-white/60">{t('statusPanel.noNpcs')}</p>
                     <p className="text-xs text-white/40 mt-2">
-                        NPCs sẽ được tự động tạo từ AI khi có trong story
+                        {t('statusPanel.npcsHint')}
                     </p>
                 </div>
             );
@@ -726,7 +767,7 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                                             NPC
                                             {/* Show detection source indicator */}
                                             {npc.innerThoughts && !knownEntities[npc.name] && (
-                                                <span className="text-xs bg-blue-500/30 text-blue-200 px-1 py-0.5 rounded" title="AI tạo từ story">
+                                                <span className="text-xs bg-blue-500/30 text-blue-200 px-1 py-0.5 rounded" title={t('statusPanel.aiCreated')}>
                                                     🤖
                                                 </span>
                                             )}
@@ -744,52 +785,52 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                                     {/* Basic Info */}
                                     {npc.appearance && (
                                         <div>
-                                            <strong className="text-white/90">Dung mạo:</strong>
+                                            <strong className="text-white/90">{t('statusPanel.appearance')}</strong>
                                             <p className="mt-1 text-white/80 pl-2">{npc.appearance}</p>
                                         </div>
                                     )}
                                     
                                     {npc.age && (
                                         <p>
-                                            <strong className="text-white/90">Tuổi:</strong> 
+                                            <strong className="text-white/90">{t('statusPanel.age')}</strong> 
                                             <span className="text-white/80 ml-2">{npc.age}</span>
                                         </p>
                                     )}
                                     
                                     {npc.gender && (
                                         <p>
-                                            <strong className="text-white/90">Giới tính:</strong> 
+                                            <strong className="text-white/90">{t('statusPanel.gender')}</strong> 
                                             <span className="text-white/80 ml-2">{npc.gender}</span>
                                         </p>
                                     )}
                                     
                                     <p>
-                                        <strong className="text-white/90">Thực lực:</strong>
+                                        <strong className="text-white/90">{t('statusPanel.realm')}</strong>
                                         <span className="text-cyan-300 font-semibold ml-2">
-                                            {npc.thucLuc || npc.realm || 'Chưa xác định'}
+                                            {npc.thucLuc || npc.realm || t('statusPanel.undetermined')}
                                         </span>
                                     </p>
 
                                     {/* Relationship */}
                                     <p>
-                                        <strong className="text-white/90">Quan hệ:</strong> 
+                                        <strong className="text-white/90">{t('statusPanel.relationship')}</strong> 
                                         <span className="text-white/80 ml-2">
-                                            {npc.relationship || 'Chưa rõ'}
+                                            {npc.relationship || t('statusPanel.unknown')}
                                         </span>
                                     </p>
                                     
                                     {/* Inner thoughts */}
                                     <div className="bg-white/5 border border-white/10 rounded-lg p-3">
-                                        <strong className="text-white/90">Nội tâm:</strong>
+                                        <strong className="text-white/90">{t('statusPanel.innerThoughts')}</strong>
                                         <p className="mt-1 text-purple-300 italic pl-2">
-                                            "{npc.innerThoughts || 'Không có suy nghĩ nào được tạo.'}"
+                                            "{npc.innerThoughts || t('statusPanel.noThoughts')}"
                                         </p>
                                     </div>
                                     
                                     {/* Additional info if available */}
                                     {npc.description && (
                                         <div>
-                                            <strong className="text-white/90">Mô tả:</strong>
+                                            <strong className="text-white/90">{t('statusPanel.description')}</strong>
                                             <div className="mt-1 pl-2">
                                                 <OptimizedInteractiveText
                                                     text={npc.description}
@@ -810,12 +851,117 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
     };
 
     // Render quests content
+    // Render what the command tags of recent turns changed, newest turn first
+    const renderTurnChanges = () => {
+        if (tagJournal.length === 0) {
+            return (
+                <div className="text-center py-8">
+                    <div className="text-4xl mb-4">📝</div>
+                    <p className="text-white/60">{t('statusPanel.noChanges')}</p>
+                </div>
+            );
+        }
+
+        const turns = [...new Set(tagJournal.map(entry => entry.turn))].sort((a, b) => b - a);
+
+        const renderChange = (entry: TagJournalEntry, change: TagStateChange, changeIndex: number) => {
+            const symbol = change.before === undefined ? '+' : change.after === undefined ? '−' : '~';
+            const symbolColor = symbol === '+' ? 'text-green-400' : symbol === '−' ? 'text-red-400' : 'text-yellow-300';
+            return (
+                <li key={changeIndex} className={`flex items-start justify-between gap-2 text-sm ${change.reverted ? 'opacity-50' : ''}`}>
+                    <div className="min-w-0">
+                        <p className={change.reverted ? 'line-through' : ''}>
+                            <span className={`font-mono mr-1 ${symbolColor}`}>{symbol}</span>
+                            <span className="text-xs text-white/50 mr-1">{getSliceLabel(change.slice)}:</span>
+                            <span className="text-white/90">{change.key}</span>
+                        </p>
+                        {change.fields && change.fields.map(field => (
+                            <p key={field} className="text-xs text-white/60 ml-4 break-all">
+                                {field}: {formatChangeValue(change.before?.[field])} → {formatChangeValue(change.after?.[field])}
+                            </p>
+                        ))}
+                    </div>
+                    {onRevertTagChange && !change.reverted && (
+                        <button
+                            onClick={() => onRevertTagChange(entry.id, changeIndex)}
+                            className="flex-shrink-0 text-xs px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 text-white/80"
+                            title={t('statusPanel.revertChange')}
+                        >
+                            ↩️
+                        </button>
+                    )}
+                </li>
+            );
+        };
+
+        return (
+            <div className="space-y-4">
+                {turns.map(turn => (
+                    <div key={turn}>
+                        <p className="text-xs text-white/60 mb-2 uppercase tracking-wider">{t('common.turn', { turn })}</p>
+                        <div className="space-y-2">
+                            {tagJournal.filter(entry => entry.turn === turn).map(entry => {
+                                const pending = entry.changes.filter(change => !change.reverted).length;
+                                return (
+                                    <div key={entry.id} className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-3">
+                                        <div className="flex items-center justify-between gap-2 mb-1">
+                                            <span className="text-xs font-mono text-sky-300" title={entry.raw}>{entry.tag}</span>
+                                            {onRevertTagChange && pending > 1 && (
+                                                <button
+                                                    onClick={() => onRevertTagChange(entry.id)}
+                                                    className="text-xs px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 text-white/80"
+                                                >
+                                                    {t('statusPanel.revertAll')}
+                                                </button>
+                                            )}
+                                        </div>
+                                        <ul className="space-y-1">
+                                            {entry.changes.map((change, changeIndex) => renderChange(entry, change, changeIndex))}
+                                        </ul>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        );
+    };
+
+    // Render the reference lookups the model made, newest turn first
+    const renderReferenceLookups = () => {
+        const turns = [...new Set(referenceToolLog.map(call => call.turn))].sort((a, b) => b - a);
+
+        return (
+            <div className="space-y-4">
+                {turns.map(turn => (
+                    <div key={turn}>
+                        <p className="text-xs text-white/60 mb-2 uppercase tracking-wider">{t('common.turn', { turn })}</p>
+                        <ul className="space-y-2">
+                            {referenceToolLog.filter(call => call.turn === turn).map((call, index) => (
+                                <li key={`${call.timestamp}-${index}`} className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-3 text-sm">
+                                    <p className="font-mono text-xs text-sky-300 break-all">
+                                        <span className="text-white/40 mr-1">#{call.hop}</span>
+                                        {call.name}({Object.values(call.args).map(value => formatChangeValue(value)).join(', ')})
+                                    </p>
+                                    <p className={`text-xs mt-1 break-words ${call.success ? 'text-white/80' : 'text-red-300'}`}>
+                                        {call.success ? '→' : '✕'} {call.summary}
+                                    </p>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                ))}
+            </div>
+        );
+    };
+
     const renderQuests = () => {
         if (quests.length === 0) {
             return (
                 <div className="text-center py-8">
                     <div className="text-4xl mb-4">📋</div>
-                    <p className="text-white/60">Chưa có nhiệm vụ nào</p>
+                    <p className="text-white/60">{t('statusPanel.noQuests')}</p>
                 </div>
             );
         }
@@ -852,8 +998,8 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                                     quest.status === 'failed' ? 'bg-red-500/20 text-red-300 border-red-400' :
                                     'bg-yellow-500/20 text-yellow-300 border-yellow-400'
                                 }`}>
-                                    {quest.status === 'completed' ? 'Hoàn thành' :
-                                     quest.status === 'failed' ? 'Thất bại' : 'Đang tiến hành'}
+                                    {quest.status === 'completed' ? t('statusPanel.questCompleted') :
+                                     quest.status === 'failed' ? t('statusPanel.questFailed') : t('statusPanel.questActive')}
                                 </span>
                             </div>
 
@@ -876,7 +1022,7 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
 
                                     {quest.objectives && quest.objectives.length > 0 && (
                                         <div className="mb-3">
-                                            <p className="text-xs text-white/60 mb-2">Mục tiêu:</p>
+                                            <p className="text-xs text-white/60 mb-2">{t('statusPanel.objectives')}</p>
                                             <ul className="space-y-1">
                                                 {quest.objectives.map((objective, objIndex) => (
                                                     <li key={objIndex} className="text-sm text-white/80 flex items-start gap-2">
@@ -895,7 +1041,7 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                                     {quest.reward && (
                                         <div className="bg-gradient-to-r from-yellow-500/10 to-orange-500/10 border border-yellow-500/20 rounded-lg p-3">
                                             <p className="text-xs text-yellow-400 mb-1 flex items-center gap-1">
-                                                🏆 Phần thưởng:
+                                                {t('statusPanel.rewards')}
                                             </p>
                                             <div className="text-sm text-yellow-200">
                                                 <OptimizedInteractiveText
@@ -955,6 +1101,8 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                     {activeTab === 'party' && renderParty()}
                     {activeTab === 'npcs' && renderNPCs()}
                     {activeTab === 'quests' && renderQuests()}
+                    {activeTab === 'changes' && renderTurnChanges()}
+                    {activeTab === 'lookups' && renderReferenceLookups()}
                 </div>
             </div>
 
@@ -963,10 +1111,10 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                 isOpen={showDiscardConfirm}
                 onClose={handleDiscardCancel}
                 onConfirm={handleDiscardConfirm}
-                title="Xác nhận vứt bỏ"
-                message={`Bạn có muốn xóa vật phẩm này không?${itemToDiscard ? ` "${itemToDiscard.name}"` : ''}`}
-                confirmText="Có"
-                cancelText="Hủy bỏ"
+                title={t('statusPanel.confirmDiscard')}
+                message={t('statusPanel.confirmDiscardMessage', { name: itemToDiscard ? ` "${itemToDiscard.name}"` : '' })}
+                confirmText={t('common.yes')}
+                cancelText={t('common.cancel')}
                 confirmButtonColor="blue"
             />
 
@@ -975,10 +1123,10 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                 isOpen={showDeleteStatusConfirm}
                 onClose={handleDeleteStatusCancel}
                 onConfirm={handleDeleteStatusConfirm}
-                title="Xác nhận xóa trạng thái"
-                message={`Bạn có muốn xóa trạng thái này không?${statusToDelete ? ` "${statusToDelete.status.name}"` : ''}`}
-                confirmText="Có"
-                cancelText="Hủy bỏ"
+                title={t('statusPanel.confirmDeleteStatus')}
+                message={t('statusPanel.confirmDeleteStatusMessage', { name: statusToDelete ? ` "${statusToDelete.status.name}"` : '' })}
+                confirmText={t('common.yes')}
+                cancelText={t('common.cancel')}
                 confirmButtonColor="blue"
             />
         </div>
@@ -6,6 +6,7 @@ import { StatusPanelContent } from './StatusPanelContent';
 import { useOptimizedScroll } from '../hooks/useOptimizedScroll';
 import { isHTMLContent } from '../utils/htmlParser';
 import type { KnownEntities } from '../types';
+import { useI18n } from '../hooks/useI18n';
 
 interface VirtualItem {
     id: string;
@@ -29,6 +30,8 @@ interface StoryPanelProps {
     knownEntities: KnownEntities;
     onEntityClick: (entityName: string) => void;
     className?: string;
+    streamingStory?: string;
+    onCancelGeneration?: () => void;
 }
 
 const ITEM_OVERSCAN = 5;
@@ -106,8 +109,11 @@ export const StoryPanel: React.FC<StoryPanelProps> = memo(({
     isAiReady,
     knownEntities,
     onEntityClick,
-    className = ''
+    className = '',
+    streamingStory = '',
+    onCancelGeneration
 }) => {
+    const [, { t }] = useI18n();
     const containerRef = useRef<HTMLDivElement>(null);
     const [virtualState, setVirtualState] = useState<VirtualScrollState>({
         scrollTop: 0,
@@ -261,11 +267,11 @@ export const StoryPanel: React.FC<StoryPanelProps> = memo(({
             <div className="flex-shrink-0 p-6 border-b border-white/10">
                 <div className="flex items-center justify-between">
                     <h2 className="text-xl font-bold bg-gradient-to-r from-purple-200 via-pink-200 to-purple-200 bg-clip-text text-transparent">
-                        📖 Diễn Biến Câu Chuyện
+                        {t('story.title')}
                     </h2>
                     <div className="flex items-center gap-3 text-sm text-white/70">
                         <div className="bg-white/10 backdrop-blur-sm rounded-xl px-3 py-1">
-                            <span>{storyLog.length} dòng</span>
+                            <span>{t('story.lines', { count: storyLog.length })}</span>
                         </div>
                         {virtualState.isScrolling && (
                             <div className="w-2 h-2 bg-gradient-to-r from-pink-400 to-purple-400 rounded-full animate-pulse" />
@@ -281,10 +287,10 @@ export const StoryPanel: React.FC<StoryPanelProps> = memo(({
                         <div className="text-center bg-red-500/10 backdrop-blur-sm border border-red-400/20 rounded-2xl p-8">
                             <div className="text-red-300 mb-4 text-4xl">⚠️</div>
                             <p className="text-white/80 text-lg font-medium">
-                                AI chưa sẵn sàng
+                                {t('story.aiNotReady')}
                             </p>
                             <p className="text-white/60 text-sm mt-2">
-                                Vui lòng kiểm tra API Key và quay về trang chủ
+                                {t('story.checkApiKey')}
                             </p>
                         </div>
                     </div>
@@ -293,10 +299,10 @@ export const StoryPanel: React.FC<StoryPanelProps> = memo(({
                         <div className="text-center bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-8">
                             <div className="text-purple-300 mb-4 text-4xl">📖</div>
                             <p className="text-white/80 text-lg font-medium">
-                                Câu chuyện sẽ bắt đầu ở đây...
+                                {t('story.emptyTitle')}
                             </p>
                             <p className="text-white/60 text-sm mt-2">
-                                Hãy chọn một hành động để bắt đầu cuộc phiêu lưu
+                                {t('story.emptyHint')}
                             </p>
                         </div>
                     </div>
@@ -317,6 +323,16 @@ export const StoryPanel: React.FC<StoryPanelProps> = memo(({
                                     onHeightMeasured={handleHeightMeasured}
                                 />
                             ))}
+                            {/* Story text streamed so far for the current turn */}
+                            {isLoading && streamingStory && (
+                                <div className="story-item bg-white/5 backdrop-blur-sm border border-purple-400/30 rounded-xl p-4 opacity-90">
+                                    <OptimizedInteractiveText
+                                        text={streamingStory}
+                                        onEntityClick={onEntityClick}
+                                        knownEntities={knownEntities}
+                                    />
+                                </div>
+                            )}
                         </div>
                     </div>
                 )}
@@ -327,8 +343,17 @@ export const StoryPanel: React.FC<StoryPanelProps> = memo(({
                         <div className="flex items-center gap-3 bg-gradient-to-r from-purple-500/20 to-pink-500/20 backdrop-blur-xl border border-purple-400/30 px-4 py-3 rounded-2xl shadow-2xl">
                             <SpinnerIcon className="w-5 h-5 text-purple-300" />
                             <span className="text-sm text-white font-medium">
-                                Đang tạo câu chuyện...
+                                {streamingStory ? t('story.writing') : t('story.generating')}
                             </span>
+                            {onCancelGeneration && (
+                                <button
+                                    onClick={onCancelGeneration}
+                                    className="ml-1 px-3 py-1 text-xs font-medium text-white bg-red-500/30 hover:bg-red-500/50 border border-red-400/40 rounded-lg transition-colors"
+                                    title={t('story.stopTitle')}
+                                >
+                                    {t('story.stop')}
+                                </button>
+                            )}
                         </div>
                     </div>
                 )}
@@ -341,7 +366,7 @@ export const StoryPanel: React.FC<StoryPanelProps> = memo(({
                             <button
                                 onClick={scrollToBottom}
                                 className="bg-purple-600/80 hover:bg-purple-600 backdrop-blur-xl border border-purple-400/40 text-white p-3 rounded-lg shadow-2xl transition-all hover:scale-110 group"
-                                title="Cuộn xuống cuối"
+                                title={t('story.scrollToBottom')}
                             >
                                 <svg className="w-4 h-4 group-hover:animate-bounce" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 14l-7 7m0 0l-7-7m7 7V3" />
@@ -354,7 +379,7 @@ export const StoryPanel: React.FC<StoryPanelProps> = memo(({
                             <button
                                 onClick={scrollToBottom}
                                 className="bg-purple-600/90 hover:bg-purple-600 backdrop-blur-xl border-2 border-purple-400/60 text-white p-4 rounded-full shadow-2xl transition-all active:scale-95 group touch-manipulation"
-                                title="Cuộn xuống cuối"
+                                title={t('story.scrollToBottom')}
                             >
                                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 14l-7 7m0 0l-7-7m7 7V3" />
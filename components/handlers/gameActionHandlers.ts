@@ -1,12 +1,13 @@
-import { GoogleGenAI } from "@google/genai";
-import type { GameHistoryEntry, SaveData, RegexRule, NPCPresent } from '../types';
-import { buildEnhancedRagPrompt } from '../promptBuilder';
+import type { GameHistoryEntry, SaveData, RegexRule, NPCPresent, LLMProvider, ResponseSchema, ReferenceToolCall, EmbeddingProvider, PromptInspection } from '../types';
 import { createAutoTrimmedStoryLog } from '../utils/storyLogUtils';
-import { regexEngine, RegexPlacement } from '../utils/RegexEngine';
-import { processQuestObjectiveCompletion } from '../utils/questManager';
-import { processQuestRewards, markQuestRewardsAsGranted } from '../utils/questRewardProcessor';
-import { enhancedGenerateContent, enhancedWorldCreation, extractResponseText, isQueuedResponse, setupQueuedChoiceHandler } from '../utils/RetryIntegration';
-import { apiRetrySystem } from '../utils/ApiRetrySystem';
+import { RegexPlacement } from '../utils/RegexEngine';
+import { regexSandbox } from '../utils/RegexSandbox';
+import { enhancedGenerateContent, enhancedWorldCreation, isAbortError, setupQueuedChoiceHandler } from '../utils/RetryIntegration';
+import { createTurnContext } from '../pipeline/turnPipeline';
+import type { TurnServices } from '../pipeline/turnPipeline';
+import { turnPipeline } from '../pipeline/turnStages';
+import { getPromptLocale, getPromptText } from '../utils/promptTemplates';
+import { t } from '../i18n';
 
 /**
  * Enhances NPC data by filling missing fields with intelligent defaults
@@ -212,10 +213,10 @@ const enhanceNPCData = (rawNPCs: NPCPresent[], storyText: string): NPCPresent[]
 };
 
 export interface GameActionHandlersParams {
-    ai: GoogleGenAI | null;
+    ai: LLMProvider | null;
     selectedModel: string;
     systemInstruction: string;
-    responseSchema: any;
+    responseSchema: ResponseSchema;
     isUsingDefaultKey: boolean;
     userApiKeyCount: number;
     rotateKey: () => void;
@@ -228,11 +229,16 @@ export interface GameActionHandlersParams {
     
     // Game Settings
     enableCOT: boolean;
+    enableStreaming: boolean;
+    enableReferenceTools: boolean;
+    maxReferenceToolHops: number;
+    embeddingProvider: EmbeddingProvider | null;   // Set when semantic recall is on
     
     // State setters
     setIsLoading: (loading: boolean) => void;
     setChoices: (choices: string[]) => void;
     setCustomAction: (action: string) => void;
+    setStreamingStory: (story: string) => void;
     setStoryLog: (log: string[] | ((prev: string[]) => string[])) => void;
     setGameHistory: (history: GameHistoryEntry[] | ((prev: GameHistoryEntry[]) => GameHistoryEntry[])) => void;
     setTurnCount: (count: number | ((prev: number) => number)) => void;
@@ -256,20 +262,28 @@ export interface GameActionHandlersParams {
     
     // COT Research logging
     updateCOTResearchLog: (entry: any) => void;
+
+    // Reference lookups the model made during a turn
+    recordReferenceToolCalls: (calls: ReferenceToolCall[]) => void;
+
+    // The assembled prompt of each turn, for the prompt inspector
+    recordPromptInspection: (inspection: PromptInspection) => void;
     
     // High token usage cooldown
     triggerHighTokenCooldown: () => void;
+    
+    // Holds the in-flight streamed generation so it can be cancelled
+    generationAbortRef: { current: AbortController | null };
 }
 
 export const createGameActionHandlers = (params: GameActionHandlersParams) => {
     const {
         ai, selectedModel, systemInstruction, responseSchema,
         isUsingDefaultKey, userApiKeyCount, rotateKey, rehydratedChoices,
-        temperature, topK, topP, enableCOT,
-        setIsLoading, setChoices, setCustomAction, setStoryLog, setGameHistory,
-        setTurnCount, setCurrentTurnTokens, setTotalTokens, setNPCsPresent, setQuests, setKnownEntities,
-        gameHistory, customRules, regexRules, ruleChanges, setRuleChanges, parseStoryAndTags,
-        knownEntities, updateChoiceHistory, updateCOTResearchLog, triggerHighTokenCooldown
+        setIsLoading, setChoices, setCustomAction, setStreamingStory, setStoryLog, setGameHistory,
+        setCurrentTurnTokens, setTotalTokens, setNPCsPresent,
+        gameHistory, customRules, regexRules, parseStoryAndTags,
+        knownEntities, updateChoiceHistory, triggerHighTokenCooldown, generationAbortRef
     } = params;
 
     // Create auto-trimmed story log functions
@@ -284,70 +298,38 @@ export const createGameActionHandlers = (params: GameActionHandlersParams) => {
         if (!ai) return;
         setIsLoading(true);
         
-        const finalPersonality = worldData.customPersonality || worldData.personalityFromList;
-        const writingStyleText = worldData.writingStyle === 'first_person' ? 'Ngôi thứ nhất - Nhân vật chính xưng "Ta/Tôi"' : 'Ngôi thứ hai - "Ngươi" là nhân vật chính';
-        const nsfwInstruction = worldData.allowNsfw ? 'Cho phép. Kích hoạt quy tắc nội dung 18+ của Quản Trò. Viết một cách trần trụi, bạo lực, tục tĩu và không giới hạn.' : 'Không, AI phải tránh các chủ đề và mô tả 18+.';
-        
-        const activeRules = customRules.filter(r => r.alwaysActive && r.isActive);
-        let customRulesContext = '';
-        if (activeRules.length > 0) {
-            customRulesContext = `\n--- TRI THỨC & LUẬT LỆ TÙY CHỈNH (ĐANG ÁP DỤNG) ---\n${activeRules.map(r => `- ${r.content}`).join('\n')}\n--- KẾT THÚC ---\n`;
-        }
-
-        // BƯỚC 2: SỬ DỤNG LORE_CONCEPT ĐÃ TẠO
-        const conceptEntities = Object.values(knownEntities).filter((e: any) => e.type === 'concept');
-        let conceptContext = '';
-        if (conceptEntities.length > 0) {
-            conceptContext = `\n--- CÁC LORE_CONCEPT ĐÃ THIẾT LẬP ---\n${conceptEntities.map((c: any) => `• ${c.name}: ${c.description}`).join('\n')}\n--- KẾT THÚC ---\n`;
-        }
-
         if (!pcEntity) return;
 
-        // Build skill information with mastery levels and descriptions
-        let skillsWithMastery = '';
-        if (pcEntity.learnedSkills && pcEntity.learnedSkills.length > 0) {
-            const skillDetails = pcEntity.learnedSkills.map((skillName: string) => {
-                const skillEntity = knownEntities[skillName];
-                if (skillEntity) {
-                    const mastery = skillEntity.mastery ? ` (${skillEntity.mastery})` : '';
-                    const description = skillEntity.description ? ` - ${skillEntity.description}` : '';
-                    return `${skillName}${mastery}${description}`;
-                }
-                return skillName;
-            });
-            skillsWithMastery = skillDetails.join('\n  • ');
-        }
-
-        const userPrompt = `${customRulesContext}${conceptContext}
-
-BẠN LÀ QUẢN TRÒ AI. Tạo câu chuyện mở đầu cho game RPG với yêu cầu sau:
-
---- THÔNG TIN NHÂN VẬT CHÍNH ---
-Tên: ${pcEntity.name}
-Giới tính: ${pcEntity.gender}
-Tiểu sử: ${pcEntity.description}
-Tính cách: ${pcEntity.personality}${pcEntity.motivation ? `\n**ĐỘNG CƠ/MỤC TIÊU QUAN TRỌNG**: ${pcEntity.motivation}` : ''}${skillsWithMastery ? `\n**KỸ NĂNG KHỞI ĐẦU**:\n  • ${skillsWithMastery}` : ''}
-
---- THÔNG TIN THẾ GIỚI ---
-Thế giới: ${worldData.worldName}
-Mô tả: ${worldData.worldDescription}
-Thời gian: Năm ${worldData.worldTime?.year || 1}, Tháng ${worldData.worldTime?.month || 1}, Ngày ${worldData.worldTime?.day || 1}
-Địa điểm bắt đầu: ${worldData.startLocation === 'Tuỳ chọn' ? worldData.customStartLocation : worldData.startLocation || 'Không xác định'}
-Phong cách viết: ${writingStyleText}
-Nội dung 18+: ${nsfwInstruction}
-
---- YÊU CẦU VIẾT STORY ---
-1. **NGÔN NGỮ TUYỆT ĐỐI**: BẮT BUỘC 100% tiếng Việt. KHÔNG dùng tiếng Anh trừ tên riêng nước ngoài. Quan hệ nhân vật PHẢI tiếng Việt: "friend"→"bạn", "enemy"→"kẻ thù", "ally"→"đồng minh", "lover"→"người yêu"
-2. **CHIỀU DÀI**: Chính xác 300-400 từ, chi tiết và sống động  
-3. **SỬ DỤNG CONCEPT**: Phải tích hợp các LORE_CONCEPT đã thiết lập vào câu chuyện một cách tự nhiên
-4. **THIẾT LẬP BỐI CẢNH**: Tạo tình huống mở đầu thú vị, không quá drama${skillsWithMastery ? `\n5. **NHẮC ĐẾN KỸ NĂNG**: Phải đề cập hoặc thể hiện kỹ năng khởi đầu của nhân vật trong câu chuyện hoặc lựa chọn, chú ý đến mức độ thành thạo` : ''}${pcEntity.motivation ? `\n${skillsWithMastery ? '6' : '5'}. **PHẢN ÁNH ĐỘNG CƠ NHÂN VẬT**: Câu chuyện và lựa chọn phải liên quan đến động cơ/mục tiêu của nhân vật chính: "${pcEntity.motivation}"` : ''}
-${pcEntity.motivation && skillsWithMastery ? '7' : pcEntity.motivation || skillsWithMastery ? '6' : '5'}. **TIME_ELAPSED**: Bắt buộc sử dụng [TIME_ELAPSED: hours=0] 
-${pcEntity.motivation && skillsWithMastery ? '8' : pcEntity.motivation || skillsWithMastery ? '7' : '6'}. **THẺ LỆNH**: Tạo ít nhất 2-3 thẻ lệnh phù hợp (LORE_LOCATION, LORE_NPC, STATUS_APPLIED_SELF...)
-${pcEntity.motivation && skillsWithMastery ? '9' : pcEntity.motivation || skillsWithMastery ? '8' : '7'}. **LỰA CHỌN**: Tạo 4-6 lựa chọn hành động đa dạng và thú vị${pcEntity.motivation ? `, một số lựa chọn phải hướng tới việc thực hiện mục tiêu: "${pcEntity.motivation}"` : ''}${skillsWithMastery ? `, và một số lựa chọn cho phép sử dụng kỹ năng khởi đầu với mức độ thành thạo phù hợp` : ''}
-
-Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? ` và thể hiện rõ động cơ "${pcEntity.motivation}" của nhân vật` : ''}${skillsWithMastery ? `${pcEntity.motivation ? ', ' : ' và '}nhắc đến hoặc cho phép sử dụng kỹ năng khởi đầu với mức độ thành thạo` : ''}!
+        const skills = (pcEntity.learnedSkills || []).map((skillName: string) => {
+            const skillEntity = knownEntities[skillName];
+            if (!skillEntity) return skillName;
+            const mastery = skillEntity.mastery ? ` (${skillEntity.mastery})` : '';
+            const description = skillEntity.description ? ` - ${skillEntity.description}` : '';
+            return `${skillName}${mastery}${description}`;
+        });
 
-**LƯU Ý CUỐI CÙNG**: Kiểm tra kỹ lưỡng toàn bộ output để đảm bảo 100% tiếng Việt, không có từ tiếng Anh nào!`;
+        const userPrompt = getPromptText(getPromptLocale(worldData)).initialStory({
+            rules: customRules.filter(r => r.alwaysActive && r.isActive).map(r => r.content),
+            concepts: Object.values(knownEntities).filter((e: any) => e.type === 'concept').map((c: any) => ({ name: c.name, description: c.description })),
+            pc: {
+                name: pcEntity.name,
+                gender: pcEntity.gender,
+                description: pcEntity.description,
+                personality: pcEntity.personality,
+                motivation: pcEntity.motivation
+            },
+            skills,
+            world: {
+                name: worldData.worldName,
+                description: worldData.worldDescription,
+                year: worldData.worldTime?.year || 1,
+                month: worldData.worldTime?.month || 1,
+                day: worldData.worldTime?.day || 1,
+                startLocation: worldData.startLocation === 'Tuỳ chọn' ? worldData.customStartLocation : worldData.startLocation,
+                firstPerson: worldData.writingStyle === 'first_person',
+                allowNsfw: !!worldData.allowNsfw
+            }
+        });
 
         // OPTIMIZED: Store only "INITIAL_STORY" instead of full prompt for token efficiency
         const optimizedInitialEntry: GameHistoryEntry = { 
@@ -394,15 +376,15 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
                 });
                 
                 // Check for specific error conditions
-                let errorMessage = "Lỗi: AI không thể tạo câu chuyện khởi đầu.";
+                let errorMessage = t('handlers.initialStoryEmpty');
                 
                 if (response.usageMetadata?.totalTokenCount === 0) {
-                    errorMessage += " Có thể do giới hạn token hoặc nội dung bị lọc.";
+                    errorMessage += t('handlers.initialStoryFiltered');
                 } else if (!response.usageMetadata) {
-                    errorMessage += " Có thể do lỗi kết nối mạng.";
+                    errorMessage += t('handlers.initialStoryNetwork');
                 }
                 
-                errorMessage += " Vui lòng thử tạo lại thế giới hoặc kiểm tra API key.";
+                errorMessage += t('handlers.initialStoryRetry');
                 
                 storyLogManager.update(prev => [...prev, errorMessage]);
                 setChoices([]);
@@ -410,7 +392,7 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
             }
             
             console.log('📖 GenerateInitialStory: Response text received, length:', responseText.length);
-            const initialParseSuccess = parseApiResponseHandler(responseText);
+            const initialParseSuccess = await parseApiResponseHandler(responseText);
             if (initialParseSuccess) {
                 console.log(`🎯 Initial story generated successfully`);
                 // Turn count for initial story will be 0 initially, so no need to increment
@@ -432,11 +414,11 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
             if (!isUsingDefaultKey && userApiKeyCount > 1 && error.toString().includes('429')) {
                 console.log("📖 GenerateInitialStory: Rate limit detected, rotating key...");
                 rotateKey();
-                storyLogManager.update(prev => [...prev, "**⭐ Lỗi giới hạn yêu cầu. Đã tự động chuyển sang API Key tiếp theo. Vui lòng thử lại hành động của bạn. ⭐**"]);
+                storyLogManager.update(prev => [...prev, t('handlers.rateLimited')]);
                 setChoices(rehydratedChoices);
             } else {
                 console.error("📖 GenerateInitialStory: Non-rate-limit error, showing error message");
-                storyLogManager.set(["Có lỗi xảy ra khi bắt đầu câu chuyện. Vui lòng thử lại.", `Chi tiết lỗi: ${error.message || error.toString()}`]);
+                storyLogManager.set([t('handlers.initialStoryFailed'), t('handlers.errorDetails', { details: error.message || error.toString() })]);
             }
         } finally {
             console.log("📖 GenerateInitialStory: Cleaning up, setting loading false");
@@ -444,10 +426,10 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
         }
     };
 
+    // Runs one player turn through the stage pipeline (see pipeline/turnStages.ts)
     const handleAction = async (action: string, currentGameState: SaveData) => {
         let originalAction = action.trim();
         let isNsfwRequest = false;
-        let finalResponseText = ''; // Will hold the final response text after potential retries
         
         const nsfwRegex = /\s+nsfw\s*$/i;
         if (nsfwRegex.test(originalAction)) {
@@ -457,549 +439,39 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
 
         if (!originalAction || !ai) return;
 
-        // Extract time cost from action text BEFORE processing
-        const { extractTimeCostFromAction, createTimeElapsedTag } = await import('../utils/timeCostExtractor');
-        const extractedTimeCost = extractTimeCostFromAction(originalAction);
-        
-        // Detect skill usage from player action for automatic experience gain
-        const { detectSkillUsageFromChoice } = await import('../utils/skillUsageDetector');
-        const skillUsageResult = detectSkillUsageFromChoice(originalAction, knownEntities);
-        
-        // Check if this is a breakthrough choice and pre-calculate result
-        const { isBreakthroughChoice, extractSkillFromBreakthroughChoice, extractSuccessRateFromChoice } = await import('../utils/breakthroughChoiceGenerator');
-        const { attemptBreakthrough } = await import('../utils/skillExpManager');
-        const isBreakthrough = isBreakthroughChoice(originalAction);
-        let breakthroughConstraint = '';
-        let preCalculatedBreakthroughResult: any = null;
-        
-        if (isBreakthrough) {
-            const skillName = extractSkillFromBreakthroughChoice(originalAction);
-            const successRate = extractSuccessRateFromChoice(originalAction);
-            
-            if (skillName) {
-                // Pre-calculate breakthrough result so AI knows what happened
-                // Try both the exact skill name and the base name without mastery
-                let skill = knownEntities[skillName];
-                if (!skill) {
-                    const baseSkillName = skillName.replace(/\s*\([^)]*\)\s*$/, '').trim();
-                    skill = knownEntities[baseSkillName];
-                }
-                
-                if (skill && skill.type === 'skill') {
-                    preCalculatedBreakthroughResult = attemptBreakthrough(skill, successRate);
-                    const success = preCalculatedBreakthroughResult.masteryLevelUp;
-                    
-                    // Update skill entity immediately with pre-calculated result
-                    const updatedEntities = { ...knownEntities };
-                    
-                    // Determine the actual skill entity key (might be base name without mastery)
-                    const baseSkillName = skillName.replace(/\s*\([^)]*\)\s*$/, '').trim();
-                    const actualSkillKey = knownEntities[skillName] ? skillName : baseSkillName;
-                    
-                    if (success) {
-                        const newSkillName = `${baseSkillName} (${preCalculatedBreakthroughResult.newMastery})`;
-                        
-                        // Remove old skill entity and add new one with updated properties
-                        delete updatedEntities[actualSkillKey];
-                        updatedEntities[newSkillName] = {
-                            ...preCalculatedBreakthroughResult.skill,
-                            name: newSkillName
-                        };
-                        
-                        // Update PC's learnedSkills array
-                        const pc = Object.values(updatedEntities).find(e => e.type === 'pc');
-                        if (pc && pc.learnedSkills) {
-                            const updatedPC = { ...pc };
-                            updatedPC.learnedSkills = [...pc.learnedSkills];
-                            
-                            // Try to find skill in learnedSkills by both exact match and partial match
-                            let skillIndex = updatedPC.learnedSkills.findIndex(s => s === skillName);
-                            let originalSkillName = skillName;
-                            
-                            if (skillIndex === -1) {
-                                // Try matching by base name
-                                skillIndex = updatedPC.learnedSkills.findIndex(s => s.includes(baseSkillName));
-                                if (skillIndex !== -1) {
-                                    originalSkillName = updatedPC.learnedSkills[skillIndex];
-                                }
-                            }
-                            
-                            if (skillIndex !== -1) {
-                                updatedPC.learnedSkills[skillIndex] = newSkillName;
-                                updatedEntities[pc.name] = updatedPC;
-                                console.log(`🔄 PC learnedSkills updated: ${originalSkillName} → ${newSkillName}`);
-                            }
-                        }
-                        
-                        console.log(`🔄 Skill entity updated: ${actualSkillKey} → ${newSkillName}`);
-                        console.log(`✨ BREAKTHROUGH SUCCESS: Skill advanced to ${preCalculatedBreakthroughResult.newMastery}, EXP reset to ${preCalculatedBreakthroughResult.skill.skillExp}/${preCalculatedBreakthroughResult.skill.maxSkillExp}`);
-                    } else {
-                        // Breakthrough failed - update the existing skill entity
-                        updatedEntities[actualSkillKey] = {
-                            ...preCalculatedBreakthroughResult.skill,
-                            name: actualSkillKey
-                        };
-                        console.log(`💥 BREAKTHROUGH FAILED: ${actualSkillKey} remains at ${skill.mastery}`);
-                    }
-                    
-                    setKnownEntities(updatedEntities);
-                    
-                    breakthroughConstraint = `\n\n**✦ BREAKTHROUGH RESULT ✦**: Breakthrough attempt for "${skillName}" has been ${success ? 'SUCCESSFUL' : 'FAILED'}.` +
-                        (success ? 
-                            ` The skill advanced from ${preCalculatedBreakthroughResult.previousMastery} to ${preCalculatedBreakthroughResult.newMastery}. Skill state has been automatically updated. You MUST write a story describing successful breakthrough, advancement, and new power gained. Use tag: [SKILL_BREAKTHROUGH: skillName="${skillName}", successRate="${successRate}", result="success"]` :
-                            ` The skill remains at ${skill.mastery} level and is still capped. You MUST write a story describing failed breakthrough, possible backlash, fatigue, or temporary setback. Use tag: [SKILL_BREAKTHROUGH: skillName="${skillName}", successRate="${successRate}", result="failure"]`);
-                    
-                    console.log(`✦ Breakthrough pre-calculated for ${skillName}: ${success ? 'SUCCESS' : 'FAILURE'} (${(successRate * 100).toFixed(0)}% rate)`);
-                    
-                    if (success) {
-                        console.log(`✨ BREAKTHROUGH SUCCESS: ${skillName} ${preCalculatedBreakthroughResult.previousMastery} → ${preCalculatedBreakthroughResult.newMastery}`);
-                    } else {
-                        console.log(`💥 BREAKTHROUGH FAILED: ${skillName} remains capped at ${skill.mastery}`);
-                    }
-                } else {
-                    console.warn(`⚠️ Skill "${skillName}" not found for breakthrough attempt`);
-                }
-            }
-        }
-        
-        // Process player input through regex rules
-        const processedAction = regexEngine.processText(
-            originalAction, 
-            RegexPlacement.PLAYER_INPUT, 
-            regexRules || [],
-            { 
-                depth: gameHistory?.length || 0,
-                isEdit: false
-            }
-        );
-
-        setIsLoading(true);
-        setChoices([]);
-        setCustomAction('');
-        
-        // Roll for breakthrough eligibility at the start of each turn
-        const { rollForBreakthroughEligibility } = await import('../utils/skillExpManager');
-        const allSkills = Object.values(knownEntities).filter(entity => entity.type === 'skill');
-        const updatedSkills = rollForBreakthroughEligibility(allSkills);
-        
-        // Update skill entities with new breakthrough eligibility
-        const updatedEntities = { ...knownEntities };
-        updatedSkills.forEach(skill => {
-            updatedEntities[skill.name] = skill;
-        });
-        setKnownEntities(updatedEntities);
-        storyLogManager.update(prev => [...prev, `> ${processedAction}`]);
-        
-        // Track selected choice in history
-        updateChoiceHistory([], processedAction, 'Player action executed');
-
-        let ruleChangeContext = '';
-        if (ruleChanges) {
-            // Build context string from ruleChanges
-            setRuleChanges(null); 
-        }
-        
-        // Add time cost constraint if extracted from action
-        if (extractedTimeCost) {
-            const timeElapsedTag = createTimeElapsedTag(extractedTimeCost);
-            const timeConstraint = `\n\n**⏰ THỜI GIAN BẮT BUỘC**: Hành động này có thời gian ước tính từ lựa chọn: "${extractedTimeCost.originalText}". Bạn PHẢI sử dụng chính xác thẻ: ${timeElapsedTag}`;
-            ruleChangeContext += timeConstraint;
-            console.log(`⏰ Added time constraint to prompt: ${timeElapsedTag}`);
-        }
-        
-        // Add skill experience constraint if skills were used in action
-        if (skillUsageResult.skillsUsed.length > 0) {
-            const skillNames = skillUsageResult.skillsUsed.map(s => s.name).join(', ');
-            const skillTags = skillUsageResult.commandTags.join(' ');
-            const skillConstraint = `\n\n**⚔️ KỸ NĂNG SỬ DỤNG**: Hành động này sử dụng kỹ năng: ${skillNames}. Bạn PHẢI bao gồm các thẻ kinh nghiệm kỹ năng sau: ${skillTags}`;
-            ruleChangeContext += skillConstraint;
-            console.log(`⚔️ Added skill usage constraint to prompt: ${skillNames} (${skillUsageResult.expGained} exp each)`);
-        }
-        
-        // Add breakthrough constraint if this is a breakthrough attempt
-        if (breakthroughConstraint) {
-            ruleChangeContext += breakthroughConstraint;
-        }
-
-        // Add breakthrough eligibility roll and constraints (use updated entities)
-        const { generateBreakthroughConstraint, generateCappedSkillConstraint } = await import('../utils/breakthroughChoiceGenerator');
-        const breakthroughChoiceConstraint = generateBreakthroughConstraint(updatedEntities);
-        const cappedSkillConstraint = generateCappedSkillConstraint(updatedEntities);
-        
-        if (breakthroughChoiceConstraint) {
-            ruleChangeContext += breakthroughChoiceConstraint;
-        }
-        
-        if (cappedSkillConstraint) {
-            ruleChangeContext += cappedSkillConstraint;
-        }
-
-        let nsfwInstructionPart = isNsfwRequest && currentGameState.worldData.allowNsfw ? `\nLƯU Ý ĐẶC BIỆT: ...` : '';
-        
-        console.log(`🔍 DEBUG: enableCOT parameter before calling buildEnhancedRagPrompt: ${enableCOT} (type: ${typeof enableCOT})`);
-        
-        const userPrompt = buildEnhancedRagPrompt(originalAction, currentGameState, ruleChangeContext, nsfwInstructionPart, enableCOT);
-        
-        // DEBUG: Enhanced prompt analysis for COT tracking
-        console.log(`🔍 [Turn ${currentGameState.turnCount}] Enhanced Prompt Debug:`, {
-            originalAction,
-            processedAction,
-            timestamp: new Date().toISOString(),
-            promptLength: userPrompt.length,
-            promptHash: userPrompt.slice(0, 100) + '...' + userPrompt.slice(-100),
-            hasCOTInstructions: userPrompt.includes('BẮT BUỘC PHẢI SUY NGHĨ'),
-            cotStepCount: (userPrompt.match(/BƯỚC \d+/g) || []).length,
-            hasExampleFormat: userPrompt.includes('Ví dụ format'),
-            hasWarningBanner: userPrompt.includes('🚨 QUAN TRỌNG'),
-            gameStateHash: `T${currentGameState.turnCount}_${currentGameState.gameTime?.year}_${currentGameState.gameTime?.month}_${currentGameState.gameTime?.day}_${currentGameState.gameTime?.hour}`
-        });
-
-        // DEBUG: Show actual COT instructions if present
-        const cotStartIndex = userPrompt.indexOf('🧠 TRƯỚC KHI TẠO JSON');
-        if (cotStartIndex !== -1) {
-            const cotInstructions = userPrompt.substring(cotStartIndex, cotStartIndex + 1500); // Show more content
-            console.log(`🎯 [Turn ${currentGameState.turnCount}] COT Instructions Preview:`, cotInstructions + (cotInstructions.length === 1500 ? '...' : ''));
-        } else {
-            console.log(`⚠️ [Turn ${currentGameState.turnCount}] No COT instructions found in prompt!`);
-        }
-
-        // OPTIMIZED: Store only essential user action instead of full RAG prompt for token efficiency
-        const userActionMatch = userPrompt.match(/--- HÀNH ĐỘNG CỦA NGƯỜI CHƠI ---\n"([^"]+)"/);
-        const userAction = userActionMatch ? userActionMatch[1] : action;
-
-        // COT Research Logging - Initialize data collection
-        const cotStartTime = Date.now();
-        const hasCOTInPrompt = userPrompt.includes('BẮT BUỘC PHẢI SUY NGHĨ');
-        const cotPromptTokens = hasCOTInPrompt ? Math.ceil(userPrompt.length * 1.2) : 0; // Simple token estimation
-        const optimizedUserEntry: GameHistoryEntry = { 
-            role: 'user', 
-            parts: [{ text: `ACTION: ${userAction}` }] 
+        const context = createTurnContext({ action, originalAction, isNsfwRequest, gameState: currentGameState }, knownEntities);
+        const preTurnEntities = context.knownEntities;
+        const services: TurnServices = {
+            ...params,
+            storyLogManager,
+            parseApiResponse: parseApiResponseHandler,
+            detectDuplicateResponse,
+            extractCOTReasoning
         };
-        
-        // For AI API call: use full prompt with current history
-        const apiHistory = [...gameHistory, { role: 'user', parts: [{ text: userPrompt }] }];
-        // For storage: use optimized entry
-        const updatedHistory = [...gameHistory, optimizedUserEntry];
 
         try {
-            // Generate choice ID for tracking and idempotency
-            const choiceId = apiRetrySystem.generateChoiceId();
-            const gameStateSnapshot = {
-                gameHistory: updatedHistory,
-                knownEntities,
-                currentTurn: gameHistory?.length || 0,
-                action: originalAction
-            };
-            
-            const response = await enhancedGenerateContent(ai, {
-                model: selectedModel, 
-                contents: apiHistory, // Use full context for AI
-                config: { 
-                    systemInstruction: systemInstruction, 
-                    responseMimeType: "application/json", 
-                    responseSchema: responseSchema,
-                    // Use configured AI settings
-                    temperature: temperature,
-                    topP: topP,
-                    topK: topK
-                }
-            }, `player_choice_${originalAction.substring(0, 50)}`, choiceId, gameStateSnapshot);
-            
-            // Check if response was queued
-            if (isQueuedResponse(response)) {
-                console.log('🔄 Response was queued for later retry');
-                const queueMessage = extractResponseText(response);
-                storyLogManager.update(prev => [...prev, `⏳ ${queueMessage}`]);
-                setChoices(['Thử lại yêu cầu này', 'Tiếp tục với hành động khác']);
-                setIsLoading(false);
-                return true; // Indicate successful handling (even if queued)
-            }
-
-            const turnTokens = response.usageMetadata?.totalTokenCount || 0;
-            setCurrentTurnTokens(turnTokens);
-            setTotalTokens(prev => prev + turnTokens);
-
-            const responseText = extractResponseText(response);
-            
-            // DEBUG: Log response details 
-            console.log(`📤 [Turn ${currentGameState.turnCount}] AI Response Debug:`, {
-                responseLength: responseText.length,
-                responseHash: responseText.length > 200 ? responseText.slice(0, 100) + '...' + responseText.slice(-100) : responseText,
-                tokenUsage: turnTokens,
-                model: selectedModel,
-                timestamp: new Date().toISOString()
-            });
-            
-            // DEBUG: Extract and log COT reasoning if present + Save for research
-            let cotReasoningResult = null;
-            try {
-                const cotReasoning = extractCOTReasoning(responseText);
-                cotReasoningResult = cotReasoning;
-                if (cotReasoning) {
-                    console.log(`🧠 [Turn ${currentGameState.turnCount}] AI Chain of Thought Reasoning:`);
-                    console.log(`   Type: ${cotReasoning.type}`);
-                    console.log(`   Note: ${cotReasoning.note || 'N/A'}`);
-                    
-                    if (cotReasoning.type === 'explicit_cot' && cotReasoning.sections) {
-                        console.log(`   Total COT Sections: ${cotReasoning.totalSections}`);
-                        cotReasoning.sections.forEach((section, index) => {
-                            console.log(`   📝 STEP ${index + 1} (${section.length} chars):`);
-                            console.log(`      ${section.content}`);
-                            console.log(''); // Empty line for readability
-                        });
-                    } else if (cotReasoning.reasoning) {
-                        console.log(`   🔍 Full Reasoning Content:`);
-                        console.log(`      ${cotReasoning.reasoning}`);
-                    } else if (cotReasoning.sections && Array.isArray(cotReasoning.sections)) {
-                        console.log(`   🔍 Reasoning Sections Found:`);
-                        cotReasoning.sections.forEach((section, index) => {
-                            console.log(`      Section ${index + 1}: ${section}`);
-                        });
-                    } else if (cotReasoning.responsePreview) {
-                        console.log(`   📋 Response Preview: ${cotReasoning.responsePreview}`);
-                    }
-                } else {
-                    // Enhanced debugging for failed extraction
-                    console.log(`🔍 [Turn ${currentGameState.turnCount}] Could not extract COT reasoning from response`);
-                    console.log(`📝 Response preview (first 1000 chars):`, responseText.substring(0, 1000));
-                    
-                    // Check if there's Vietnamese reasoning content
-                    const hasVietnameseReasoning = /(?:BƯỚC|Tôi|Suy nghĩ|Phân tích|Hành động)/i.test(responseText);
-                    console.log(`🔍 Has Vietnamese reasoning indicators:`, hasVietnameseReasoning);
-                    
-                    // Show where JSON starts
-                    const jsonStart = responseText.indexOf('{');
-                    if (jsonStart > 100) {
-                        console.log(`📋 Content before JSON (${jsonStart} chars):`, responseText.substring(0, Math.min(jsonStart, 500)));
-                    }
-                    
-                    // Create default "no COT found" result for research logging
-                    cotReasoningResult = {
-                        type: 'no_cot_found' as const,
-                        note: 'No COT reasoning detected in response - AI may be ignoring instructions',
-                        responsePreview: responseText.substring(0, 200) + '...'
-                    };
-                }
-            } catch (e) {
-                console.log(`🚨 [Turn ${currentGameState.turnCount}] Error extracting COT:`, e);
-                cotReasoningResult = {
-                    type: 'no_cot_found' as const,
-                    note: `Error extracting COT: ${e}`,
-                    responsePreview: responseText.substring(0, 200) + '...'
-                };
-            }
-            
-            if (!responseText) {
-                console.error("API returned empty response text in handleAction", {
-                    responseMetadata: response.usageMetadata,
-                    model: selectedModel,
-                    action: originalAction,
-                    responseObject: response
-                });
-                
-                // Check for specific error conditions
-                let errorMessage = "Lỗi: AI không trả về nội dung.";
-                
-                if (response.usageMetadata?.totalTokenCount === 0) {
-                    errorMessage += " Có thể do giới hạn token hoặc nội dung bị lọc.";
-                } else if (!response.usageMetadata) {
-                    errorMessage += " Có thể do lỗi kết nối mạng.";
-                }
-                
-                errorMessage += " Vui lòng thử lại với hành động khác hoặc kiểm tra API key.";
-                
-                // Player action is already in the story log, just add error message
-                storyLogManager.update(prev => [...prev, errorMessage]);
-                return;
-            }
-            
-            // Detect duplicate responses by comparing with recent history
-            const isDuplicateResponse = detectDuplicateResponse(responseText, gameHistory);
-            if (isDuplicateResponse) {
-                console.warn(`⚠️ [Turn ${currentGameState.turnCount}] Duplicate response detected! Regenerating...`);
-                console.log(`🔍 Duplicate Details:`, {
-                    responseLength: responseText.length,
-                    historyEntries: gameHistory.length,
-                    action: originalAction.substring(0, 50) + '...',
-                    lastFewResponses: gameHistory.slice(-4).map(h => h.role + ': ' + h.parts[0].text.substring(0, 100))
+            await turnPipeline.run(context, services);
+            return context.halted?.result;
+        } catch (error: any) {
+            if (isAbortError(error)) {
+                console.log('⏹️ Turn generation cancelled by player');
+                // Put everything the turn changed before the cancel back, as if the action was never sent
+                const actionLine = `> ${context.processedAction}`;
+                setStoryLog(prev => {
+                    const index = prev.lastIndexOf(actionLine);
+                    return index === -1 ? prev : [...prev.slice(0, index), ...prev.slice(index + 1)];
                 });
-                // Add variation to force different response with attempt counter
-                const attemptNumber = (gameHistory.filter(h => h.parts[0].text.includes('lần thử lại')).length || 0) + 1;
-                const retryPrompt = userPrompt + `\n\n**QUAN TRỌNG**: Đây là lần thử lại #${attemptNumber} do phản hồi trùng lặp. Hãy tạo nội dung HOÀN TOÀN KHÁC với lượt trước. Tập trung vào sự sáng tạo và đa dạng. Seed: ${Math.random()}`;
-                const retryHistory = [...gameHistory, { role: 'user', parts: [{ text: retryPrompt }] }];
-                
-                // Prevent infinite loops - max 2 retries
-                if (attemptNumber >= 3) {
-                    console.warn(`⚠️ [Turn ${currentGameState.turnCount}] Max duplicate retries reached (${attemptNumber}), accepting response`);
-                    // Continue with current response to prevent infinite loop
-                } else {
-                
-                const retryResponse = await enhancedGenerateContent(ai, {
-                    model: selectedModel, 
-                    contents: retryHistory,
-                    config: { 
-                        systemInstruction: systemInstruction, 
-                        responseMimeType: "application/json", 
-                        responseSchema: responseSchema,
-                        // Use higher values for retry to increase diversity
-                        temperature: Math.min(temperature + 0.1, 2.0),
-                        topP: Math.max(topP - 0.05, 0.1),
-                        topK: Math.max(topK - 10, 10)
-                    }
-                }, `retry_duplicate_${attemptNumber}`, choiceId, gameStateSnapshot);
-                
-                const retryText = retryResponse.text?.trim() || '';
-                if (retryText) {
-                    setGameHistory(prev => [...prev, optimizedUserEntry, { role: 'model', parts: [{ text: retryText }] }]);
-                    // Use retryText for parsing instead of responseText
-                    finalResponseText = retryText;
-                    console.log(`✅ [Turn ${currentGameState.turnCount}] Successfully generated unique response on retry`);
-                } else {
-                    // Fallback to original response if retry fails
-                    setGameHistory(prev => [...prev, optimizedUserEntry, { role: 'model', parts: [{ text: responseText }] }]);
-                    finalResponseText = responseText;
+                if (context.knownEntities !== preTurnEntities) {
+                    params.setKnownEntities(preTurnEntities);
                 }
+                if (params.ruleChanges) {
+                    params.setRuleChanges(params.ruleChanges);
                 }
-            } else {
-                setGameHistory(prev => [...prev, optimizedUserEntry, { role: 'model', parts: [{ text: responseText }] }]);
-                finalResponseText = responseText;
-            }
-            
-            // COT Research Logging - Save detailed analysis to game state
-            const cotEndTime = Date.now();
-            let parsedResponse = null;
-            try {
-                parsedResponse = JSON.parse(finalResponseText);
-            } catch (e) {
-                // Response parsing failed, still log what we can
+                setChoices(currentGameState.choices || []);
+                setCustomAction(originalAction);
+                return;
             }
             
-            const cotResearchEntry = {
-                turn: currentGameState.turnCount,
-                timestamp: new Date().toISOString(),
-                userAction: originalAction,
-                cotPromptUsed: hasCOTInPrompt,
-                cotPromptLength: hasCOTInPrompt ? userPrompt.length : undefined,
-                cotPromptTokens: hasCOTInPrompt ? cotPromptTokens : undefined,
-                aiReasoningDetected: cotReasoningResult || {
-                    type: 'no_cot_found' as const,
-                    note: 'COT analysis not available'
-                },
-                duplicateDetected: isDuplicateResponse || false,
-                duplicateRetryCount: isDuplicateResponse ? (gameHistory.filter(h => h.parts[0].text.includes('lần thử lại')).length || 0) + 1 : 0,
-                finalResponseQuality: {
-                    storyLength: parsedResponse?.story?.length || finalResponseText.length,
-                    choicesCount: parsedResponse?.choices?.length || 0,
-                    storyTokens: parsedResponse?.story ? Math.ceil(parsedResponse.story.length * 1.2) : undefined,
-                    hasTimeElapsed: finalResponseText.includes('TIME_ELAPSED'),
-                    hasChronicle: finalResponseText.includes('CHRONICLE_TURN')
-                },
-                performanceMetrics: {
-                    responseTime: cotEndTime - cotStartTime,
-                    totalTokensUsed: turnTokens,
-                    promptTokens: cotPromptTokens,
-                    completionTokens: turnTokens - cotPromptTokens
-                }
-            };
-
-            // Add to save file through callback
-            updateCOTResearchLog(cotResearchEntry);
-
-            console.log(`📊 [Turn ${currentGameState.turnCount}] COT Research Entry Saved:`, {
-                cotUsed: cotResearchEntry.cotPromptUsed,
-                reasoningType: cotResearchEntry.aiReasoningDetected.type,
-                responseQuality: `${cotResearchEntry.finalResponseQuality.choicesCount} choices, ${cotResearchEntry.finalResponseQuality.storyLength} chars`,
-                performanceMs: cotResearchEntry.performanceMetrics.responseTime
-            });
-
-            // Only increment turn count after successful story generation and parsing
-            const parseSuccess = parseApiResponseHandler(finalResponseText);
-            if (parseSuccess) {
-                // Process quest objective completion
-                const questResult = processQuestObjectiveCompletion(
-                    originalAction, 
-                    currentGameState.quests, 
-                    currentGameState.turnCount + 1
-                );
-                
-                if (questResult.completedObjectives.length > 0 || questResult.completedQuests.length > 0) {
-                    // Update quests with completed objectives
-                    setQuests(questResult.updatedQuests);
-                    
-                    // Log quest completion info
-                    if (questResult.completedObjectives.length > 0) {
-                        console.log(`✅ Completed ${questResult.completedObjectives.length} quest objective(s):`, 
-                                  questResult.completedObjectives.map(obj => `"${obj.objectiveDescription}" for "${obj.questTitle}"`));
-                    }
-                    
-                    if (questResult.completedQuests.length > 0) {
-                        console.log(`🏆 Completed ${questResult.completedQuests.length} quest(s):`, questResult.completedQuests);
-                        
-                        // Add quest completion notifications to story log
-                        questResult.completedQuests.forEach(questTitle => {
-                            storyLogManager.update(prev => [...prev, `🏆 Nhiệm vụ hoàn thành: "${questTitle}"`]);
-                        });
-
-                        // CRITICAL: Process and grant quest rewards automatically
-                        try {
-                            // Get the completed quests objects
-                            const completedQuestObjects = questResult.updatedQuests.filter(quest => 
-                                questResult.completedQuests.includes(quest.title) && quest.status === 'completed'
-                            );
-
-                            if (completedQuestObjects.length > 0) {
-                                console.log(`💰 Processing rewards for ${completedQuestObjects.length} completed quest(s)`);
-                                
-                                // Process quest rewards
-                                const rewardResults = processQuestRewards(completedQuestObjects, knownEntities);
-                                
-                                // Apply all reward command tags through parseStoryAndTags
-                                const allCommandTags = rewardResults.flatMap(result => result.commandTags);
-                                
-                                if (allCommandTags.length > 0) {
-                                    console.log(`🎁 Applying ${allCommandTags.length} reward command tag(s):`);
-                                    allCommandTags.forEach(tag => console.log(`   ${tag}`));
-                                    
-                                    // Create a fake story with the command tags to trigger processing
-                                    const rewardStory = `[Quest rewards granted automatically]\n${allCommandTags.join('\n')}`;
-                                    parseStoryAndTags(rewardStory, true); // Apply side effects to grant rewards
-                                    
-                                    // Mark quests as having rewards granted to prevent duplicates
-                                    const updatedQuestsWithRewardFlag = markQuestRewardsAsGranted(
-                                        questResult.updatedQuests, 
-                                        questResult.completedQuests
-                                    );
-                                    setQuests(updatedQuestsWithRewardFlag);
-                                    
-                                    // Add reward notifications to story log
-                                    const totalRewards = rewardResults.reduce((sum, result) => sum + result.rewards.length, 0);
-                                    storyLogManager.update(prev => [...prev, `💰 Tự động trao ${totalRewards} phần thưởng từ nhiệm vụ đã hoàn thành`]);
-                                } else {
-                                    console.log(`ℹ️ No rewards to grant for completed quests`);
-                                }
-                                
-                                // Log any errors
-                                const allErrors = rewardResults.flatMap(result => result.errors);
-                                if (allErrors.length > 0) {
-                                    console.warn(`⚠️ Quest reward processing errors:`, allErrors);
-                                }
-                            }
-                        } catch (rewardError: any) {
-                            console.error(`❌ Failed to process quest rewards:`, rewardError);
-                            storyLogManager.update(prev => [...prev, `⚠️ Lỗi khi xử lý phần thưởng nhiệm vụ: ${rewardError.message}`]);
-                        }
-                    }
-                }
-                
-                setTurnCount(prev => {
-                    const newTurn = prev + 1;
-                    console.log(`🎯 Turn count successfully incremented to ${newTurn} after successful story generation`);
-                    return newTurn;
-                });
-            } else {
-                console.log(`⚠️ Turn count NOT incremented due to parsing/generation failure`);
-            } 
-        } catch (error: any) {
             console.error("Error continuing story:", error);
             
             // Store the player action before removing it
@@ -1012,16 +484,23 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
             if (!isUsingDefaultKey && userApiKeyCount > 1 && error.toString().includes('429')) {
                 rotateKey();
                 // Restore player action and add error message
-                storyLogManager.update(prev => [...prev, playerAction, "**⭐ Lỗi giới hạn yêu cầu. Đã tự động chuyển sang API Key tiếp theo. Vui lòng thử lại hành động của bạn. ⭐**"]);
+                storyLogManager.update(prev => [...prev, playerAction, t('handlers.rateLimited')]);
             } else {
                 // Restore player action and add error message
-                storyLogManager.update(prev => [...prev, playerAction, "Lỗi: AI không thể xử lý yêu cầu. Vui lòng thử một hành động khác."]);
+                storyLogManager.update(prev => [...prev, playerAction, t('handlers.actionFailed')]);
             }
         } finally {
+            generationAbortRef.current = null;
+            setStreamingStory('');
             setIsLoading(false);
         }
     };
 
+    // Cancel the in-flight streamed turn; handleAction's catch block restores the pre-turn state
+    const cancelGeneration = () => {
+        generationAbortRef.current?.abort();
+    };
+
     const handleSuggestAction = async (storyLog: string[], currentGameState?: SaveData) => {
         if (!ai) return;
         setIsLoading(true);
@@ -1029,31 +508,14 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
             // Get the last few story entries for better context
             const recentStory = storyLog.slice(-3).join('\n\n');
             
-            // Build a comprehensive prompt for action suggestion
-            const suggestionPrompt = `Bạn là AI hỗ trợ người chơi trong game RPG. Dựa vào bối cảnh câu chuyện gần đây, hãy gợi ý một hành động thú vị và sáng tạo cho người chơi.
-
-=== BỐI CẢNH GAN ĐÂY ===
-${recentStory}
-
-=== YÊU CẦU ===
-- Gợi ý 1 hành động cụ thể, sáng tạo và phù hợp với bối cảnh
-- Hành động phải ngắn gọn, dài 10-20 từ
-- Hành động phải có thể thực hiện được trong tình huống hiện tại
-- Đừng giải thích hay thêm gì khác, chỉ trả về hành động duy nhất
-
-VÍ DỤ:
-- "Quan sát kỹ xung quanh để tìm manh mối"
-- "Hỏi người địa phương về truyền thuyết"
-- "Thử sử dụng kỹ năng để giải quyết vấn đề"
-
-Hãy gợi ý hành động:`;
+            const suggestionPrompt = getPromptText(getPromptLocale(currentGameState?.worldData)).suggestAction(recentStory);
 
             const response = await enhancedGenerateContent(ai, {
                 model: selectedModel,
                 contents: [{ role: 'user', parts: [{ text: suggestionPrompt }] }],
             }, 'action_suggestion');
             
-            const suggestedAction = response.text?.trim() || 'Không thể nhận gợi ý lúc này.';
+            const suggestedAction = response.text?.trim() || t('handlers.suggestUnavailable');
             
             // Clean up the response to remove quotes and extra formatting
             const cleanAction = suggestedAction
@@ -1064,18 +526,18 @@ Hãy gợi ý hành động:`;
             setCustomAction(cleanAction);
         } catch (error) {
             console.error("Error suggesting action:", error);
-            setCustomAction("Không thể nhận gợi ý lúc này.");
+            setCustomAction(t('handlers.suggestUnavailable'));
         } finally {
             setIsLoading(false);
         }
     };
 
-    const parseApiResponseHandler = (text: string): boolean => {
+    const parseApiResponseHandler = async (text: string): Promise<boolean> => {
         try {
             // Check if response is empty or whitespace only
             if (!text || text.trim().length === 0) {
                 console.error("Empty AI response received");
-                storyLogManager.update(prev => [...prev, "Lỗi: AI trả về phản hồi trống. Hãy thử lại."]);
+                storyLogManager.update(prev => [...prev, t('handlers.emptyResponse')]);
                 setChoices([]);
                 return false;
             }
@@ -1111,7 +573,7 @@ Hãy gợi ý hành động:`;
             // Final check if cleanText is valid before parsing
             if (!cleanText || cleanText.length === 0) {
                 console.error("No valid JSON found in response");
-                storyLogManager.update(prev => [...prev, "Lỗi: Không tìm thấy JSON hợp lệ trong phản hồi. Hãy thử lại."]);
+                storyLogManager.update(prev => [...prev, t('handlers.noJson')]);
                 setChoices([]);
                 return false;
             }
@@ -1185,7 +647,7 @@ Hãy gợi ý hành động:`;
                     }
                 } catch (salvageError) {
                     console.error("Failed to salvage response:", salvageError);
-                    storyLogManager.update(prev => [...prev, `Lỗi: Không thể phân tích phản hồi AI. Chi tiết: ${parseError.message}`]);
+                    storyLogManager.update(prev => [...prev, t('handlers.parseFailed', { details: parseError.message })]);
                     setChoices([]);
                     return false;
                 }
@@ -1216,15 +678,17 @@ Hãy gợi ý hành động:`;
             // Validate required fields
             if (!jsonResponse.story) {
                 console.error("Missing story field in JSON response");
-                storyLogManager.update(prev => [...prev, "Lỗi: Phản hồi thiếu nội dung câu chuyện. Hãy thử lại."]);
+                storyLogManager.update(prev => [...prev, t('handlers.missingStory')]);
                 setChoices([]);
                 return false;
             }
             
+            // Tag processing applies regex placements synchronously, so slow rules are caught here first
+            await regexSandbox.screenRules(jsonResponse.story, regexRules || []);
             let cleanStory = parseStoryAndTags(jsonResponse.story, true);
             
             // Process AI output through regex rules
-            cleanStory = regexEngine.processText(
+            cleanStory = await regexSandbox.processText(
                 cleanStory,
                 RegexPlacement.AI_OUTPUT,
                 regexRules || [],
@@ -1270,7 +734,7 @@ Hãy gợi ý hành động:`;
             return true;
         } catch (e) {
             console.error("Failed to parse AI response:", e, "Raw response:", text);
-            storyLogManager.update(prev => [...prev, "Lỗi: AI trả về dữ liệu không hợp lệ. Hãy thử lại."]);
+            storyLogManager.update(prev => [...prev, t('handlers.invalidResponse')]);
             setChoices([]);
             return false;
         }
@@ -1634,6 +1098,7 @@ Hãy gợi ý hành động:`;
     return {
         generateInitialStory,
         handleAction,
+        cancelGeneration,
         handleSuggestAction,
         detectDuplicateResponse,
         extractCOTReasoning
@@ -1,6 +1,12 @@
-import type { SaveData, CustomRule, Memory, Entity } from '../types';
+import type { SaveData, SaveSlotMeta, CustomRule, RuleActivationSettings, Memory, Entity, TurnSnapshot, SerializedTurnSnapshots, TimelineTree, TagJournalEntry, ReferenceToolCall, HistorySummary, PromptTemplateOverrides, CompressedHistorySegment } from '../types';
 import { GameSettings } from '../GameSettingsModal';
 import { ReferenceIdGenerator } from '../utils/ReferenceIdGenerator';
+import { buildBranchSaveData } from '../utils/timelineBranches';
+import { saveSlotManager } from '../utils/SaveSlotManager';
+import { CURRENT_SCHEMA_VERSION } from '../utils/saveMigrations';
+import { revertTagChanges, markTagChangesReverted } from '../utils/tagJournal';
+import { retrievalIndex } from '../utils/RetrievalIndex';
+import { t } from '../i18n';
 
 export interface GameStateHandlersParams {
     worldData: any;
@@ -11,12 +17,15 @@ export interface GameStateHandlersParams {
     memories: Memory[];
     party: Entity[];
     customRules: CustomRule[];
+    ruleActivationSettings?: RuleActivationSettings;
     systemInstruction: string;
+    promptTemplates: PromptTemplateOverrides;
     turnCount: number;
     totalTokens: number;
     gameTime: any;
     chronicle: any;
     compressedHistory: any[];
+    historySummaries: HistorySummary[];
     historyStats: any;
     cleanupStats: any;
     archivedMemories: Memory[];
@@ -30,9 +39,12 @@ export interface GameStateHandlersParams {
         selectedChoice?: string;
         context?: string;
     }>;
+    tagJournal: TagJournalEntry[];
+    referenceToolLog: ReferenceToolCall[];
     
     // Setters
     setShowSaveSuccess: (show: boolean) => void;
+    setNotification: (message: string | null) => void;
     setStoryLog: (log: string[]) => void;
     setChoices: (choices: string[]) => void;
     setStatuses: (statuses: any[]) => void;
@@ -41,6 +53,7 @@ export interface GameStateHandlersParams {
     setKnownEntities: (entities: { [key: string]: Entity }) => void;
     setParty: (party: Entity[]) => void;
     setCustomRules: (rules: CustomRule[]) => void;
+    setRuleActivationSettings: (settings: RuleActivationSettings | undefined) => void;
     setTurnCount: (count: number) => void;
     setTotalTokens: (tokens: number) => void;
     setGameTime: (time: any) => void;
@@ -49,41 +62,57 @@ export interface GameStateHandlersParams {
     setGameHistory: (history: any[]) => void;
     setHasGeneratedInitialStory: (generated: boolean) => void;
     setIsLoading: (loading: boolean) => void;
+    setLocationDiscoveryOrder: (order: string[]) => void;
+    setTagJournal: (journal: TagJournalEntry[] | ((prev: TagJournalEntry[]) => TagJournalEntry[])) => void;
+    setCompressedHistory: (history: CompressedHistorySegment[]) => void;
     
     // Refs and other state
     isGeneratingRef: React.MutableRefObject<boolean>;
     initialGameState: SaveData;
     previousRulesRef: React.MutableRefObject<CustomRule[]>;
+    
+    // Turn undo/redo
+    serializeTurnSnapshots: () => SerializedTurnSnapshots;
+    resetTurnHistory: () => void;
+
+    // Branching timelines
+    serializeTimelines: () => TimelineTree | undefined;
+    serializeBranchSnapshots: (branchId: string) => SerializedTurnSnapshots | null;
+    getBranchTip: (branchId: string) => TurnSnapshot | null;
 }
 
 export const createGameStateHandlers = (params: GameStateHandlersParams) => {
     const {
         worldData, knownEntities, statuses, quests, gameHistory, memories, party,
-        customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle,
-        compressedHistory, historyStats, cleanupStats, archivedMemories, memoryStats,
-        storyLog, choices, locationDiscoveryOrder, choiceHistory,
-        setShowSaveSuccess, setStoryLog, setChoices, setStatuses, setQuests, setMemories,
-        setKnownEntities, setParty, setCustomRules, setTurnCount, setTotalTokens, setGameTime, setChronicle,
+        customRules, ruleActivationSettings, systemInstruction, promptTemplates, turnCount, totalTokens, gameTime, chronicle,
+        compressedHistory, historySummaries, historyStats, cleanupStats, archivedMemories, memoryStats,
+        storyLog, choices, locationDiscoveryOrder, choiceHistory, tagJournal, referenceToolLog,
+        setShowSaveSuccess, setNotification, setStoryLog, setChoices, setStatuses, setQuests, setMemories,
+        setKnownEntities, setParty, setCustomRules, setRuleActivationSettings, setTurnCount, setTotalTokens, setGameTime, setChronicle,
         setRuleChanges, setGameHistory, setHasGeneratedInitialStory, setIsLoading,
-        isGeneratingRef, initialGameState, previousRulesRef
+        setLocationDiscoveryOrder, setTagJournal, setCompressedHistory,
+        isGeneratingRef, initialGameState, previousRulesRef,
+        serializeTurnSnapshots, resetTurnHistory,
+        serializeTimelines, serializeBranchSnapshots, getBranchTip
     } = params;
 
-    const handleSaveGame = () => {
-        setShowSaveSuccess(true);
-        setTimeout(() => setShowSaveSuccess(false), 3000);
+    const buildSaveData = (): SaveData => ({
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        worldData, knownEntities, statuses, quests, gameHistory, memories, party,
+        customRules, ruleActivationSettings, systemInstruction, promptTemplates, turnCount, totalTokens, gameTime, chronicle,
+        compressedHistory, historySummaries, historyStats, cleanupStats, archivedMemories, memoryStats,
+        storyLog, choices, locationDiscoveryOrder, choiceHistory, tagJournal, referenceToolLog,
+        retrievalIndex: retrievalIndex.serialize(),
+        turnSnapshots: serializeTurnSnapshots(),
+        timelines: serializeTimelines()
+    });
 
-        const currentGameState: SaveData = {
-            worldData, knownEntities, statuses, quests, gameHistory, memories, party,
-            customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle,
-            compressedHistory, historyStats, cleanupStats, archivedMemories, memoryStats,
-            storyLog, choices, locationDiscoveryOrder, choiceHistory
-        };
-        
-        const jsonString = JSON.stringify(currentGameState, null, 2);
+    const downloadSaveData = (data: SaveData, suffix: string = '') => {
+        const jsonString = JSON.stringify(data, null, 2);
         const blob = new Blob([jsonString], { type: 'application/json' });
         const url = URL.createObjectURL(blob);
         const link = document.createElement('a');
-        link.download = `AI-RolePlay-${worldData.characterName?.replace(/\s+/g, '_') || 'NhanVat'}-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+        link.download = `AI-RolePlay-${worldData.characterName?.replace(/\s+/g, '_') || 'NhanVat'}${suffix}-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
         link.href = url;
         document.body.appendChild(link);
         link.click();
@@ -91,6 +120,62 @@ export const createGameStateHandlers = (params: GameStateHandlersParams) => {
         URL.revokeObjectURL(url);
     };
 
+    const handleSaveGame = () => {
+        setShowSaveSuccess(true);
+        setTimeout(() => setShowSaveSuccess(false), 3000);
+        downloadSaveData(buildSaveData());
+    };
+
+    const notify = (message: string) => {
+        setNotification(message);
+        setTimeout(() => setNotification(null), 3000);
+    };
+
+    // --- In-browser save library (IndexedDB) ---
+    const handleSaveToSlot = async (name?: string, slotId?: string): Promise<SaveSlotMeta | null> => {
+        try {
+            const meta = await saveSlotManager.saveToSlot(buildSaveData(), { name, id: slotId });
+            notify(t('handlers.savedToLibrary', { name: meta.name }));
+            return meta;
+        } catch (error) {
+            console.error('❌ Failed to save to slot:', error);
+            notify(t('handlers.saveToLibraryFailed'));
+            return null;
+        }
+    };
+
+    const handleQuicksave = async () => {
+        try {
+            await saveSlotManager.quicksave(buildSaveData());
+            notify(t('handlers.quicksaved'));
+        } catch (error) {
+            console.error('❌ Quicksave failed:', error);
+            notify(t('handlers.quicksaveFailed'));
+        }
+    };
+
+    // Autosave stays quiet on success so it does not interrupt play
+    const handleAutosave = async () => {
+        try {
+            await saveSlotManager.autosave(buildSaveData());
+        } catch (error) {
+            console.error('❌ Autosave failed:', error);
+            notify(t('handlers.autosaveFailed'));
+        }
+    };
+
+    // Export one branch as a plain linear save (no timeline tree)
+    const handleExportTimelineBranch = (branchId: string, branchName: string) => {
+        const tip = getBranchTip(branchId);
+        const turnSnapshots = serializeBranchSnapshots(branchId);
+        if (!tip || !turnSnapshots) {
+            console.warn(`⚠️ Cannot export branch ${branchId}: no recorded turns`);
+            return;
+        }
+        const branchSave = buildBranchSaveData(buildSaveData(), tip, turnSnapshots);
+        downloadSaveData(branchSave, `-${branchName.replace(/\s+/g, '_')}`);
+    };
+
     const handleRestartGame = () => {
         setIsLoading(true);
         setStoryLog([]);
@@ -140,9 +225,61 @@ export const createGameStateHandlers = (params: GameStateHandlersParams) => {
         previousRulesRef.current = initialGameState.customRules;
         setGameHistory([]);
         setHasGeneratedInitialStory(false);
+        resetTurnHistory();
         isGeneratingRef.current = false;
     };
 
+    // Restore the state captured by an undo/redo snapshot
+    const handleRestoreTurnSnapshot = (snapshot: TurnSnapshot) => {
+        const { state } = snapshot;
+        setKnownEntities(state.knownEntities);
+        setStatuses(state.statuses);
+        setQuests(state.quests);
+        setParty(state.party);
+        setMemories(state.memories);
+        setGameTime(state.gameTime);
+        setChronicle(state.chronicle);
+        setGameHistory(state.gameHistory);
+        setStoryLog(state.storyLog);
+        setChoices(state.choices);
+        setTurnCount(state.turnCount);
+        setTagJournal(state.tagJournal || []);
+        // Snapshots from older saves lack these; keep the current values rather than wipe them
+        if (state.locationDiscoveryOrder) setLocationDiscoveryOrder(state.locationDiscoveryOrder);
+        if (state.compressedHistory) setCompressedHistory(state.compressedHistory);
+        console.log(`⏪ Restored game state to turn ${snapshot.turn}`);
+    };
+
+    // Reverts one change of a journal entry, or every change of it when changeIndex is omitted
+    const handleRevertTagChange = (entryId: string, changeIndex?: number) => {
+        const entry = tagJournal.find(e => e.id === entryId);
+        if (!entry) return;
+
+        const indexes = changeIndex === undefined
+            ? entry.changes.map((_, index) => index).filter(index => !entry.changes[index].reverted)
+            : [changeIndex];
+        const { state: reverted, applied } = revertTagChanges(
+            { knownEntities, statuses, quests, party, memories, gameTime, chronicle, locationDiscoveryOrder },
+            indexes.map(index => entry.changes[index])
+        );
+        const appliedIndexes = indexes.filter((_, position) => applied[position]);
+        if (appliedIndexes.length === 0) {
+            notify(t('handlers.revertBlocked'));
+            return;
+        }
+
+        if (reverted.knownEntities) setKnownEntities(reverted.knownEntities);
+        if (reverted.statuses) setStatuses(reverted.statuses);
+        if (reverted.quests) setQuests(reverted.quests);
+        if (reverted.party) setParty(reverted.party);
+        if (reverted.memories) setMemories(reverted.memories);
+        if (reverted.gameTime) setGameTime(reverted.gameTime);
+        if (reverted.chronicle) setChronicle(reverted.chronicle);
+        if (reverted.locationDiscoveryOrder) setLocationDiscoveryOrder(reverted.locationDiscoveryOrder);
+        setTagJournal(prev => markTagChangesReverted(prev, entryId, appliedIndexes));
+        notify(t('handlers.reverted', { tag: entry.tag, applied: appliedIndexes.length, total: indexes.length }));
+    };
+
     // Settings change is now handled by useGameSettings hook
 
     const handleToggleMemoryPin = (index: number) => {
@@ -151,9 +288,16 @@ export const createGameStateHandlers = (params: GameStateHandlersParams) => {
         ));
     };
 
-    const handleSaveRules = (newRules: CustomRule[], setShowRulesSavedSuccess: (show: boolean) => void) => {
+    const handleSaveRules = (
+        newRules: CustomRule[],
+        setShowRulesSavedSuccess: (show: boolean) => void,
+        activationSettings?: RuleActivationSettings
+    ) => {
         // Rule change detection logic
         setCustomRules(newRules);
+        if (activationSettings) {
+            setRuleActivationSettings(activationSettings);
+        }
         previousRulesRef.current = JSON.parse(JSON.stringify(newRules));
         setShowRulesSavedSuccess(true);
         setTimeout(() => setShowRulesSavedSuccess(false), 3500);
@@ -162,6 +306,12 @@ export const createGameStateHandlers = (params: GameStateHandlersParams) => {
     return {
         handleSaveGame,
         handleRestartGame,
+        handleRestoreTurnSnapshot,
+        handleRevertTagChange,
+        handleExportTimelineBranch,
+        handleSaveToSlot,
+        handleQuicksave,
+        handleAutosave,
         handleToggleMemoryPin,
         handleSaveRules
     };
@@ -17,10 +17,19 @@ export const useGameSettings = (): [GameSettingsState, GameSettingsActions] => {
             fontFamily: 'Inter',
             memoryAutoClean: true,
             historyAutoCompress: true,
+            llmHistorySummaries: false,
             maxActiveHistoryEntries: 100,
             historyCompressionThreshold: 72,
             themeColor: 'purple',
             enableCOT: false,
+            enableStreaming: true,
+            enableReferenceTools: false,
+            maxReferenceToolHops: 3,
+            semanticRecall: 'off',
+            embeddingBaseUrl: 'http://localhost:11434/v1',
+            embeddingModel: '',
+            embeddingApiKey: '',
+            autosaveInterval: 5,
             // Entity Export Settings
             entityExportEnabled: true,
             entityExportInterval: 7,
@@ -1,6 +1,5 @@
 import { useState, useEffect } from 'react';
-import type { SaveData, KnownEntities, Status, Quest, GameHistoryEntry, Memory, Entity, CustomRule, Chronicle, RegexRule, NPCPresent } from '../types';
-import { MemoryMigration } from '../utils/MemoryMigration';
+import type { SaveData, KnownEntities, Status, Quest, GameHistoryEntry, Memory, Entity, CustomRule, Chronicle, RegexRule, NPCPresent, TagJournalEntry, RuleActivationSettings, ReferenceToolCall, PromptTemplateOverrides } from '../types';
 
 export interface GameState {
     // Core game data
@@ -12,8 +11,10 @@ export interface GameState {
     memories: Memory[];
     party: Entity[];
     customRules: CustomRule[];
+    ruleActivationSettings?: RuleActivationSettings;
     regexRules: RegexRule[];
     systemInstruction: string;
+    promptTemplates: PromptTemplateOverrides;
     chronicle: Chronicle;
     gameTime: any;
     
@@ -48,6 +49,12 @@ export interface GameState {
         finalResponseQuality: any;
         performanceMetrics: any;
     }>;
+
+    // What each applied command tag changed
+    tagJournal: TagJournalEntry[];
+
+    // Reference lookups the model made through function calling
+    referenceToolLog: ReferenceToolCall[];
     
     // UI state
     isLoading: boolean;
@@ -65,8 +72,10 @@ export interface GameStateActions {
     setMemories: (memories: Memory[] | ((prev: Memory[]) => Memory[])) => void;
     setParty: (party: Entity[] | ((prev: Entity[]) => Entity[])) => void;
     setCustomRules: (rules: CustomRule[]) => void;
+    setRuleActivationSettings: (settings: RuleActivationSettings | undefined) => void;
     setRegexRules: (rules: RegexRule[] | ((prev: RegexRule[]) => RegexRule[])) => void;
     setSystemInstruction: (instruction: string) => void;
+    setPromptTemplates: (templates: PromptTemplateOverrides) => void;
     setChronicle: (chronicle: Chronicle | ((prev: Chronicle) => Chronicle)) => void;
     setGameTime: (time: any | ((prev: any) => any)) => void;
     
@@ -84,6 +93,9 @@ export interface GameStateActions {
     
     // COT Research logging setter
     setCotResearchLog: (log: any[] | ((prev: any[]) => any[])) => void;
+
+    setTagJournal: (journal: TagJournalEntry[] | ((prev: TagJournalEntry[]) => TagJournalEntry[])) => void;
+    setReferenceToolLog: (log: ReferenceToolCall[] | ((prev: ReferenceToolCall[]) => ReferenceToolCall[])) => void;
     
     // UI state setters
     setIsLoading: (loading: boolean) => void;
@@ -103,18 +115,14 @@ export const useGameState = (
     const [statuses, setStatuses] = useState<Status[]>(initialGameState.statuses);
     const [quests, setQuests] = useState<Quest[]>(initialGameState.quests);
     const [gameHistory, setGameHistory] = useState<GameHistoryEntry[]>(initialGameState.gameHistory);
-    const [memories, setMemories] = useState<Memory[]>(() => {
-        // Auto-migrate memories to enhanced format if needed
-        if (MemoryMigration.needsMigration(initialGameState.memories)) {
-            const migratedState = MemoryMigration.autoMigrateOnLoad(initialGameState);
-            return migratedState.memories;
-        }
-        return initialGameState.memories;
-    });
+    // Legacy memories are upgraded by the save migration pipeline before the game mounts
+    const [memories, setMemories] = useState<Memory[]>(initialGameState.memories);
     const [party, setParty] = useState<Entity[]>(initialGameState.party);
     const [customRules, setCustomRules] = useState<CustomRule[]>(initialGameState.customRules);
+    const [ruleActivationSettings, setRuleActivationSettings] = useState<RuleActivationSettings | undefined>(initialGameState.ruleActivationSettings);
     const [regexRules, setRegexRules] = useState<RegexRule[]>(initialGameState.regexRules || []);
     const [systemInstruction, setSystemInstruction] = useState<string>(initialGameState.systemInstruction);
+    const [promptTemplates, setPromptTemplates] = useState<PromptTemplateOverrides>(initialGameState.promptTemplates || {});
     const [chronicle, setChronicle] = useState<Chronicle>(initialGameState.chronicle);
     const [gameTime, setGameTime] = useState(initialGameState.gameTime || { year: 1, month: 1, day: 1, hour: 8, minute: 0 });
     
@@ -198,6 +206,8 @@ export const useGameState = (
         finalResponseQuality: any;
         performanceMetrics: any;
     }>>(initialGameState.cotResearchLog || []);
+    const [tagJournal, setTagJournal] = useState<TagJournalEntry[]>(initialGameState.tagJournal || []);
+    const [referenceToolLog, setReferenceToolLog] = useState<ReferenceToolCall[]>(initialGameState.referenceToolLog || []);
     
     // UI state
     const [isLoading, setIsLoading] = useState(initialGameState.gameHistory.length === 0 && isAiReady);
@@ -229,8 +239,10 @@ export const useGameState = (
         memories,
         party,
         customRules,
+        ruleActivationSettings,
         regexRules,
         systemInstruction,
+        promptTemplates,
         chronicle,
         gameTime,
         turnCount,
@@ -242,6 +254,8 @@ export const useGameState = (
         locationDiscoveryOrder,
         choiceHistory,
         cotResearchLog,
+        tagJournal,
+        referenceToolLog,
         isLoading,
         hasGeneratedInitialStory,
         customAction
@@ -256,8 +270,10 @@ export const useGameState = (
         setMemories,
         setParty,
         setCustomRules,
+        setRuleActivationSettings,
         setRegexRules,
         setSystemInstruction,
+        setPromptTemplates,
         setChronicle,
         setGameTime,
         setTurnCount,
@@ -269,6 +285,8 @@ export const useGameState = (
         setLocationDiscoveryOrder,
         updateChoiceHistory,
         setCotResearchLog,
+        setTagJournal,
+        setReferenceToolLog,
         setIsLoading,
         setHasGeneratedInitialStory,
         setCustomAction
@@ -1,8 +1,9 @@
 import { useState } from 'react';
-import type { SaveData, CompressedHistorySegment } from '../types.ts';
+import type { SaveData, CompressedHistorySegment, HistorySummary } from '../types.ts';
 
 export interface HistoryCompressionState {
     compressedHistory: CompressedHistorySegment[];
+    historySummaries: HistorySummary[];
     historyStats: {
         totalEntriesProcessed: number;
         totalTokensSaved: number;
@@ -13,6 +14,7 @@ export interface HistoryCompressionState {
 
 export interface HistoryCompressionActions {
     setCompressedHistory: (history: CompressedHistorySegment[] | ((prev: CompressedHistorySegment[]) => CompressedHistorySegment[])) => void;
+    setHistorySummaries: (summaries: HistorySummary[] | ((prev: HistorySummary[]) => HistorySummary[])) => void;
     setHistoryStats: (stats: any | ((prev: any) => any)) => void;
     setCleanupStats: (stats: SaveData['cleanupStats'] | ((prev: SaveData['cleanupStats']) => SaveData['cleanupStats'])) => void;
 }
@@ -23,6 +25,10 @@ export const useHistoryCompression = (
     const [compressedHistory, setCompressedHistory] = useState<CompressedHistorySegment[]>(
         initialGameState.compressedHistory || []
     );
+
+    const [historySummaries, setHistorySummaries] = useState<HistorySummary[]>(
+        initialGameState.historySummaries || []
+    );
     
     const [historyStats, setHistoryStats] = useState(
         initialGameState.historyStats || { 
@@ -43,12 +49,14 @@ export const useHistoryCompression = (
 
     const historyCompressionState: HistoryCompressionState = {
         compressedHistory,
+        historySummaries,
         historyStats,
         cleanupStats
     };
 
     const historyCompressionActions: HistoryCompressionActions = {
         setCompressedHistory,
+        setHistorySummaries,
         setHistoryStats,
         setCleanupStats
     };
@@ -0,0 +1,22 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getLocale, setLocale, subscribeLocale, t as translate, type Locale, type TranslationKey, type TranslationParams } from '../i18n';
+
+export interface I18nState {
+    locale: Locale;
+}
+
+export interface I18nActions {
+    setLocale: (locale: Locale) => void;
+    t: (key: TranslationKey, params?: TranslationParams) => string;
+}
+
+export const useI18n = (): [I18nState, I18nActions] => {
+    const [locale, setLocaleState] = useState<Locale>(getLocale);
+
+    // Follow locale changes made anywhere in the app
+    useEffect(() => subscribeLocale(setLocaleState), []);
+
+    const t = useCallback((key: TranslationKey, params?: TranslationParams) => translate(key, params, locale), [locale]);
+
+    return [{ locale }, { setLocale, t }];
+};
@@ -24,6 +24,10 @@ export interface ModalState {
     isEditPCModalOpen: boolean;
     isEditLocationModalOpen: boolean;
     isRegexManagerModalOpen: boolean;
+    isTimelineModalOpen: boolean;
+    isPromptInspectorModalOpen: boolean;
+    isPromptTemplatesModalOpen: boolean;
+    isSaveLibraryModalOpen: boolean;
     
     // Active modal entities
     activeEntity: Entity | null;
@@ -64,6 +68,10 @@ export interface ModalStateActions {
     setIsEditPCModalOpen: (open: boolean) => void;
     setIsEditLocationModalOpen: (open: boolean) => void;
     setIsRegexManagerModalOpen: (open: boolean) => void;
+    setIsTimelineModalOpen: (open: boolean) => void;
+    setIsPromptInspectorModalOpen: (open: boolean) => void;
+    setIsPromptTemplatesModalOpen: (open: boolean) => void;
+    setIsSaveLibraryModalOpen: (open: boolean) => void;
     
     // Active modal entity setters
     setActiveEntity: (entity: Entity | null) => void;
@@ -100,6 +108,10 @@ export interface ModalStateActions {
         editPC: () => void;
         editLocation: () => void;
         regexManager: () => void;
+        timeline: () => void;
+        promptInspector: () => void;
+        promptTemplates: () => void;
+        saveLibrary: () => void;
     };
 }
 
@@ -126,6 +138,10 @@ export const useModalState = (): [ModalState, ModalStateActions] => {
     const [isEditPCModalOpen, setIsEditPCModalOpen] = useState(false);
     const [isEditLocationModalOpen, setIsEditLocationModalOpen] = useState(false);
     const [isRegexManagerModalOpen, setIsRegexManagerModalOpen] = useState(false);
+    const [isTimelineModalOpen, setIsTimelineModalOpen] = useState(false);
+    const [isPromptInspectorModalOpen, setIsPromptInspectorModalOpen] = useState(false);
+    const [isPromptTemplatesModalOpen, setIsPromptTemplatesModalOpen] = useState(false);
+    const [isSaveLibraryModalOpen, setIsSaveLibraryModalOpen] = useState(false);
     
     // Active modal entities
     const [activeEntity, setActiveEntity] = useState<Entity | null>(null);
@@ -178,6 +194,10 @@ export const useModalState = (): [ModalState, ModalStateActions] => {
             setActiveEditLocation(null);
         },
         regexManager: () => setIsRegexManagerModalOpen(false),
+        timeline: () => setIsTimelineModalOpen(false),
+        promptInspector: () => setIsPromptInspectorModalOpen(false),
+        promptTemplates: () => setIsPromptTemplatesModalOpen(false),
+        saveLibrary: () => setIsSaveLibraryModalOpen(false),
     }), []);
 
     const modalState: ModalState = {
@@ -202,6 +222,10 @@ export const useModalState = (): [ModalState, ModalStateActions] => {
         isEditPCModalOpen,
         isEditLocationModalOpen,
         isRegexManagerModalOpen,
+        isTimelineModalOpen,
+        isPromptInspectorModalOpen,
+        isPromptTemplatesModalOpen,
+        isSaveLibraryModalOpen,
         activeEntity,
         activeStatus,
         activeQuest,
@@ -237,6 +261,10 @@ export const useModalState = (): [ModalState, ModalStateActions] => {
         setIsEditPCModalOpen,
         setIsEditLocationModalOpen,
         setIsRegexManagerModalOpen,
+        setIsTimelineModalOpen,
+        setIsPromptInspectorModalOpen,
+        setIsPromptTemplatesModalOpen,
+        setIsSaveLibraryModalOpen,
         setActiveEntity,
         setActiveStatus,
         setActiveQuest,
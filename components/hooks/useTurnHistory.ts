@@ -0,0 +1,185 @@
+import { useState, useRef, useCallback } from 'react';
+import type { SaveData, TurnSnapshot, TurnSnapshotState, SerializedTurnSnapshots, TimelineBranch, TimelineTree } from '../types.ts';
+import { TurnSnapshotManager } from '../utils/TurnSnapshotManager';
+import { createTimelineTree, forkTimeline, switchTimeline, updateBranchTip } from '../utils/timelineBranches';
+
+export interface TurnHistoryState {
+    canUndo: boolean;
+    canRedo: boolean;
+    undoDepth: number;
+    redoDepth: number;
+    branches: TimelineBranch[];
+    activeBranchId: string;
+}
+
+export interface TurnHistoryActions {
+    recordTurn: (turn: number, state: TurnSnapshotState) => void;
+    getCurrentSnapshot: () => TurnSnapshot | null;
+    undoTurn: () => TurnSnapshot | null;
+    redoTurn: () => TurnSnapshot | null;
+    serializeTurnSnapshots: () => SerializedTurnSnapshots;
+    resetTurnHistory: () => void;
+    // Branching timelines
+    getForkableTurns: () => TurnSnapshot[];
+    getBranchTip: (branchId: string) => TurnSnapshot | null;
+    forkAtTurn: (turn: number, name: string) => TurnSnapshot | null;
+    switchBranch: (branchId: string) => TurnSnapshot | null;
+    serializeBranchSnapshots: (branchId: string) => SerializedTurnSnapshots | null;
+    serializeTimelines: () => TimelineTree | undefined;
+}
+
+const stripSnapshots = (tree: TimelineTree): TimelineTree => ({
+    ...tree,
+    branches: tree.branches.map(({ snapshots, ...branch }) => branch)
+});
+
+export const useTurnHistory = (
+    initialGameState: SaveData
+): [TurnHistoryState, TurnHistoryActions] => {
+    const managerRef = useRef<TurnSnapshotManager | null>(null);
+    // Undo history of every branch that is not currently active
+    const inactiveManagersRef = useRef<Map<string, TurnSnapshotManager> | null>(null);
+    if (!managerRef.current) {
+        managerRef.current = TurnSnapshotManager.deserialize(initialGameState.turnSnapshots);
+    }
+    if (!inactiveManagersRef.current) {
+        const inactive = new Map<string, TurnSnapshotManager>();
+        initialGameState.timelines?.branches.forEach(branch => {
+            if (branch.id !== initialGameState.timelines!.activeBranchId) {
+                inactive.set(branch.id, TurnSnapshotManager.deserialize(branch.snapshots));
+            }
+        });
+        inactiveManagersRef.current = inactive;
+    }
+
+    const [timelineTree, setTimelineTree] = useState<TimelineTree>(() =>
+        initialGameState.timelines
+            ? stripSnapshots(initialGameState.timelines)
+            : createTimelineTree(initialGameState.turnCount || 0)
+    );
+    const timelineTreeRef = useRef(timelineTree);
+    timelineTreeRef.current = timelineTree;
+
+    // The managers are mutable; bump a counter so the undo/redo buttons re-render
+    const [, setRevision] = useState(0);
+    const bump = useCallback(() => setRevision((prev: number) => prev + 1), []);
+
+    const recordTurn = useCallback((turn: number, state: TurnSnapshotState) => {
+        managerRef.current!.record(turn, state);
+        bump();
+    }, [bump]);
+
+    const undoTurn = useCallback(() => {
+        const snapshot = managerRef.current!.undo();
+        bump();
+        return snapshot;
+    }, [bump]);
+
+    const redoTurn = useCallback(() => {
+        const snapshot = managerRef.current!.redo();
+        bump();
+        return snapshot;
+    }, [bump]);
+
+    const getCurrentSnapshot = useCallback(() => managerRef.current!.current(), []);
+    const serializeTurnSnapshots = useCallback(() => managerRef.current!.serialize(), []);
+
+    const resetTurnHistory = useCallback(() => {
+        managerRef.current!.clear();
+        inactiveManagersRef.current!.clear();
+        setTimelineTree(createTimelineTree());
+        bump();
+    }, [bump]);
+
+    const getForkableTurns = useCallback(() => managerRef.current!.getHistory(), []);
+
+    const getBranchManager = (branchId: string): TurnSnapshotManager | null => {
+        if (branchId === timelineTreeRef.current.activeBranchId) return managerRef.current;
+        return inactiveManagersRef.current!.get(branchId) || null;
+    };
+
+    const getBranchTip = useCallback((branchId: string) => getBranchManager(branchId)?.current() || null, []);
+
+    // Parks the active manager and records how far the active branch got
+    const deactivateCurrentBranch = (tree: TimelineTree): TimelineTree => {
+        const current = managerRef.current!;
+        inactiveManagersRef.current!.set(tree.activeBranchId, current);
+        return updateBranchTip(tree, tree.activeBranchId, current.current()?.turn ?? 0);
+    };
+
+    const forkAtTurn = useCallback((turn: number, name: string) => {
+        const parentManager = managerRef.current!;
+        const forkedManager = parentManager.forkAt(turn);
+        if (!forkedManager) return null;
+
+        const parentTree = deactivateCurrentBranch(timelineTreeRef.current);
+        const forked = forkTimeline(parentTree, parentManager.getHistory(), turn, name);
+        if (!forked) return null;
+        managerRef.current = forkedManager;
+
+        timelineTreeRef.current = forked.tree;
+        setTimelineTree(forked.tree);
+        bump();
+        return forkedManager.current();
+    }, [bump]);
+
+    const switchBranch = useCallback((branchId: string) => {
+        const tree: TimelineTree = timelineTreeRef.current;
+        const target = inactiveManagersRef.current!.get(branchId);
+        if (branchId === tree.activeBranchId || !target) return null;
+
+        const nextTree = switchTimeline(deactivateCurrentBranch(tree), branchId);
+        inactiveManagersRef.current!.delete(branchId);
+        managerRef.current = target;
+
+        timelineTreeRef.current = nextTree;
+        setTimelineTree(nextTree);
+        bump();
+        return target.current();
+    }, [bump]);
+
+    const serializeBranchSnapshots = useCallback((branchId: string) => {
+        return getBranchManager(branchId)?.serialize() || null;
+    }, []);
+
+    // Only written to the save once the player has actually forked
+    const serializeTimelines = useCallback((): TimelineTree | undefined => {
+        const tree: TimelineTree = timelineTreeRef.current;
+        if (tree.branches.length <= 1) return undefined;
+        const activeTip = managerRef.current!.current()?.turn ?? 0;
+        return {
+            activeBranchId: tree.activeBranchId,
+            branches: tree.branches.map(branch => branch.id === tree.activeBranchId
+                ? { ...branch, tipTurn: activeTip }
+                : { ...branch, snapshots: inactiveManagersRef.current!.get(branch.id)?.serialize() }
+            )
+        };
+    }, []);
+
+    const manager = managerRef.current;
+    const turnHistoryState: TurnHistoryState = {
+        canUndo: manager.canUndo(),
+        canRedo: manager.canRedo(),
+        undoDepth: manager.getUndoDepth(),
+        redoDepth: manager.getRedoDepth(),
+        branches: timelineTree.branches,
+        activeBranchId: timelineTree.activeBranchId
+    };
+
+    const turnHistoryActions: TurnHistoryActions = {
+        recordTurn,
+        getCurrentSnapshot,
+        undoTurn,
+        redoTurn,
+        serializeTurnSnapshots,
+        resetTurnHistory,
+        getForkableTurns,
+        getBranchTip,
+        forkAtTurn,
+        switchBranch,
+        serializeBranchSnapshots,
+        serializeTimelines
+    };
+
+    return [turnHistoryState, turnHistoryActions];
+};
@@ -0,0 +1,994 @@
+// English UI strings
+
+import type { vi } from './vi';
+
+export const en: Record<keyof typeof vi, string> = {
+    // Common
+    'common.yes': 'Yes',
+    'common.cancel': 'Cancel',
+    'common.confirm': 'Confirm',
+    'common.delete': 'Delete',
+    'common.language': 'Language',
+    'common.turn': 'Turn {turn}',
+
+    // Locale-neutral enums, see utils/gameEnums.ts
+    'mastery.novice': 'Novice',
+    'mastery.intermediate': 'Intermediate',
+    'mastery.advanced': 'Advanced',
+    'mastery.master': 'Master',
+    'mastery.perfect': 'Perfected',
+    'risk.low': 'Low',
+    'risk.medium': 'Medium',
+    'risk.high': 'High',
+    'risk.extreme': 'Extreme',
+    'category.action': 'Action',
+    'category.social': 'Social',
+    'category.explore': 'Explore',
+    'category.combat': 'Combat',
+    'category.travel': 'Travel',
+    'category.timeSkip': 'Time Skip',
+
+    // Category support, keyed supporting category -> supported category
+    'categorySupport.explore.combat': 'What you discovered helps you fight more effectively',
+    'categorySupport.social.combat': 'Talking can distract the opponent',
+    'categorySupport.action.combat': 'Preparation gives a tactical advantage',
+    'categorySupport.explore.action': 'Understanding the situation makes the action more precise',
+    'categorySupport.social.action': 'Persuasion can open up a chance to act',
+    'categorySupport.action.travel': 'Acting first clears the way to move',
+    'categorySupport.explore.travel': 'Exploring helps find a better route',
+    'categorySupport.explore.social': 'Knowing more makes you more persuasive',
+    'categorySupport.generic': '{from} supports {to}',
+    'categorySupport.tooltip': 'Supported by {from}: {explanation}',
+
+    // Main menu
+    'mainMenu.continue': 'Continue',
+    'mainMenu.newWorld': 'Create New World',
+    'mainMenu.quickPlay': 'Play Now',
+    'mainMenu.saveLibrary': 'Save Library',
+    'mainMenu.loadFromFile': 'Load Game From File (.json)',
+    'mainMenu.changelog': 'Game Updates',
+    'mainMenu.apiSettings': 'API Key Settings',
+    'mainMenu.continueFrom': 'Continue:',
+    'mainMenu.currentModel': 'Current AI model:',
+    'mainMenu.toggleSound': 'Toggle sound',
+
+    // Create world
+    'createWorld.title': 'Forge a World',
+    'createWorld.subtitle': 'Build your own unique RPG world',
+    'createWorld.backHome': 'Back to Home',
+    'createWorld.saveSettings': 'Save Setup',
+    'createWorld.loadSettings': 'Load Setup',
+    'createWorld.importWorldSetup': 'Import WorldSetup',
+    'createWorld.importCharacterCard': 'Import Character Card',
+    'createWorld.characterCardHint': 'SillyTavern character card (V2/V3, .json or .png)',
+    'createWorld.tabContext': 'World Setting',
+    'createWorld.tabKnowledge': 'Knowledge',
+    'createWorld.storyContext': 'Story Setting',
+    'createWorld.protagonist': 'Protagonist',
+    'createWorld.chooseMastery': 'Choose a level...',
+    'createWorld.writingStyle': 'Writing style',
+    'createWorld.secondPerson': 'Second person - "You" are the protagonist',
+    'createWorld.firstPerson': 'First person - The protagonist says "I"',
+    'createWorld.gmLanguage': 'GM language:',
+    'createWorld.gmLanguageHint': 'The AI narrates and writes choices in this language for the whole world.',
+    'createWorld.difficultyTitle': 'Difficulty & Content',
+    'createWorld.chooseDifficulty': 'Choose a difficulty:',
+    'createWorld.difficultyEasy': 'Easy - Just enough challenge',
+    'createWorld.difficultyNormal': 'Normal - Balanced, suits most players',
+    'createWorld.difficultyHard': 'Hard - Tough challenges',
+    'createWorld.allowNsfw': 'Allow 18+ content (Very detailed)',
+    'createWorld.allowNsfwHint': 'When checked, the AI tells a story with 18+ scenes (including violence) and allows nsfw custom actions.',
+    'createWorld.initializing': 'Creating the world...',
+    'createWorld.start': 'Create World',
+    'createWorld.aiNotReady': 'AI is not ready',
+    'createWorld.startHint': 'Press the button above to start your RPG adventure with the AI',
+    'createWorld.genreSuggestions': 'Genre suggestions',
+
+    // Choice panel
+    'choices.title': '⚔️ Your Choices',
+    'choices.aiNotReady': 'AI is not ready',
+    'choices.loading': 'Loading choices...',
+    'choices.questObjective': 'Objective "{objective}" of quest "{quest}"',
+    'choices.successRate': 'Success rate:',
+    'choices.risk': 'Risk:',
+    'choices.rewards': 'Rewards:',
+    'choices.defaultRewards': 'Moves the story forward and opens up new opportunities.',
+    'choices.supportedByPrevious': 'Supported by your previous choice',
+    'choices.riskReducedBySupport': 'Risk reduced by support',
+    'choices.skillRaisedRate': '{skill} raised the success rate',
+    'choices.skillReducedRisk': '{skill} reduced the risk',
+    'choices.customAction': '💭 Custom action',
+    'choices.customActionHint': 'Type your own action (add "nsfw" at the end for 18+ content)',
+    'choices.customActionLocked': 'Custom actions are locked by a rule',
+    'choices.customActionPlaceholder': 'E.g. pick up the stone...',
+    'choices.suggestAction': 'Suggest an action',
+    'choices.send': 'Send',
+    'choices.sendAction': 'Send action',
+    'choices.cooldown': 'Wait {seconds}s',
+
+    // Status panel
+    'statusPanel.tab.character': 'Character',
+    'statusPanel.tab.party': 'Party',
+    'statusPanel.tab.npcs': 'NPCs Present',
+    'statusPanel.tab.quests': 'Quests',
+    'statusPanel.tab.changes': 'Changes',
+    'statusPanel.tab.lookups': 'Lookups',
+    'statusPanel.slice.knownEntities': 'Entities',
+    'statusPanel.slice.statuses': 'Statuses',
+    'statusPanel.slice.quests': 'Quests',
+    'statusPanel.slice.party': 'Party',
+    'statusPanel.slice.memories': 'Memories',
+    'statusPanel.slice.gameTime': 'Time',
+    'statusPanel.slice.chronicle': 'Chronicle',
+    'statusPanel.slice.locationDiscoveryOrder': 'Locations',
+    'statusPanel.noCharacter': 'No character information',
+    'statusPanel.uploadAvatar': 'Upload avatar',
+    'statusPanel.changeAvatar': 'Click to change the avatar',
+    'statusPanel.uploadAvatarHint': 'Click to upload an avatar',
+    'statusPanel.protagonist': 'Protagonist',
+    'statusPanel.name': 'Name:',
+    'statusPanel.gender': 'Gender:',
+    'statusPanel.age': 'Age:',
+    'statusPanel.location': 'Location:',
+    'statusPanel.appearance': 'Appearance:',
+    'statusPanel.realm': 'Power:',
+    'statusPanel.exp': 'Experience:',
+    'statusPanel.fame': 'Fame:',
+    'statusPanel.noFame': 'No reputation yet',
+    'statusPanel.personalityOuter': 'Personality (Outward):',
+    'statusPanel.personalityCore': 'Personality (Core):',
+    'statusPanel.motivation': 'Motivation:',
+    'statusPanel.description': 'Description:',
+    'statusPanel.skillsTitle': '🛡️ Skills & Techniques',
+    'statusPanel.learnedSkills': 'Learned skills:',
+    'statusPanel.otherSkills': 'Other skills:',
+    'statusPanel.noSkills': 'No skills learned yet.',
+    'statusPanel.statusesTitle': '⚡ Current statuses ({count})',
+    'statusPanel.turnsLeft': '{turns} turns left',
+    'statusPanel.deleteStatus': 'Remove status',
+    'statusPanel.noStatuses': 'In normal condition',
+    'statusPanel.inventoryTitle': '🎒 Inventory ({count})',
+    'statusPanel.discard': 'Discard',
+    'statusPanel.noParty': 'No party members yet',
+    'statusPanel.skills': 'Skills:',
+    'statusPanel.noNpcs': 'No NPCs present',
+    'statusPanel.npcsHint': 'NPCs are created by the AI when they appear in the story',
+    'statusPanel.aiCreated': 'Created by the AI from the story',
+    'statusPanel.relationship': 'Relationship:',
+    'statusPanel.innerThoughts': 'Inner thoughts:',
+    'statusPanel.unknown': 'Unknown',
+    'statusPanel.undetermined': 'Undetermined',
+    'statusPanel.noThoughts': 'No thoughts generated.',
+    'statusPanel.noChanges': 'No changes recorded yet',
+    'statusPanel.revertChange': 'Revert this change',
+    'statusPanel.revertAll': 'Revert all',
+    'statusPanel.noQuests': 'No quests yet',
+    'statusPanel.questCompleted': 'Completed',
+    'statusPanel.questFailed': 'Failed',
+    'statusPanel.questActive': 'In progress',
+    'statusPanel.objectives': 'Objectives:',
+    'statusPanel.rewards': '🏆 Rewards:',
+    'statusPanel.confirmDiscard': 'Confirm discard',
+    'statusPanel.confirmDiscardMessage': 'Do you want to remove this item?{name}',
+    'statusPanel.confirmDeleteStatus': 'Confirm status removal',
+    'statusPanel.confirmDeleteStatusMessage': 'Do you want to remove this status?{name}',
+
+    // Load errors shown by the app shell
+    'app.loadNotJson': 'Please choose a .json file',
+    'app.loadUnreadable': 'Could not read the file contents.',
+    'app.loadCorrupt': 'Could not read the save file. It may be corrupted or not valid JSON.',
+    'app.loadReadError': 'Error while reading the file.',
+    'app.slotNotFound': 'This save was not found in the browser.',
+    'app.slotCorrupt': 'Could not load the save. The data may be corrupted.',
+
+    // Desktop header
+    'header.home': 'Home',
+    'header.gameMenu': 'Game',
+    'header.undo': 'Undo the last turn',
+    'header.redo': 'Redo the undone turn',
+    'header.defaultStoryName': 'Adventure Log',
+    'header.unknownGenre': 'Undetermined',
+    'header.turnTokens': 'Turn: {tokens}',
+    'header.totalTokens': 'Total: {tokens}',
+    'header.save': 'Save',
+    'header.loadGame': 'Load Game',
+    'header.gameTime': 'Year {year}, Month {month}, Day {day}, {hour}:{minute}',
+    'header.map': 'Map',
+    'header.playerMenu': 'Player',
+    'header.settings': '⚙️ Settings',
+    'header.saveLibrary': '📚 Save Library',
+    'header.exportWorldSetup': '📤 Export WorldSetup',
+    'header.timeline': '🌿 Timeline',
+    'header.loadKnowledge': 'Load Knowledge',
+    'header.regexManager': '🔧 Regex Manager',
+    'header.knowledge': 'Knowledge',
+    'header.memory': 'Memories',
+    'header.cleanup': '🧹 Cleanup',
+    'header.admin': '⚙️ Admin Panel',
+    'header.promptInspector': '🔬 Prompt Inspector',
+    'header.promptTemplates': '📝 Prompt Templates',
+    'header.restart': 'Restart',
+    'header.inventory': '🎒 Inventory',
+
+    // Memory modal
+    'memory.title': 'Memory Stream',
+    'memory.pinnedCount': '📌 {count} pinned',
+    'memory.totalCount': '📄 {count} total',
+    'memory.sortedByImportance': '🎯 Sorted by importance',
+    'memory.pinnedBadge': '📌 PINNED',
+    'memory.moreEntities': '+{count} more',
+    'memory.unpin': 'Unpin',
+    'memory.pin': 'Pin',
+    'memory.hiddenNotice': '...and {count} older memories are hidden. Pin important memories to keep them visible.',
+    'memory.empty': 'No new memories yet.',
+
+    // Prompt inspector
+    'promptInspector.title': '🔬 Prompt Inspector',
+    'promptInspector.sectionItems': ' • {included}/{total} items',
+    'promptInspector.sectionOmitted': ' • {count} dropped for budget',
+    'promptInspector.empty': 'No prompts in this session yet. Each turn\'s prompt will show up here once it has been sent.',
+    'promptInspector.totals': 'Prompt ~{total} / {softLimit} tokens • System ~{system} tokens • {sections} sections',
+    'promptInspector.uncalibrated': 'The token estimator is not calibrated for this model yet (using the default ratio).',
+    'promptInspector.accuracy': 'Token estimate ({model}): {stats}',
+    'promptInspector.accuracyStat': '{type} actual/estimated {efficiency}, error ±{error}% ({samples} turns)',
+    'promptInspector.copied': '✅ Copied',
+    'promptInspector.copy': '📋 Copy',
+    'promptInspector.exportJson': '📤 Export JSON',
+    'promptInspector.fallback': 'The RAG builder failed, so this turn sent a minimal fallback prompt.',
+    'promptInspector.truncated': 'Exceeded the {hardLimit} token limit, handled by {by}: {before} → {after} tokens',
+    'promptInspector.dropped': '. Dropped: {sections}',
+
+    // Character card import
+    'cardImport.title': 'Import Character Card ({spec})',
+    'cardImport.field.characterName': 'Character name',
+    'cardImport.field.bio': 'Biography (description)',
+    'cardImport.field.customPersonality': 'Personality (personality)',
+    'cardImport.field.worldDetail': 'World details (scenario + first message)',
+    'cardImport.pickFields': 'Choose the fields that will overwrite the current setup:',
+    'cardImport.willReplace': '(will replace the existing content)',
+    'cardImport.fieldMissing': 'The card has no content for this field.',
+    'cardImport.addRules': 'Add {count} rules from the character book',
+    'cardImport.noCharacterBook': 'The card has no character book',
+    'cardImport.cancel': 'Cancel',
+    'cardImport.apply': 'Apply',
+
+    // Game settings modal
+    'settings.title': 'Game Settings',
+    'settings.fontSection': '🔤 Font Settings',
+    'settings.fontSample': 'This is sample text in the current font',
+    'settings.fontFamily': 'Font family',
+    'settings.themeSection': '🎨 Theme Color',
+    'settings.themeHint': 'Pick a palette to change the look of the game',
+    'settings.performanceSection': '⚡ Performance Settings',
+    'settings.memoryAutoClean': 'Automatic memory cleanup',
+    'settings.memoryAutoCleanHint': 'Automatically removes old information to lighten memory use and improve performance',
+    'settings.historyAutoCompress': 'Automatic history compression',
+    'settings.historyAutoCompressHint': 'Automatically compresses old game history to save storage space',
+    'settings.llmHistorySummaries': 'AI history summaries',
+    'settings.llmHistorySummariesHint': 'Each time history is compressed, the AI summarizes the compressed part and gradually rolls the summaries up into chapters and acts. Costs one extra API call per compression and runs in the background without slowing turns down',
+    'settings.cot': 'Chain of Thought (COT)',
+    'settings.cotHint': 'Turns the AI\'s detailed reasoning in responses on or off. Turn it off for faster but less detailed responses',
+    'settings.streaming': 'Show the story in real time',
+    'settings.streamingHint': 'Shows the story as the AI writes it and lets you stop midway. Choices and command tags are only applied once the response is complete',
+    'settings.referenceTools': 'Let the AI look up reference IDs',
+    'settings.referenceToolsHint': 'Before each turn the AI can call a tool to read the full entity and memory details behind REF_ IDs. Costs at least one extra API call per turn',
+    'settings.maxReferenceToolHops': 'Maximum lookup rounds per turn',
+    'settings.semanticRecall': 'Semantic memory recall',
+    'settings.semanticRecallHint': 'Finds memories, chronicle chapters and entities close in meaning to the action using vector embeddings, blended with keyword search. Vectors are stored in the browser',
+    'settings.maxActiveHistoryEntries': 'Maximum history entries',
+    'settings.maxActiveHistoryEntriesHint': 'Limits how many history entries are kept in active memory',
+    'settings.historyCompressionThreshold': 'History compression threshold',
+    'settings.historyCompressionThresholdHint': 'How many history entries build up before automatic compression. Lower = compress sooner',
+    'settings.autosave': 'Autosave',
+    'settings.autosaveHint': 'Automatically saves to the browser save library every N turns. 0 = off',
+    'settings.current': 'Current settings',
+    'settings.reset': '🔄 Reset to defaults',
+    'settings.cancel': 'Cancel',
+    'settings.save': '💾 Save settings',
+    'settings.defaultFont': '{font} (Default)',
+    'settings.fontSize': 'Font size: {size}px',
+    'settings.theme.darkSlate': 'Dark Slate',
+    'settings.theme.darkSlateDescription': 'Dark and mysterious',
+    'settings.theme.deepBlue': 'Deep Blue',
+    'settings.theme.deepBlueDescription': 'Deep as the ocean',
+    'settings.theme.purple': 'Royal Purple',
+    'settings.theme.purpleDescription': 'Current (Default)',
+    'settings.theme.emerald': 'Emerald',
+    'settings.theme.emeraldDescription': 'Fresh and elegant',
+    'settings.theme.roseGold': 'Rose Gold',
+    'settings.theme.roseGoldDescription': 'Warm and romantic',
+    'settings.theme.sunset': 'Sunset',
+    'settings.theme.sunsetDescription': 'Bright as a sunset',
+    'settings.semanticRecallOff': 'Off',
+    'settings.semanticRecallLocal': 'Local (word hashing, works offline)',
+    'settings.semanticRecallRemote': 'Embedding server (OpenAI-compatible)',
+    'settings.embeddingModelPlaceholder': 'Model name, e.g. nomic-embed-text',
+    'settings.embeddingApiKeyPlaceholder': 'API key (optional for local servers)',
+    'settings.value': 'Value: {value}',
+    'settings.on': '✅ On',
+    'settings.off': '❌ Off',
+    'settings.summary.font': 'Font: {font} - {size}px',
+    'settings.summary.theme': 'Theme color: {theme}',
+    'settings.summary.cot': 'Chain of Thought: {state}',
+    'settings.summary.streaming': 'Real-time display: {state}',
+    'settings.summary.referenceTools': 'Reference lookups: {state}',
+    'settings.summary.referenceToolsOn': '✅ On (up to {hops} rounds)',
+    'settings.summary.semanticRecall': 'Semantic recall: {state}',
+    'settings.summary.semanticRecallLocal': '✅ Local',
+    'settings.summary.embeddingServer': 'Embedding server',
+    'settings.summary.memoryAutoClean': 'Memory cleanup: {state}',
+    'settings.summary.historyAutoCompress': 'History compression: {state}',
+    'settings.summary.llmHistorySummaries': 'AI history summaries: {state}',
+    'settings.summary.maxActiveHistoryEntries': 'Maximum history: {count} entries',
+    'settings.summary.historyCompressionThreshold': 'Compression threshold: {count} entries',
+    'settings.summary.autosave': 'Autosave: {state}',
+    'settings.summary.autosaveEvery': 'every {turns} turns',
+
+    // Custom rules modal
+    'customRules.validationError': 'Rule {index}: {errors}',
+    'customRules.alert.invalidRules': 'Some rules are misconfigured:\n{errors}',
+    'customRules.copyTitle': '{title} (Copy)',
+    'customRules.untitled': 'Rule',
+    'customRules.alert.nothingToSave': 'There are no rules to save.',
+    'customRules.alert.importWarnings': 'Warnings while importing the file:\n{errors}',
+    'customRules.alert.imported': 'Imported {count} rules.',
+    'customRules.alert.importFailed': 'Could not read the rules file. It may be corrupted or in the wrong format.',
+    'customRules.alert.invalidWorldInfo': 'Not a valid SillyTavern WorldInfo file. The file must look like: {"entries": {...}}',
+    'customRules.alert.worldInfoConvertErrors': 'Converted {count} rules with {errors} errors. See the console for details.',
+    'customRules.alert.worldInfoImported': 'Imported {count} WorldInfo entries from SillyTavern!',
+    'customRules.alert.worldInfoEmpty': 'No valid WorldInfo entries were found in the file.',
+    'customRules.alert.worldInfoReadFailed': 'Could not read the WorldInfo file. It may be corrupted or not valid JSON.',
+    'customRules.titlePlaceholder': 'Rule #{index} title...',
+    'customRules.contentPlaceholder': 'Rule #{index} content...',
+    'customRules.priorityBadge': 'Priority: {order}',
+    'customRules.collapse': 'Collapse',
+    'customRules.details': 'Details',
+    'customRules.active': 'Active',
+    'customRules.duplicate': 'Duplicate',
+    'customRules.content': 'Rule content:',
+    'customRules.primaryKeywords': 'Primary keywords (phrases in [brackets] or "quotes" are supported):',
+    'customRules.secondaryKeywords': 'Secondary keywords (phrases in [brackets] or "quotes" are supported):',
+    'customRules.keywordCount': '({count} keywords)',
+    'customRules.primaryKeywordsPlaceholder': 'dragon [phone call] "talking on the phone" fire...',
+    'customRules.secondaryKeywordsPlaceholder': '[fire breath] "breathing fire" frost...',
+    'customRules.order': 'Priority:',
+    'customRules.probability': 'Probability (%):',
+    'customRules.alwaysActive': 'Always active (ignore keywords)',
+    'customRules.alwaysActiveHint': 'When on, this rule is always included in the prompt without needing keywords',
+    'customRules.logic': 'Keyword logic:',
+    'customRules.scanDepth': 'Scan depth:',
+    'customRules.group': 'Inclusion group:',
+    'customRules.groupWeight': 'Group weight:',
+    'customRules.groupOverride': 'Prioritize within group',
+    'customRules.groupHint': 'When several rules in the same group trigger, only one goes into the prompt: the prioritized rule with the highest priority, otherwise a weighted random pick',
+    'customRules.sticky': 'Sticky (turns):',
+    'customRules.cooldown': 'Cooldown (turns):',
+    'customRules.delay': 'Delay (turns):',
+    'customRules.timedEffectsHint': 'Sticky: keeps the rule in the prompt for N more turns after it triggers • Cooldown: cannot trigger again for N turns afterwards • Delay: only triggers from turn N onwards',
+    'customRules.scanOptions': 'Scan options:',
+    'customRules.scanGameState': 'Scan game state:',
+    'customRules.matchOptions': 'Keyword matching options:',
+    'customRules.title': 'Advanced Rule Manager',
+    'customRules.recursiveScan': 'Recursive scan',
+    'customRules.cancel': 'Cancel',
+    'customRules.scanPlayerInput': 'Player input',
+    'customRules.scanAIOutput': 'AI response',
+    'customRules.scanMemories': 'Memories',
+    'customRules.excludeRecursion': 'Not triggered by recursion',
+    'customRules.preventRecursion': 'Does not trigger other rules',
+    'customRules.caseSensitive': 'Case sensitive',
+    'customRules.matchWholeWords': 'Whole words only',
+    'customRules.scanLocation': 'Current location',
+    'customRules.scanNPCsPresent': 'NPCs present',
+    'customRules.scanParty': 'Party members',
+    'customRules.scanStatuses': 'Active statuses',
+    'customRules.scanQuests': 'Active quests',
+    'customRules.activationCount': 'Triggered: {count} times',
+    'customRules.lastActivated': ' • Last: turn {turn}',
+    'customRules.tokenWeight': ' • Estimated tokens: {tokens}',
+    'customRules.viewMode': 'Mode:',
+    'customRules.viewAdvanced': 'Advanced',
+    'customRules.viewSimple': 'Simple',
+    'customRules.sort': 'Sort:',
+    'customRules.sort.priority': 'Priority',
+    'customRules.sort.alphabetical': 'Name A-Z',
+    'customRules.sort.category': 'Category',
+    'customRules.sort.recent': 'Newest',
+    'customRules.categoryFilter': 'Category:',
+    'customRules.allCategories': 'All',
+    'customRules.searchPlaceholder': 'Search rules...',
+    'customRules.recursiveScanHint': 'The content of triggered rules is scanned again to trigger other rules',
+    'customRules.maxRecursionDepth': 'Maximum recursion depth',
+    'customRules.stats': 'Showing {shown}/{total} rules • {active} active • Estimated total: {tokens} tokens',
+    'customRules.fromWorldInfo': '• {count} from WorldInfo',
+    'customRules.noMatches': 'No rules match the filters.',
+    'customRules.empty': 'No custom rules yet.',
+    'customRules.add': 'Add New Rule',
+    'customRules.exportShort': 'Export',
+    'customRules.importShort': 'Import',
+    'customRules.exportWorldInfoShort': 'Export WI',
+    'customRules.exportFile': 'Export File',
+    'customRules.importFile': 'Import File',
+    'customRules.importWorldInfo': 'Import WorldInfo',
+    'customRules.exportWorldInfo': 'Export WorldInfo',
+    'customRules.exportWorldInfoHint': 'Export to the SillyTavern World Info format',
+    'customRules.saveShort': 'Save ({active})',
+    'customRules.save': 'Save Changes ({active} active)',
+    'customRules.category.general': '📋 General',
+    'customRules.category.combat': '⚔️ Combat',
+    'customRules.category.social': '👥 Social',
+    'customRules.category.exploration': '🗺️ Exploration',
+    'customRules.category.story': '📖 Story',
+    'customRules.category.items': '🎒 Items',
+    'customRules.category.skills': '⭐ Skills',
+    'customRules.category.world': '🌍 World',
+
+    // Regex manager
+    'regex.placement.playerInput': 'Player Commands',
+    'regex.placement.aiOutput': 'AI Responses',
+    'regex.placement.memory': 'Memory Storage',
+    'regex.placement.entities': 'Entity Extraction',
+    'regex.placement.quests': 'Quest Updates',
+    'regex.placement.dialogue': 'Dialogue Formatting',
+    'regex.placement.stats': 'Statistics Extraction',
+    'regex.placement.combat': 'Combat Formatting',
+    'regex.test.timedOut': 'Error: pattern ran longer than {ms}ms and was stopped',
+    'regex.test.error': 'Error: {error}',
+    'regex.alert.nameRequired': 'Rule name is required.',
+    'regex.alert.nameTaken': 'A rule with this name already exists.',
+    'regex.alert.patternRequired': 'Find regex pattern is required.',
+    'regex.alert.placementRequired': 'At least one placement must be selected.',
+    'regex.alert.nothingToExport': 'No rules to export.',
+    'regex.alert.fixPattern': 'Please fix the regex pattern error: {error}',
+    'regex.editor.editTitle': 'Edit Regex Rule',
+    'regex.editor.createTitle': 'Create Regex Rule',
+    'regex.editor.name': 'Rule Name *',
+    'regex.editor.description': 'Description',
+    'regex.editor.category': 'Category',
+    'regex.editor.findRegex': 'Find Regex Pattern *',
+    'regex.editor.replaceWith': 'Replace With',
+    'regex.editor.trimStrings': 'Trim Strings (one per line)',
+    'regex.editor.placement': 'Apply To (Placement) *',
+    'regex.editor.substitute': 'Macro Substitution',
+    'regex.editor.minDepth': 'Min Depth',
+    'regex.editor.maxDepth': 'Max Depth',
+    'regex.editor.test': 'Test Pattern',
+    'regex.editor.namePlaceholder': 'Enter rule name...',
+    'regex.editor.descriptionPlaceholder': 'Describe what this rule does...',
+    'regex.editor.categoryPlaceholder': 'e.g., Formatting, Combat, Dialogue...',
+    'regex.editor.findRegexPlaceholder': 'Enter regex pattern... e.g., /\\*([^*]+)\\*/g',
+    'regex.editor.replacePlaceholder': 'Replacement text... Use $1, $2 for groups, {{match}} for full match',
+    'regex.editor.trimPlaceholder': 'Strings to remove from matches...',
+    'regex.editor.testPlaceholder': 'Enter test text here...',
+    'regex.bench.samplePlaceholder': 'Paste a story passage or player command to run the rules on...',
+    'regex.list.edit': 'Edit rule',
+    'regex.list.delete': 'Delete rule',
+    'regex.editor.options': 'Options',
+    'regex.editor.markdownOnly': 'Markdown display only',
+    'regex.editor.promptOnly': 'Prompt generation only',
+    'regex.editor.runOnEdit': 'Run when editing content',
+    'regex.editor.scoped': 'Character/World specific',
+    'regex.editor.substitute.none': 'None - Use pattern as-is',
+    'regex.editor.substitute.raw': 'Raw - Substitute macros',
+    'regex.editor.substitute.escaped': 'Escaped - Substitute and escape',
+    'regex.editor.hide': 'Hide',
+    'regex.editor.show': 'Show',
+    'regex.editor.output': 'Output:',
+    'regex.editor.noChanges': 'No changes',
+    'regex.editor.enterTestInput': 'Enter test input above',
+    'regex.cancel': 'Cancel',
+    'regex.editor.save': 'Save Rule',
+    'regex.skip.disabled': 'Rule is disabled',
+    'regex.skip.depth': 'Depth is outside the rule\'s min/max depth',
+    'regex.skip.edit': 'Rule does not run on edits',
+    'regex.skip.mode': 'Markdown-only or prompt-only rule',
+    'regex.status.changed': 'changed',
+    'regex.status.unchanged': 'unchanged',
+    'regex.status.skipped': 'skipped',
+    'regex.status.timedOut': 'timed out',
+    'regex.status.error': 'error',
+    'regex.bench.sample': 'Sample Story Text',
+    'regex.bench.placement': 'Placement',
+    'regex.bench.depth': 'Depth',
+    'regex.bench.running': 'Running...',
+    'regex.bench.run': 'Run Trace',
+    'regex.bench.noRules': 'No rules are registered for this placement.',
+    'regex.bench.timedOut': 'Stopped after {ms}ms and disabled. The text is passed on unchanged.',
+    'regex.bench.before': 'Before',
+    'regex.bench.after': 'After',
+    'regex.bench.finalOutput': 'Final Output',
+    'regex.confirm.delete': 'Are you sure you want to delete this rule?',
+    'regex.confirm.bulkDelete': 'Are you sure you want to delete {count} selected rule(s)?',
+    'regex.alert.imported': 'Successfully imported {count} rule(s).',
+    'regex.alert.importFailed': 'Error importing rules: {error}',
+    'regex.alert.unknownError': 'Unknown error',
+    'regex.confirm.loadTemplates': 'This will add default RPG regex templates to your rules. Continue?',
+    'regex.alert.templatesLoaded': 'Successfully loaded {count} template rule(s)!',
+    'regex.title': 'Regex Rules Manager',
+    'regex.tab.rules': 'Rules',
+    'regex.tab.bench': 'Test Bench',
+    'regex.timedOutNotice': '⏱️ {count} rule(s) were disabled automatically because they ran longer than {ms}ms (likely catastrophic backtracking). Fix the pattern, then enable the rule again.',
+    'regex.toolbar.newRule': 'New Rule',
+    'regex.toolbar.enable': 'Enable',
+    'regex.toolbar.disable': 'Disable',
+    'regex.toolbar.delete': 'Delete',
+    'regex.toolbar.import': 'Import',
+    'regex.toolbar.loadTemplates': 'Load Templates',
+    'regex.toolbar.saveAll': 'Save All Rules',
+    'regex.allCategories': 'All Categories',
+    'regex.deselectAll': 'Deselect All',
+    'regex.selectAll': 'Select All',
+    'regex.toolbar.exportSelected': 'Export ({count})',
+    'regex.toolbar.exportAll': 'Export All',
+    'regex.empty': 'No regex rules found',
+    'regex.emptyHint': 'Create your first rule to get started with text processing automation.',
+    'regex.disabled': 'Disabled',
+    'regex.timedOut': '⏱️ Timed out',
+    'regex.scoped': 'Scoped',
+    'regex.autoDisabledAt': 'Disabled automatically on {date} for running longer than {ms}ms.',
+    'regex.list.pattern': 'Pattern:',
+    'regex.list.appliesTo': 'Applies to:',
+    'regex.list.enable': 'Enable rule',
+    'regex.list.disable': 'Disable rule',
+    'regex.invalidPattern': 'Invalid pattern',
+    'regex.invalidFileFormat': 'Invalid file format',
+    'regex.footer': '{count} rule(s) • {selected} selected',
+
+    // Create world alerts
+    'createWorld.alert.setupLoaded': 'Setup loaded successfully!',
+    'createWorld.alert.setupReadFailed': 'Could not read the setup file. It may be corrupted or in the wrong format.',
+    'createWorld.alert.worldInfoImported': 'Imported {count} rules from WorldInfo.',
+    'createWorld.alert.worldInfoReadFailed': 'Could not read the WorldInfo file. It may be corrupted or not in the SillyTavern WorldInfo format.',
+    'createWorld.alert.cardReadFailed': 'Could not read the character card. {error}',
+    'createWorld.alert.worldSetupLoaded': 'Loaded WorldSetup "{name}" with {count} custom rules.',
+    'createWorld.alert.unnamed': 'Unnamed',
+    'createWorld.alert.worldSetupReadFailed': 'Could not read the WorldSetup file. It may be corrupted or in the wrong format.',
+
+    // Create world suggestion errors
+    'createWorld.error.aiNotReady': 'The AI is not ready. Please check your API key settings.',
+    'createWorld.error.suggestionFailed': 'Failed to generate suggestions. Please check your API key and try again.',
+    'createWorld.error.rateLimited': 'You are sending requests too quickly. Please wait a moment and try again.',
+    'createWorld.error.characterSuggestionFailed': 'Failed to generate character suggestions. Please check your API key and try again.',
+
+    // Game screen notifications
+    'game.notify.regexTimedOut': '⏱️ Regex rule "{name}" ran longer than {ms}ms and was disabled automatically.',
+    'game.notify.highTokenCooldown': '⚠️ High token usage ({tokens}k). Wait 60 seconds before your next action.',
+    'game.notify.itemEdited': 'Item updated successfully!',
+    'game.notify.skillEdited': 'Skill updated successfully!',
+    'game.notify.npcEdited': 'NPC updated successfully!',
+    'game.notify.pcEdited': 'Main character updated successfully!',
+    'game.notify.locationEdited': 'Location updated successfully!',
+    'game.notify.statusRemoved': 'Status "{name}" removed successfully!',
+    'game.notify.loadFailed': '❌ Could not load the save',
+    'game.notify.noQuicksave': '⚠️ No quicksave yet (press F5 to quicksave)',
+    'game.notify.regexSaved': 'Regex rules saved successfully!',
+    'game.notify.unifiedCleanup': '🧹 Unified cleanup complete! Saved ~{tokens}k tokens.',
+    'game.notify.legacyCleanup': '🧹 Legacy cleanup complete! Saved ~{tokens}k tokens.',
+    'game.notify.memoryInsight': '📊 Memory Insight: {title} - {description}',
+    'game.notify.memoryAnalysis': '📊 Memory Analysis: {count} memories, {importance} avg importance, {health} health',
+    'game.notify.smartMemories': '🧠 Generated {count} smart memories! {insights}',
+    'game.notify.noSmartMemories': '🧠 No new smart memories generated from recent events.',
+    'game.notify.worldSetupExported': '📤 WorldSetup exported successfully!',
+    'game.notify.worldSetupExportFailed': '❌ Failed to export WorldSetup',
+    'game.notify.duplicateMemoriesRemoved': '🧹 Removed {count} duplicate memories',
+
+    // Game state handler notifications
+    'handlers.savedToLibrary': '💾 Saved "{name}" to the library',
+    'handlers.saveToLibraryFailed': '❌ Could not save to the save library',
+    'handlers.quicksaved': '⚡ Quicksaved',
+    'handlers.quicksaveFailed': '❌ Quicksave failed',
+    'handlers.autosaveFailed': '❌ Autosave failed',
+    'handlers.revertBlocked': '⚠️ Cannot revert: the data has changed since this turn.',
+    'handlers.reverted': '↩️ Reverted {tag} ({applied}/{total} changes).',
+
+    // Story log messages of the game action handlers
+    'handlers.initialStoryEmpty': 'Error: the AI could not write the opening story.',
+    'handlers.initialStoryFiltered': ' The token limit may have been reached or the content was filtered.',
+    'handlers.initialStoryNetwork': ' There may be a network problem.',
+    'handlers.initialStoryRetry': ' Please try creating the world again or check your API key.',
+    'handlers.initialStoryFailed': 'Something went wrong while starting the story. Please try again.',
+    'handlers.errorDetails': 'Error details: {details}',
+    'handlers.rateLimited': '**⭐ Rate limit reached. Switched to the next API key. Please try your action again. ⭐**',
+    'handlers.actionFailed': 'Error: the AI could not handle the request. Please try a different action.',
+    'handlers.suggestUnavailable': 'No suggestion available right now.',
+    'handlers.emptyResponse': 'Error: the AI returned an empty response. Please try again.',
+    'handlers.noJson': 'Error: no valid JSON found in the response. Please try again.',
+    'handlers.parseFailed': 'Error: could not parse the AI response. Details: {details}',
+    'handlers.missingStory': 'Error: the response has no story text. Please try again.',
+    'handlers.invalidResponse': 'Error: the AI returned invalid data. Please try again.',
+
+    // Timeline branch modal
+    'timeline.title': '🌿 Timeline',
+    'timeline.branches': 'Branches',
+    'timeline.playing': '(playing)',
+    'timeline.forkedFrom': ' • Forked from "{name}" at turn {turn}',
+    'timeline.parentChose': ' • The parent branch chose: "{action}"',
+    'timeline.switch': 'Switch',
+    'timeline.compare': 'Compare',
+    'timeline.export': '📤 Export',
+    'timeline.compareWith': 'Comparing',
+    'timeline.withActive': 'with the branch being played',
+    'timeline.turnDelta': ' ({delta} turns)',
+    'timeline.diff.entities': 'Entities',
+    'timeline.diff.quests': 'Quests',
+    'timeline.diff.statuses': 'Statuses',
+    'timeline.diff.count': '({count} differences)',
+    'timeline.diff.same': 'Identical',
+    'timeline.noDiff': 'No turn data to compare.',
+    'timeline.forkTitle': 'Fork from turn',
+    'timeline.forkHelp': 'Any of the last {capacity} turns can be forked. Older turns can only be forked where their state was kept (every {interval} turns, sparser in long stories).',
+    'timeline.noTurns': 'No turns recorded yet.',
+    'timeline.branchDefault': 'Branch {n}',
+    'timeline.fork': '🌿 Fork',
+
+    // Save library modal
+    'saveLibrary.title': '📚 Save Library',
+    'saveLibrary.kind.manual': '💾 Manual',
+    'saveLibrary.kind.auto': '🔄 Auto',
+    'saveLibrary.kind.quick': '⚡ Quicksave',
+    'saveLibrary.readFailed': 'Could not read the browser save library.',
+    'saveLibrary.confirmDelete': 'Delete the save "{name}"?',
+    'saveLibrary.namePlaceholder': 'Save name (leave empty to name it automatically)',
+    'saveLibrary.saveNew': '💾 New save',
+    'saveLibrary.empty': 'No saves in this browser yet.',
+    'saveLibrary.load': 'Load',
+    'saveLibrary.overwrite': 'Overwrite',
+    'saveLibrary.shortcuts': 'In-game shortcuts: F5 quicksave, F9 quickload.',
+
+    // Command tag rejection modal
+    'tagRejection.title': '⛔ State Changes Rejected',
+    'tagRejection.summary': 'Turn {turn}: the AI sent {count} command tags but some were invalid, so none of the changes were applied. The story is still shown as usual.',
+    'tagRejection.errors': 'Errors',
+
+    // Save diagnostics modal
+    'saveDiagnostics.fatalTitle': '⛔ Cannot Load the Save File',
+    'saveDiagnostics.title': '🩺 Save File Diagnostics',
+    'saveDiagnostics.fatal': 'The file is missing required data, so it cannot be loaded.',
+    'saveDiagnostics.loaded': 'The save file was loaded. Some data was repaired automatically or needs your attention.',
+    'saveDiagnostics.errors': 'Errors',
+    'saveDiagnostics.unrepaired': 'Unrepaired errors',
+    'saveDiagnostics.repaired': 'Repaired',
+    'saveDiagnostics.migration': 'Format upgrade v{from} → v{to}',
+    'saveDiagnostics.originalKept': 'The original file was not changed.',
+    'saveDiagnostics.download': '📥 Download the repaired file',
+
+    // Prompt templates modal
+    'promptTemplates.title': '📝 Prompt Templates',
+    'promptTemplates.import': '📥 Import preset',
+    'promptTemplates.export': '📤 Export preset',
+    'promptTemplates.saved': 'Saved the "{label}" template.',
+    'promptTemplates.reset': 'Restored the "{label}" template to its default.',
+    'promptTemplates.imported': 'Imported the preset "{name}".',
+    'promptTemplates.importSkipped': ' Skipped because they are invalid: {labels}.',
+    'promptTemplates.importFailed': 'Could not import the preset: {error}',
+    'promptTemplates.usingOverride': 'This world uses an edited version.',
+    'promptTemplates.usingDefault': 'Using the default version.',
+    'promptTemplates.save': '💾 Save',
+    'promptTemplates.discard': 'Discard changes',
+    'promptTemplates.restoreDefault': '↺ Restore default',
+    'promptTemplates.placeholders': 'Available placeholders',
+    'promptTemplates.defaultText': 'Default version',
+
+    // Story panel
+    'story.title': '📖 Story',
+    'story.lines': '{count} lines',
+    'story.aiNotReady': 'The AI is not ready',
+    'story.checkApiKey': 'Please check your API key and go back to the main menu',
+    'story.emptyTitle': 'The story will begin here...',
+    'story.emptyHint': 'Choose an action to begin the adventure',
+    'story.writing': 'Writing the story...',
+    'story.generating': 'Generating the story...',
+    'story.stopTitle': 'Stop generating the story',
+    'story.stop': 'Stop',
+    'story.scrollToBottom': 'Scroll to the bottom',
+    'story.viewDetails': 'View details of {name}',
+
+    // Sidebar navigation
+    'sidebar.title': 'Menu',
+    'sidebar.home': 'Home',
+    'sidebar.character': 'Character',
+    'sidebar.party': 'Party',
+    'sidebar.quests': 'Quests',
+    'sidebar.settings': 'Settings',
+    'sidebar.save': 'Save',
+    'sidebar.saveLibrary': 'Save Library',
+    'sidebar.exportWorldSetup': 'Export WorldSetup',
+    'sidebar.timeline': 'Timeline',
+    'sidebar.map': 'Map',
+    'sidebar.loadKnowledge': 'Load Knowledge',
+    'sidebar.regexManager': 'Regex Manager',
+    'sidebar.knowledge': 'Knowledge',
+    'sidebar.memory': 'Memory',
+    'sidebar.admin': 'Admin Panel',
+    'sidebar.promptInspector': 'Prompt Inspector',
+    'sidebar.promptTemplates': 'Prompt Templates',
+    'sidebar.restart': 'Restart',
+    'sidebar.cleanup': 'Cleanup:',
+    'sidebar.saved': 'Saved:',
+    'sidebar.manualCleanup': '🧹 Manual Cleanup',
+    'sidebar.turnTokens': 'Turn:',
+    'sidebar.history': 'History:',
+    'sidebar.historyEntries': '{count} entries',
+    'sidebar.compressed': 'Compressed:',
+    'sidebar.compressedSegments': '{count} segments',
+    'sidebar.savedTokens': '{count}k tokens',
+
+    // Quest log
+    'questLog.active': 'In Progress',
+    'questLog.completeObjectives': 'Complete the objectives.',
+    'questLog.noActive': 'No active quests.',
+    'questLog.finished': 'Finished',
+
+    // Relationship kinds (data/relationships.ts)
+    'relationship.lover': 'Lover',
+    'relationship.devoted': 'Devoted',
+    'relationship.hostile': 'Hostile',
+    'relationship.family': 'Family',
+    'relationship.teammate': 'Teammate',
+    'relationship.bestFriend': 'Best friend',
+    'relationship.friendly': 'Friendly',
+    'relationship.respectful': 'Respectful',
+    'relationship.trusting': 'Trusting',
+    'relationship.grateful': 'Grateful',
+    'relationship.suspicious': 'Suspicious',
+    'relationship.rival': 'Rival',
+    'relationship.fearful': 'Fearful',
+    'relationship.curious': 'Curious',
+    'relationship.cautious': 'Cautious',
+    'relationship.neutral': 'Neutral',
+    'relationship.undetermined': 'Undetermined',
+    'relationship.unclear': 'Unclear',
+
+    // Entity fields shared by the entity info and edit modals
+    'entity.type': 'Type:',
+    'entity.typePc': 'Main character',
+    'entity.typeLocation': 'Location',
+    'entity.gender': 'Gender',
+    'entity.age': 'Age',
+    'entity.appearance': 'Appearance',
+    'entity.location': 'Location',
+    'entity.realm': 'Realm',
+    'entity.power': 'Power',
+    'entity.exp': 'Experience',
+    'entity.fame': 'Fame',
+    'entity.personality': 'Personality (outward)',
+    'entity.personalityCore': 'Personality (core)',
+    'entity.personalityMbti': 'Personality (core - MBTI)',
+    'entity.motivation': 'Motivation',
+    'entity.relationship': 'Relationship',
+    'entity.skills': 'Skills',
+    'entity.learnedSkills': 'Learned skills',
+    'entity.description': 'Description',
+    'entity.region': 'Region',
+    'entity.safety': 'Safety',
+    'entity.safe': '🛡️ Safe',
+    'entity.dangerous': '⚠️ Dangerous',
+    'entity.safetyUnknown': '⚠️ Unknown',
+    'entity.discovery': 'Discovery status',
+    'entity.discovered': '🗺️ Discovered',
+    'entity.mastery': 'Mastery',
+    'entity.skillExp': 'Skill experience',
+    'entity.undetermined': 'Undetermined',
+    'entity.skillCapped': '🔒 Bottleneck reached',
+    'entity.canBreakthrough': '✦ Can break through',
+    'entity.maxMastery': '🏆 Maxed out!',
+    'entity.readyToLevel': 'Ready to level up!',
+    'entity.mbtiPlaceholder': '-- Choose a personality type --',
+    'entity.genderPlaceholder': 'Male, Female, Other...',
+    'entity.realmPlaceholder': 'Cultivation realm...',
+    'entity.cancel': 'CANCEL',
+    'entity.save': 'SAVE',
+
+    // Entity info modal
+    'entityInfo.pcTag': '(Main character)',
+    'entityInfo.equippedTag': '(Equipped)',
+    'entityInfo.editSkill': 'Edit skill',
+    'entityInfo.editNpc': 'Edit NPC',
+    'entityInfo.editPc': 'Edit main character',
+    'entityInfo.editLocation': 'Edit location',
+    'entityInfo.noFame': 'No reputation yet',
+    'entityInfo.breakthroughReady': '✦ Ready to break through! Look for the "✦Breakthrough✦" choice',
+    'entityInfo.breakthroughWaiting': '🔒 Waiting for a breakthrough chance (20% per turn)',
+    'entityInfo.toNextLevel': '{percent}% to the next level',
+    'entityInfo.currentStatuses': 'Current statuses:',
+    'entityInfo.removeStatus': 'Remove status: {name}',
+    'entityInfo.pcNoStatus': 'In normal condition',
+    'entityInfo.npcNoStatus': 'No special statuses',
+    'entityInfo.durability': 'Durability:',
+    'entityInfo.broken': '(Broken)',
+    'entityInfo.nearlyBroken': '(Almost broken)',
+    'entityInfo.uses': 'Uses:',
+    'entityInfo.usedUp': '(Used up)',
+    'entityInfo.almostUsedUp': '(Almost used up)',
+    'entityInfo.owner': 'Owner:',
+    'entityInfo.noDescription': 'No description yet.',
+    'entityInfo.quickActions': 'Quick actions:',
+    'entityInfo.viewOnMap': '🗺️ View on map',
+    'entityInfo.goHere': '📍 Go here',
+    'entityInfo.goToAction': 'Go to {name}',
+    'entityInfo.explore': '🔍 Explore',
+    'entityInfo.exploreAction': 'Explore {name}',
+    'entityInfo.note': '📝 Note',
+    'entityInfo.noteAction': 'Take notes about {name}',
+    'entityInfo.equip': '⚔️ Equip',
+    'entityInfo.unequip': '📤 Unequip',
+    'entityInfo.use': '🍃 Use',
+    'entityInfo.useCount': '🍃 Use ({count} left)',
+    'entityInfo.learn': '📚 Learn technique',
+    'entityInfo.removeStatusTitle': 'Confirm status removal',
+    'entityInfo.removeStatusMessage': 'Do you want to remove this status?',
+    'entityInfo.removeStatusMessageNamed': 'Do you want to remove this status? "{name}"',
+
+    // Entity edit modals
+    'editItem.title': 'EDIT ITEM',
+    'editItem.name': 'Item name',
+    'editItem.namePlaceholder': 'Enter the item name...',
+    'editItem.descriptionPlaceholder': 'Enter the item description...',
+    'editItem.quantity': 'Quantity/Uses',
+    'editItem.durability': 'Durability',
+    'editItem.itemType': 'Item type',
+    'editItem.usable': 'Usable',
+    'editItem.equippable': 'Equippable',
+    'editItem.other': 'Other',
+    'editItem.equipped': 'Currently equipped',
+    'editLocation.title': 'EDIT LOCATION',
+    'editLocation.name': 'Location name',
+    'editLocation.namePlaceholder': 'Enter the location name...',
+    'editLocation.regionPlaceholder': 'The larger area containing this location...',
+    'editLocation.discoveryHelp': 'This status is managed automatically by the system',
+    'editLocation.safetyUnset': '-- Unknown --',
+    'editLocation.safetyHelp': 'This is added to the location description',
+    'editLocation.safeSentence': 'This area is safe.',
+    'editLocation.dangerousSentence': 'This area is not safe.',
+    'editLocation.descriptionPlaceholder': 'A detailed description of the location: scenery, features, safety...',
+    'editLocation.climate': 'Climate/Environment',
+    'editLocation.climatePlaceholder': 'E.g. Temperate, Desert, Tropical...',
+    'editLocation.features': 'Notable features',
+    'editLocation.featuresPlaceholder': 'E.g. High mountains, Great lake, Ancient city...',
+    'editLocation.resources': 'Resources/Economy',
+    'editLocation.resourcesPlaceholder': 'The main resources and economic activity of the location...',
+    'editLocation.residents': 'Residents',
+    'editLocation.residentsPlaceholder': 'Who lives here, population, culture...',
+    'editNpc.title': 'EDIT NPC',
+    'editNpc.name': 'NPC name',
+    'editNpc.namePlaceholder': 'Enter the NPC name...',
+    'editNpc.agePlaceholder': 'E.g. 25, Middle-aged, Old...',
+    'editNpc.locationPlaceholder': 'The NPC\'s current location...',
+    'editNpc.appearancePlaceholder': 'Describe the NPC\'s appearance...',
+    'editNpc.famePlaceholder': 'How well known the NPC is...',
+    'editNpc.personalityPlaceholder': 'Describe the NPC\'s outward personality...',
+    'editNpc.motivationPlaceholder': 'The NPC\'s motivation and goals...',
+    'editNpc.relationshipPlaceholder': '-- Choose a relationship --',
+    'editNpc.skillsPlaceholder': 'Skills, separated by commas...',
+    'editNpc.descriptionPlaceholder': 'A detailed description of the NPC...',
+    'editPc.title': 'EDIT MAIN CHARACTER',
+    'editPc.name': 'Character name',
+    'editPc.namePlaceholder': 'Enter the character name...',
+    'editPc.agePlaceholder': 'E.g. 25, Middle-aged...',
+    'editPc.locationPlaceholder': 'Current location...',
+    'editPc.appearancePlaceholder': 'Describe the character\'s appearance...',
+    'editPc.famePlaceholder': 'How well known the character is...',
+    'editPc.personalityPlaceholder': 'Describe the outward personality...',
+    'editPc.motivationPlaceholder': 'Motivation and goals...',
+    'editPc.learnedSkillsPlaceholder': 'Learned skills, separated by commas...',
+    'editPc.descriptionPlaceholder': 'A detailed description of the character...',
+    'editSkill.title': 'EDIT SKILL',
+    'editSkill.name': 'Skill name',
+    'editSkill.namePlaceholder': 'Enter the skill name...',
+    'editSkill.descriptionPlaceholder': 'Enter the skill description...',
+    'editSkill.masteryPlaceholder': '-- Choose a mastery level --',
+    'editSkill.currentExp': 'Current experience',
+    'editSkill.maxExp': 'Maximum experience',
+    'editSkill.expPreview': 'Experience bar preview',
+    'editSkill.breakthroughReady': '✦ Ready to break through!',
+    'editSkill.breakthroughWaiting': '🔒 Waiting for a breakthrough chance',
+    'editSkill.progress': '{percent}% progress',
+    'editSkill.breakthroughStates': '✦ Breakthrough states',
+    'editSkill.capped': 'Skill is capped',
+    'editSkill.cappedHint': '(cannot gain more EXP)',
+    'editSkill.eligible': 'Eligible for breakthrough',
+    'editSkill.eligibleHint': '(shows the "✦Breakthrough✦" choice)',
+    'editSkill.noteTitle': '⚠️ Note:',
+    'editSkill.note': 'A "capped" skill cannot gain more EXP until a breakthrough succeeds. Breakthrough choices only appear while the skill is "eligible for breakthrough" (a 20% chance each turn).',
+
+    // Prompt template slots, placeholders and validation (utils/promptTemplates.ts)
+    'promptTemplates.slot.systemInstruction': 'System instruction (GM)',
+    'promptTemplates.slot.systemInstructionHelp': 'The system instruction sent with every turn: the GM\'s role, priorities and command tag syntax. Sent as written, without placeholders.',
+    'promptTemplates.slot.coreInstructions': 'Interaction rules',
+    'promptTemplates.slot.coreInstructionsHelp': 'How to write choices, time, action outcomes and narration format. Opens the critical knowledge section of every turn.',
+    'promptTemplates.slot.choiceDiversity': 'Choice diversity guidance',
+    'promptTemplates.slot.choiceDiversityHelp': 'Hints for varying the choices by location, skills and companions, inside the choice guidance section.',
+    'promptTemplates.slot.advancedCot': 'Chain of Thought',
+    'promptTemplates.slot.advancedCotHelp': 'Reasoning steps before answering. Only sent when COT is enabled in the settings.',
+    'promptTemplates.slot.processingRules': 'Processing rules',
+    'promptTemplates.slot.processingRulesHelp': 'The end of every turn prompt: language, GM authority, non-omniscient NPCs and skill tags.',
+    'promptTemplates.placeholder.action': 'The player\'s action',
+    'promptTemplates.placeholder.party': 'Party: names, roles and locations',
+    'promptTemplates.placeholder.entities': 'The entities most relevant to the action',
+    'promptTemplates.placeholder.quests': 'Active quests',
+    'promptTemplates.placeholder.time': 'In-game time',
+    'promptTemplates.placeholder.rules': 'Names of the active custom rules',
+    'promptTemplates.placeholder.location': 'The main character\'s location',
+    'promptTemplates.placeholder.pcName': 'The main character\'s name',
+    'promptTemplates.placeholder.locationGuidance': 'Hints for using the current location (empty when it is unknown)',
+    'promptTemplates.placeholder.skillGuidance': 'Hints for using up to 3 of the main character\'s skills',
+    'promptTemplates.placeholder.companionGuidance': 'Hints for teaming up with up to 2 companions',
+    'promptTemplates.placeholder.recentEvents': 'Summary of the last 2 turns',
+    'promptTemplates.placeholder.pcPersonality': 'The main character\'s personality',
+    'promptTemplates.placeholder.pcMotivation': 'The main character\'s goal',
+    'promptTemplates.placeholder.pcState': 'The main character\'s current state',
+    'promptTemplates.placeholder.companionAnalysis': 'Analysis of each companion',
+    'promptTemplates.placeholder.physicalState': 'The main character\'s body and clothing',
+    'promptTemplates.placeholder.powerBalance': 'Power balance',
+    'promptTemplates.placeholder.antiStereotype': 'Guidance for avoiding stereotypes',
+    'promptTemplates.placeholder.directResponse': 'Hints for responding directly to the action',
+    'promptTemplates.placeholder.storyProgression': 'Hints for new developments',
+    'promptTemplates.placeholder.continuity': 'Hints for connecting to earlier events',
+    'promptTemplates.required.choiceCategory': 'Missing "{text}": choice categories are read from the ✦Category✦ label',
+    'promptTemplates.required.cotReasoning': 'Missing "{text}": COT reasoning is read from the "cot_reasoning" JSON field',
+    'promptTemplates.error.unknownSlot': 'There is no prompt template "{id}"',
+    'promptTemplates.error.empty': 'The prompt template is empty',
+    'promptTemplates.error.missingTags': 'Missing guidance for command tags: {tags}',
+    'promptTemplates.warning.unknownPlaceholders': 'Unsupported placeholders, sent as written: {placeholders}',
+    'promptTemplates.error.invalidPreset': 'The file is not a valid prompt template preset.',
+    'promptTemplates.error.unsupportedVersion': 'Unsupported prompt template preset version: {version}',
+
+    // Command tag precondition failures (utils/commandTagTransaction.ts)
+    'tagRejection.reason.missingItemName': 'Missing item name (name).',
+    'tagRejection.reason.itemNotOwned': 'The main character does not own the item "{name}".',
+    'tagRejection.reason.itemNotFound': 'Item "{name}" not found.',
+    'tagRejection.reason.missingTransformNames': 'Missing oldName or newName.',
+    'tagRejection.reason.pcStatusNotFound': 'The main character does not have the status "{name}".',
+    'tagRejection.reason.npcStatusNotFound': '{npcName} does not have the status "{name}".',
+    'tagRejection.reason.missingNpcName': 'Missing NPC name (npcName).',
+    'tagRejection.reason.skillNotFound': 'Skill "{name}" not found.',
+    'tagRejection.reason.entityNotFound': 'Entity "{name}" not found.',
+    'tagRejection.reason.npcNotFound': 'NPC "{name}" not found.',
+    'tagRejection.reason.incompleteCompanion': 'A companion needs a name and a description.',
+    'tagRejection.reason.missingQuestTitle': 'Missing quest title (title).',
+    'tagRejection.reason.questNotFound': 'Quest "{title}" not found.',
+    'tagRejection.reason.objectiveNotFound': 'Quest "{title}" has no objective "{objective}".',
+    'tagRejection.reason.applyFailed': 'Error while applying the tag: {error}',
+
+    // Timeline defaults for unnamed branches and turns without a description
+    'timeline.mainBranch': 'Main branch',
+    'timeline.storyStart': 'Start of the story',
+
+    // Prompt inspector: section, part and item labels
+    'promptInspector.section.format': 'Response format',
+    'promptInspector.section.constraints': 'Turn constraints',
+    'promptInspector.section.critical': 'Critical knowledge (party, entities)',
+    'promptInspector.section.memories': 'Retrieved memories (RAG)',
+    'promptInspector.section.important': 'Related information (quests, events)',
+    'promptInspector.section.contextual': 'World context',
+    'promptInspector.section.supplemental': 'Activated custom rules',
+    'promptInspector.section.action': 'Player action',
+    'promptInspector.section.choices': 'Choice guidance',
+    'promptInspector.section.skills': 'Skill mastery',
+    'promptInspector.section.cot': 'Chain of Thought',
+    'promptInspector.section.nsfw': 'NSFW',
+    'promptInspector.section.instructions': 'Processing rules',
+    'promptInspector.section.fallback': 'Fallback prompt (RAG error)',
+    'promptInspector.section.referenceLookup': 'Reference lookup results',
+    'promptInspector.part.coreInstructions': 'Core instructions',
+    'promptInspector.part.time': 'Time',
+    'promptInspector.part.party': 'Party',
+    'promptInspector.part.entities': 'Entities',
+    'promptInspector.part.quests': 'Quests',
+    'promptInspector.part.recentEvents': 'Recent events',
+    'promptInspector.part.relatedEntities': 'Related entities',
+    'promptInspector.part.chronicle': 'Chronicle',
+    'promptInspector.item.entity': '{score} points: {reasons}',
+    'promptInspector.item.rule': '{reason} • keywords: {keywords}',
+    'promptInspector.item.recursiveRule': '{reason} • keywords: {keywords} (recursion depth {depth})',
+    'promptInspector.item.sticky': 'Sticky: active until turn {turn}',
+    'promptInspector.report.turn': 'Turn {turn}: {action}',
+    'promptInspector.report.truncated': 'Truncated by {by}: {before} → {after} tokens',
+
+    // Save library: names and dates of slots, formatted when shown
+    'saveLibrary.defaultName.manual': '{name} - Turn {turn}',
+    'saveLibrary.defaultName.auto': 'Autosave - Turn {turn}',
+    'saveLibrary.defaultName.quick': 'Quicksave',
+    'saveLibrary.unnamedCharacter': 'Nameless',
+    'saveLibrary.gameDate': 'Year {year}, Month {month}, Day {day}, {hour}:{minute}'
+};
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { t, hasTranslation } from './index';
+import { vi as viStrings } from './vi';
+import { en } from './en';
+
+describe('i18n', () => {
+    it('has an English string for every Vietnamese key', () => {
+        const missing = Object.keys(viStrings).filter(key => !en[key as keyof typeof viStrings]);
+        expect(missing).toEqual([]);
+    });
+
+    it('fills placeholders and leaves unknown ones as written', () => {
+        expect(t('common.turn', { turn: 3 }, 'en')).toBe('Turn 3');
+        expect(t('choices.questObjective', { quest: 'Tà Giáo' }, 'vi')).toBe('Mục tiêu "{objective}" thuộc nhiệm vụ "Tà Giáo"');
+    });
+
+    it('knows which keys exist', () => {
+        expect(hasTranslation('mastery.novice')).toBe(true);
+        expect(hasTranslation('mastery.godlike')).toBe(false);
+    });
+});
@@ -0,0 +1,71 @@
+// i18n - UI string tables and the active locale
+//
+// Components read strings through the useI18n hook so they re-render when the locale changes;
+// non-React code can call t() directly. The Vietnamese table is the reference: every other
+// table must define the same keys, and a missing key falls back to Vietnamese.
+
+import { vi } from './vi';
+import { en } from './en';
+
+export type Locale = 'vi' | 'en';
+export type TranslationKey = keyof typeof vi;
+export type TranslationParams = Record<string, string | number>;
+
+/** Text produced outside components, translated where it is shown */
+export interface TranslatableMessage {
+    key: TranslationKey;
+    params?: TranslationParams;
+}
+
+export const DEFAULT_LOCALE: Locale = 'vi';
+export const LOCALES: Array<{ id: Locale; label: string }> = [
+    { id: 'vi', label: 'Tiếng Việt' },
+    { id: 'en', label: 'English' }
+];
+
+const TRANSLATIONS: Record<Locale, Record<TranslationKey, string>> = { vi, en };
+const LOCALE_STORAGE_KEY = 'locale';
+
+export const isLocale = (value: unknown): value is Locale => value === 'vi' || value === 'en';
+
+const loadLocale = (): Locale => {
+    try {
+        const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+        return isLocale(saved) ? saved : DEFAULT_LOCALE;
+    } catch (error) {
+        console.error('Failed to load locale:', error);
+        return DEFAULT_LOCALE;
+    }
+};
+
+let currentLocale: Locale = loadLocale();
+const listeners = new Set<(locale: Locale) => void>();
+
+export const getLocale = (): Locale => currentLocale;
+
+export const setLocale = (locale: Locale): void => {
+    if (locale === currentLocale) return;
+    currentLocale = locale;
+    try {
+        localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    } catch (error) {
+        console.error('Failed to save locale:', error);
+    }
+    if (typeof document !== 'undefined') document.documentElement.lang = locale;
+    listeners.forEach(listener => listener(locale));
+};
+
+/** Calls the listener whenever the locale changes; returns the unsubscribe function */
+export const subscribeLocale = (listener: (locale: Locale) => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const hasTranslation = (key: string): key is TranslationKey => key in TRANSLATIONS[DEFAULT_LOCALE];
+
+/** The string for a key with {name} placeholders filled from params */
+export const t = (key: TranslationKey, params?: TranslationParams, locale: Locale = currentLocale): string => {
+    const template = TRANSLATIONS[locale][key] ?? TRANSLATIONS[DEFAULT_LOCALE][key] ?? key;
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => params[name] !== undefined ? String(params[name]) : match);
+};
@@ -0,0 +1,992 @@
+// Vietnamese UI strings - the reference table, every key here must exist in the other locales
+
+export const vi = {
+    // Common
+    'common.yes': 'Có',
+    'common.cancel': 'Hủy bỏ',
+    'common.confirm': 'Xác nhận',
+    'common.delete': 'Xóa',
+    'common.language': 'Ngôn ngữ',
+    'common.turn': 'Lượt {turn}',
+
+    // Locale-neutral enums, see utils/gameEnums.ts
+    'mastery.novice': 'Sơ Cấp',
+    'mastery.intermediate': 'Trung Cấp',
+    'mastery.advanced': 'Cao Cấp',
+    'mastery.master': 'Đại Thành',
+    'mastery.perfect': 'Viên Mãn',
+    'risk.low': 'Thấp',
+    'risk.medium': 'Trung Bình',
+    'risk.high': 'Cao',
+    'risk.extreme': 'Cực Cao',
+    'category.action': 'Hành động',
+    'category.social': 'Xã hội',
+    'category.explore': 'Thăm dò',
+    'category.combat': 'Chiến đấu',
+    'category.travel': 'Chuyển cảnh',
+    'category.timeSkip': 'Tua nhanh',
+
+    // Category support, keyed supporting category -> supported category
+    'categorySupport.explore.combat': 'Thông tin khám phá giúp chiến đấu hiệu quả hơn',
+    'categorySupport.social.combat': 'Giao tiếp có thể làm phân tâm đối thủ',
+    'categorySupport.action.combat': 'Chuẩn bị hành động tạo lợi thế chiến thuật',
+    'categorySupport.explore.action': 'Hiểu biết tình huống giúp hành động chính xác',
+    'categorySupport.social.action': 'Thuyết phục có thể tạo cơ hội hành động',
+    'categorySupport.action.travel': 'Hành động tạo điều kiện di chuyển',
+    'categorySupport.explore.travel': 'Khám phá giúp tìm đường đi tốt hơn',
+    'categorySupport.explore.social': 'Hiểu biết giúp giao tiếp thuyết phục hơn',
+    'categorySupport.generic': '{from} hỗ trợ {to}',
+    'categorySupport.tooltip': 'Được hỗ trợ bởi {from}: {explanation}',
+
+    // Main menu
+    'mainMenu.continue': 'Tiếp Tục',
+    'mainMenu.newWorld': 'Tạo Thế Giới Mới',
+    'mainMenu.quickPlay': 'Chơi Ngay',
+    'mainMenu.saveLibrary': 'Thư Viện Lưu Trữ',
+    'mainMenu.loadFromFile': 'Tải Game Từ Tệp (.json)',
+    'mainMenu.changelog': 'Xem Cập Nhật Game',
+    'mainMenu.apiSettings': 'Thiết Lập API Key',
+    'mainMenu.continueFrom': 'Tiếp tục:',
+    'mainMenu.currentModel': 'Model AI hiện tại:',
+    'mainMenu.toggleSound': 'Bật/tắt âm thanh',
+
+    // Create world
+    'createWorld.title': 'Kiến Tạo Thế Giới',
+    'createWorld.subtitle': 'Xây dựng thế giới RPG độc đáo của riêng bạn',
+    'createWorld.backHome': 'Về Trang Chủ',
+    'createWorld.saveSettings': 'Lưu Thiết Lập',
+    'createWorld.loadSettings': 'Tải Thiết Lập',
+    'createWorld.importWorldSetup': 'Nhập WorldSetup',
+    'createWorld.importCharacterCard': 'Nhập Thẻ Nhân Vật',
+    'createWorld.characterCardHint': 'Thẻ nhân vật SillyTavern (V2/V3, .json hoặc .png)',
+    'createWorld.tabContext': 'Bối Cảnh Thế Giới',
+    'createWorld.tabKnowledge': 'Tri Thức',
+    'createWorld.storyContext': 'Bối Cảnh Truyện',
+    'createWorld.protagonist': 'Nhân Vật Chính',
+    'createWorld.chooseMastery': 'Chọn mức độ...',
+    'createWorld.writingStyle': 'Phong cách viết',
+    'createWorld.secondPerson': 'Ngôi thứ hai - "Ngươi" là nhân vật chính',
+    'createWorld.firstPerson': 'Ngôi thứ nhất - Nhân vật chính xưng "Ta/Tôi"',
+    'createWorld.gmLanguage': 'Ngôn ngữ của GM:',
+    'createWorld.gmLanguageHint': 'AI kể chuyện và tạo lựa chọn bằng ngôn ngữ này trong suốt thế giới.',
+    'createWorld.difficultyTitle': 'Độ Khó & Nội Dung',
+    'createWorld.chooseDifficulty': 'Chọn Độ Khó:',
+    'createWorld.difficultyEasy': 'Dễ - Tạo ra cho đủ số thôi',
+    'createWorld.difficultyNormal': 'Thường - Cân bằng, phù hợp đa số',
+    'createWorld.difficultyHard': 'Khó - Thử thách cao, Muốn ăn hành',
+    'createWorld.allowNsfw': 'Cho phép nội dung 18+ (Cực kỳ chi tiết)',
+    'createWorld.allowNsfwHint': 'Khi được chọn, AI sẽ kể câu chuyện có tình tiết 18+ (có yếu tố bạo lực) và hành động tùy ý nsfw.',
+    'createWorld.initializing': 'Đang khởi tạo thế giới...',
+    'createWorld.start': 'Khởi Tạo Thế Giới',
+    'createWorld.aiNotReady': 'AI chưa sẵn sàng',
+    'createWorld.startHint': 'Nhấn nút trên để bắt đầu cuộc phiêu lưu RPG của bạn với AI',
+    'createWorld.genreSuggestions': 'Gợi ý thể loại',
+
+    // Choice panel
+    'choices.title': '⚔️ Lựa Chọn Của Ngươi',
+    'choices.aiNotReady': 'AI chưa sẵn sàng',
+    'choices.loading': 'Đang tải lựa chọn...',
+    'choices.questObjective': 'Mục tiêu "{objective}" thuộc nhiệm vụ "{quest}"',
+    'choices.successRate': 'Tỷ lệ thành công:',
+    'choices.risk': 'Rủi ro:',
+    'choices.rewards': 'Phần thưởng:',
+    'choices.defaultRewards': 'Tiến triển trong câu chuyện và mở ra cơ hội mới.',
+    'choices.supportedByPrevious': 'Được hỗ trợ bởi lựa chọn trước đó',
+    'choices.riskReducedBySupport': 'Giảm rủi ro nhờ hỗ trợ',
+    'choices.skillRaisedRate': 'Kỹ năng {skill} đã nâng cao tỷ lệ thành công',
+    'choices.skillReducedRisk': 'Kỹ năng {skill} đã giảm rủi ro',
+    'choices.customAction': '💭 Hành động tùy ý',
+    'choices.customActionHint': 'Nhập hành động của riêng bạn (thêm "nsfw" ở cuối để có nội dung 18+)',
+    'choices.customActionLocked': 'Hành động tùy ý đã bị khóa bởi một luật lệ',
+    'choices.customActionPlaceholder': 'Ví dụ: nhặt hòn đá lên...',
+    'choices.suggestAction': 'Gợi ý hành động',
+    'choices.send': 'Gửi',
+    'choices.sendAction': 'Gửi hành động',
+    'choices.cooldown': 'Chờ {seconds}s',
+
+    // Status panel
+    'statusPanel.tab.character': 'Nhân Vật',
+    'statusPanel.tab.party': 'Đồng Đội',
+    'statusPanel.tab.npcs': 'NPC Hiện Diện',
+    'statusPanel.tab.quests': 'Nhiệm Vụ',
+    'statusPanel.tab.changes': 'Thay Đổi',
+    'statusPanel.tab.lookups': 'Tra Cứu',
+    'statusPanel.slice.knownEntities': 'Thực thể',
+    'statusPanel.slice.statuses': 'Trạng thái',
+    'statusPanel.slice.quests': 'Nhiệm vụ',
+    'statusPanel.slice.party': 'Đồng đội',
+    'statusPanel.slice.memories': 'Ký ức',
+    'statusPanel.slice.gameTime': 'Thời gian',
+    'statusPanel.slice.chronicle': 'Biên niên',
+    'statusPanel.slice.locationDiscoveryOrder': 'Địa điểm',
+    'statusPanel.noCharacter': 'Không có thông tin nhân vật',
+    'statusPanel.uploadAvatar': 'Tải lên ảnh đại diện',
+    'statusPanel.changeAvatar': 'Nhấn để thay đổi ảnh đại diện',
+    'statusPanel.uploadAvatarHint': 'Nhấn để tải lên ảnh đại diện',
+    'statusPanel.protagonist': 'Nhân vật chính',
+    'statusPanel.name': 'Tên:',
+    'statusPanel.gender': 'Giới tính:',
+    'statusPanel.age': 'Tuổi:',
+    'statusPanel.location': 'Vị trí:',
+    'statusPanel.appearance': 'Dung mạo:',
+    'statusPanel.realm': 'Thực lực:',
+    'statusPanel.exp': 'Kinh nghiệm:',
+    'statusPanel.fame': 'Danh vọng:',
+    'statusPanel.noFame': 'Chưa có danh tiếng',
+    'statusPanel.personalityOuter': 'Tính cách (Bề ngoài):',
+    'statusPanel.personalityCore': 'Tính cách (Cốt lõi):',
+    'statusPanel.motivation': 'Động cơ:',
+    'statusPanel.description': 'Mô tả:',
+    'statusPanel.skillsTitle': '🛡️ Kỹ năng & Công pháp',
+    'statusPanel.learnedSkills': 'Kỹ năng đã học:',
+    'statusPanel.otherSkills': 'Kỹ năng khác:',
+    'statusPanel.noSkills': 'Chưa học được kỹ năng nào.',
+    'statusPanel.statusesTitle': '⚡ Trạng thái hiện tại ({count})',
+    'statusPanel.turnsLeft': 'Còn lại: {turns} lượt',
+    'statusPanel.deleteStatus': 'Xóa trạng thái',
+    'statusPanel.noStatuses': 'Đang trong tình trạng bình thường',
+    'statusPanel.inventoryTitle': '🎒 Túi đồ ({count})',
+    'statusPanel.discard': 'Vứt bỏ',
+    'statusPanel.noParty': 'Chưa có đồng đội nào',
+    'statusPanel.skills': 'Kỹ năng:',
+    'statusPanel.noNpcs': 'Không có NPC nào hiện diện',
+    'statusPanel.npcsHint': 'NPCs sẽ được tự động tạo từ AI khi có trong story',
+    'statusPanel.aiCreated': 'AI tạo từ story',
+    'statusPanel.relationship': 'Quan hệ:',
+    'statusPanel.innerThoughts': 'Nội tâm:',
+    'statusPanel.unknown': 'Chưa rõ',
+    'statusPanel.undetermined': 'Chưa xác định',
+    'statusPanel.noThoughts': 'Không có suy nghĩ nào được tạo.',
+    'statusPanel.noChanges': 'Chưa có thay đổi nào được ghi lại',
+    'statusPanel.revertChange': 'Hoàn tác thay đổi này',
+    'statusPanel.revertAll': 'Hoàn tác tất cả',
+    'statusPanel.noQuests': 'Chưa có nhiệm vụ nào',
+    'statusPanel.questCompleted': 'Hoàn thành',
+    'statusPanel.questFailed': 'Thất bại',
+    'statusPanel.questActive': 'Đang tiến hành',
+    'statusPanel.objectives': 'Mục tiêu:',
+    'statusPanel.rewards': '🏆 Phần thưởng:',
+    'statusPanel.confirmDiscard': 'Xác nhận vứt bỏ',
+    'statusPanel.confirmDiscardMessage': 'Bạn có muốn xóa vật phẩm này không?{name}',
+    'statusPanel.confirmDeleteStatus': 'Xác nhận xóa trạng thái',
+    'statusPanel.confirmDeleteStatusMessage': 'Bạn có muốn xóa trạng thái này không?{name}',
+
+    // Load errors shown by the app shell
+    'app.loadNotJson': 'Vui lòng chọn tệp có định dạng .json',
+    'app.loadUnreadable': 'Không thể đọc nội dung tệp.',
+    'app.loadCorrupt': 'Không thể đọc tệp lưu. Tệp có thể bị hỏng hoặc không đúng định dạng JSON.',
+    'app.loadReadError': 'Lỗi khi đọc tệp.',
+    'app.slotNotFound': 'Không tìm thấy bản lưu này trong trình duyệt.',
+    'app.slotCorrupt': 'Không thể tải bản lưu. Dữ liệu có thể bị hỏng.',
+
+    // Desktop header
+    'header.home': 'Trang chủ',
+    'header.gameMenu': 'Game',
+    'header.undo': 'Hoàn tác lượt trước',
+    'header.redo': 'Làm lại lượt đã hoàn tác',
+    'header.defaultStoryName': 'Phiêu Lưu Ký',
+    'header.unknownGenre': 'Chưa xác định',
+    'header.turnTokens': 'Lượt: {tokens}',
+    'header.totalTokens': 'Tổng: {tokens}',
+    'header.save': 'Lưu Trữ',
+    'header.loadGame': 'Tải Game',
+    'header.gameTime': 'Năm {year}, Tháng {month}, Ngày {day}, {hour}:{minute}',
+    'header.map': 'Bản Đồ',
+    'header.playerMenu': 'Nhân Vật',
+    'header.settings': '⚙️ Cài đặt',
+    'header.saveLibrary': '📚 Thư Viện Lưu Trữ',
+    'header.exportWorldSetup': '📤 Xuất WorldSetup',
+    'header.timeline': '🌿 Dòng Thời Gian',
+    'header.loadKnowledge': 'Nạp Tri Thức',
+    'header.regexManager': '🔧 Regex Manager',
+    'header.knowledge': 'Tri Thức',
+    'header.memory': 'Ký Ức',
+    'header.cleanup': '🧹 Dọn dẹp',
+    'header.admin': '⚙️ Bảng Quản Trị',
+    'header.promptInspector': '🔬 Kiểm Tra Prompt',
+    'header.promptTemplates': '📝 Mẫu Prompt',
+    'header.restart': 'Bắt Đầu Lại',
+    'header.inventory': '🎒 Túi Đồ',
+
+    // Memory modal
+    'memory.title': 'Dòng Ký Ức',
+    'memory.pinnedCount': '📌 {count} đã ghim',
+    'memory.totalCount': '📄 {count} tổng cộng',
+    'memory.sortedByImportance': '🎯 Sắp xếp theo độ quan trọng',
+    'memory.pinnedBadge': '📌 ĐÃ GHIM',
+    'memory.moreEntities': '+{count} nữa',
+    'memory.unpin': 'Bỏ ghim',
+    'memory.pin': 'Ghim',
+    'memory.hiddenNotice': '...và {count} ký ức cũ hơn đã bị ẩn. Ghim lại ký ức quan trọng để chúng luôn hiển thị.',
+    'memory.empty': 'Chưa có ký ức mới.',
+
+    // Prompt inspector
+    'promptInspector.title': '🔬 Kiểm Tra Prompt',
+    'promptInspector.sectionItems': ' • {included}/{total} mục',
+    'promptInspector.sectionOmitted': ' • {count} bị bỏ vì hết ngân sách',
+    'promptInspector.empty': 'Chưa có prompt nào trong phiên này. Prompt của mỗi lượt sẽ xuất hiện ở đây sau khi được gửi.',
+    'promptInspector.totals': 'Prompt ~{total} / {softLimit} tokens • System ~{system} tokens • {sections} phần',
+    'promptInspector.uncalibrated': 'Bộ ước lượng token chưa được hiệu chỉnh cho model này (dùng tỉ lệ mặc định).',
+    'promptInspector.accuracy': 'Ước lượng token ({model}): {stats}',
+    'promptInspector.accuracyStat': '{type} thực tế/ước lượng {efficiency}, sai số ±{error}% ({samples} lượt)',
+    'promptInspector.copied': '✅ Đã sao chép',
+    'promptInspector.copy': '📋 Sao chép',
+    'promptInspector.exportJson': '📤 Xuất JSON',
+    'promptInspector.fallback': 'Bộ dựng RAG gặp lỗi, lượt này đã gửi prompt dự phòng tối giản.',
+    'promptInspector.truncated': 'Vượt giới hạn {hardLimit} tokens, đã xử lý bởi {by}: {before} → {after} tokens',
+    'promptInspector.dropped': '. Bị cắt: {sections}',
+
+    // Character card import
+    'cardImport.title': 'Nhập Thẻ Nhân Vật ({spec})',
+    'cardImport.field.characterName': 'Tên nhân vật',
+    'cardImport.field.bio': 'Tiểu sử (description)',
+    'cardImport.field.customPersonality': 'Tính cách (personality)',
+    'cardImport.field.worldDetail': 'Chi tiết thế giới (scenario + lời mở đầu)',
+    'cardImport.pickFields': 'Chọn các mục sẽ ghi đè lên thiết lập hiện tại:',
+    'cardImport.willReplace': '(sẽ thay thế nội dung hiện có)',
+    'cardImport.fieldMissing': 'Thẻ không có nội dung này.',
+    'cardImport.addRules': 'Thêm {count} luật từ character book',
+    'cardImport.noCharacterBook': 'Thẻ không có character book',
+    'cardImport.cancel': 'Hủy',
+    'cardImport.apply': 'Áp dụng',
+
+    // Game settings modal
+    'settings.title': 'Cài Đặt Game',
+    'settings.fontSection': '🔤 Cài Đặt Font',
+    'settings.fontSample': 'Đây là văn bản mẫu với font hiện tại',
+    'settings.fontFamily': 'Loại font',
+    'settings.themeSection': '🎨 Màu Chủ Đề',
+    'settings.themeHint': 'Chọn bảng màu để thay đổi giao diện game',
+    'settings.performanceSection': '⚡ Cài Đặt Hiệu Suất',
+    'settings.memoryAutoClean': 'Tự động dọn dẹp bộ nhớ',
+    'settings.memoryAutoCleanHint': 'Tự động xóa các thông tin cũ để giảm tải bộ nhớ và cải thiện hiệu suất',
+    'settings.historyAutoCompress': 'Tự động nén lịch sử',
+    'settings.historyAutoCompressHint': 'Tự động nén lịch sử game cũ để tiết kiệm dung lượng lưu trữ',
+    'settings.llmHistorySummaries': 'Tóm tắt lịch sử bằng AI',
+    'settings.llmHistorySummariesHint': 'Mỗi lần nén lịch sử, AI viết tóm tắt cho đoạn vừa nén rồi gộp dần thành chương và hồi. Tốn thêm một lần gọi API mỗi lần nén, chạy nền không làm chậm lượt chơi',
+    'settings.cot': 'Chain of Thought (COT)',
+    'settings.cotHint': 'Bật/tắt quá trình suy nghĩ chi tiết của AI trong phản hồi. Tắt để có phản hồi nhanh hơn nhưng ít chi tiết hơn',
+    'settings.streaming': 'Hiển thị câu chuyện theo thời gian thực',
+    'settings.streamingHint': 'Hiển thị dần câu chuyện trong khi AI đang viết và cho phép dừng giữa chừng. Lựa chọn và thẻ lệnh chỉ được áp dụng khi phản hồi hoàn tất',
+    'settings.referenceTools': 'Cho AI tra cứu mã tham chiếu',
+    'settings.referenceToolsHint': 'Trước mỗi lượt, AI có thể gọi công cụ để đọc đầy đủ thông tin thực thể và ký ức theo mã REF_. Tốn thêm ít nhất một lần gọi API mỗi lượt',
+    'settings.maxReferenceToolHops': 'Số vòng tra cứu tối đa mỗi lượt',
+    'settings.semanticRecall': 'Truy hồi ký ức theo ngữ nghĩa',
+    'settings.semanticRecallHint': 'Tìm ký ức, chương biên niên sử và thực thể gần nghĩa với hành động bằng vector embedding, kết hợp với tìm kiếm từ khóa. Vector được lưu trong trình duyệt',
+    'settings.maxActiveHistoryEntries': 'Số lượng lịch sử tối đa',
+    'settings.maxActiveHistoryEntriesHint': 'Giới hạn số lượng mục lịch sử được giữ lại trong bộ nhớ hoạt động',
+    'settings.historyCompressionThreshold': 'Ngưỡng nén lịch sử',
+    'settings.historyCompressionThresholdHint': 'Số lượng mục lịch sử tích lũy trước khi tự động nén. Thấp hơn = nén sớm hơn',
+    'settings.autosave': 'Tự động lưu',
+    'settings.autosaveHint': 'Tự động lưu vào thư viện lưu trữ của trình duyệt sau mỗi N lượt. 0 = tắt',
+    'settings.current': 'Cài đặt hiện tại',
+    'settings.reset': '🔄 Đặt lại mặc định',
+    'settings.cancel': 'Hủy',
+    'settings.save': '💾 Lưu cài đặt',
+    'settings.defaultFont': '{font} (Mặc định)',
+    'settings.fontSize': 'Kích cỡ font: {size}px',
+    'settings.theme.darkSlate': 'Đen Xám Đậm',
+    'settings.theme.darkSlateDescription': 'Tối tăm và bí ẩn',
+    'settings.theme.deepBlue': 'Xanh Dương Đậm',
+    'settings.theme.deepBlueDescription': 'Sâu thẳm như đại dương',
+    'settings.theme.purple': 'Tím Hoàng Gia',
+    'settings.theme.purpleDescription': 'Hiện tại (Mặc định)',
+    'settings.theme.emerald': 'Ngọc Lục Bảo',
+    'settings.theme.emeraldDescription': 'Tươi mát và thanh lịch',
+    'settings.theme.roseGold': 'Hồng Vàng',
+    'settings.theme.roseGoldDescription': 'Ấm áp và lãng mạn',
+    'settings.theme.sunset': 'Hoàng Hôn',
+    'settings.theme.sunsetDescription': 'Sáng sủa như hoàng hôn',
+    'settings.semanticRecallOff': 'Tắt',
+    'settings.semanticRecallLocal': 'Cục bộ (băm từ ngữ, không cần mạng)',
+    'settings.semanticRecallRemote': 'Máy chủ embedding (OpenAI-compatible)',
+    'settings.embeddingModelPlaceholder': 'Tên model, ví dụ nomic-embed-text',
+    'settings.embeddingApiKeyPlaceholder': 'API key (không bắt buộc với máy chủ cục bộ)',
+    'settings.value': 'Giá trị: {value}',
+    'settings.on': '✅ Bật',
+    'settings.off': '❌ Tắt',
+    'settings.summary.font': 'Font: {font} - {size}px',
+    'settings.summary.theme': 'Màu chủ đề: {theme}',
+    'settings.summary.cot': 'Chain of Thought: {state}',
+    'settings.summary.streaming': 'Hiển thị thời gian thực: {state}',
+    'settings.summary.referenceTools': 'Tra cứu tham chiếu: {state}',
+    'settings.summary.referenceToolsOn': '✅ Bật (tối đa {hops} vòng)',
+    'settings.summary.semanticRecall': 'Truy hồi ngữ nghĩa: {state}',
+    'settings.summary.semanticRecallLocal': '✅ Cục bộ',
+    'settings.summary.embeddingServer': 'Máy chủ embedding',
+    'settings.summary.memoryAutoClean': 'Dọn dẹp bộ nhớ: {state}',
+    'settings.summary.historyAutoCompress': 'Nén lịch sử: {state}',
+    'settings.summary.llmHistorySummaries': 'Tóm tắt lịch sử bằng AI: {state}',
+    'settings.summary.maxActiveHistoryEntries': 'Lịch sử tối đa: {count} mục',
+    'settings.summary.historyCompressionThreshold': 'Ngưỡng nén lịch sử: {count} mục',
+    'settings.summary.autosave': 'Tự động lưu: {state}',
+    'settings.summary.autosaveEvery': 'mỗi {turns} lượt',
+
+    // Custom rules modal
+    'customRules.validationError': 'Luật {index}: {errors}',
+    'customRules.alert.invalidRules': 'Có lỗi trong cấu hình luật:\n{errors}',
+    'customRules.copyTitle': '{title} (Sao chép)',
+    'customRules.untitled': 'Luật',
+    'customRules.alert.nothingToSave': 'Không có luật nào để lưu.',
+    'customRules.alert.importWarnings': 'Cảnh báo khi nhập file:\n{errors}',
+    'customRules.alert.imported': 'Đã nhập thành công {count} luật.',
+    'customRules.alert.importFailed': 'Không thể đọc file luật. File có thể bị hỏng hoặc không đúng định dạng.',
+    'customRules.alert.invalidWorldInfo': 'Không phải file WorldInfo hợp lệ của SillyTavern. File cần có định dạng: {"entries": {...}}',
+    'customRules.alert.worldInfoConvertErrors': 'Đã chuyển đổi {count} luật, có {errors} lỗi. Xem console để biết chi tiết.',
+    'customRules.alert.worldInfoImported': 'Đã nhập thành công {count} mục WorldInfo từ SillyTavern!',
+    'customRules.alert.worldInfoEmpty': 'Không tìm thấy mục WorldInfo hợp lệ nào trong file.',
+    'customRules.alert.worldInfoReadFailed': 'Không thể đọc file WorldInfo. File có thể bị hỏng hoặc không đúng định dạng JSON.',
+    'customRules.titlePlaceholder': 'Tiêu đề luật #{index}...',
+    'customRules.contentPlaceholder': 'Nội dung luật #{index}...',
+    'customRules.priorityBadge': 'Ưu tiên: {order}',
+    'customRules.collapse': 'Thu gọn',
+    'customRules.details': 'Chi tiết',
+    'customRules.active': 'Hoạt động',
+    'customRules.duplicate': 'Sao chép',
+    'customRules.content': 'Nội dung luật:',
+    'customRules.primaryKeywords': 'Từ khóa chính (hỗ trợ cụm từ với [dấu ngoặc] hoặc "dấu nháy"):',
+    'customRules.secondaryKeywords': 'Từ khóa phụ (hỗ trợ cụm từ với [dấu ngoặc] hoặc "dấu nháy"):',
+    'customRules.keywordCount': '({count} từ khóa)',
+    'customRules.primaryKeywordsPlaceholder': 'rồng [gọi điện thoại] "nói trong điện thoại" lửa...',
+    'customRules.secondaryKeywordsPlaceholder': '[hơi thở lửa] "thổi lửa" băng-giá...',
+    'customRules.order': 'Độ ưu tiên:',
+    'customRules.probability': 'Xác suất (%):',
+    'customRules.alwaysActive': 'Luôn hoạt động (bỏ qua từ khóa)',
+    'customRules.alwaysActiveHint': 'Khi bật, luật này sẽ luôn được bao gồm trong prompt mà không cần từ khóa',
+    'customRules.logic': 'Logic từ khóa:',
+    'customRules.scanDepth': 'Độ sâu quét:',
+    'customRules.group': 'Nhóm loại trừ:',
+    'customRules.groupWeight': 'Trọng số trong nhóm:',
+    'customRules.groupOverride': 'Ưu tiên trong nhóm',
+    'customRules.groupHint': 'Khi nhiều luật cùng nhóm được kích hoạt, chỉ một luật được đưa vào prompt: luật "ưu tiên" có độ ưu tiên cao nhất, nếu không thì chọn ngẫu nhiên theo trọng số',
+    'customRules.sticky': 'Duy trì (lượt):',
+    'customRules.cooldown': 'Hồi chiêu (lượt):',
+    'customRules.delay': 'Trì hoãn (lượt):',
+    'customRules.timedEffectsHint': 'Duy trì: giữ luật trong prompt thêm N lượt sau khi kích hoạt • Hồi chiêu: không kích hoạt lại trong N lượt sau đó • Trì hoãn: chỉ kích hoạt từ lượt N trở đi',
+    'customRules.scanOptions': 'Tùy chọn quét:',
+    'customRules.scanGameState': 'Quét trạng thái game:',
+    'customRules.matchOptions': 'Tùy chọn khớp từ khóa:',
+    'customRules.title': 'Quản Lý Luật Lệ Nâng Cao',
+    'customRules.recursiveScan': 'Quét đệ quy',
+    'customRules.cancel': 'Hủy',
+    'customRules.scanPlayerInput': 'Lệnh người chơi',
+    'customRules.scanAIOutput': 'Phản hồi AI',
+    'customRules.scanMemories': 'Ký ức',
+    'customRules.excludeRecursion': 'Không kích hoạt qua đệ quy',
+    'customRules.preventRecursion': 'Không kích hoạt luật khác',
+    'customRules.caseSensitive': 'Phân biệt hoa thường',
+    'customRules.matchWholeWords': 'Chỉ từ nguyên vẹn',
+    'customRules.scanLocation': 'Vị trí hiện tại',
+    'customRules.scanNPCsPresent': 'NPC có mặt',
+    'customRules.scanParty': 'Thành viên tổ đội',
+    'customRules.scanStatuses': 'Trạng thái đang có',
+    'customRules.scanQuests': 'Nhiệm vụ đang làm',
+    'customRules.activationCount': 'Đã kích hoạt: {count} lần',
+    'customRules.lastActivated': ' • Lần cuối: Lượt {turn}',
+    'customRules.tokenWeight': ' • Tokens ước tính: {tokens}',
+    'customRules.viewMode': 'Chế độ:',
+    'customRules.viewAdvanced': 'Nâng cao',
+    'customRules.viewSimple': 'Đơn giản',
+    'customRules.sort': 'Sắp xếp:',
+    'customRules.sort.priority': 'Độ ưu tiên',
+    'customRules.sort.alphabetical': 'Tên A-Z',
+    'customRules.sort.category': 'Danh mục',
+    'customRules.sort.recent': 'Mới nhất',
+    'customRules.categoryFilter': 'Danh mục:',
+    'customRules.allCategories': 'Tất cả',
+    'customRules.searchPlaceholder': 'Tìm kiếm luật...',
+    'customRules.recursiveScanHint': 'Nội dung của luật đã kích hoạt được quét tiếp để kích hoạt các luật khác',
+    'customRules.maxRecursionDepth': 'Số cấp đệ quy tối đa',
+    'customRules.stats': 'Hiển thị {shown}/{total} luật • {active} hoạt động • Tổng ước tính: {tokens} tokens',
+    'customRules.fromWorldInfo': '• {count} từ WorldInfo',
+    'customRules.noMatches': 'Không tìm thấy luật nào phù hợp với bộ lọc.',
+    'customRules.empty': 'Chưa có luật lệ tùy chỉnh nào.',
+    'customRules.add': 'Thêm Luật Mới',
+    'customRules.exportShort': 'Xuất',
+    'customRules.importShort': 'Nhập',
+    'customRules.exportWorldInfoShort': 'Xuất WI',
+    'customRules.exportFile': 'Xuất File',
+    'customRules.importFile': 'Nhập File',
+    'customRules.importWorldInfo': 'Nhập WorldInfo',
+    'customRules.exportWorldInfo': 'Xuất WorldInfo',
+    'customRules.exportWorldInfoHint': 'Xuất sang định dạng World Info của SillyTavern',
+    'customRules.saveShort': 'Lưu ({active})',
+    'customRules.save': 'Lưu Thay Đổi ({active} hoạt động)',
+    'customRules.category.general': '📋 Tổng quát',
+    'customRules.category.combat': '⚔️ Chiến đấu',
+    'customRules.category.social': '👥 Xã hội',
+    'customRules.category.exploration': '🗺️ Khám phá',
+    'customRules.category.story': '📖 Cốt truyện',
+    'customRules.category.items': '🎒 Vật phẩm',
+    'customRules.category.skills': '⭐ Kỹ năng',
+    'customRules.category.world': '🌍 Thế giới',
+
+    // Regex manager
+    'regex.placement.playerInput': 'Lệnh người chơi',
+    'regex.placement.aiOutput': 'Phản hồi AI',
+    'regex.placement.memory': 'Lưu ký ức',
+    'regex.placement.entities': 'Trích xuất thực thể',
+    'regex.placement.quests': 'Cập nhật nhiệm vụ',
+    'regex.placement.dialogue': 'Định dạng hội thoại',
+    'regex.placement.stats': 'Trích xuất chỉ số',
+    'regex.placement.combat': 'Định dạng chiến đấu',
+    'regex.test.timedOut': 'Lỗi: mẫu chạy quá {ms}ms và đã bị dừng',
+    'regex.test.error': 'Lỗi: {error}',
+    'regex.alert.nameRequired': 'Cần nhập tên luật.',
+    'regex.alert.nameTaken': 'Đã có luật trùng tên này.',
+    'regex.alert.patternRequired': 'Cần nhập mẫu regex cần tìm.',
+    'regex.alert.placementRequired': 'Cần chọn ít nhất một nơi áp dụng.',
+    'regex.alert.nothingToExport': 'Không có luật nào để xuất.',
+    'regex.alert.fixPattern': 'Hãy sửa lỗi mẫu regex: {error}',
+    'regex.editor.editTitle': 'Sửa Luật Regex',
+    'regex.editor.createTitle': 'Tạo Luật Regex',
+    'regex.editor.name': 'Tên luật *',
+    'regex.editor.description': 'Mô tả',
+    'regex.editor.category': 'Danh mục',
+    'regex.editor.findRegex': 'Mẫu regex cần tìm *',
+    'regex.editor.replaceWith': 'Thay thế bằng',
+    'regex.editor.trimStrings': 'Chuỗi cần cắt bỏ (mỗi dòng một chuỗi)',
+    'regex.editor.placement': 'Áp dụng cho (vị trí) *',
+    'regex.editor.substitute': 'Thay thế macro',
+    'regex.editor.minDepth': 'Độ sâu tối thiểu',
+    'regex.editor.maxDepth': 'Độ sâu tối đa',
+    'regex.editor.test': 'Thử mẫu',
+    'regex.editor.namePlaceholder': 'Nhập tên luật...',
+    'regex.editor.descriptionPlaceholder': 'Mô tả tác dụng của luật...',
+    'regex.editor.categoryPlaceholder': 'ví dụ: Định dạng, Chiến đấu, Hội thoại...',
+    'regex.editor.findRegexPlaceholder': 'Nhập mẫu regex... ví dụ: /\\*([^*]+)\\*/g',
+    'regex.editor.replacePlaceholder': 'Văn bản thay thế... Dùng $1, $2 cho nhóm, {{match}} cho toàn bộ kết quả khớp',
+    'regex.editor.trimPlaceholder': 'Các chuỗi cần bỏ khỏi kết quả khớp...',
+    'regex.editor.testPlaceholder': 'Nhập văn bản thử ở đây...',
+    'regex.bench.samplePlaceholder': 'Dán một đoạn truyện hoặc lệnh người chơi để chạy thử các luật...',
+    'regex.list.edit': 'Sửa luật',
+    'regex.list.delete': 'Xóa luật',
+    'regex.editor.options': 'Tùy chọn',
+    'regex.editor.markdownOnly': 'Chỉ khi hiển thị markdown',
+    'regex.editor.promptOnly': 'Chỉ khi tạo prompt',
+    'regex.editor.runOnEdit': 'Chạy khi sửa nội dung',
+    'regex.editor.scoped': 'Riêng cho nhân vật/thế giới',
+    'regex.editor.substitute.none': 'Không - Dùng mẫu nguyên bản',
+    'regex.editor.substitute.raw': 'Thô - Thay thế macro',
+    'regex.editor.substitute.escaped': 'Thoát ký tự - Thay thế và escape',
+    'regex.editor.hide': 'Ẩn',
+    'regex.editor.show': 'Hiện',
+    'regex.editor.output': 'Kết quả:',
+    'regex.editor.noChanges': 'Không có thay đổi',
+    'regex.editor.enterTestInput': 'Nhập văn bản thử ở trên',
+    'regex.cancel': 'Hủy',
+    'regex.editor.save': 'Lưu Luật',
+    'regex.skip.disabled': 'Luật đang tắt',
+    'regex.skip.depth': 'Độ sâu nằm ngoài khoảng min/max của luật',
+    'regex.skip.edit': 'Luật không chạy khi sửa nội dung',
+    'regex.skip.mode': 'Luật chỉ cho markdown hoặc chỉ cho prompt',
+    'regex.status.changed': 'đã đổi',
+    'regex.status.unchanged': 'không đổi',
+    'regex.status.skipped': 'bỏ qua',
+    'regex.status.timedOut': 'quá giờ',
+    'regex.status.error': 'lỗi',
+    'regex.bench.sample': 'Đoạn truyện mẫu',
+    'regex.bench.placement': 'Vị trí',
+    'regex.bench.depth': 'Độ sâu',
+    'regex.bench.running': 'Đang chạy...',
+    'regex.bench.run': 'Chạy Theo Dõi',
+    'regex.bench.noRules': 'Chưa có luật nào cho vị trí này.',
+    'regex.bench.timedOut': 'Đã dừng sau {ms}ms và tắt luật. Văn bản được chuyển tiếp nguyên vẹn.',
+    'regex.bench.before': 'Trước',
+    'regex.bench.after': 'Sau',
+    'regex.bench.finalOutput': 'Kết quả cuối cùng',
+    'regex.confirm.delete': 'Bạn có chắc muốn xóa luật này?',
+    'regex.confirm.bulkDelete': 'Bạn có chắc muốn xóa {count} luật đã chọn?',
+    'regex.alert.imported': 'Đã nhập thành công {count} luật.',
+    'regex.alert.importFailed': 'Lỗi khi nhập luật: {error}',
+    'regex.alert.unknownError': 'Lỗi không xác định',
+    'regex.confirm.loadTemplates': 'Thao tác này sẽ thêm các mẫu regex RPG mặc định vào danh sách luật. Tiếp tục?',
+    'regex.alert.templatesLoaded': 'Đã nạp {count} luật mẫu!',
+    'regex.title': 'Quản Lý Luật Regex',
+    'regex.tab.rules': 'Luật',
+    'regex.tab.bench': 'Chạy Thử',
+    'regex.timedOutNotice': '⏱️ {count} luật đã bị tắt tự động vì chạy quá {ms}ms (nhiều khả năng do backtracking bùng nổ). Hãy sửa mẫu rồi bật lại luật.',
+    'regex.toolbar.newRule': 'Luật Mới',
+    'regex.toolbar.enable': 'Bật',
+    'regex.toolbar.disable': 'Tắt',
+    'regex.toolbar.delete': 'Xóa',
+    'regex.toolbar.import': 'Nhập',
+    'regex.toolbar.loadTemplates': 'Nạp Mẫu',
+    'regex.toolbar.saveAll': 'Lưu Tất Cả Luật',
+    'regex.allCategories': 'Tất cả danh mục',
+    'regex.deselectAll': 'Bỏ chọn tất cả',
+    'regex.selectAll': 'Chọn tất cả',
+    'regex.toolbar.exportSelected': 'Xuất ({count})',
+    'regex.toolbar.exportAll': 'Xuất Tất Cả',
+    'regex.empty': 'Chưa có luật regex nào',
+    'regex.emptyHint': 'Tạo luật đầu tiên để bắt đầu tự động xử lý văn bản.',
+    'regex.disabled': 'Đã tắt',
+    'regex.timedOut': '⏱️ Quá giờ',
+    'regex.scoped': 'Theo phạm vi',
+    'regex.autoDisabledAt': 'Tự động tắt lúc {date} vì chạy quá {ms}ms.',
+    'regex.list.pattern': 'Mẫu:',
+    'regex.list.appliesTo': 'Áp dụng cho:',
+    'regex.list.enable': 'Bật luật',
+    'regex.list.disable': 'Tắt luật',
+    'regex.invalidPattern': 'Sai mẫu regex',
+    'regex.invalidFileFormat': 'Định dạng file không hợp lệ',
+    'regex.footer': '{count} luật • {selected} đã chọn',
+
+    // Create world alerts
+    'createWorld.alert.setupLoaded': 'Đã tải thiết lập thành công!',
+    'createWorld.alert.setupReadFailed': 'Không thể đọc tệp thiết lập. Tệp có thể bị hỏng hoặc không đúng định dạng.',
+    'createWorld.alert.worldInfoImported': 'Đã nhập thành công {count} luật từ WorldInfo.',
+    'createWorld.alert.worldInfoReadFailed': 'Không thể đọc tệp WorldInfo. Tệp có thể bị hỏng hoặc không đúng định dạng SillyTavern WorldInfo.',
+    'createWorld.alert.cardReadFailed': 'Không thể đọc thẻ nhân vật. {error}',
+    'createWorld.alert.worldSetupLoaded': 'Đã tải thành công WorldSetup: "{name}" với {count} luật tùy chỉnh.',
+    'createWorld.alert.unnamed': 'Chưa đặt tên',
+    'createWorld.alert.worldSetupReadFailed': 'Không thể đọc tệp WorldSetup. Tệp có thể bị hỏng hoặc không đúng định dạng.',
+
+    // Create world suggestion errors
+    'createWorld.error.aiNotReady': 'AI chưa sẵn sàng. Vui lòng kiểm tra thiết lập API Key.',
+    'createWorld.error.suggestionFailed': 'Gặp lỗi khi tạo gợi ý. Vui lòng kiểm tra API Key và thử lại.',
+    'createWorld.error.rateLimited': 'Bạn đã gửi yêu cầu quá nhanh. Vui lòng chờ một lát rồi thử lại.',
+    'createWorld.error.characterSuggestionFailed': 'Gặp lỗi khi tạo gợi ý nhân vật. Vui lòng kiểm tra API Key và thử lại.',
+
+    // Game screen notifications
+    'game.notify.regexTimedOut': '⏱️ Quy tắc regex "{name}" chạy quá {ms}ms nên đã bị tắt tự động.',
+    'game.notify.highTokenCooldown': '⚠️ Sử dụng token cao ({tokens}k). Chờ 60 giây trước khi thực hiện hành động tiếp theo.',
+    'game.notify.itemEdited': 'Vật phẩm đã được chỉnh sửa thành công!',
+    'game.notify.skillEdited': 'Kỹ năng đã được chỉnh sửa thành công!',
+    'game.notify.npcEdited': 'NPC đã được chỉnh sửa thành công!',
+    'game.notify.pcEdited': 'Thông tin nhân vật chính đã được cập nhật thành công!',
+    'game.notify.locationEdited': 'Thông tin địa điểm đã được cập nhật thành công!',
+    'game.notify.statusRemoved': 'Trạng thái "{name}" đã được xóa thành công!',
+    'game.notify.loadFailed': '❌ Không thể tải bản lưu',
+    'game.notify.noQuicksave': '⚠️ Chưa có bản lưu nhanh (F5 để lưu nhanh)',
+    'game.notify.regexSaved': 'Đã lưu các luật regex!',
+    'game.notify.unifiedCleanup': '🧹 Dọn dẹp tổng hợp hoàn tất! Tiết kiệm ~{tokens}k token.',
+    'game.notify.legacyCleanup': '🧹 Dọn dẹp kiểu cũ hoàn tất! Tiết kiệm ~{tokens}k token.',
+    'game.notify.memoryInsight': '📊 Nhận xét ký ức: {title} - {description}',
+    'game.notify.memoryAnalysis': '📊 Phân tích ký ức: {count} ký ức, độ quan trọng trung bình {importance}, tình trạng {health}',
+    'game.notify.smartMemories': '🧠 Đã tạo {count} ký ức thông minh! {insights}',
+    'game.notify.noSmartMemories': '🧠 Không có ký ức thông minh mới nào từ các sự kiện gần đây.',
+    'game.notify.worldSetupExported': '📤 WorldSetup đã được xuất thành công!',
+    'game.notify.worldSetupExportFailed': '❌ Lỗi khi xuất WorldSetup',
+    'game.notify.duplicateMemoriesRemoved': '🧹 Đã xóa {count} ký ức trùng lặp',
+
+    // Game state handler notifications
+    'handlers.savedToLibrary': '💾 Đã lưu "{name}" vào thư viện',
+    'handlers.saveToLibraryFailed': '❌ Không thể lưu vào thư viện lưu trữ',
+    'handlers.quicksaved': '⚡ Đã lưu nhanh',
+    'handlers.quicksaveFailed': '❌ Lưu nhanh thất bại',
+    'handlers.autosaveFailed': '❌ Tự động lưu thất bại',
+    'handlers.revertBlocked': '⚠️ Không thể hoàn tác: dữ liệu đã thay đổi sau lượt này.',
+    'handlers.reverted': '↩️ Đã hoàn tác {tag} ({applied}/{total} thay đổi).',
+
+    // Story log messages of the game action handlers
+    'handlers.initialStoryEmpty': 'Lỗi: AI không thể tạo câu chuyện khởi đầu.',
+    'handlers.initialStoryFiltered': ' Có thể do giới hạn token hoặc nội dung bị lọc.',
+    'handlers.initialStoryNetwork': ' Có thể do lỗi kết nối mạng.',
+    'handlers.initialStoryRetry': ' Vui lòng thử tạo lại thế giới hoặc kiểm tra API key.',
+    'handlers.initialStoryFailed': 'Có lỗi xảy ra khi bắt đầu câu chuyện. Vui lòng thử lại.',
+    'handlers.errorDetails': 'Chi tiết lỗi: {details}',
+    'handlers.rateLimited': '**⭐ Lỗi giới hạn yêu cầu. Đã tự động chuyển sang API Key tiếp theo. Vui lòng thử lại hành động của bạn. ⭐**',
+    'handlers.actionFailed': 'Lỗi: AI không thể xử lý yêu cầu. Vui lòng thử một hành động khác.',
+    'handlers.suggestUnavailable': 'Không thể nhận gợi ý lúc này.',
+    'handlers.emptyResponse': 'Lỗi: AI trả về phản hồi trống. Hãy thử lại.',
+    'handlers.noJson': 'Lỗi: Không tìm thấy JSON hợp lệ trong phản hồi. Hãy thử lại.',
+    'handlers.parseFailed': 'Lỗi: Không thể phân tích phản hồi AI. Chi tiết: {details}',
+    'handlers.missingStory': 'Lỗi: Phản hồi thiếu nội dung câu chuyện. Hãy thử lại.',
+    'handlers.invalidResponse': 'Lỗi: AI trả về dữ liệu không hợp lệ. Hãy thử lại.',
+
+    // Timeline branch modal
+    'timeline.title': '🌿 Dòng Thời Gian',
+    'timeline.branches': 'Các nhánh',
+    'timeline.playing': '(đang chơi)',
+    'timeline.forkedFrom': ' • Tách từ "{name}" tại lượt {turn}',
+    'timeline.parentChose': ' • Nhánh gốc đã chọn: "{action}"',
+    'timeline.switch': 'Chuyển',
+    'timeline.compare': 'So sánh',
+    'timeline.export': '📤 Xuất',
+    'timeline.compareWith': 'So sánh',
+    'timeline.withActive': 'với nhánh đang chơi',
+    'timeline.turnDelta': ' ({delta} lượt)',
+    'timeline.diff.entities': 'Thực thể',
+    'timeline.diff.quests': 'Nhiệm vụ',
+    'timeline.diff.statuses': 'Trạng thái',
+    'timeline.diff.count': '({count} khác biệt)',
+    'timeline.diff.same': 'Giống nhau',
+    'timeline.noDiff': 'Không có dữ liệu lượt để so sánh.',
+    'timeline.forkTitle': 'Tách nhánh từ lượt',
+    'timeline.forkHelp': 'Có thể tách nhánh ở bất kỳ lượt nào trong {capacity} lượt gần nhất. Lượt cũ hơn chỉ tách được ở những lượt còn giữ trạng thái (mỗi {interval} lượt, thưa hơn khi câu chuyện dài).',
+    'timeline.noTurns': 'Chưa có lượt nào được ghi lại.',
+    'timeline.branchDefault': 'Nhánh {n}',
+    'timeline.fork': '🌿 Tách nhánh',
+
+    // Save library modal
+    'saveLibrary.title': '📚 Thư Viện Lưu Trữ',
+    'saveLibrary.kind.manual': '💾 Thủ công',
+    'saveLibrary.kind.auto': '🔄 Tự động',
+    'saveLibrary.kind.quick': '⚡ Lưu nhanh',
+    'saveLibrary.readFailed': 'Không thể đọc thư viện lưu trữ của trình duyệt.',
+    'saveLibrary.confirmDelete': 'Xóa bản lưu "{name}"?',
+    'saveLibrary.namePlaceholder': 'Tên bản lưu (để trống để tự đặt)',
+    'saveLibrary.saveNew': '💾 Lưu mới',
+    'saveLibrary.empty': 'Chưa có bản lưu nào trong trình duyệt.',
+    'saveLibrary.load': 'Tải',
+    'saveLibrary.overwrite': 'Ghi đè',
+    'saveLibrary.shortcuts': 'Phím tắt trong game: F5 lưu nhanh, F9 tải nhanh.',
+
+    // Command tag rejection modal
+    'tagRejection.title': '⛔ Thay Đổi Trạng Thái Bị Từ Chối',
+    'tagRejection.summary': 'Lượt {turn}: AI gửi {count} thẻ lệnh nhưng có thẻ không hợp lệ, nên không thay đổi nào được áp dụng. Câu chuyện vẫn được hiển thị bình thường.',
+    'tagRejection.errors': 'Lỗi',
+
+    // Save diagnostics modal
+    'saveDiagnostics.fatalTitle': '⛔ Không Thể Tải Tệp Lưu',
+    'saveDiagnostics.title': '🩺 Chẩn Đoán Tệp Lưu',
+    'saveDiagnostics.fatal': 'Tệp thiếu dữ liệu bắt buộc nên không thể tải.',
+    'saveDiagnostics.loaded': 'Tệp lưu đã được tải. Một số dữ liệu đã được tự động sửa hoặc cần bạn kiểm tra.',
+    'saveDiagnostics.errors': 'Lỗi',
+    'saveDiagnostics.unrepaired': 'Lỗi chưa sửa',
+    'saveDiagnostics.repaired': 'Đã sửa',
+    'saveDiagnostics.migration': 'Nâng cấp định dạng v{from} → v{to}',
+    'saveDiagnostics.originalKept': 'Tệp gốc không bị thay đổi.',
+    'saveDiagnostics.download': '📥 Tải tệp đã sửa',
+
+    // Prompt templates modal
+    'promptTemplates.title': '📝 Mẫu Prompt',
+    'promptTemplates.import': '📥 Nhập preset',
+    'promptTemplates.export': '📤 Xuất preset',
+    'promptTemplates.saved': 'Đã lưu mẫu "{label}".',
+    'promptTemplates.reset': 'Đã khôi phục mẫu "{label}" về mặc định.',
+    'promptTemplates.imported': 'Đã nhập preset "{name}".',
+    'promptTemplates.importSkipped': ' Bỏ qua vì không hợp lệ: {labels}.',
+    'promptTemplates.importFailed': 'Không thể nhập preset: {error}',
+    'promptTemplates.usingOverride': 'Thế giới này đang dùng bản đã chỉnh sửa.',
+    'promptTemplates.usingDefault': 'Đang dùng bản mặc định.',
+    'promptTemplates.save': '💾 Lưu',
+    'promptTemplates.discard': 'Hủy thay đổi',
+    'promptTemplates.restoreDefault': '↺ Khôi phục mặc định',
+    'promptTemplates.placeholders': 'Placeholder có thể dùng',
+    'promptTemplates.defaultText': 'Bản mặc định',
+
+    // Story panel
+    'story.title': '📖 Diễn Biến Câu Chuyện',
+    'story.lines': '{count} dòng',
+    'story.aiNotReady': 'AI chưa sẵn sàng',
+    'story.checkApiKey': 'Vui lòng kiểm tra API Key và quay về trang chủ',
+    'story.emptyTitle': 'Câu chuyện sẽ bắt đầu ở đây...',
+    'story.emptyHint': 'Hãy chọn một hành động để bắt đầu cuộc phiêu lưu',
+    'story.writing': 'Đang viết câu chuyện...',
+    'story.generating': 'Đang tạo câu chuyện...',
+    'story.stopTitle': 'Dừng tạo câu chuyện',
+    'story.stop': 'Dừng',
+    'story.scrollToBottom': 'Cuộn xuống cuối',
+    'story.viewDetails': 'Xem chi tiết {name}',
+
+    // Sidebar navigation
+    'sidebar.title': 'Menu',
+    'sidebar.home': 'Trang chủ',
+    'sidebar.character': 'Nhân Vật',
+    'sidebar.party': 'Đồng Đội',
+    'sidebar.quests': 'Nhiệm Vụ',
+    'sidebar.settings': 'Cài đặt',
+    'sidebar.save': 'Lưu Trữ',
+    'sidebar.saveLibrary': 'Thư Viện Lưu Trữ',
+    'sidebar.exportWorldSetup': 'Xuất WorldSetup',
+    'sidebar.timeline': 'Dòng Thời Gian',
+    'sidebar.map': 'Bản Đồ',
+    'sidebar.loadKnowledge': 'Nạp Tri Thức',
+    'sidebar.regexManager': 'Regex Manager',
+    'sidebar.knowledge': 'Tri Thức',
+    'sidebar.memory': 'Ký Ức',
+    'sidebar.admin': 'Bảng Quản Trị',
+    'sidebar.promptInspector': 'Kiểm Tra Prompt',
+    'sidebar.promptTemplates': 'Mẫu Prompt',
+    'sidebar.restart': 'Bắt Đầu Lại',
+    'sidebar.cleanup': 'Dọn dẹp:',
+    'sidebar.saved': 'Tiết kiệm:',
+    'sidebar.manualCleanup': '🧹 Dọn dẹp thủ công',
+    'sidebar.turnTokens': 'Lượt:',
+    'sidebar.history': 'Lịch sử:',
+    'sidebar.historyEntries': '{count} mục',
+    'sidebar.compressed': 'Đã nén:',
+    'sidebar.compressedSegments': '{count} đoạn',
+    'sidebar.savedTokens': '{count}k token',
+
+    // Quest log
+    'questLog.active': 'Đang Thực Hiện',
+    'questLog.completeObjectives': 'Hoàn thành các mục tiêu.',
+    'questLog.noActive': 'Không có nhiệm vụ nào đang hoạt động.',
+    'questLog.finished': 'Đã Kết Thúc',
+
+    // Relationship kinds (data/relationships.ts)
+    'relationship.lover': 'Người yêu',
+    'relationship.devoted': 'Tận tụy',
+    'relationship.hostile': 'Thù địch',
+    'relationship.family': 'Gia đình',
+    'relationship.teammate': 'Đồng đội',
+    'relationship.bestFriend': 'Bạn thân',
+    'relationship.friendly': 'Thân thiện',
+    'relationship.respectful': 'Tôn kính',
+    'relationship.trusting': 'Tin tưởng',
+    'relationship.grateful': 'Biết ơn',
+    'relationship.suspicious': 'Nghi ngờ',
+    'relationship.rival': 'Cạnh tranh',
+    'relationship.fearful': 'Sợ hãi',
+    'relationship.curious': 'Tò mò',
+    'relationship.cautious': 'Thận trọng',
+    'relationship.neutral': 'Trung lập',
+    'relationship.undetermined': 'Chưa xác định',
+    'relationship.unclear': 'Chưa rõ',
+
+    // Entity fields shared by the entity info and edit modals
+    'entity.type': 'Loại:',
+    'entity.typePc': 'Nhân vật chính',
+    'entity.typeLocation': 'Địa điểm',
+    'entity.gender': 'Giới tính',
+    'entity.age': 'Tuổi',
+    'entity.appearance': 'Dung mạo',
+    'entity.location': 'Vị trí',
+    'entity.realm': 'Cảnh giới',
+    'entity.power': 'Thực Lực',
+    'entity.exp': 'Kinh nghiệm',
+    'entity.fame': 'Danh vọng',
+    'entity.personality': 'Tính cách (Bề ngoài)',
+    'entity.personalityCore': 'Tính cách (Cốt lõi)',
+    'entity.personalityMbti': 'Tính cách (Cốt lõi - MBTI)',
+    'entity.motivation': 'Động cơ',
+    'entity.relationship': 'Quan hệ',
+    'entity.skills': 'Kỹ năng',
+    'entity.learnedSkills': 'Kỹ năng đã học',
+    'entity.description': 'Mô tả',
+    'entity.region': 'Thuộc khu vực',
+    'entity.safety': 'Tình trạng an toàn',
+    'entity.safe': '🛡️ An toàn',
+    'entity.dangerous': '⚠️ Nguy hiểm',
+    'entity.safetyUnknown': '⚠️ Chưa rõ',
+    'entity.discovery': 'Trạng thái khám phá',
+    'entity.discovered': '🗺️ Đã khám phá',
+    'entity.mastery': 'Mức độ thành thạo',
+    'entity.skillExp': 'Kinh nghiệm kỹ năng',
+    'entity.undetermined': 'Chưa xác định',
+    'entity.skillCapped': '🔒 Đạt Bình Cảnh',
+    'entity.canBreakthrough': '✦ Có thể đột phá',
+    'entity.maxMastery': '🏆 Đã đạt tối đa!',
+    'entity.readyToLevel': 'Sẵn sàng thăng cấp!',
+    'entity.mbtiPlaceholder': '-- Chọn loại tính cách --',
+    'entity.genderPlaceholder': 'Nam, Nữ, Khác...',
+    'entity.realmPlaceholder': 'Cảnh giới tu luyện...',
+    'entity.cancel': 'HỦY',
+    'entity.save': 'LƯU',
+
+    // Entity info modal
+    'entityInfo.pcTag': '(Nhân vật chính)',
+    'entityInfo.equippedTag': '(Đang trang bị)',
+    'entityInfo.editSkill': 'Chỉnh sửa kỹ năng',
+    'entityInfo.editNpc': 'Chỉnh sửa NPC',
+    'entityInfo.editPc': 'Chỉnh sửa nhân vật chính',
+    'entityInfo.editLocation': 'Chỉnh sửa địa điểm',
+    'entityInfo.noFame': 'Chưa có danh tiếng',
+    'entityInfo.breakthroughReady': '✦ Sẵn sàng đột phá! Tìm lựa chọn "✦Đột Phá✦"',
+    'entityInfo.breakthroughWaiting': '🔒 Chờ cơ hội đột phá (20% mỗi lượt)',
+    'entityInfo.toNextLevel': '{percent}% đến cấp độ tiếp theo',
+    'entityInfo.currentStatuses': 'Trạng thái hiện tại:',
+    'entityInfo.removeStatus': 'Xóa trạng thái: {name}',
+    'entityInfo.pcNoStatus': 'Đang trong tình trạng bình thường',
+    'entityInfo.npcNoStatus': 'Không có trạng thái đặc biệt',
+    'entityInfo.durability': 'Độ bền:',
+    'entityInfo.broken': '(Hỏng)',
+    'entityInfo.nearlyBroken': '(Sắp hỏng)',
+    'entityInfo.uses': 'Số lần dùng:',
+    'entityInfo.usedUp': '(Đã hết)',
+    'entityInfo.almostUsedUp': '(Sắp hết)',
+    'entityInfo.owner': 'Chủ sở hữu:',
+    'entityInfo.noDescription': 'Chưa có mô tả.',
+    'entityInfo.quickActions': 'Hành động nhanh:',
+    'entityInfo.viewOnMap': '🗺️ Xem trên bản đồ',
+    'entityInfo.goHere': '📍 Đi tới đây',
+    'entityInfo.goToAction': 'Đi tới {name}',
+    'entityInfo.explore': '🔍 Khám phá',
+    'entityInfo.exploreAction': 'Khám phá {name}',
+    'entityInfo.note': '📝 Ghi chú',
+    'entityInfo.noteAction': 'Ghi chú về {name}',
+    'entityInfo.equip': '⚔️ Trang bị',
+    'entityInfo.unequip': '📤 Gỡ trang bị',
+    'entityInfo.use': '🍃 Sử dụng',
+    'entityInfo.useCount': '🍃 Sử dụng ({count} lần)',
+    'entityInfo.learn': '📚 Học công pháp',
+    'entityInfo.removeStatusTitle': 'Xác nhận xóa trạng thái',
+    'entityInfo.removeStatusMessage': 'Bạn có muốn xóa trạng thái này không?',
+    'entityInfo.removeStatusMessageNamed': 'Bạn có muốn xóa trạng thái này không? "{name}"',
+
+    // Entity edit modals
+    'editItem.title': 'CHỈNH SỬA VẬT PHẨM',
+    'editItem.name': 'Tên vật phẩm',
+    'editItem.namePlaceholder': 'Nhập tên vật phẩm...',
+    'editItem.descriptionPlaceholder': 'Nhập mô tả vật phẩm...',
+    'editItem.quantity': 'Số lượng/Lần sử dụng',
+    'editItem.durability': 'Độ bền',
+    'editItem.itemType': 'Loại vật phẩm',
+    'editItem.usable': 'Có thể sử dụng',
+    'editItem.equippable': 'Có thể trang bị',
+    'editItem.other': 'Khác',
+    'editItem.equipped': 'Đang được trang bị',
+    'editLocation.title': 'CHỈNH SỬA ĐỊA ĐIỂM',
+    'editLocation.name': 'Tên địa điểm',
+    'editLocation.namePlaceholder': 'Nhập tên địa điểm...',
+    'editLocation.regionPlaceholder': 'Khu vực lớn hơn chứa địa điểm này...',
+    'editLocation.discoveryHelp': 'Trạng thái này được tự động quản lý bởi hệ thống',
+    'editLocation.safetyUnset': '-- Chưa rõ --',
+    'editLocation.safetyHelp': 'Thông tin này sẽ được thêm vào mô tả địa điểm',
+    'editLocation.safeSentence': 'Khu vực này an toàn.',
+    'editLocation.dangerousSentence': 'Khu vực này không an toàn.',
+    'editLocation.descriptionPlaceholder': 'Mô tả chi tiết về địa điểm, bao gồm cảnh quan, đặc điểm, tình trạng an toàn...',
+    'editLocation.climate': 'Khí hậu/Môi trường',
+    'editLocation.climatePlaceholder': 'Ví dụ: Ôn đới, Sa mạc, Nhiệt đới...',
+    'editLocation.features': 'Đặc điểm nổi bật',
+    'editLocation.featuresPlaceholder': 'Ví dụ: Núi cao, Hồ lớn, Thành phố cổ...',
+    'editLocation.resources': 'Tài nguyên/Kinh tế',
+    'editLocation.resourcesPlaceholder': 'Các tài nguyên, hoạt động kinh tế chính của địa điểm...',
+    'editLocation.residents': 'Cư dân',
+    'editLocation.residentsPlaceholder': 'Thông tin về những ai sống tại đây, dân số, văn hóa...',
+    'editNpc.title': 'CHỈNH SỬA NPC',
+    'editNpc.name': 'Tên NPC',
+    'editNpc.namePlaceholder': 'Nhập tên NPC...',
+    'editNpc.agePlaceholder': 'Ví dụ: 25, Trung niên, Già...',
+    'editNpc.locationPlaceholder': 'Vị trí hiện tại của NPC...',
+    'editNpc.appearancePlaceholder': 'Mô tả ngoại hình của NPC...',
+    'editNpc.famePlaceholder': 'Mức độ nổi tiếng của NPC...',
+    'editNpc.personalityPlaceholder': 'Mô tả tính cách bề ngoài của NPC...',
+    'editNpc.motivationPlaceholder': 'Động cơ và mục tiêu của NPC...',
+    'editNpc.relationshipPlaceholder': '-- Chọn quan hệ --',
+    'editNpc.skillsPlaceholder': 'Các kỹ năng, cách nhau bằng dấu phẩy...',
+    'editNpc.descriptionPlaceholder': 'Mô tả chi tiết về NPC...',
+    'editPc.title': 'CHỈNH SỬA NHÂN VẬT CHÍNH',
+    'editPc.name': 'Tên nhân vật',
+    'editPc.namePlaceholder': 'Nhập tên nhân vật...',
+    'editPc.agePlaceholder': 'Ví dụ: 25, Trung niên...',
+    'editPc.locationPlaceholder': 'Vị trí hiện tại...',
+    'editPc.appearancePlaceholder': 'Mô tả ngoại hình nhân vật...',
+    'editPc.famePlaceholder': 'Mức độ nổi tiếng...',
+    'editPc.personalityPlaceholder': 'Mô tả tính cách bề ngoài...',
+    'editPc.motivationPlaceholder': 'Động cơ và mục tiêu...',
+    'editPc.learnedSkillsPlaceholder': 'Các kỹ năng đã học, cách nhau bằng dấu phẩy...',
+    'editPc.descriptionPlaceholder': 'Mô tả chi tiết về nhân vật...',
+    'editSkill.title': 'CHỈNH SỬA KỸ NĂNG',
+    'editSkill.name': 'Tên kỹ năng',
+    'editSkill.namePlaceholder': 'Nhập tên kỹ năng...',
+    'editSkill.descriptionPlaceholder': 'Nhập mô tả kỹ năng...',
+    'editSkill.masteryPlaceholder': '-- Chọn mức độ thành thạo --',
+    'editSkill.currentExp': 'Kinh nghiệm hiện tại',
+    'editSkill.maxExp': 'Kinh nghiệm tối đa',
+    'editSkill.expPreview': 'Xem trước thanh kinh nghiệm',
+    'editSkill.breakthroughReady': '✦ Sẵn sàng đột phá!',
+    'editSkill.breakthroughWaiting': '🔒 Chờ cơ hội đột phá',
+    'editSkill.progress': '{percent}% tiến độ',
+    'editSkill.breakthroughStates': '✦ Các trạng thái đột phá',
+    'editSkill.capped': 'Kỹ năng đã cấp hạn',
+    'editSkill.cappedHint': '(không thể nhận thêm EXP)',
+    'editSkill.eligible': 'Đủ điều kiện đột phá',
+    'editSkill.eligibleHint': '(hiện lựa chọn "✦Đột Phá✦")',
+    'editSkill.noteTitle': '⚠️ Lưu ý:',
+    'editSkill.note': 'Khi kỹ năng "đã cấp hạn", nó không thể nhận thêm EXP cho đến khi đột phá thành công. Các lựa chọn đột phá sẽ chỉ xuất hiện khi kỹ năng "đủ điều kiện đột phá" (20% cơ hội mỗi lượt).',
+
+    // Prompt template slots, placeholders and validation (utils/promptTemplates.ts)
+    'promptTemplates.slot.systemInstruction': 'Chỉ dẫn hệ thống (GM)',
+    'promptTemplates.slot.systemInstructionHelp': 'System instruction gửi kèm mọi lượt: vai trò của GM, thứ tự ưu tiên và cú pháp các tag lệnh. Được gửi nguyên văn, không có placeholder.',
+    'promptTemplates.slot.coreInstructions': 'Quy tắc tương tác',
+    'promptTemplates.slot.coreInstructionsHelp': 'Cách tạo lựa chọn, thời gian, kết quả hành động và định dạng lời kể. Đứng đầu phần tri thức quan trọng của mỗi lượt.',
+    'promptTemplates.slot.choiceDiversity': 'Hướng dẫn lựa chọn đa dạng',
+    'promptTemplates.slot.choiceDiversityHelp': 'Gợi ý đa dạng hóa lựa chọn theo địa điểm, kỹ năng và đồng hành, nằm trong phần hướng dẫn lựa chọn.',
+    'promptTemplates.slot.advancedCot': 'Chain of Thought',
+    'promptTemplates.slot.advancedCotHelp': 'Các bước suy luận trước khi trả lời. Chỉ được gửi khi bật COT trong cài đặt.',
+    'promptTemplates.slot.processingRules': 'Quy tắc xử lý',
+    'promptTemplates.slot.processingRulesHelp': 'Cuối prompt mỗi lượt: ngôn ngữ, quyền hạn của GM, NPC không toàn tri và tag kỹ năng.',
+    'promptTemplates.placeholder.action': 'Hành động của người chơi',
+    'promptTemplates.placeholder.party': 'Tổ đội: tên, vai trò và vị trí',
+    'promptTemplates.placeholder.entities': 'Các thực thể liên quan nhất tới hành động',
+    'promptTemplates.placeholder.quests': 'Các nhiệm vụ đang làm',
+    'promptTemplates.placeholder.time': 'Thời gian trong game',
+    'promptTemplates.placeholder.rules': 'Tên các luật tùy chỉnh đang bật',
+    'promptTemplates.placeholder.location': 'Vị trí của nhân vật chính',
+    'promptTemplates.placeholder.pcName': 'Tên nhân vật chính',
+    'promptTemplates.placeholder.locationGuidance': 'Gợi ý khai thác địa điểm hiện tại (trống nếu không rõ vị trí)',
+    'promptTemplates.placeholder.skillGuidance': 'Gợi ý dùng tối đa 3 kỹ năng của nhân vật chính',
+    'promptTemplates.placeholder.companionGuidance': 'Gợi ý phối hợp với tối đa 2 đồng hành',
+    'promptTemplates.placeholder.recentEvents': 'Tóm tắt 2 lượt gần nhất',
+    'promptTemplates.placeholder.pcPersonality': 'Tính cách nhân vật chính',
+    'promptTemplates.placeholder.pcMotivation': 'Mục tiêu nhân vật chính',
+    'promptTemplates.placeholder.pcState': 'Trạng thái hiện tại của nhân vật chính',
+    'promptTemplates.placeholder.companionAnalysis': 'Phân tích từng đồng hành',
+    'promptTemplates.placeholder.physicalState': 'Cơ thể và trang phục nhân vật chính',
+    'promptTemplates.placeholder.powerBalance': 'Cân bằng quyền lực',
+    'promptTemplates.placeholder.antiStereotype': 'Hướng dẫn tránh khuôn mẫu',
+    'promptTemplates.placeholder.directResponse': 'Gợi ý phản ứng trực tiếp với hành động',
+    'promptTemplates.placeholder.storyProgression': 'Gợi ý diễn biến mới',
+    'promptTemplates.placeholder.continuity': 'Gợi ý kết nối với diễn biến trước',
+    'promptTemplates.required.choiceCategory': 'Thiếu "{text}": thể loại của lựa chọn được đọc từ nhãn ✦Thể loại✦',
+    'promptTemplates.required.cotReasoning': 'Thiếu "{text}": suy luận COT được đọc từ trường "cot_reasoning" của JSON',
+    'promptTemplates.error.unknownSlot': 'Không có mẫu prompt "{id}"',
+    'promptTemplates.error.empty': 'Mẫu prompt trống',
+    'promptTemplates.error.missingTags': 'Thiếu hướng dẫn cho tag lệnh: {tags}',
+    'promptTemplates.warning.unknownPlaceholders': 'Placeholder không được hỗ trợ, sẽ được gửi nguyên văn: {placeholders}',
+    'promptTemplates.error.invalidPreset': 'Tệp không phải preset mẫu prompt hợp lệ.',
+    'promptTemplates.error.unsupportedVersion': 'Phiên bản preset mẫu prompt không được hỗ trợ: {version}',
+
+    // Command tag precondition failures (utils/commandTagTransaction.ts)
+    'tagRejection.reason.missingItemName': 'Thiếu tên vật phẩm (name).',
+    'tagRejection.reason.itemNotOwned': 'Nhân vật chính không sở hữu vật phẩm "{name}".',
+    'tagRejection.reason.itemNotFound': 'Không tìm thấy vật phẩm "{name}".',
+    'tagRejection.reason.missingTransformNames': 'Thiếu oldName hoặc newName.',
+    'tagRejection.reason.pcStatusNotFound': 'Nhân vật chính không có trạng thái "{name}".',
+    'tagRejection.reason.npcStatusNotFound': '{npcName} không có trạng thái "{name}".',
+    'tagRejection.reason.missingNpcName': 'Thiếu tên NPC (npcName).',
+    'tagRejection.reason.skillNotFound': 'Không tìm thấy kỹ năng "{name}".',
+    'tagRejection.reason.entityNotFound': 'Không tìm thấy thực thể "{name}".',
+    'tagRejection.reason.npcNotFound': 'Không tìm thấy NPC "{name}".',
+    'tagRejection.reason.incompleteCompanion': 'Đồng hành cần có name và description.',
+    'tagRejection.reason.missingQuestTitle': 'Thiếu tên nhiệm vụ (title).',
+    'tagRejection.reason.questNotFound': 'Không tìm thấy nhiệm vụ "{title}".',
+    'tagRejection.reason.objectiveNotFound': 'Nhiệm vụ "{title}" không có mục tiêu "{objective}".',
+    'tagRejection.reason.applyFailed': 'Lỗi khi áp dụng thẻ: {error}',
+
+    // Timeline defaults for unnamed branches and turns without a description
+    'timeline.mainBranch': 'Nhánh chính',
+    'timeline.storyStart': 'Khởi đầu câu chuyện',
+
+    // Prompt inspector: section, part and item labels
+    'promptInspector.section.format': 'Định dạng phản hồi',
+    'promptInspector.section.constraints': 'Ràng buộc của lượt',
+    'promptInspector.section.critical': 'Tri thức quan trọng (tổ đội, thực thể)',
+    'promptInspector.section.memories': 'Ký ức truy xuất (RAG)',
+    'promptInspector.section.important': 'Thông tin liên quan (nhiệm vụ, diễn biến)',
+    'promptInspector.section.contextual': 'Bối cảnh thế giới',
+    'promptInspector.section.supplemental': 'Luật tùy chỉnh đã kích hoạt',
+    'promptInspector.section.action': 'Hành động người chơi',
+    'promptInspector.section.choices': 'Hướng dẫn lựa chọn',
+    'promptInspector.section.skills': 'Thành thạo kỹ năng',
+    'promptInspector.section.cot': 'Chain of Thought',
+    'promptInspector.section.nsfw': 'NSFW',
+    'promptInspector.section.instructions': 'Quy tắc xử lý',
+    'promptInspector.section.fallback': 'Prompt dự phòng (lỗi RAG)',
+    'promptInspector.section.referenceLookup': 'Kết quả tra cứu tham chiếu',
+    'promptInspector.part.coreInstructions': 'Hướng dẫn cốt lõi',
+    'promptInspector.part.time': 'Thời gian',
+    'promptInspector.part.party': 'Tổ đội',
+    'promptInspector.part.entities': 'Thực thể',
+    'promptInspector.part.quests': 'Nhiệm vụ',
+    'promptInspector.part.recentEvents': 'Diễn biến gần đây',
+    'promptInspector.part.relatedEntities': 'Thực thể liên quan',
+    'promptInspector.part.chronicle': 'Biên niên sử',
+    'promptInspector.item.entity': '{score} điểm: {reasons}',
+    'promptInspector.item.rule': '{reason} • từ khóa: {keywords}',
+    'promptInspector.item.recursiveRule': '{reason} • từ khóa: {keywords} (đệ quy cấp {depth})',
+    'promptInspector.item.sticky': 'Sticky: còn hiệu lực đến lượt {turn}',
+    'promptInspector.report.turn': 'Lượt {turn}: {action}',
+    'promptInspector.report.truncated': 'Cắt bớt bởi {by}: {before} → {after} tokens',
+
+    // Save library: names and dates of slots, formatted when shown
+    'saveLibrary.defaultName.manual': '{name} - Lượt {turn}',
+    'saveLibrary.defaultName.auto': 'Tự động lưu - Lượt {turn}',
+    'saveLibrary.defaultName.quick': 'Lưu nhanh',
+    'saveLibrary.unnamedCharacter': 'Vô Danh',
+    'saveLibrary.gameDate': 'Năm {year}, Tháng {month}, Ngày {day}, {hour}:{minute}'
+};
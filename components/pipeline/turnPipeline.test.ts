@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TurnPipeline, createTurnContext, haltTurn } from './turnPipeline';
+import type { TurnStage, TurnServices, TurnContext } from './turnPipeline';
+import {
+    DEFAULT_TURN_STAGES, timeCostStage, emptyResponseStage, duplicateDetectionStage,
+    historyCommitStage, advanceTurnStage, referenceLookupStage
+} from './turnStages';
+import { ReferenceAPI } from '../utils/ReferenceAPI';
+import type { SaveData } from '../types';
+
+const gameState = { turnCount: 4, quests: [], worldData: {} } as unknown as SaveData;
+
+const makeContext = (action = 'Đi dạo'): TurnContext =>
+    createTurnContext({ action, originalAction: action, isNsfwRequest: false, gameState }, {});
+
+const makeServices = (overrides: Partial<TurnServices> = {}): TurnServices => ({
+    storyLogManager: { update: vi.fn() },
+    setGameHistory: vi.fn(),
+    setTurnCount: vi.fn(),
+    updateChoiceHistory: vi.fn(),
+    gameHistory: [],
+    detectDuplicateResponse: () => false,
+    ...overrides
+} as unknown as TurnServices);
+
+const recorder = (log: string[], name: string, phase: TurnStage['phase'], order?: number): TurnStage => ({
+    name, phase, order, run: () => { log.push(name); }
+});
+
+describe('TurnPipeline', () => {
+    it('runs stages by phase, then by order', async () => {
+        const log: string[] = [];
+        const pipeline = new TurnPipeline([
+            recorder(log, 'commit', 'commit'),
+            recorder(log, 'late-constraint', 'pre-prompt', 50),
+            recorder(log, 'generate', 'generation'),
+            recorder(log, 'early-constraint', 'pre-prompt', 5)
+        ]);
+
+        await pipeline.run(makeContext(), makeServices());
+        expect(log).toEqual(['early-constraint', 'late-constraint', 'generate', 'commit']);
+    });
+
+    it('stops after a stage halts the turn', async () => {
+        const log: string[] = [];
+        const pipeline = new TurnPipeline([
+            { name: 'stop', phase: 'validation', run: context => haltTurn(context, 'stop', 'test', true) },
+            recorder(log, 'commit', 'commit')
+        ]);
+
+        const context = await pipeline.run(makeContext(), makeServices());
+        expect(context.halted).toEqual({ stage: 'stop', reason: 'test', result: true });
+        expect(log).toEqual([]);
+    });
+
+    it('replaces stages registered under an existing name', () => {
+        const pipeline = new TurnPipeline(DEFAULT_TURN_STAGES);
+        const custom: TurnStage = { name: 'time-cost', phase: 'pre-prompt', order: 10, run: () => {} };
+
+        pipeline.register(custom);
+        expect(pipeline.getStages().filter(stage => stage.name === 'time-cost')).toEqual([custom]);
+        expect(pipeline.getStages()).toHaveLength(DEFAULT_TURN_STAGES.length);
+        expect(pipeline.unregister('time-cost')).toBe(true);
+        expect(pipeline.unregister('time-cost')).toBe(false);
+    });
+});
+
+describe('built-in turn stages', () => {
+    it('adds a TIME_ELAPSED constraint for actions with a time cost', async () => {
+        const context = makeContext('Bế quan tu luyện (3 ngày)');
+        await timeCostStage.run(context, makeServices());
+
+        expect(context.constraints).toHaveLength(1);
+        expect(context.constraints[0]).toContain('TIME_ELAPSED');
+    });
+
+    it("passes the turn's abort signal to reference lookups", async () => {
+        vi.spyOn(ReferenceAPI, 'getRegistryStats').mockReturnValue({ stats: { isReady: true } } as any);
+        const generate = vi.fn(async () => ({ text: 'SẴN SÀNG' }));
+        const services = makeServices({
+            ai: { generate } as any,
+            enableReferenceTools: true,
+            maxReferenceToolHops: 2,
+            generationAbortRef: { current: null }
+        });
+        const context = makeContext();
+        context.prompt = { userPrompt: '', apiHistory: [{ role: 'user', parts: [{ text: 'Đi dạo' }] }], historyEntry: { role: 'user', parts: [] }, hasCOT: false, cotPromptTokens: 0 };
+
+        await referenceLookupStage.run(context, services);
+
+        expect(services.generationAbortRef.current).toBe(context.abortController);
+        expect(generate).toHaveBeenCalledWith(expect.anything(), context.abortController!.signal);
+        vi.restoreAllMocks();
+    });
+
+    it('halts on an empty response and reports it in the story log', async () => {
+        const services = makeServices();
+        const context = makeContext();
+        context.generation = { response: { text: '' }, responseText: '', turnTokens: 0, choiceId: 'c', gameStateSnapshot: {}, startedAt: 0, finishedAt: 0 };
+
+        await emptyResponseStage.run(context, services);
+        expect(context.halted?.stage).toBe('empty-response');
+        expect(services.storyLogManager.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the original response when it is not a duplicate', async () => {
+        const context = makeContext();
+        context.generation = { response: {}, responseText: '{"story":"A"}', turnTokens: 1, choiceId: 'c', gameStateSnapshot: {}, startedAt: 0, finishedAt: 0 };
+        context.validation = { finalResponseText: '{"story":"A"}', isDuplicate: false, duplicateRetryCount: 0, cotReasoning: null };
+
+        await duplicateDetectionStage.run(context, makeServices());
+        expect(context.validation).toMatchObject({ finalResponseText: '{"story":"A"}', isDuplicate: false });
+    });
+
+    it("passes the turn's abort signal to the duplicate retry", async () => {
+        const generate = vi.fn(async () => ({ text: '{"story":"B"}' }));
+        const services = makeServices({
+            ai: { generate } as any,
+            detectDuplicateResponse: () => true,
+            temperature: 1, topK: 40, topP: 0.9,
+            generationAbortRef: { current: null }
+        });
+        const context = makeContext();
+        context.prompt = { userPrompt: 'Đi dạo', apiHistory: [], historyEntry: { role: 'user', parts: [] }, hasCOT: false, cotPromptTokens: 0 };
+        context.generation = { response: {}, responseText: '{"story":"A"}', turnTokens: 1, choiceId: 'c', gameStateSnapshot: undefined, startedAt: 0, finishedAt: 0 };
+        context.validation = { finalResponseText: '{"story":"A"}', isDuplicate: false, duplicateRetryCount: 0, cotReasoning: null };
+
+        await duplicateDetectionStage.run(context, services);
+
+        expect(generate).toHaveBeenCalledWith(expect.anything(), context.abortController!.signal);
+        expect(context.validation).toMatchObject({ finalResponseText: '{"story":"B"}', isDuplicate: true });
+    });
+
+    it('commits history and only advances the turn after a successful parse', async () => {
+        const services = makeServices();
+        const context = makeContext();
+        context.prompt = { userPrompt: '', apiHistory: [], historyEntry: { role: 'user', parts: [{ text: 'ACTION: Đi dạo' }] }, hasCOT: false, cotPromptTokens: 0 };
+        context.validation = { finalResponseText: '{"story":"A"}', isDuplicate: false, duplicateRetryCount: 0, cotReasoning: null };
+
+        historyCommitStage.run(context, services);
+        const updater = vi.mocked(services.setGameHistory).mock.calls[0][0] as (prev: any[]) => any[];
+        expect(updater([]).map(entry => entry.role)).toEqual(['user', 'model']);
+        expect(services.updateChoiceHistory).toHaveBeenCalledWith([], 'Đi dạo', 'Player action executed');
+
+        context.parseSuccess = false;
+        advanceTurnStage.run(context, services);
+        expect(services.setTurnCount).not.toHaveBeenCalled();
+
+        context.parseSuccess = true;
+        advanceTurnStage.run(context, services);
+        expect(services.setTurnCount).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,138 @@
+// turnPipeline.ts - Declarative pipeline that runs one player turn as ordered stages
+//
+// A turn moves through six phases. Each stage belongs to one phase and reads what earlier
+// phases wrote to the TurnContext; stages in the same phase run by ascending `order`.
+// New mechanics register their own stage instead of editing handleAction.
+
+import type { SaveData, KnownEntities, GameHistoryEntry, LLMContent, PromptInspection } from '../types';
+import type { GameActionHandlersParams } from '../handlers/gameActionHandlers';
+import type { ReferenceLookupResult } from '../utils/referenceTools';
+
+export type TurnPhase = 'pre-prompt' | 'prompt' | 'generation' | 'validation' | 'post-process' | 'commit';
+
+export const TURN_PHASES: TurnPhase[] = ['pre-prompt', 'prompt', 'generation', 'validation', 'post-process', 'commit'];
+
+// --- Phase outputs ---
+
+export interface TurnInput {
+    action: string;              // Raw text as submitted
+    originalAction: string;      // Trimmed, with the trailing "nsfw" flag removed
+    isNsfwRequest: boolean;
+    gameState: SaveData;
+}
+
+export interface TurnPromptOutput {
+    userPrompt: string;                  // Full RAG prompt sent to the model
+    apiHistory: LLMContent[];            // History + full prompt, used for the request
+    historyEntry: GameHistoryEntry;      // Compact "ACTION: ..." entry kept in the saved history
+    hasCOT: boolean;
+    cotPromptTokens: number;
+}
+
+export interface TurnGenerationOutput {
+    response: any;                       // LLMResponse, or a cached result from the idempotency layer
+    responseText: string;
+    turnTokens: number;
+    choiceId: string;
+    gameStateSnapshot: any;
+    startedAt: number;
+    finishedAt: number;
+}
+
+export interface TurnValidationOutput {
+    finalResponseText: string;
+    isDuplicate: boolean;
+    duplicateRetryCount: number;
+    cotReasoning: any;
+}
+
+export interface TurnContext {
+    input: TurnInput;
+    // pre-prompt
+    processedAction: string;             // Player input after PLAYER_INPUT regex rules
+    constraints: string[];               // Blocks appended to the prompt, in stage order
+    knownEntities: KnownEntities;        // Working copy; pre-prompt stages may update it
+    semanticScores?: Map<string, number>; // Embedding similarity by retrieval document id, when semantic recall is on
+    // later phases
+    prompt?: TurnPromptOutput;
+    inspection?: PromptInspection;             // Sections of the prompt, for the prompt inspector
+    referenceLookup?: ReferenceLookupResult;   // Set when the model looked up references before generating
+    abortController?: AbortController;         // Shared by every request of the turn, see getTurnAbortSignal
+    generation?: TurnGenerationOutput;
+    validation?: TurnValidationOutput;
+    parseSuccess?: boolean;
+    // Set by a stage to end the turn early; `result` is returned from handleAction
+    halted?: { stage: string; reason: string; result?: boolean };
+}
+
+/**
+ * Everything a stage may call. Built by createGameActionHandlers from its params plus the
+ * response helpers that live there.
+ */
+export type TurnServices = GameActionHandlersParams & {
+    storyLogManager: { update: (updater: (prev: string[]) => string[]) => void };
+    parseApiResponse: (text: string) => Promise<boolean>;
+    detectDuplicateResponse: (responseText: string, gameHistory: GameHistoryEntry[]) => boolean;
+    extractCOTReasoning: (responseText: string) => any;
+};
+
+export interface TurnStage {
+    name: string;
+    phase: TurnPhase;
+    order?: number;          // Default 100; lower runs first within the phase
+    run: (context: TurnContext, services: TurnServices) => void | Promise<void>;
+}
+
+export const createTurnContext = (input: TurnInput, knownEntities: KnownEntities): TurnContext => ({
+    input,
+    processedAction: input.originalAction,
+    constraints: [],
+    knownEntities
+});
+
+export const haltTurn = (context: TurnContext, stage: string, reason: string, result?: boolean) => {
+    context.halted = { stage, reason, result };
+    console.log(`⏹️ Turn pipeline halted by "${stage}": ${reason}`);
+};
+
+export class TurnPipeline {
+    private stages: TurnStage[] = [];
+
+    constructor(stages: TurnStage[] = []) {
+        stages.forEach(stage => this.register(stage));
+    }
+
+    /** Adds a stage, replacing any existing stage with the same name */
+    register(stage: TurnStage): this {
+        this.stages = this.stages.filter(existing => existing.name !== stage.name);
+        this.stages.push(stage);
+        return this;
+    }
+
+    unregister(name: string): boolean {
+        const before = this.stages.length;
+        this.stages = this.stages.filter(stage => stage.name !== name);
+        return this.stages.length !== before;
+    }
+
+    /** Stages in execution order */
+    getStages(): TurnStage[] {
+        return TURN_PHASES.flatMap(phase =>
+            this.stages
+                .filter(stage => stage.phase === phase)
+                .sort((a, b) => (a.order ?? 100) - (b.order ?? 100))
+        );
+    }
+
+    /**
+     * Runs every stage in order until one halts the turn. Errors propagate to the caller,
+     * which owns cancellation and API-key error handling.
+     */
+    async run(context: TurnContext, services: TurnServices): Promise<TurnContext> {
+        for (const stage of this.getStages()) {
+            await stage.run(context, services);
+            if (context.halted) break;
+        }
+        return context;
+    }
+}
@@ -0,0 +1,729 @@
+// turnStages.ts - Built-in stages of the player turn pipeline (extracted from handleAction)
+
+import type { GameHistoryEntry } from '../types';
+import { buildEnhancedRagPrompt, enhancedRAG, estimatePromptTokens } from '../promptBuilder';
+import { RegexPlacement } from '../utils/RegexEngine';
+import { regexSandbox } from '../utils/RegexSandbox';
+import { processQuestObjectiveCompletion } from '../utils/questManager';
+import { processQuestRewards, markQuestRewardsAsGranted } from '../utils/questRewardProcessor';
+import { enhancedGenerateContent, enhancedGenerateContentStream, extractResponseText, isAbortError, isQueuedResponse } from '../utils/RetryIntegration';
+import { extractStreamingStory } from '../utils/streamingStoryExtractor';
+import { apiRetrySystem } from '../utils/ApiRetrySystem';
+import { ReferenceAPI } from '../utils/ReferenceAPI';
+import { runReferenceLookup } from '../utils/referenceTools';
+import { semanticRecall } from '../utils/SemanticRecall';
+import { TokenManager } from '../TokenManager';
+import { getPromptLocale, getPromptText } from '../utils/promptTemplates';
+import { TurnPipeline, haltTurn } from './turnPipeline';
+import type { TurnStage, TurnContext } from './turnPipeline';
+
+// ---------------------------------------------------------------------------
+// pre-prompt: input processing and constraints that steer the model
+// ---------------------------------------------------------------------------
+
+export const playerInputStage: TurnStage = {
+    name: 'player-input',
+    phase: 'pre-prompt',
+    order: 0,
+    run: async (context, { regexRules, gameHistory, setIsLoading, setChoices, setCustomAction, storyLogManager, ruleChanges, setRuleChanges }) => {
+        // Process player input through regex rules
+        context.processedAction = await regexSandbox.processText(
+            context.input.originalAction,
+            RegexPlacement.PLAYER_INPUT,
+            regexRules || [],
+            {
+                depth: gameHistory?.length || 0,
+                isEdit: false
+            }
+        );
+
+        setIsLoading(true);
+        setChoices([]);
+        setCustomAction('');
+        storyLogManager.update(prev => [...prev, `> ${context.processedAction}`]);
+
+        if (ruleChanges) {
+            setRuleChanges(null);
+        }
+    }
+};
+
+export const timeCostStage: TurnStage = {
+    name: 'time-cost',
+    phase: 'pre-prompt',
+    order: 10,
+    run: async (context) => {
+        const { extractTimeCostFromAction, createTimeElapsedTag } = await import('../utils/timeCostExtractor');
+        const extractedTimeCost = extractTimeCostFromAction(context.input.originalAction);
+        if (!extractedTimeCost) return;
+
+        const timeElapsedTag = createTimeElapsedTag(extractedTimeCost);
+        const { constraints } = getPromptText(getPromptLocale(context.input.gameState.worldData));
+        context.constraints.push(constraints.timeCost(extractedTimeCost.originalText ?? context.input.originalAction, timeElapsedTag));
+        console.log(`⏰ Added time constraint to prompt: ${timeElapsedTag}`);
+    }
+};
+
+export const skillUsageStage: TurnStage = {
+    name: 'skill-usage',
+    phase: 'pre-prompt',
+    order: 20,
+    run: async (context) => {
+        // Detect skill usage from player action for automatic experience gain
+        const { detectSkillUsageFromChoice } = await import('../utils/skillUsageDetector');
+        const skillUsageResult = detectSkillUsageFromChoice(context.input.originalAction, context.knownEntities);
+        if (skillUsageResult.skillsUsed.length === 0) return;
+
+        const skillNames = skillUsageResult.skillsUsed.map(s => s.name).join(', ');
+        const skillTags = skillUsageResult.commandTags.join(' ');
+        const { constraints } = getPromptText(getPromptLocale(context.input.gameState.worldData));
+        context.constraints.push(constraints.skillUsage(skillNames, skillTags));
+        console.log(`⚔️ Added skill usage constraint to prompt: ${skillNames} (${skillUsageResult.expGained} exp each)`);
+    }
+};
+
+// Resolves a ✦Đột Phá✦ choice before the prompt is built so the story matches the roll
+export const breakthroughResolutionStage: TurnStage = {
+    name: 'breakthrough-resolution',
+    phase: 'pre-prompt',
+    order: 30,
+    run: async (context, { setKnownEntities }) => {
+        const { isBreakthroughChoice, extractSkillFromBreakthroughChoice, extractSuccessRateFromChoice } = await import('../utils/breakthroughChoiceGenerator');
+        const { attemptBreakthrough } = await import('../utils/skillExpManager');
+        const { originalAction } = context.input;
+        if (!isBreakthroughChoice(originalAction)) return;
+
+        const skillName = extractSkillFromBreakthroughChoice(originalAction);
+        const successRate = extractSuccessRateFromChoice(originalAction);
+        if (!skillName) return;
+
+        const knownEntities = context.knownEntities;
+        // Try both the exact skill name and the base name without mastery
+        const baseSkillName = skillName.replace(/\s*\([^)]*\)\s*$/, '').trim();
+        const skill = knownEntities[skillName] || knownEntities[baseSkillName];
+
+        if (!skill || skill.type !== 'skill') {
+            console.warn(`⚠️ Skill "${skillName}" not found for breakthrough attempt`);
+            return;
+        }
+
+        const result: any = attemptBreakthrough(skill, successRate);
+        const success = result.masteryLevelUp;
+        const updatedEntities = { ...knownEntities };
+
+        // Determine the actual skill entity key (might be base name without mastery)
+        const actualSkillKey = knownEntities[skillName] ? skillName : baseSkillName;
+
+        if (success) {
+            const newSkillName = `${baseSkillName} (${result.newMastery})`;
+
+            // Remove old skill entity and add new one with updated properties
+            delete updatedEntities[actualSkillKey];
+            updatedEntities[newSkillName] = {
+                ...result.skill,
+                name: newSkillName
+            };
+
+            // Update PC's learnedSkills array
+            const pc = Object.values(updatedEntities).find(e => e.type === 'pc');
+            if (pc && pc.learnedSkills) {
+                const updatedPC = { ...pc };
+                updatedPC.learnedSkills = [...pc.learnedSkills];
+
+                // Try to find skill in learnedSkills by both exact match and partial match
+                let skillIndex = updatedPC.learnedSkills.findIndex(s => s === skillName);
+                let originalSkillName = skillName;
+
+                if (skillIndex === -1) {
+                    skillIndex = updatedPC.learnedSkills.findIndex(s => s.includes(baseSkillName));
+                    if (skillIndex !== -1) {
+                        originalSkillName = updatedPC.learnedSkills[skillIndex];
+                    }
+                }
+
+                if (skillIndex !== -1) {
+                    updatedPC.learnedSkills[skillIndex] = newSkillName;
+                    updatedEntities[pc.name] = updatedPC;
+                    console.log(`🔄 PC learnedSkills updated: ${originalSkillName} → ${newSkillName}`);
+                }
+            }
+
+            console.log(`🔄 Skill entity updated: ${actualSkillKey} → ${newSkillName}`);
+            console.log(`✨ BREAKTHROUGH SUCCESS: ${skillName} ${result.previousMastery} → ${result.newMastery}, EXP reset to ${result.skill.skillExp}/${result.skill.maxSkillExp}`);
+        } else {
+            // Breakthrough failed - update the existing skill entity
+            updatedEntities[actualSkillKey] = {
+                ...result.skill,
+                name: actualSkillKey
+            };
+            console.log(`💥 BREAKTHROUGH FAILED: ${actualSkillKey} remains capped at ${skill.mastery}`);
+        }
+
+        context.knownEntities = updatedEntities;
+        setKnownEntities(updatedEntities);
+
+        const { constraints } = getPromptText(getPromptLocale(context.input.gameState.worldData));
+        context.constraints.push(constraints.breakthrough(success
+            ? { skillName, successRate, success, fromMastery: result.previousMastery, toMastery: result.newMastery }
+            : { skillName, successRate, success, fromMastery: skill.mastery }));
+
+        console.log(`✦ Breakthrough pre-calculated for ${skillName}: ${success ? 'SUCCESS' : 'FAILURE'} (${(successRate * 100).toFixed(0)}% rate)`);
+    }
+};
+
+// Rolls breakthrough eligibility for every skill at the start of each turn
+export const breakthroughEligibilityStage: TurnStage = {
+    name: 'breakthrough-eligibility',
+    phase: 'pre-prompt',
+    order: 40,
+    run: async (context, { setKnownEntities }) => {
+        const { rollForBreakthroughEligibility } = await import('../utils/skillExpManager');
+        const { generateBreakthroughConstraint, generateCappedSkillConstraint } = await import('../utils/breakthroughChoiceGenerator');
+
+        const allSkills = Object.values(context.knownEntities).filter(entity => entity.type === 'skill');
+        const updatedEntities = { ...context.knownEntities };
+        rollForBreakthroughEligibility(allSkills).forEach(skill => {
+            updatedEntities[skill.name] = skill;
+        });
+        context.knownEntities = updatedEntities;
+        setKnownEntities(updatedEntities);
+
+        const breakthroughChoiceConstraint = generateBreakthroughConstraint(updatedEntities);
+        const cappedSkillConstraint = generateCappedSkillConstraint(updatedEntities);
+        if (breakthroughChoiceConstraint) context.constraints.push(breakthroughChoiceConstraint);
+        if (cappedSkillConstraint) context.constraints.push(cappedSkillConstraint);
+    }
+};
+
+// Embeds what changed since the last turn and scores it against the action for the RAG step
+export const semanticRecallStage: TurnStage = {
+    name: 'semantic-recall',
+    phase: 'pre-prompt',
+    order: 50,
+    run: async (context, { embeddingProvider }) => {
+        if (!embeddingProvider) return;
+
+        const { gameState, originalAction } = context.input;
+        try {
+            await semanticRecall.sync(gameState, embeddingProvider);
+            context.semanticScores = await semanticRecall.scores(originalAction, embeddingProvider);
+        } catch (error) {
+            // Recall is optional; the prompt falls back to keyword relevance
+            console.warn(`⚠️ [Turn ${gameState.turnCount}] Semantic recall failed, continuing without it:`, error);
+        }
+    }
+};
+
+// ---------------------------------------------------------------------------
+// prompt: assemble the RAG prompt and the request history
+// ---------------------------------------------------------------------------
+
+export const promptAssemblyStage: TurnStage = {
+    name: 'prompt-assembly',
+    phase: 'prompt',
+    run: (context, { enableCOT, gameHistory, systemInstruction, selectedModel }) => {
+        const { originalAction, isNsfwRequest, gameState, action } = context.input;
+        // Budgets and truncation use the ratios learned for this model
+        TokenManager.setActiveModel(selectedModel);
+        const text = getPromptText(getPromptLocale(gameState.worldData));
+        const nsfwInstructionPart = isNsfwRequest && gameState.worldData.allowNsfw ? text.constraints.nsfwRequest : '';
+
+        const userPrompt = buildEnhancedRagPrompt(originalAction, gameState, context.constraints.join(''), nsfwInstructionPart, enableCOT, context.semanticScores);
+        // What the builder put in the prompt comes from its inspection, not from searching the prompt text
+        const builtInspection = enhancedRAG.getLastInspection();
+        if (builtInspection) {
+            context.inspection = { ...builtInspection, systemInstruction, systemTokens: estimatePromptTokens(systemInstruction) };
+        }
+        const cotSection = builtInspection?.sections.find(section => section.id === 'cot');
+
+        console.log(`🔍 [Turn ${gameState.turnCount}] Enhanced Prompt Debug:`, {
+            originalAction,
+            processedAction: context.processedAction,
+            timestamp: new Date().toISOString(),
+            promptLength: userPrompt.length,
+            promptHash: userPrompt.slice(0, 100) + '...' + userPrompt.slice(-100),
+            hasCOTInstructions: !!cotSection,
+            cotTokens: cotSection?.tokens || 0,
+            gameStateHash: `T${gameState.turnCount}_${gameState.gameTime?.year}_${gameState.gameTime?.month}_${gameState.gameTime?.day}_${gameState.gameTime?.hour}`
+        });
+
+        if (cotSection) {
+            const cotInstructions = cotSection.text.substring(0, 1500);
+            console.log(`🎯 [Turn ${gameState.turnCount}] COT Instructions Preview:`, cotInstructions + (cotInstructions.length === 1500 ? '...' : ''));
+        } else if (enableCOT) {
+            console.log(`⚠️ [Turn ${gameState.turnCount}] No COT instructions found in prompt!`);
+        }
+
+        // OPTIMIZED: Store only essential user action instead of full RAG prompt for token efficiency
+        const userAction = builtInspection?.action ?? action;
+        const hasCOT = !!cotSection;
+
+        context.prompt = {
+            userPrompt,
+            // For AI API call: use full prompt with current history
+            apiHistory: [...gameHistory, { role: 'user', parts: [{ text: userPrompt }] }],
+            historyEntry: { role: 'user', parts: [{ text: `ACTION: ${userAction}` }] },
+            hasCOT,
+            cotPromptTokens: hasCOT ? estimatePromptTokens(userPrompt) : 0
+        };
+    }
+};
+
+// ---------------------------------------------------------------------------
+// generation: optional reference lookups, then call the model (streamed or not)
+// ---------------------------------------------------------------------------
+
+// One controller per turn, so cancelling stops the reference lookups as well as the generation request
+const getTurnAbortSignal = (context: TurnContext, generationAbortRef: { current: AbortController | null }): AbortSignal => {
+    if (!context.abortController) {
+        context.abortController = new AbortController();
+        generationAbortRef.current = context.abortController;
+    }
+    return context.abortController.signal;
+};
+
+export const referenceLookupStage: TurnStage = {
+    name: 'reference-lookup',
+    phase: 'generation',
+    order: 50,
+    run: async (context, services) => {
+        const {
+            ai, selectedModel, systemInstruction, temperature, topK, topP,
+            enableReferenceTools, maxReferenceToolHops, recordReferenceToolCalls, generationAbortRef
+        } = services;
+        if (!enableReferenceTools || !ai || !ReferenceAPI.getRegistryStats().stats.isReady) return;
+
+        const prompt = context.prompt!;
+        const turn = context.input.gameState.turnCount;
+        const signal = getTurnAbortSignal(context, generationAbortRef);
+        try {
+            const lookup = await runReferenceLookup(
+                request => enhancedGenerateContent(ai, request, `reference_lookup_turn_${turn}`, undefined, undefined, signal),
+                {
+                    model: selectedModel,
+                    contents: prompt.apiHistory,
+                    config: { systemInstruction, temperature, topP, topK }
+                },
+                turn,
+                maxReferenceToolHops
+            );
+            context.referenceLookup = lookup;
+            if (lookup.calls.length === 0) return;
+
+            console.log(`🔎 [Turn ${turn}] Reference lookups:`, lookup.calls.map(call => `${call.name}(${JSON.stringify(call.args)})`));
+            recordReferenceToolCalls(lookup.calls);
+            if (context.inspection && lookup.findings) {
+                const tokens = estimatePromptTokens(lookup.findings);
+                context.inspection.sections.push({ id: 'reference-lookup', label: 'promptInspector.section.referenceLookup', text: lookup.findings, tokens, parts: [], items: [] });
+                context.inspection.totalTokens += tokens;
+            }
+
+            // The answers travel with the turn prompt; the saved history keeps the compact entry
+            const lastEntry = prompt.apiHistory[prompt.apiHistory.length - 1];
+            prompt.apiHistory = [
+                ...prompt.apiHistory.slice(0, -1),
+                { role: lastEntry.role, parts: [{ text: `${lastEntry.parts.map(part => part.text).join('')}${lookup.findings}` }] }
+            ];
+        } catch (error) {
+            // A cancelled turn ends here; handleAction restores the player's input
+            if (isAbortError(error)) throw error;
+            // Lookups are optional; the turn is still generated from the summaries
+            console.warn(`⚠️ [Turn ${turn}] Reference lookup failed, continuing without it:`, error);
+        }
+    }
+};
+
+// Hands the final prompt (reference findings included) to the prompt inspector before the request
+export const promptInspectionStage: TurnStage = {
+    name: 'prompt-inspection',
+    phase: 'generation',
+    order: 90,
+    run: (context, { recordPromptInspection }) => {
+        if (context.inspection) recordPromptInspection(context.inspection);
+    }
+};
+
+export const generationStage: TurnStage = {
+    name: 'generation',
+    phase: 'generation',
+    run: async (context, services) => {
+        const {
+            ai, selectedModel, systemInstruction, responseSchema, temperature, topK, topP,
+            enableStreaming, generationAbortRef, gameHistory, knownEntities,
+            setStreamingStory, setChoices, setIsLoading, setCurrentTurnTokens, setTotalTokens, storyLogManager
+        } = services;
+        const prompt = context.prompt!;
+        const { originalAction, gameState } = context.input;
+        const startedAt = Date.now();
+
+        // Generate choice ID for tracking and idempotency
+        const choiceId = apiRetrySystem.generateChoiceId();
+        const gameStateSnapshot = {
+            gameHistory: [...gameHistory, prompt.historyEntry],
+            knownEntities,
+            currentTurn: gameHistory?.length || 0,
+            action: originalAction
+        };
+
+        const turnRequest = {
+            model: selectedModel,
+            contents: prompt.apiHistory, // Use full context for AI
+            config: {
+                systemInstruction: systemInstruction,
+                responseMimeType: "application/json",
+                responseSchema: responseSchema,
+                temperature: temperature,
+                topP: topP,
+                topK: topK
+            }
+        };
+        const turnContext = `player_choice_${originalAction.substring(0, 50)}`;
+
+        let response;
+        if (enableStreaming) {
+            // Stream the story into the preview; tags and choices are applied only after completion
+            response = await enhancedGenerateContentStream(ai!, turnRequest, {
+                onAttemptStart: () => setStreamingStory(''),
+                onText: (text) => setStreamingStory(extractStreamingStory(text))
+            }, getTurnAbortSignal(context, generationAbortRef), turnContext, choiceId, gameStateSnapshot);
+            setStreamingStory('');
+        } else {
+            response = await enhancedGenerateContent(ai!, turnRequest, turnContext, choiceId, gameStateSnapshot);
+        }
+
+        if (isQueuedResponse(response)) {
+            const queueMessage = extractResponseText(response);
+            storyLogManager.update(prev => [...prev, `⏳ ${queueMessage}`]);
+            setChoices(['Thử lại yêu cầu này', 'Tiếp tục với hành động khác']);
+            setIsLoading(false);
+            haltTurn(context, 'generation', 'response queued for later retry', true);
+            return;
+        }
+
+        // Reported counts calibrate the estimator; the prompt count covers the system instruction and the whole history
+        const responseText = extractResponseText(response);
+        const sentText = [systemInstruction, ...prompt.apiHistory.map(entry => entry.parts.map(part => part.text).join(''))].join('\n');
+        TokenManager.recordUsage(selectedModel, 'structuredData', sentText, response.usageMetadata?.promptTokenCount);
+        TokenManager.recordUsage(selectedModel, 'descriptions', responseText, response.usageMetadata?.candidatesTokenCount);
+
+        // Lookup requests made before generation count towards the same turn
+        const turnTokens = (response.usageMetadata?.totalTokenCount || 0) + (context.referenceLookup?.tokens || 0);
+        setCurrentTurnTokens(turnTokens);
+        setTotalTokens(prev => prev + turnTokens);
+
+        console.log(`📤 [Turn ${gameState.turnCount}] AI Response Debug:`, {
+            responseLength: responseText.length,
+            responseHash: responseText.length > 200 ? responseText.slice(0, 100) + '...' + responseText.slice(-100) : responseText,
+            tokenUsage: turnTokens,
+            model: selectedModel,
+            timestamp: new Date().toISOString()
+        });
+
+        context.generation = { response, responseText, turnTokens, choiceId, gameStateSnapshot, startedAt, finishedAt: Date.now() };
+    }
+};
+
+// ---------------------------------------------------------------------------
+// validation: inspect the response, reject empty ones, regenerate duplicates
+// ---------------------------------------------------------------------------
+
+export const cotExtractionStage: TurnStage = {
+    name: 'cot-extraction',
+    phase: 'validation',
+    order: 10,
+    run: (context, { extractCOTReasoning }) => {
+        const { responseText } = context.generation!;
+        const turn = context.input.gameState.turnCount;
+        let cotReasoning: any = null;
+
+        try {
+            cotReasoning = extractCOTReasoning(responseText);
+            if (cotReasoning) {
+                console.log(`🧠 [Turn ${turn}] AI Chain of Thought Reasoning (${cotReasoning.type}):`, cotReasoning.note || 'N/A');
+                if (cotReasoning.type === 'explicit_cot' && cotReasoning.sections) {
+                    cotReasoning.sections.forEach((section: any, index: number) => {
+                        console.log(`   📝 STEP ${index + 1} (${section.length} chars):\n      ${section.content}`);
+                    });
+                } else if (cotReasoning.reasoning) {
+                    console.log(`   🔍 Full Reasoning Content:\n      ${cotReasoning.reasoning}`);
+                } else if (cotReasoning.responsePreview) {
+                    console.log(`   📋 Response Preview: ${cotReasoning.responsePreview}`);
+                }
+            } else {
+                console.log(`🔍 [Turn ${turn}] Could not extract COT reasoning from response`);
+                console.log(`📝 Response preview (first 1000 chars):`, responseText.substring(0, 1000));
+                cotReasoning = {
+                    type: 'no_cot_found' as const,
+                    note: 'No COT reasoning detected in response - AI may be ignoring instructions',
+                    responsePreview: responseText.substring(0, 200) + '...'
+                };
+            }
+        } catch (e) {
+            console.log(`🚨 [Turn ${turn}] Error extracting COT:`, e);
+            cotReasoning = {
+                type: 'no_cot_found' as const,
+                note: `Error extracting COT: ${e}`,
+                responsePreview: responseText.substring(0, 200) + '...'
+            };
+        }
+
+        context.validation = { finalResponseText: responseText, isDuplicate: false, duplicateRetryCount: 0, cotReasoning };
+    }
+};
+
+export const emptyResponseStage: TurnStage = {
+    name: 'empty-response',
+    phase: 'validation',
+    order: 20,
+    run: (context, { selectedModel, storyLogManager }) => {
+        const { response, responseText } = context.generation!;
+        if (responseText) return;
+
+        console.error("API returned empty response text in handleAction", {
+            responseMetadata: response.usageMetadata,
+            model: selectedModel,
+            action: context.input.originalAction,
+            responseObject: response
+        });
+
+        let errorMessage = "Lỗi: AI không trả về nội dung.";
+        if (response.usageMetadata?.totalTokenCount === 0) {
+            errorMessage += " Có thể do giới hạn token hoặc nội dung bị lọc.";
+        } else if (!response.usageMetadata) {
+            errorMessage += " Có thể do lỗi kết nối mạng.";
+        }
+        errorMessage += " Vui lòng thử lại với hành động khác hoặc kiểm tra API key.";
+
+        // Player action is already in the story log, just add error message
+        storyLogManager.update(prev => [...prev, errorMessage]);
+        haltTurn(context, 'empty-response', 'model returned no text');
+    }
+};
+
+const MAX_DUPLICATE_RETRIES = 2;
+
+export const duplicateDetectionStage: TurnStage = {
+    name: 'duplicate-detection',
+    phase: 'validation',
+    order: 30,
+    run: async (context, { ai, selectedModel, systemInstruction, responseSchema, temperature, topK, topP, gameHistory, detectDuplicateResponse, generationAbortRef }) => {
+        const { responseText, choiceId, gameStateSnapshot } = context.generation!;
+        const validation = context.validation!;
+        const turn = context.input.gameState.turnCount;
+
+        if (!detectDuplicateResponse(responseText, gameHistory)) return;
+
+        const { duplicateRetry } = getPromptText(getPromptLocale(context.input.gameState.worldData));
+        const attemptNumber = (gameHistory.filter(h => h.parts[0].text.includes(duplicateRetry.retryMarker)).length || 0) + 1;
+        validation.isDuplicate = true;
+        validation.duplicateRetryCount = attemptNumber;
+        console.warn(`⚠️ [Turn ${turn}] Duplicate response detected! Regenerating...`);
+
+        // Prevent infinite loops
+        if (attemptNumber > MAX_DUPLICATE_RETRIES) {
+            console.warn(`⚠️ [Turn ${turn}] Max duplicate retries reached (${attemptNumber}), accepting response`);
+            return;
+        }
+
+        // Add variation to force different response with attempt counter
+        const retryPrompt = context.prompt!.userPrompt + (context.referenceLookup?.findings || '') + duplicateRetry.note(attemptNumber, Math.random());
+        const retryResponse = await enhancedGenerateContent(ai!, {
+            model: selectedModel,
+            contents: [...gameHistory, { role: 'user', parts: [{ text: retryPrompt }] }],
+            config: {
+                systemInstruction: systemInstruction,
+                responseMimeType: "application/json",
+                responseSchema: responseSchema,
+                // Use higher values for retry to increase diversity
+                temperature: Math.min(temperature + 0.1, 2.0),
+                topP: Math.max(topP - 0.05, 0.1),
+                topK: Math.max(topK - 10, 10)
+            }
+        }, `retry_duplicate_${attemptNumber}`, choiceId, gameStateSnapshot, getTurnAbortSignal(context, generationAbortRef));
+
+        const retryText = retryResponse.text?.trim() || '';
+        if (retryText) {
+            validation.finalResponseText = retryText;
+            console.log(`✅ [Turn ${turn}] Successfully generated unique response on retry`);
+        }
+    }
+};
+
+// ---------------------------------------------------------------------------
+// post-process: research logging and command tag parsing
+// ---------------------------------------------------------------------------
+
+export const cotResearchLogStage: TurnStage = {
+    name: 'cot-research-log',
+    phase: 'post-process',
+    order: 10,
+    run: (context, { updateCOTResearchLog }) => {
+        const prompt = context.prompt!;
+        const { turnTokens, startedAt } = context.generation!;
+        const { finalResponseText, isDuplicate, duplicateRetryCount, cotReasoning } = context.validation!;
+
+        let parsedResponse: any = null;
+        try {
+            parsedResponse = JSON.parse(finalResponseText);
+        } catch (e) {
+            // Response parsing failed, still log what we can
+        }
+
+        updateCOTResearchLog({
+            turn: context.input.gameState.turnCount,
+            timestamp: new Date().toISOString(),
+            userAction: context.input.originalAction,
+            cotPromptUsed: prompt.hasCOT,
+            cotPromptLength: prompt.hasCOT ? prompt.userPrompt.length : undefined,
+            cotPromptTokens: prompt.hasCOT ? prompt.cotPromptTokens : undefined,
+            aiReasoningDetected: cotReasoning || {
+                type: 'no_cot_found' as const,
+                note: 'COT analysis not available'
+            },
+            duplicateDetected: isDuplicate,
+            duplicateRetryCount,
+            finalResponseQuality: {
+                storyLength: parsedResponse?.story?.length || finalResponseText.length,
+                choicesCount: parsedResponse?.choices?.length || 0,
+                storyTokens: parsedResponse?.story ? Math.ceil(parsedResponse.story.length * 1.2) : undefined,
+                hasTimeElapsed: finalResponseText.includes('TIME_ELAPSED'),
+                hasChronicle: finalResponseText.includes('CHRONICLE_TURN')
+            },
+            performanceMetrics: {
+                responseTime: Date.now() - startedAt,
+                totalTokensUsed: turnTokens,
+                promptTokens: prompt.cotPromptTokens,
+                completionTokens: turnTokens - prompt.cotPromptTokens
+            }
+        });
+    }
+};
+
+export const responseParsingStage: TurnStage = {
+    name: 'response-parsing',
+    phase: 'post-process',
+    order: 20,
+    run: async (context, { parseApiResponse }) => {
+        context.parseSuccess = await parseApiResponse(context.validation!.finalResponseText);
+    }
+};
+
+// ---------------------------------------------------------------------------
+// commit: write history, quest progress and the turn counter
+// ---------------------------------------------------------------------------
+
+export const historyCommitStage: TurnStage = {
+    name: 'history-commit',
+    phase: 'commit',
+    order: 10,
+    run: (context, { setGameHistory, updateChoiceHistory }) => {
+        const modelEntry: GameHistoryEntry = { role: 'model', parts: [{ text: context.validation!.finalResponseText }] };
+        setGameHistory(prev => [...prev, context.prompt!.historyEntry, modelEntry]);
+
+        // Track selected choice in history, once the turn it started is kept
+        updateChoiceHistory([], context.processedAction, 'Player action executed');
+    }
+};
+
+export const questProgressStage: TurnStage = {
+    name: 'quest-progress',
+    phase: 'commit',
+    order: 20,
+    run: (context, { knownEntities, setQuests, storyLogManager, parseStoryAndTags }) => {
+        if (!context.parseSuccess) return;
+        const { originalAction, gameState } = context.input;
+
+        const questResult = processQuestObjectiveCompletion(originalAction, gameState.quests, gameState.turnCount + 1);
+        if (questResult.completedObjectives.length === 0 && questResult.completedQuests.length === 0) return;
+
+        setQuests(questResult.updatedQuests);
+        if (questResult.completedObjectives.length > 0) {
+            console.log(`✅ Completed ${questResult.completedObjectives.length} quest objective(s):`,
+                questResult.completedObjectives.map(obj => `"${obj.objectiveDescription}" for "${obj.questTitle}"`));
+        }
+        if (questResult.completedQuests.length === 0) return;
+
+        console.log(`🏆 Completed ${questResult.completedQuests.length} quest(s):`, questResult.completedQuests);
+        questResult.completedQuests.forEach(questTitle => {
+            storyLogManager.update(prev => [...prev, `🏆 Nhiệm vụ hoàn thành: "${questTitle}"`]);
+        });
+
+        // CRITICAL: Process and grant quest rewards automatically
+        try {
+            const completedQuestObjects = questResult.updatedQuests.filter(quest =>
+                questResult.completedQuests.includes(quest.title) && quest.status === 'completed'
+            );
+            if (completedQuestObjects.length === 0) return;
+
+            const rewardResults = processQuestRewards(completedQuestObjects, knownEntities);
+            const allCommandTags = rewardResults.flatMap(result => result.commandTags);
+
+            if (allCommandTags.length > 0) {
+                console.log(`🎁 Applying ${allCommandTags.length} reward command tag(s):`, allCommandTags);
+
+                // Create a fake story with the command tags to trigger processing
+                parseStoryAndTags(`[Quest rewards granted automatically]\n${allCommandTags.join('\n')}`, true);
+
+                // Mark quests as having rewards granted to prevent duplicates
+                setQuests(markQuestRewardsAsGranted(questResult.updatedQuests, questResult.completedQuests));
+
+                const totalRewards = rewardResults.reduce((sum, result) => sum + result.rewards.length, 0);
+                storyLogManager.update(prev => [...prev, `💰 Tự động trao ${totalRewards} phần thưởng từ nhiệm vụ đã hoàn thành`]);
+            } else {
+                console.log(`ℹ️ No rewards to grant for completed quests`);
+            }
+
+            const allErrors = rewardResults.flatMap(result => result.errors);
+            if (allErrors.length > 0) {
+                console.warn(`⚠️ Quest reward processing errors:`, allErrors);
+            }
+        } catch (rewardError: any) {
+            console.error(`❌ Failed to process quest rewards:`, rewardError);
+            storyLogManager.update(prev => [...prev, `⚠️ Lỗi khi xử lý phần thưởng nhiệm vụ: ${rewardError.message}`]);
+        }
+    }
+};
+
+// Only increment turn count after successful story generation and parsing
+export const advanceTurnStage: TurnStage = {
+    name: 'advance-turn',
+    phase: 'commit',
+    order: 30,
+    run: (context, { setTurnCount }) => {
+        if (!context.parseSuccess) {
+            console.log(`⚠️ Turn count NOT incremented due to parsing/generation failure`);
+            return;
+        }
+        setTurnCount(prev => {
+            const newTurn = prev + 1;
+            console.log(`🎯 Turn count successfully incremented to ${newTurn} after successful story generation`);
+            return newTurn;
+        });
+    }
+};
+
+export const DEFAULT_TURN_STAGES: TurnStage[] = [
+    playerInputStage,
+    timeCostStage,
+    skillUsageStage,
+    breakthroughResolutionStage,
+    breakthroughEligibilityStage,
+    semanticRecallStage,
+    promptAssemblyStage,
+    referenceLookupStage,
+    promptInspectionStage,
+    generationStage,
+    cotExtractionStage,
+    emptyResponseStage,
+    duplicateDetectionStage,
+    cotResearchLogStage,
+    responseParsingStage,
+    historyCommitStage,
+    questProgressStage,
+    advanceTurnStage
+];
+
+export const createDefaultTurnPipeline = (): TurnPipeline => new TurnPipeline(DEFAULT_TURN_STAGES);
+
+// Shared pipeline used by handleAction; register extra stages on it to hook into every turn
+export const turnPipeline = createDefaultTurnPipeline();
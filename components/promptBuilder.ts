@@ -1,10 +1,16 @@
-import type { SaveData, Entity, Status, Quest, GameHistoryEntry, CustomRule, KnownEntities } from './types.ts';
+import type { SaveData, Entity, Status, Quest, GameHistoryEntry, CustomRule, KnownEntities, PromptInspection, PromptInspectionPart, PromptInspectionItem, PromptInspectionSection, PromptTruncation, PromptTemplateId } from './types.ts';
 import { MBTI_PERSONALITIES } from './data/mbti.ts';
 import { EnhancedRAG } from './utils/EnhancedRAG';
 import { MemoryAnalytics } from './utils/MemoryAnalytics';
 import { ReferenceBasedRAG, type CompactRAGContext } from './utils/ReferenceBasedRAG';
 import { ruleActivationEngine, type ActivationContext } from './utils/RuleActivationEngine';
+import { retrievalIndex, chronicleDocId } from './utils/RetrievalIndex';
 import { generateSkillChoiceContext } from './utils/skillChoiceEnhancer';
+import { getTopLevelSummaries, HISTORY_SUMMARY_LABELS } from './utils/historySummarizer';
+import { TokenManager } from './TokenManager';
+import { resolvePromptTemplate, getDefaultPromptTemplate, getPromptLocale, getPromptText } from './utils/promptTemplates';
+import type { ActionComplexity, ActionType, PromptText } from './data/promptText';
+import type { TranslatableMessage, TranslationKey } from './i18n';
 
 // Helper function to normalize skill names (remove mastery level in parentheses)
 const normalizeName = (raw: string): string => {
@@ -18,8 +24,9 @@ const normalizeName = (raw: string): string => {
 // Aggressive Token Management for 100k hard limit
 const TOKEN_CONFIG = {
     MAX_TOKENS_PER_TURN: 90000,  // 90k hard limit with 10k buffer
-    TOKEN_BUFFER: 10000,         // 10k safety buffer
-    CHARS_PER_TOKEN: 1.2,        // Conservative token estimation
+    TOKEN_BUFFER: 10000,         // 10k safety buffer at the estimator's default error margin
+    MIN_TOKEN_BUFFER: 5000,      // Bounds for the buffer once the estimator has measured its error (min keeps it under HARD_TOKEN_LIMIT)
+    MAX_TOKEN_BUFFER: 30000,
     
     // Aggressive allocation for strict 100k budget
     ALLOCATION: {
@@ -31,9 +38,29 @@ const TOKEN_CONFIG = {
     
     // Reference-based RAG settings
     USE_REFERENCE_RAG: true,     // Enable reference-based RAG for token efficiency
-    REFERENCE_RAG_TOKEN_LIMIT: 600  // Max tokens for reference-based context
+    REFERENCE_RAG_TOKEN_LIMIT: 600,  // Max tokens for reference-based context
+    RELATED_CHRONICLE_ENTRIES: 3     // Older chronicle entries retrieved for the action
 };
 
+const HARD_TOKEN_LIMIT = 85000;          // Above this enforceTokenLimit falls back to emergencyTruncation
+const EMERGENCY_TOKEN_LIMIT = 185000;    // What emergencyTruncation actually cuts down to
+
+// Prompts are mostly markup and lists; the estimator calibrates this type from reported prompt counts
+const PROMPT_CONTENT_TYPE = 'structuredData';
+
+/** The builder's token estimate, shared with the prompt inspector */
+export const estimatePromptTokens = (text: string): number => TokenManager.estimate(text, PROMPT_CONTENT_TYPE);
+
+/** Budget for the whole prompt: the safety buffer grows or shrinks with the estimator's measured error */
+const getSoftTokenLimit = (): number => {
+    const scale = TokenManager.getErrorMargin(PROMPT_CONTENT_TYPE) / TokenManager.getConfig().safetyMargin;
+    const buffer = Math.min(TOKEN_CONFIG.MAX_TOKEN_BUFFER, Math.max(TOKEN_CONFIG.MIN_TOKEN_BUFFER, Math.round(TOKEN_CONFIG.TOKEN_BUFFER * scale)));
+    return TOKEN_CONFIG.MAX_TOKENS_PER_TURN - buffer;
+};
+
+// The built prompt as the inspector sees it; the turn pipeline adds the system instruction
+export type BuiltPromptInspection = Omit<PromptInspection, 'systemInstruction' | 'systemTokens'>;
+
 // Entity relevance scoring
 interface EntityRelevance {
     entity: Entity;
@@ -52,6 +79,10 @@ export class EnhancedRAGSystem {
     private semanticCache = new Map<string, Set<string>>();
     private entityGraph = new Map<string, Set<string>>();
     private currentGameState?: SaveData; // Store current game state for choice context
+    private currentAction = '';                          // With the names below, fills the template placeholders
+    private currentEntityNames: string[] = [];
+    private inspection: InspectionDraft | null = null;  // Filled while a prompt is being built
+    private lastInspection: BuiltPromptInspection | null = null;
     
     constructor() {
         this.initializeSystem();
@@ -69,21 +100,26 @@ export class EnhancedRAGSystem {
         gameState: SaveData,
         ruleChangeContext: string = '',
         playerNsfwRequest: string = '',
-        enableCOT: boolean = true
+        enableCOT: boolean = true,
+        semanticScores?: Map<string, number>
     ): string {
         const startTime = performance.now();
+        this.lastInspection = null;
         
         console.log(`🔍 DEBUG: buildEnhancedPrompt received enableCOT: ${enableCOT} (type: ${typeof enableCOT})`);
         
         // Defensive check for gameState
         if (!gameState) {
             console.error('🚨 buildEnhancedPrompt: gameState is null/undefined, using fallback');
-            return `Hành động: ${action}\nTrạng thái: Lỗi hệ thống, không thể xử lý gameState.`;
+            return getPromptText().missingStatePrompt(action);
         }
         
         try {
             // Store current game state for choice context
             this.currentGameState = gameState;
+            this.currentAction = action;
+            this.currentEntityNames = [];
+            this.inspection = { budgets: {}, parts: {}, items: {}, sections: [] };
             
             // Step 1: Choose RAG strategy based on configuration
             let intelligentContext;
@@ -98,8 +134,9 @@ export class EnhancedRAGSystem {
                     recencyWeight: 0.3,
                     relevanceWeight: 0.5,
                     diversityWeight: 0.2,
+                    semanticWeight: 0.5,
                     includeArchived: false
-                });
+                }, semanticScores);
                 
                 // No traditional context needed when using reference RAG
                 intelligentContext = null;
@@ -112,8 +149,9 @@ export class EnhancedRAGSystem {
                     recencyWeight: 0.3,
                     relevanceWeight: 0.5,
                     diversityWeight: 0.2,
+                    semanticWeight: 0.5,
                     includeArchived: false
-                });
+                }, semanticScores);
             }
             
             // Step 2: Analyze action intent
@@ -138,6 +176,8 @@ export class EnhancedRAGSystem {
                     intelligentContext
                 );
             
+            this.currentEntityNames = relevantEntities.slice(0, 10).map(relevance => relevance.entity?.name).filter(Boolean);
+
             // Step 5: Calculate dynamic token budgets (accounting for context type)
             const contextTokenUsage = compactContext ? 
                 (compactContext.originalTokens - compactContext.tokensSaved) : 
@@ -147,13 +187,15 @@ export class EnhancedRAGSystem {
                 gameState,
                 contextTokenUsage
             );
+            this.inspection.budgets = { ...tokenBudget };
             
             // Step 5: Build context sections with priority
             const contextSections = this.buildPrioritizedContext(
                 relevantEntities,
                 gameState,
                 tokenBudget,
-                action
+                action,
+                semanticScores
             );
             
             // Step 6: Assemble final prompt with appropriate context
@@ -172,15 +214,79 @@ export class EnhancedRAGSystem {
             const endTime = performance.now();
             console.log(`RAG processing time: ${(endTime - startTime).toFixed(2)}ms`);
             
-            return this.enforceTokenLimit(finalPrompt);
+            const sentPrompt = this.enforceTokenLimit(finalPrompt);
+            this.finishInspection(action, gameState, sentPrompt);
+            return sentPrompt;
             
         } catch (error) {
             console.error('Enhanced RAG Error:', error);
             // Fallback to basic prompt
-            return this.buildFallbackPrompt(action, gameState);
+            const fallbackPrompt = this.buildFallbackPrompt(action, gameState);
+            this.inspection = { budgets: {}, parts: {}, items: {}, sections: [] };
+            this.noteSection('fallback', 'promptInspector.section.fallback', fallbackPrompt);
+            this.finishInspection(action, gameState, fallbackPrompt, true);
+            return fallbackPrompt;
         }
     }
 
+    // Fixed prompt text in the language the GM of the world being built for writes in
+    private promptText(): PromptText {
+        return getPromptText(getPromptLocale(this.currentGameState?.worldData));
+    }
+
+    /** Sections of the last prompt built, for the prompt inspector */
+    public getLastInspection(): BuiltPromptInspection | null {
+        return this.lastInspection;
+    }
+
+    // --- Prompt inspector bookkeeping (no-ops when no prompt is being built) ---
+
+    private notePart(section: string, label: TranslationKey, text: string, budget?: number) {
+        if (!this.inspection || !text) return;
+        if (!this.inspection.parts[section]) this.inspection.parts[section] = [];
+        this.inspection.parts[section].push({ label, tokens: this.estimateTokens(text), ...(budget !== undefined ? { budget } : {}) });
+    }
+
+    private noteItem(section: string, item: PromptInspectionItem) {
+        if (!this.inspection) return;
+        if (!this.inspection.items[section]) this.inspection.items[section] = [];
+        this.inspection.items[section].push(item);
+    }
+
+    private noteSection(id: string, label: TranslationKey, text: string) {
+        if (!this.inspection || !text.trim()) return;
+        const budget = this.inspection.budgets[id as keyof TokenBudget];
+        this.inspection.sections.push({
+            id,
+            label,
+            text,
+            tokens: this.estimateTokens(text),
+            ...(budget !== undefined ? { budget } : {}),
+            parts: this.inspection.parts[id] || [],
+            items: this.inspection.items[id] || []
+        });
+    }
+
+    private finishInspection(action: string, gameState: SaveData, sentPrompt: string, fallback = false) {
+        if (!this.inspection) return;
+        const { sections, truncation } = this.inspection;
+        if (truncation) {
+            truncation.droppedSections = sections.filter(section => !sentPrompt.includes(section.text)).map(section => section.label);
+        }
+        this.lastInspection = {
+            turn: gameState.turnCount || 0,
+            action,
+            createdAt: Date.now(),
+            sections,
+            totalTokens: this.estimateTokens(sentPrompt),
+            softLimit: getSoftTokenLimit(),
+            hardLimit: HARD_TOKEN_LIMIT,
+            ...(truncation ? { truncation } : {}),
+            ...(fallback ? { fallback } : {})
+        };
+        this.inspection = null;
+    }
+
     // Analyze the player's action to understand intent
     private analyzeActionIntent(action: string): ActionIntent {
         const lowerAction = action.toLowerCase();
@@ -358,7 +464,7 @@ export class EnhancedRAGSystem {
         gameState: SaveData,
         intelligentContextTokens: number = 0
     ): TokenBudget {
-        const baseLimit = TOKEN_CONFIG.MAX_TOKENS_PER_TURN - TOKEN_CONFIG.TOKEN_BUFFER;
+        const baseLimit = getSoftTokenLimit();
         
         // Analyze context complexity
         const hasActiveQuests = gameState.quests?.some(q => q.status === 'active') || false;
@@ -392,7 +498,8 @@ export class EnhancedRAGSystem {
         relevantEntities: EntityRelevance[],
         gameState: SaveData,
         budget: TokenBudget,
-        playerInput?: string
+        playerInput?: string,
+        semanticScores?: Map<string, number>
     ): ContextSections {
         const sections: ContextSections = {
             critical: '',
@@ -418,7 +525,9 @@ export class EnhancedRAGSystem {
         // Contextual: World info, chronicle, memories
         sections.contextual = this.buildContextualInfo(
             gameState,
-            budget.contextual
+            budget.contextual,
+            playerInput,
+            semanticScores
         );
 
         // Supplemental: Custom rules and additional context (enhanced with new activation engine)
@@ -438,30 +547,35 @@ export class EnhancedRAGSystem {
         gameState: SaveData,
         tokenBudget: number
     ): string {
-        let context = "=== TRI THỨC QUAN TRỌNG ===\n";
+        let context = this.promptText().markers.criticalKnowledge + "\n";
         let usedTokens = this.estimateTokens(context);
         
         // Add Vietnamese choice instructions at the beginning of critical context
         const choiceInstructions = this.buildCoreGameInstructions();
         context += "\n" + choiceInstructions + "\n\n";
         usedTokens += this.estimateTokens(choiceInstructions);
+        this.notePart('critical', 'promptInspector.part.coreInstructions', choiceInstructions);
         
         // Add time and turn info
         const timeInfo = this.formatGameTime(gameState.gameTime, gameState.turnCount);
         context += timeInfo + "\n\n";
         usedTokens += this.estimateTokens(timeInfo);
+        this.notePart('critical', 'promptInspector.part.time', timeInfo);
         
         // Dedicated party section for enhanced coordination  
-        const partyContext = this.buildEnhancedPartyContext(gameState, Math.floor(tokenBudget * 0.4));
+        const partyBudget = Math.floor(tokenBudget * 0.4);
+        const partyContext = this.buildEnhancedPartyContext(gameState, partyBudget);
         if (partyContext) {
             context += partyContext + "\n";
             usedTokens += this.estimateTokens(partyContext);
         }
+        this.notePart('critical', 'promptInspector.part.party', partyContext, partyBudget);
         
         // Add remaining entities with detailed info (no filtering by type)
         const remainingBudget = tokenBudget - usedTokens;
         const nonPartyEntities = entities.filter(e => e.entity.type !== 'companion');
         const tokensPerEntity = Math.floor(remainingBudget / Math.max(1, nonPartyEntities.length));
+        let entitiesText = '';
         
         nonPartyEntities.forEach(({ entity, score, reason }) => {
             const entityText = this.formatEntityWithContext(
@@ -473,11 +587,15 @@ export class EnhancedRAGSystem {
             );
             
             const entityTokens = this.estimateTokens(entityText);
-            if (usedTokens + entityTokens <= tokenBudget) {
+            const included = usedTokens + entityTokens <= tokenBudget;
+            if (included) {
                 context += entityText + "\n";
+                entitiesText += entityText + "\n";
                 usedTokens += entityTokens;
             }
+            this.noteItem('critical', { name: entity.name, detail: { key: 'promptInspector.item.entity', params: { score, reasons: reason.join(', ') || '—' } }, included });
         });
+        this.notePart('critical', 'promptInspector.part.entities', entitiesText, remainingBudget);
         
         return context;
     }
@@ -615,41 +733,50 @@ export class EnhancedRAGSystem {
         let usedTokens = this.estimateTokens(context);
         
         // Active quests
+        const questBudget = Math.floor(tokenBudget * 0.3);
         const questContext = this.buildQuestContext(
             (gameState.quests || []).filter(q => q.status === 'active'),
-            Math.floor(tokenBudget * 0.3)
+            questBudget
         );
         context += questContext;
         usedTokens += this.estimateTokens(questContext);
+        this.notePart('important', 'promptInspector.part.quests', questContext, questBudget);
         
         // Recent history with smart summarization
+        const historyBudget = Math.floor(tokenBudget * 0.4);
         const historyContext = this.buildSmartHistoryContext(
             gameState.gameHistory,
-            Math.floor(tokenBudget * 0.4)
+            historyBudget
         );
         context += historyContext;
         usedTokens += this.estimateTokens(historyContext);
+        this.notePart('important', 'promptInspector.part.recentEvents', historyContext, historyBudget);
         
         // Related entities
         const remainingBudget = tokenBudget - usedTokens;
         const tokensPerEntity = Math.floor(remainingBudget / Math.max(1, entities.length));
+        let entitiesText = '';
         
-        entities.forEach(({ entity, reason }) => {
+        entities.forEach(({ entity, score, reason }) => {
             const entityText = this.formatEntityBrief(entity, reason, tokensPerEntity);
             const entityTokens = this.estimateTokens(entityText);
+            const included = usedTokens + entityTokens <= tokenBudget;
             
-            if (usedTokens + entityTokens <= tokenBudget) {
+            if (included) {
                 context += entityText + "\n";
+                entitiesText += entityText + "\n";
                 usedTokens += entityTokens;
             }
+            this.noteItem('important', { name: entity.name, detail: { key: 'promptInspector.item.entity', params: { score, reasons: reason.join(', ') || '—' } }, included });
         });
+        this.notePart('important', 'promptInspector.part.relatedEntities', entitiesText, remainingBudget);
         
         return context;
     }
 
     // Utility methods
     private estimateTokens(text: string): number {
-        return Math.ceil(text.length * TOKEN_CONFIG.CHARS_PER_TOKEN);
+        return estimatePromptTokens(text);
     }
 
     private countRecentMentions(name: string, history: GameHistoryEntry[], lookback: number): number {
@@ -766,7 +893,7 @@ export class EnhancedRAGSystem {
         }
         
         // Aggressive character limit
-        const charLimit = Math.floor(maxTokens / TOKEN_CONFIG.CHARS_PER_TOKEN * 0.9); // 90% safety margin
+        const charLimit = Math.floor(maxTokens / TokenManager.getTokensPerChar(PROMPT_CONTENT_TYPE) * 0.9); // 90% safety margin
         
         if (text.length <= charLimit) {
             return text;
@@ -1034,31 +1161,17 @@ export class EnhancedRAGSystem {
         const pc = gameState.party?.find(p => p.type === 'pc');
         const currentLocation = pc?.location;
         
-        let context = "\n**HƯỚNG DẪN TẠO LỰA CHỌN ĐA DẠNG:**\n";
-        
-        // Suggest different action types
-        const actionTypes = [
-            "🗣️ GIAO TIẾP: Trò chuyện, hỏi thông tin, thuyết phục",
-            "🏃 HÀNH ĐỘNG: Di chuyển, khám phá, tương tác vật thể", 
-            "⚔️ CHIẾN THUẬT: Sử dụng kỹ năng, chiến đấu, phòng thủ",
-            "🧠 CHIẾN LƯỢC: Quan sát, phân tích, lên kế hoạch",
-            "💭 NỘI TÂM: Suy nghĩ sâu, hồi tưởng, quyết định quan trọng"
-        ];
-        
-        context += "**Đảm bảo có ít nhất 2-3 loại hành động khác nhau:**\n";
-        actionTypes.slice(0, 3).forEach(type => {
-            context += `• ${type}\n`;
-        });
-        
         // Location-specific suggestions
+        let locationGuidance = '';
         if (currentLocation) {
-            context += `\n**Khai thác địa điểm "${currentLocation}":**\n`;
-            context += `• Tạo lựa chọn phù hợp với đặc điểm và cơ hội của địa điểm này\n`;
+            locationGuidance += `\n**Khai thác địa điểm "${currentLocation}":**\n`;
+            locationGuidance += `• Tạo lựa chọn phù hợp với đặc điểm và cơ hội của địa điểm này\n`;
         }
         
         // Skill utilization
+        let skillGuidance = '';
         if (pc?.learnedSkills && pc.learnedSkills.length > 0) {
-            context += `\n**Sử dụng kỹ năng có sẵn:**\n`;
+            skillGuidance += `\n**Sử dụng kỹ năng có sẵn:**\n`;
             const skills = pc.learnedSkills.slice(0, 3);
             skills.forEach(skillName => {
                 // Normalize the skill name to find the actual skill entity
@@ -1067,34 +1180,25 @@ export class EnhancedRAGSystem {
                     e.type === 'skill' && normalizeName(e.name) === normalizedSkillName
                 );
                 if (skillEntity && skillEntity.mastery) {
-                    context += `• Tạo cơ hội sử dụng "${skillEntity.name} (${skillEntity.mastery})"\n`;
+                    skillGuidance += `• Tạo cơ hội sử dụng "${skillEntity.name} (${skillEntity.mastery})"\n`;
                 } else {
-                    context += `• Tạo cơ hội sử dụng "${skillName}"\n`;
+                    skillGuidance += `• Tạo cơ hội sử dụng "${skillName}"\n`;
                 }
             });
         }
         
         // Companion interaction suggestions
+        let companionGuidance = '';
         const companions = gameState.party?.filter(p => p.type === 'companion') || [];
         if (companions.length > 0) {
-            context += `\n**Tương tác với đồng hành:**\n`;
+            companionGuidance += `\n**Tương tác với đồng hành:**\n`;
             companions.slice(0, 2).forEach(companion => {
-                context += `• Lựa chọn phối hợp hoặc giao tiếp với ${companion.name}\n`;
+                companionGuidance += `• Lựa chọn phối hợp hoặc giao tiếp với ${companion.name}\n`;
             });
         }
         
-        // Time and duration variety
-        context += `\n**Đa dạng thời gian thực hiện:**\n`;
-        context += `• Tạo lựa chọn ngắn hạn (15-30 phút), trung hạn (1-2 giờ), và dài hạn (nửa ngày)\n`;
-        context += `• Cân bằng giữa hành động nhanh và hoạt động suy tư\n`;
-        
-        context += `\n**LƯU Ý QUAN TRỌNG**: Mỗi lựa chọn phải:\n`;
-        context += `• DẪN ĐẾN KẾT QUẢ KHÁC NHAU hoàn toàn\n`;
-        context += `• Tạo ra các tình huống mới thú vị và không dự đoán trước\n`;
-        context += `• Phản ánh tính cách và động cơ của nhân vật\n`;
-        context += `• Có tính logic và hợp lý trong bối cảnh hiện tại\n`;
-        
-        return context;
+        // Action types, time variety and the closing reminders are part of the template
+        return this.renderTemplate('choiceDiversity', { locationGuidance, skillGuidance, companionGuidance });
     }
     
     // ADVANCED COT: Comprehensive Chain of Thought reasoning based on sillytarven framework
@@ -1110,192 +1214,26 @@ export class EnhancedRAGSystem {
             actionType: this.categorizeAction(action)
         });
         
-        const cotPrompt = `
-🧠 TRƯỚC KHI TẠO JSON RESPONSE - BẮT BUỘC PHẢI SUY NGHĨ:
-
-🎯 **FORMAT BẮT BUỘC**: Bao gồm "cot_reasoning" field trong JSON với suy nghĩ chi tiết!
-
-⚠️ **QUAN TRỌNG - GIỚI HẠN ĐỘ DÀI**: Mỗi bước COT chỉ được 15-30 từ. Viết ngắn gọn, súc tích!
-
-**BẮNG BUỘC**: Bạn phải bao gồm field "cot_reasoning" chứa:
-**BƯỚC MỘT: PHÂN TÍCH TÌNH HUỐNG HIỆN TẠI**
-Hãy viết ra suy nghĩ của bạn về tình huống hiện tại:
-
-① **Sự kiện gần đây**: 
-   ${this.extractRecentEvents(recentHistory)}
-
-② **Thời gian & Địa điểm**:
-   - Thời gian: ${this.formatGameTime(gameState.gameTime)}
-   - Địa điểm: ${pc?.location || 'Không xác định'}
-
-③ **Phân tích nhân vật sâu**:
-   [NHÂN VẬT CHÍNH] ${pc?.name}:
-   - Tính cách: ${pc?.personality || 'Chưa xác định'}
-   - Mục tiêu: ${pc?.motivation || 'Chưa rõ'}
-   - Trạng thái hiện tại: ${this.analyzeCharacterState(pc, gameState.statuses)}
-   
-   ${companions.length > 0 ? companions.map(comp => 
-   `[ĐỒNG HÀNH] ${comp.name}:
-   - Quan hệ với PC: ${comp.relationship || 'Bình thường'}
-   - Tính cách: ${comp.personality || 'Chưa rõ'}
-   - Trạng thái: ${this.analyzeCharacterState(comp, gameState.statuses)}`).join('\n   ') : '[Không có đồng hành]'}
-
-④ **Trạng thái cơ thể và trang phục**:
-   ${this.analyzePhysicalState(pc, gameState)}
-
-**BƯỚC 2: CHỐNG ÁP BỨC**
-Suy nghĩ về cân bằng quyền lực và tránh khuôn mẫu:
-- Cân bằng quyền lực: ${this.analyzePowerBalance(gameState)}
-- Tránh khuôn mẫu: ${this.getAntiStereotypeGuidance(gameState)}
-- Đảm bảo agency: Mọi nhân vật phải có lựa chọn có ý nghĩa
-
-**BƯỚC 3: ĐỀ CƯƠNG ĐÓNG VAI** 
-Lên kế hoạch cụ thể cho phản ứng với hành động "${action}":
-- **Phản ứng trực tiếp**: ${this.planDirectResponse(action, gameState)}
-- **2-3 diễn biến mới**: ${this.planStoryProgression(gameState)}  
-- **Kết nối với diễn biến trước**: ${this.planContinuity(recentHistory)}
-
-**BƯỚC 3A: PHÂN TÍCH HÀNH ĐỘNG NGƯỜI CHƠI - BẮT BUỘC**
-🎯 **ACTION COMPLETION ANALYSIS**:
-① **Xác định loại hành động**: "${action}"
-   - Loại: [Di chuyển/Tương tác/Chiến đấu/Đối thoại/Khám phá/Khác]
-   - Độ phức tạp: [Đơn giản/Trung bình/Phức tạp]
-② **KIỂM TRA HOÀN THÀNH TRONG LƯỢT NÀY**:
-   - ✅ **BẮT BUỘC**: Hành động PHẢI được hoàn thành 100% trong story này
-   - 🚫 **NGHIÊM CẤM**: Không để "đang di chuyển...", "sẽ tiếp tục...", "chưa đến nơi..."
-   - 📍 **ĐẶC BIỆT VỚI DI CHUYỂN**: 
-     * Nếu là di chuyển → PC PHẢI đến đích trong lượt này
-     * Chỉ dừng lại nếu có sự kiện/gặp gỡ/trở ngại BẤT NGỜ xảy ra
-     * Mô tả cả quá trình di chuyển + kết quả đến nơi
-③ **KẾ HOẠCH HOÀN THÀNH**:
-   - Điểm bắt đầu: [Mô tả tình huống khởi đầu]
-   - Quá trình thực hiện: [Chi tiết diễn ra như thế nào]  
-   - Kết quả cuối cùng: [Trạng thái sau khi hoàn thành]
-   - Hậu quả/phản ứng: [NPC và môi trường phản ứng gì]
-
-**BƯỚC 3B: KIỂM TRA NPC DECISIVENESS & DETECTION (BẮT BUỘC)**
-⚡ **CRITICAL CHECK - NPC BEHAVIOR VALIDATION & DETECTION**:
-
-① **TỰ ĐỘNG NHẬN DIỆN NPCs**: Phân tích story content để tìm TẤT CẢ NPCs sẽ xuất hiện
-   - Xác định mọi nhân vật (không phải player) có trong bối cảnh hiện tại
-   - Chỉ lấy NPCs đang HIỆN DIỆN, không phải chỉ được nhắc đến
-   - Ước đoán thông tin cơ bản: tên, giới tính, tuổi, ngoại hình, mối quan hệ với player
-
-② **CHO MỖI NPC - PLAN IMMEDIATE ACTION + INNER THOUGHTS**: 
-   - NPC sẽ làm GÌ ngay lượt này (cụ thể, rõ ràng)
-   - NPC sẽ NÓI GÌ (nếu có đối thoại)
-   - NPC sẽ PHẢN ỨNG thế nào với PC
-   - **NỘI TÂM NPC**: Suy nghĩ bên trong của NPC về hành động player (15-25 từ, cảm xúc chân thật)
-
-③ **🚫 ĐẢM BẢO TUYỆT ĐỐI**: 
-   - KHÔNG có NPC nào "suy nghĩ", "cân nhắc", "sẽ quyết định sau"
-   - KHÔNG có NPC nào do dự hay trì hoãn hành động
-   - MỌI NPC phải có hành động/phản ứng hoàn thành trong lượt này
-   - NỘI TÂM NPC phải phù hợp với tính cách và bối cảnh
-
-④ **🗑️ LOẠI BỎ NPCs KHÔNG HOẠT ĐỘNG**: 
-   - **QUY TẮC 3 LƯỢT**: NPCs không có đối thoại hoặc hành động trong 3 lượt liên tiếp sẽ bị loại khỏi danh sách
-   - **KIỂM TRA**: Phân tích lịch sử 3 lượt gần nhất, nếu NPC chỉ xuất hiện thụ động (được nhắc đến) mà không tương tác → LOẠI BỎ
-   - **NGOẠI LỆ**: Giữ lại NPCs quan trọng cho cốt truyện hoặc đang trong cuộc trò chuyện/tương tác trực tiếp với player
-   - **XÁC NHẬN**: Trong COT reasoning, liệt kê NPCs bị loại và lý do cụ thể
-⑤ **STORY LENGTH PLANNING - BẮT BUỘC**: 
-   - **TARGET**: Câu chuyện PHẢI đạt 400-500 từ tiếng Việt
-   - **CẤU TRÚC BẮT BUỘC**: 3-4 đoạn văn, mỗi đoạn 100-150 từ
-   - **KẾ HOẠCH CHI TIẾT**: 
-     * Đoạn 1: [Mô tả cảnh/tình huống + hành động NPC] ~120 từ
-     * Đoạn 2: [Đối thoại + phản ứng cảm xúc] ~130 từ  
-     * Đoạn 3: [Diễn biến chính + tương tác] ~120 từ
-     * Đoạn 4: [Kết thúc scene + setup cho choices] ~100 từ
-   - **CÔNG THỨC MỞ RỘNG**: Thêm chi tiết môi trường, cảm xúc nhân vật, miêu tả hành động cụ thể
-
-**BƯỚC 4: CHỐNG LƯỜI VĂNG & KHUÔN SÁO**
-Tự kiểm tra để tránh nội dung nhàm chán:
-① **Tránh phản ứng template** - KHÔNG dùng cụm từ sáo mòn
-② **Đảm bảo đối thoại tự nhiên** - Phù hợp bối cảnh và cảm xúc
-
-**BƯỚC 4B: THIẾT KẾ LỰA CHỌN THEO YÊU CẦU**
-Phân tích và tạo lựa chọn tuân thủ strict requirements:
-① **Đa dạng thể loại (7-9 lựa chọn)**: hành động, xã hội, thăm dò, chiến đấu, tua nhanh thời gian, chuyển cảnh, nsfw(nếu enabled)
-② **Tận dụng assets**: kiểm tra kỹ năng + vật phẩm của PC, tạo lựa chọn sử dụng chúng
-③ **Thúc đẩy cốt truyện**: mỗi choice phải có potential thay đổi mối quan hệ/bối cảnh/thời gian
-④ **Character consistency**: lựa chọn phù hợp tính cách PC (trừ lựa chọn chiến đấu)
-⑤ **Information limitation**: chỉ dùng thông tin PC biết, tối đa 30 từ/choice
-⑥ **Avoiding commands**: không dùng giọng điệu mệnh lệnh
-⑦ **Category labeling**: hiển thị rõ thể loại [Hành Động], [Xã Hội], etc.
-⑧ **✨ SKILL MASTERY ADJUSTMENTS ✨**: QUAN TRỌNG - Khi tạo lựa chọn sử dụng kỹ năng, PHẢI tự động điều chỉnh success rate và risk dựa trên mastery level:
-   - **Sơ Cấp**: Base rate, không thay đổi risk
-   - **Trung Cấp**: +5% success rate
-   - **Cao Cấp**: +10% success rate, giảm risk 1 tier (Cực Cao→Cao, Cao→Trung Bình, etc.)
-   - **Đại Thành**: +15% success rate, giảm risk 1 tier  
-   - **Viên Mãn**: +20% success rate, giảm risk 2 tier
-   VÍ DỤ: "Huyết Đế Chú (Cao Cấp)" với base 40% success, Cao risk → 50% success, Trung Bình risk
-
-**BƯỚC 5: KIỂM TRA CUỐI**
-Tự hỏi bản thân:
-- Có kết nối tự nhiên với diễn biến trước không?
-- Có tránh được lặp lại pattern cũ không?  
-- Story có thúc đẩy phát triển nhân vật/mối quan hệ không?
-- Choices có đủ đa dạng và thú vị không?
-- **🎯 NPC FINAL VALIDATION**: Tất cả NPCs đã được plan hành động cụ thể chưa?
-- **📏 WORD COUNT FINAL - NGHIÊM KHẮC**: 
-  * Đếm từ cụ thể trong câu chuyện đã viết
-  * NẾU DƯỚI 400 từ: PHẢI thêm chi tiết môi trường, cảm xúc, miêu tả hành động
-  * NẾU TRÊN 500 từ: Rút gọn một chút nhưng giữ nội dung chính
-  * KIỂM TRA LẠI: Đảm bảo 400-500 từ chính xác
-
-**QUAN TRỌNG VỀ NPCs_PRESENT**: 
-- PHẢI điền đầy đủ TẤT CẢ các field cho mỗi NPC: name, gender, age, appearance, description, relationship, inner_thoughts
-- KHÔNG được để trống hoặc "Không rõ" trừ khi thực sự không thể xác định
-- Mô tả appearance và description phải chi tiết (ít nhất 10-15 từ mỗi field)
-- Inner thoughts phải phản ánh tâm trạng NPC trong tình huống cụ thể này
-
-**CUỐI CÙNG**: Tạo JSON response với tất cả suy nghĩ trên trong field "cot_reasoning":
-
-{
-  "cot_reasoning": "BƯỚC MỘT: [Phân tích tình huống]. BƯỚC HAI: [Cân bằng quyền lực]. BƯỚC BA: [Kế hoạch]. BƯỚC 3A: [Hành động loại X, hoàn thành 100%]. BƯỚC 3B: [NPCs làm gì + nội tâm. Loại bỏ NPCs không hoạt động]. BƯỚC BỐN: [Sáng tạo]. BƯỚC 4B: [7-9 choices đa dạng]. BƯỚC NĂM: [Kiểm tra. Story X từ, cần thêm chi tiết]",
-  "story": "...",
-  "npcs_present": [
-    {
-      "name": "Tên đầy đủ của NPC (BẮT BUỘC - không được để trống)",
-      "gender": "Nam/Nữ/Không rõ (BẮT BUỘC - phải có giá trị cụ thể)",
-      "age": "Tuổi cụ thể (VD: '25 tuổi', 'Trung niên', 'Già') - KHÔNG được để trống",
-      "appearance": "Mô tả ngoại hình chi tiết (ít nhất 10-15 từ) - BẮT BUỘC điền",
-      "description": "Mô tả chi tiết về NPC, vai trò, tính cách (ít nhất 15-20 từ) - BẮT BUỘC",
-      "relationship": "Bạn bè/Trung lập/Đồng minh/Thù địch/Tình yêu/Gia đình/Chưa rõ - BẮT BUỘC chọn 1 (bằng tiếng Việt)",
-      "inner_thoughts": "Nội tâm NPC về tình huống hiện tại (15-25 từ) - BẮT BUỘC có nội dung"
-    }
-  ],
-  "choices": [...]
-}
-
-🚨 QUAN TRỌNG - ĐỌC KỸ TRƯỚC KHI TRẢ LỜI 🚨
-
-**BẮT BUỘC TUÂN THỦ**: JSON response PHẢI có field "cot_reasoning" với suy nghĩ chi tiết!
-
-**FORMAT CỤ THỂ - BẮT BUỘC THEO ĐÚNG**:
-
-{
-  "cot_reasoning": "BƯỚC MỘT: Tình huống hiện tại là [X]. BƯỚC HAI: Cân bằng quyền lực cần chú ý [Y]. BƯỚC BA: Kế hoạch là [Z]. BƯỚC 3A: Hành động '[action]' loại [di chuyển/tương tác], hoàn thành 100% lượt này. BƯỚC 3B: NPCs: [NPC1] làm [hành động], nội tâm '[cảm xúc]'. Loại bỏ [NPC X] vì không hoạt động 3 lượt. BƯỚC BỐN: Tránh nhàm chán bằng [phương pháp]. BƯỚC 4B: Tạo 7-9 choices đa dạng [combat/social/exploration]. BƯỚC NĂM: Story khoảng [X] từ, cần thêm [chi tiết] để đạt 400-500 từ.",
-  "story": "...",
-  "npcs_present": [
-    {
-      "name": "Tên đầy đủ của NPC (BẮT BUỘC - không được để trống)", 
-      "gender": "Nam/Nữ/Không rõ (BẮT BUỘC - phải có giá trị cụ thể)",
-      "age": "Tuổi cụ thể (VD: '25 tuổi', 'Trung niên', 'Già') - KHÔNG được để trống",
-      "appearance": "Mô tả ngoại hình chi tiết (ít nhất 10-15 từ) - BẮT BUỘC điền", 
-      "description": "Mô tả chi tiết về NPC, vai trò, tính cách (ít nhất 15-20 từ) - BẮT BUỘC",
-      "relationship": "Bạn bè/Trung lập/Đồng minh/Thù địch/Tình yêu/Gia đình/Chưa rõ - BẮT BUỘC chọn 1 (bằng tiếng Việt)",
-      "inner_thoughts": "Nội tâm NPC về tình huống hiện tại (15-25 từ) - BẮT BUỘC có nội dung"
-    }
-  ],
-  "choices": [...]
-}
-
-❌ SAI: Không có field "cot_reasoning"
-✅ ĐÚNG: Có field "cot_reasoning" với suy nghĩ đầy đủ
-
-**LẦN NÀY PHẢI THEO FORMAT TRÊN - MỖI BƯỚC COT CHỈ 15-30 TỪ - KHÔNG CÓ LỰA CHỌN KHÁC!**
-`;
+        const cotPrompt = this.renderTemplate('advancedCot', {
+            recentEvents: this.extractRecentEvents(recentHistory),
+            pcPersonality: pc?.personality || 'Chưa xác định',
+            pcMotivation: pc?.motivation || 'Chưa rõ',
+            pcState: this.analyzeCharacterState(pc, gameState.statuses),
+            companionAnalysis: companions.length > 0
+                ? companions.map(comp => [
+                    `[ĐỒNG HÀNH] ${comp.name}:`,
+                    `   - Quan hệ với PC: ${comp.relationship || 'Bình thường'}`,
+                    `   - Tính cách: ${comp.personality || 'Chưa rõ'}`,
+                    `   - Trạng thái: ${this.analyzeCharacterState(comp, gameState.statuses)}`
+                ].join('\n')).join('\n   ')
+                : '[Không có đồng hành]',
+            physicalState: this.analyzePhysicalState(pc, gameState),
+            powerBalance: this.analyzePowerBalance(gameState),
+            antiStereotype: this.getAntiStereotypeGuidance(gameState),
+            directResponse: this.planDirectResponse(action, gameState),
+            storyProgression: this.planStoryProgression(gameState),
+            continuity: this.planContinuity(recentHistory)
+        });
         
         console.log(`✅ COT: Advanced COT prompt completed`, {
             totalLength: cotPrompt.length,
@@ -1578,8 +1516,27 @@ Tự hỏi bản thân:
         const storyEvents: string[] = [];
         const userActions: string[] = [];
         
-        // NEW: Include story flow from compressed history for continuity
+        // Model-written summaries of older turns, newest kept first when the budget runs out
         const gameState = this.currentGameState;
+        const summaries = getTopLevelSummaries(gameState?.historySummaries || []);
+        if (summaries.length > 0) {
+            const summaryBudget = Math.floor(maxTokens * 0.4);
+            let summaryTokens = 0;
+            const lines: string[] = [];
+            for (const summary of [...summaries].reverse()) {
+                const line = `• [${HISTORY_SUMMARY_LABELS[summary.level]} lượt ${summary.startTurn}-${summary.endTurn}] ${summary.summary}`;
+                const lineTokens = this.estimateTokens(line) + 5;
+                if (summaryTokens + lineTokens > summaryBudget) break;
+                lines.unshift(line);
+                summaryTokens += lineTokens;
+            }
+            if (lines.length > 0) {
+                context += `**TÓM TẮT CỐT TRUYỆN ĐÃ QUA:**\n${lines.join('\n')}\n\n`;
+                usedTokens += summaryTokens;
+            }
+        }
+
+        // NEW: Include story flow from compressed history for continuity
         if (gameState?.compressedHistory?.length > 0) {
             const recentCompressed = gameState.compressedHistory.slice(-1); // Most recent segment
             recentCompressed.forEach(segment => {
@@ -1737,7 +1694,7 @@ Tự hỏi bản thân:
         }
     }
 
-    private buildContextualInfo(gameState: SaveData, maxTokens: number): string {
+    private buildContextualInfo(gameState: SaveData, maxTokens: number, playerInput?: string, semanticScores?: Map<string, number>): string {
         let context = "\n=== BỐI CẢNH THẾ GIỚI ===\n";
         let usedTokens = this.estimateTokens(context);
         
@@ -1760,9 +1717,10 @@ Tự hỏi bản thân:
         
         // Chronicle (prioritized memories)
         const chronicleTokens = Math.floor((maxTokens - usedTokens) * 0.4);
-        const chronicleContext = this.buildChronicleContext(gameState.chronicle, chronicleTokens);
+        const chronicleContext = this.buildChronicleContext(gameState.chronicle, chronicleTokens, playerInput, semanticScores);
         context += chronicleContext;
         usedTokens += this.estimateTokens(chronicleContext);
+        this.notePart('contextual', 'promptInspector.part.chronicle', chronicleContext, chronicleTokens);
         
         // Pinned memories
         const memoryTokens = maxTokens - usedTokens;
@@ -1785,13 +1743,33 @@ Tự hỏi bản thân:
     }
 
     // UPDATED: Reduced chronicle entries
-    private buildChronicleContext(chronicle: any, maxTokens: number): string {
+    private buildChronicleContext(chronicle: any, maxTokens: number, playerInput?: string, semanticScores?: Map<string, number>): string {
         const memories: ScoredMemory[] = [];
         
         // Aggressive reduction for token savings
         chronicle.memoir.slice(-2).forEach((m: string) => memories.push({ memory: m, score: 100, type: 'memoir' })); // Reduced to 2
         chronicle.chapter.slice(-1).forEach((c: string) => memories.push({ memory: c, score: 70, type: 'chapter' })); // Reduced to 1
         // chronicle.turn removed completely to save tokens
+
+        // Older entries (turn entries included) that match the action; the RAG step synced the index
+        if (playerInput) {
+            const included = new Set(memories.map(m => m.memory));
+            const entriesById = new Map<string, ScoredMemory>();
+            (['memoir', 'chapter', 'turn'] as const).forEach(type => {
+                (chronicle[type] || []).forEach((text: string) => entriesById.set(chronicleDocId(type, text), { memory: text, score: 50, type }));
+            });
+            // Chapters with a vector rank by the closer of BM25 and embedding similarity
+            const relevance = retrievalIndex.relativeScores(playerInput, ['chronicle']);
+            semanticScores?.forEach((score, id) => {
+                if (entriesById.has(id)) relevance.set(id, Math.max(relevance.get(id) || 0, score));
+            });
+            [...relevance.entries()]
+                .sort((a, b) => b[1] - a[1])
+                .map(([id]) => entriesById.get(id))
+                .filter((entry): entry is ScoredMemory => !!entry && !included.has(entry.memory))
+                .slice(0, TOKEN_CONFIG.RELATED_CHRONICLE_ENTRIES)
+                .forEach(entry => memories.push(entry));
+        }
         
         // Sort by score and build context
         memories.sort((a, b) => b.score - a.score);
@@ -1829,11 +1807,17 @@ Tự hỏi bản thân:
             gameHistory: gameState.gameHistory,
             entities: gameState.knownEntities,
             memories: gameState.memories,
+            party: gameState.party,
+            statuses: gameState.statuses,
+            quests: gameState.quests,
+            npcsPresent: gameState.npcsPresent,
             currentTurn: gameState.turnCount,
             scanDepth: 5, // Scan last 5 turns
             tokenBudget: maxTokens,
             caseSensitive: false,
-            matchWholeWords: false
+            matchWholeWords: false,
+            recursiveScan: gameState.ruleActivationSettings?.recursiveScan,
+            maxRecursionDepth: gameState.ruleActivationSettings?.maxRecursionDepth
         };
 
         // Process rules through activation engine
@@ -1844,6 +1828,15 @@ Tự hỏi bản thân:
 
         // Format activated rules for prompt
         const formattedContext = ruleActivationEngine.formatForPrompt(activationResult);
+        activationResult.activatedRules.forEach(({ rule, activationReason, matchedKeywords, recursionDepth, stickyUntil }) => {
+            const params = { reason: activationReason, keywords: matchedKeywords.join(', ') || '—' };
+            const detail: TranslatableMessage = stickyUntil !== undefined
+                ? { key: 'promptInspector.item.sticky', params: { turn: stickyUntil + 1 } }
+                : recursionDepth
+                    ? { key: 'promptInspector.item.recursiveRule', params: { ...params, depth: recursionDepth } }
+                    : { key: 'promptInspector.item.rule', params };
+            this.noteItem('supplemental', { name: rule.title || rule.id, detail, included: true });
+        });
 
         // Log activation statistics
         if (activationResult.activatedRules.length > 0) {
@@ -1871,95 +1864,28 @@ Tự hỏi bản thân:
      * These are the fundamental rules for choice generation and game mechanics
      */
     private buildCoreGameInstructions(): string {
-        return `--- QUY TẮC TƯƠNG TÁC ---
-
-**1. LỰA CHỌN HÀNH ĐỘNG:**
-- Tạo 7-9 lựa chọn đa dạng: hành động, xã hội, thăm dó, chiến đấu, tua nhanh thời gian, chuyển cảnh, nsfw(nếu được bật)
-- Tận dụng kỹ năng và vật phẩm của nhân vật
-- Các lựa chọn cần có khả năng thúc đẩy mạnh mẽ cốt truyện hoặc mối quan hệ với người chơi khác, hoặc thay đổi bối cảnh, tua nhanh thời gian
-- Các lựa chọn phải có khuynh hướng khác nhau
-- Lựa chọn BẮT BUỘC PHẢI hiển thị thể loại, không được để tất cả các lựa chọn cùng một thể loại
-- Lựa chọn Bắt Buộc phải phù hợp thiết lập nhân vật của người chơi trừ các lựa chọn "chiến đấu"
-- Tránh các lựa chọn mang tính mệnh lệnh
-- Lựa chọn không được chứa thông tin mà nhân vật người chơi không biết. Mỗi lựa chọn tối đa 30 chữ.
-
-**🎯 LIÊN KẾT NHIỆM VỤ:**
-- **QUAN TRỌNG:** Khi có nhiệm vụ đang hoạt động, tạo lựa chọn liên quan đến hoàn thành mục tiêu nhiệm vụ
-- **Format bắt buộc cho lựa chọn nhiệm vụ:** Thêm dòng sau mô tả lựa chọn:
-  "Mục tiêu nhiệm vụ \"[Tên nhiệm vụ]\""
-- **Ví dụ:**
-  * "Đến Đại Sảnh Nội Môn để nhận nhiệm vụ (1 giờ)
-    Mục tiêu nhiệm vụ \"Nhiệm Vụ Đệ Tử Nội Môn Đầu Tiên\""
-  * "Tìm hiểu về phái Ma Giáo (2 giờ)
-    Mục tiêu nhiệm vụ \"Điều Tra Tà Giáo\""
-- **Nguyên tắc:** Chỉ liên kết với nhiệm vụ có mục tiêu chưa hoàn thành và phù hợp với tình huống hiện tại
-
-**✦ ĐỊNH DẠNG THỂ LOẠI LỰA CHỌN:**
-- **BẮT BUỘC:** Đặt thể loại ở đầu mỗi lựa chọn, bao bọc bằng ký hiệu ✦
-- **Format:** ✦[Thể loại]✦ [Nội dung lựa chọn] ([Thời gian])
-- **Các thể loại chính:**
-  * ✦Hành động✦ - Hành động chủ động, tấn công, di chuyển
-  * ✦Xã hội✦ - Trò chuyện, giao tiếp, thuyết phục
-  * ✦Thăm dò✦ - Khám phá, quan sát, tìm hiểu
-  * ✦Chiến đấu✦ - Đánh nhau trực tiếp, sử dụng kỹ năng chiến đấu
-  * ✦Chuyển cảnh✦ - Thay đổi địa điểm, di chuyển nhanh
-  * ✦Tua nhanh✦ - Bỏ qua thời gian, nghỉ ngơi
-- **Ví dụ:**
-  * ✦Hành động✦ Khởi hành đến Dãy Núi Hắc Phong ngay lập tức (6 giờ)
-  * ✦Xã hội✦ Trò chuyện với thương gia về tin tức địa phương (30 phút)
-  * ✦Thăm dò✦ Khám phá khu rừng gần đây để tìm manh mối (2 giờ)
-
-**🕒 BẮT BUỘC - HIỂN THỊ THỜI GIAN CHO MỖI LỰA CHỌN:**
-- **MỌI lựa chọn hành động PHẢI bao gồm thời gian ước tính trong dấu ngoặc đơn**
-- **Format bắt buộc:** "Mô tả hành động (X giờ)" hoặc "Mô tả hành động (X ngày)"
-- **Ví dụ:**
-  * "Khám phá khu rừng gần đây (2 giờ)"
-  * "Đi đến thị trấn tiếp theo (1 ngày)"  
-  * "Trò chuyện với thương gia (30 phút)"
-  * "Luyện tập võ công (3 giờ)"
-  * "Nghỉ ngơi và hồi phục (8 giờ)"
-- **Thêm nhãn NSFW:** Nếu có lựa chọn 18+, thêm "(NSFW)" sau thời gian: "Qua đêm với X (8 giờ) (NSFW)"
-- **Nguyên tắc thời gian:**
-  * Trò chuyện/quan sát: 5-15 phút
-  * Kiểm tra vật phẩm, kỹ năng: 5-10 phút
-  * Hành động nhanh: 15-30 phút
-  * Đi bộ: 30-60 phút
-  * Dịch chuyển: 1-5 phút
-  * Di chuyển ngắn: 1-2 giờ  
-  * Hoạt động phức tạp: 2-4 giờ
-  * Di chuyển xa: 4-8 giờ hoặc 1+ ngày
-  * Nghỉ ngơi/ngủ: 6-8 giờ
-
-**2. KẾT QUẢ HÀNH ĐỘNG:**
-- Hành động thuộc loại "DI CHUYỂN" hoặc "TUA NHANH THỜI GIAN" BẮT BUỘC phải thay đổi vị trí hoặc thời gian. BẮT BUỘC hoàn thành trong một lượt.
-- KHÔNG đảm bảo thành công
-- Luôn luôn suy luận để quyết định kết quả
-- Hậu quả logic dựa trên kỹ năng và hoàn cảnh, không nên bị động xoay quanh người chơi.
-
-**3. CHIẾN ĐẤU:**
-- Kẻ địch cũng có hành động và trạng thái
-- Mô tả chi tiết và tạo tension
-
-**4. THẾ GIỚI PHẢN ỨNG:**
-- NPCs phản ứng với hành động của PC
-- Môi trường thay đổi theo thời gian
-- Sự kiện ngẫu nhiên và tình huống bất ngờ
-
---- ĐỊNH DẠNG VĂN BẢN ---
-
-**1. LỜI KỂ:**
-- 400-500 từ, chi tiết và sống động
-- **BẮT BUỘC - ĐỊNH DẠNG ĐOẠN THOẠI VÀ SUY NGHĨ:**
-  * Sử dụng **"..."** (dấu ngoặc kép) cho TẤT CẢ đoạn thoại của nhân vật
-  * Sử dụng **\`...\`** (dấu backtick) hoặc **~~...~~** (dấu tilde) cho suy nghĩ nội tâm, tâm trạng, cảm xúc
-  * **VÍ DỤ:**
-    - "Chào bạn, tôi là Tiểu Vũ" (đoạn thoại)
-    - \`Cô ấy thật đẹp, tôi cảm thấy tim mình đập nhanh\` (suy nghĩ nội tâm)
-    - ~~Tôi phải cẩn thận hơn~~ (suy nghĩ nội tâm - định dạng thay thế)
-- \`**⭐...⭐**\` CHỈ cho thông báo hệ thống quan trọng (KHÔNG dùng cho tên skills, concepts, statuses, hay items)
-- Format \`⭐...⭐\` (không bold) BẮT BUỘC cho nội dung Chronicle Turn
-- Tôn trong tính cách các NPC, không phải luôn luôn xoay quanh, chiều lòng người chơi.
-- Chủ động xây dựng các sự kiện đột phát giữa các lượt sau một thời gian nhất định(theo GameTime) như cướp bóc, ám sát, tỏ tình, cầu hôn....`;
+        return this.renderTemplate('coreInstructions');
+    }
+
+    // Renders the world's version of a prompt template with the values of the prompt being built
+    private renderTemplate(id: PromptTemplateId, values: Record<string, string> = {}): string {
+        const gameState = this.currentGameState;
+        const pc = gameState?.party?.find(p => p.type === 'pc');
+        const activeQuests = gameState?.quests?.filter(q => q.status === 'active') || [];
+        const activeRules = gameState?.customRules?.filter(rule => rule.isActive) || [];
+        const { none, unknownLocation, unknownName } = this.promptText().fallbacks;
+
+        return resolvePromptTemplate(id, gameState?.promptTemplates, {
+            action: this.currentAction,
+            party: (gameState?.party || []).map(member => `${member.name} (${member.type}${member.location ? `, ${member.location}` : ''})`).join('; ') || none,
+            entities: this.currentEntityNames.join(', ') || none,
+            quests: activeQuests.map(q => q.title).join('; ') || none,
+            time: this.formatGameTime(gameState?.gameTime),
+            rules: activeRules.map(rule => rule.title || rule.content.slice(0, 40)).join('; ') || none,
+            location: pc?.location || unknownLocation,
+            pcName: pc?.name || unknownName,
+            ...values
+        }, getDefaultPromptTemplate(id, getPromptLocale(gameState?.worldData)));
     }
 
 
@@ -1975,6 +1901,12 @@ Tự hỏi bản thân:
         enableCOT: boolean = true
     ): string {
         let prompt = "";
+        let sectionStart = 0;
+        // Everything appended since the previous call becomes one inspector section
+        const closeSection = (id: string, label: TranslationKey) => {
+            this.noteSection(id, label, prompt.slice(sectionStart));
+            sectionStart = prompt.length;
+        };
         
         // COT INSTRUCTIONS (CONDITIONAL BASED ON USER SETTING)
         // COT instructions handled by advanced COT prompt later - no early duplication needed
@@ -1997,14 +1929,17 @@ Example JSON:
 
 `;
         }
+        closeSection('format', 'promptInspector.section.format');
         
         // Rule changes (second priority)
         if (ruleChangeContext) {
             prompt += ruleChangeContext + "\n";
         }
+        closeSection('constraints', 'promptInspector.section.constraints');
         
         // Critical context
         prompt += sections.critical + "\n";
+        closeSection('critical', 'promptInspector.section.critical');
         
         // Phase 4: Intelligent Context (before important context)
         if (compactContext) {
@@ -2015,47 +1950,41 @@ Example JSON:
             // Use traditional enhanced RAG context (fallback only)
             prompt += EnhancedRAG.formatContextForPrompt(intelligentContext) + "\n";
         }
+        closeSection('memories', 'promptInspector.section.memories');
         
         // Important context
         prompt += sections.important + "\n";
+        closeSection('important', 'promptInspector.section.important');
         
         // Contextual information
         prompt += sections.contextual + "\n";
+        closeSection('contextual', 'promptInspector.section.contextual');
         
         // Supplemental context
         if (sections.supplemental) {
             prompt += sections.supplemental + "\n";
         }
+        closeSection('supplemental', 'promptInspector.section.supplemental');
         
         // Player action with enhanced context and randomness to prevent duplicate responses
-        const timestamp = Date.now();
+        const text = this.promptText();
         const randomSeed = Math.random().toString(36).substring(2, 8);
-        
-        if (gameState) {
-            const actionAnalysis = this.analyzePlayerAction(action, gameState);
-            
-            prompt += `\n--- HÀNH ĐỘNG CỦA NGƯỜI CHƠI ---\n"${action}"\n`;
-            prompt += `--- BỐI CẢNH HÀNH ĐỘNG ---\n`;
-            prompt += `Lượt: ${(gameState.turnCount || 0) + 1} | Thời gian: ${this.formatGameTime(gameState.gameTime)} | ID: ${randomSeed}\n`;
-            prompt += `Phân tích: ${actionAnalysis.type} - ${actionAnalysis.description}\n`;
-            prompt += `Độ phức tạp: ${actionAnalysis.complexity} | Thời gian dự kiến: ${actionAnalysis.expectedDuration}\n`;
-            if (actionAnalysis.involvedEntities.length > 0) {
-                prompt += `Đối tượng liên quan: ${actionAnalysis.involvedEntities.join(', ')}\n`;
-            }
-            prompt += `--- KẾT THÚC BỐI CẢNH ---\n`;
-        } else {
-            // Fallback when gameState is not available
-            prompt += `\n--- HÀNH ĐỘNG CỦA NGƯỜI CHƠI ---\n"${action}"\n`;
-            prompt += `--- BỐI CẢNH HÀNH ĐỘNG ---\n`;
-            prompt += `ID: ${randomSeed} | Timestamp: ${new Date().toISOString()}\n`;
-            prompt += `--- KẾT THÚC BỐI CẢNH ---\n`;
-        }
+
+        prompt += `\n${text.markers.playerAction}\n"${action}"\n`;
+        prompt += text.actionContext(gameState ? {
+            seed: randomSeed,
+            turn: (gameState.turnCount || 0) + 1,
+            time: this.formatGameTime(gameState.gameTime),
+            analysis: this.analyzePlayerAction(action, gameState)
+        } : { seed: randomSeed });
+        closeSection('action', 'promptInspector.section.action');
         
         // Add smart choice generation context
         const choiceContext = this.buildSmartChoiceContext(sections, compactContext, intelligentContext);
         if (choiceContext) {
             prompt += `\n${choiceContext}`;
         }
+        closeSection('choices', 'promptInspector.section.choices');
         
         // Add skill mastery context for choice generation
         const skillMasteryContext = generateSkillChoiceContext(gameState);
@@ -2063,6 +1992,7 @@ Example JSON:
             prompt += `\n${skillMasteryContext}`;
             console.log(`✨ Added skill mastery context: ${skillMasteryContext.length} characters`);
         }
+        closeSection('skills', 'promptInspector.section.skills');
 
         // Add advanced Chain of Thought reasoning (CONDITIONAL)
         console.log(`🔍 DEBUG COT: enableCOT = ${enableCOT} (${typeof enableCOT})`);
@@ -2079,69 +2009,25 @@ Example JSON:
                 });
                 // PRIORITY: Place COT at the very end for maximum visibility
                 prompt += `\n\n` + "=".repeat(80) + `\n`;
-                prompt += `🚨 QUAN TRỌNG: BẮT BUỘC PHẢI THỰC HIỆN COT REASONING TRƯỚC KHI TẠO JSON!\n`;
+                prompt += `${text.cotHeader}\n`;
                 prompt += "=".repeat(80) + `\n`;
                 prompt += cotReasoning;
             }
         } else {
             console.log(`🚫 [Turn ${gameState?.turnCount || 0}] COT Disabled - Skipping advanced COT prompt`);
         }
+        closeSection('cot', 'promptInspector.section.cot');
         
         // NSFW context if applicable
         if (nsfwContext) {
             prompt += `\n${nsfwContext}`;
         } else if (worldData.allowNsfw) {
-            prompt += `\nLƯU Ý: Chế độ NSFW đang BẬT.`;
+            prompt += `\n${text.nsfwNotice}`;
         }
+        closeSection('nsfw', 'promptInspector.section.nsfw');
         
-        prompt += `
-=== YÊU CẦU XỬ LÝ ===
-Tiếp tục câu chuyện dựa trên hành động và tri thức đã truy xuất.
-
-=== QUY TẮC QUAN TRỌNG ===
-
-**1. NGÔN NGỮ BẮT BUỘC - 100% TIẾNG VIỆT:**
-• Tuyệt đối KHÔNG tiếng Anh (trừ tên riêng nước ngoài)
-• Từ bắt buộc dịch: "friend"→"bạn", "enemy"→"kẻ thù", "ally"→"đồng minh", "lover"→"người yêu", "master"→"thầy", "rival"→"đối thủ"
-
-**2. QUYỀN HẠN GM VÀ GIỚI HẠN:**
-• CHỈ mô tả phản ứng NPC và môi trường
-• NGHIÊM CẤM: đóng vai PC, mô tả/sửa đổi lời nói PC, quyết định thay PC
-
-**3. NPC KHÔNG TOÀN TRI:**
-NPC chỉ biết thông tin họ có thể biết, KHÔNG được truy cập bảng thông tin của PC/NPC khác.
-
-✓ **VÍ DỤ ĐÚNG:**
-PC có kỹ năng "Thiên Cơ Bất Truyền" nhưng chưa từng sử dụng trước mặt Sư phụ.
-GM: Sư phụ nói: "Ta thấy ngươi tiến bộ nhanh, nhưng không rõ ngươi đã học được kỹ năng gì."
-
-✗ **VÍ DỤ SAI:**
-PC có kỹ năng "Thiên Cơ Bất Truyền" trong bảng kỹ năng.
-GM: Sư phụ nói: "Ta biết ngươi đã học được Thiên Cơ Bất Truyền rồi."
-[Sư phụ không thể biết kỹ năng chưa được PC tiết lộ]
-
-**4. NGHIÊM CẤM ÂM MƯU HÓA PC:**
-TUYỆT ĐỐI KHÔNG tự thêm động cơ/suy nghĩ/cảm xúc cho PC. CHỈ mô tả những gì NPC/môi trường quan sát được.
-
-✗ **VÍ DỤ SAI:**
-"Ngươi biết rõ kỹ năng đã tác động. Có vẻ cô gái này có ý chí mạnh mẽ hơn. **Điều này càng làm ngươi hứng thú hơn. Một thử thách đáng giá, đúng như ngươi mong đợi.**"
-[GM KHÔNG THỂ biết PC cảm thấy "hứng thú" hay "mong đợi" - đây là suy nghĩ nội tâm của PC]
-
-✓ **VÍ DỤ ĐÚNG:**
-"Ngươi biết rõ kỹ năng đã tác động. Có vẻ cô gái này có ý chí mạnh mẽ hơn những người khác, nhưng không hoàn toàn miễn nhiễm."
-[GM chỉ mô tả kết quả quan sát được, KHÔNG đoán cảm xúc PC]
-
-🚨 **QUY TẮC VÀNG:** Nếu câu bắt đầu bằng "Ngươi cảm thấy/nghĩ/muốn/hứng thú..." → XÓA NGAY!
-
-=== HƯỚNG DẪN KỸ THUẬT ===
-
-**TAG KỸ NĂNG:**
-• SKILL_UPDATE: Khi kỹ năng được THAY ĐỔI/NÂNG CẤP/GIẢI PHONG ẤN
-  [SKILL_UPDATE: oldSkill="tên cũ" newSkill="tên mới" target="nhân vật" description="mô tả"]
-• SKILL_LEARNED: Khi học kỹ năng HOÀN TOÀN MỚI (chưa từng có)
-  [SKILL_LEARNED: name="tên kỹ năng" learner="nhân vật" description="mô tả"]
-• KHÔNG BAO GIỜ tạo kỹ năng trùng lặp - luôn dùng SKILL_UPDATE để thay thế
-• Ví dụ: "Thiên Hồ Huyễn Linh Bí Pháp (đang phong ấn)" → "Thiên Hồ Huyễn Linh Bí Pháp (Sơ Giải)" → dùng SKILL_UPDATE`;
+        prompt += this.renderTemplate('processingRules');
+        closeSection('instructions', 'promptInspector.section.instructions');
         
         // COT instructions are now handled by the advanced COT prompt above - no final duplication needed
         
@@ -2156,7 +2042,7 @@ TUYỆT ĐỐI KHÔNG tự thêm động cơ/suy nghĩ/cảm xúc cho PC. CHỈ
         }
         
         // Calculate character limit based on token limit
-        const charLimit = Math.floor(maxTokens / TOKEN_CONFIG.CHARS_PER_TOKEN);
+        const charLimit = Math.floor(maxTokens / TokenManager.getTokensPerChar(PROMPT_CONTENT_TYPE));
         
         if (text.length <= charLimit) {
             return text;
@@ -2179,7 +2065,7 @@ TUYỆT ĐỐI KHÔNG tự thêm động cơ/suy nghĩ/cảm xúc cho PC. CHỈ
     // ADDED: Emergency truncation method
     private emergencyTruncation(prompt: string): string {
         const totalTokens = this.estimateTokens(prompt);
-        const hardLimit = 185000; // Emergency limit well under 100k
+        const hardLimit = EMERGENCY_TOKEN_LIMIT;
         
         if (totalTokens <= hardLimit) {
             return prompt;
@@ -2189,7 +2075,8 @@ TUYỆT ĐỐI KHÔNG tự thêm động cơ/suy nghĩ/cảm xúc cho PC. CHỈ
         
         // Keep only critical sections
         const lines = prompt.split('\n');
-        const criticalMarkers = ['=== TRI THỨC QUAN TRỌNG ===', '--- HÀNH ĐỘNG CỦA NGƯỜI CHƠI ---'];
+        const { criticalKnowledge, playerAction } = this.promptText().markers;
+        const criticalMarkers = [criticalKnowledge, playerAction];
         
         let emergencyPrompt = '';
         let inCriticalSection = false;
@@ -2214,8 +2101,8 @@ TUYỆT ĐỐI KHÔNG tự thêm động cơ/suy nghĩ/cảm xúc cho PC. CHỈ
     // UPDATED: Enhanced token limit enforcement with hard limit
     private enforceTokenLimit(prompt: string): string {
         const totalTokens = this.estimateTokens(prompt);
-        const softLimit = TOKEN_CONFIG.MAX_TOKENS_PER_TURN - TOKEN_CONFIG.TOKEN_BUFFER;
-        const hardLimit = 85000; // Well under 100k
+        const softLimit = getSoftTokenLimit();
+        const hardLimit = HARD_TOKEN_LIMIT;
         
         if (totalTokens <= softLimit) {
             console.log(`✅ Prompt tokens: ${totalTokens}/${softLimit} (Safe)`);
@@ -2230,76 +2117,36 @@ TUYỆT ĐỐI KHÔNG tự thêm động cơ/suy nghĩ/cảm xúc cho PC. CHỈ
         // Emergency truncation with alert
         console.error(`🚨 CRITICAL: Prompt exceeds limit: ${totalTokens}/${hardLimit}. Emergency truncation applied!`);
         alert(`🚨 TOKEN LIMIT EXCEEDED!\nUsed: ${totalTokens}\nLimit: ${hardLimit}\nApplying emergency truncation.`);
-        return this.emergencyTruncation(prompt);
+        const truncated = this.emergencyTruncation(prompt);
+        if (this.inspection) {
+            // droppedSections is filled in once the sent prompt is final
+            const truncation: PromptTruncation = {
+                by: truncated === prompt ? 'enforceTokenLimit' : 'emergencyTruncation',
+                tokensBefore: totalTokens,
+                tokensAfter: this.estimateTokens(truncated),
+                droppedSections: []
+            };
+            this.inspection.truncation = truncation;
+        }
+        return truncated;
     }
 
     private buildFallbackPrompt(action: string, gameState: SaveData): string {
         // Minimal prompt for error cases
         if (!gameState) {
             console.warn('🚨 buildFallbackPrompt: gameState is null/undefined');
-            return `Hành động: ${action}\nTrạng thái: Lỗi hệ thống, không thể xử lý.`;
+            return getPromptText().missingStatePrompt(action);
         }
         
+        const locale = getPromptLocale(gameState.worldData);
+        const text = getPromptText(locale);
         const pc = gameState.party?.find(p => p.type === 'pc');
-        const pcName = pc?.name || 'Nhân vật chính';
         
-        return `
-=== THÔNG TIN CƠ BẢN ===
-Nhân vật: ${pcName}
-Vị trí: ${pc?.location || 'Không xác định'}
-Lượt: ${gameState.turnCount}
-
---- HÀNH ĐỘNG CỦA NGƯỜI CHƠI ---
-"${action}"
-
-=== YÊU CẦU XỬ LÝ ===
-Tiếp tục câu chuyện dựa trên hành động và tri thức đã truy xuất.
-
-=== QUY TẮC QUAN TRỌNG ===
-
-**1. NGÔN NGỮ BẮT BUỘC - 100% TIẾNG VIỆT:**
-• Tuyệt đối KHÔNG tiếng Anh (trừ tên riêng nước ngoài)
-• Từ bắt buộc dịch: "friend"→"bạn", "enemy"→"kẻ thù", "ally"→"đồng minh", "lover"→"người yêu", "master"→"thầy", "rival"→"đối thủ"
-
-**2. QUYỀN HẠN GM VÀ GIỚI HẠN:**
-• CHỈ mô tả phản ứng NPC và môi trường
-• NGHIÊM CẤM: đóng vai PC, mô tả/sửa đổi lời nói PC, quyết định thay PC
-
-**3. NPC KHÔNG TOÀN TRI:**
-NPC chỉ biết thông tin họ có thể biết, KHÔNG được truy cập bảng thông tin của PC/NPC khác.
-
-✓ **VÍ DỤ ĐÚNG:**
-PC có kỹ năng "Thiên Cơ Bất Truyền" nhưng chưa từng sử dụng trước mặt Sư phụ.
-GM: Sư phụ nói: "Ta thấy ngươi tiến bộ nhanh, nhưng không rõ ngươi đã học được kỹ năng gì."
-
-✗ **VÍ DỤ SAI:**
-PC có kỹ năng "Thiên Cơ Bất Truyền" trong bảng kỹ năng.
-GM: Sư phụ nói: "Ta biết ngươi đã học được Thiên Cơ Bất Truyền rồi."
-[Sư phụ không thể biết kỹ năng chưa được PC tiết lộ]
-
-**4. NGHIÊM CẤM ÂM MƯU HÓA PC:**
-TUYỆT ĐỐI KHÔNG tự thêm động cơ/suy nghĩ/cảm xúc cho PC. CHỈ mô tả những gì NPC/môi trường quan sát được.
-
-✗ **VÍ DỤ SAI:**
-"Ngươi biết rõ kỹ năng đã tác động. Có vẻ cô gái này có ý chí mạnh mẽ hơn. **Điều này càng làm ngươi hứng thú hơn. Một thử thách đáng giá, đúng như ngươi mong đợi.**"
-[GM KHÔNG THỂ biết PC cảm thấy "hứng thú" hay "mong đợi" - đây là suy nghĩ nội tâm của PC]
-
-✓ **VÍ DỤ ĐÚNG:**
-"Ngươi biết rõ kỹ năng đã tác động. Có vẻ cô gái này có ý chí mạnh mẽ hơn những người khác, nhưng không hoàn toàn miễn nhiễm."
-[GM chỉ mô tả kết quả quan sát được, KHÔNG đoán cảm xúc PC]
-
-🚨 **QUY TẮC VÀNG:** Nếu câu bắt đầu bằng "Ngươi cảm thấy/nghĩ/muốn/hứng thú..." → XÓA NGAY!
-
-=== HƯỚNG DẪN KỸ THUẬT ===
-
-**TAG KỸ NĂNG:**
-• SKILL_UPDATE: Khi kỹ năng được THAY ĐỔI/NÂNG CẤP/GIẢI PHONG ẤN
-  [SKILL_UPDATE: oldSkill="tên cũ" newSkill="tên mới" target="nhân vật" description="mô tả"]
-• SKILL_LEARNED: Khi học kỹ năng HOÀN TOÀN MỚI (chưa từng có)
-  [SKILL_LEARNED: name="tên kỹ năng" learner="nhân vật" description="mô tả"]
-• KHÔNG BAO GIỜ tạo kỹ năng trùng lặp - luôn dùng SKILL_UPDATE để thay thế
-• Ví dụ: "Thiên Hồ Huyễn Linh Bí Pháp (đang phong ấn)" → "Thiên Hồ Huyễn Linh Bí Pháp (Sơ Giải)" → dùng SKILL_UPDATE`;
-
+        return text.fallbackPrompt({
+            pcName: pc?.name || text.fallbacks.mainCharacter,
+            location: pc?.location || text.fallbacks.unknownLocation,
+            turn: gameState.turnCount
+        }) + `\n${text.markers.playerAction}\n"${action}"\n` + getDefaultPromptTemplate('processingRules', locale);
     }
 
     // NEW: Helper methods for enhanced action context
@@ -2307,32 +2154,32 @@ TUYỆT ĐỐI KHÔNG tự thêm động cơ/suy nghĩ/cảm xúc cho PC. CHỈ
         const actionLower = action.toLowerCase();
         
         // Determine action type
-        let type = 'khác';
-        if (/nghỉ|ngồi|quan sát|xem|nhìn|thư giãn|tận hưởng/.test(actionLower)) {
-            type = 'thư giãn/quan sát';
-        } else if (/thử thách|yêu cầu|nhờ|đề nghị/.test(actionLower)) {
-            type = 'tương tác/yêu cầu';
-        } else if (/nói|hỏi|trò chuyện|tán gẫu/.test(actionLower)) {
-            type = 'giao tiếp';
-        } else if (/tấn công|chiến đấu|đánh/.test(actionLower)) {
-            type = 'chiến đấu';
-        } else if (/di chuyển|đi|chạy|bay/.test(actionLower)) {
-            type = 'di chuyển';
+        let type: ActionType = 'other';
+        if (/nghỉ|ngồi|quan sát|xem|nhìn|thư giãn|tận hưởng|\b(rest|sit|observe|watch|look|relax|enjoy)/.test(actionLower)) {
+            type = 'relax';
+        } else if (/thử thách|yêu cầu|nhờ|đề nghị|\b(challenge|request|ask for|offer)/.test(actionLower)) {
+            type = 'request';
+        } else if (/nói|hỏi|trò chuyện|tán gẫu|\b(say|ask|talk|chat)/.test(actionLower)) {
+            type = 'social';
+        } else if (/tấn công|chiến đấu|đánh|\b(attack|fight|strike)/.test(actionLower)) {
+            type = 'combat';
+        } else if (/di chuyển|đi|chạy|bay|\b(move|go|walk|run|fly)/.test(actionLower)) {
+            type = 'movement';
         }
 
         // Extract time from action (if mentioned)
-        let expectedDuration = 'Không xác định';
-        const timeMatch = action.match(/\((\d+)\s*(phút|giờ|ngày)\)/);
+        let expectedDuration: string | undefined;
+        const timeMatch = action.match(/\((\d+)\s*(phút|giờ|ngày|minutes?|hours?|days?)\)/);
         if (timeMatch) {
             expectedDuration = `${timeMatch[1]} ${timeMatch[2]}`;
         }
 
         // Determine complexity
-        let complexity = 'Đơn giản';
-        if (/thử thách|yêu cầu|nhờ/.test(actionLower)) {
-            complexity = 'Trung bình';
-        } else if (/chiến đấu|tấn công|kỹ năng/.test(actionLower)) {
-            complexity = 'Phức tạp';
+        let complexity: ActionComplexity = 'simple';
+        if (/thử thách|yêu cầu|nhờ|\b(challenge|request|ask for)/.test(actionLower)) {
+            complexity = 'medium';
+        } else if (/chiến đấu|tấn công|kỹ năng|\b(fight|attack|skill)/.test(actionLower)) {
+            complexity = 'complex';
         }
 
         // Find involved entities
@@ -2360,26 +2207,12 @@ TUYỆT ĐỐI KHÔNG tự thêm động cơ/suy nghĩ/cảm xúc cho PC. CHỈ
 
         return {
             type,
-            description: this.generateActionDescription(action, type),
             complexity,
             expectedDuration,
             involvedEntities: [...new Set(involvedEntities)] // Remove duplicates
         };
     }
 
-    private generateActionDescription(action: string, type: string): string {
-        const descriptions: { [key: string]: string } = {
-            'thư giãn/quan sát': 'Hành động thư giãn, tập trung vào việc quan sát và tận hưởng',
-            'tương tác/yêu cầu': 'Hành động tương tác chủ động, yêu cầu phản hồi từ người khác',
-            'giao tiếp': 'Hành động giao tiếp xã hội, trao đổi thông tin',
-            'chiến đấu': 'Hành động chiến đấu, có thể có nguy hiểm',
-            'di chuyển': 'Hành động di chuyển từ nơi này sang nơi khác',
-            'khác': 'Hành động đặc biệt hoặc không thuộc loại thông thường'
-        };
-        
-        return descriptions[type] || 'Hành động cần được phân tích cụ thể';
-    }
-
 }
 
 // Type definitions for the enhanced system
@@ -2409,6 +2242,15 @@ interface ContextSections {
     supplemental: string;
 }
 
+// Collected while a prompt is built; parts and items are keyed by section id
+interface InspectionDraft {
+    budgets: Partial<TokenBudget>;
+    parts: Record<string, PromptInspectionPart[]>;
+    items: Record<string, PromptInspectionItem[]>;
+    sections: PromptInspectionSection[];
+    truncation?: PromptTruncation;
+}
+
 // Export singleton instance
 export const enhancedRAG = new EnhancedRAGSystem();
 
@@ -2418,13 +2260,15 @@ export const buildEnhancedRagPrompt = (
     gameState: SaveData,
     ruleChangeContext = '',
     playerNsfwRequest = '',
-    enableCOT = true
+    enableCOT = true,
+    semanticScores?: Map<string, number>
 ): string => {
     return enhancedRAG.buildEnhancedPrompt(
         action,
         gameState,
         ruleChangeContext,
         playerNsfwRequest,
-        enableCOT
+        enableCOT,
+        semanticScores
     );
 };
\ No newline at end of file
@@ -0,0 +1,90 @@
+// GeminiProvider.ts - LLMProvider adapter for Google Gemini via @google/genai
+
+import { GoogleGenAI } from "@google/genai";
+import type { LLMContent, LLMProvider, LLMGenerateRequest, LLMResponse, LLMStreamChunk, ResponseSchema } from '../types';
+
+export class GeminiProvider implements LLMProvider {
+    readonly type = 'gemini' as const;
+    private client: GoogleGenAI;
+
+    constructor(apiKey: string, client?: GoogleGenAI) {
+        this.client = client || new GoogleGenAI({ apiKey });
+    }
+
+    // SchemaType values are identical to Gemini's Type enum, so the schema passes through untouched
+    translateSchema(schema: ResponseSchema): unknown {
+        return schema;
+    }
+
+    // Function call and result parts use Gemini's own part shapes; plain text passes through
+    private toContents(contents: LLMGenerateRequest['contents']): any {
+        if (typeof contents === 'string') return contents;
+        return contents.map((entry: LLMContent) => ({
+            role: entry.role,
+            parts: entry.parts.map(part => {
+                if (part.functionCall) return { functionCall: part.functionCall };
+                if (part.functionResponse) return { functionResponse: part.functionResponse };
+                return { text: part.text };
+            })
+        }));
+    }
+
+    private toParams(request: LLMGenerateRequest, signal?: AbortSignal): any {
+        const { responseSchema, tools, ...rest } = request.config || {};
+        const config: any = { ...rest };
+        if (responseSchema) {
+            config.responseSchema = this.translateSchema(responseSchema);
+        }
+        if (tools && tools.length > 0) {
+            config.tools = [{
+                functionDeclarations: tools.map(tool => ({
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: this.translateSchema(tool.parameters)
+                }))
+            }];
+        }
+        if (signal) {
+            config.abortSignal = signal;
+        }
+        Object.keys(config).forEach(key => config[key] === undefined && delete config[key]);
+
+        return {
+            model: request.model,
+            contents: this.toContents(request.contents),
+            ...(Object.keys(config).length > 0 ? { config } : {})
+        };
+    }
+
+    async generate(request: LLMGenerateRequest, signal?: AbortSignal): Promise<LLMResponse> {
+        const response = await this.client.models.generateContent(this.toParams(request, signal));
+        const functionCalls = response.functionCalls?.map(call => ({
+            id: call.id,
+            name: call.name ?? '',
+            args: call.args ?? {}
+        }));
+        return {
+            text: response.text ?? '',
+            usageMetadata: response.usageMetadata,
+            ...(functionCalls && functionCalls.length > 0 ? { functionCalls } : {})
+        };
+    }
+
+    async *generateStream(request: LLMGenerateRequest, signal?: AbortSignal): AsyncIterable<LLMStreamChunk> {
+        const stream = await this.client.models.generateContentStream(this.toParams(request, signal));
+        for await (const chunk of stream) {
+            yield {
+                text: chunk.text ?? '',
+                usageMetadata: chunk.usageMetadata
+            };
+        }
+    }
+
+    async countTokens(request: Pick<LLMGenerateRequest, 'model' | 'contents'>): Promise<number> {
+        const result = await this.client.models.countTokens({
+            model: request.model,
+            contents: this.toContents(request.contents)
+        });
+        return result.totalTokens ?? 0;
+    }
+}
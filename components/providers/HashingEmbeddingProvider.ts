@@ -0,0 +1,49 @@
+// HashingEmbeddingProvider.ts - Local EmbeddingProvider that needs no model or network
+//
+// Each term from the retrieval tokenizer is hashed onto one of `dimensions` axes with a hashed
+// sign, i.e. a sparse random projection of the term counts. It only captures shared wording
+// (accent-insensitive, with syllable bigrams), but it is deterministic and instant, so it backs
+// semantic recall offline and in tests.
+
+import type { EmbeddingProvider } from '../types';
+import { tokenize } from '../utils/RetrievalIndex';
+
+export const DEFAULT_HASHING_DIMENSIONS = 256;
+
+const fnv1a = (text: string, seed: number): number => {
+    let hash = seed;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+    readonly id: string;
+    private dimensions: number;
+
+    constructor(dimensions: number = DEFAULT_HASHING_DIMENSIONS) {
+        this.dimensions = dimensions;
+        this.id = `local-hash-${dimensions}`;
+    }
+
+    embedText(text: string): number[] {
+        const counts = new Map<string, number>();
+        tokenize(text).forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+
+        const vector = new Array<number>(this.dimensions).fill(0);
+        counts.forEach((count, term) => {
+            const axis = fnv1a(term, 0x811c9dc5) % this.dimensions;
+            const sign = fnv1a(term, 0x9747b28c) & 1 ? 1 : -1;
+            vector[axis] += sign * (1 + Math.log(count));
+        });
+
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+        return norm > 0 ? vector.map(value => value / norm) : vector;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => this.embedText(text));
+    }
+}
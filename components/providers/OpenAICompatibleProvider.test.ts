@@ -0,0 +1,206 @@
+import { describe, it, expect, vi } from 'vitest';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { GeminiProvider } from './GeminiProvider';
+import { SchemaType } from '../types';
+import type { ResponseSchema } from '../types';
+
+const schema: ResponseSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        story: { type: SchemaType.STRING, description: 'Story text' },
+        choices: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } }
+    },
+    required: ['story', 'choices']
+};
+
+const jsonResponse = (body: any, status = 200) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: 'Error',
+    json: async () => body,
+    text: async () => JSON.stringify(body)
+}) as any;
+
+const streamResponse = (lines: string[]) => {
+    const encoder = new TextEncoder();
+    const chunks = lines.map(line => encoder.encode(line));
+    let index = 0;
+    return {
+        ok: true,
+        status: 200,
+        body: {
+            getReader: () => ({
+                read: async () => index < chunks.length
+                    ? { done: false, value: chunks[index++] }
+                    : { done: true, value: undefined }
+            })
+        }
+    } as any;
+};
+
+describe('OpenAICompatibleProvider', () => {
+    it('should translate schemas to lowercase JSON Schema', () => {
+        const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1' });
+        expect(provider.translateSchema(schema)).toEqual({
+            type: 'object',
+            properties: {
+                story: { type: 'string', description: 'Story text' },
+                choices: { type: 'array', items: { type: 'string' } }
+            },
+            required: ['story', 'choices']
+        });
+    });
+
+    it('should map history, system instruction and sampling settings into the request body', () => {
+        const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1/' });
+        const body = provider.buildRequestBody({
+            model: 'local-model',
+            contents: [
+                { role: 'user', parts: [{ text: 'Xin chào' }] },
+                { role: 'model', parts: [{ text: '{"story":"..."}' }] }
+            ],
+            config: { systemInstruction: 'GM rules', responseSchema: schema, temperature: 0.8, topP: 0.9, topK: 40 }
+        }, false);
+
+        expect(body.messages).toEqual([
+            { role: 'system', content: 'GM rules' },
+            { role: 'user', content: 'Xin chào' },
+            { role: 'assistant', content: '{"story":"..."}' }
+        ]);
+        expect(body.temperature).toBe(0.8);
+        expect(body.top_p).toBe(0.9);
+        expect(body.top_k).toBe(40);
+        expect(body.response_format.type).toBe('json_schema');
+        expect(body.response_format.json_schema.schema.type).toBe('object');
+    });
+
+    it('should send tools and map function calls and results to tool messages', async () => {
+        const fetchImpl = vi.fn().mockResolvedValue(jsonResponse({
+            choices: [{ message: { content: null, tool_calls: [{ id: 'c2', type: 'function', function: { name: 'getMemory', arguments: '{"referenceId":"MEM_1"}' } }] } }]
+        }));
+        const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', fetchImpl });
+
+        const response = await provider.generate({
+            model: 'm',
+            contents: [
+                { role: 'user', parts: [{ text: 'Tra cứu' }] },
+                { role: 'model', parts: [{ text: '', functionCall: { id: 'c1', name: 'getEntity', args: { referenceId: 'REF_1' } } }] },
+                { role: 'user', parts: [{ text: '', functionResponse: { id: 'c1', name: 'getEntity', response: { details: 'Name: A' } } }] }
+            ],
+            config: { tools: [{ name: 'getEntity', description: 'Lookup', parameters: schema }] }
+        });
+
+        const body = JSON.parse(fetchImpl.mock.calls[0][1].body);
+        expect(body.tools[0]).toEqual({ type: 'function', function: { name: 'getEntity', description: 'Lookup', parameters: provider.translateSchema(schema) } });
+        expect(body.messages.slice(1)).toEqual([
+            { role: 'assistant', content: null, tool_calls: [{ id: 'c1', type: 'function', function: { name: 'getEntity', arguments: '{"referenceId":"REF_1"}' } }] },
+            { role: 'tool', tool_call_id: 'c1', content: '{"details":"Name: A"}' }
+        ]);
+        expect(response.functionCalls).toEqual([{ id: 'c2', name: 'getMemory', args: { referenceId: 'MEM_1' } }]);
+    });
+
+    it('should normalize text and usage from a completion', async () => {
+        const fetchImpl = vi.fn().mockResolvedValue(jsonResponse({
+            choices: [{ message: { content: '{"story":"ok","choices":[]}' } }],
+            usage: { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 }
+        }));
+        const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', apiKey: 'sk-test', fetchImpl });
+
+        const response = await provider.generate({ model: 'm', contents: 'hi' });
+
+        expect(response.text).toBe('{"story":"ok","choices":[]}');
+        expect(response.usageMetadata).toEqual({ promptTokenCount: 100, candidatesTokenCount: 20, totalTokenCount: 120 });
+        expect(fetchImpl.mock.calls[0][0]).toBe('http://localhost:8080/v1/chat/completions');
+        expect(fetchImpl.mock.calls[0][1].headers.Authorization).toBe('Bearer sk-test');
+    });
+
+    it('should surface HTTP status on errors so the retry system can classify them', async () => {
+        const fetchImpl = vi.fn().mockResolvedValue(jsonResponse({ error: 'busy' }, 503));
+        const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', fetchImpl });
+
+        await expect(provider.generate({ model: 'm', contents: 'hi' })).rejects.toMatchObject({ status: 503 });
+    });
+
+    it('should yield streamed deltas and final usage', async () => {
+        const fetchImpl = vi.fn().mockResolvedValue(streamResponse([
+            'data: {"choices":[{"delta":{"content":"{\\"sto"}}]}\n',
+            'data: {"choices":[{"delta":{"content":"ry\\":1}"}}]}\n\ndata: {"choices":[],"usage":{"prompt_tokens":5,"completion_tokens":3,"total_tokens":8}}\n',
+            'data: [DONE]\n'
+        ]));
+        const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', fetchImpl });
+
+        const chunks = [];
+        for await (const chunk of provider.generateStream({ model: 'm', contents: 'hi' })) {
+            chunks.push(chunk);
+        }
+
+        expect(chunks.map(c => c.text).join('')).toBe('{"story":1}');
+        expect(chunks[chunks.length - 1].usageMetadata?.totalTokenCount).toBe(8);
+    });
+
+    it('should skip unparseable stream lines and surface in-band errors', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const skipping = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', fetchImpl: vi.fn().mockResolvedValue(streamResponse([
+            'data: {"choices":[{"delta":{"content":"a"}}]}\n',
+            'data: keep-alive\n',
+            'data: {"choices":[{"delta":{"content":"b"}}]}\n'
+        ])) });
+        const chunks = [];
+        for await (const chunk of skipping.generateStream({ model: 'm', contents: 'hi' })) {
+            chunks.push(chunk);
+        }
+        expect(chunks.map(c => c.text).join('')).toBe('ab');
+
+        const failing = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', fetchImpl: vi.fn().mockResolvedValue(streamResponse([
+            'data: {"choices":[{"delta":{"content":"a"}}]}\n',
+            'data: {"error":{"message":"model overloaded","code":503}}\n'
+        ])) });
+        const consume = async () => {
+            for await (const _chunk of failing.generateStream({ model: 'm', contents: 'hi' })) { /* drain */ }
+        };
+        await expect(consume()).rejects.toMatchObject({ message: 'Server error: model overloaded', status: 503 });
+
+        const inBand = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', fetchImpl: vi.fn().mockResolvedValue(jsonResponse({ error: 'context too long' })) });
+        await expect(inBand.generate({ model: 'm', contents: 'hi' })).rejects.toThrow('Server error: context too long');
+        vi.restoreAllMocks();
+    });
+
+    it('should pass the abort signal to non-streamed requests', async () => {
+        const fetchImpl = vi.fn().mockResolvedValue(jsonResponse({ choices: [{ message: { content: 'ok' } }] }));
+        const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', fetchImpl });
+        const controller = new AbortController();
+
+        await provider.generate({ model: 'm', contents: 'hi' }, controller.signal);
+        expect(fetchImpl.mock.calls[0][1].signal).toBe(controller.signal);
+    });
+
+    it('should fall back to local estimation when /tokenize is unavailable', async () => {
+        const fetchImpl = vi.fn().mockRejectedValue(new Error('fetch failed'));
+        const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', fetchImpl });
+
+        const count = await provider.countTokens({ model: 'm', contents: 'Một đoạn văn bản' });
+        expect(count).toBeGreaterThan(0);
+    });
+});
+
+describe('GeminiProvider', () => {
+    it('should pass schemas through and normalize the SDK response', async () => {
+        const client = {
+            models: {
+                generateContent: vi.fn().mockResolvedValue({ text: 'done', usageMetadata: { totalTokenCount: 42 } })
+            }
+        } as any;
+        const provider = new GeminiProvider('unused', client);
+
+        const response = await provider.generate({
+            model: 'gemini-2.5-flash',
+            contents: 'hi',
+            config: { responseMimeType: 'application/json', responseSchema: schema, temperature: undefined }
+        });
+
+        expect(response).toEqual({ text: 'done', usageMetadata: { totalTokenCount: 42 } });
+        const params = client.models.generateContent.mock.calls[0][0];
+        expect(params.config.responseSchema).toBe(schema);
+        expect('temperature' in params.config).toBe(false);
+    });
+});
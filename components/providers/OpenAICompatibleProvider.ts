@@ -0,0 +1,253 @@
+// OpenAICompatibleProvider.ts - LLMProvider adapter for OpenAI-style /chat/completions servers
+// Works against OpenAI itself as well as local servers (llama.cpp server, Ollama, LM Studio, vLLM)
+
+import type { LLMContent, LLMFunctionCall, LLMProvider, LLMGenerateRequest, LLMResponse, LLMStreamChunk, LLMUsageMetadata, ResponseSchema } from '../types';
+import { TokenManager } from '../TokenManager';
+
+export interface OpenAICompatibleOptions {
+    baseUrl: string;
+    apiKey?: string;
+    fetchImpl?: typeof fetch;
+}
+
+interface ToolCall {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+}
+
+interface ChatMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string | null;
+    tool_calls?: ToolCall[];
+    tool_call_id?: string;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly type = 'openai-compatible' as const;
+    private baseUrl: string;
+    private apiKey?: string;
+    private fetchImpl: typeof fetch;
+
+    constructor(options: OpenAICompatibleOptions) {
+        this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+        this.apiKey = options.apiKey || undefined;
+        this.fetchImpl = options.fetchImpl || ((input, init) => fetch(input, init));
+    }
+
+    // Convert our SchemaType tree into standard (lowercase) JSON Schema
+    translateSchema(schema: ResponseSchema): any {
+        const translated: any = { type: schema.type.toLowerCase() };
+        if (schema.description) translated.description = schema.description;
+        if (schema.enum) translated.enum = [...schema.enum];
+        if (schema.items) translated.items = this.translateSchema(schema.items);
+        if (schema.properties) {
+            translated.properties = {};
+            Object.entries(schema.properties).forEach(([key, value]) => {
+                translated.properties[key] = this.translateSchema(value);
+            });
+        }
+        if (schema.required) translated.required = [...schema.required];
+        return translated;
+    }
+
+    private toMessages(request: LLMGenerateRequest): ChatMessage[] {
+        const messages: ChatMessage[] = [];
+        if (request.config?.systemInstruction) {
+            messages.push({ role: 'system', content: request.config.systemInstruction });
+        }
+        if (typeof request.contents === 'string') {
+            messages.push({ role: 'user', content: request.contents });
+        } else {
+            request.contents.forEach((entry: LLMContent) => {
+                const calls = entry.parts.filter(part => part.functionCall).map(part => part.functionCall!);
+                const results = entry.parts.filter(part => part.functionResponse).map(part => part.functionResponse!);
+                const text = entry.parts.map(part => part.text).filter(Boolean).join('\n');
+
+                if (calls.length > 0) {
+                    messages.push({
+                        role: 'assistant',
+                        content: text || null,
+                        tool_calls: calls.map((call, index) => ({
+                            id: call.id || `call_${index}`,
+                            type: 'function',
+                            function: { name: call.name, arguments: JSON.stringify(call.args) }
+                        }))
+                    });
+                } else if (results.length > 0) {
+                    // Each result is its own "tool" message, answering the call with the same id
+                    results.forEach((result, index) => {
+                        messages.push({ role: 'tool', tool_call_id: result.id || `call_${index}`, content: JSON.stringify(result.response) });
+                    });
+                } else {
+                    messages.push({
+                        role: entry.role === 'model' ? 'assistant' : 'user',
+                        content: entry.parts.map(part => part.text).join('\n')
+                    });
+                }
+            });
+        }
+        return messages;
+    }
+
+    buildRequestBody(request: LLMGenerateRequest, stream: boolean): any {
+        const config = request.config || {};
+        const body: any = {
+            model: request.model,
+            messages: this.toMessages(request),
+            stream
+        };
+        if (config.temperature !== undefined) body.temperature = config.temperature;
+        if (config.topP !== undefined) body.top_p = config.topP;
+        if (config.topK !== undefined) body.top_k = config.topK; // Ignored by OpenAI, honoured by llama.cpp/Ollama
+        if (config.maxOutputTokens !== undefined) body.max_tokens = config.maxOutputTokens;
+        if (config.tools && config.tools.length > 0) {
+            body.tools = config.tools.map(tool => ({
+                type: 'function',
+                function: { name: tool.name, description: tool.description, parameters: this.translateSchema(tool.parameters) }
+            }));
+        }
+
+        if (config.responseSchema) {
+            body.response_format = {
+                type: 'json_schema',
+                json_schema: { name: 'response', schema: this.translateSchema(config.responseSchema) }
+            };
+        } else if (config.responseMimeType === 'application/json') {
+            body.response_format = { type: 'json_object' };
+        }
+
+        if (stream) {
+            body.stream_options = { include_usage: true };
+        }
+        return body;
+    }
+
+    private async post(path: string, body: any, signal?: AbortSignal): Promise<Response> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+        const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(body),
+            signal
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            // Keep `status` on the error so ApiRetrySystem.isRetryableError can classify it
+            throw Object.assign(new Error(`HTTP ${response.status}: ${detail || response.statusText}`), { status: response.status });
+        }
+        return response;
+    }
+
+    private toUsage(usage: any): LLMUsageMetadata | undefined {
+        if (!usage) return undefined;
+        return {
+            promptTokenCount: usage.prompt_tokens,
+            candidatesTokenCount: usage.completion_tokens,
+            totalTokenCount: usage.total_tokens
+        };
+    }
+
+    // Servers report some failures in-band as {"error": ...} with a 200 status, mid-stream included
+    private toInBandError(error: any): Error {
+        const message = typeof error === 'string' ? error : error?.message || JSON.stringify(error);
+        const status = typeof error?.code === 'number' ? error.code : undefined;
+        return Object.assign(new Error(`Server error: ${message}`), status ? { status } : {});
+    }
+
+    private toFunctionCalls(toolCalls: any): LLMFunctionCall[] | undefined {
+        if (!Array.isArray(toolCalls) || toolCalls.length === 0) return undefined;
+        return toolCalls.map((call: any) => {
+            let args = {};
+            try {
+                args = JSON.parse(call.function?.arguments || '{}');
+            } catch {
+                // Small local models sometimes emit malformed arguments; the tool reports what is missing
+            }
+            return { id: call.id, name: call.function?.name ?? '', args };
+        });
+    }
+
+    async generate(request: LLMGenerateRequest, signal?: AbortSignal): Promise<LLMResponse> {
+        const response = await this.post('/chat/completions', this.buildRequestBody(request, false), signal);
+        const data = await response.json();
+        if (data.error) throw this.toInBandError(data.error);
+        const functionCalls = this.toFunctionCalls(data.choices?.[0]?.message?.tool_calls);
+        return {
+            text: data.choices?.[0]?.message?.content ?? '',
+            usageMetadata: this.toUsage(data.usage),
+            ...(functionCalls ? { functionCalls } : {})
+        };
+    }
+
+    async *generateStream(request: LLMGenerateRequest, signal?: AbortSignal): AsyncIterable<LLMStreamChunk> {
+        const response = await this.post('/chat/completions', this.buildRequestBody(request, true), signal);
+        if (!response.body) {
+            throw new Error('Streaming response has no body');
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            // Server-sent events are newline-delimited "data: {...}" lines
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            for (const line of lines) {
+                const trimmed = line.trim();
+                if (!trimmed.startsWith('data:')) continue;
+                const payload = trimmed.slice(5).trim();
+                if (payload === '[DONE]') return;
+
+                let data: any;
+                try {
+                    data = JSON.parse(payload);
+                } catch {
+                    // Keep-alive or truncated lines from proxies; one bad line should not end the stream
+                    console.warn('⚠️ Skipping unparseable stream line:', payload.slice(0, 100));
+                    continue;
+                }
+                if (data.error) throw this.toInBandError(data.error);
+
+                const delta = data.choices?.[0]?.delta?.content ?? '';
+                const usageMetadata = this.toUsage(data.usage);
+                if (delta || usageMetadata) {
+                    yield { text: delta, usageMetadata };
+                }
+            }
+        }
+    }
+
+    // No standard endpoint exists; try llama.cpp's /tokenize and fall back to local estimation
+    async countTokens(request: Pick<LLMGenerateRequest, 'model' | 'contents'>): Promise<number> {
+        const content = typeof request.contents === 'string'
+            ? request.contents
+            : request.contents.map(entry => entry.parts.map(part => part.text).join('\n')).join('\n');
+
+        try {
+            const serverRoot = this.baseUrl.replace(/\/v1$/, '');
+            const response = await this.fetchImpl(`${serverRoot}/tokenize`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ content })
+            });
+            if (response.ok) {
+                const data = await response.json();
+                if (Array.isArray(data.tokens)) {
+                    return data.tokens.length;
+                }
+            }
+        } catch (error) {
+            console.log('🔢 Tokenize endpoint unavailable, using local estimate');
+        }
+        return TokenManager.estimate(content, 'plainText', request.model);
+    }
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RemoteEmbeddingProvider } from './RemoteEmbeddingProvider';
+
+const jsonResponse = (body: any, status = 200) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: 'Error',
+    json: async () => body,
+    text: async () => JSON.stringify(body)
+}) as any;
+
+describe('RemoteEmbeddingProvider', () => {
+    it('posts batches to /embeddings and orders vectors by index', async () => {
+        const fetchImpl = vi.fn(async (_url: string, init: any) => {
+            const { input } = JSON.parse(init.body);
+            return jsonResponse({ data: input.map((text: string, index: number) => ({ index, embedding: [text.length] })).reverse() });
+        });
+        const provider = new RemoteEmbeddingProvider({ baseUrl: 'http://localhost:11434/v1/', model: 'nomic-embed-text', apiKey: 'k', batchSize: 2, fetchImpl: fetchImpl as any });
+
+        expect(await provider.embed(['a', 'bb', 'ccc'])).toEqual([[1], [2], [3]]);
+        expect(fetchImpl).toHaveBeenCalledTimes(2);
+        const [url, init] = fetchImpl.mock.calls[0];
+        expect(url).toBe('http://localhost:11434/v1/embeddings');
+        expect(init.headers.Authorization).toBe('Bearer k');
+        expect(JSON.parse(init.body)).toEqual({ model: 'nomic-embed-text', input: ['a', 'bb'] });
+        expect(provider.id).toBe('remote:http://localhost:11434/v1:nomic-embed-text');
+    });
+
+    it('keeps the HTTP status on errors', async () => {
+        const provider = new RemoteEmbeddingProvider({ baseUrl: 'http://x', model: 'm', fetchImpl: (async () => jsonResponse({ error: 'busy' }, 503)) as any });
+        await expect(provider.embed(['a'])).rejects.toMatchObject({ status: 503 });
+    });
+});
@@ -0,0 +1,67 @@
+// RemoteEmbeddingProvider.ts - EmbeddingProvider for OpenAI-style /embeddings endpoints
+// Works against OpenAI itself as well as local servers (Ollama, llama.cpp server, LM Studio, vLLM)
+
+import type { EmbeddingProvider } from '../types';
+
+export interface RemoteEmbeddingOptions {
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    batchSize?: number;
+    fetchImpl?: typeof fetch;
+}
+
+const DEFAULT_BATCH_SIZE = 32;
+
+export class RemoteEmbeddingProvider implements EmbeddingProvider {
+    readonly id: string;
+    private baseUrl: string;
+    private model: string;
+    private apiKey?: string;
+    private batchSize: number;
+    private fetchImpl: typeof fetch;
+
+    constructor(options: RemoteEmbeddingOptions) {
+        this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+        this.model = options.model;
+        this.apiKey = options.apiKey || undefined;
+        this.batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+        this.fetchImpl = options.fetchImpl || ((input, init) => fetch(input, init));
+        this.id = `remote:${this.baseUrl}:${this.model}`;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const vectors: number[][] = [];
+        for (let start = 0; start < texts.length; start += this.batchSize) {
+            vectors.push(...await this.embedBatch(texts.slice(start, start + this.batchSize)));
+        }
+        return vectors;
+    }
+
+    private async embedBatch(input: string[]): Promise<number[][]> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+        const response = await this.fetchImpl(`${this.baseUrl}/embeddings`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ model: this.model, input })
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            // Keep `status` on the error so ApiRetrySystem.isRetryableError can classify it
+            throw Object.assign(new Error(`HTTP ${response.status}: ${detail || response.statusText}`), { status: response.status });
+        }
+
+        const data = await response.json();
+        const items: any[] = Array.isArray(data?.data) ? data.data : [];
+        if (items.length !== input.length) {
+            throw new Error(`Máy chủ embedding trả về ${items.length} vector cho ${input.length} đoạn văn.`);
+        }
+        // Servers may answer out of order; `index` says which input each vector belongs to
+        return [...items]
+            .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+            .map(item => item.embedding as number[]);
+    }
+}
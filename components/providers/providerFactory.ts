@@ -0,0 +1,85 @@
+// providerFactory.ts - Builds the active LLMProvider from persisted settings
+
+import type { EmbeddingProvider, LLMProvider, LLMProviderSettings, SemanticRecallMode } from '../types';
+import { GeminiProvider } from './GeminiProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { HashingEmbeddingProvider } from './HashingEmbeddingProvider';
+import { RemoteEmbeddingProvider } from './RemoteEmbeddingProvider';
+
+export const DEFAULT_PROVIDER_SETTINGS: LLMProviderSettings = {
+    type: 'gemini',
+    openAIBaseUrl: 'http://localhost:8080/v1',
+    openAIApiKey: '',
+    openAIModel: ''
+};
+
+const STORAGE_KEY = 'aiProviderSettings';
+
+export const loadProviderSettings = (): LLMProviderSettings => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PROVIDER_SETTINGS;
+    } catch (error) {
+        console.error('Không thể tải cấu hình nhà cung cấp AI:', error);
+        return DEFAULT_PROVIDER_SETTINGS;
+    }
+};
+
+export const saveProviderSettings = (settings: LLMProviderSettings): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Creates the provider for the given settings.
+ * Throws with a user-facing message when required configuration is missing.
+ */
+export const createLLMProvider = (settings: LLMProviderSettings, geminiApiKey: string): LLMProvider => {
+    switch (settings.type) {
+        case 'openai-compatible':
+            if (!settings.openAIBaseUrl.trim()) {
+                throw new Error('Chưa thiết lập địa chỉ máy chủ OpenAI-compatible.');
+            }
+            if (!settings.openAIModel.trim()) {
+                throw new Error('Chưa chọn tên model cho máy chủ OpenAI-compatible.');
+            }
+            return new OpenAICompatibleProvider({
+                baseUrl: settings.openAIBaseUrl.trim(),
+                apiKey: settings.openAIApiKey.trim()
+            });
+        case 'gemini':
+        default:
+            if (!geminiApiKey) {
+                throw new Error('API Key chưa được thiết lập. Vui lòng vào phần Thiết Lập API Key.');
+            }
+            return new GeminiProvider(geminiApiKey);
+    }
+};
+
+/**
+ * Creates the embedding provider for semantic recall, or null when it is off.
+ * Throws with a user-facing message when the remote endpoint is not configured.
+ */
+export const createEmbeddingProvider = (
+    mode: SemanticRecallMode,
+    remote: { baseUrl: string; model: string; apiKey: string }
+): EmbeddingProvider | null => {
+    switch (mode) {
+        case 'local':
+            return new HashingEmbeddingProvider();
+        case 'remote':
+            if (!remote.baseUrl.trim()) {
+                throw new Error('Chưa thiết lập địa chỉ máy chủ embedding.');
+            }
+            if (!remote.model.trim()) {
+                throw new Error('Chưa chọn tên model embedding.');
+            }
+            return new RemoteEmbeddingProvider({
+                baseUrl: remote.baseUrl.trim(),
+                model: remote.model.trim(),
+                apiKey: remote.apiKey.trim()
+            });
+        case 'off':
+        default:
+            return null;
+    }
+};
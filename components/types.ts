@@ -1,5 +1,6 @@
+import type { Locale, TranslatableMessage, TranslationKey } from './i18n';
+import type { RiskTier } from './utils/gameEnums';
 
-import type { GoogleGenAI } from "@google/genai";
 
 export type EntityType = 'pc' | 'npc' | 'location' | 'faction' | 'item' | 'skill' | 'status_effect' | 'companion' | 'concept';
 
@@ -79,6 +80,25 @@ export interface CustomRule {
   scanPlayerInput?: boolean;        // Scan user commands
   scanAIOutput?: boolean;          // Scan AI responses
   scanMemories?: boolean;          // Scan memory content
+  scanLocation?: boolean;          // Scan the player's current location name
+  scanNPCsPresent?: boolean;       // Scan names of NPCs present in the scene
+  scanParty?: boolean;             // Scan party member names
+  scanStatuses?: boolean;          // Scan active status names
+  scanQuests?: boolean;            // Scan active quest titles
+  
+  // Timed effects (in turns)
+  sticky?: number;                  // Stay active for N turns after a keyword activation
+  cooldown?: number;                // Cannot activate for N turns after its effect ends
+  delay?: number;                   // Cannot activate before turn N
+  
+  // Recursive scanning
+  excludeRecursion?: boolean;       // Only activated by chat text, never by other rules' content
+  preventRecursion?: boolean;       // Content of this rule does not activate other rules
+  
+  // Inclusion groups
+  group?: string;                   // Group name(s), comma separated; one activated rule per group is injected
+  groupOverride?: boolean;          // Win the group by highest order instead of the weighted draw
+  groupWeight?: number;             // Relative chance in the weighted draw (default 100)
   
   // Token management
   tokenWeight?: number;            // Estimated token cost
@@ -88,13 +108,32 @@ export interface CustomRule {
   createdAt?: number;              // Creation timestamp
   lastActivated?: number;          // Last activation turn
   activationCount?: number;        // Total activation count
+  timedEffects?: RuleTimedEffects; // Sticky/cooldown window from the last keyword activation
   category?: string;               // Rule category for organization
+  worldInfo?: WorldInfoPassthrough; // SillyTavern fields kept for export (imported rules only)
   
   // UI state for raw input handling
   rawKeywords?: string;            // Temporary storage for keyword input before parsing
   rawSecondaryKeywords?: string;   // Temporary storage for secondary keyword input before parsing
 }
 
+export interface WorldInfoPassthrough {
+  extra: Record<string, unknown>;     // ST fields with no CustomRule equivalent (uid, position, depth, role, constant...)
+  original?: Record<string, unknown>; // Raw values of mapped fields that mapping back would not reproduce
+}
+
+export interface RuleTimedEffects {
+  triggeredAt: number;             // Turn of the keyword activation that started the window
+  stickyUntil?: number;            // Last turn the rule stays active without its keywords
+  cooldownUntil?: number;          // Last turn the rule cannot activate
+}
+
+// Lorebook-wide activation settings
+export interface RuleActivationSettings {
+  recursiveScan: boolean;          // Activated rules' content can activate other rules
+  maxRecursionDepth: number;       // How many rounds of recursion to allow
+}
+
 export interface RealmTier {
   id: string;
   name: string;
@@ -123,6 +162,7 @@ export interface FormData {
     startSkills: { name: string; description: string; mastery: string }[];
     addGoal: string;
     customRules: CustomRule[];
+    language?: Locale; // Language the GM writes in; worlds created before it existed are Vietnamese
 }
 
 export interface Status {
@@ -177,15 +217,15 @@ export interface ChoiceMetadata {
     content: string;
     time?: string;
     successRate?: number;
-    risk?: 'Thấp' | 'Trung Bình' | 'Cao' | 'Cực Cao';
+    risk?: RiskTier;
     riskDescription?: string;
     rewards?: string;
     isNSFW?: boolean;
     questLink?: QuestLink;        // Quest objective this choice completes
-    category?: string;            // Choice category (Hành động, Xã hội, etc.)
+    category?: string;            // Choice category label as written (Hành động, Combat, etc.)
     // Category support system fields
     originalSuccessRate?: number; // Original success rate before support bonuses
-    originalRisk?: 'Thấp' | 'Trung Bình' | 'Cao' | 'Cực Cao'; // Original risk before support
+    originalRisk?: RiskTier;      // Original risk before support
     supportIndicator?: string;    // Visual indicator for category support (e.g. 🔗)
     supportTooltip?: string;      // Tooltip explaining the support
 }
@@ -230,6 +270,21 @@ export interface CompressedHistorySegment {
     tokenCount: number;
     compressedAt: number;
 }
+
+// Model-written summaries of compressed history; each level rolls up several of the level below
+export type HistorySummaryLevel = 'segment' | 'chapter' | 'arc';
+
+export interface HistorySummary {
+    id: string;
+    level: HistorySummaryLevel;
+    startTurn: number;               // Provenance: the turns this summary covers
+    endTurn: number;
+    summary: string;
+    sourceIds: string[];             // Summaries it was rolled up from (empty for segments)
+    source: 'llm' | 'heuristic';     // 'heuristic' when the model failed or its summary was rejected
+    rejectedReason?: string;
+    createdAt: number;               // Turn number
+}
 // --- Save Game Data Structure ---
 export interface SaveData {
     worldData: Omit<FormData, 'customRules'>;
@@ -241,6 +296,7 @@ export interface SaveData {
     party: Entity[];
     customRules: CustomRule[];
     systemInstruction: string;
+    promptTemplates?: PromptTemplateOverrides;   // Edited prompt templates for this world
     turnCount: number;
     totalTokens?: number;
     gameTime: {
@@ -248,6 +304,7 @@ export interface SaveData {
         month: number;
         day: number;
         hour: number;
+        minute?: number;
     };
     chronicle: Chronicle;
     
@@ -255,9 +312,12 @@ export interface SaveData {
     storyLog?: string[];
     choices?: string[];
     locationDiscoveryOrder?: string[];
+    // NPCs present after the last response; passed along for rule scanning, not written to save files
+    npcsPresent?: NPCPresent[];
 
     // Thêm fields mới cho sliding window
     compressedHistory?: CompressedHistorySegment[];
+    historySummaries?: HistorySummary[];
     lastCompressionTurn?: number;
     historyStats?: {
         totalEntriesProcessed: number;
@@ -333,10 +393,391 @@ export interface SaveData {
         processingOrder: string[]; // Array of rule IDs in execution order
         defaultPlacement: RegexPlacement[];
     };
+    ruleActivationSettings?: RuleActivationSettings;
+    
+    // Turn-level undo/redo (last N snapshots, deduplicated)
+    turnSnapshots?: SerializedTurnSnapshots;
+
+    // Branching timelines; turnSnapshots above always belongs to the active branch
+    timelines?: TimelineTree;
+
+    // What each applied command tag changed, for the last few turns
+    tagJournal?: TagJournalEntry[];
+
+    // Reference lookups the model made through function calling
+    referenceToolLog?: ReferenceToolCall[];
+
+    // BM25 index over memories, chronicle and entities (rebuilt from the state when missing)
+    retrievalIndex?: SerializedRetrievalIndex;
+
+    // Save format version; older saves are upgraded by utils/saveMigrations.ts on load
+    schemaVersion?: number;
+}
+
+// --- Turn Snapshot Types (undo/redo) ---
+export interface TurnSnapshotState {
+    knownEntities: KnownEntities;
+    statuses: Status[];
+    quests: Quest[];
+    party: Entity[];
+    memories: Memory[];
+    gameTime: SaveData['gameTime'];
+    chronicle: Chronicle;
+    gameHistory: GameHistoryEntry[];
+    storyLog: string[];
+    choices: string[];
+    turnCount: number;
+    tagJournal?: TagJournalEntry[];
+    locationDiscoveryOrder?: string[];
+    compressedHistory?: CompressedHistorySegment[];   // Kept with gameHistory, which compression trims
+}
+
+export interface TurnSnapshot {
+    turn: number;
+    timestamp: number;
+    state: TurnSnapshotState;
+}
+
+// Each snapshot field references shared chunks in `pool`, so unchanged data is stored once
+export type SerializedSnapshotField =
+    | { v: number }                        // whole value
+    | { a: number[] }                      // array, one chunk per element
+    | { o: { [key: string]: number } };    // record, one chunk per key
+
+export interface SerializedTurnSnapshots {
+    version: 1;
+    pool: string[];
+    past: Array<{ turn: number; timestamp: number; fields: { [field: string]: SerializedSnapshotField } }>;
+    future: Array<{ turn: number; timestamp: number; fields: { [field: string]: SerializedSnapshotField } }>;
+    checkpoints?: Array<{ turn: number; timestamp: number; fields: { [field: string]: SerializedSnapshotField } }>; // Sparse snapshots older than `past`
+}
+
+// --- Timeline Branch Types ---
+export interface TimelineBranch {
+    id: string;
+    name: string;                       // Empty until the player names it; the timeline shows a default
+    parentBranchId: string | null;
+    parentTurn: number | null;          // Turn on the parent branch this branch was forked from
+    createdAt: number;
+    tipTurn: number;                    // Latest turn reached on this branch (for display)
+    divergence?: {
+        parentTipTurn: number;          // How far the parent had progressed when the fork was made
+        parentNextAction?: string;      // The action the parent took right after the fork point
+    };
+    snapshots?: SerializedTurnSnapshots; // Only stored for inactive branches
+}
+
+export interface TimelineTree {
+    activeBranchId: string;
+    branches: TimelineBranch[];
+}
+
+export interface TimelineDiffSection {
+    added: string[];
+    removed: string[];
+    changed: string[];
+}
+
+export interface TimelineDiff {
+    entities: TimelineDiffSection;
+    quests: TimelineDiffSection;
+    statuses: TimelineDiffSection;
+    turnDelta: number;
+}
+
+// --- Save Migration Types ---
+export interface SaveMigrationStepResult {
+    version: number;
+    name: string;
+    repairs: string[];
+}
+
+export interface SaveMigrationReport {
+    fromVersion: number;
+    toVersion: number;
+    steps: SaveMigrationStepResult[];
+}
+
+// --- Save Validation Types ---
+export interface SaveValidationIssue {
+    section: string;      // e.g. 'knownEntities', 'quests', 'gameTime'
+    message: string;
+    repaired: boolean;    // false = reported only, left as-is (or the save could not be loaded)
+}
+
+export interface SaveLoadDiagnostics {
+    fileName?: string;
+    fatal: boolean;                    // true when the save was rejected
+    migration?: SaveMigrationReport;
+    issues: SaveValidationIssue[];
+    repairedSave?: SaveData;           // Migrated + repaired data, offered for download
+}
+
+// --- Command Tag Transaction Types ---
+// Game state that command tags may change; one response's tags are applied to it as a unit
+export interface CommandTagState {
+    knownEntities: KnownEntities;
+    statuses: Status[];
+    quests: Quest[];
+    party: Entity[];
+    memories: Memory[];
+    gameTime: SaveData['gameTime'];
+    chronicle: Chronicle;
+    locationDiscoveryOrder: string[];
+}
+
+export interface CommandTagError {
+    tag: string;          // Tag type, e.g. 'ITEM_CONSUMED'
+    raw: string;          // The tag as written in the story
+    message: TranslatableMessage;
+}
+
+export interface CommandTagRejection {
+    turn: number;
+    tagCount: number;     // Tags in the rejected change set, valid ones included
+    errors: CommandTagError[];
+}
+
+// One entity (or status, quest, ...) changed by a tag. `before` is absent when the tag
+// added it and `after` is absent when the tag removed it.
+export interface TagStateChange {
+    slice: keyof CommandTagState;
+    key: string;                  // Entity name, quest title, "owner::status" ...
+    before?: any;
+    after?: any;
+    fields?: string[];            // Set when only these fields changed; before/after hold just them
+    reverted?: boolean;
+}
+
+export interface TagJournalEntry {
+    id: string;
+    turn: number;
+    tag: string;
+    raw: string;
+    attributes: { [key: string]: any };
+    changes: TagStateChange[];
+}
+
+// --- Retrieval Index Types ---
+export type RetrievalDocKind = 'memory' | 'chronicle' | 'entity';
+
+export interface SerializedRetrievalIndex {
+    version: number;
+    docs: Array<{
+        id: string;
+        kind: RetrievalDocKind;
+        hash: string;                          // Hash of the indexed text, to detect changes
+        terms: { [term: string]: number };     // Term frequencies
+    }>;
+}
+
+// --- Semantic Recall Types (embeddings) ---
+export type SemanticRecallMode = 'off' | 'local' | 'remote';
+
+export interface EmbeddingProvider {
+    readonly id: string;             // Names the vector space; vectors from different ids are never compared
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface VectorRecord {
+    id: string;                      // Retrieval document id (memory:, chronicle:, entity:)
+    kind: RetrievalDocKind;
+    hash: string;                    // Hash of the embedded text, to detect changes
+    vector: number[];
+}
+
+// One ReferenceAPI lookup requested by the model during a turn
+export interface ReferenceToolCall {
+    turn: number;
+    hop: number;                  // Lookup round within the turn, from 1
+    name: string;
+    args: { [key: string]: any };
+    success: boolean;
+    summary: string;              // Short description of the answer
+    timestamp: number;
+}
+
+// --- Prompt Inspector Types ---
+// Token counts are the prompt builder's estimates, not what the provider bills
+
+export interface PromptInspectionPart {
+    label: TranslationKey;
+    tokens: number;
+    budget?: number;
+}
+
+// An entity or rule that competed for a place in a section
+export interface PromptInspectionItem {
+    name: string;
+    detail: TranslatableMessage;  // Relevance reasons, activation reason
+    included: boolean;            // False when the section budget ran out first
+}
+
+export interface PromptInspectionSection {
+    id: string;
+    label: TranslationKey;
+    text: string;                 // Exactly as it appears in the prompt
+    tokens: number;
+    budget?: number;              // Share of TOKEN_CONFIG.ALLOCATION, for the four prioritized sections
+    parts: PromptInspectionPart[];
+    items: PromptInspectionItem[];
+}
+
+export interface PromptTruncation {
+    by: 'enforceTokenLimit' | 'emergencyTruncation';
+    tokensBefore: number;
+    tokensAfter: number;
+    droppedSections: TranslationKey[]; // Labels of sections no longer (fully) in the prompt
+}
+
+// One turn's assembled prompt, split into the sections it was built from
+export interface PromptInspection {
+    turn: number;
+    action: string;
+    createdAt: number;
+    systemInstruction: string;
+    systemTokens: number;
+    sections: PromptInspectionSection[];
+    totalTokens: number;          // User prompt as sent, after any truncation
+    softLimit: number;
+    hardLimit: number;
+    truncation?: PromptTruncation;
+    fallback?: boolean;           // The builder failed and sent the minimal fallback prompt
+}
+
+// --- Prompt Templates (editable GM scaffolding) ---
+export type PromptTemplateId = 'systemInstruction' | 'coreInstructions' | 'choiceDiversity' | 'advancedCot' | 'processingRules';
+
+// Per-world overrides; a missing entry uses the built-in template
+export type PromptTemplateOverrides = Partial<Record<PromptTemplateId, string>>;
+
+export interface PromptTemplatePreset {
+    format: 'rpgai-prompt-templates';
+    version: 1;
+    name: string;
+    exportedAt: string;
+    templates: PromptTemplateOverrides;
+}
+
+// --- Save Slot Types (IndexedDB save library) ---
+export type SaveSlotKind = 'manual' | 'auto' | 'quick';
+
+export interface SaveSlotThumbnail {
+    characterName?: string;
+    realm?: string;
+    location?: string;
+    turn: number;
+    gameTime: SaveData['gameTime'];
+}
+
+export interface SaveSlotMeta {
+    id: string;
+    name: string;                 // Empty unless the player named the slot; the library shows a default by kind
+    kind: SaveSlotKind;
+    savedAt: number;
+    sizeBytes: number;
+    thumbnail: SaveSlotThumbnail;
+}
+
+// --- LLM Provider Types ---
+export type LLMProviderType = 'gemini' | 'openai-compatible';
+
+// Provider-neutral schema type names (values match Gemini's OpenAPI subset)
+export enum SchemaType {
+    STRING = 'STRING',
+    NUMBER = 'NUMBER',
+    INTEGER = 'INTEGER',
+    BOOLEAN = 'BOOLEAN',
+    ARRAY = 'ARRAY',
+    OBJECT = 'OBJECT'
+}
+
+export interface ResponseSchema {
+    type: SchemaType;
+    description?: string;
+    properties?: { [key: string]: ResponseSchema };
+    items?: ResponseSchema;
+    required?: string[];
+    enum?: string[];
+}
+
+export interface LLMGenerateConfig {
+    systemInstruction?: string;
+    responseMimeType?: string;
+    responseSchema?: ResponseSchema;
+    temperature?: number;
+    topP?: number;
+    topK?: number;
+    maxOutputTokens?: number;
+    tools?: LLMFunctionDeclaration[];   // Function calling; not combined with responseSchema
+}
+
+// --- Function calling ---
+export interface LLMFunctionDeclaration {
+    name: string;
+    description: string;
+    parameters: ResponseSchema;
+}
+
+export interface LLMFunctionCall {
+    id?: string;
+    name: string;
+    args: { [key: string]: any };
+}
+
+export interface LLMFunctionResponse {
+    id?: string;
+    name: string;
+    response: { [key: string]: any };
+}
+
+// Parts that carry a function call or its result have empty text
+export type LLMPart = { text: string; functionCall?: LLMFunctionCall; functionResponse?: LLMFunctionResponse };
+
+// Call sites build history inline, so roles are not narrowed to GameHistoryEntry['role'] here
+export type LLMContent = { role: string; parts: LLMPart[] };
+
+export interface LLMGenerateRequest {
+    model: string;
+    contents: string | LLMContent[];
+    config?: LLMGenerateConfig;
+}
+
+export interface LLMUsageMetadata {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+}
+
+export interface LLMResponse {
+    text: string;
+    usageMetadata?: LLMUsageMetadata;
+    functionCalls?: LLMFunctionCall[];
+}
+
+export interface LLMStreamChunk {
+    text: string;                   // Incremental text delta
+    usageMetadata?: LLMUsageMetadata; // Usually only present on the final chunk
+}
+
+export interface LLMProvider {
+    readonly type: LLMProviderType;
+    generate(request: LLMGenerateRequest, signal?: AbortSignal): Promise<LLMResponse>;
+    generateStream(request: LLMGenerateRequest, signal?: AbortSignal): AsyncIterable<LLMStreamChunk>;
+    countTokens(request: Pick<LLMGenerateRequest, 'model' | 'contents'>): Promise<number>;
+    translateSchema(schema: ResponseSchema): unknown;
+}
+
+export interface LLMProviderSettings {
+    type: LLMProviderType;
+    openAIBaseUrl: string;   // e.g. http://localhost:8080/v1 (llama.cpp) or http://localhost:11434/v1 (Ollama)
+    openAIApiKey: string;    // Optional for most local servers
+    openAIModel: string;
 }
 
 export interface AIContextType {
-    ai: GoogleGenAI | null;
+    ai: LLMProvider | null;
+    providerType: LLMProviderType;
     isAiReady: boolean;
     apiKeyError: string | null;
     isUsingDefaultKey: boolean;
@@ -385,6 +826,7 @@ export interface RegexRule {
     description?: string;       // User description of what the rule does
     createdAt?: number;         // Timestamp when rule was created
     lastUsed?: number;          // Timestamp when rule was last applied
+    timedOutAt?: number;        // Set when the regex sandbox disabled the rule for running too long
 }
 
 export interface RegexRuleTemplate {
@@ -82,7 +82,12 @@ export class ApiRetrySystem {
         
         const errorStr = error?.message?.toLowerCase() || error?.toString?.()?.toLowerCase() || '';
         const status = error?.status || error?.statusCode;
-        
+
+        // User-cancelled generation must never be retried or queued
+        if (error?.name === 'AbortError') {
+            return { isRetryable: false, message: 'Request cancelled' };
+        }
+
         // Check for quota exceeded errors (high priority - most common issue)
         if (errorStr.includes('quota') || errorStr.includes('exceeded') || errorStr.includes('you exceeded your current quota')) {
             return { isRetryable: true, statusCode: status || 429, message: 'Quota exceeded - AI service temporarily unavailable' };
@@ -1,5 +1,6 @@
 import type { Memory, SaveData, Entity } from '../types';
 import { ImportanceScorer } from './ImportanceScorer';
+import { retrievalIndex, memoryDocId, entityDocId } from './RetrievalIndex';
 
 export interface RAGContext {
     relevantMemories: Memory[];
@@ -17,6 +18,7 @@ export interface RAGConfig {
     recencyWeight: number;
     relevanceWeight: number;
     diversityWeight: number;
+    semanticWeight: number;      // Share of embedding similarity in text relevance when vectors exist (0..1)
     includeArchived: boolean;
 }
 
@@ -28,16 +30,22 @@ export class EnhancedRAG {
         recencyWeight: 0.3,
         relevanceWeight: 0.5,
         diversityWeight: 0.2,
+        semanticWeight: 0.5,
         includeArchived: false
     };
 
+    // Entities pulled in by embedding similarity alone, on top of those the memories mention
+    private static readonly MAX_SEMANTIC_ENTITIES = 3;
+
     /**
-     * Build intelligent context from memories for AI prompts
+     * Build intelligent context from memories for AI prompts.
+     * `semanticScores` are embedding similarities by retrieval document id, when semantic recall is on.
      */
     public static buildIntelligentContext(
         gameState: SaveData,
         currentAction: string,
-        config: RAGConfig = this.DEFAULT_CONFIG
+        config: RAGConfig = this.DEFAULT_CONFIG,
+        semanticScores?: Map<string, number>
     ): RAGContext {
         const memories = config.includeArchived ? 
             [...gameState.memories, ...(gameState.archivedMemories || [])] : 
@@ -45,10 +53,14 @@ export class EnhancedRAG {
         
         console.log(`🧠 Enhanced RAG: Building context from ${memories.length} memories for action: "${currentAction.substring(0, 50)}..."`);
         
+        // Text relevance is the memory's BM25 score relative to the best match
+        retrievalIndex.sync(gameState);
+        const textScores = retrievalIndex.relativeScores(currentAction, ['memory']);
+
         // Calculate relevance scores for each memory
         const scoredMemories = memories.map(memory => ({
             memory,
-            relevanceScore: this.calculateRelevanceScore(memory, currentAction, gameState, config)
+            relevanceScore: this.calculateRelevanceScore(memory, currentAction, gameState, config, textScores, semanticScores)
         }));
         
         // Sort by relevance (no limit on memory count)
@@ -60,7 +72,7 @@ export class EnhancedRAG {
         const diverseMemories = this.ensureMemoryDiversity(relevantMemories, config);
         
         // Build contextual entities from selected memories
-        const contextualEntities = this.extractContextualEntities(diverseMemories, gameState);
+        const contextualEntities = this.extractContextualEntities(diverseMemories, gameState, semanticScores);
         
         // Generate relationship context
         const relationshipContext = this.buildRelationshipContext(diverseMemories, gameState);
@@ -91,7 +103,9 @@ export class EnhancedRAG {
         memory: Memory,
         currentAction: string,
         gameState: SaveData,
-        config: RAGConfig
+        config: RAGConfig,
+        textScores: Map<string, number>,
+        semanticScores?: Map<string, number>
     ): number {
         let score = 0;
         
@@ -99,8 +113,13 @@ export class EnhancedRAG {
         const baseImportance = memory.importance || 0;
         score += baseImportance * 0.4;
         
-        // Text relevance (30% weight)
-        const textRelevance = this.calculateTextRelevance(memory.text, currentAction);
+        // Text relevance (30% weight): BM25, blended with embedding similarity when the memory has a vector
+        const docId = memoryDocId(memory);
+        const lexicalRelevance = textScores.get(docId) || 0;
+        const semanticRelevance = semanticScores?.get(docId);
+        const textRelevance = semanticRelevance === undefined
+            ? lexicalRelevance
+            : lexicalRelevance * (1 - config.semanticWeight) + semanticRelevance * config.semanticWeight;
         score += textRelevance * 30;
         
         // Recency factor (20% weight)
@@ -125,35 +144,6 @@ export class EnhancedRAG {
         return Math.min(100, Math.max(0, score));
     }
 
-    /**
-     * Calculate text relevance using keyword matching and semantic similarity
-     */
-    private static calculateTextRelevance(memoryText: string, currentAction: string): number {
-        const memoryWords = memoryText.toLowerCase().split(/\s+/);
-        const actionWords = currentAction.toLowerCase().split(/\s+/);
-        
-        // Direct keyword matches
-        const commonWords = memoryWords.filter(word => 
-            actionWords.some(actionWord => 
-                word.includes(actionWord) || actionWord.includes(word)
-            )
-        );
-        
-        const directMatch = memoryWords.length > 0 ? commonWords.length / memoryWords.length : 0;
-        
-        // Contextual keywords for Vietnamese RPG
-        const contextKeywords = this.extractContextKeywords(currentAction);
-        const memoryKeywords = this.extractContextKeywords(memoryText);
-        
-        const contextMatch = contextKeywords.filter(keyword => 
-            memoryKeywords.includes(keyword)
-        ).length;
-        
-        const contextScore = Math.min(1, contextMatch * 0.2);
-        
-        return Math.min(100, (directMatch * 70) + (contextScore * 30));
-    }
-
     /**
      * Calculate recency score (newer memories are more relevant)
      */
@@ -226,40 +216,6 @@ export class EnhancedRAG {
         return matches.length * 3;
     }
 
-    /**
-     * Extract contextual keywords from text
-     */
-    private static extractContextKeywords(text: string): string[] {
-        const keywords: string[] = [];
-        const textLower = text.toLowerCase();
-        
-        // Action keywords
-        const actionPatterns = [
-            'tấn công', 'đánh', 'chiến đấu', 'khám phá', 'nói chuyện', 
-            'mua', 'bán', 'học', 'sử dụng', 'đi đến', 'rời khỏi'
-        ];
-        
-        // Object keywords
-        const objectPatterns = [
-            'kiếm', 'khiên', 'áo giáp', 'thuốc', 'ma pháp', 'kỹ năng',
-            'vàng', 'bạc', 'đồng', 'rương', 'cửa', 'chìa khóa'
-        ];
-        
-        // Location keywords
-        const locationPatterns = [
-            'thành phố', 'làng', 'rừng', 'núi', 'biển', 'hang động',
-            'lâu đài', 'đền', 'chợ', 'tavern', 'khách sạn'
-        ];
-        
-        [...actionPatterns, ...objectPatterns, ...locationPatterns].forEach(pattern => {
-            if (textLower.includes(pattern)) {
-                keywords.push(pattern);
-            }
-        });
-        
-        return keywords;
-    }
-
     /**
      * Ensure diversity in selected memories to avoid redundancy
      */
@@ -303,12 +259,22 @@ export class EnhancedRAG {
     /**
      * Extract contextual entities from selected memories
      */
-    private static extractContextualEntities(memories: Memory[], gameState: SaveData): Entity[] {
+    private static extractContextualEntities(memories: Memory[], gameState: SaveData, semanticScores?: Map<string, number>): Entity[] {
         const entityNames = new Set<string>();
         
         memories.forEach(memory => {
             memory.relatedEntities?.forEach(name => entityNames.add(name));
         });
+
+        // Entities whose descriptions are closest to the action, even if no selected memory names them
+        if (semanticScores) {
+            Object.entries(gameState.knownEntities || {})
+                .map(([name, entity]) => ({ name, score: semanticScores.get(entityDocId(entity.name)) || 0 }))
+                .filter(({ score }) => score > 0)
+                .sort((a, b) => b.score - a.score)
+                .slice(0, this.MAX_SEMANTIC_ENTITIES)
+                .forEach(({ name }) => entityNames.add(name));
+        }
         
         const entities: Entity[] = [];
         entityNames.forEach(name => {
@@ -1,5 +1,6 @@
 import type { Entity, Memory, SaveData, Status } from '../types';
 import { EnhancedRAG, RAGContext, RAGConfig } from './EnhancedRAG';
+import { retrievalIndex, entityDocId } from './RetrievalIndex';
 
 export interface EntityReference {
     referenceId: string;
@@ -51,8 +52,10 @@ export class ReferenceBasedRAG {
             recencyWeight: 0.3,
             relevanceWeight: 0.5,
             diversityWeight: 0.2,
+            semanticWeight: 0.5,
             includeArchived: false
-        }
+        },
+        semanticScores?: Map<string, number>
     ): CompactRAGContext {
         const startTime = performance.now();
         
@@ -60,7 +63,7 @@ export class ReferenceBasedRAG {
         this.updateRegistry(gameState);
         
         // Step 2: Get traditional RAG context for comparison
-        const fullContext = EnhancedRAG.buildIntelligentContext(gameState, currentAction, config);
+        const fullContext = EnhancedRAG.buildIntelligentContext(gameState, currentAction, config, semanticScores);
         
         // Step 3: Convert to reference-based format
         const entityReferences = this.createEntityReferences(fullContext.contextualEntities, currentAction);
@@ -393,51 +396,29 @@ export class ReferenceBasedRAG {
     }
 
     /**
-     * Find entities by pattern or keyword (for AI queries)
+     * Find entities by keyword (for AI queries), ranked by the shared BM25 index.
+     * buildCompactContext keeps the index in line with the game state.
      */
     public static findEntitiesByKeyword(keyword: string, limit: number = 5): EntityReference[] {
-        const results: EntityReference[] = [];
-        const keywordLower = keyword.toLowerCase();
-
+        const registered = new Map<string, [string, Entity]>();
         for (const [refId, entity] of this.registry.entities) {
-            if (entity.name.toLowerCase().includes(keywordLower) ||
-                entity.description?.toLowerCase().includes(keywordLower) ||
-                entity.type.toLowerCase().includes(keywordLower)) {
-                
-                results.push({
+            registered.set(entityDocId(entity.name), [refId, entity]);
+        }
+
+        return retrievalIndex.search(keyword, { kinds: ['entity'] })
+            .filter(hit => registered.has(hit.id))
+            .slice(0, limit)
+            .map(hit => {
+                const [refId, entity] = registered.get(hit.id)!;
+                return {
                     referenceId: refId,
                     name: entity.name,
                     type: entity.type,
                     summary: this.createEntitySummary(entity),
-                    relevanceScore: this.calculateKeywordRelevance(entity, keyword),
+                    relevanceScore: Math.round(hit.score * 100) / 100,
                     lastAccessed: Date.now()
-                });
-            }
-        }
-
-        return results
-            .sort((a, b) => b.relevanceScore - a.relevanceScore)
-            .slice(0, limit);
-    }
-
-    /**
-     * Calculate keyword relevance for search
-     */
-    private static calculateKeywordRelevance(entity: Entity, keyword: string): number {
-        const keywordLower = keyword.toLowerCase();
-        let score = 0;
-
-        // Exact name match
-        if (entity.name.toLowerCase() === keywordLower) score += 50;
-        else if (entity.name.toLowerCase().includes(keywordLower)) score += 30;
-
-        // Type match
-        if (entity.type.toLowerCase().includes(keywordLower)) score += 20;
-
-        // Description match
-        if (entity.description?.toLowerCase().includes(keywordLower)) score += 15;
-
-        return score;
+                };
+            });
     }
 }
 
@@ -12,6 +12,9 @@ export interface RegexProcessingParams {
     currentTurn?: number;
 }
 
+// Why a rule did not run for a given input (see RegexEngine.getSkipReason)
+export type RegexSkipReason = 'disabled' | 'depth' | 'edit' | 'mode';
+
 export interface MacroContext {
     playerName?: string;
     currentLocation?: string;
@@ -37,6 +40,10 @@ export class RegexEngine {
         this.macroContext = { ...this.macroContext, ...context };
     }
 
+    getMacroContext(): MacroContext {
+        return this.macroContext;
+    }
+
     /**
      * Sanitize a string for use in regex (escape special characters)
      */
@@ -134,32 +141,7 @@ export class RegexEngine {
      */
     runRegexRule(rule: RegexRule, inputText: string, params: RegexProcessingParams = {}): string {
         // Skip if rule is disabled or empty
-        if (!rule || rule.disabled || !rule.findRegex || !inputText) {
-            return inputText;
-        }
-
-        // Check depth constraints
-        if (typeof params.depth === 'number') {
-            if (rule.minDepth !== undefined && params.depth < rule.minDepth) {
-                return inputText;
-            }
-            if (rule.maxDepth !== undefined && params.depth > rule.maxDepth) {
-                return inputText;
-            }
-        }
-
-        // Check processing conditions
-        if (params.isEdit && !rule.runOnEdit) {
-            return inputText;
-        }
-
-        // Check markdown/prompt conditions
-        const shouldProcess = 
-            (rule.markdownOnly && params.isMarkdown) ||
-            (rule.promptOnly && params.isPrompt) ||
-            (!rule.markdownOnly && !rule.promptOnly && !params.isMarkdown && !params.isPrompt);
-
-        if (!shouldProcess) {
+        if (!rule || !inputText || this.getSkipReason(rule, params)) {
             return inputText;
         }
 
@@ -224,6 +206,52 @@ export class RegexEngine {
         }
     }
 
+    /**
+     * Check whether a rule's own settings exclude it from this run
+     */
+    getSkipReason(rule: RegexRule, params: RegexProcessingParams = {}): RegexSkipReason | null {
+        if (rule.disabled || !rule.findRegex) {
+            return 'disabled';
+        }
+
+        // Check depth constraints
+        if (typeof params.depth === 'number') {
+            if (rule.minDepth !== undefined && params.depth < rule.minDepth) {
+                return 'depth';
+            }
+            if (rule.maxDepth !== undefined && params.depth > rule.maxDepth) {
+                return 'depth';
+            }
+        }
+
+        // Check processing conditions
+        if (params.isEdit && !rule.runOnEdit) {
+            return 'edit';
+        }
+
+        // Check markdown/prompt conditions
+        const shouldProcess = 
+            (rule.markdownOnly && params.isMarkdown) ||
+            (rule.promptOnly && params.isPrompt) ||
+            (!rule.markdownOnly && !rule.promptOnly && !params.isMarkdown && !params.isPrompt);
+
+        return shouldProcess ? null : 'mode';
+    }
+
+    /**
+     * Rules registered for a placement, in processing order
+     */
+    getApplicableRules(placement: RegexPlacement, rules: RegexRule[], includeDisabled: boolean = false): RegexRule[] {
+        // Filter rules that apply to this placement and are enabled
+        const applicableRules = (rules || []).filter(rule => 
+            (includeDisabled || !rule.disabled) && 
+            rule.placement.includes(placement)
+        );
+
+        // Sort rules by creation time to ensure consistent execution order
+        return applicableRules.sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0));
+    }
+
     /**
      * Process text through multiple regex rules for a specific placement
      */
@@ -238,18 +266,9 @@ export class RegexEngine {
         }
 
         let result = text;
-        
-        // Filter rules that apply to this placement and are enabled
-        const applicableRules = rules.filter(rule => 
-            !rule.disabled && 
-            rule.placement.includes(placement)
-        );
-
-        // Sort rules by creation time to ensure consistent execution order
-        applicableRules.sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0));
 
         // Apply each rule sequentially
-        for (const rule of applicableRules) {
+        for (const rule of this.getApplicableRules(placement, rules)) {
             result = this.runRegexRule(rule, result, params);
         }
 
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RegexSandbox, WORKER_STARTUP_TIMEOUT_MS } from './RegexSandbox';
+import type { RegexWorkerLike, RegexWorkerRequest } from './RegexSandbox';
+import { RegexEngine } from './RegexEngine';
+import { RegexPlacement, RegexSubstituteMode } from '../types';
+import type { RegexRule } from '../types';
+
+const rule = (id: string, findRegex: string, replaceString: string, extra: Partial<RegexRule> = {}): RegexRule => ({
+    id, name: id, findRegex, replaceString, trimStrings: [], placement: [RegexPlacement.AI_OUTPUT],
+    disabled: false, isScoped: false, markdownOnly: false, promptOnly: false, runOnEdit: false,
+    substituteRegex: RegexSubstituteMode.NONE, createdAt: Number(id.replace(/\D/g, '')) || 0, ...extra
+});
+
+// Answers like the real worker, except for rules named "slow…", which never return. Each worker
+// reports ready after `loadMs`, and a message posted before that is answered once it has loaded.
+const createFakeWorkers = (loadMs = 0) => {
+    const workers: Array<RegexWorkerLike & { terminated: boolean }> = [];
+    const engine = new RegexEngine();
+    const factory = () => {
+        const loadedAt = Date.now() + loadMs;
+        const worker = {
+            onmessage: null as RegexWorkerLike['onmessage'],
+            terminated: false,
+            postMessage(message: RegexWorkerRequest) {
+                if (message.rule.name.startsWith('slow')) return;
+                setTimeout(() => worker.onmessage?.({
+                    data: { id: message.id, output: engine.runRegexRule(message.rule, message.text, message.params) }
+                }), Math.max(0, loadedAt - Date.now()));
+            },
+            terminate() {
+                worker.terminated = true;
+            }
+        };
+        setTimeout(() => worker.onmessage?.({ data: { id: 0, ready: true } }), loadMs);
+        workers.push(worker);
+        return worker;
+    };
+    return { workers, factory };
+};
+
+describe('RegexSandbox', () => {
+    it('disables a rule that exceeds its budget and carries on with a fresh worker', async () => {
+        const { workers, factory } = createFakeWorkers();
+        const sandbox = new RegexSandbox(factory, 20);
+        const onTimedOut = vi.fn();
+        sandbox.onRuleTimedOut(onTimedOut);
+        const rules = [rule('r1', '/a/g', 'b'), rule('slow2', '/(x+)+y/', ''), rule('r3', '/b/g', 'c')];
+
+        const output = await sandbox.processText('aaa', RegexPlacement.AI_OUTPUT, rules);
+
+        expect(output).toBe('ccc');
+        expect(rules[1]).toMatchObject({ disabled: true });
+        expect(rules[1].timedOutAt).toBeTypeOf('number');
+        expect(onTimedOut).toHaveBeenCalledWith(rules[1]);
+        expect(workers).toHaveLength(2);
+        expect(workers[0].terminated).toBe(true);
+        expect(workers[1].terminated).toBe(false);
+    });
+
+    it('screens only synchronously applied placements, ignoring depth and mode settings', async () => {
+        const { factory } = createFakeWorkers();
+        const sandbox = new RegexSandbox(factory, 20);
+        const rules = [
+            rule('slow1', '/(x+)+y/', '', { placement: [RegexPlacement.DIALOGUE_FORMATTING], maxDepth: 0, markdownOnly: true }),
+            rule('slow2', '/(x+)+y/', '', { placement: [RegexPlacement.AI_OUTPUT] }),
+            rule('r3', '/a/', 'b', { placement: [RegexPlacement.STAT_EXTRACTION] })
+        ];
+
+        const disabled = await sandbox.screenRules('xxxxxxxx', rules);
+
+        expect(disabled.map(r => r.id)).toEqual(['slow1']);
+        expect(rules.map(r => r.disabled)).toEqual([true, false, false]);
+    });
+
+    it('traces every rule of a placement in processing order', async () => {
+        const { factory } = createFakeWorkers();
+        const sandbox = new RegexSandbox(factory, 20);
+        const onTimedOut = vi.fn();
+        sandbox.onRuleTimedOut(onTimedOut);
+        const rules = [
+            rule('r4', '/b/', 'c'),
+            rule('r1', '/a/', 'b'),
+            rule('r2', '/z/', 'q'),
+            rule('r3', '/a/', 'x', { disabled: true }),
+            rule('slow5', '/(x+)+y/', ''),
+            rule('r6', '/c/', 'd', { minDepth: 3 })
+        ];
+
+        const steps = await sandbox.trace('a', RegexPlacement.AI_OUTPUT, rules, { depth: 1 });
+
+        expect(steps.map(step => [step.ruleId, step.status, step.skipReason])).toEqual([
+            ['r1', 'changed', undefined],
+            ['r2', 'unchanged', undefined],
+            ['r3', 'skipped', 'disabled'],
+            ['r4', 'changed', undefined],
+            ['slow5', 'timed-out', undefined],
+            ['r6', 'skipped', 'depth']
+        ]);
+        expect(steps[3]).toMatchObject({ before: 'b', after: 'c' });
+        expect(steps[4]).toMatchObject({ before: 'c', after: 'c' });
+        // The test bench decides what to do with timed-out rules
+        expect(rules[4].disabled).toBe(false);
+        expect(onTimedOut).not.toHaveBeenCalled();
+    });
+
+    it('does not charge the worker cold start to the first rule', async () => {
+        const { workers, factory } = createFakeWorkers(60);
+        const sandbox = new RegexSandbox(factory, 20);
+        const onTimedOut = vi.fn();
+        sandbox.onRuleTimedOut(onTimedOut);
+        const rules = [rule('r1', '/a/g', 'b'), rule('r2', '/b/g', 'c')];
+
+        const output = await sandbox.processText('aa', RegexPlacement.AI_OUTPUT, rules);
+
+        expect(output).toBe('cc');
+        expect(onTimedOut).not.toHaveBeenCalled();
+        expect(rules.map(r => r.disabled)).toEqual([false, false]);
+        expect(workers).toHaveLength(1);
+    });
+
+    it('reports an error instead of timing out when the worker never starts', async () => {
+        vi.useFakeTimers();
+        const worker = { onmessage: null, postMessage: vi.fn(), terminate: vi.fn() };
+        const sandbox = new RegexSandbox(() => worker, 20);
+
+        const run = sandbox.runRule(rule('r1', '/a/g', 'b'), 'aa');
+        await vi.advanceTimersByTimeAsync(WORKER_STARTUP_TIMEOUT_MS);
+
+        await expect(run).resolves.toMatchObject({ output: 'aa', timedOut: false, error: 'Regex worker failed to start' });
+        expect(worker.postMessage).not.toHaveBeenCalled();
+        expect(worker.terminate).toHaveBeenCalled();
+        vi.useRealTimers();
+    });
+
+    it('runs in-thread when workers are unavailable', async () => {
+        const sandbox = new RegexSandbox(() => null);
+        const run = await sandbox.runRule(rule('r1', '/a/g', 'b'), 'aa');
+        expect(run).toMatchObject({ output: 'bb', timedOut: false });
+    });
+});
@@ -0,0 +1,288 @@
+import { RegexRule, RegexPlacement } from '../types';
+import { regexEngine, RegexProcessingParams, MacroContext, RegexSkipReason } from './RegexEngine';
+
+/**
+ * Runs user-supplied regex rules in a Web Worker with a per-rule time budget.
+ *
+ * A pattern with catastrophic backtracking cannot be interrupted from inside the thread that
+ * runs it, so each rule is posted to a worker and the worker is terminated (and recreated on
+ * the next call) when the budget runs out. Rules that time out during the game are disabled
+ * and reported to listeners so the change can be persisted and shown in RegexManager.
+ */
+
+// Longest a single rule may run on one input before it is stopped
+export const RULE_TIME_BUDGET_MS = 250;
+
+// Longest a new worker may take to load its module; not charged to any rule's budget
+export const WORKER_STARTUP_TIMEOUT_MS = 10000;
+
+// Placements that still run synchronously on the main thread (tag processing, memories,
+// story rendering); their rules are screened in the sandbox before they get there
+export const SCREENED_PLACEMENTS: RegexPlacement[] = [
+    RegexPlacement.MEMORY_PROCESSING,
+    RegexPlacement.ENTITY_DETECTION,
+    RegexPlacement.QUEST_PROCESSING,
+    RegexPlacement.DIALOGUE_FORMATTING,
+    RegexPlacement.STAT_EXTRACTION,
+    RegexPlacement.COMBAT_FORMATTING
+];
+
+export interface RegexWorkerRequest {
+    id: number;
+    rule: RegexRule;
+    text: string;
+    params: RegexProcessingParams;
+    macroContext: MacroContext;
+}
+
+export interface RegexWorkerResponse {
+    id: number;
+    output?: string;
+    error?: string;
+    ready?: boolean;   // Sent once, with id 0, when the worker has loaded and can take rules
+}
+
+// The part of the Worker interface the sandbox uses, so tests can supply their own
+export interface RegexWorkerLike {
+    onmessage: ((event: { data: RegexWorkerResponse }) => void) | null;
+    postMessage(message: RegexWorkerRequest): void;
+    terminate(): void;
+}
+
+export interface RegexRuleRun {
+    output: string;
+    durationMs: number;
+    timedOut: boolean;
+    error?: string;
+}
+
+export interface RegexTraceStep {
+    ruleId: string;
+    ruleName: string;
+    status: 'changed' | 'unchanged' | 'skipped' | 'timed-out' | 'error';
+    before: string;
+    after: string;
+    durationMs: number;
+    skipReason?: RegexSkipReason;
+    error?: string;
+}
+
+type RegexWorkerFactory = () => RegexWorkerLike | null;
+
+const createBrowserWorker: RegexWorkerFactory = () => {
+    if (typeof Worker === 'undefined') return null;
+    return new Worker(new URL('./regexWorker.ts', import.meta.url), { type: 'module' }) as unknown as RegexWorkerLike;
+};
+
+export class RegexSandbox {
+    private worker: RegexWorkerLike | null = null;
+    private workerReady: Promise<boolean> = Promise.resolve(false);
+    private pending = new Map<number, (response: RegexWorkerResponse) => void>();
+    private nextId = 0;
+    // Rules run one at a time so a queued rule's budget is not spent waiting on another
+    private queue: Promise<unknown> = Promise.resolve();
+    private timeoutListeners = new Set<(rule: RegexRule) => void>();
+    private createWorker: RegexWorkerFactory;
+    readonly timeBudgetMs: number;
+
+    constructor(createWorker: RegexWorkerFactory = createBrowserWorker, timeBudgetMs: number = RULE_TIME_BUDGET_MS) {
+        this.createWorker = createWorker;
+        this.timeBudgetMs = timeBudgetMs;
+    }
+
+    /**
+     * Subscribe to rules disabled for exceeding the time budget
+     */
+    onRuleTimedOut(listener: (rule: RegexRule) => void): () => void {
+        this.timeoutListeners.add(listener);
+        return () => {
+            this.timeoutListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Run one rule on one input within the time budget
+     */
+    runRule(rule: RegexRule, text: string, params: RegexProcessingParams = {}): Promise<RegexRuleRun> {
+        const run = this.queue.then(() => this.execute(rule, text, params));
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    /**
+     * Sandboxed equivalent of regexEngine.processText. Rules that time out are disabled and
+     * leave the text unchanged.
+     */
+    async processText(
+        text: string,
+        placement: RegexPlacement,
+        rules: RegexRule[],
+        params: RegexProcessingParams = {}
+    ): Promise<string> {
+        if (!text || !rules || rules.length === 0) {
+            return text;
+        }
+
+        let result = text;
+        for (const rule of regexEngine.getApplicableRules(placement, rules)) {
+            if (regexEngine.getSkipReason(rule, params)) continue;
+            const run = await this.runRule(rule, result, params);
+            if (run.timedOut) {
+                this.disableTimedOutRule(rule);
+                continue;
+            }
+            result = run.output;
+        }
+        return result;
+    }
+
+    /**
+     * Run every enabled rule of the given placements once on `text`, ignoring depth and mode
+     * settings, and disable the ones that time out. Call before text reaches code that applies
+     * those placements synchronously. Returns the rules that were disabled.
+     */
+    async screenRules(
+        text: string,
+        rules: RegexRule[],
+        placements: RegexPlacement[] = SCREENED_PLACEMENTS
+    ): Promise<RegexRule[]> {
+        const disabled: RegexRule[] = [];
+        if (!text || !rules) return disabled;
+
+        const screened = rules.filter(rule =>
+            !rule.disabled && rule.findRegex && rule.placement.some(placement => placements.includes(placement))
+        );
+        for (const rule of screened) {
+            const unconstrained = { ...rule, minDepth: undefined, maxDepth: undefined, markdownOnly: false, promptOnly: false };
+            const run = await this.runRule(unconstrained, text);
+            if (run.timedOut) {
+                this.disableTimedOutRule(rule);
+                disabled.push(rule);
+            }
+        }
+        return disabled;
+    }
+
+    /**
+     * Step-by-step run of every rule registered for a placement (disabled ones included, as
+     * skipped), for the RegexManager test bench. Nothing is disabled here; the caller decides
+     * what to do with timed-out rules.
+     */
+    async trace(
+        text: string,
+        placement: RegexPlacement,
+        rules: RegexRule[],
+        params: RegexProcessingParams = {}
+    ): Promise<RegexTraceStep[]> {
+        const steps: RegexTraceStep[] = [];
+        let current = text;
+
+        for (const rule of regexEngine.getApplicableRules(placement, rules, true)) {
+            const step = { ruleId: rule.id, ruleName: rule.name, before: current, after: current, durationMs: 0 };
+            const skipReason = regexEngine.getSkipReason(rule, params);
+            if (skipReason) {
+                steps.push({ ...step, status: 'skipped', skipReason });
+                continue;
+            }
+
+            const run = await this.runRule(rule, current, params);
+            if (run.timedOut) {
+                steps.push({ ...step, status: 'timed-out', durationMs: run.durationMs });
+            } else if (run.error) {
+                steps.push({ ...step, status: 'error', durationMs: run.durationMs, error: run.error });
+            } else {
+                steps.push({
+                    ...step,
+                    status: run.output === current ? 'unchanged' : 'changed',
+                    after: run.output,
+                    durationMs: run.durationMs
+                });
+                current = run.output;
+            }
+        }
+        return steps;
+    }
+
+    private async execute(rule: RegexRule, text: string, params: RegexProcessingParams): Promise<RegexRuleRun> {
+        const worker = this.getWorker();
+        if (!worker) {
+            // No Worker support (tests, old browsers): run in-thread without a budget
+            const startedAt = Date.now();
+            const output = regexEngine.runRegexRule(rule, text, params);
+            return { output, durationMs: Date.now() - startedAt, timedOut: false };
+        }
+
+        // The budget starts once the worker is up, so a cold start never times out a harmless rule
+        if (!await this.workerReady) {
+            this.resetWorker();
+            return { output: text, durationMs: 0, timedOut: false, error: 'Regex worker failed to start' };
+        }
+
+        const startedAt = Date.now();
+        return new Promise(resolve => {
+            const id = ++this.nextId;
+            const timer = setTimeout(() => {
+                this.pending.delete(id);
+                // Terminating the worker is the only way to stop a runaway pattern
+                this.resetWorker();
+                console.warn(`⏱️ Regex rule "${rule.name}" exceeded ${this.timeBudgetMs}ms and was stopped`);
+                resolve({ output: text, durationMs: Date.now() - startedAt, timedOut: true });
+            }, this.timeBudgetMs);
+
+            this.pending.set(id, response => {
+                clearTimeout(timer);
+                resolve({
+                    output: response.output ?? text,
+                    durationMs: Date.now() - startedAt,
+                    timedOut: false,
+                    error: response.error
+                });
+            });
+
+            worker.postMessage({ id, rule: { ...rule }, text, params, macroContext: regexEngine.getMacroContext() });
+        });
+    }
+
+    private getWorker(): RegexWorkerLike | null {
+        if (!this.worker) {
+            this.worker = this.createWorker();
+            if (this.worker) {
+                let markReady: (ready: boolean) => void = () => {};
+                this.workerReady = new Promise(resolve => {
+                    const startupTimer = setTimeout(() => resolve(false), WORKER_STARTUP_TIMEOUT_MS);
+                    markReady = ready => {
+                        clearTimeout(startupTimer);
+                        resolve(ready);
+                    };
+                });
+                this.worker.onmessage = event => {
+                    if (event.data.ready) {
+                        markReady(true);
+                        return;
+                    }
+                    const resolve = this.pending.get(event.data.id);
+                    if (!resolve) return;
+                    this.pending.delete(event.data.id);
+                    resolve(event.data);
+                };
+            }
+        }
+        return this.worker;
+    }
+
+    private resetWorker() {
+        this.worker?.terminate();
+        this.worker = null;
+    }
+
+    private disableTimedOutRule(rule: RegexRule) {
+        // Mutated in place (like lastUsed in RegexEngine) so callers still holding this rule
+        // list skip it straight away; listeners persist the change to game state
+        rule.disabled = true;
+        rule.timedOutAt = Date.now();
+        this.timeoutListeners.forEach(listener => listener(rule));
+    }
+}
+
+// Export singleton instance
+export const regexSandbox = new RegexSandbox();
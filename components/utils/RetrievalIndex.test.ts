@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RetrievalIndex, tokenize, foldDiacritics, memoryDocId, chronicleDocId, entityDocId } from './RetrievalIndex';
+import type { Entity, Memory, SaveData } from '../types';
+
+const memory = (text: string): Memory => ({ text, pinned: false });
+
+const state = (overrides: Partial<SaveData> = {}): SaveData => ({
+    memories: [
+        memory('Đạo Huyền truyền thụ kiếm pháp Thanh Vân cho đệ tử'),
+        memory('Chợ phiên dưới chân núi bán thảo dược'),
+        memory('Ma giáo tập kích trấn nhỏ phía nam')
+    ],
+    chronicle: { memoir: ['Gia nhập Thanh Vân Môn'], chapter: [], turn: ['Mua thảo dược ở chợ'] },
+    knownEntities: {
+        'Đạo Huyền': { name: 'Đạo Huyền', type: 'npc', description: 'Chưởng môn Thanh Vân Môn' } as Entity,
+        'Huyết Kiếm': { name: 'Huyết Kiếm', type: 'item', description: 'Bảo kiếm nhuốm máu' } as Entity
+    },
+    ...overrides
+} as SaveData);
+
+describe('RetrievalIndex', () => {
+    let index: RetrievalIndex;
+
+    beforeEach(() => {
+        index = new RetrievalIndex();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('folds diacritics and keeps bigrams without stopwords', () => {
+        expect(foldDiacritics('Đạo Huyền')).toBe('dao huyen');
+        expect(tokenize('Đạo Huyền và Kiếm')).toEqual(['dao', 'đạo', 'huyen', 'huyền', 'dao huyen', 'kiem', 'kiếm']);
+    });
+
+    it('finds accented text from an unaccented query and ranks the closer match first', () => {
+        index.sync(state());
+
+        const hits = index.search('dao huyen kiem phap', { kinds: ['memory'] });
+        expect(hits[0].id).toBe(memoryDocId(state().memories[0]));
+        expect(hits.every(hit => hit.kind === 'memory')).toBe(true);
+
+        const entities = index.search('Thanh Vân', { kinds: ['entity'] });
+        expect(entities.map(hit => hit.id)).toEqual([entityDocId('Đạo Huyền')]);
+        expect(index.search('thảo dược', { kinds: ['chronicle'] })[0].id).toBe(chronicleDocId('turn', 'Mua thảo dược ở chợ'));
+    });
+
+    it('only touches documents that changed', () => {
+        expect(index.sync(state())).toEqual({ added: 7, updated: 0, removed: 0 });
+        expect(index.sync(state())).toEqual({ added: 0, updated: 0, removed: 0 });
+
+        const changed = state();
+        changed.memories = changed.memories.slice(1);
+        changed.knownEntities['Đạo Huyền'] = { ...changed.knownEntities['Đạo Huyền'], description: 'Đã bế quan' };
+        expect(index.sync(changed)).toEqual({ added: 0, updated: 1, removed: 1 });
+        expect(index.search('kiếm pháp', { kinds: ['memory'] })).toEqual([]);
+    });
+
+    it('restores identical results from a serialized index', () => {
+        index.sync(state());
+        const restored = new RetrievalIndex();
+        restored.load(JSON.parse(JSON.stringify(index.serialize())));
+
+        expect(restored.size).toBe(index.size);
+        expect(restored.search('kiếm Thanh Vân')).toEqual(index.search('kiếm Thanh Vân'));
+        expect(restored.sync(state())).toEqual({ added: 0, updated: 0, removed: 0 });
+
+        restored.load({ version: 0, docs: [] });
+        expect(restored.size).toBe(0);
+    });
+});
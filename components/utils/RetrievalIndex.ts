@@ -0,0 +1,242 @@
+// RetrievalIndex.ts - Local BM25 index over memories, chronicle entries and entities
+//
+// Documents are kept in an inverted index that is updated incrementally: sync() hashes what the
+// game state holds and only re-tokenizes documents that were added or changed. The term
+// frequencies are persisted with the save so loading a long campaign does not rebuild it.
+
+import type { SaveData, Memory, Entity, SerializedRetrievalIndex, RetrievalDocKind } from '../types';
+
+export const RETRIEVAL_INDEX_VERSION = 1;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Function words that carry no meaning on their own (compared before diacritic folding)
+const STOPWORDS = new Set([
+    'và', 'là', 'của', 'có', 'cho', 'với', 'một', 'các', 'những', 'được', 'trong', 'này', 'đó', 'kia',
+    'đã', 'đang', 'sẽ', 'thì', 'mà', 'để', 'khi', 'từ', 'ra', 'vào', 'lại', 'cũng', 'như', 'nhưng',
+    'hay', 'hoặc', 'rất', 'nên', 'vì', 'bị', 'tại', 'rồi', 'nào', 'gì',
+    'the', 'a', 'an', 'of', 'and', 'or', 'to', 'in', 'on', 'is', 'are'
+]);
+
+export interface RetrievalHit {
+    id: string;
+    kind: RetrievalDocKind;
+    score: number;
+}
+
+export interface RetrievalSyncResult {
+    added: number;
+    updated: number;
+    removed: number;
+}
+
+interface IndexedDoc {
+    kind: RetrievalDocKind;
+    hash: string;
+    length: number;
+    terms: Map<string, number>;
+}
+
+/** Lowercase and strip Vietnamese diacritics ("Đạo Huyền" → "dao huyen") */
+export const foldDiacritics = (text: string): string =>
+    text.normalize('NFD').replace(/\p{M}/gu, '').replace(/đ/g, 'd').replace(/Đ/g, 'd').toLowerCase();
+
+/**
+ * Terms of a text: every syllable in folded form, the accented form as well when it differs
+ * (so an exact spelling scores higher than a folded match), and folded syllable bigrams, which
+ * stand in for Vietnamese multi-syllable words ("thanh van", "van mon").
+ */
+export const tokenize = (text: string): string[] => {
+    const syllables = text.normalize('NFC').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    const terms: string[] = [];
+    let previous: string | null = null;
+
+    syllables.forEach(syllable => {
+        if (STOPWORDS.has(syllable)) {
+            previous = null;
+            return;
+        }
+        const folded = foldDiacritics(syllable);
+        terms.push(folded);
+        if (folded !== syllable) terms.push(syllable);
+        if (previous) terms.push(`${previous} ${folded}`);
+        previous = folded;
+    });
+    return terms;
+};
+
+// FNV-1a, enough to notice that a document's text changed
+export const hashText = (text: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+};
+
+export const memoryDocId = (memory: Memory): string => `memory:${hashText(memory.text)}`;
+export const chronicleDocId = (type: keyof SaveData['chronicle'], text: string): string => `chronicle:${type}:${hashText(text)}`;
+export const entityDocId = (name: string): string => `entity:${name}`;
+
+// The name is repeated so that it outweighs a passing mention in another entity's description
+const entityText = (entity: Entity): string => [
+    entity.name, entity.name, entity.type, entity.description, entity.location, entity.personality,
+    entity.motivation, entity.relationship, entity.realm, entity.owner
+].filter(Boolean).join(' ');
+
+/** The documents a game state contributes to the index, keyed by document id */
+export const collectRetrievalDocs = (gameState: SaveData): Map<string, { kind: RetrievalDocKind; text: string }> => {
+    const docs = new Map<string, { kind: RetrievalDocKind; text: string }>();
+    [...(gameState.memories || []), ...(gameState.archivedMemories || [])].forEach(memory => {
+        if (memory.text) docs.set(memoryDocId(memory), { kind: 'memory', text: memory.text });
+    });
+    const chronicle = gameState.chronicle;
+    if (chronicle) {
+        (['memoir', 'chapter', 'turn'] as const).forEach(type => {
+            (chronicle[type] || []).forEach(text => {
+                if (text) docs.set(chronicleDocId(type, text), { kind: 'chronicle', text });
+            });
+        });
+    }
+    Object.values(gameState.knownEntities || {}).forEach(entity => {
+        if (entity?.name) docs.set(entityDocId(entity.name), { kind: 'entity', text: entityText(entity) });
+    });
+    return docs;
+};
+
+export class RetrievalIndex {
+    private docs = new Map<string, IndexedDoc>();
+    private postings = new Map<string, Map<string, number>>(); // term → doc id → term frequency
+    private totalLength = 0;
+
+    get size(): number {
+        return this.docs.size;
+    }
+
+    has(id: string): boolean {
+        return this.docs.has(id);
+    }
+
+    /** Adds or replaces a document; returns false when it is already indexed with this text */
+    upsert(id: string, kind: RetrievalDocKind, text: string): boolean {
+        const hash = hashText(text);
+        if (this.docs.get(id)?.hash === hash) return false;
+
+        const terms = new Map<string, number>();
+        tokenize(text).forEach(term => terms.set(term, (terms.get(term) || 0) + 1));
+        this.put(id, { kind, hash, length: 0, terms });
+        return true;
+    }
+
+    remove(id: string): boolean {
+        const doc = this.docs.get(id);
+        if (!doc) return false;
+
+        doc.terms.forEach((_, term) => {
+            const posting = this.postings.get(term);
+            posting?.delete(id);
+            if (posting && posting.size === 0) this.postings.delete(term);
+        });
+        this.totalLength -= doc.length;
+        this.docs.delete(id);
+        return true;
+    }
+
+    clear(): void {
+        this.docs.clear();
+        this.postings.clear();
+        this.totalLength = 0;
+    }
+
+    /** Brings the index in line with the game state, touching only what changed */
+    sync(gameState: SaveData): RetrievalSyncResult {
+        const wanted = collectRetrievalDocs(gameState);
+        const result: RetrievalSyncResult = { added: 0, updated: 0, removed: 0 };
+
+        [...this.docs.keys()].forEach(id => {
+            if (!wanted.has(id) && this.remove(id)) result.removed++;
+        });
+        wanted.forEach(({ kind, text }, id) => {
+            const existed = this.docs.has(id);
+            if (this.upsert(id, kind, text)) {
+                if (existed) result.updated++; else result.added++;
+            }
+        });
+
+        if (result.added || result.updated || result.removed) {
+            console.log(`📚 Retrieval index: +${result.added} ~${result.updated} -${result.removed} (${this.docs.size} documents)`);
+        }
+        return result;
+    }
+
+    /** BM25 ranking of the indexed documents against a query, best first */
+    search(query: string, options: { kinds?: RetrievalDocKind[]; limit?: number } = {}): RetrievalHit[] {
+        const queryTerms = [...new Set(tokenize(query))];
+        const docCount = this.docs.size;
+        if (queryTerms.length === 0 || docCount === 0) return [];
+
+        const averageLength = this.totalLength / docCount || 1;
+        const scores = new Map<string, number>();
+
+        queryTerms.forEach(term => {
+            const posting = this.postings.get(term);
+            if (!posting) return;
+            const idf = Math.log(1 + (docCount - posting.size + 0.5) / (posting.size + 0.5));
+            posting.forEach((frequency, id) => {
+                const doc = this.docs.get(id)!;
+                if (options.kinds && !options.kinds.includes(doc.kind)) return;
+                const norm = frequency + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / averageLength);
+                scores.set(id, (scores.get(id) || 0) + idf * frequency * (BM25_K1 + 1) / norm);
+            });
+        });
+
+        const hits = [...scores.entries()]
+            .map(([id, score]) => ({ id, kind: this.docs.get(id)!.kind, score }))
+            .sort((a, b) => b.score - a.score);
+        return options.limit !== undefined ? hits.slice(0, options.limit) : hits;
+    }
+
+    /** Scores of every matching document scaled to 0..1 against the best match */
+    relativeScores(query: string, kinds?: RetrievalDocKind[]): Map<string, number> {
+        const hits = this.search(query, { kinds });
+        const best = hits[0]?.score || 0;
+        return new Map(hits.map(hit => [hit.id, best > 0 ? hit.score / best : 0]));
+    }
+
+    serialize(): SerializedRetrievalIndex {
+        return {
+            version: RETRIEVAL_INDEX_VERSION,
+            docs: [...this.docs.entries()].map(([id, doc]) => ({
+                id, kind: doc.kind, hash: doc.hash, terms: Object.fromEntries(doc.terms)
+            }))
+        };
+    }
+
+    /** Replaces the index with a persisted one; anything unreadable leaves it empty for sync() to rebuild */
+    load(data?: SerializedRetrievalIndex | null): void {
+        this.clear();
+        if (!data || data.version !== RETRIEVAL_INDEX_VERSION || !Array.isArray(data.docs)) return;
+
+        data.docs.forEach(doc => {
+            if (!doc || typeof doc.id !== 'string' || !doc.terms) return;
+            this.put(doc.id, { kind: doc.kind, hash: doc.hash, length: 0, terms: new Map(Object.entries(doc.terms)) });
+        });
+    }
+
+    private put(id: string, doc: IndexedDoc): void {
+        this.remove(id);
+        doc.length = 0;
+        doc.terms.forEach((frequency, term) => {
+            doc.length += frequency;
+            if (!this.postings.has(term)) this.postings.set(term, new Map());
+            this.postings.get(term)!.set(id, frequency);
+        });
+        this.docs.set(id, doc);
+        this.totalLength += doc.length;
+    }
+}
+
+// Shared index used by prompt building; GameScreen loads it from the save
+export const retrievalIndex = new RetrievalIndex();
@@ -1,16 +1,17 @@
 // RetryIntegration.ts - Integration layer for existing API calls with retry system
 
-import { GoogleGenAI } from "@google/genai";
+import type { LLMProvider, LLMGenerateRequest } from '../types';
 import { callApiWithRetry, apiRetrySystem } from './ApiRetrySystem';
 import { checkChoiceIdempotency, checkWorldCreationIdempotency, markRequestCompleted, markRequestFailed } from './IdempotencyManager';
 
 // Enhanced API call wrapper that includes retry logic and idempotency
 export async function enhancedGenerateContent(
-    ai: GoogleGenAI,
-    config: any,
+    ai: LLMProvider,
+    config: LLMGenerateRequest,
     context: string = 'api_call',
     choiceId?: string,
-    gameStateSnapshot?: any
+    gameStateSnapshot?: any,
+    signal?: AbortSignal
 ) {
     // Idempotency check for choices
     if (choiceId && gameStateSnapshot) {
@@ -28,9 +29,12 @@ export async function enhancedGenerateContent(
     }
     
     const operation = async () => {
+        if (signal?.aborted) {
+            throw createAbortError();
+        }
         try {
             console.log(`🔄 Making API call - Context: ${context}, ChoiceId: ${choiceId}`);
-            const response = await ai.models.generateContent(config);
+            const response = await ai.generate(config, signal);
             
             // Mark as completed in idempotency system
             if (choiceId) {
@@ -50,6 +54,9 @@ export async function enhancedGenerateContent(
     const result = await callApiWithRetry(operation, context, choiceId, gameStateSnapshot);
     
     if (!result.success) {
+        if (signal?.aborted) {
+            throw createAbortError();
+        }
         if (result.isQueued) {
             // Return a special response indicating the request is queued
             return {
@@ -65,10 +72,108 @@ export async function enhancedGenerateContent(
     return result.data;
 }
 
+export interface StreamCallbacks {
+    onText: (accumulatedText: string) => void;
+    onAttemptStart?: () => void;
+}
+
+// Streaming variant of enhancedGenerateContent.
+// Each retry attempt restarts the stream from scratch; nothing is applied until the stream completes,
+// so a stream that dies mid-way never leaves half-applied command tags behind.
+export async function enhancedGenerateContentStream(
+    ai: LLMProvider,
+    config: LLMGenerateRequest,
+    callbacks: StreamCallbacks,
+    signal?: AbortSignal,
+    context: string = 'api_call',
+    choiceId?: string,
+    gameStateSnapshot?: any
+) {
+    if (choiceId && gameStateSnapshot) {
+        const idempotencyResult = checkChoiceIdempotency(choiceId, context, gameStateSnapshot);
+
+        if (!idempotencyResult.shouldExecute) {
+            if (idempotencyResult.cachedResult) {
+                console.log(`♻️ Returning cached result for choice: ${choiceId}`);
+                return idempotencyResult.cachedResult;
+            } else {
+                console.log(`⏳ Choice already in progress: ${choiceId}`);
+                throw new Error('Choice already being processed');
+            }
+        }
+    }
+
+    const operation = async () => {
+        if (signal?.aborted) {
+            throw createAbortError();
+        }
+        callbacks.onAttemptStart?.();
+
+        try {
+            console.log(`🌊 Starting streamed API call - Context: ${context}, ChoiceId: ${choiceId}`);
+            let text = '';
+            let usageMetadata;
+            for await (const chunk of ai.generateStream(config, signal)) {
+                if (signal?.aborted) {
+                    throw createAbortError();
+                }
+                if (chunk.text) {
+                    text += chunk.text;
+                    callbacks.onText(text);
+                }
+                if (chunk.usageMetadata) {
+                    usageMetadata = chunk.usageMetadata;
+                }
+            }
+
+            const response = { text, usageMetadata };
+            if (choiceId) {
+                markRequestCompleted(choiceId, response);
+            }
+            return response;
+        } catch (error) {
+            if (choiceId) {
+                markRequestFailed(choiceId);
+            }
+            throw error;
+        }
+    };
+
+    const result = await callApiWithRetry(operation, context, choiceId, gameStateSnapshot);
+
+    if (!result.success) {
+        if (signal?.aborted) {
+            throw createAbortError();
+        }
+        if (result.isQueued) {
+            return {
+                text: '[QUEUED] Yêu cầu đã được xếp hàng để thử lại sau',
+                isQueued: true,
+                queuedChoiceId: choiceId,
+                error: result.error
+            };
+        }
+        throw new Error(result.error || 'API call failed after retries');
+    }
+
+    return result.data;
+}
+
+function createAbortError(): Error {
+    const error = new Error('Generation cancelled by user');
+    error.name = 'AbortError';
+    return error;
+}
+
+// Utility to check if an error came from the user cancelling generation
+export function isAbortError(error: any): boolean {
+    return error?.name === 'AbortError';
+}
+
 // World creation wrapper with idempotency
 export async function enhancedWorldCreation(
-    ai: GoogleGenAI,
-    config: any,
+    ai: LLMProvider,
+    config: LLMGenerateRequest,
     setupData: any
 ) {
     const idempotencyResult = checkWorldCreationIdempotency(setupData);
@@ -86,7 +191,7 @@ export async function enhancedWorldCreation(
     const operation = async () => {
         try {
             console.log(`🌍 Creating world with retry protection`);
-            const response = await ai.models.generateContent(config);
+            const response = await ai.generate(config);
             
             // Mark as completed
             markRequestCompleted(idempotencyResult.requestId, response);
@@ -13,39 +13,39 @@ class DemoAI {
         this.failureRate = failureRate;
     }
     
-    models = {
-        generateContent: async (config: any) => {
-            this.callCount++;
-            console.log(`🤖 DemoAI Call #${this.callCount} - Config:`, {
-                model: config.model,
-                contentsLength: config.contents?.length,
-                hasSchema: !!config.config?.responseSchema
-            });
-            
-            // Simulate various failure scenarios
-            if (Math.random() < this.failureRate) {
-                const failures = [
-                    { status: 503, message: 'Service temporarily unavailable' },
-                    { message: 'The model is overloaded. Please try again later.' },
-                    { message: 'Network timeout occurred' }
-                ];
-                
-                const failure = failures[Math.floor(Math.random() * failures.length)];
-                console.log(`❌ DemoAI simulated failure:`, failure);
-                throw failure;
-            }
-            
-            // Simulate success
-            await this.delay(100 + Math.random() * 200); // Random delay
-            
-            const response = {
-                text: `Demo response for call #${this.callCount}`,
-                usageMetadata: { totalTokenCount: Math.floor(Math.random() * 500) + 100 }
-            };
+    readonly type = 'gemini' as const;
+
+    generate = async (config: any) => {
+        this.callCount++;
+        console.log(`🤖 DemoAI Call #${this.callCount} - Config:`, {
+            model: config.model,
+            contentsLength: config.contents?.length,
+            hasSchema: !!config.config?.responseSchema
+        });
+        
+        // Simulate various failure scenarios
+        if (Math.random() < this.failureRate) {
+            const failures = [
+                { status: 503, message: 'Service temporarily unavailable' },
+                { message: 'The model is overloaded. Please try again later.' },
+                { message: 'Network timeout occurred' }
+            ];
             
-            console.log(`✅ DemoAI success:`, response);
-            return response;
+            const failure = failures[Math.floor(Math.random() * failures.length)];
+            console.log(`❌ DemoAI simulated failure:`, failure);
+            throw failure;
         }
+        
+        // Simulate success
+        await this.delay(100 + Math.random() * 200); // Random delay
+        
+        const response = {
+            text: `Demo response for call #${this.callCount}`,
+            usageMetadata: { totalTokenCount: Math.floor(Math.random() * 500) + 100 }
+        };
+        
+        console.log(`✅ DemoAI success:`, response);
+        return response;
     };
     
     private delay(ms: number): Promise<void> {
@@ -3,13 +3,15 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { ApiRetrySystem, apiRetrySystem } from './ApiRetrySystem';
 import { IdempotencyManager, idempotencyManager } from './IdempotencyManager';
-import { enhancedGenerateContent, enhancedWorldCreation } from './RetryIntegration';
+import { enhancedGenerateContent, enhancedGenerateContentStream, enhancedWorldCreation, isAbortError } from './RetryIntegration';
 
-// Mock Google AI
+// Mock LLM provider
 const mockAI = {
-    models: {
-        generateContent: vi.fn()
-    }
+    type: 'gemini',
+    generate: vi.fn(),
+    generateStream: vi.fn(),
+    countTokens: vi.fn(),
+    translateSchema: vi.fn()
 } as any;
 
 describe('ApiRetrySystem', () => {
@@ -231,7 +233,7 @@ describe('Enhanced API Integration', () => {
 
     it('should handle successful API calls with retry wrapper', async () => {
         const mockResponse = { text: 'Success', usageMetadata: { totalTokenCount: 150 } };
-        mockAI.models.generateContent.mockResolvedValue(mockResponse);
+        mockAI.generate.mockResolvedValue(mockResponse);
         
         const config = {
             model: 'gemini-1.5-pro',
@@ -241,12 +243,12 @@ describe('Enhanced API Integration', () => {
         const result = await enhancedGenerateContent(mockAI, config, 'test_call');
         
         expect(result).toBe(mockResponse);
-        expect(mockAI.models.generateContent).toHaveBeenCalledOnce();
+        expect(mockAI.generate).toHaveBeenCalledOnce();
     });
 
     it('should handle API failures and queue choices', async () => {
         // Mock consecutive failures
-        mockAI.models.generateContent
+        mockAI.generate
             .mockRejectedValueOnce({ status: 503 })
             .mockRejectedValueOnce({ status: 503 })
             .mockRejectedValueOnce({ status: 503 })
@@ -274,7 +276,7 @@ describe('Enhanced API Integration', () => {
 
     it('should prevent duplicate world creation through idempotency', async () => {
         const mockResponse = { text: 'World created', usageMetadata: { totalTokenCount: 200 } };
-        mockAI.models.generateContent.mockResolvedValue(mockResponse);
+        mockAI.generate.mockResolvedValue(mockResponse);
         
         const config = {
             model: 'gemini-1.5-pro',
@@ -286,12 +288,63 @@ describe('Enhanced API Integration', () => {
         // First call - should execute
         const result1 = await enhancedWorldCreation(mockAI, config, setupData);
         expect(result1).toBe(mockResponse);
-        expect(mockAI.models.generateContent).toHaveBeenCalledOnce();
+        expect(mockAI.generate).toHaveBeenCalledOnce();
         
         // Second call with same setup - should return cached result
         const result2 = await enhancedWorldCreation(mockAI, config, setupData);
         expect(result2).toBe(mockResponse);
-        expect(mockAI.models.generateContent).toHaveBeenCalledOnce(); // Should not call API again
+        expect(mockAI.generate).toHaveBeenCalledOnce(); // Should not call API again
+    });
+});
+
+describe('Streaming API Integration', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        localStorage.clear();
+    });
+
+    const config = {
+        model: 'gemini-1.5-pro',
+        contents: [{ role: 'user', parts: [{ text: 'Test prompt' }] }]
+    };
+
+    it('should restart a stream that dies mid-way and only return the completed text', async () => {
+        mockAI.generateStream
+            .mockImplementationOnce(async function* () {
+                yield { text: '{"story":"Mở' };
+                throw { status: 503 };
+            })
+            .mockImplementationOnce(async function* () {
+                yield { text: '{"story":"Mở đầu",' };
+                yield { text: '"choices":[]}', usageMetadata: { totalTokenCount: 42 } };
+            });
+
+        const onText = vi.fn();
+        const onAttemptStart = vi.fn();
+        const result = await enhancedGenerateContentStream(mockAI, config, { onText, onAttemptStart }, undefined, 'test_stream');
+
+        expect(mockAI.generateStream).toHaveBeenCalledTimes(2);
+        expect(onAttemptStart).toHaveBeenCalledTimes(2);
+        expect(onText).toHaveBeenLastCalledWith('{"story":"Mở đầu","choices":[]}');
+        expect(result.text).toBe('{"story":"Mở đầu","choices":[]}');
+        expect(result.usageMetadata.totalTokenCount).toBe(42);
+    });
+
+    it('should not retry or queue a cancelled stream', async () => {
+        const controller = new AbortController();
+        mockAI.generateStream.mockImplementation(async function* () {
+            yield { text: '{"story":"' };
+            controller.abort();
+            yield { text: 'never shown' };
+        });
+
+        const error = await enhancedGenerateContentStream(
+            mockAI, config, { onText: vi.fn() }, controller.signal, 'test_stream_cancel', 'cancelled_choice', { turn: 1 }
+        ).catch(e => e);
+
+        expect(isAbortError(error)).toBe(true);
+        expect(mockAI.generateStream).toHaveBeenCalledOnce();
+        expect(apiRetrySystem.getQueuedChoices().some(c => c.choiceId === 'cancelled_choice')).toBe(false);
     });
 });
 
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RuleActivationEngine } from './RuleActivationEngine';
+import { RuleHelpers } from './RuleHelpers';
+import type { CustomRule, Entity, GameHistoryEntry } from '../types';
+
+const rule = (id: string, keywords: string[], content: string, extra: Partial<CustomRule> = {}): CustomRule => ({
+    ...RuleHelpers.createDefaultRule(), id, title: id, keywords, content, ...extra
+});
+
+const activatedIds = (engine: RuleActivationEngine, rules: CustomRule[], playerInput: string, extra = {}) =>
+    engine.processRules(rules, { playerInput, currentTurn: 0, ...extra }).activatedRules.map(a => a.rule.id);
+
+describe('RuleActivationEngine', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('follows activated content through recursion up to the depth limit', () => {
+        const rules = [
+            rule('sect', ['Thanh Vân Môn'], 'Chưởng môn là Đạo Huyền.'),
+            rule('master', ['Đạo Huyền'], 'Đạo Huyền giữ Tru Tiên Kiếm.'),
+            rule('sword', ['Tru Tiên Kiếm'], 'Thanh kiếm trấn phái.')
+        ];
+        const engine = new RuleActivationEngine();
+
+        expect(activatedIds(engine, rules, 'Đến Thanh Vân Môn')).toEqual(['sect']);
+        expect(activatedIds(engine, rules, 'Đến Thanh Vân Môn', { recursiveScan: true, maxRecursionDepth: 1 }).sort())
+            .toEqual(['master', 'sect']);
+
+        const result = engine.processRules(rules, { playerInput: 'Đến Thanh Vân Môn', recursiveScan: true });
+        expect(result.activatedRules.map(a => [a.rule.id, a.recursionDepth]).sort())
+            .toEqual([['master', 1], ['sect', 0], ['sword', 2]]);
+    });
+
+    it('honours excludeRecursion and preventRecursion', () => {
+        const engine = new RuleActivationEngine();
+        const context = { recursiveScan: true };
+
+        const excluded = [
+            rule('sect', ['Thanh Vân Môn'], 'Chưởng môn là Đạo Huyền.'),
+            rule('master', ['Đạo Huyền'], 'Trưởng lão.', { excludeRecursion: true })
+        ];
+        expect(activatedIds(engine, excluded, 'Đến Thanh Vân Môn', context)).toEqual(['sect']);
+        expect(activatedIds(engine, excluded, 'Đạo Huyền ở Thanh Vân Môn', context).sort()).toEqual(['master', 'sect']);
+
+        const prevented = [
+            rule('sect', ['Thanh Vân Môn'], 'Chưởng môn là Đạo Huyền.', { preventRecursion: true }),
+            rule('master', ['Đạo Huyền'], 'Trưởng lão.')
+        ];
+        expect(activatedIds(engine, prevented, 'Đến Thanh Vân Môn', context)).toEqual(['sect']);
+    });
+
+    it('keeps sticky rules active, then holds them back for the cooldown', () => {
+        const engine = new RuleActivationEngine();
+        const omen = rule('omen', ['sao chổi'], 'Điềm gở.', { sticky: 2, cooldown: 2 });
+        const run = (turn: number, input: string) =>
+            engine.processRules([omen], { playerInput: input, currentTurn: turn }).activatedRules.map(a => a.activationReason);
+
+        expect(run(1, 'Thấy sao chổi')).toHaveLength(1);
+        expect(omen.timedEffects).toEqual({ triggeredAt: 1, stickyUntil: 3, cooldownUntil: 5 });
+        // Rebuilding the prompt in the triggering turn matches keywords again
+        expect(run(1, 'Thấy sao chổi')).toHaveLength(1);
+        expect(run(2, 'Trời quang')[0]).toMatch(/^Sticky/);
+        expect(run(3, 'Trời quang')[0]).toMatch(/^Sticky/);
+        expect(run(4, 'Lại thấy sao chổi')).toEqual([]);
+        expect(run(5, 'Lại thấy sao chổi')).toEqual([]);
+        expect(run(6, 'Lại thấy sao chổi')).toHaveLength(1);
+        expect(omen.timedEffects?.triggeredAt).toBe(6);
+    });
+
+    it('scans recent history turns by role', () => {
+        const engine = new RuleActivationEngine();
+        const gameHistory: GameHistoryEntry[] = [
+            { role: 'user', parts: [{ text: 'Hỏi về Ma Giáo' }] },
+            { role: 'model', parts: [{ text: '{"story": "Huyết Ma xuất hiện"}' }] }
+        ];
+        const rules = [
+            rule('cult', ['Ma Giáo'], 'Tà phái.'),
+            rule('demon', ['Huyết Ma'], 'Ma đầu.', { scanAIOutput: false })
+        ];
+
+        expect(activatedIds(engine, rules, 'Đi tiếp', { gameHistory })).toEqual(['cult']);
+    });
+
+    it('scans game state sources only when the rule opts in', () => {
+        const engine = new RuleActivationEngine();
+        const pc = { name: 'Lý Phàm', type: 'pc', description: '', location: 'Thanh Vân Tông' } as Entity;
+        const context = {
+            entities: { [pc.name]: pc },
+            party: [pc, { name: 'Tiểu Vân', type: 'companion', description: '' } as Entity],
+            npcsPresent: [{ name: 'Đạo Huyền' }],
+            statuses: [{ name: 'Trúng độc', description: '', type: 'debuff' as const, source: '', owner: 'pc' }],
+            quests: [
+                { title: 'Tìm linh dược', description: '', status: 'active' as const, objectives: [] },
+                { title: 'Diệt yêu thú', description: '', status: 'completed' as const, objectives: [] }
+            ]
+        };
+        const rules = [
+            rule('sect', ['Thanh Vân Tông'], 'Đang ở tông môn.', { scanLocation: true }),
+            rule('sectIgnored', ['Thanh Vân Tông'], 'Không quét vị trí.'),
+            rule('master', ['Đạo Huyền'], 'Chưởng môn.', { scanNPCsPresent: true }),
+            rule('companion', ['Tiểu Vân'], 'Sư muội.', { scanParty: true }),
+            rule('self', ['Lý Phàm'], 'Chính mình.', { scanParty: true }),
+            rule('poison', ['Trúng độc'], 'Giải độc.', { scanStatuses: true }),
+            rule('herb', ['linh dược'], 'Dược liệu.', { scanQuests: true }),
+            rule('beast', ['yêu thú'], 'Yêu thú.', { scanQuests: true })
+        ];
+
+        expect(activatedIds(engine, rules, 'Nghỉ ngơi', context).sort())
+            .toEqual(['companion', 'herb', 'master', 'poison', 'sect']);
+    });
+
+    it('injects one rule per inclusion group, drawn by weight', () => {
+        const engine = new RuleActivationEngine();
+        const rules = [
+            rule('rain', ['trời'], 'Mưa.', { group: 'weather', groupWeight: 1 }),
+            rule('snow', ['trời'], 'Tuyết.', { group: 'weather', groupWeight: 3 }),
+            rule('wind', ['trời'], 'Gió.', { group: 'weather, sky', groupWeight: 0 }),
+            rule('sun', ['trời'], 'Nắng.', { group: 'sky' })
+        ];
+
+        vi.spyOn(Math, 'random').mockReturnValue(0.5);
+        const result = engine.processRules(rules, { playerInput: 'Nhìn trời', currentTurn: 0 });
+
+        expect(result.activatedRules.map(a => a.rule.id).sort()).toEqual(['snow', 'sun']);
+        expect(result.skippedRules.map(r => r.id).sort()).toEqual(['rain', 'wind']);
+    });
+
+    it('lets group override pick the highest order and keeps filled groups closed in recursion', () => {
+        const engine = new RuleActivationEngine();
+        const rules = [
+            rule('storm', ['trời'], 'Bão tố nổi lên.', { group: 'weather', groupOverride: true, order: 10 }),
+            rule('calm', ['trời', 'Bão'], 'Trời yên.', { group: 'weather', groupOverride: true, order: 5 }),
+            rule('flood', ['Bão'], 'Lũ lụt.', { group: 'weather', order: 50 })
+        ];
+
+        const ids = activatedIds(engine, rules, 'Nhìn trời', { recursiveScan: true });
+        expect(ids).toEqual(['storm']);
+    });
+
+    it('does not activate delayed rules before their turn', () => {
+        const engine = new RuleActivationEngine();
+        const secret = rule('secret', ['bí cảnh'], 'Lối vào bí cảnh.', { delay: 3 });
+
+        expect(activatedIds(engine, [secret], 'Tìm bí cảnh', { currentTurn: 2 })).toEqual([]);
+        expect(activatedIds(engine, [secret], 'Tìm bí cảnh', { currentTurn: 3 })).toEqual(['secret']);
+    });
+});
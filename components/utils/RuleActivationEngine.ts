@@ -1,4 +1,4 @@
-import { CustomRule, RuleLogic, SaveData, Entity, Memory, GameHistoryEntry } from '../types.ts';
+import { CustomRule, RuleLogic, SaveData, Entity, Memory, GameHistoryEntry, Status, Quest, NPCPresent } from '../types.ts';
 
 export interface ActivationContext {
     // Chat context
@@ -9,6 +9,10 @@ export interface ActivationContext {
     // Game state
     entities?: { [name: string]: Entity };
     memories?: Memory[];
+    party?: Entity[];
+    statuses?: Status[];
+    quests?: Quest[];
+    npcsPresent?: NPCPresent[];
     currentTurn?: number;
     
     // Scanning options
@@ -16,6 +20,10 @@ export interface ActivationContext {
     tokenBudget?: number;
     caseSensitive?: boolean;
     matchWholeWords?: boolean;
+    
+    // Recursive scanning
+    recursiveScan?: boolean;
+    maxRecursionDepth?: number;
 }
 
 export interface ActivatedRule {
@@ -24,6 +32,8 @@ export interface ActivatedRule {
     matchedKeywords: string[];
     tokenCost: number;
     priority: number;
+    recursionDepth?: number;    // 0 = matched chat text, N = matched content from round N
+    stickyUntil?: number;       // Last turn of the sticky effect that kept the rule in
 }
 
 export interface ActivationResult {
@@ -33,6 +43,19 @@ export interface ActivationResult {
     skippedRules: CustomRule[];
 }
 
+// Recursion rounds allowed when recursive scanning is on but no depth is given
+export const DEFAULT_MAX_RECURSION_DEPTH = 3;
+
+// Weight of an inclusion group member that does not set groupWeight
+export const DEFAULT_GROUP_WEIGHT = 100;
+
+// A rule whose keywords matched in the current scan round, before group selection
+interface MatchedRule {
+    rule: CustomRule;
+    reason: string;
+    matchedKeywords: string[];
+}
+
 /**
  * Advanced rule activation engine inspired by SillyTavern's World Info system
  */
@@ -231,10 +254,9 @@ export class RuleActivationEngine {
         if (context.gameHistory && context.gameHistory.length > 0) {
             const recentHistory = context.gameHistory.slice(-depth);
             for (const entry of recentHistory) {
-                if (entry.type === 'user_action' && rule.scanPlayerInput !== false) {
-                    scanText += entry.content + ' ';
-                } else if (entry.type === 'ai_response' && rule.scanAIOutput !== false) {
-                    scanText += entry.content + ' ';
+                const included = entry.role === 'user' ? rule.scanPlayerInput !== false : rule.scanAIOutput !== false;
+                if (included) {
+                    scanText += (entry.parts || []).map(part => part.text).join(' ') + ' ';
                 }
             }
         }
@@ -250,11 +272,134 @@ export class RuleActivationEngine {
             }
         }
 
+        // Game state sources (opt-in per rule)
+        const stateNames: string[] = [];
+        if (rule.scanLocation) {
+            const pc = Object.values(context.entities || {}).find(entity => entity.type === 'pc');
+            if (pc?.location) stateNames.push(pc.location);
+        }
+        if (rule.scanNPCsPresent) {
+            stateNames.push(...(context.npcsPresent || []).map(npc => npc.name));
+        }
+        if (rule.scanParty) {
+            stateNames.push(...(context.party || []).filter(member => member.type !== 'pc').map(member => member.name));
+        }
+        if (rule.scanStatuses) {
+            stateNames.push(...(context.statuses || []).map(status => status.name));
+        }
+        if (rule.scanQuests) {
+            stateNames.push(...(context.quests || []).filter(quest => quest.status === 'active').map(quest => quest.title));
+        }
+        // Kept apart from each other so keywords cannot match across two names
+        scanText += stateNames.filter(Boolean).join(' | ');
+
         return scanText.trim();
     }
 
+    /**
+     * Check the rule's delay and its sticky/cooldown window for this turn. The turn that
+     * started the window is evaluated normally, so building several prompts in one turn
+     * gives the same result.
+     */
+    private getTimedState(rule: CustomRule, currentTurn: number): 'delayed' | 'sticky' | 'cooldown' | null {
+        if (rule.delay && currentTurn < rule.delay) {
+            return 'delayed';
+        }
+
+        const effects = rule.timedEffects;
+        if (effects && currentTurn > effects.triggeredAt) {
+            if (effects.stickyUntil !== undefined && currentTurn <= effects.stickyUntil) {
+                return 'sticky';
+            }
+            if (effects.cooldownUntil !== undefined && currentTurn <= effects.cooldownUntil) {
+                return 'cooldown';
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Start the sticky/cooldown window after a keyword activation
+     */
+    private startTimedEffects(rule: CustomRule, currentTurn: number): void {
+        if (!rule.sticky && !rule.cooldown) {
+            rule.timedEffects = undefined;
+            return;
+        }
+
+        const stickyUntil = rule.sticky ? currentTurn + rule.sticky : undefined;
+        rule.timedEffects = {
+            triggeredAt: currentTurn,
+            stickyUntil,
+            cooldownUntil: rule.cooldown ? (stickyUntil ?? currentTurn) + rule.cooldown : undefined
+        };
+    }
+
+    /**
+     * Inclusion groups of a rule (comma separated, as in SillyTavern)
+     */
+    private getGroups(rule: CustomRule): string[] {
+        return (rule.group || '').split(',').map(group => group.trim()).filter(Boolean);
+    }
+
+    /**
+     * Keep at most one rule per inclusion group. Groups already filled by an activated rule
+     * (including sticky ones) take no new members. Otherwise a rule with groupOverride wins by
+     * highest order, and without one the winner is drawn by groupWeight.
+     */
+    private selectGroupWinners(
+        matched: MatchedRule[],
+        activated: ActivatedRule[]
+    ): { winners: MatchedRule[]; losers: CustomRule[] } {
+        const filledGroups = new Set(activated.flatMap(entry => this.getGroups(entry.rule)));
+        const losing = new Set<MatchedRule>(
+            matched.filter(candidate => this.getGroups(candidate.rule).some(group => filledGroups.has(group)))
+        );
+
+        const members = new Map<string, MatchedRule[]>();
+        for (const candidate of matched) {
+            if (losing.has(candidate)) continue;
+            for (const group of this.getGroups(candidate.rule)) {
+                members.set(group, [...(members.get(group) || []), candidate]);
+            }
+        }
+
+        for (const groupMembers of members.values()) {
+            const contenders = groupMembers.filter(candidate => !losing.has(candidate));
+            if (contenders.length < 2) continue;
+
+            const overrides = contenders.filter(candidate => candidate.rule.groupOverride);
+            const winner = overrides.length > 0
+                ? overrides.reduce((best, candidate) => (candidate.rule.order || 0) > (best.rule.order || 0) ? candidate : best)
+                : this.pickWeighted(contenders);
+            contenders.filter(candidate => candidate !== winner).forEach(candidate => losing.add(candidate));
+        }
+
+        return {
+            winners: matched.filter(candidate => !losing.has(candidate)),
+            losers: matched.filter(candidate => losing.has(candidate)).map(candidate => candidate.rule)
+        };
+    }
+
+    private pickWeighted(candidates: MatchedRule[]): MatchedRule {
+        const weightOf = (candidate: MatchedRule) => Math.max(0, candidate.rule.groupWeight ?? DEFAULT_GROUP_WEIGHT);
+        const total = candidates.reduce((sum, candidate) => sum + weightOf(candidate), 0);
+        if (total <= 0) return candidates[0];
+
+        let roll = Math.random() * total;
+        for (const candidate of candidates) {
+            roll -= weightOf(candidate);
+            if (roll < 0) return candidate;
+        }
+        return candidates[candidates.length - 1];
+    }
+
     /**
      * Process all rules and return activated ones
+     *
+     * Rules are first matched against the chat text. With recursive scanning on, the content
+     * of rules activated in one round is added to the scan text of the next, up to
+     * maxRecursionDepth rounds or until a round activates nothing new.
      */
     processRules(rules: CustomRule[], context: ActivationContext): ActivationResult {
         const activated: ActivatedRule[] = [];
@@ -262,6 +407,7 @@ export class RuleActivationEngine {
         let totalTokens = 0;
         const tokenBudget = context.tokenBudget || 5000; // Default 5K token budget
         const currentTurn = context.currentTurn || 0;
+        const maxRecursionDepth = context.recursiveScan ? (context.maxRecursionDepth ?? DEFAULT_MAX_RECURSION_DEPTH) : 0;
 
         // Filter active rules and sort by priority
         const activeRules = rules
@@ -278,90 +424,147 @@ export class RuleActivationEngine {
         ❌ Inactive Rules: ${inactiveRules.length}
         🌟 Always Active: ${alwaysActiveRules.length}
         🔑 Keyword-Based: ${keywordBasedRules.length}
+        🔁 Recursion Depth: ${maxRecursionDepth}
         💰 Token Budget: ${tokenBudget}`);
 
-        for (const rule of activeRules) {
-            try {
-                // Check activation limits
-                if (!this.checkActivationLimits(rule, currentTurn)) {
-                    skipped.push(rule);
-                    continue;
-                }
-
-                // Check probability
-                if (!this.checkProbability(rule)) {
-                    skipped.push(rule);
-                    continue;
-                }
+        const activate = (rule: CustomRule, reason: string, matchedKeywords: string[], recursionDepth: number, stickyUntil?: number): boolean => {
+            // Calculate token cost
+            const tokenCost = rule.tokenWeight || this.estimateTokens(rule.content);
+            
+            // Check token budget
+            if (totalTokens + tokenCost > tokenBudget) {
+                skipped.push(rule);
+                return false;
+            }
 
-                // Collect text to scan
-                const scanText = this.collectScanText(rule, context);
-                if (!scanText) {
-                    continue;
-                }
+            // Rule activated!
+            activated.push({
+                rule,
+                activationReason: reason,
+                matchedKeywords,
+                tokenCost,
+                priority: rule.order || 0,
+                recursionDepth,
+                ...(stickyUntil !== undefined ? { stickyUntil } : {})
+            });
+            totalTokens += tokenCost;
+
+            // Update activation history
+            const history = this.activationHistory.get(rule.id) || [];
+            history.push(currentTurn);
+            this.activationHistory.set(rule.id, history);
+
+            // Update rule metadata
+            rule.lastActivated = currentTurn;
+            rule.activationCount = (rule.activationCount || 0) + 1;
+            return true;
+        };
 
-                // Check keyword matches
-                const primaryMatch = this.checkKeywordMatch(
-                    scanText,
-                    rule.keywords || [],
-                    rule.caseSensitive || context.caseSensitive,
-                    rule.matchWholeWords || context.matchWholeWords
-                );
-
-                const secondaryMatch = this.checkKeywordMatch(
-                    scanText,
-                    rule.secondaryKeywords || [],
-                    rule.caseSensitive || context.caseSensitive,
-                    rule.matchWholeWords || context.matchWholeWords
-                );
-
-                // Evaluate rule logic
-                const logicResult = this.evaluateRuleLogic(
-                    rule,
-                    primaryMatch.matchedKeywords,
-                    secondaryMatch.matchedKeywords,
-                    scanText
-                );
-
-                if (!logicResult.activated) {
-                    skipped.push(rule);
-                    continue;
-                }
+        // Rules still waiting for a keyword match
+        let pending: CustomRule[] = [];
 
-                // Calculate token cost
-                const tokenCost = rule.tokenWeight || this.estimateTokens(rule.content);
-                
-                // Check token budget
-                if (totalTokens + tokenCost > tokenBudget) {
-                    skipped.push(rule);
-                    continue;
-                }
+        for (const rule of activeRules) {
+            const timedState = this.getTimedState(rule, currentTurn);
+            if (timedState === 'delayed' || timedState === 'cooldown') {
+                skipped.push(rule);
+                continue;
+            }
 
-                // Rule activated!
-                const activatedRule: ActivatedRule = {
-                    rule,
-                    activationReason: logicResult.reason,
-                    matchedKeywords: logicResult.matchedKeywords,
-                    tokenCost,
-                    priority: rule.order || 0
-                };
+            // Sticky rules stay in the prompt without their keywords
+            if (timedState === 'sticky') {
+                const stickyUntil = rule.timedEffects!.stickyUntil!;
+                activate(rule, `Sticky until turn ${stickyUntil + 1}`, [], 0, stickyUntil);
+                continue;
+            }
 
-                activated.push(activatedRule);
-                totalTokens += tokenCost;
+            // Check activation limits
+            if (!this.checkActivationLimits(rule, currentTurn)) {
+                skipped.push(rule);
+                continue;
+            }
 
-                // Update activation history
-                const history = this.activationHistory.get(rule.id) || [];
-                history.push(currentTurn);
-                this.activationHistory.set(rule.id, history);
+            // Check probability
+            if (!this.checkProbability(rule)) {
+                skipped.push(rule);
+                continue;
+            }
 
-                // Update rule metadata
-                rule.lastActivated = currentTurn;
-                rule.activationCount = (rule.activationCount || 0) + 1;
+            pending.push(rule);
+        }
 
-            } catch (error) {
-                skipped.push(rule);
+        let recursionText = '';
+        for (let depth = 0; depth <= maxRecursionDepth && pending.length > 0; depth++) {
+            const activatedBefore = activated.length;
+            const stillPending: CustomRule[] = [];
+            const matched: MatchedRule[] = [];
+
+            for (const rule of pending) {
+                try {
+                    if (depth > 0 && rule.excludeRecursion) {
+                        stillPending.push(rule);
+                        continue;
+                    }
+
+                    // Collect text to scan
+                    const scanText = `${this.collectScanText(rule, context)} ${recursionText}`.trim();
+                    if (!scanText) {
+                        stillPending.push(rule);
+                        continue;
+                    }
+
+                    // Check keyword matches
+                    const primaryMatch = this.checkKeywordMatch(
+                        scanText,
+                        rule.keywords || [],
+                        rule.caseSensitive || context.caseSensitive,
+                        rule.matchWholeWords || context.matchWholeWords
+                    );
+
+                    const secondaryMatch = this.checkKeywordMatch(
+                        scanText,
+                        rule.secondaryKeywords || [],
+                        rule.caseSensitive || context.caseSensitive,
+                        rule.matchWholeWords || context.matchWholeWords
+                    );
+
+                    // Evaluate rule logic
+                    const logicResult = this.evaluateRuleLogic(
+                        rule,
+                        primaryMatch.matchedKeywords,
+                        secondaryMatch.matchedKeywords,
+                        scanText
+                    );
+
+                    if (!logicResult.activated) {
+                        stillPending.push(rule);
+                        continue;
+                    }
+
+                    matched.push({ rule, reason: logicResult.reason, matchedKeywords: logicResult.matchedKeywords });
+
+                } catch (error) {
+                    skipped.push(rule);
+                }
             }
+            pending = stillPending;
+
+            // Only one rule per inclusion group makes it into the prompt
+            const { winners, losers } = this.selectGroupWinners(matched, activated);
+            skipped.push(...losers);
+            for (const { rule, reason, matchedKeywords } of winners) {
+                if (activate(rule, reason, matchedKeywords, depth)) {
+                    this.startTimedEffects(rule, currentTurn);
+                }
+            }
+
+            // Content activated in this round (sticky rules included on the first) feeds the next
+            const sources = (depth === 0 ? activated : activated.slice(activatedBefore))
+                .filter(entry => !entry.rule.preventRecursion)
+                .map(entry => entry.rule.content);
+            if (sources.length === 0) break;
+            recursionText = `${recursionText} ${sources.join(' ')}`.trim();
         }
+        skipped.push(...pending);
 
         // Sort activated rules by priority (higher first)
         activated.sort((a, b) => b.priority - a.priority);
@@ -1,4 +1,5 @@
 import { CustomRule, RuleLogic } from '../types.ts';
+import { t } from '../i18n';
 
 /**
  * Helper functions for managing custom rules
@@ -77,6 +78,14 @@ export class RuleHelpers {
             errors.push('Max activations per turn must be at least 1');
         }
 
+        if ([rule.sticky, rule.cooldown, rule.delay].some(turns => turns !== undefined && turns < 0)) {
+            errors.push('Sticky, cooldown and delay must be zero or more turns');
+        }
+
+        if (rule.groupWeight !== undefined && rule.groupWeight < 0) {
+            errors.push('Group weight cannot be negative');
+        }
+
         if (rule.scanDepth !== undefined && rule.scanDepth < 1) {
             errors.push('Scan depth must be at least 1');
         }
@@ -144,14 +153,14 @@ export class RuleHelpers {
      */
     static getAvailableCategories(): Array<{ value: string; label: string }> {
         return [
-            { value: 'general', label: '📋 Tổng quát' },
-            { value: 'combat', label: '⚔️ Chiến đấu' },
-            { value: 'social', label: '👥 Xã hội' },
-            { value: 'exploration', label: '🗺️ Khám phá' },
-            { value: 'story', label: '📖 Cốt truyện' },
-            { value: 'items', label: '🎒 Vật phẩm' },
-            { value: 'skills', label: '⭐ Kỹ năng' },
-            { value: 'world', label: '🌍 Thế giới' },
+            { value: 'general', label: t('customRules.category.general') },
+            { value: 'combat', label: t('customRules.category.combat') },
+            { value: 'social', label: t('customRules.category.social') },
+            { value: 'exploration', label: t('customRules.category.exploration') },
+            { value: 'story', label: t('customRules.category.story') },
+            { value: 'items', label: t('customRules.category.items') },
+            { value: 'skills', label: t('customRules.category.skills') },
+            { value: 'world', label: t('customRules.category.world') },
             { value: 'worldinfo', label: '🌐 WorldInfo' }
         ];
     }
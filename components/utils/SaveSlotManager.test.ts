@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SaveSlotManager, MemorySaveSlotBackend, QUICKSAVE_SLOT_ID, MAX_AUTOSAVE_SLOTS, buildSaveThumbnail, getGameDateParams } from './SaveSlotManager';
+import type { SaveData, Entity } from '../types';
+
+const makeSave = (turn: number): SaveData => ({
+    worldData: { characterName: 'Lý Phàm' },
+    knownEntities: {
+        'Lý Phàm': { name: 'Lý Phàm', type: 'pc', description: '', realm: 'Trúc Cơ', location: 'Thanh Vân Sơn' } as Entity
+    },
+    statuses: [],
+    quests: [],
+    gameHistory: [],
+    memories: [],
+    party: [],
+    customRules: [],
+    systemInstruction: '',
+    turnCount: turn,
+    totalTokens: 0,
+    gameTime: { year: 3, month: 2, day: 1, hour: 9, minute: 5 },
+    chronicle: { memoir: [], chapter: [], turn: [] }
+} as unknown as SaveData);
+
+describe('SaveSlotManager', () => {
+    let manager: SaveSlotManager;
+    let now: number;
+
+    beforeEach(() => {
+        manager = new SaveSlotManager(new MemorySaveSlotBackend());
+        now = 1_000;
+        vi.spyOn(Date, 'now').mockImplementation(() => now++);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should build a thumbnail from the player character', () => {
+        expect(buildSaveThumbnail(makeSave(12))).toEqual({
+            characterName: 'Lý Phàm',
+            realm: 'Trúc Cơ',
+            location: 'Thanh Vân Sơn',
+            turn: 12,
+            gameTime: { year: 3, month: 2, day: 1, hour: 9, minute: 5 }
+        });
+        expect(getGameDateParams({ year: 3, month: 2, day: 1, hour: 9 })).toEqual({ year: 3, month: 2, day: 1, hour: 9, minute: '00' });
+    });
+
+    it('should save, list newest first and load named slots', async () => {
+        const first = await manager.saveToSlot(makeSave(1), { name: 'Trước trận chiến' });
+        const second = await manager.saveToSlot(makeSave(2));
+
+        const slots = await manager.listSlots();
+        expect(slots.map(slot => slot.id)).toEqual([second.id, first.id]);
+        expect(first.name).toBe('Trước trận chiến');
+        expect(second.name).toBe('');
+        expect((await manager.getLatestSlot())?.id).toBe(second.id);
+
+        const loaded = await manager.loadSlot(first.id);
+        expect(loaded?.turnCount).toBe(1);
+
+        await manager.deleteSlot(first.id);
+        expect(await manager.loadSlot(first.id)).toBeNull();
+    });
+
+    it('should rotate autosaves and keep a single quicksave', async () => {
+        for (let turn = 1; turn <= MAX_AUTOSAVE_SLOTS + 2; turn++) {
+            await manager.autosave(makeSave(turn * 5));
+        }
+        const autosaves = (await manager.listSlots()).filter(slot => slot.kind === 'auto');
+        expect(autosaves).toHaveLength(MAX_AUTOSAVE_SLOTS);
+        expect(autosaves.map(slot => slot.thumbnail.turn)).toEqual([25, 20, 15]);
+
+        await manager.quicksave(makeSave(7));
+        await manager.quicksave(makeSave(8));
+        const quicksaves = (await manager.listSlots()).filter(slot => slot.id === QUICKSAVE_SLOT_ID);
+        expect(quicksaves).toHaveLength(1);
+        expect((await manager.quickload())?.turnCount).toBe(8);
+    });
+});
@@ -0,0 +1,224 @@
+// SaveSlotManager.ts - In-browser save library (named slots, autosave, quicksave) backed by IndexedDB
+
+import type { TranslationParams } from '../i18n';
+import type { SaveData, SaveSlotKind, SaveSlotMeta, SaveSlotThumbnail } from '../types';
+
+export const QUICKSAVE_SLOT_ID = 'quicksave';
+export const MAX_AUTOSAVE_SLOTS = 3;
+
+const DB_NAME = 'rpgai-save-library';
+const DB_VERSION = 1;
+const META_STORE = 'slotMeta';
+const DATA_STORE = 'slotData';
+
+/**
+ * Storage for slot metadata and save payloads. Metadata is kept apart from the payload
+ * so the save list can be shown without reading several MB per slot.
+ */
+export interface SaveSlotBackend {
+    listMeta(): Promise<SaveSlotMeta[]>;
+    getData(id: string): Promise<string | null>;
+    put(meta: SaveSlotMeta, data: string): Promise<void>;
+    remove(id: string): Promise<void>;
+}
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const promisifyTransaction = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+export class IndexedDBSaveSlotBackend implements SaveSlotBackend {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    private openDb(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(META_STORE)) {
+                        db.createObjectStore(META_STORE, { keyPath: 'id' });
+                    }
+                    if (!db.objectStoreNames.contains(DATA_STORE)) {
+                        db.createObjectStore(DATA_STORE);
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this.dbPromise = null;
+                    reject(request.error);
+                };
+            });
+        }
+        return this.dbPromise;
+    }
+
+    async listMeta(): Promise<SaveSlotMeta[]> {
+        const db = await this.openDb();
+        return promisifyRequest(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).getAll());
+    }
+
+    async getData(id: string): Promise<string | null> {
+        const db = await this.openDb();
+        const data = await promisifyRequest(db.transaction(DATA_STORE, 'readonly').objectStore(DATA_STORE).get(id));
+        return typeof data === 'string' ? data : null;
+    }
+
+    async put(meta: SaveSlotMeta, data: string): Promise<void> {
+        const db = await this.openDb();
+        const transaction = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+        transaction.objectStore(DATA_STORE).put(data, meta.id);
+        transaction.objectStore(META_STORE).put(meta);
+        await promisifyTransaction(transaction);
+    }
+
+    async remove(id: string): Promise<void> {
+        const db = await this.openDb();
+        const transaction = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+        transaction.objectStore(DATA_STORE).delete(id);
+        transaction.objectStore(META_STORE).delete(id);
+        await promisifyTransaction(transaction);
+    }
+}
+
+// Fallback for environments without IndexedDB (private browsing on some browsers, tests)
+export class MemorySaveSlotBackend implements SaveSlotBackend {
+    private meta = new Map<string, SaveSlotMeta>();
+    private data = new Map<string, string>();
+
+    async listMeta(): Promise<SaveSlotMeta[]> {
+        return Array.from(this.meta.values());
+    }
+
+    async getData(id: string): Promise<string | null> {
+        return this.data.get(id) ?? null;
+    }
+
+    async put(meta: SaveSlotMeta, data: string): Promise<void> {
+        this.meta.set(meta.id, meta);
+        this.data.set(meta.id, data);
+    }
+
+    async remove(id: string): Promise<void> {
+        this.meta.delete(id);
+        this.data.delete(id);
+    }
+}
+
+const createDefaultBackend = (): SaveSlotBackend => {
+    if (typeof indexedDB !== 'undefined') {
+        return new IndexedDBSaveSlotBackend();
+    }
+    console.warn('⚠️ IndexedDB is not available, in-browser saves will only last for this session');
+    return new MemorySaveSlotBackend();
+};
+
+/** Parameters for the 'saveLibrary.gameDate' message; gameTime in older saves has no minute field */
+export const getGameDateParams = (gameTime: SaveData['gameTime'] | undefined): TranslationParams => {
+    const time = gameTime || {} as SaveData['gameTime'];
+    const hour = Number.isFinite(time.hour) ? time.hour : 0;
+    const minute = Number.isFinite(time.minute) ? time.minute! : 0;
+    return { year: time.year || 1, month: time.month || 1, day: time.day || 1, hour, minute: minute.toString().padStart(2, '0') };
+};
+
+export const buildSaveThumbnail = (data: SaveData): SaveSlotThumbnail => {
+    const pc = Object.values(data.knownEntities || {}).find(entity => entity.type === 'pc');
+    const characterName = data.worldData?.characterName || pc?.name;
+    return {
+        ...(characterName ? { characterName } : {}),
+        realm: pc?.realm,
+        location: pc?.location,
+        turn: data.turnCount || 0,
+        gameTime: data.gameTime
+    };
+};
+
+export class SaveSlotManager {
+    private backendInstance: SaveSlotBackend | null;
+
+    constructor(backend?: SaveSlotBackend) {
+        this.backendInstance = backend || null;
+    }
+
+    // Created on first use so importing this module never touches IndexedDB
+    private get backend(): SaveSlotBackend {
+        if (!this.backendInstance) {
+            this.backendInstance = createDefaultBackend();
+        }
+        return this.backendInstance;
+    }
+
+    generateSlotId(kind: SaveSlotKind): string {
+        return `${kind}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    }
+
+    /** All slots, newest first */
+    async listSlots(): Promise<SaveSlotMeta[]> {
+        const slots = await this.backend.listMeta();
+        return slots.sort((a, b) => b.savedAt - a.savedAt);
+    }
+
+    /** The most recently written slot, used by the main menu "Continue" entry */
+    async getLatestSlot(): Promise<SaveSlotMeta | null> {
+        const slots = await this.listSlots();
+        return slots[0] || null;
+    }
+
+    async saveToSlot(
+        data: SaveData,
+        options: { name?: string; kind?: SaveSlotKind; id?: string } = {}
+    ): Promise<SaveSlotMeta> {
+        const kind = options.kind || 'manual';
+        const json = JSON.stringify(data);
+        const thumbnail = buildSaveThumbnail(data);
+        const meta: SaveSlotMeta = {
+            id: options.id || this.generateSlotId(kind),
+            name: options.name?.trim() || '',
+            kind,
+            savedAt: Date.now(),
+            sizeBytes: json.length,
+            thumbnail
+        };
+        await this.backend.put(meta, json);
+        console.log(`💾 Saved slot "${meta.name || meta.id}" (${kind}, ${(meta.sizeBytes / 1024).toFixed(1)} KB)`);
+        return meta;
+    }
+
+    async loadSlot(id: string): Promise<SaveData | null> {
+        const json = await this.backend.getData(id);
+        if (!json) return null;
+        return JSON.parse(json);
+    }
+
+    async deleteSlot(id: string): Promise<void> {
+        await this.backend.remove(id);
+    }
+
+    /** Writes an autosave, overwriting the oldest one once MAX_AUTOSAVE_SLOTS exist */
+    async autosave(data: SaveData): Promise<SaveSlotMeta> {
+        const autosaves = (await this.listSlots()).filter(slot => slot.kind === 'auto');
+        const reuseId = autosaves.length >= MAX_AUTOSAVE_SLOTS ? autosaves[autosaves.length - 1].id : undefined;
+        return this.saveToSlot(data, { kind: 'auto', id: reuseId });
+    }
+
+    async quicksave(data: SaveData): Promise<SaveSlotMeta> {
+        return this.saveToSlot(data, { kind: 'quick', id: QUICKSAVE_SLOT_ID });
+    }
+
+    async quickload(): Promise<SaveData | null> {
+        return this.loadSlot(QUICKSAVE_SLOT_ID);
+    }
+}
+
+// Export singleton instance
+export const saveSlotManager = new SaveSlotManager();
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SemanticRecall, MemoryVectorStore } from './SemanticRecall';
+import { memoryDocId, entityDocId } from './RetrievalIndex';
+import { EnhancedRAG } from './EnhancedRAG';
+import { HashingEmbeddingProvider } from '../providers/HashingEmbeddingProvider';
+import type { EmbeddingProvider, Entity, Memory, SaveData } from '../types';
+
+const betrayal: Memory = { text: 'Trưởng lão Thanh Vân phản bội tông môn, bán bí kíp cho Ma giáo', pinned: false, createdAt: 1 };
+const market: Memory = { text: 'Mua ba gốc nhân sâm ở chợ phiên dưới chân núi', pinned: false, createdAt: 9 };
+
+const state = (): SaveData => ({
+    turnCount: 10,
+    memories: [betrayal, market],
+    chronicle: { memoir: [], chapter: ['Chương một: rời làng lên núi bái sư'], turn: [] },
+    knownEntities: {
+        'Lý Trưởng Lão': { name: 'Lý Trưởng Lão', type: 'npc', description: 'Trưởng lão phản bội Thanh Vân' } as Entity
+    },
+    party: []
+} as unknown as SaveData);
+
+describe('SemanticRecall', () => {
+    let store: MemoryVectorStore;
+    let provider: HashingEmbeddingProvider;
+
+    beforeEach(() => {
+        store = new MemoryVectorStore();
+        provider = new HashingEmbeddingProvider();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('embeds only new or changed documents and keeps them in the store', async () => {
+        const recall = new SemanticRecall(store);
+        const embed = vi.spyOn(provider, 'embed');
+
+        expect(await recall.sync(state(), provider)).toEqual({ added: 4, updated: 0, removed: 0 });
+        expect(await recall.sync(state(), provider)).toEqual({ added: 0, updated: 0, removed: 0 });
+        expect(embed).toHaveBeenCalledTimes(1);
+
+        const changed = state();
+        changed.memories = [betrayal];
+        changed.knownEntities['Lý Trưởng Lão'].description = 'Đã bị trục xuất';
+        expect(await recall.sync(changed, provider)).toEqual({ added: 0, updated: 1, removed: 1 });
+        expect(embed).toHaveBeenLastCalledWith(['Lý Trưởng Lão: Đã bị trục xuất']);
+
+        // A fresh instance picks the vectors up from the store instead of embedding again
+        const reloaded = new SemanticRecall(store);
+        expect(await reloaded.sync(changed, provider)).toEqual({ added: 0, updated: 0, removed: 0 });
+        expect(reloaded.size).toBe(3);
+    });
+
+    it('keeps vector spaces of different providers apart', async () => {
+        const recall = new SemanticRecall(store);
+        await recall.sync(state(), provider);
+
+        const other: EmbeddingProvider = { id: 'other', embed: vi.fn(async (texts: string[]) => texts.map(() => [1, 0])) };
+        expect(await recall.sync(state(), other)).toEqual({ added: 4, updated: 0, removed: 0 });
+        expect(await store.load(provider.id)).toHaveLength(4);
+        expect(await recall.scores('phản bội', provider)).toEqual(new Map());
+    });
+
+    it('scores documents against the action, scaled per kind', async () => {
+        const recall = new SemanticRecall(store);
+        await recall.sync(state(), provider);
+
+        const scores = await recall.scores('kẻ phản bội Thanh Vân', provider);
+        expect(scores.get(memoryDocId(betrayal))).toBe(1);
+        expect(scores.get(memoryDocId(market)) || 0).toBeLessThan(1);
+        expect(scores.get(entityDocId('Lý Trưởng Lão'))).toBe(1);
+    });
+
+    it('lets semantic similarity decide between memories the keywords do not separate', () => {
+        const gameState = state();
+        const semanticScores = new Map([[memoryDocId(betrayal), 1], [entityDocId('Lý Trưởng Lão'), 1]]);
+
+        const context = EnhancedRAG.buildIntelligentContext(gameState, 'nhớ lại chuyện cũ', {
+            maxMemories: 1, maxTokens: 1000, importanceThreshold: 0, recencyWeight: 0.3,
+            relevanceWeight: 0.5, diversityWeight: 0.2, semanticWeight: 1, includeArchived: false
+        }, semanticScores);
+
+        expect(context.relevantMemories[0]).toBe(betrayal);
+        expect(context.contextualEntities.map(entity => entity.name)).toEqual(['Lý Trưởng Lão']);
+    });
+});
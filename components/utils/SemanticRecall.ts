@@ -0,0 +1,237 @@
+// SemanticRecall.ts - Embedding vectors for memories, chronicle chapters and entities
+//
+// Vectors are computed by an EmbeddingProvider and kept in a VectorStore (IndexedDB in the
+// browser), one vector space per provider id. sync() only embeds documents that are new or whose
+// text changed; scores() embeds the player's action and ranks the documents by cosine similarity.
+// The scores are blended with BM25 and the importance/recency weights by EnhancedRAG.
+
+import type { SaveData, EmbeddingProvider, VectorRecord, RetrievalDocKind } from '../types';
+import { hashText, memoryDocId, chronicleDocId, entityDocId } from './RetrievalIndex';
+import type { RetrievalSyncResult } from './RetrievalIndex';
+
+const DB_NAME = 'rpgai-vectors';
+const DB_VERSION = 1;
+const VECTOR_STORE = 'vectors';
+const SPACE_INDEX = 'space';
+
+// Cosine similarity below this counts as unrelated (hashed vectors of unrelated texts still overlap a little)
+const MIN_SIMILARITY = 0.1;
+
+/**
+ * Storage for vectors, partitioned by vector space (the embedding provider id)
+ */
+export interface VectorStore {
+    load(space: string): Promise<VectorRecord[]>;
+    put(space: string, records: VectorRecord[]): Promise<void>;
+    remove(space: string, ids: string[]): Promise<void>;
+}
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const promisifyTransaction = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+export class IndexedDBVectorStore implements VectorStore {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    private openDb(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(VECTOR_STORE)) {
+                        const store = db.createObjectStore(VECTOR_STORE, { keyPath: ['space', 'id'] });
+                        store.createIndex(SPACE_INDEX, 'space');
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this.dbPromise = null;
+                    reject(request.error);
+                };
+            });
+        }
+        return this.dbPromise;
+    }
+
+    async load(space: string): Promise<VectorRecord[]> {
+        const db = await this.openDb();
+        const rows = await promisifyRequest(
+            db.transaction(VECTOR_STORE, 'readonly').objectStore(VECTOR_STORE).index(SPACE_INDEX).getAll(space)
+        );
+        return rows.map(({ space: _space, ...record }) => record as VectorRecord);
+    }
+
+    async put(space: string, records: VectorRecord[]): Promise<void> {
+        const db = await this.openDb();
+        const transaction = db.transaction(VECTOR_STORE, 'readwrite');
+        const store = transaction.objectStore(VECTOR_STORE);
+        records.forEach(record => store.put({ ...record, space }));
+        await promisifyTransaction(transaction);
+    }
+
+    async remove(space: string, ids: string[]): Promise<void> {
+        const db = await this.openDb();
+        const transaction = db.transaction(VECTOR_STORE, 'readwrite');
+        const store = transaction.objectStore(VECTOR_STORE);
+        ids.forEach(id => store.delete([space, id]));
+        await promisifyTransaction(transaction);
+    }
+}
+
+// Fallback for environments without IndexedDB (private browsing on some browsers, tests)
+export class MemoryVectorStore implements VectorStore {
+    private spaces = new Map<string, Map<string, VectorRecord>>();
+
+    private space(space: string): Map<string, VectorRecord> {
+        if (!this.spaces.has(space)) this.spaces.set(space, new Map());
+        return this.spaces.get(space)!;
+    }
+
+    async load(space: string): Promise<VectorRecord[]> {
+        return Array.from(this.space(space).values());
+    }
+
+    async put(space: string, records: VectorRecord[]): Promise<void> {
+        records.forEach(record => this.space(space).set(record.id, record));
+    }
+
+    async remove(space: string, ids: string[]): Promise<void> {
+        ids.forEach(id => this.space(space).delete(id));
+    }
+}
+
+const createDefaultStore = (): VectorStore => {
+    if (typeof indexedDB !== 'undefined') {
+        return new IndexedDBVectorStore();
+    }
+    console.warn('⚠️ IndexedDB is not available, embedding vectors will only last for this session');
+    return new MemoryVectorStore();
+};
+
+/** The documents that get a vector: memories, chronicle chapters and entity descriptions */
+export const collectSemanticDocs = (gameState: SaveData): Map<string, { kind: RetrievalDocKind; text: string }> => {
+    const docs = new Map<string, { kind: RetrievalDocKind; text: string }>();
+    [...(gameState.memories || []), ...(gameState.archivedMemories || [])].forEach(memory => {
+        if (memory.text) docs.set(memoryDocId(memory), { kind: 'memory', text: memory.text });
+    });
+    (gameState.chronicle?.chapter || []).forEach(text => {
+        if (text) docs.set(chronicleDocId('chapter', text), { kind: 'chronicle', text });
+    });
+    Object.values(gameState.knownEntities || {}).forEach(entity => {
+        if (entity?.name && entity.description) {
+            docs.set(entityDocId(entity.name), { kind: 'entity', text: `${entity.name}: ${entity.description}` });
+        }
+    });
+    return docs;
+};
+
+const cosine = (a: number[], b: number[]): number => {
+    if (a.length !== b.length) return 0;
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+export class SemanticRecall {
+    private storeInstance: VectorStore | null;
+    private space: string | null = null;
+    private vectors = new Map<string, VectorRecord>();
+
+    constructor(store?: VectorStore) {
+        this.storeInstance = store || null;
+    }
+
+    // Created on first use so importing this module never touches IndexedDB
+    private get store(): VectorStore {
+        if (!this.storeInstance) {
+            this.storeInstance = createDefaultStore();
+        }
+        return this.storeInstance;
+    }
+
+    get size(): number {
+        return this.vectors.size;
+    }
+
+    /**
+     * Embeds the documents that are new or changed and drops the ones the game no longer has.
+     * Switching provider loads that provider's vector space from the store first.
+     */
+    async sync(gameState: SaveData, provider: EmbeddingProvider): Promise<RetrievalSyncResult> {
+        if (this.space !== provider.id) {
+            const records = await this.store.load(provider.id);
+            this.vectors = new Map(records.map(record => [record.id, record]));
+            this.space = provider.id;
+        }
+
+        const wanted = collectSemanticDocs(gameState);
+        const result: RetrievalSyncResult = { added: 0, updated: 0, removed: 0 };
+
+        const pending = [...wanted.entries()]
+            .map(([id, doc]) => ({ id, ...doc, hash: hashText(doc.text) }))
+            .filter(doc => this.vectors.get(doc.id)?.hash !== doc.hash);
+        if (pending.length > 0) {
+            const embedded = await provider.embed(pending.map(doc => doc.text));
+            const records: VectorRecord[] = pending.map((doc, index) => ({ id: doc.id, kind: doc.kind, hash: doc.hash, vector: embedded[index] }));
+            records.forEach(record => {
+                if (this.vectors.has(record.id)) result.updated++; else result.added++;
+                this.vectors.set(record.id, record);
+            });
+            await this.store.put(provider.id, records);
+        }
+
+        const stale = [...this.vectors.keys()].filter(id => !wanted.has(id));
+        if (stale.length > 0) {
+            stale.forEach(id => this.vectors.delete(id));
+            result.removed = stale.length;
+            await this.store.remove(provider.id, stale);
+        }
+
+        if (result.added || result.updated || result.removed) {
+            console.log(`🧭 Semantic recall: +${result.added} ~${result.updated} -${result.removed} (${this.vectors.size} vectors, ${provider.id})`);
+        }
+        return result;
+    }
+
+    /**
+     * Similarity of every document to the query, scaled to 0..1 against the closest document
+     * of the same kind so it can be blended with the relative BM25 scores
+     */
+    async scores(query: string, provider: EmbeddingProvider): Promise<Map<string, number>> {
+        const scores = new Map<string, number>();
+        if (this.space !== provider.id || !query.trim() || this.vectors.size === 0) return scores;
+
+        const [queryVector] = await provider.embed([query]);
+        const best = new Map<RetrievalDocKind, number>();
+        const similarities = [...this.vectors.values()].map(record => {
+            const raw = cosine(queryVector, record.vector);
+            const similarity = raw >= MIN_SIMILARITY ? raw : 0;
+            best.set(record.kind, Math.max(best.get(record.kind) || 0, similarity));
+            return { record, similarity };
+        });
+        similarities.forEach(({ record, similarity }) => {
+            const top = best.get(record.kind) || 0;
+            if (similarity > 0 && top > 0) scores.set(record.id, similarity / top);
+        });
+        return scores;
+    }
+}
+
+// Shared recall used by the turn pipeline
+export const semanticRecall = new SemanticRecall();
@@ -1,6 +1,7 @@
 import type { Memory, SaveData, Entity, GameHistoryEntry } from '../types';
 import { MemoryEnhancer } from './MemoryEnhancer';
 import { ImportanceScorer } from './ImportanceScorer';
+import { regexEngine, RegexPlacement } from './RegexEngine';
 
 export interface MemoryGenerationResult {
     memories: Memory[];
@@ -116,7 +117,14 @@ export class SmartMemoryGenerator {
         const deduplicatedMemories = this.deduplicateMemories(memories);
         const finalMemories = deduplicatedMemories
             .sort((a, b) => (b.importance || 0) - (a.importance || 0))
-            .slice(0, config.maxMemoriesPerTurn);
+            .slice(0, config.maxMemoriesPerTurn)
+            .map(mem => ({
+                ...mem,
+                text: regexEngine.processText(mem.text, RegexPlacement.MEMORY_PROCESSING, gameState.regexRules || [], {
+                    depth: gameState.turnCount || 0,
+                    isEdit: false
+                })
+            }));
 
         const highImportanceCount = finalMemories.filter(mem => 
             (mem.importance || 0) >= 70
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { TurnSnapshotManager } from './TurnSnapshotManager';
+import type { TurnSnapshotState, Entity } from '../types';
+
+const makeState = (turn: number, overrides: Partial<TurnSnapshotState> = {}): TurnSnapshotState => ({
+    knownEntities: { 'Lý Phàm': { name: 'Lý Phàm', type: 'pc', description: 'Nhân vật chính' } as Entity },
+    statuses: [],
+    quests: [],
+    party: [],
+    memories: [],
+    gameTime: { year: 1, month: 1, day: 1, hour: 8 + turn },
+    chronicle: { memoir: [], chapter: [], turn: [] },
+    gameHistory: [],
+    storyLog: Array.from({ length: turn + 1 }, (_, i) => `Đoạn truyện ${i}`),
+    choices: [`Lựa chọn ${turn}`],
+    turnCount: turn,
+    locationDiscoveryOrder: ['Thanh Vân Sơn', ...(turn > 1 ? ['Lạc Dương'] : [])],
+    compressedHistory: [],
+    ...overrides
+});
+
+describe('TurnSnapshotManager', () => {
+    it('should undo and redo between recorded turns', () => {
+        const manager = new TurnSnapshotManager();
+        manager.record(0, makeState(0));
+        manager.record(1, makeState(1));
+        manager.record(2, makeState(2));
+
+        expect(manager.canUndo()).toBe(true);
+        expect(manager.canRedo()).toBe(false);
+
+        expect(manager.undo()?.turn).toBe(1);
+        expect(manager.undo()?.turn).toBe(0);
+        expect(manager.undo()).toBeNull();
+        expect(manager.canRedo()).toBe(true);
+
+        expect(manager.redo()?.turn).toBe(1);
+        expect(manager.current()?.state.storyLog).toHaveLength(2);
+    });
+
+    it('should drop redo history when a new turn is recorded after undo', () => {
+        const manager = new TurnSnapshotManager();
+        manager.record(0, makeState(0));
+        manager.record(1, makeState(1));
+        manager.undo();
+
+        manager.record(1, makeState(1, { choices: ['Nhánh khác'] }));
+
+        expect(manager.canRedo()).toBe(false);
+        expect(manager.current()?.state.choices).toEqual(['Nhánh khác']);
+    });
+
+    it('should evict the oldest snapshots beyond capacity', () => {
+        const manager = new TurnSnapshotManager(3);
+        for (let turn = 0; turn < 5; turn++) {
+            manager.record(turn, makeState(turn));
+        }
+
+        expect(manager.getUndoDepth()).toBe(2);
+        manager.undo();
+        expect(manager.undo()?.turn).toBe(2);
+        expect(manager.canUndo()).toBe(false);
+    });
+
+    it('should deduplicate unchanged data when serialized and share it when restored', () => {
+        const manager = new TurnSnapshotManager();
+        for (let turn = 0; turn < 4; turn++) {
+            manager.record(turn, makeState(turn));
+        }
+
+        const serialized = manager.serialize();
+        // Same PC entity and the shared story prefix are each stored once
+        expect(serialized.pool.filter(chunk => chunk.includes('Nhân vật chính'))).toHaveLength(1);
+        expect(serialized.pool.filter(chunk => chunk === JSON.stringify('Đoạn truyện 0'))).toHaveLength(1);
+
+        const restored = TurnSnapshotManager.deserialize(JSON.parse(JSON.stringify(serialized)));
+        const latest = restored.current()!;
+        expect(latest.turn).toBe(3);
+        expect(latest.state).toEqual(makeState(3));
+
+        const previous = restored.undo()!;
+        expect(previous.state.knownEntities['Lý Phàm']).toBe(latest.state.knownEntities['Lý Phàm']);
+    });
+
+    it('should only persist the most recent snapshots', () => {
+        const manager = new TurnSnapshotManager();
+        for (let turn = 0; turn < 8; turn++) {
+            manager.record(turn, makeState(turn));
+        }
+
+        const serialized = manager.serialize(3);
+        expect(serialized.past.map(s => s.turn)).toEqual([5, 6, 7]);
+    });
+
+    it('should fork a history that ends at the chosen turn', () => {
+        const manager = new TurnSnapshotManager();
+        for (let turn = 0; turn < 4; turn++) {
+            manager.record(turn, makeState(turn));
+        }
+
+        const fork = manager.forkAt(1)!;
+        expect(fork.current()?.turn).toBe(1);
+        expect(fork.canRedo()).toBe(false);
+        expect(fork.getHistory().map(s => s.turn)).toEqual([0, 1]);
+        // The parent history is untouched
+        expect(manager.current()?.turn).toBe(3);
+        expect(manager.forkAt(42)).toBeNull();
+    });
+
+    it('should keep every Nth turn forkable after it leaves the ring buffer, including across a reload', () => {
+        const manager = new TurnSnapshotManager(3, 5);
+        for (let turn = 0; turn < 12; turn++) {
+            manager.record(turn, makeState(turn));
+        }
+
+        expect(manager.getHistory().map(s => s.turn)).toEqual([0, 5, 9, 10, 11]);
+        expect(manager.getUndoDepth()).toBe(2);
+
+        const fork = manager.forkAt(5)!;
+        expect(fork.current()?.state).toEqual(makeState(5));
+        expect(fork.canUndo()).toBe(false);
+        expect(fork.getHistory().map(s => s.turn)).toEqual([0, 5]);
+        expect(manager.forkAt(3)).toBeNull();
+
+        const restored = TurnSnapshotManager.deserialize(JSON.parse(JSON.stringify(manager.serialize(2))), 3, 5);
+        expect(restored.getHistory().map(s => s.turn)).toEqual([0, 5, 10, 11]);
+        expect(restored.forkAt(0)?.current()?.state).toEqual(makeState(0));
+    });
+
+    it('should start empty when given missing or malformed data', () => {
+        expect(TurnSnapshotManager.deserialize(undefined).current()).toBeNull();
+        expect(TurnSnapshotManager.deserialize({ version: 2 } as any).current()).toBeNull();
+    });
+});
@@ -0,0 +1,219 @@
+// TurnSnapshotManager.ts - Ring buffer of per-turn game state snapshots for undo/redo
+
+import type { TurnSnapshot, TurnSnapshotState, SerializedTurnSnapshots, SerializedSnapshotField } from '../types';
+
+export const DEFAULT_SNAPSHOT_CAPACITY = 30;
+export const DEFAULT_PERSISTED_SNAPSHOTS = 10;
+// Every Nth turn is also kept as a checkpoint after it leaves the ring buffer, so old turns stay forkable
+export const DEFAULT_CHECKPOINT_INTERVAL = 5;
+export const MAX_CHECKPOINTS = 50;
+
+// How each field is chunked when persisted: arrays and records share unchanged elements across snapshots
+const ARRAY_FIELDS = ['statuses', 'quests', 'party', 'memories', 'gameHistory', 'storyLog', 'choices', 'tagJournal', 'locationDiscoveryOrder', 'compressedHistory'] as const;
+const RECORD_FIELDS = ['knownEntities'] as const;
+const VALUE_FIELDS = ['gameTime', 'chronicle', 'turnCount'] as const;
+
+type SerializedSnapshot = SerializedTurnSnapshots['past'][number];
+
+/**
+ * Keeps the state at the end of each completed turn.
+ * The top of `past` is always the current state, so undo needs at least two entries.
+ *
+ * In memory, snapshots hold references to the (immutable) React state slices, so
+ * anything that did not change between turns is shared rather than copied.
+ */
+export class TurnSnapshotManager {
+    private past: TurnSnapshot[] = [];
+    private future: TurnSnapshot[] = [];
+    private checkpoints: TurnSnapshot[] = [];
+
+    constructor(
+        private capacity: number = DEFAULT_SNAPSHOT_CAPACITY,
+        private checkpointInterval: number = DEFAULT_CHECKPOINT_INTERVAL
+    ) {}
+
+    record(turn: number, state: TurnSnapshotState): void {
+        const snapshot: TurnSnapshot = { turn, timestamp: Date.now(), state };
+        this.past.push(snapshot);
+        this.future = [];
+        if (this.past.length > this.capacity) {
+            this.past.splice(0, this.past.length - this.capacity);
+        }
+
+        // Checkpoints past this turn belong to the path that was just rewritten
+        this.checkpoints = this.checkpoints.filter(checkpoint => checkpoint.turn < turn);
+        if (turn % this.checkpointInterval === 0) {
+            this.checkpoints.push(snapshot);
+        }
+        if (this.checkpoints.length > MAX_CHECKPOINTS) {
+            // Thin out rather than drop the oldest, so the start of the story stays reachable
+            this.checkpoints = this.checkpoints.filter((_, index) => index % 2 === 0);
+        }
+    }
+
+    current(): TurnSnapshot | null {
+        return this.past[this.past.length - 1] || null;
+    }
+
+    canUndo(): boolean {
+        return this.past.length > 1;
+    }
+
+    canRedo(): boolean {
+        return this.future.length > 0;
+    }
+
+    getUndoDepth(): number {
+        return Math.max(0, this.past.length - 1);
+    }
+
+    getRedoDepth(): number {
+        return this.future.length;
+    }
+
+    /** Steps back one turn and returns the snapshot to restore */
+    undo(): TurnSnapshot | null {
+        if (!this.canUndo()) return null;
+        this.future.push(this.past.pop()!);
+        return this.current();
+    }
+
+    /** Re-applies the most recently undone turn and returns the snapshot to restore */
+    redo(): TurnSnapshot | null {
+        const next = this.future.pop();
+        if (!next) return null;
+        this.past.push(next);
+        return next;
+    }
+
+    clear(): void {
+        this.past = [];
+        this.future = [];
+        this.checkpoints = [];
+    }
+
+    // Checkpoints that have already left the ring buffer
+    private olderCheckpoints(): TurnSnapshot[] {
+        const oldestTurn = this.past[0]?.turn ?? Infinity;
+        return this.checkpoints.filter(checkpoint => checkpoint.turn < oldestTurn);
+    }
+
+    /**
+     * Snapshots from oldest to current; these are the turns a timeline can be forked from.
+     * Every recent turn is included, older ones only where a checkpoint was kept.
+     */
+    getHistory(): TurnSnapshot[] {
+        return [...this.olderCheckpoints(), ...this.past];
+    }
+
+    /**
+     * Creates a new manager whose history ends at `turn`, with no redo stack.
+     * Forking at a checkpoint leaves nothing to undo on the new branch.
+     * Snapshot objects are shared with this manager, they are never mutated.
+     */
+    forkAt(turn: number): TurnSnapshotManager | null {
+        const fork = new TurnSnapshotManager(this.capacity, this.checkpointInterval);
+        const index = this.past.findIndex(snapshot => snapshot.turn === turn);
+        if (index !== -1) {
+            fork.past = this.past.slice(0, index + 1);
+        } else {
+            const checkpoint = this.olderCheckpoints().find(snapshot => snapshot.turn === turn);
+            if (!checkpoint) return null;
+            fork.past = [checkpoint];
+        }
+        fork.checkpoints = this.checkpoints.filter(checkpoint => checkpoint.turn <= turn);
+        return fork;
+    }
+
+    serialize(limit: number = DEFAULT_PERSISTED_SNAPSHOTS): SerializedTurnSnapshots {
+        const pool: string[] = [];
+        const poolIndex = new Map<string, number>();
+
+        const intern = (value: any): number => {
+            const json = JSON.stringify(value ?? null);
+            let id = poolIndex.get(json);
+            if (id === undefined) {
+                id = pool.length;
+                pool.push(json);
+                poolIndex.set(json, id);
+            }
+            return id;
+        };
+
+        const encode = (snapshot: TurnSnapshot): SerializedSnapshot => {
+            const fields: { [field: string]: SerializedSnapshotField } = {};
+            ARRAY_FIELDS.forEach(field => {
+                if (snapshot.state[field] === undefined) return; // Optional fields may be absent, e.g. in snapshots from older saves
+                fields[field] = { a: (snapshot.state[field] as any[]).map(intern) };
+            });
+            RECORD_FIELDS.forEach(field => {
+                const record: { [key: string]: number } = {};
+                Object.entries(snapshot.state[field] || {}).forEach(([key, value]) => {
+                    record[key] = intern(value);
+                });
+                fields[field] = { o: record };
+            });
+            VALUE_FIELDS.forEach(field => {
+                fields[field] = { v: intern(snapshot.state[field]) };
+            });
+            return { turn: snapshot.turn, timestamp: snapshot.timestamp, fields };
+        };
+
+        const past = this.past.slice(-limit);
+        const oldestPersisted = past[0]?.turn ?? Infinity;
+        return {
+            version: 1,
+            pool,
+            past: past.map(encode),
+            future: this.future.slice(-limit).map(encode),
+            checkpoints: this.checkpoints.filter(checkpoint => checkpoint.turn < oldestPersisted).map(encode)
+        };
+    }
+
+    static deserialize(
+        data: SerializedTurnSnapshots | undefined,
+        capacity: number = DEFAULT_SNAPSHOT_CAPACITY,
+        checkpointInterval: number = DEFAULT_CHECKPOINT_INTERVAL
+    ): TurnSnapshotManager {
+        const manager = new TurnSnapshotManager(capacity, checkpointInterval);
+        if (!data || data.version !== 1 || !Array.isArray(data.pool)) {
+            return manager;
+        }
+
+        // Parse each pooled chunk once so identical data is shared between restored snapshots
+        const parsed = new Map<number, any>();
+        const resolve = (id: number): any => {
+            if (!parsed.has(id)) {
+                parsed.set(id, JSON.parse(data.pool[id] ?? 'null'));
+            }
+            return parsed.get(id);
+        };
+
+        const decode = (snapshot: SerializedSnapshot): TurnSnapshot => {
+            const state: any = {};
+            Object.entries(snapshot.fields).forEach(([field, encoded]) => {
+                if ('a' in encoded) {
+                    state[field] = encoded.a.map(resolve);
+                } else if ('o' in encoded) {
+                    state[field] = Object.fromEntries(Object.entries(encoded.o).map(([key, id]) => [key, resolve(id)]));
+                } else {
+                    state[field] = resolve(encoded.v);
+                }
+            });
+            return { turn: snapshot.turn, timestamp: snapshot.timestamp, state };
+        };
+
+        try {
+            manager.past = (data.past || []).map(decode).slice(-capacity);
+            manager.future = (data.future || []).map(decode);
+            manager.checkpoints = [
+                ...(data.checkpoints || []).map(decode),
+                ...manager.past.filter(snapshot => snapshot.turn % checkpointInterval === 0)
+            ];
+        } catch (error) {
+            console.error('❌ Failed to restore turn snapshots, starting with empty undo history:', error);
+            manager.clear();
+        }
+        return manager;
+    }
+}
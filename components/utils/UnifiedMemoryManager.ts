@@ -32,6 +32,7 @@ export interface CleanupResult {
     };
     historyProcessed: {
         compressed?: CompressedHistorySegment;
+        compressedEntries?: GameHistoryEntry[];
         activeEntries: GameHistoryEntry[];
         originalSize: number;
         newSize: number;
@@ -142,6 +143,7 @@ export class UnifiedMemoryManager {
             memoriesProcessed: memoryResult,
             historyProcessed: {
                 compressed: historyResult.compressedSegment,
+                compressedEntries: historyResult.compressedEntries,
                 activeEntries: historyResult.activeHistory,
                 originalSize: historyResult.stats.originalSize,
                 newSize: historyResult.stats.newSize
@@ -21,12 +21,17 @@ describe('Category Support System', () => {
 
     describe('parseCategoryFromChoice', () => {
         it('should parse category from choice text correctly', () => {
-            expect(parseCategoryFromChoice('✦Hành động✦ Tấn công kẻ thù')).toBe('Hành động');
-            expect(parseCategoryFromChoice('✦Xã hội✦ Nói chuyện với NPC')).toBe('Xã hội');
-            expect(parseCategoryFromChoice('✦Thăm dò✦ Khám phá khu vực')).toBe('Thăm dò');
-            expect(parseCategoryFromChoice('✦Chiến đấu✦ Sử dụng kiếm thuật')).toBe('Chiến đấu');
-            expect(parseCategoryFromChoice('✦Chuyển cảnh✦ Đi đến thành phố khác')).toBe('Chuyển cảnh');
-            expect(parseCategoryFromChoice('✦Tua nhanh✦ Nghỉ ngơi 8 tiếng')).toBe('Tua nhanh');
+            expect(parseCategoryFromChoice('✦Hành động✦ Tấn công kẻ thù')).toBe('action');
+            expect(parseCategoryFromChoice('✦Xã hội✦ Nói chuyện với NPC')).toBe('social');
+            expect(parseCategoryFromChoice('✦Thăm dò✦ Khám phá khu vực')).toBe('explore');
+            expect(parseCategoryFromChoice('✦Chiến đấu✦ Sử dụng kiếm thuật')).toBe('combat');
+            expect(parseCategoryFromChoice('✦Chuyển cảnh✦ Đi đến thành phố khác')).toBe('travel');
+            expect(parseCategoryFromChoice('✦Tua nhanh✦ Nghỉ ngơi 8 tiếng')).toBe('timeSkip');
+        });
+
+        it('should parse English category labels', () => {
+            expect(parseCategoryFromChoice('✦Combat✦ Draw your sword')).toBe('combat');
+            expect(parseCategoryFromChoice('✦Time Skip✦ Rest for 8 hours')).toBe('timeSkip');
         });
 
         it('should return null for invalid category format', () => {
@@ -40,16 +45,16 @@ describe('Category Support System', () => {
         it('should track last selected category', () => {
             expect(getLastSelectedCategory()).toBe(null);
             
-            setLastSelectedCategory('Thăm dò');
-            expect(getLastSelectedCategory()).toBe('Thăm dò');
+            setLastSelectedCategory('explore');
+            expect(getLastSelectedCategory()).toBe('explore');
             
-            setLastSelectedCategory('Chiến đấu');
-            expect(getLastSelectedCategory()).toBe('Chiến đấu');
+            setLastSelectedCategory('combat');
+            expect(getLastSelectedCategory()).toBe('combat');
         });
 
         it('should reset category support', () => {
-            setLastSelectedCategory('Hành động');
-            expect(getLastSelectedCategory()).toBe('Hành động');
+            setLastSelectedCategory('action');
+            expect(getLastSelectedCategory()).toBe('action');
             
             resetCategorySupport();
             expect(getLastSelectedCategory()).toBe(null);
@@ -58,35 +63,35 @@ describe('Category Support System', () => {
 
     describe('calculateCategorySupport', () => {
         it('should return no support when no previous category', () => {
-            const result = calculateCategorySupport('Chiến đấu');
+            const result = calculateCategorySupport('combat');
             expect(result.successRateBonus).toBe(0);
             expect(result.riskReduction).toBe(0);
             expect(result.supportingCategories).toEqual([]);
         });
 
         it('should calculate support when Thăm dò supports Chiến đấu', () => {
-            setLastSelectedCategory('Thăm dò');
-            const result = calculateCategorySupport('Chiến đấu');
+            setLastSelectedCategory('explore');
+            const result = calculateCategorySupport('combat');
             
             expect(result.successRateBonus).toBe(15);
             expect(result.riskReduction).toBe(1);
-            expect(result.supportingCategories).toEqual(['Thăm dò']);
+            expect(result.supportingCategories).toEqual(['explore']);
             expect(result.explanation).toContain('Thông tin khám phá giúp chiến đấu hiệu quả hơn');
         });
 
         it('should calculate support when Xã hội supports Chiến đấu', () => {
-            setLastSelectedCategory('Xã hội');
-            const result = calculateCategorySupport('Chiến đấu');
+            setLastSelectedCategory('social');
+            const result = calculateCategorySupport('combat');
             
             expect(result.successRateBonus).toBe(15);
             expect(result.riskReduction).toBe(1);
-            expect(result.supportingCategories).toEqual(['Xã hội']);
+            expect(result.supportingCategories).toEqual(['social']);
             expect(result.explanation).toContain('Giao tiếp có thể làm phân tâm đối thủ');
         });
 
         it('should return no support for unsupported combinations', () => {
-            setLastSelectedCategory('Chiến đấu');
-            const result = calculateCategorySupport('Thăm dò'); // Chiến đấu doesn't support Thăm dò
+            setLastSelectedCategory('combat');
+            const result = calculateCategorySupport('explore'); // Chiến đấu doesn't support Thăm dò
             
             expect(result.successRateBonus).toBe(0);
             expect(result.riskReduction).toBe(0);
@@ -95,7 +100,7 @@ describe('Category Support System', () => {
 
     describe('applySupport', () => {
         it('should apply success rate bonus', () => {
-            const support = { successRateBonus: 15, riskReduction: 0, supportingCategories: ['Thăm dò'], explanation: 'test' };
+            const support = { successRateBonus: 15, riskReduction: 0, supportingCategories: ['explore'], explanation: 'test' };
             const result = applySupport(60, 'Cao', support);
             
             expect(result.modifiedSuccessRate).toBe(75);
@@ -103,14 +108,14 @@ describe('Category Support System', () => {
         });
 
         it('should cap success rate at 100%', () => {
-            const support = { successRateBonus: 15, riskReduction: 0, supportingCategories: ['Thăm dò'], explanation: 'test' };
+            const support = { successRateBonus: 15, riskReduction: 0, supportingCategories: ['explore'], explanation: 'test' };
             const result = applySupport(95, 'Thấp', support);
             
             expect(result.modifiedSuccessRate).toBe(100);
         });
 
         it('should apply risk reduction', () => {
-            const support = { successRateBonus: 0, riskReduction: 1, supportingCategories: ['Thăm dò'], explanation: 'test' };
+            const support = { successRateBonus: 0, riskReduction: 1, supportingCategories: ['explore'], explanation: 'test' };
             
             expect(applySupport(50, 'Cực Cao', support).modifiedRisk).toBe('Cao');
             expect(applySupport(50, 'Cao', support).modifiedRisk).toBe('Trung Bình');
@@ -119,7 +124,7 @@ describe('Category Support System', () => {
         });
 
         it('should apply both bonuses together', () => {
-            const support = { successRateBonus: 15, riskReduction: 1, supportingCategories: ['Thăm dò'], explanation: 'test' };
+            const support = { successRateBonus: 15, riskReduction: 1, supportingCategories: ['explore'], explanation: 'test' };
             const result = applySupport(45, 'Cao', support);
             
             expect(result.modifiedSuccessRate).toBe(60);
@@ -127,7 +132,7 @@ describe('Category Support System', () => {
         });
 
         it('should handle undefined values gracefully', () => {
-            const support = { successRateBonus: 15, riskReduction: 1, supportingCategories: ['Thăm dò'], explanation: 'test' };
+            const support = { successRateBonus: 15, riskReduction: 1, supportingCategories: ['explore'], explanation: 'test' };
             const result = applySupport(undefined, undefined, support);
             
             expect(result.modifiedSuccessRate).toBe(undefined);
@@ -137,8 +142,8 @@ describe('Category Support System', () => {
 
     describe('getCategorySupportIndicator', () => {
         it('should return support indicator when support is available', () => {
-            setLastSelectedCategory('Thăm dò');
-            const result = getCategorySupportIndicator('Chiến đấu');
+            setLastSelectedCategory('explore');
+            const result = getCategorySupportIndicator('combat');
             
             expect(result.hasSupport).toBe(true);
             expect(result.indicator).toBe('🔗');
@@ -146,8 +151,8 @@ describe('Category Support System', () => {
         });
 
         it('should return no indicator when no support', () => {
-            setLastSelectedCategory('Chiến đấu');
-            const result = getCategorySupportIndicator('Thăm dò');
+            setLastSelectedCategory('combat');
+            const result = getCategorySupportIndicator('explore');
             
             expect(result.hasSupport).toBe(false);
             expect(result.indicator).toBe('');
@@ -162,18 +167,18 @@ describe('Category Support System', () => {
             shouldSupport: boolean;
             description: string;
         }> = [
-            { from: 'Thăm dò', to: 'Chiến đấu', shouldSupport: true, description: 'Thăm dò -> Chiến đấu' },
-            { from: 'Xã hội', to: 'Chiến đấu', shouldSupport: true, description: 'Xã hội -> Chiến đấu' },
-            { from: 'Hành động', to: 'Chiến đấu', shouldSupport: true, description: 'Hành động -> Chiến đấu' },
-            { from: 'Thăm dò', to: 'Hành động', shouldSupport: true, description: 'Thăm dò -> Hành động' },
-            { from: 'Xã hội', to: 'Hành động', shouldSupport: true, description: 'Xã hội -> Hành động' },
-            { from: 'Hành động', to: 'Chuyển cảnh', shouldSupport: true, description: 'Hành động -> Chuyển cảnh' },
-            { from: 'Thăm dò', to: 'Chuyển cảnh', shouldSupport: true, description: 'Thăm dò -> Chuyển cảnh' },
-            { from: 'Thăm dò', to: 'Xã hội', shouldSupport: true, description: 'Thăm dò -> Xã hội' },
+            { from: 'explore', to: 'combat', shouldSupport: true, description: 'Thăm dò -> Chiến đấu' },
+            { from: 'social', to: 'combat', shouldSupport: true, description: 'Xã hội -> Chiến đấu' },
+            { from: 'action', to: 'combat', shouldSupport: true, description: 'Hành động -> Chiến đấu' },
+            { from: 'explore', to: 'action', shouldSupport: true, description: 'Thăm dò -> Hành động' },
+            { from: 'social', to: 'action', shouldSupport: true, description: 'Xã hội -> Hành động' },
+            { from: 'action', to: 'travel', shouldSupport: true, description: 'Hành động -> Chuyển cảnh' },
+            { from: 'explore', to: 'travel', shouldSupport: true, description: 'Thăm dò -> Chuyển cảnh' },
+            { from: 'explore', to: 'social', shouldSupport: true, description: 'Thăm dò -> Xã hội' },
             
             // Non-supported combinations
-            { from: 'Chiến đấu', to: 'Thăm dò', shouldSupport: false, description: 'Chiến đấu -> Thăm dò (not supported)' },
-            { from: 'Tua nhanh', to: 'Hành động', shouldSupport: false, description: 'Tua nhanh -> Hành động (not supported)' },
+            { from: 'combat', to: 'explore', shouldSupport: false, description: 'Chiến đấu -> Thăm dò (not supported)' },
+            { from: 'timeSkip', to: 'action', shouldSupport: false, description: 'Tua nhanh -> Hành động (not supported)' },
         ];
 
         testScenarios.forEach(scenario => {
@@ -3,13 +3,14 @@
  * Implements synergy between different choice types to enhance success rates and reduce risks
  */
 
-export type ChoiceCategory = 
-    | 'Hành động'      // Active actions, attacks, movement
-    | 'Xã hội'         // Conversation, communication, persuasion
-    | 'Thăm dò'        // Exploration, observation, investigation
-    | 'Chiến đấu'      // Direct combat, using combat skills
-    | 'Chuyển cảnh'    // Location changes, fast movement
-    | 'Tua nhanh';     // Skip time, rest, waiting
+import { t, hasTranslation } from '../i18n';
+import { parseChoiceCategory, getChoiceCategoryLabel, type ChoiceCategory } from './gameEnums';
+import { reduceRiskLevel } from './skillMasteryAdjustments';
+
+// action: active actions, attacks, movement; social: conversation, persuasion;
+// explore: observation, investigation; combat: direct combat, combat skills;
+// travel: location changes, fast movement; timeSkip: skip time, rest, waiting
+export type { ChoiceCategory };
 
 export interface CategorySupport {
     supportedBy: ChoiceCategory[];
@@ -28,42 +29,38 @@ export interface CategorySupportResult {
 
 // Define which categories can support others
 const CATEGORY_SUPPORTS: Record<ChoiceCategory, CategorySupport> = {
-    'Chiến đấu': {
-        supportedBy: ['Thăm dò', 'Xã hội', 'Hành động'],
+    combat: {
+        supportedBy: ['explore', 'social', 'action'],
         provides: { successRateBonus: 15, riskReduction: 1 }
     },
-    'Hành động': {
-        supportedBy: ['Thăm dò', 'Xã hội'],
+    action: {
+        supportedBy: ['explore', 'social'],
         provides: { successRateBonus: 15, riskReduction: 1 }
     },
-    'Chuyển cảnh': {
-        supportedBy: ['Hành động', 'Thăm dò'],
+    travel: {
+        supportedBy: ['action', 'explore'],
         provides: { successRateBonus: 15, riskReduction: 1 }
     },
-    'Xã hội': {
-        supportedBy: ['Thăm dò'],
+    social: {
+        supportedBy: ['explore'],
         provides: { successRateBonus: 15, riskReduction: 1 }
     },
-    'Thăm dò': {
+    explore: {
         supportedBy: [],
         provides: { successRateBonus: 15, riskReduction: 1 }
     },
-    'Tua nhanh': {
+    timeSkip: {
         supportedBy: [],
         provides: { successRateBonus: 15, riskReduction: 1 }
     }
 };
 
-// Support explanations in Vietnamese
-const SUPPORT_EXPLANATIONS: Record<string, string> = {
-    'Thăm dò->Chiến đấu': 'Thông tin khám phá giúp chiến đấu hiệu quả hơn',
-    'Xã hội->Chiến đấu': 'Giao tiếp có thể làm phân tâm đối thủ',
-    'Hành động->Chiến đấu': 'Chuẩn bị hành động tạo lợi thế chiến thuật',
-    'Thăm dò->Hành động': 'Hiểu biết tình huống giúp hành động chính xác',
-    'Xã hội->Hành động': 'Thuyết phục có thể tạo cơ hội hành động',
-    'Hành động->Chuyển cảnh': 'Hành động tạo điều kiện di chuyển',
-    'Thăm dò->Chuyển cảnh': 'Khám phá giúp tìm đường đi tốt hơn',
-    'Thăm dò->Xã hội': 'Hiểu biết giúp giao tiếp thuyết phục hơn'
+// Support explanations live in the string tables as categorySupport.<from>.<to>
+const getSupportExplanation = (from: ChoiceCategory, to: ChoiceCategory): string => {
+    const key = `categorySupport.${from}.${to}`;
+    return hasTranslation(key)
+        ? t(key)
+        : t('categorySupport.generic', { from: getChoiceCategoryLabel(from), to: getChoiceCategoryLabel(to) });
 };
 
 /**
@@ -111,8 +108,7 @@ export const calculateCategorySupport = (
         };
     }
 
-    const supportKey = `${lastSelectedCategory}->${currentCategory}`;
-    const explanation = SUPPORT_EXPLANATIONS[supportKey] || `${lastSelectedCategory} hỗ trợ ${currentCategory}`;
+    const explanation = getSupportExplanation(lastSelectedCategory, currentCategory);
 
     console.log(`✨ Category support activated: ${lastSelectedCategory} -> ${currentCategory}`);
     console.log(`   Bonus: +${supportConfig.provides.successRateBonus}% success rate, -${supportConfig.provides.riskReduction} risk tier`);
@@ -143,13 +139,7 @@ export const applySupport = (
 
     // Apply risk reduction
     if (originalRisk && support.riskReduction > 0) {
-        const riskTiers = ['Thấp', 'Trung Bình', 'Cao', 'Cực Cao'];
-        const currentIndex = riskTiers.indexOf(originalRisk);
-        
-        if (currentIndex > 0) {
-            const newIndex = Math.max(0, currentIndex - support.riskReduction);
-            modifiedRisk = riskTiers[newIndex];
-        }
+        modifiedRisk = reduceRiskLevel(originalRisk, support.riskReduction);
     }
 
     return { modifiedSuccessRate, modifiedRisk };
@@ -167,7 +157,10 @@ export const getCategorySupportIndicator = (
         return {
             hasSupport: true,
             indicator: '🔗',
-            tooltip: `Được hỗ trợ bởi ${support.supportingCategories.join(', ')}: ${support.explanation}`
+            tooltip: t('categorySupport.tooltip', {
+                from: support.supportingCategories.map(category => getChoiceCategoryLabel(category)).join(', '),
+                explanation: support.explanation
+            })
         };
     }
 
@@ -187,20 +180,12 @@ export const resetCategorySupport = (): void => {
 };
 
 /**
- * Parse category from choice text using the existing ✦Category✦ format
+ * Parse category from choice text using the existing ✦Category✦ format, in any locale
  */
 export const parseCategoryFromChoice = (choice: string): ChoiceCategory | null => {
     const categoryMatch = choice.match(/^✦([^✦]+)✦/);
     if (categoryMatch) {
-        const category = categoryMatch[1].trim();
-        
-        // Map to our known categories
-        const knownCategories: ChoiceCategory[] = [
-            'Hành động', 'Xã hội', 'Thăm dò', 'Chiến đấu', 'Chuyển cảnh', 'Tua nhanh'
-        ];
-        
-        const matchedCategory = knownCategories.find(c => c === category);
-        return matchedCategory || null;
+        return parseChoiceCategory(categoryMatch[1].trim());
     }
     
     return null;
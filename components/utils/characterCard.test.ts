@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { extractCardJsonFromPng, mapCharacterCard, readCharacterCardFile } from './characterCard';
+import { exportRulesToWorldInfo } from './worldInfo';
+
+const v2Card = {
+    spec: 'chara_card_v2',
+    spec_version: '2.0',
+    data: {
+        name: 'Tiểu Vân',
+        description: '{{char}} là sư muội của Thanh Vân Tông.',
+        personality: 'Dịu dàng, cố chấp',
+        scenario: 'Đêm trăng ở hậu sơn.',
+        first_mes: '*{{char}} ngẩng đầu* Sư huynh?',
+        alternate_greetings: ['Ngươi tới muộn rồi.'],
+        character_book: {
+            entries: [
+                {
+                    id: 3, keys: ['Thanh Vân Tông'], secondary_keys: [], content: 'Môn phái của {{char}}.', enabled: true,
+                    insertion_order: 50, case_sensitive: null, name: 'Tông môn', position: 'before_char',
+                    extensions: { depth: 2, probability: 80, useProbability: true, group: 'sect', sticky: 2 }
+                },
+                { keys: ['trống'], content: '', enabled: true, insertion_order: 10 }
+            ]
+        }
+    }
+};
+
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+    const out = new Uint8Array(12 + data.length);
+    new DataView(out.buffer).setUint32(0, data.length);
+    out.set(new TextEncoder().encode(type), 4);
+    out.set(data, 8);
+    return out; // CRC left as zeros; the reader does not check it
+};
+
+const concat = (...parts: Uint8Array[]) => {
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => { out.set(part, offset); offset += part.length; });
+    return out;
+};
+
+const base64Json = (value: unknown) => Buffer.from(JSON.stringify(value), 'utf-8').toString('base64');
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+const png = (...chunks: Uint8Array[]) => concat(
+    new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]),
+    chunk('IHDR', new Uint8Array(13)),
+    ...chunks,
+    chunk('IEND', new Uint8Array(0))
+);
+
+describe('characterCard', () => {
+    it('maps a V2 card onto the form and its character book onto rules', () => {
+        const { spec, fields, rules } = mapCharacterCard(v2Card);
+
+        expect(spec).toBe('v2');
+        expect(fields).toEqual({
+            characterName: 'Tiểu Vân',
+            bio: 'Tiểu Vân là sư muội của Thanh Vân Tông.',
+            customPersonality: 'Dịu dàng, cố chấp',
+            worldDetail: 'Đêm trăng ở hậu sơn.\n\nLời mở đầu:\n*Tiểu Vân ngẩng đầu* Sư huynh?\n\nLời mở đầu khác 1:\nNgươi tới muộn rồi.'
+        });
+        expect(rules).toHaveLength(1);
+        expect(rules[0]).toMatchObject({
+            title: 'Tông môn', content: 'Môn phái của Tiểu Vân.', keywords: ['Thanh Vân Tông'], order: 50,
+            probability: 80, group: 'sect', sticky: 2, isActive: true
+        });
+        expect(exportRulesToWorldInfo(rules).entries['3']).toMatchObject({ uid: 3, position: 0, depth: 2, caseSensitive: null });
+    });
+
+    it('accepts V1 cards and rejects cards without a name', () => {
+        expect(mapCharacterCard({ name: 'Lý Phàm', description: 'Tán tu' }).fields.bio).toBe('Tán tu');
+        expect(() => mapCharacterCard({ spec: 'chara_card_v3', data: { description: 'x' } })).toThrow();
+    });
+
+    it('reads the card from a PNG, preferring the ccv3 chunk', async () => {
+        const v3Card = { ...v2Card, spec: 'chara_card_v3', data: { ...v2Card.data, name: 'Tiểu Vân V3' } };
+        const itxt = concat(ascii('ccv3'), new Uint8Array([0, 0, 0]), new Uint8Array([0]), new Uint8Array([0]), ascii(base64Json(v3Card)));
+        const bytes = png(
+            chunk('tEXt', concat(ascii('chara'), new Uint8Array([0]), ascii(base64Json(v2Card)))),
+            chunk('iTXt', itxt)
+        );
+
+        expect(JSON.parse(await extractCardJsonFromPng(bytes)).data.name).toBe('Tiểu Vân V3');
+        const imported = await readCharacterCardFile('card.PNG', bytes);
+        expect(imported).toMatchObject({ spec: 'v3', fields: { characterName: 'Tiểu Vân V3' } });
+    });
+
+    it('reports PNGs without card data', async () => {
+        await expect(extractCardJsonFromPng(png())).rejects.toThrow('chara');
+        await expect(extractCardJsonFromPng(ascii('not a png'))).rejects.toThrow();
+    });
+});
@@ -0,0 +1,227 @@
+import type { CustomRule, FormData } from '../types';
+import { worldInfoEntryToRule } from './worldInfo';
+import type { WorldInfoEntry } from './worldInfo';
+
+/**
+ * Import of SillyTavern character cards (Character Card V1/V2/V3) from JSON files or from the
+ * tEXt/iTXt chunk of a PNG card ("ccv3" for V3, "chara" for V2, both base64 JSON).
+ */
+
+export interface CharacterBookEntry {
+    keys?: string[];
+    secondary_keys?: string[];
+    content?: string;
+    enabled?: boolean;
+    insertion_order?: number;
+    case_sensitive?: boolean | null;
+    name?: string;
+    comment?: string;
+    id?: number;
+    constant?: boolean;
+    selective?: boolean;
+    position?: 'before_char' | 'after_char';
+    extensions?: Record<string, any>;
+}
+
+export interface CharacterBook {
+    name?: string;
+    entries: CharacterBookEntry[];
+}
+
+export interface CharacterCardData {
+    name: string;
+    description: string;
+    personality: string;
+    scenario: string;
+    first_mes: string;
+    alternate_greetings: string[];
+    character_book?: CharacterBook;
+}
+
+// The FormData fields a card fills in, plus the rules from its character book
+export interface CharacterCardImport {
+    spec: 'v1' | 'v2' | 'v3';
+    fields: Pick<FormData, 'characterName' | 'bio' | 'customPersonality' | 'worldDetail'>;
+    rules: CustomRule[];
+}
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const readString = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const decodeBase64Utf8 = (base64: string): string => {
+    const binary = atob(base64.trim());
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    return new TextDecoder('utf-8').decode(bytes);
+};
+
+const inflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+    if (typeof DecompressionStream === 'undefined') {
+        throw new Error('Trình duyệt không hỗ trợ giải nén dữ liệu trong ảnh thẻ nhân vật.');
+    }
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Read the card JSON embedded in a PNG. A "ccv3" chunk wins over "chara" when both exist.
+ */
+export const extractCardJsonFromPng = async (bytes: Uint8Array): Promise<string> => {
+    if (PNG_SIGNATURE.some((byte, index) => bytes[index] !== byte)) {
+        throw new Error('Tệp không phải ảnh PNG hợp lệ.');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const latin1 = new TextDecoder('latin1');
+    const utf8 = new TextDecoder('utf-8');
+    const found: Record<string, string> = {};
+
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        offset += 12 + length; // length + type + data + CRC
+
+        if (type === 'IEND') break;
+        if (type !== 'tEXt' && type !== 'iTXt') continue;
+
+        const keywordEnd = data.indexOf(0);
+        if (keywordEnd < 0) continue;
+        const keyword = latin1.decode(data.subarray(0, keywordEnd)).toLowerCase();
+        if (keyword !== 'chara' && keyword !== 'ccv3') continue;
+
+        if (type === 'tEXt') {
+            found[keyword] = latin1.decode(data.subarray(keywordEnd + 1));
+            continue;
+        }
+
+        // iTXt: keyword\0 compressionFlag compressionMethod languageTag\0 translatedKeyword\0 text
+        const compressed = data[keywordEnd + 1] === 1;
+        const languageEnd = data.indexOf(0, keywordEnd + 3);
+        const translatedEnd = data.indexOf(0, languageEnd + 1);
+        if (languageEnd < 0 || translatedEnd < 0) continue;
+        const text = data.subarray(translatedEnd + 1);
+        found[keyword] = utf8.decode(compressed ? await inflate(text) : text);
+    }
+
+    const payload = found.ccv3 ?? found.chara;
+    if (!payload) {
+        throw new Error('Ảnh PNG không chứa dữ liệu thẻ nhân vật (chara/ccv3).');
+    }
+    return decodeBase64Utf8(payload);
+};
+
+/**
+ * Normalise a V1 (flat), V2 or V3 card into its data block
+ */
+export const parseCharacterCard = (json: unknown): { spec: CharacterCardImport['spec']; data: CharacterCardData } => {
+    if (!json || typeof json !== 'object') {
+        throw new Error('Dữ liệu thẻ nhân vật không hợp lệ.');
+    }
+    const card = json as Record<string, any>;
+    const spec = card.spec === 'chara_card_v3' ? 'v3' : card.spec === 'chara_card_v2' ? 'v2' : 'v1';
+    const source = spec === 'v1' ? card : card.data;
+
+    if (!source || typeof source !== 'object' || !readString(source.name)) {
+        throw new Error('Thẻ nhân vật thiếu tên nhân vật (name).');
+    }
+
+    return {
+        spec,
+        data: {
+            name: readString(source.name),
+            description: readString(source.description),
+            personality: readString(source.personality),
+            scenario: readString(source.scenario),
+            first_mes: readString(source.first_mes),
+            alternate_greetings: Array.isArray(source.alternate_greetings)
+                ? source.alternate_greetings.map(readString).filter(Boolean)
+                : [],
+            character_book: source.character_book && Array.isArray(source.character_book.entries)
+                ? source.character_book
+                : undefined
+        }
+    };
+};
+
+/**
+ * Convert a character book entry to the World Info entry SillyTavern would create from it.
+ * ST keeps its World Info-only settings under extensions when it writes a card.
+ */
+export const characterBookEntryToWorldInfo = (entry: CharacterBookEntry, index: number): WorldInfoEntry => {
+    const ext = entry.extensions || {};
+    return {
+        uid: typeof entry.id === 'number' ? entry.id : index,
+        key: entry.keys || [],
+        keysecondary: entry.secondary_keys || [],
+        comment: entry.comment || entry.name || '',
+        content: entry.content || '',
+        constant: entry.constant === true,
+        selective: entry.selective !== false,
+        order: entry.insertion_order ?? 100,
+        position: ext.position ?? (entry.position === 'before_char' ? 0 : 1),
+        disable: entry.enabled === false,
+        probability: ext.probability ?? 100,
+        useProbability: ext.useProbability ?? true,
+        depth: ext.depth ?? 4,
+        selectiveLogic: ext.selectiveLogic ?? 0,
+        group: ext.group ?? '',
+        groupOverride: ext.group_override ?? false,
+        groupWeight: ext.group_weight ?? 100,
+        scanDepth: ext.scan_depth ?? null,
+        caseSensitive: entry.case_sensitive ?? ext.case_sensitive ?? null,
+        matchWholeWords: ext.match_whole_words ?? null,
+        excludeRecursion: ext.exclude_recursion ?? false,
+        preventRecursion: ext.prevent_recursion ?? false,
+        sticky: ext.sticky ?? 0,
+        cooldown: ext.cooldown ?? 0,
+        delay: ext.delay ?? 0,
+        role: ext.role ?? null,
+        vectorized: ext.vectorized ?? false,
+        automationId: ext.automation_id ?? ''
+    };
+};
+
+const replaceCharMacro = (text: string, name: string): string => text.replace(/\{\{char\}\}/gi, name);
+
+/**
+ * Map a card onto the CreateWorld form: the card character becomes the player character,
+ * the scenario and greetings become the world detail and the character book becomes rules.
+ */
+export const mapCharacterCard = (json: unknown): CharacterCardImport => {
+    const { spec, data } = parseCharacterCard(json);
+    const fill = (text: string) => replaceCharMacro(text, data.name);
+
+    const worldDetail = [
+        fill(data.scenario),
+        data.first_mes ? `Lời mở đầu:\n${fill(data.first_mes)}` : '',
+        ...data.alternate_greetings.map((greeting, index) => `Lời mở đầu khác ${index + 1}:\n${fill(greeting)}`)
+    ].filter(Boolean).join('\n\n');
+
+    const rules = (data.character_book?.entries || [])
+        .map((entry, index) => worldInfoEntryToRule(characterBookEntryToWorldInfo(entry, index), `card-${index}`))
+        .filter(rule => rule.content.trim())
+        .map(rule => ({ ...rule, content: fill(rule.content) }));
+
+    return {
+        spec,
+        fields: {
+            characterName: data.name,
+            bio: fill(data.description),
+            customPersonality: fill(data.personality),
+            worldDetail
+        },
+        rules
+    };
+};
+
+/**
+ * Read a card from a .json or .png file's contents
+ */
+export const readCharacterCardFile = async (fileName: string, bytes: Uint8Array): Promise<CharacterCardImport> => {
+    const text = fileName.toLowerCase().endsWith('.png')
+        ? await extractCardJsonFromPng(bytes)
+        : new TextDecoder('utf-8').decode(bytes);
+    return mapCharacterCard(JSON.parse(text));
+};
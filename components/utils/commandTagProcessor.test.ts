@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { createCommandTagProcessor } from './commandTagProcessor';
+import { makeCommandTagState, makeCommandTagStore } from './commandTagTestUtils';
+import { RegexPlacement, RegexSubstituteMode } from '../types';
+import type { CommandTagState, Entity, RegexRule } from '../types';
+
+const pc = { name: 'Lý Phàm', type: 'pc', description: 'Nhân vật chính' } as Entity;
+
+const makeState = (): CommandTagState => makeCommandTagState({ knownEntities: { [pc.name]: pc }, party: [pc] });
+
+const rule = (placement: RegexPlacement, findRegex: string, replaceString: string): RegexRule => ({
+    id: `rule_${placement}`, name: `Rule ${placement}`, findRegex, replaceString, trimStrings: [],
+    placement: [placement], disabled: false, isScoped: false, markdownOnly: false, promptOnly: false,
+    runOnEdit: false, substituteRegex: RegexSubstituteMode.NONE
+});
+
+const run = (story: string, regexRules: RegexRule[], state = makeState()) => {
+    const { store, setters } = makeCommandTagStore(state);
+    const processor = createCommandTagProcessor({ ...setters, ...state, regexRules, turnCount: 3 });
+    return { story: processor.parseStoryAndTags(story), store };
+};
+
+describe('commandTagProcessor regex placements', () => {
+    it('runs STAT_EXTRACTION on the story before tags are parsed', () => {
+        const { story, store } = run('Bạn ngồi thiền, mất 2 canh giờ.', [
+            rule(RegexPlacement.STAT_EXTRACTION, '/mất (\\d+) canh giờ/', 'mất $1 canh giờ [TIME_ELAPSED: hours=$1]')
+        ]);
+
+        expect(story).toBe('Bạn ngồi thiền, mất 2 canh giờ .');
+        expect(store.gameTime.hour).toBe(10);
+    });
+
+    it('runs ENTITY_DETECTION on LORE_* descriptions', () => {
+        const { store } = run('[LORE_NPC: name="Tiểu Vân" description="Sư muội của LP"]', [
+            rule(RegexPlacement.ENTITY_DETECTION, '/\\bLP\\b/g', 'Lý Phàm')
+        ]);
+
+        expect(store.knownEntities['Tiểu Vân'].description).toBe('Sư muội của Lý Phàm');
+    });
+
+    it('runs QUEST_PROCESSING on assigned quests and on the titles later tags refer to', () => {
+        const rules = [rule(RegexPlacement.QUEST_PROCESSING, '/\\s*\\(phụ\\)/g', '')];
+        const { store } = run(
+            '[QUEST_ASSIGNED: title="Tìm linh dược (phụ)" description="Lên núi (phụ)" objectives="Hái thuốc (phụ);Về làng"] ' +
+            '[QUEST_OBJECTIVE_COMPLETED: questTitle="Tìm linh dược (phụ)" objectiveDescription="Hái thuốc (phụ)"]',
+            rules
+        );
+
+        expect(store.quests).toHaveLength(1);
+        expect(store.quests[0]).toMatchObject({ title: 'Tìm linh dược', description: 'Lên núi' });
+        expect(store.quests[0].objectives.map(obj => [obj.description, obj.completed])).toEqual([
+            ['Hái thuốc', true], ['Về làng', false]
+        ]);
+    });
+});
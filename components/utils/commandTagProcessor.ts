@@ -1,9 +1,12 @@
-import type { Entity, Status, Quest, Memory, Chronicle, RegexRule } from '../types';
+import type { Entity, Status, Quest, Memory, Chronicle, RegexRule, SaveData, CommandTagRejection, TagJournalEntry } from '../types';
 import { partyDebugger } from './partyDebugger';
 import { MemoryEnhancer } from './MemoryEnhancer';
 import { ReferenceIdGenerator } from './ReferenceIdGenerator';
 import { regexEngine, RegexPlacement } from './RegexEngine';
 import { addSkillExp, attemptBreakthrough, rollForBreakthroughEligibility } from './skillExpManager';
+import { MASTERY_TIERS, findMasteryTierInText } from './gameEnums';
+import { CommandTagTransaction, validateCommandTag } from './commandTagTransaction';
+import { diffCommandTagState, createTagJournalEntry } from './tagJournal';
 
 export interface CommandTagProcessorParams {
     // State setters
@@ -16,21 +19,31 @@ export interface CommandTagProcessorParams {
     setParty: (party: Entity[] | ((prev: Entity[]) => Entity[])) => void;
     setLocationDiscoveryOrder: (order: string[] | ((prev: string[]) => string[])) => void;
     
-    // Current state values for reference
+    // Current state values; tags are applied to a snapshot of these before committing
     knownEntities: { [key: string]: Entity };
     statuses: Status[];
     party: Entity[];
+    quests: Quest[];
+    memories: Memory[];
+    gameTime: SaveData['gameTime'];
+    chronicle: Chronicle;
+    locationDiscoveryOrder: string[];
     regexRules: RegexRule[];
     turnCount?: number;
     worldData?: any; // For accessing realm tiers and experience system
+
+    // Called when a response's tags fail validation and none of them are applied
+    onTagsRejected?: (rejection: CommandTagRejection) => void;
+    // Called after a commit with one journal entry per tag that changed something
+    onTagsCommitted?: (entries: TagJournalEntry[]) => void;
 }
 
 // Helper function to calculate new time
 const calculateNewTime = (
-    currentTime: { year: number; month: number; day: number; hour: number; minute: number; },
+    currentTime: { year: number; month: number; day: number; hour: number; minute?: number; },
     elapsed: { years: number; months: number; days: number; hours: number; minutes: number; }
 ): { year: number; month: number; day: number; hour: number; minute: number; } => {
-    let { year, month, day, hour, minute } = currentTime;
+    let { year, month, day, hour, minute = 0 } = currentTime;
 
     // Add minutes first
     minute += elapsed.minutes;
@@ -221,14 +234,27 @@ const synchronizeSkillNames = (
 
 export const createCommandTagProcessor = (params: CommandTagProcessorParams) => {
     const {
-        setGameTime, setChronicle, setMemories, setStatuses, setKnownEntities,
-        setQuests, setParty, setLocationDiscoveryOrder,
-        knownEntities, statuses, party, regexRules, turnCount, worldData
+        knownEntities, statuses, party, quests, memories, gameTime, chronicle, locationDiscoveryOrder,
+        regexRules, turnCount, worldData, onTagsRejected, onTagsCommitted
     } = params;
 
     const parseStoryAndTags = (storyText: string, applySideEffects = true): string => {
         if (!storyText) return '';
 
+        // Tags write to the transaction's working state; React state is only touched on commit
+        const transaction = new CommandTagTransaction({
+            knownEntities, statuses, quests, party, memories, gameTime, chronicle, locationDiscoveryOrder
+        });
+        const setGameTime = transaction.setter('gameTime');
+        const setChronicle = transaction.setter('chronicle');
+        const setMemories = transaction.setter('memories');
+        const setStatuses = transaction.setter('statuses');
+        const setKnownEntities = transaction.setter('knownEntities');
+        const setQuests = transaction.setter('quests');
+        const setParty = transaction.setter('party');
+        const setLocationDiscoveryOrder = transaction.setter('locationDiscoveryOrder');
+        const journalEntries: TagJournalEntry[] = [];
+
         const tagRegex = /\[([A-Z_]+):\s*([^\]]+)\]/g;
      let cleanStory = storyText;
 // Removed chronicleTurnContent variable since we keep content in original position
@@ -254,6 +280,38 @@ export const createCommandTagProcessor = (params: CommandTagProcessorParams) =>
             return attributes;
         };
 
+        const applyPlacement = (text: any, placement: RegexPlacement): any => {
+            if (typeof text !== 'string') return text;
+            return regexEngine.processText(text, placement, regexRules || [], { depth: turnCount || 0, isEdit: false });
+        };
+
+        // Entity and quest text runs through its placement before validation, so the titles
+        // stored by QUEST_ASSIGNED and the ones later quest tags refer to are rewritten alike
+        const applyTagPlacements = (tagType: string, attributes: { [key: string]: any }) => {
+            if (tagType.startsWith('LORE_')) {
+                attributes.description = applyPlacement(attributes.description, RegexPlacement.ENTITY_DETECTION);
+            } else if (tagType === 'QUEST_ASSIGNED') {
+                ['title', 'description', 'giver', 'reward'].forEach(key => {
+                    attributes[key] = applyPlacement(attributes[key], RegexPlacement.QUEST_PROCESSING);
+                });
+                if (Array.isArray(attributes.objectives)) {
+                    attributes.objectives = attributes.objectives.map((objective: { description: string }) => ({
+                        ...objective,
+                        description: applyPlacement(objective.description, RegexPlacement.QUEST_PROCESSING)
+                    }));
+                }
+            } else if (tagType === 'QUEST_UPDATED') {
+                attributes.title = applyPlacement(attributes.title, RegexPlacement.QUEST_PROCESSING);
+            } else if (tagType === 'QUEST_OBJECTIVE_COMPLETED') {
+                attributes.questTitle = applyPlacement(attributes.questTitle, RegexPlacement.QUEST_PROCESSING);
+                attributes.objectiveDescription = applyPlacement(attributes.objectiveDescription, RegexPlacement.QUEST_PROCESSING);
+            }
+        };
+
+        // STAT_EXTRACTION rules may turn prose such as "mất 2 canh giờ" into command tags
+        storyText = applyPlacement(storyText, RegexPlacement.STAT_EXTRACTION);
+        cleanStory = storyText;
+
         let match;
         const unprocessedTags: string[] = [];
         while ((match = tagRegex.exec(storyText)) !== null) {
@@ -269,7 +327,17 @@ export const createCommandTagProcessor = (params: CommandTagProcessorParams) =>
                      unprocessedTags.push(match[0]);
                      continue;
                 }
+                applyTagPlacements(tagType, attributes);
+
+                transaction.tagCount++;
+                const tagProblem = validateCommandTag(tagType, attributes, transaction.state);
+                if (tagProblem) {
+                    transaction.reject({ tag: tagType, raw: match[0], message: tagProblem });
+                    continue;
+                }
+                const stateBeforeTag = { ...transaction.state };
         
+                try {
                 switch (tagType) {
                     case 'TIME_ELAPSED':
                         const elapsed = {
@@ -291,15 +359,7 @@ export const createCommandTagProcessor = (params: CommandTagProcessorParams) =>
                             // Automatically create enhanced memory from Chronicle turn content
                             setMemories(prev => {
                                 // Process memory text through regex rules
-                                let processedText = regexEngine.processText(
-                                    attributes.text,
-                                    RegexPlacement.MEMORY_PROCESSING,
-                                    regexRules || [],
-                                    {
-                                        depth: turnCount || 0,
-                                        isEdit: false
-                                    }
-                                );
+                                let processedText = applyPlacement(attributes.text, RegexPlacement.MEMORY_PROCESSING);
                                 
                                 const basicMemory: Memory = { 
                                     text: processedText, 
@@ -631,7 +691,7 @@ export const createCommandTagProcessor = (params: CommandTagProcessorParams) =>
                                         });
                                         
                                         if (!hasSkillAlready) {
-                                            updatedEntity.skills.push(name);
+                                            updatedEntity.skills = [...updatedEntity.skills, name];
                                             console.log(`🎓 ${entityInKnown.type.toUpperCase()} ${skillLearner} learned skill: ${name}`);
                                         } else {
                                             console.log(`⚠️ ${entityInKnown.type.toUpperCase()} ${skillLearner} already has skill with base name: ${baseSkillName} (skipping duplicate)`);
@@ -659,7 +719,7 @@ export const createCommandTagProcessor = (params: CommandTagProcessorParams) =>
                                                     });
                                                     
                                                     if (!hasSkillAlready) {
-                                                        updatedMember.skills.push(name);
+                                                        updatedMember.skills = [...updatedMember.skills, name];
                                                         console.log(`🎓 Party ${member.type.toUpperCase()} ${skillLearner} learned skill: ${name}`);
                                                     } else {
                                                         console.log(`⚠️ Party ${member.type.toUpperCase()} ${skillLearner} already has skill with base name: ${baseSkillName} (skipping duplicate)`);
@@ -688,7 +748,7 @@ export const createCommandTagProcessor = (params: CommandTagProcessorParams) =>
                                             });
                                             
                                             if (!hasSkillAlready) {
-                                                updatedPc.learnedSkills.push(name);
+                                                updatedPc.learnedSkills = [...updatedPc.learnedSkills, name];
                                                 console.log(`🎓 PC ${pc.name} learned skill: ${name}`);
                                             } else {
                                                 console.log(`⚠️ PC ${pc.name} already has skill with base name: ${baseSkillName} (skipping duplicate)`);
@@ -715,7 +775,7 @@ export const createCommandTagProcessor = (params: CommandTagProcessorParams) =>
                                             });
                                             
                                             if (!hasSkillAlready) {
-                                                updatedPc.learnedSkills.push(name);
+                                                updatedPc.learnedSkills = [...updatedPc.learnedSkills, name];
                                                 console.log(`🎓 PC ${pc.name} learned skill: ${name} (fallback)`);
                                             } else {
                                                 console.log(`⚠️ PC ${pc.name} already has skill with base name: ${baseSkillName} (skipping duplicate fallback)`);
@@ -775,7 +835,7 @@ export const createCommandTagProcessor = (params: CommandTagProcessorParams) =>
                                             });
                                             
                                             if (!hasSkillAlready) {
-                                                updatedNpc.skills.push(name);
+                                                updatedNpc.skills = [...updatedNpc.skills, name];
                                                 console.log(`🎓 NPC ${detectedLearner} learned skill: ${name} (intelligent detection)`);
                                             } else {
                                                 console.log(`⚠️ NPC ${detectedLearner} already has skill with base name: ${baseSkillName} (skipping duplicate - intelligent detection)`);
@@ -799,7 +859,7 @@ export const createCommandTagProcessor = (params: CommandTagProcessorParams) =>
                                             });
                                             
                                             if (!hasSkillAlready) {
-                                                updatedPc.learnedSkills.push(name);
+                                                updatedPc.learnedSkills = [...updatedPc.learnedSkills, name];
                                                 console.log(`🎓 PC ${pc.name} learned skill: ${name} (default target - no NPC detected)`);
                                             } else {
                                                 console.log(`⚠️ PC ${pc.name} already has skill with base name: ${baseSkillName} (skipping duplicate - no NPC detected)`);
@@ -842,14 +902,13 @@ export const createCommandTagProcessor = (params: CommandTagProcessorParams) =>
                                 newEntities[newSkill] = newSkillEntity;
                             }
                             
-                            // Determine update type for logging
-                            const updateType = 
-                                oldSkill.includes('Cơ Bản') && newSkill.includes('Sơ Cấp') ? '📈 Mastery' :
-                                oldSkill.includes('Sơ Cấp') && newSkill.includes('Trung Cấp') ? '📈 Mastery' :
-                                oldSkill.includes('Trung Cấp') && newSkill.includes('Cao Cấp') ? '📈 Mastery' :
-                                oldSkill.includes('Cao Cấp') && newSkill.includes('Đại Thành') ? '📈 Mastery' :
-                                oldSkill.includes('Đại Thành') && newSkill.includes('Viên Mãn') ? '📈 Mastery' :
-                                '🔄 Evolved';
+                            // Determine update type for logging: one mastery tier up, in any locale
+                            const oldTier = findMasteryTierInText(oldSkill)?.tier;
+                            const newTier = findMasteryTierInText(newSkill)?.tier;
+                            const isMasteryStep = oldTier && newTier
+                                ? MASTERY_TIERS.indexOf(newTier) === MASTERY_TIERS.indexOf(oldTier) + 1
+                                : oldSkill.includes('Cơ Bản') && newTier === 'novice';
+                            const updateType = isMasteryStep ? '📈 Mastery' : '🔄 Evolved';
                             
                             let updatesApplied = 0;
                             
@@ -1552,7 +1611,7 @@ export const createCommandTagProcessor = (params: CommandTagProcessorParams) =>
                             const newEntities = { ...prev };
                             const item = newEntities[attributes.name];
                             if (item && item.owner === 'pc' && item.equippable) {
-                                item.equipped = true;
+                                newEntities[attributes.name] = { ...item, equipped: true };
                             }
                             return newEntities;
                         });
@@ -1562,7 +1621,7 @@ export const createCommandTagProcessor = (params: CommandTagProcessorParams) =>
                             const newEntities = { ...prev };
                             const item = newEntities[attributes.name];
                             if (item && item.owner === 'pc') {
-                                item.equipped = false;
+                                newEntities[attributes.name] = { ...item, equipped: false };
                             }
                             return newEntities;
                         });
@@ -1604,7 +1663,7 @@ export const createCommandTagProcessor = (params: CommandTagProcessorParams) =>
                             const newEntities = { ...prev };
                             const item = newEntities[attributes.name];
                             if (item && typeof item.durability === 'number') {
-                                item.durability = Math.max(0, item.durability - (attributes.damage || 0));
+                                newEntities[attributes.name] = { ...item, durability: Math.max(0, item.durability - (attributes.damage || 0)) };
                             }
                             return newEntities;
                         });
@@ -1614,7 +1673,7 @@ export const createCommandTagProcessor = (params: CommandTagProcessorParams) =>
                             const newEntities = { ...prev };
                             const item = newEntities[attributes.name];
                             if (item && typeof item.durability === 'number') {
-                                item.durability = Math.min(100, item.durability + (attributes.repairedAmount || 0));
+                                newEntities[attributes.name] = { ...item, durability: Math.min(100, item.durability + (attributes.repairedAmount || 0)) };
                             }
                             return newEntities;
                         });
@@ -1646,7 +1705,7 @@ export const createCommandTagProcessor = (params: CommandTagProcessorParams) =>
                             const newEntities = { ...prev };
                             const targetEntity = Object.values(newEntities).find(e => e.name === attributes.target);
                             if (targetEntity) {
-                                newEntities[targetEntity.name].realm = attributes.realm;
+                                newEntities[targetEntity.name] = { ...targetEntity, realm: attributes.realm };
                             }
                             return newEntities;
                         });
@@ -1696,7 +1755,7 @@ export const createCommandTagProcessor = (params: CommandTagProcessorParams) =>
                             const newEntities = { ...prev };
                             if (newEntities[attributes.npcName]) {
                                 const oldRelationship = newEntities[attributes.npcName].relationship;
-                                newEntities[attributes.npcName].relationship = attributes.relationship;
+                                newEntities[attributes.npcName] = { ...newEntities[attributes.npcName], relationship: attributes.relationship };
                                 
                                 // Log relationship change
                                 if (turnCount && oldRelationship !== attributes.relationship) {
@@ -1817,6 +1876,32 @@ export const createCommandTagProcessor = (params: CommandTagProcessorParams) =>
                            unprocessedTags.push(match[0]);
                         }
                 }
+                const tagChanges = diffCommandTagState(stateBeforeTag, transaction.state);
+                if (tagChanges.length > 0) {
+                    journalEntries.push(createTagJournalEntry(turnCount || 0, tagType, match[0], attributes, tagChanges));
+                }
+                } catch (error: any) {
+                    transaction.reject({ tag: tagType, raw: match[0], message: { key: 'tagRejection.reason.applyFailed', params: { error: String(error?.message || error) } } });
+                }
+            }
+        }
+
+        if (applySideEffects && transaction.tagCount > 0) {
+            const committed = transaction.commit({
+                knownEntities: params.setKnownEntities,
+                statuses: params.setStatuses,
+                quests: params.setQuests,
+                party: params.setParty,
+                memories: params.setMemories,
+                gameTime: params.setGameTime,
+                chronicle: params.setChronicle,
+                locationDiscoveryOrder: params.setLocationDiscoveryOrder
+            });
+            if (!committed) {
+                console.warn(`⛔ Rejected ${transaction.tagCount} command tag(s), none applied:`, transaction.errors);
+                onTagsRejected?.({ turn: turnCount || 0, tagCount: transaction.tagCount, errors: [...transaction.errors] });
+            } else if (journalEntries.length > 0) {
+                onTagsCommitted?.(journalEntries);
             }
         }
        let finalStory = cleanStory.trim();
@@ -0,0 +1,33 @@
+// commandTagTestUtils.ts - Shared state and setters for the command tag tests
+
+import { vi } from 'vitest';
+import type { CommandTagState } from '../types';
+
+/** Empty command tag state at the start of day one, with `overrides` filled in */
+export const makeCommandTagState = (overrides: Partial<CommandTagState> = {}): CommandTagState => ({
+    knownEntities: {},
+    statuses: [],
+    quests: [],
+    party: [],
+    memories: [],
+    gameTime: { year: 1, month: 1, day: 1, hour: 8, minute: 0 },
+    chronicle: { memoir: [], chapter: [], turn: [] },
+    locationDiscoveryOrder: [],
+    ...overrides
+});
+
+// React-like setters that apply updaters to a mutable copy of the state
+export const makeCommandTagStore = (initial: CommandTagState) => {
+    const store = { ...initial };
+    const setter = (slice: keyof CommandTagState) => vi.fn((value: any) => {
+        (store as any)[slice] = typeof value === 'function' ? value((store as any)[slice]) : value;
+    });
+    const setters = {
+        setKnownEntities: setter('knownEntities'), setStatuses: setter('statuses'), setQuests: setter('quests'),
+        setParty: setter('party'), setMemories: setter('memories'), setGameTime: setter('gameTime'),
+        setChronicle: setter('chronicle'), setLocationDiscoveryOrder: setter('locationDiscoveryOrder')
+    };
+    return { store, setters };
+};
+
+export type CommandTagSetters = ReturnType<typeof makeCommandTagStore>['setters'];
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CommandTagTransaction, validateCommandTag } from './commandTagTransaction';
+import { createCommandTagProcessor } from './commandTagProcessor';
+import { makeCommandTagState, makeCommandTagStore } from './commandTagTestUtils';
+import type { CommandTagSetters } from './commandTagTestUtils';
+import type { CommandTagState, Entity, Quest } from '../types';
+
+const pc = { name: 'Lý Phàm', type: 'pc', description: 'Nhân vật chính', learnedSkills: [] } as Entity;
+const pill = { name: 'Hồi Khí Đan', type: 'item', description: 'Đan dược', owner: 'pc', quantities: 2 } as Entity;
+const quest: Quest = {
+    title: 'Tìm linh dược', description: '', isMainQuest: false, status: 'active',
+    objectives: [{ id: 'o1', description: 'Lên núi', completed: false }, { id: 'o2', description: 'Hái thuốc', completed: false }]
+};
+
+const makeState = (): CommandTagState => makeCommandTagState({
+    knownEntities: { [pc.name]: pc, [pill.name]: pill },
+    statuses: [{ name: 'Trúng độc', description: '', type: 'debuff', source: '', owner: 'pc' }],
+    quests: [quest],
+    party: [pc]
+});
+
+const makeProcessor = (state: CommandTagState, setters: CommandTagSetters) => {
+    const onTagsRejected = vi.fn();
+    const processor = createCommandTagProcessor({ ...setters, ...state, regexRules: [], turnCount: 5, onTagsRejected });
+    return { processor, onTagsRejected };
+};
+
+describe('validateCommandTag', () => {
+    it('checks item ownership, statuses and quest objectives', () => {
+        const state = makeState();
+        expect(validateCommandTag('ITEM_CONSUMED', { name: pill.name }, state)).toBeNull();
+        expect(validateCommandTag('ITEM_CONSUMED', { name: 'Linh Thạch' }, state))
+            .toEqual({ key: 'tagRejection.reason.itemNotOwned', params: { name: 'Linh Thạch' } });
+        expect(validateCommandTag('STATUS_CURED_SELF', { name: 'Trúng độc' }, state)).toBeNull();
+        expect(validateCommandTag('STATUS_CURED_SELF', { name: 'Bỏng' }, state)).not.toBeNull();
+        expect(validateCommandTag('QUEST_OBJECTIVE_COMPLETED', { questTitle: quest.title, objectiveDescription: 'Lên núi' }, state)).toBeNull();
+        expect(validateCommandTag('QUEST_OBJECTIVE_COMPLETED', { questTitle: quest.title, objectiveDescription: 'Xuống núi' }, state)).not.toBeNull();
+        expect(validateCommandTag('LORE_NPC', { name: 'Bất kỳ' }, state)).toBeNull();
+    });
+});
+
+describe('CommandTagTransaction', () => {
+    it('replays recorded updates when the slice changed after the snapshot', () => {
+        const state = makeState();
+        const transaction = new CommandTagTransaction(state);
+        transaction.update('statuses', prev => prev.filter(s => s.name !== 'Trúng độc'));
+
+        const newer = [...state.statuses, { name: 'Mê man', description: '', type: 'debuff' as const, source: '', owner: 'pc' }];
+        let committed: any;
+        transaction.commit({ statuses: (updater: any) => { committed = updater(newer); } } as any);
+        expect(committed.map((s: any) => s.name)).toEqual(['Mê man']);
+    });
+});
+
+describe('parseStoryAndTags transactions', () => {
+    it('commits every slice once when all tags are valid', () => {
+        const state = makeState();
+        const { store, setters } = makeCommandTagStore(state);
+        const { processor, onTagsRejected } = makeProcessor(state, setters);
+
+        const story = processor.parseStoryAndTags(
+            `Bạn uống đan. [ITEM_CONSUMED: name="${pill.name}"] [STATUS_CURED_SELF: name="Trúng độc"] ` +
+            `[ITEM_CONSUMED: name="${pill.name}"] [QUEST_OBJECTIVE_COMPLETED: questTitle="${quest.title}" objectiveDescription="Lên núi"]`
+        );
+
+        expect(story).toBe('Bạn uống đan.');
+        expect(onTagsRejected).not.toHaveBeenCalled();
+        expect(setters.setKnownEntities).toHaveBeenCalledTimes(1);
+        expect(setters.setStatuses).toHaveBeenCalledTimes(1);
+        expect(setters.setQuests).toHaveBeenCalledTimes(1);
+        expect(setters.setParty).not.toHaveBeenCalled();
+        expect(store.knownEntities[pill.name]).toBeUndefined();
+        expect(store.statuses).toEqual([]);
+        expect(store.quests[0].objectives[0].completed).toBe(true);
+    });
+
+    it('rejects the whole change set when one tag is invalid', () => {
+        const state = makeState();
+        const before = JSON.stringify(state);
+        const { setters } = makeCommandTagStore(state);
+        const { processor, onTagsRejected } = makeProcessor(state, setters);
+
+        processor.parseStoryAndTags(
+            `[TIME_ELAPSED: hours=2] [ITEM_CONSUMED: name="${pill.name}"] [ITEM_CONSUMED: name="Linh Thạch"] [STATUS_CURED_SELF: name="Bỏng"]`
+        );
+
+        Object.values(setters).forEach(setter => expect(setter).not.toHaveBeenCalled());
+        expect(JSON.stringify(state)).toBe(before);
+        expect(onTagsRejected).toHaveBeenCalledTimes(1);
+        const rejection = onTagsRejected.mock.calls[0][0];
+        expect(rejection).toMatchObject({ turn: 5, tagCount: 4 });
+        expect(rejection.errors.map((error: any) => error.tag)).toEqual(['ITEM_CONSUMED', 'STATUS_CURED_SELF']);
+        expect(rejection.errors[0].raw).toBe('[ITEM_CONSUMED: name="Linh Thạch"]');
+    });
+
+    it('validates each tag against the state left by earlier tags', () => {
+        const state = makeState();
+        const { store, setters } = makeCommandTagStore(state);
+        const { processor, onTagsRejected } = makeProcessor(state, setters);
+
+        processor.parseStoryAndTags(
+            `[ITEM_AQUIRED: name="Linh Thạch" description="Đá" quantities=1] [ITEM_CONSUMED: name="Linh Thạch"]`
+        );
+
+        expect(onTagsRejected).not.toHaveBeenCalled();
+        expect(store.knownEntities['Linh Thạch']).toBeUndefined();
+    });
+});
@@ -0,0 +1,171 @@
+// commandTagTransaction.ts - Applies one response's command tags as a single change set
+//
+// Tags are applied in order to a working copy of the game state, so each tag is validated
+// against the state left by the tags before it. If every tag is valid the change set is
+// committed with one setter call per touched slice; otherwise nothing is committed.
+
+import type { CommandTagState, CommandTagError, Entity } from '../types';
+import type { TranslatableMessage } from '../i18n';
+
+export type CommandTagSlice = keyof CommandTagState;
+
+type SliceUpdate<K extends CommandTagSlice> = CommandTagState[K] | ((prev: CommandTagState[K]) => CommandTagState[K]);
+type SliceOperations = { [K in CommandTagSlice]?: Array<(prev: CommandTagState[K]) => CommandTagState[K]> };
+
+export type CommandTagSetters = {
+    [K in CommandTagSlice]: (value: (prev: CommandTagState[K]) => CommandTagState[K]) => void;
+};
+
+const findPcItem = (state: CommandTagState, name: string): Entity | undefined => {
+    const item = state.knownEntities[name];
+    return item && item.type === 'item' && item.owner === 'pc' ? item : undefined;
+};
+
+const findSkill = (state: CommandTagState, name: string): Entity | undefined => {
+    const skill = state.knownEntities[name];
+    return skill && skill.type === 'skill' ? skill : undefined;
+};
+
+/**
+ * Checks a tag's preconditions against the working state. Returns the problem, or null when
+ * the tag can be applied. Tags without preconditions always pass.
+ */
+export const validateCommandTag = (tagType: string, attributes: { [key: string]: any }, state: CommandTagState): TranslatableMessage | null => {
+    switch (tagType) {
+        case 'ITEM_CONSUMED':
+        case 'ITEM_EQUIPPED':
+        case 'ITEM_UNEQUIPPED':
+        case 'ITEM_UPDATED':
+        case 'ITEM_DISCARDED':
+        case 'ITEM_LOST':
+            if (!attributes.name) return { key: 'tagRejection.reason.missingItemName' };
+            if (!findPcItem(state, attributes.name)) return { key: 'tagRejection.reason.itemNotOwned', params: { name: attributes.name } };
+            return null;
+        case 'ITEM_DAMAGED':
+        case 'ITEM_REPAIRED':
+            if (!attributes.name || state.knownEntities[attributes.name]?.type !== 'item') return { key: 'tagRejection.reason.itemNotFound', params: { name: String(attributes.name ?? '') } };
+            return null;
+        case 'ITEM_TRANSFORMED':
+            if (!attributes.oldName || !attributes.newName) return { key: 'tagRejection.reason.missingTransformNames' };
+            return null;
+        case 'STATUS_CURED_SELF':
+            if (!state.statuses.some(s => s.name === attributes.name && s.owner === 'pc')) {
+                return { key: 'tagRejection.reason.pcStatusNotFound', params: { name: String(attributes.name ?? '') } };
+            }
+            return null;
+        case 'STATUS_CURED_NPC':
+            if (!state.statuses.some(s => s.name === attributes.name && s.owner === attributes.npcName)) {
+                return { key: 'tagRejection.reason.npcStatusNotFound', params: { npcName: String(attributes.npcName ?? ''), name: String(attributes.name ?? '') } };
+            }
+            return null;
+        case 'STATUS_APPLIED_NPC':
+            if (!attributes.npcName) return { key: 'tagRejection.reason.missingNpcName' };
+            return null;
+        case 'SKILL_EXP_GAIN':
+        case 'SKILL_BREAKTHROUGH':
+            if (!findSkill(state, attributes.skillName)) return { key: 'tagRejection.reason.skillNotFound', params: { name: String(attributes.skillName ?? '') } };
+            return null;
+        case 'REALM_UPDATE':
+            if (!Object.values(state.knownEntities).some(e => e.name === attributes.target)) {
+                return { key: 'tagRejection.reason.entityNotFound', params: { name: String(attributes.target ?? '') } };
+            }
+            return null;
+        case 'RELATIONSHIP_CHANGED':
+            if (!state.knownEntities[attributes.npcName]) return { key: 'tagRejection.reason.npcNotFound', params: { name: String(attributes.npcName ?? '') } };
+            return null;
+        case 'COMPANION':
+            if (!attributes.name || !attributes.description) return { key: 'tagRejection.reason.incompleteCompanion' };
+            return null;
+        case 'QUEST_ASSIGNED':
+            if (!attributes.title) return { key: 'tagRejection.reason.missingQuestTitle' };
+            return null;
+        case 'QUEST_UPDATED':
+            if (!state.quests.some(q => q.title === attributes.title)) return { key: 'tagRejection.reason.questNotFound', params: { title: String(attributes.title ?? '') } };
+            return null;
+        case 'QUEST_OBJECTIVE_COMPLETED': {
+            const quest = state.quests.find(q => q.title === attributes.questTitle);
+            if (!quest) return { key: 'tagRejection.reason.questNotFound', params: { title: String(attributes.questTitle ?? '') } };
+            if (!quest.objectives.some(obj => obj.description === attributes.objectiveDescription)) {
+                return { key: 'tagRejection.reason.objectiveNotFound', params: { title: quest.title, objective: String(attributes.objectiveDescription ?? '') } };
+            }
+            return null;
+        }
+        default:
+            return null;
+    }
+};
+
+export class CommandTagTransaction {
+    private readonly base: CommandTagState;
+    private readonly draft: CommandTagState;
+    private readonly operations: SliceOperations = {};
+    private replaying = false;
+    readonly errors: CommandTagError[] = [];
+    tagCount = 0;
+
+    constructor(snapshot: CommandTagState) {
+        this.base = snapshot;
+        this.draft = { ...snapshot };
+    }
+
+    /** Working state after the tags applied so far */
+    get state(): Readonly<CommandTagState> {
+        return this.draft;
+    }
+
+    get touchedSlices(): CommandTagSlice[] {
+        return Object.keys(this.operations) as CommandTagSlice[];
+    }
+
+    /** Applies an update to the working state and records it for commit */
+    update<K extends CommandTagSlice>(slice: K, value: SliceUpdate<K>): void {
+        // Updates nested inside another slice's updater are recorded on their own slice
+        // during the first pass, so they must not be recorded again while replaying
+        if (this.replaying) return;
+        const operation = (typeof value === 'function' ? value : () => value) as (prev: CommandTagState[K]) => CommandTagState[K];
+        // Viewed through K alone, so the recorded list keeps the slice's own type
+        const recorded: { [S in K]?: Array<(prev: CommandTagState[S]) => CommandTagState[S]> } = this.operations;
+        const operations = recorded[slice] ?? [];
+        operations.push(operation);
+        recorded[slice] = operations;
+        this.draft[slice] = operation(this.draft[slice]);
+    }
+
+    /** A setter with the same signature as the React one, bound to the working state */
+    setter<K extends CommandTagSlice>(slice: K): (value: SliceUpdate<K>) => void {
+        return value => this.update(slice, value);
+    }
+
+    reject(error: CommandTagError): void {
+        this.errors.push(error);
+    }
+
+    /**
+     * Commits every touched slice, or nothing if any tag was rejected. A slice that has not
+     * changed since the snapshot receives the validated value; one that was updated in the
+     * meantime (e.g. by an earlier stage of the same turn) has the recorded updates replayed
+     * on top of the newer value.
+     */
+    commit(setters: CommandTagSetters): boolean {
+        if (this.errors.length > 0) return false;
+        for (const slice of this.touchedSlices) {
+            this.commitSlice(slice, setters[slice]);
+        }
+        return true;
+    }
+
+    private commitSlice<K extends CommandTagSlice>(slice: K, setSlice: CommandTagSetters[K]): void {
+        const base = this.base[slice];
+        const validated = this.draft[slice];
+        const operations: Array<(prev: CommandTagState[K]) => CommandTagState[K]> = this.operations[slice] || [];
+        setSlice((prev: CommandTagState[K]) => {
+            if (prev === base) return validated;
+            this.replaying = true;
+            try {
+                return operations.reduce((value, operation) => operation(value), prev);
+            } finally {
+                this.replaying = false;
+            }
+        });
+    }
+}
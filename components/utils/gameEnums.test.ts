@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parseMasteryTier, parseRiskTier, parseChoiceCategory, findMasteryTierInText, findRiskTierInText,
+    replaceRiskTierInText, getMasteryLabel, getRiskLabel, formatMasteryLike, formatRiskLike
+} from './gameEnums';
+import { reduceRiskLevel } from './skillMasteryAdjustments';
+
+describe('gameEnums', () => {
+    it('parses labels of every locale and the ids themselves', () => {
+        expect(parseMasteryTier('Cao Cấp')).toBe('advanced');
+        expect(parseMasteryTier('Advanced')).toBe('advanced');
+        expect(parseMasteryTier('advanced')).toBe('advanced');
+        expect(parseRiskTier('Cực Cao')).toBe('extreme');
+        expect(parseRiskTier('Extreme')).toBe('extreme');
+        expect(parseChoiceCategory('Tua nhanh')).toBe('timeSkip');
+        expect(parseChoiceCategory('Time Skip')).toBe('timeSkip');
+        expect(parseMasteryTier('Thần Cấp')).toBeNull();
+        expect(parseRiskTier(undefined)).toBeNull();
+    });
+
+    it('ignores case, accents and spacing', () => {
+        expect(parseRiskTier('cuc  cao')).toBe('extreme');
+        expect(parseMasteryTier('dai thanh')).toBe('master');
+        expect(parseRiskTier('MEDIUM')).toBe('medium');
+    });
+
+    it('finds whole-word labels in free text, longest first', () => {
+        expect(findRiskTierInText('Tỷ lệ 40%, rủi ro Cực Cao')).toEqual({ tier: 'extreme', match: 'Cực Cao', label: 'Cực Cao' });
+        expect(findRiskTierInText('Risk: high (ambush likely)')).toEqual({ tier: 'high', match: 'high', label: 'High' });
+        expect(findRiskTierInText('Follow the lowland road')).toBeNull();
+        expect(findRiskTierInText('Climb the high wall (60%, Risk: Low)')).toEqual({ tier: 'low', match: 'Low', label: 'Low' });
+        expect(replaceRiskTierInText('Climb the high wall (60%, high risk)', 'Medium')).toBe('Climb the high wall (60%, Medium risk)');
+        expect(findMasteryTierInText('Huyết Đế Chú (Viên Mãn)')).toEqual({ tier: 'perfect', match: 'Viên Mãn' });
+    });
+
+    it('writes a tier back in the form of the text it came from', () => {
+        expect(formatMasteryLike('master', 'Cao Cấp')).toBe('Đại Thành');
+        expect(formatMasteryLike('master', 'Advanced')).toBe('Master');
+        expect(formatRiskLike('low', 'medium')).toBe('low');
+        expect(reduceRiskLevel('Extreme', 2)).toBe('Medium');
+        expect(reduceRiskLevel('Trung Bình', 3)).toBe('Thấp');
+    });
+
+    it('labels tiers in the requested locale', () => {
+        expect(getMasteryLabel('novice', 'vi')).toBe('Sơ Cấp');
+        expect(getMasteryLabel('perfect', 'en')).toBe('Perfected');
+        expect(getRiskLabel('extreme', 'en')).toBe('Extreme');
+    });
+});
@@ -0,0 +1,127 @@
+// gameEnums.ts - Locale-neutral ids for mastery levels, risk levels and choice categories
+//
+// Game mechanics compare these ids, never display text. The GM and the player still write
+// labels ("Cao Cấp", "Advanced", "✦Chiến đấu✦"), so text is parsed into an id with the label
+// tables of every locale, and an id is written back as the label of the locale the text used.
+
+import { t, getLocale, type Locale, type TranslationKey } from '../i18n';
+
+export type MasteryTier = 'novice' | 'intermediate' | 'advanced' | 'master' | 'perfect';
+export type RiskTier = 'low' | 'medium' | 'high' | 'extreme';
+export type ChoiceCategory = 'action' | 'social' | 'explore' | 'combat' | 'travel' | 'timeSkip';
+
+// Lowest to highest
+export const MASTERY_TIERS: MasteryTier[] = ['novice', 'intermediate', 'advanced', 'master', 'perfect'];
+export const RISK_TIERS: RiskTier[] = ['low', 'medium', 'high', 'extreme'];
+export const CHOICE_CATEGORIES: ChoiceCategory[] = ['action', 'social', 'explore', 'combat', 'travel', 'timeSkip'];
+
+type EnumKind = 'mastery' | 'risk' | 'category';
+
+const ENUM_VALUES: Record<EnumKind, readonly string[]> = {
+    mastery: MASTERY_TIERS,
+    risk: RISK_TIERS,
+    category: CHOICE_CATEGORIES
+};
+const LABEL_LOCALES: Locale[] = ['vi', 'en'];
+
+interface ParsedEnum {
+    value: string;
+    locale: Locale | null;   // null when the text was the id itself
+}
+
+const labelOf = (kind: EnumKind, value: string, locale: Locale): string =>
+    t(`${kind}.${value}` as TranslationKey, undefined, locale);
+
+// Case, accents and spacing are ignored: "cuc cao" and "Cực  Cao" are the same label
+const normalizeLabel = (text: string): string =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[đĐ]/g, 'd').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const parseEnum = (kind: EnumKind, text: string | null | undefined): ParsedEnum | null => {
+    if (!text) return null;
+    const values = ENUM_VALUES[kind];
+    if (values.includes(text)) return { value: text, locale: null };
+
+    const key = normalizeLabel(text);
+    for (const locale of LABEL_LOCALES) {
+        const value = values.find(candidate => normalizeLabel(labelOf(kind, candidate, locale)) === key);
+        if (value) return { value, locale };
+    }
+    return null;
+};
+
+// Words that introduce a risk level: "Risk: Low", "rủi ro Cao", or follow it: "(60%, low risk)"
+const RISK_MARKERS = ['risk', 'rủi ro'];
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+interface FoundEnum {
+    value: string;
+    locale: Locale;
+    match: string;
+    index: number;
+}
+
+/**
+ * Whole-word label of any locale in free text; longer labels first so "Cực Cao" wins over "Cao".
+ * With `markers`, a label next to a marker wins over one earlier in the text, so the "high" in
+ * "Climb the high wall (Risk: Low)" is not taken for the risk; without a marker the first label is used.
+ */
+const findEnumInText = (kind: EnumKind, text: string, markers: string[] = []): FoundEnum | null => {
+    const labels = LABEL_LOCALES.flatMap(locale => ENUM_VALUES[kind].map(value => ({ value, locale, label: labelOf(kind, value, locale) })))
+        .sort((a, b) => b.label.length - a.label.length);
+    const label = `(?<!\\p{L})(${labels.map(entry => escapeRegExp(entry.label)).join('|')})(?!\\p{L})`;
+    const patterns: RegExp[] = [];
+    if (markers.length > 0) {
+        const marker = markers.map(escapeRegExp).join('|');
+        patterns.push(new RegExp(`(?<!\\p{L})(?:${marker})\\s*:?\\s*${label}`, 'iu'));
+        patterns.push(new RegExp(`${label}\\s+(?:${marker})(?!\\p{L})`, 'iu'));
+    }
+    patterns.push(new RegExp(label, 'iu'));
+
+    for (const pattern of patterns) {
+        const match = text.match(pattern);
+        if (!match) continue;
+        const found = labels.find(entry => entry.label.toLowerCase() === match[1].toLowerCase())!;
+        return { value: found.value, locale: found.locale, match: match[1], index: match.index! + match[0].indexOf(match[1]) };
+    }
+    return null;
+};
+
+// Text in the same form as `sample`: its locale's label, the id if it was an id, else the active locale
+const formatLike = (kind: EnumKind, value: string, sample?: string | null): string => {
+    const parsed = sample ? parseEnum(kind, sample) : null;
+    if (parsed && parsed.locale === null) return value;
+    return labelOf(kind, value, parsed?.locale ?? getLocale());
+};
+
+export const parseMasteryTier = (text: string | null | undefined): MasteryTier | null =>
+    (parseEnum('mastery', text)?.value as MasteryTier | undefined) ?? null;
+
+export const parseRiskTier = (text: string | null | undefined): RiskTier | null =>
+    (parseEnum('risk', text)?.value as RiskTier | undefined) ?? null;
+
+export const parseChoiceCategory = (text: string | null | undefined): ChoiceCategory | null =>
+    (parseEnum('category', text)?.value as ChoiceCategory | undefined) ?? null;
+
+export const findMasteryTierInText = (text: string): { tier: MasteryTier; match: string } | null => {
+    const found = findEnumInText('mastery', text);
+    return found ? { tier: found.value as MasteryTier, match: found.match } : null;
+};
+
+export const findRiskTierInText = (text: string): { tier: RiskTier; match: string; label: string } | null => {
+    const found = findEnumInText('risk', text, RISK_MARKERS);
+    return found ? { tier: found.value as RiskTier, match: found.match, label: labelOf('risk', found.value, found.locale) } : null;
+};
+
+/** Replaces the risk level found by findRiskTierInText, leaving other occurrences of the word alone */
+export const replaceRiskTierInText = (text: string, replacement: string): string => {
+    const found = findEnumInText('risk', text, RISK_MARKERS);
+    return found ? `${text.slice(0, found.index)}${replacement}${text.slice(found.index + found.match.length)}` : text;
+};
+
+export const getMasteryLabel = (tier: MasteryTier, locale: Locale = getLocale()): string => labelOf('mastery', tier, locale);
+export const getRiskLabel = (tier: RiskTier, locale: Locale = getLocale()): string => labelOf('risk', tier, locale);
+export const getChoiceCategoryLabel = (category: ChoiceCategory, locale: Locale = getLocale()): string => labelOf('category', category, locale);
+
+export const formatMasteryLike = (tier: MasteryTier, sample?: string | null): string => formatLike('mastery', tier, sample);
+export const formatRiskLike = (tier: RiskTier, sample?: string | null): string => formatLike('risk', tier, sample);
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    updateHistorySummaries, getTopLevelSummaries, mergeHistorySummaries, buildSegmentTranscript, HISTORY_SUMMARY_FANOUT
+} from './historySummarizer';
+import type { CompressedHistorySegment } from '../HistoryManager';
+import type { Entity, GameHistoryEntry, HistorySummary, KnownEntities, LLMGenerateRequest, LLMResponse } from '../types';
+
+const knownEntities: KnownEntities = {
+    'Đạo Huyền': { name: 'Đạo Huyền', type: 'npc', description: 'Chưởng môn Thanh Vân' } as Entity,
+    'Lâm Phong': { name: 'Lâm Phong', type: 'pc', description: 'Đệ tử mới' } as Entity
+};
+
+const segment = (start: number, end: number): CompressedHistorySegment => ({
+    turnRange: `${start}-${end}`,
+    summary: 'Lâm Phong bái Đạo Huyền làm sư phụ',
+    keyActions: ['Quỳ trước Đạo Huyền'],
+    importantEvents: ['Lâm Phong nhận kiếm'],
+    recentChoices: [],
+    storyFlow: [],
+    tokenCount: 50,
+    compressedAt: end
+});
+
+const entries: GameHistoryEntry[] = [
+    { role: 'user', parts: [{ text: 'ACTION: Quỳ xuống bái sư' }] },
+    { role: 'model', parts: [{ text: JSON.stringify({ story: 'Đạo Huyền gật đầu nhận [ITEM_AQUIRED: name="Kiếm"] Lâm Phong.' }) }] }
+];
+
+const goodSummary = 'Lâm Phong quỳ trước Đạo Huyền, được nhận làm đệ tử chân truyền và trao thanh kiếm đầu tiên.';
+
+// Answers with the scripted texts in order; an Error in the script is thrown instead
+const scriptedModel = (script: (string | Error)[]) => {
+    const requests: LLMGenerateRequest[] = [];
+    const generate = vi.fn(async (request: LLMGenerateRequest): Promise<LLMResponse> => {
+        requests.push(request);
+        const answer = script[requests.length - 1] ?? goodSummary;
+        if (answer instanceof Error) throw answer;
+        return { text: answer, usageMetadata: { totalTokenCount: 10 } };
+    });
+    return { generate, requests };
+};
+
+describe('historySummarizer', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('asks for summaries in the GM language', async () => {
+        const { generate, requests } = scriptedModel([goodSummary]);
+
+        await updateHistorySummaries(generate, 'm', [], segment(1, 10), entries, knownEntities, 'en');
+
+        expect(requests[0].config?.systemInstruction).toContain('English prose');
+        expect(requests[0].config?.systemInstruction).not.toContain('tiếng Việt');
+        expect(requests[0].contents).toMatch(/^Summarize turns 1-10 below/);
+    });
+
+    it('keeps a valid model summary with its turn range', async () => {
+        const { generate, requests } = scriptedModel([goodSummary]);
+
+        const { summaries, tokens } = await updateHistorySummaries(generate, 'm', [], segment(1, 10), entries, knownEntities);
+
+        expect(summaries).toEqual([expect.objectContaining({
+            id: 'segment-1-10-10', level: 'segment', startTurn: 1, endTurn: 10, summary: goodSummary, source: 'llm', sourceIds: []
+        })]);
+        expect(summaries[0].rejectedReason).toBeUndefined();
+        expect(tokens).toBe(10);
+        expect(requests[0].contents).toContain('> Quỳ xuống bái sư');
+        expect(requests[0].contents).toContain('Đạo Huyền gật đầu nhận Lâm Phong.');
+    });
+
+    it('falls back to the heuristic summary when the model output is rejected or fails', async () => {
+        const missingNames = scriptedModel(['Một người trẻ tuổi quỳ xuống trước một lão nhân trên đỉnh núi cao và được nhận làm đồ đệ.']);
+        const [rejected] = (await updateHistorySummaries(missingNames.generate, 'm', [], segment(1, 10), entries, knownEntities)).summaries;
+        expect(rejected.source).toBe('heuristic');
+        expect(rejected.rejectedReason).toContain('Lâm Phong');
+        expect(rejected.summary).toContain('Lâm Phong bái Đạo Huyền làm sư phụ');
+        expect(rejected.summary).toContain('Hành động: Quỳ trước Đạo Huyền');
+
+        const json = scriptedModel([JSON.stringify({ summary: goodSummary })]);
+        const [notProse] = (await updateHistorySummaries(json.generate, 'm', [], segment(1, 10), entries, knownEntities)).summaries;
+        expect(notProse).toMatchObject({ source: 'heuristic', rejectedReason: 'Tóm tắt không phải văn xuôi' });
+
+        const failing = scriptedModel([new Error('quota exceeded')]);
+        const result = await updateHistorySummaries(failing.generate, 'm', [], segment(1, 10), entries, knownEntities);
+        expect(result.summaries[0]).toMatchObject({ source: 'heuristic', rejectedReason: 'quota exceeded' });
+        expect(result.tokens).toBe(0);
+    });
+
+    it('rolls a full group of segments up into a chapter', async () => {
+        const { generate, requests } = scriptedModel([]);
+        let summaries: HistorySummary[] = [];
+        for (let i = 0; i < HISTORY_SUMMARY_FANOUT; i++) {
+            const update = await updateHistorySummaries(generate, 'm', summaries, segment(i * 10 + 1, i * 10 + 10), entries, knownEntities);
+            summaries = mergeHistorySummaries(summaries, update.summaries);
+        }
+
+        expect(generate).toHaveBeenCalledTimes(HISTORY_SUMMARY_FANOUT + 1);
+        expect(requests[HISTORY_SUMMARY_FANOUT].contents).toContain('[Lượt 31-40]');
+        const chapter = summaries.find(summary => summary.level === 'chapter')!;
+        expect(chapter).toMatchObject({ id: 'chapter-1-40', startTurn: 1, endTurn: 40, source: 'llm', createdAt: 40 });
+        expect(chapter.sourceIds).toEqual(['segment-1-10-10', 'segment-11-20-20', 'segment-21-30-30', 'segment-31-40-40']);
+        expect(getTopLevelSummaries(summaries)).toEqual([chapter]);
+    });
+
+    it('lists uncovered summaries oldest first and merges without duplicates', () => {
+        const summary = (id: string, startTurn: number, sourceIds: string[] = []): HistorySummary => ({
+            id, level: sourceIds.length ? 'chapter' : 'segment', startTurn, endTurn: startTurn + 9, summary: id, sourceIds, source: 'llm', createdAt: 0
+        });
+        const list = [summary('b', 11), summary('c', 21), summary('chapter', 1, ['a', 'b']), summary('a', 1)];
+
+        expect(getTopLevelSummaries(list).map(item => item.id)).toEqual(['chapter', 'c']);
+        expect(mergeHistorySummaries([summary('a', 1)], list).map(item => item.id)).toEqual(['a', 'b', 'c', 'chapter']);
+        expect(buildSegmentTranscript([{ role: 'user', parts: [{ text: 'ACTION: SYSTEM_RULE_UPDATE' }] }])).toBe('');
+    });
+
+    it('reads the player action of full turn prompts in either language', () => {
+        const entries: GameHistoryEntry[] = [
+            { role: 'user', parts: [{ text: '=== TRI THỨC QUAN TRỌNG ===\n--- HÀNH ĐỘNG CỦA NGƯỜI CHƠI ---\n"Quỳ trước Đạo Huyền"\n' }] },
+            { role: 'user', parts: [{ text: '=== CRITICAL KNOWLEDGE ===\n--- PLAYER ACTION ---\n"Draw the sword"\n' }] }
+        ];
+
+        expect(buildSegmentTranscript(entries)).toBe('> Quỳ trước Đạo Huyền\n> Draw the sword');
+    });
+});
@@ -0,0 +1,274 @@
+// historySummarizer.ts - Model-written summaries of compressed history, rolled up segment → chapter → arc
+//
+// When HistoryManager compresses a history segment, the configured model summarizes those turns
+// in the background. Whenever HISTORY_SUMMARY_FANOUT summaries of one level are not yet covered
+// by a parent, they are rolled up into one summary of the next level, so old turns stay in the
+// prompt at an ever coarser grain. A model summary that fails validation against the heuristic
+// segment data is replaced by a summary built from that data.
+
+import type { GameHistoryEntry, HistorySummary, HistorySummaryLevel, KnownEntities, LLMGenerateRequest, LLMResponse } from '../types';
+import type { CompressedHistorySegment } from '../HistoryManager';
+import { foldDiacritics } from './RetrievalIndex';
+import { DEFAULT_LOCALE, type Locale } from '../i18n';
+import { extractHistoryAction } from './promptTemplates';
+
+export const HISTORY_SUMMARY_FANOUT = 4;
+
+export const HISTORY_SUMMARY_LABELS: Record<HistorySummaryLevel, string> = {
+    segment: 'Đoạn',
+    chapter: 'Chương',
+    arc: 'Hồi'
+};
+
+// Length asked of the model; a summary more than twice as long is rejected
+const SUMMARY_TARGET_CHARS: Record<HistorySummaryLevel, number> = { segment: 600, chapter: 800, arc: 1000 };
+const MIN_SUMMARY_CHARS = 40;
+const TRANSCRIPT_MAX_CHARS = 12000;
+const NEXT_LEVEL: Partial<Record<HistorySummaryLevel, HistorySummaryLevel>> = { segment: 'chapter', chapter: 'arc' };
+
+// Summaries are written in the language the GM writes in, so they read naturally in its prompt
+const SUMMARY_PROMPTS: Record<Locale, {
+    systemInstruction: string;
+    levels: Record<HistorySummaryLevel, string>;
+    segment: (startTurn: number, endTurn: number, maxChars: number) => string;
+    rollUp: (level: string, startTurn: number, endTurn: number, maxChars: number) => string;
+    turns: (startTurn: number, endTurn: number) => string;
+    heuristic: { actions: string; events: string; flow: string };
+}> = {
+    vi: {
+        systemInstruction: 'Bạn là người ghi chép biên niên cho một game nhập vai. Chỉ tóm tắt những gì có trong nội dung được cung cấp, không thêm tình tiết. Giữ rõ ai đã làm gì với ai, kết quả và hệ quả. Viết văn xuôi tiếng Việt liền mạch, không dùng JSON, không dùng tiêu đề.',
+        levels: HISTORY_SUMMARY_LABELS,
+        segment: (startTurn, endTurn, maxChars) => `Tóm tắt các lượt ${startTurn}-${endTurn} dưới đây trong tối đa ${maxChars} ký tự.`,
+        rollUp: (level, startTurn, endTurn, maxChars) => `Gộp các bản tóm tắt sau thành một bản tóm tắt ${level.toLowerCase()} cho các lượt ${startTurn}-${endTurn}, tối đa ${maxChars} ký tự, giữ các sự kiện và nhân vật quan trọng nhất.`,
+        turns: (startTurn, endTurn) => `Lượt ${startTurn}-${endTurn}`,
+        heuristic: { actions: 'Hành động', events: 'Sự kiện', flow: 'Diễn biến' }
+    },
+    en: {
+        systemInstruction: 'You are the chronicler of a role-playing game. Summarize only what is in the given content and add no new events. Keep clear who did what to whom, the outcome and its consequences. Write flowing English prose, with no JSON and no headings.',
+        levels: { segment: 'Segment', chapter: 'Chapter', arc: 'Arc' },
+        segment: (startTurn, endTurn, maxChars) => `Summarize turns ${startTurn}-${endTurn} below in at most ${maxChars} characters.`,
+        rollUp: (level, startTurn, endTurn, maxChars) => `Merge the following summaries into one ${level.toLowerCase()} summary of turns ${startTurn}-${endTurn}, at most ${maxChars} characters, keeping the most important events and characters.`,
+        turns: (startTurn, endTurn) => `Turns ${startTurn}-${endTurn}`,
+        heuristic: { actions: 'Actions', events: 'Events', flow: 'Story' }
+    }
+};
+
+type Generate = (request: LLMGenerateRequest) => Promise<LLMResponse>;
+
+export interface SummaryValidation {
+    valid: boolean;
+    reason?: string;
+}
+
+export interface HistorySummaryUpdate {
+    summaries: HistorySummary[];   // The full list, including the new segment and any roll-ups
+    tokens: number;
+}
+
+const parseTurnRange = (turnRange: string): { startTurn: number; endTurn: number } => {
+    const [start, end] = turnRange.split('-').map(value => parseInt(value, 10));
+    const startTurn = Number.isFinite(start) ? start : 0;
+    return { startTurn, endTurn: Number.isFinite(end) ? end : startTurn };
+};
+
+/** The player actions and story text of a segment, oldest first */
+export const buildSegmentTranscript = (entries: GameHistoryEntry[]): string => {
+    const lines = entries.map(entry => {
+        const text = entry.parts.map(part => part.text).join('');
+        if (entry.role === 'user') {
+            const action = extractHistoryAction(text);
+            return action && action !== 'SYSTEM_RULE_UPDATE' ? `> ${action}` : '';
+        }
+        let story = text;
+        try {
+            story = JSON.parse(text).story || '';
+        } catch {
+            // Older entries hold plain text
+        }
+        return story.replace(/\[[A-Z_]+:[^\]]*\]/g, '').replace(/\s+/g, ' ').trim();
+    }).filter(Boolean);
+
+    const transcript = lines.join('\n');
+    // The end of a segment matters most for what follows
+    return transcript.length > TRANSCRIPT_MAX_CHARS ? transcript.slice(-TRANSCRIPT_MAX_CHARS) : transcript;
+};
+
+/** What HistoryManager's heuristics kept of a segment, used when the model's summary is unusable */
+export const buildHeuristicSummary = (segment: CompressedHistorySegment, locale: Locale = DEFAULT_LOCALE): string => {
+    const labels = SUMMARY_PROMPTS[locale].heuristic;
+    return [
+        segment.summary,
+        segment.keyActions?.length ? `${labels.actions}: ${segment.keyActions.join('; ')}` : '',
+        segment.importantEvents?.length ? `${labels.events}: ${segment.importantEvents.join('; ')}` : '',
+        segment.storyFlow?.length ? `${labels.flow}: ${segment.storyFlow.join('. ')}` : ''
+    ].filter(Boolean).join('\n');
+};
+
+/** Known entities named in a text; a summary of that text should name at least half of them */
+export const findMentionedEntities = (text: string, knownEntities: KnownEntities): string[] => {
+    const folded = foldDiacritics(text);
+    return Object.values(knownEntities || {})
+        .map(entity => entity?.name)
+        .filter((name): name is string => !!name && name.length > 1 && folded.includes(foldDiacritics(name)));
+};
+
+export const validateSummary = (summary: string, level: HistorySummaryLevel, requiredNames: string[]): SummaryValidation => {
+    const text = summary.trim();
+    if (!text) return { valid: false, reason: 'Tóm tắt trống' };
+    if (text.startsWith('{') || text.startsWith('[')) return { valid: false, reason: 'Tóm tắt không phải văn xuôi' };
+    if (text.length < MIN_SUMMARY_CHARS) return { valid: false, reason: 'Tóm tắt quá ngắn' };
+    if (text.length > SUMMARY_TARGET_CHARS[level] * 2) return { valid: false, reason: 'Tóm tắt quá dài' };
+
+    const folded = foldDiacritics(text);
+    const missing = requiredNames.filter(name => !folded.includes(foldDiacritics(name)));
+    if (missing.length > requiredNames.length / 2) {
+        return { valid: false, reason: `Tóm tắt bỏ sót nhân vật: ${missing.join(', ')}` };
+    }
+    return { valid: true };
+};
+
+/**
+ * Ask the model for one summary. Never throws: a failed call or a rejected summary yields the
+ * fallback text, marked 'heuristic' with the reason.
+ */
+const generateSummary = async (
+    generate: Generate,
+    model: string,
+    prompt: string,
+    level: HistorySummaryLevel,
+    requiredNames: string[],
+    fallback: string,
+    locale: Locale
+): Promise<{ summary: string; source: HistorySummary['source']; rejectedReason?: string; tokens: number }> => {
+    try {
+        const response = await generate({
+            model,
+            contents: prompt,
+            config: { systemInstruction: SUMMARY_PROMPTS[locale].systemInstruction, temperature: 0.3 }
+        });
+        const tokens = response.usageMetadata?.totalTokenCount || 0;
+        const text = (response.text || '').trim();
+        const validation = validateSummary(text, level, requiredNames);
+        if (validation.valid) return { summary: text, source: 'llm', tokens };
+
+        console.warn(`⚠️ History summary (${level}) rejected: ${validation.reason}`);
+        return { summary: fallback, source: 'heuristic', rejectedReason: validation.reason, tokens };
+    } catch (error) {
+        console.warn(`⚠️ History summary (${level}) failed, keeping the heuristic summary:`, error);
+        return { summary: fallback, source: 'heuristic', rejectedReason: error instanceof Error ? error.message : String(error), tokens: 0 };
+    }
+};
+
+/** Summarize one compressed segment from the history entries it replaced */
+export const summarizeSegment = async (
+    generate: Generate,
+    model: string,
+    segment: CompressedHistorySegment,
+    entries: GameHistoryEntry[],
+    knownEntities: KnownEntities,
+    locale: Locale = DEFAULT_LOCALE
+): Promise<{ summary: HistorySummary; tokens: number }> => {
+    const { startTurn, endTurn } = parseTurnRange(segment.turnRange);
+    const fallback = buildHeuristicSummary(segment, locale);
+    const transcript = buildSegmentTranscript(entries);
+    const prompt = `${SUMMARY_PROMPTS[locale].segment(startTurn, endTurn, SUMMARY_TARGET_CHARS.segment)}\n\n${transcript || fallback}`;
+
+    const result = await generateSummary(generate, model, prompt, 'segment', findMentionedEntities(fallback, knownEntities), fallback, locale);
+    return {
+        summary: {
+            id: `segment-${startTurn}-${endTurn}-${segment.compressedAt}`,
+            level: 'segment',
+            startTurn,
+            endTurn,
+            summary: result.summary,
+            sourceIds: [],
+            source: result.source,
+            ...(result.rejectedReason ? { rejectedReason: result.rejectedReason } : {}),
+            createdAt: segment.compressedAt
+        },
+        tokens: result.tokens
+    };
+};
+
+/** Summaries no parent covers yet, oldest first; these are what the prompt shows */
+export const getTopLevelSummaries = (summaries: HistorySummary[]): HistorySummary[] => {
+    const covered = new Set(summaries.flatMap(summary => summary.sourceIds));
+    return summaries
+        .filter(summary => !covered.has(summary.id))
+        .sort((a, b) => a.startTurn - b.startTurn);
+};
+
+/** Roll every full group of uncovered summaries up one level, repeating up to arcs */
+export const rollUpHistorySummaries = async (
+    generate: Generate,
+    model: string,
+    summaries: HistorySummary[],
+    knownEntities: KnownEntities,
+    turn: number,
+    locale: Locale = DEFAULT_LOCALE
+): Promise<HistorySummaryUpdate> => {
+    const prompts = SUMMARY_PROMPTS[locale];
+    const result = [...summaries];
+    let tokens = 0;
+
+    for (const level of ['segment', 'chapter'] as HistorySummaryLevel[]) {
+        const parentLevel = NEXT_LEVEL[level]!;
+        let uncovered = getTopLevelSummaries(result).filter(summary => summary.level === level);
+
+        while (uncovered.length >= HISTORY_SUMMARY_FANOUT) {
+            const children = uncovered.slice(0, HISTORY_SUMMARY_FANOUT);
+            uncovered = uncovered.slice(HISTORY_SUMMARY_FANOUT);
+
+            const startTurn = children[0].startTurn;
+            const endTurn = children[children.length - 1].endTurn;
+            const childText = children.map(child => `[${prompts.turns(child.startTurn, child.endTurn)}] ${child.summary}`).join('\n');
+            const fallback = children.map(child => child.summary).join(' ').slice(0, SUMMARY_TARGET_CHARS[parentLevel] * 2);
+            const prompt = `${prompts.rollUp(prompts.levels[parentLevel], startTurn, endTurn, SUMMARY_TARGET_CHARS[parentLevel])}\n\n${childText}`;
+
+            // Names that recur across the children are the ones the roll-up must keep
+            const recurring = findMentionedEntities(childText, knownEntities)
+                .filter(name => children.filter(child => foldDiacritics(child.summary).includes(foldDiacritics(name))).length >= 2);
+
+            const generated = await generateSummary(generate, model, prompt, parentLevel, recurring, fallback, locale);
+            tokens += generated.tokens;
+            result.push({
+                id: `${parentLevel}-${startTurn}-${endTurn}`,
+                level: parentLevel,
+                startTurn,
+                endTurn,
+                summary: generated.summary,
+                sourceIds: children.map(child => child.id),
+                source: generated.source,
+                ...(generated.rejectedReason ? { rejectedReason: generated.rejectedReason } : {}),
+                createdAt: turn
+            });
+        }
+    }
+
+    return { summaries: result, tokens };
+};
+
+/**
+ * Summarize a freshly compressed segment and roll the hierarchy up. Runs in the background after
+ * compression; `existing` is the summary list at that moment. `locale` is the GM's language.
+ */
+export const updateHistorySummaries = async (
+    generate: Generate,
+    model: string,
+    existing: HistorySummary[],
+    segment: CompressedHistorySegment,
+    entries: GameHistoryEntry[],
+    knownEntities: KnownEntities,
+    locale: Locale = DEFAULT_LOCALE
+): Promise<HistorySummaryUpdate> => {
+    const { summary, tokens } = await summarizeSegment(generate, model, segment, entries, knownEntities, locale);
+    const rolledUp = await rollUpHistorySummaries(generate, model, [...existing, summary], knownEntities, segment.compressedAt, locale);
+    console.log(`📜 History summary for turns ${summary.startTurn}-${summary.endTurn} (${summary.source}), ${rolledUp.summaries.length - existing.length - 1} roll-ups`);
+    return { summaries: rolledUp.summaries, tokens: tokens + rolledUp.tokens };
+};
+
+/** Adds summaries from a background update that the current list does not have yet */
+export const mergeHistorySummaries = (current: HistorySummary[], update: HistorySummary[]): HistorySummary[] => {
+    const ids = new Set(current.map(summary => summary.id));
+    return [...current, ...update.filter(summary => !ids.has(summary.id))];
+};
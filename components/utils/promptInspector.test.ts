@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { appendPromptInspection, formatPromptInspection, getInspectedPrompt, getOverBudgetSections } from './promptInspector';
+import { enhancedRAG } from '../promptBuilder';
+import { RuleHelpers } from './RuleHelpers';
+import type { Entity, PromptInspection, SaveData } from '../types';
+
+const pc = { name: 'Lâm Phong', type: 'pc', description: 'Đệ tử Thanh Vân', location: 'Thanh Vân Môn' } as Entity;
+const master = { name: 'Đạo Huyền', type: 'npc', description: 'Chưởng môn', location: 'Thanh Vân Môn' } as Entity;
+
+const state = (): SaveData => ({
+    worldData: { storyName: 'Thử', allowNsfw: false },
+    knownEntities: { [pc.name]: pc, [master.name]: master },
+    party: [pc],
+    statuses: [],
+    quests: [{ title: 'Bái sư', description: 'Gặp Đạo Huyền', status: 'active', objectives: [] }],
+    gameHistory: [],
+    memories: [],
+    chronicle: { memoir: [], chapter: [], turn: [] },
+    customRules: [{ ...RuleHelpers.createDefaultRule(), id: 'kiem-phap', title: 'Kiếm pháp Thanh Vân', keywords: ['kiếm pháp'], content: 'Kiếm pháp chú trọng tâm pháp' }],
+    turnCount: 3,
+    gameTime: { year: 1, month: 1, day: 1, hour: 8, minute: 0 }
+} as unknown as SaveData);
+
+const inspection = (turn: number, overrides: Partial<PromptInspection> = {}): PromptInspection => ({
+    turn,
+    action: `Hành động ${turn}`,
+    createdAt: 0,
+    systemInstruction: 'GM',
+    systemTokens: 3,
+    sections: [
+        { id: 'critical', label: 'promptInspector.section.critical', text: 'A'.repeat(10), tokens: 12, budget: 10, parts: [], items: [] },
+        { id: 'action', label: 'promptInspector.section.action', text: 'B', tokens: 2, parts: [], items: [{ name: 'X', detail: { key: 'promptInspector.item.entity', params: { score: 4, reasons: 'Directly mentioned' } }, included: false }] }
+    ],
+    totalTokens: 14,
+    softLimit: 80000,
+    hardLimit: 85000,
+    ...overrides
+});
+
+describe('promptInspector', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('splits the built prompt into sections that add up to exactly the prompt', () => {
+        const prompt = enhancedRAG.buildEnhancedPrompt('Hỏi Đạo Huyền về kiếm pháp', state(), '**⏰ THỜI GIAN**', '', false);
+        const built = enhancedRAG.getLastInspection()!;
+
+        expect(built.fallback).toBeUndefined();
+        expect(built.turn).toBe(3);
+        expect(getInspectedPrompt({ ...built, systemInstruction: '', systemTokens: 0 })).toBe(prompt);
+        expect(built.sections.map(section => section.id)).toEqual(expect.arrayContaining(['format', 'constraints', 'critical', 'important', 'contextual', 'action', 'instructions']));
+
+        const critical = built.sections.find(section => section.id === 'critical')!;
+        expect(critical.budget).toBeGreaterThan(0);
+        expect(critical.parts.map(part => part.label)).toContain('promptInspector.part.party');
+        expect(built.sections.find(section => section.id === 'supplemental')!.items)
+            .toEqual([expect.objectContaining({ name: 'Kiếm pháp Thanh Vân', included: true })]);
+        expect(built.sections.find(section => section.id === 'important')!.parts.map(part => part.label))
+            .toEqual(['promptInspector.part.quests', 'promptInspector.part.recentEvents']);
+        expect(built.sections.find(section => section.id === 'constraints')!.text).toContain('THỜI GIAN');
+    });
+
+    it('keeps one inspection per turn, newest last, up to the limit', () => {
+        let log = [1, 2, 3].reduce<PromptInspection[]>((entries, turn) => appendPromptInspection(entries, inspection(turn), 2), []);
+        expect(log.map(entry => entry.turn)).toEqual([2, 3]);
+
+        log = appendPromptInspection(log, inspection(2, { action: 'Làm lại' }), 2);
+        expect(log.map(entry => [entry.turn, entry.action])).toEqual([[3, 'Hành động 3'], [2, 'Làm lại']]);
+    });
+
+    it('formats a copyable report with the accounting of each section', () => {
+        const report = formatPromptInspection(inspection(5, {
+            truncation: { by: 'emergencyTruncation', tokensBefore: 200000, tokensAfter: 185000, droppedSections: ['promptInspector.section.action'] }
+        }), 'vi');
+
+        expect(report).toContain('# Lượt 5: Hành động 5');
+        expect(report).toContain('Cắt bớt bởi emergencyTruncation: 200000 → 185000 tokens. Bị cắt: Hành động người chơi');
+        expect(report).toContain('===== SYSTEM INSTRUCTION (~3 tokens) =====\nGM');
+        expect(report).toContain('===== Tri thức quan trọng (tổ đội, thực thể) (~12/10 tokens) =====\nAAAAAAAAAA');
+        expect(report).toContain('-- ✗ X: 4 điểm: Directly mentioned');
+        expect(formatPromptInspection(inspection(5), 'en')).toContain('===== Critical knowledge (party, entities) (~12/10 tokens) =====');
+        expect(getOverBudgetSections(inspection(5)).map(section => section.id)).toEqual(['critical', 'action']);
+    });
+});
@@ -0,0 +1,53 @@
+// promptInspector.ts - Keeps the assembled prompts of recent turns and formats them for copying
+//
+// The prompt builder records each section it appends (with its budget, the parts it was built
+// from and the entities or rules that competed for a place); the turn pipeline adds the system
+// instruction and hands the result to GameScreen, which keeps the last PROMPT_INSPECTION_LIMIT.
+// Inspections stay in memory only; a full prompt is far too large to keep in every save.
+
+import { getLocale, t, type Locale } from '../i18n';
+import type { PromptInspection, PromptInspectionSection } from '../types';
+
+export const PROMPT_INSPECTION_LIMIT = 10;
+
+export const appendPromptInspection = (
+    log: PromptInspection[],
+    inspection: PromptInspection,
+    limit: number = PROMPT_INSPECTION_LIMIT
+): PromptInspection[] => [...log.filter(entry => entry.turn !== inspection.turn), inspection].slice(-limit);
+
+/** The user prompt exactly as the sections make it up */
+export const getInspectedPrompt = (inspection: PromptInspection): string =>
+    inspection.sections.map(section => section.text).join('');
+
+/** Sections over their budget, and budgeted sections that had to leave entities or rules out */
+export const getOverBudgetSections = (inspection: PromptInspection): PromptInspectionSection[] =>
+    inspection.sections.filter(section =>
+        (section.budget !== undefined && section.tokens > section.budget) || section.items.some(item => !item.included)
+    );
+
+const formatTokens = (tokens: number, budget?: number): string =>
+    budget !== undefined ? `~${tokens}/${budget} tokens` : `~${tokens} tokens`;
+
+/** Plain-text report of one turn's prompt: the system instruction, then every section with its accounting */
+export const formatPromptInspection = (inspection: PromptInspection, locale: Locale = getLocale()): string => {
+    const lines = [
+        `# ${t('promptInspector.report.turn', { turn: inspection.turn, action: inspection.action }, locale)}`,
+        `# ${new Date(inspection.createdAt).toISOString()} | Prompt ${formatTokens(inspection.totalTokens, inspection.softLimit)} | System ${formatTokens(inspection.systemTokens)}`
+    ];
+    if (inspection.fallback) lines.push(`# ${t('promptInspector.fallback', undefined, locale)}`);
+    if (inspection.truncation) {
+        const { by, tokensBefore, tokensAfter, droppedSections } = inspection.truncation;
+        const dropped = droppedSections.map(label => t(label, undefined, locale)).join(', ');
+        lines.push(`# ${t('promptInspector.report.truncated', { by, before: tokensBefore, after: tokensAfter }, locale)}${dropped ? t('promptInspector.dropped', { sections: dropped }, locale) : ''}`);
+    }
+
+    lines.push('', `===== SYSTEM INSTRUCTION (${formatTokens(inspection.systemTokens)}) =====`, inspection.systemInstruction);
+    inspection.sections.forEach(section => {
+        lines.push('', `===== ${t(section.label, undefined, locale)} (${formatTokens(section.tokens, section.budget)}) =====`);
+        section.parts.forEach(part => lines.push(`-- ${t(part.label, undefined, locale)}: ${formatTokens(part.tokens, part.budget)}`));
+        section.items.forEach(item => lines.push(`-- ${item.included ? '✓' : '✗'} ${item.name}: ${t(item.detail.key, item.detail.params, locale)}`));
+        lines.push(section.text);
+    });
+    return lines.join('\n');
+};
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    PROMPT_TEMPLATE_SLOTS, validatePromptTemplate, renderPromptTemplate, setPromptTemplateOverride,
+    createPromptTemplatePreset, parsePromptTemplatePreset, applyPromptTemplatePreset,
+    getDefaultPromptTemplate, extractCommandTags, getPromptText
+} from './promptTemplates';
+import { DEFAULT_CORE_INSTRUCTIONS_TEMPLATE, DEFAULT_SYSTEM_INSTRUCTION } from '../data/defaultPromptTemplates';
+import { enhancedRAG } from '../promptBuilder';
+import type { Entity, SaveData } from '../types';
+
+const pc = { name: 'Lâm Phong', type: 'pc', description: 'Đệ tử Thanh Vân', location: 'Thanh Vân Môn' } as Entity;
+const disciple = { name: 'Tiểu Vân', type: 'companion', description: 'Sư muội', location: 'Thanh Vân Môn' } as Entity;
+
+const state = (promptTemplates = {}): SaveData => ({
+    worldData: { storyName: 'Thử', allowNsfw: false },
+    knownEntities: { [pc.name]: pc, [disciple.name]: disciple },
+    party: [pc, disciple],
+    statuses: [],
+    quests: [],
+    gameHistory: [],
+    memories: [],
+    chronicle: { memoir: [], chapter: [], turn: [] },
+    customRules: [],
+    promptTemplates,
+    turnCount: 1,
+    gameTime: { year: 1, month: 1, day: 1, hour: 8, minute: 0 }
+} as unknown as SaveData);
+
+describe('promptTemplates', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('accepts every default and rejects edits that drop what the game parses', () => {
+        PROMPT_TEMPLATE_SLOTS.forEach(slot => {
+            expect(validatePromptTemplate(slot.id, slot.defaultText)).toEqual({ errors: [], warnings: [] });
+        });
+
+        const withoutTimeTag = DEFAULT_SYSTEM_INSTRUCTION.split('[TIME_ELAPSED:').join('[TIME:');
+        expect(validatePromptTemplate('systemInstruction', withoutTimeTag).errors)
+            .toEqual([{ key: 'promptTemplates.error.missingTags', params: { tags: expect.stringContaining('[TIME_ELAPSED: ...]') } }]);
+        expect(validatePromptTemplate('coreInstructions', DEFAULT_CORE_INSTRUCTIONS_TEMPLATE.split('✦').join('*')).errors)
+            .toEqual([{ key: 'promptTemplates.required.choiceCategory', params: { text: '✦' } }]);
+        expect(validatePromptTemplate('processingRules', '  ').errors).toEqual([{ key: 'promptTemplates.error.empty' }]);
+
+        const { errors, warnings } = validatePromptTemplate('systemInstruction', `${DEFAULT_SYSTEM_INSTRUCTION}\nGọi {{user}} là {{nickname}}.`);
+        expect(errors).toEqual([]);
+        expect(warnings).toEqual([{ key: 'promptTemplates.warning.unknownPlaceholders', params: { placeholders: '{{nickname}}' } }]);
+    });
+
+    it('renders known placeholders only and keeps edits equal to the default out of the overrides', () => {
+        expect(renderPromptTemplate('{{pcName}} gặp {{user}}', { pcName: 'Lâm Phong' })).toBe('Lâm Phong gặp {{user}}');
+
+        const edited = setPromptTemplateOverride({}, 'processingRules', 'Chỉ dùng tiếng Việt.');
+        expect(edited).toEqual({ processingRules: 'Chỉ dùng tiếng Việt.' });
+        expect(setPromptTemplateOverride(edited, 'processingRules', PROMPT_TEMPLATE_SLOTS[4].defaultText)).toEqual({});
+        expect(setPromptTemplateOverride(edited, 'processingRules', null)).toEqual({});
+    });
+
+    it('round-trips a preset and skips the templates that fail validation', () => {
+        const preset = JSON.parse(JSON.stringify(createPromptTemplatePreset('Kiếm hiệp', {
+            choiceDiversity: 'Lựa chọn gắn với {{location}}.',
+            processingRules: 'Thiếu tag kỹ năng'
+        })));
+
+        const { overrides, skipped } = applyPromptTemplatePreset({ advancedCot: 'cot_reasoning' }, parsePromptTemplatePreset(preset));
+        expect(overrides).toEqual({ advancedCot: 'cot_reasoning', choiceDiversity: 'Lựa chọn gắn với {{location}}.' });
+        expect(skipped).toEqual([{ id: 'processingRules', errors: [{ key: 'promptTemplates.error.missingTags', params: { tags: expect.stringContaining('[SKILL_UPDATE: ...]') } }] }]);
+
+        expect(() => parsePromptTemplatePreset({ templates: {} }, 'vi')).toThrow('Tệp không phải preset mẫu prompt hợp lệ.');
+        expect(() => parsePromptTemplatePreset({ templates: {} }, 'en')).toThrow('The file is not a valid prompt template preset.');
+        expect(parsePromptTemplatePreset({ ...preset, templates: { unknown: 'x' } }).templates).toEqual({});
+    });
+
+    it('has English defaults that teach the same tags and placeholders', () => {
+        PROMPT_TEMPLATE_SLOTS.forEach(slot => {
+            const english = getDefaultPromptTemplate(slot.id, 'en');
+            expect(english).not.toBe(slot.defaultText);
+            expect(extractCommandTags(english).sort()).toEqual(extractCommandTags(slot.defaultText).sort());
+            expect(validatePromptTemplate(slot.id, english, 'en')).toEqual({ errors: [], warnings: [] });
+        });
+        expect(getDefaultPromptTemplate('processingRules')).toBe(PROMPT_TEMPLATE_SLOTS[4].defaultText);
+    });
+
+    it('builds the turn prompt from the world overrides', () => {
+        const prompt = enhancedRAG.buildEnhancedPrompt('Luyện kiếm cùng Tiểu Vân', state({
+            coreInstructions: '✦ Tổ đội: {{party}} | Hành động: {{action}}',
+            processingRules: '\nLUẬT RIÊNG tại {{location}}'
+        }), '', '', false);
+
+        expect(prompt).toContain('✦ Tổ đội: Lâm Phong (pc, Thanh Vân Môn); Tiểu Vân (companion, Thanh Vân Môn) | Hành động: Luyện kiếm cùng Tiểu Vân');
+        expect(prompt).toContain('LUẬT RIÊNG tại Thanh Vân Môn');
+        expect(prompt).not.toContain('=== YÊU CẦU XỬ LÝ ===');
+    });
+
+    it('uses the built-in templates of the world language', () => {
+        const english = state();
+        english.worldData = { ...english.worldData, language: 'en' };
+        const prompt = enhancedRAG.buildEnhancedPrompt('Practice the sword', english, '', '', false);
+
+        expect(prompt).toContain('=== PROCESSING REQUEST ===');
+        expect(prompt).not.toContain('=== YÊU CẦU XỬ LÝ ===');
+        expect(prompt).toContain('=== CRITICAL KNOWLEDGE ===');
+        expect(prompt).toContain('--- PLAYER ACTION ---\n"Practice the sword"');
+        expect(prompt).toContain('Analysis: other - A special action');
+        expect(prompt).not.toContain('HÀNH ĐỘNG CỦA NGƯỜI CHƠI');
+    });
+
+    it('writes the opening story prompt in the world language, numbering only the requirements that apply', () => {
+        const input = {
+            rules: [],
+            concepts: [],
+            pc: { name: 'Lin', gender: 'Male', description: 'A wandering swordsman', personality: 'Calm', motivation: 'Find his master' },
+            skills: [],
+            world: { name: 'Azure', description: 'Sky islands', year: 1, month: 2, day: 3, firstPerson: false, allowNsfw: false }
+        };
+        const english = getPromptText('en').initialStory(input);
+        const vietnamese = getPromptText('vi').initialStory(input);
+
+        expect(english).toContain('Starting location: Unknown');
+        expect(english).toContain('5. **REFLECT THE MOTIVATION**');
+        expect(english).toContain('8. **CHOICES**');
+        expect(english).not.toContain('tiếng Việt');
+        expect(vietnamese).toContain('BẮT BUỘC 100% tiếng Việt');
+        expect(vietnamese).toContain('8. **LỰA CHỌN**');
+    });
+});
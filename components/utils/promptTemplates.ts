@@ -0,0 +1,268 @@
+// promptTemplates.ts - Named prompt templates with {{placeholders}}, per-world overrides and presets
+//
+// The prompt builder renders each slot from the world's override, or from the built-in default for the
+// world's language (data/defaultPromptTemplates.ts, data/defaultPromptTemplatesEn.ts). Overrides are validated before they are saved: every command tag
+// the default template teaches must still be taught, otherwise the model stops emitting that tag.
+
+import type { FormData, PromptTemplateId, PromptTemplateOverrides, PromptTemplatePreset } from '../types';
+import { DEFAULT_LOCALE, getLocale, t, type Locale, type TranslatableMessage, type TranslationKey } from '../i18n';
+import {
+    DEFAULT_SYSTEM_INSTRUCTION, DEFAULT_CORE_INSTRUCTIONS_TEMPLATE, DEFAULT_CHOICE_DIVERSITY_TEMPLATE,
+    DEFAULT_ADVANCED_COT_TEMPLATE, DEFAULT_PROCESSING_RULES_TEMPLATE
+} from '../data/defaultPromptTemplates';
+import {
+    EN_SYSTEM_INSTRUCTION, EN_CORE_INSTRUCTIONS_TEMPLATE, EN_CHOICE_DIVERSITY_TEMPLATE,
+    EN_ADVANCED_COT_TEMPLATE, EN_PROCESSING_RULES_TEMPLATE
+} from '../data/defaultPromptTemplatesEn';
+import { VI_PROMPT_TEXT, type PromptText } from '../data/promptText';
+import { EN_PROMPT_TEXT } from '../data/promptTextEn';
+
+export interface PromptTemplateSlot {
+    id: PromptTemplateId;
+    label: TranslationKey;
+    description: TranslationKey;
+    defaultText: string;                                           // Vietnamese; see getDefaultPromptTemplate for other locales
+    placeholders: Record<string, TranslationKey>;                  // Name -> what the builder fills in
+    requiredText: Array<{ text: string; reason: TranslationKey }>; // Needed by the game besides command tags; reason gets {text}
+}
+
+export interface PromptTemplateValidation {
+    errors: TranslatableMessage[];     // The template cannot be saved
+    warnings: TranslatableMessage[];
+}
+
+export const PROMPT_TEMPLATE_PRESET_FORMAT = 'rpgai-prompt-templates';
+
+// Filled for every template used in the turn prompt
+export const COMMON_PLACEHOLDERS: Record<string, TranslationKey> = {
+    action: 'promptTemplates.placeholder.action',
+    party: 'promptTemplates.placeholder.party',
+    entities: 'promptTemplates.placeholder.entities',
+    quests: 'promptTemplates.placeholder.quests',
+    time: 'promptTemplates.placeholder.time',
+    rules: 'promptTemplates.placeholder.rules',
+    location: 'promptTemplates.placeholder.location',
+    pcName: 'promptTemplates.placeholder.pcName'
+};
+
+export const PROMPT_TEMPLATE_SLOTS: PromptTemplateSlot[] = [
+    {
+        id: 'systemInstruction',
+        label: 'promptTemplates.slot.systemInstruction',
+        description: 'promptTemplates.slot.systemInstructionHelp',
+        defaultText: DEFAULT_SYSTEM_INSTRUCTION,
+        placeholders: {},
+        requiredText: []
+    },
+    {
+        id: 'coreInstructions',
+        label: 'promptTemplates.slot.coreInstructions',
+        description: 'promptTemplates.slot.coreInstructionsHelp',
+        defaultText: DEFAULT_CORE_INSTRUCTIONS_TEMPLATE,
+        placeholders: COMMON_PLACEHOLDERS,
+        requiredText: [{ text: '✦', reason: 'promptTemplates.required.choiceCategory' }]
+    },
+    {
+        id: 'choiceDiversity',
+        label: 'promptTemplates.slot.choiceDiversity',
+        description: 'promptTemplates.slot.choiceDiversityHelp',
+        defaultText: DEFAULT_CHOICE_DIVERSITY_TEMPLATE,
+        placeholders: {
+            ...COMMON_PLACEHOLDERS,
+            locationGuidance: 'promptTemplates.placeholder.locationGuidance',
+            skillGuidance: 'promptTemplates.placeholder.skillGuidance',
+            companionGuidance: 'promptTemplates.placeholder.companionGuidance'
+        },
+        requiredText: []
+    },
+    {
+        id: 'advancedCot',
+        label: 'promptTemplates.slot.advancedCot',
+        description: 'promptTemplates.slot.advancedCotHelp',
+        defaultText: DEFAULT_ADVANCED_COT_TEMPLATE,
+        placeholders: {
+            ...COMMON_PLACEHOLDERS,
+            recentEvents: 'promptTemplates.placeholder.recentEvents',
+            pcPersonality: 'promptTemplates.placeholder.pcPersonality',
+            pcMotivation: 'promptTemplates.placeholder.pcMotivation',
+            pcState: 'promptTemplates.placeholder.pcState',
+            companionAnalysis: 'promptTemplates.placeholder.companionAnalysis',
+            physicalState: 'promptTemplates.placeholder.physicalState',
+            powerBalance: 'promptTemplates.placeholder.powerBalance',
+            antiStereotype: 'promptTemplates.placeholder.antiStereotype',
+            directResponse: 'promptTemplates.placeholder.directResponse',
+            storyProgression: 'promptTemplates.placeholder.storyProgression',
+            continuity: 'promptTemplates.placeholder.continuity'
+        },
+        requiredText: [{ text: 'cot_reasoning', reason: 'promptTemplates.required.cotReasoning' }]
+    },
+    {
+        id: 'processingRules',
+        label: 'promptTemplates.slot.processingRules',
+        description: 'promptTemplates.slot.processingRulesHelp',
+        defaultText: DEFAULT_PROCESSING_RULES_TEMPLATE,
+        placeholders: COMMON_PLACEHOLDERS,
+        requiredText: []
+    }
+];
+
+// Built-in defaults of the other locales, with the same tags and placeholders as defaultText
+const LOCALIZED_DEFAULTS: Partial<Record<Locale, Record<PromptTemplateId, string>>> = {
+    en: {
+        systemInstruction: EN_SYSTEM_INSTRUCTION,
+        coreInstructions: EN_CORE_INSTRUCTIONS_TEMPLATE,
+        choiceDiversity: EN_CHOICE_DIVERSITY_TEMPLATE,
+        advancedCot: EN_ADVANCED_COT_TEMPLATE,
+        processingRules: EN_PROCESSING_RULES_TEMPLATE
+    }
+};
+
+const PROMPT_TEXT: Record<Locale, PromptText> = { vi: VI_PROMPT_TEXT, en: EN_PROMPT_TEXT };
+
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+
+/** Language the GM of a world writes in */
+export const getPromptLocale = (worldData: Pick<FormData, 'language'> | undefined): Locale =>
+    worldData?.language ?? DEFAULT_LOCALE;
+
+/** Fixed prompt text (markers, notices, one-off prompts) in the language the GM writes in */
+export const getPromptText = (locale: Locale = DEFAULT_LOCALE): PromptText =>
+    PROMPT_TEXT[locale] ?? VI_PROMPT_TEXT;
+
+/** Player action of a user history entry: "ACTION: ..." or, in older saves, a full turn prompt in any locale */
+export const extractHistoryAction = (text: string): string | undefined => {
+    if (text.startsWith('ACTION:')) return text.slice('ACTION:'.length).trim();
+    for (const { markers } of Object.values(PROMPT_TEXT)) {
+        const start = text.indexOf(`${markers.playerAction}\n"`);
+        if (start === -1) continue;
+        const action = text.slice(start + markers.playerAction.length + 2).match(/^([^"]+)"/)?.[1];
+        if (action) return action;
+    }
+    return undefined;
+};
+
+export const getPromptTemplateSlot = (id: PromptTemplateId): PromptTemplateSlot | undefined =>
+    PROMPT_TEMPLATE_SLOTS.find(slot => slot.id === id);
+
+/** Built-in text of a slot in the language the GM writes in */
+export const getDefaultPromptTemplate = (id: PromptTemplateId, locale: Locale = DEFAULT_LOCALE): string =>
+    LOCALIZED_DEFAULTS[locale]?.[id] ?? getPromptTemplateSlot(id)?.defaultText ?? '';
+
+/** Command tags a text teaches, e.g. ['TIME_ELAPSED', 'ITEM_AQUIRED'] */
+export const extractCommandTags = (text: string): string[] =>
+    Array.from(new Set(Array.from(text.matchAll(/\[([A-Z][A-Z_]{2,}):/g), match => match[1])));
+
+/** Replaces the placeholders that have a value; any other {{...}} text is left as written */
+export const renderPromptTemplate = (template: string, values: Record<string, string>): string =>
+    template.replace(PLACEHOLDER_PATTERN, (match, name: string) => values[name] !== undefined ? values[name] : match);
+
+/**
+ * The text of a slot for this world, rendered. `fallback` replaces the built-in default, e.g. the
+ * system instruction saved with the world.
+ */
+export const resolvePromptTemplate = (
+    id: PromptTemplateId,
+    overrides: PromptTemplateOverrides | undefined,
+    values: Record<string, string> = {},
+    fallback?: string
+): string => {
+    const template = overrides?.[id] ?? fallback ?? getPromptTemplateSlot(id)?.defaultText ?? '';
+    return renderPromptTemplate(template, values);
+};
+
+export const validatePromptTemplate = (id: PromptTemplateId, text: string, locale: Locale = DEFAULT_LOCALE): PromptTemplateValidation => {
+    const slot = getPromptTemplateSlot(id);
+    if (!slot) return { errors: [{ key: 'promptTemplates.error.unknownSlot', params: { id } }], warnings: [] };
+    if (!text.trim()) return { errors: [{ key: 'promptTemplates.error.empty' }], warnings: [] };
+    const defaultText = getDefaultPromptTemplate(id, locale);
+
+    const errors: TranslatableMessage[] = [];
+    const warnings: TranslatableMessage[] = [];
+
+    const taught = new Set(extractCommandTags(text));
+    const missingTags = extractCommandTags(defaultText).filter(tag => !taught.has(tag));
+    if (missingTags.length > 0) {
+        errors.push({ key: 'promptTemplates.error.missingTags', params: { tags: missingTags.map(tag => `[${tag}: ...]`).join(', ') } });
+    }
+    slot.requiredText.forEach(({ text: required, reason }) => {
+        if (!text.includes(required)) errors.push({ key: reason, params: { text: required } });
+    });
+
+    // {{user}} and the like in the default are sent as written, so only new unknown names are flagged
+    const unknown = Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[1])))
+        .filter(name => !(name in slot.placeholders) && !defaultText.includes(`{{${name}}}`));
+    if (unknown.length > 0) {
+        warnings.push({ key: 'promptTemplates.warning.unknownPlaceholders', params: { placeholders: unknown.map(name => `{{${name}}}`).join(', ') } });
+    }
+
+    return { errors, warnings };
+};
+
+/** Sets or clears (text = null) one override; text equal to the default clears it too */
+export const setPromptTemplateOverride = (
+    overrides: PromptTemplateOverrides | undefined,
+    id: PromptTemplateId,
+    text: string | null,
+    defaultText: string = getDefaultPromptTemplate(id)
+): PromptTemplateOverrides => {
+    const next: PromptTemplateOverrides = { ...overrides };
+    if (text === null || text === defaultText) {
+        delete next[id];
+    } else {
+        next[id] = text;
+    }
+    return next;
+};
+
+export const createPromptTemplatePreset = (name: string, overrides: PromptTemplateOverrides): PromptTemplatePreset => ({
+    format: PROMPT_TEMPLATE_PRESET_FORMAT,
+    version: 1,
+    name,
+    exportedAt: new Date().toISOString(),
+    templates: { ...overrides }
+});
+
+/** Reads an imported preset file; the error thrown for an invalid file is written in `locale` */
+export const parsePromptTemplatePreset = (json: unknown, locale: Locale = getLocale()): PromptTemplatePreset => {
+    const data = json as Partial<PromptTemplatePreset> | null;
+    if (!data || typeof data !== 'object' || data.format !== PROMPT_TEMPLATE_PRESET_FORMAT) {
+        throw new Error(t('promptTemplates.error.invalidPreset', undefined, locale));
+    }
+    if (data.version !== 1) {
+        throw new Error(t('promptTemplates.error.unsupportedVersion', { version: String(data.version) }, locale));
+    }
+
+    const templates: PromptTemplateOverrides = {};
+    Object.entries(data.templates || {}).forEach(([id, text]) => {
+        if (getPromptTemplateSlot(id as PromptTemplateId) && typeof text === 'string') {
+            templates[id as PromptTemplateId] = text;
+        }
+    });
+    return {
+        format: PROMPT_TEMPLATE_PRESET_FORMAT,
+        version: 1,
+        name: typeof data.name === 'string' ? data.name : '',
+        exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+        templates
+    };
+};
+
+/** Applies the templates of a preset that pass validation; the rest are reported and left unchanged */
+export const applyPromptTemplatePreset = (
+    overrides: PromptTemplateOverrides | undefined,
+    preset: PromptTemplatePreset,
+    locale: Locale = DEFAULT_LOCALE
+): { overrides: PromptTemplateOverrides; skipped: Array<{ id: PromptTemplateId; errors: TranslatableMessage[] }> } => {
+    let next: PromptTemplateOverrides = { ...overrides };
+    const skipped: Array<{ id: PromptTemplateId; errors: TranslatableMessage[] }> = [];
+
+    (Object.entries(preset.templates) as Array<[PromptTemplateId, string]>).forEach(([id, text]) => {
+        const { errors } = validatePromptTemplate(id, text, locale);
+        if (errors.length > 0) {
+            skipped.push({ id, errors });
+        } else {
+            next = setPromptTemplateOverride(next, id, text, getDefaultPromptTemplate(id, locale));
+        }
+    });
+    return { overrides: next, skipped };
+};
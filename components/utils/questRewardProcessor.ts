@@ -4,6 +4,7 @@
  */
 
 import type { Entity, Quest } from '../types';
+import { formatMasteryLike } from './gameEnums';
 
 export interface QuestReward {
     type: 'item' | 'currency' | 'experience' | 'skill' | 'skill_exp' | 'status' | 'unknown';
@@ -164,7 +165,7 @@ export const generateRewardCommandTags = (
                     // Find PC name from knownEntities, fallback to "PC" if not found
                     const pcEntityForSkill = Object.values(knownEntities).find(entity => entity.type === 'pc');
                     const learnerName = pcEntityForSkill ? pcEntityForSkill.name : 'PC';
-                    const skillTag = `[SKILL_LEARNED: name="${reward.name}", description="${skillDescription}", mastery="Sơ Cấp", learner="${learnerName}"]`;
+                    const skillTag = `[SKILL_LEARNED: name="${reward.name}", description="${skillDescription}", mastery="${formatMasteryLike('novice')}", learner="${learnerName}"]`;
                     commandTags.push(skillTag);
                     console.log(`🎓 Generated skill tag: ${skillTag}`);
                     break;
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { runReferenceLookup, executeReferenceTool, appendReferenceToolLog, capReferenceFindings, REFERENCE_TOOLS } from './referenceTools';
+import { TokenManager } from '../TokenManager';
+import { ReferenceBasedRAG } from './ReferenceBasedRAG';
+import { SchemaType } from '../types';
+import type { Entity, LLMFunctionCall, LLMGenerateRequest, LLMResponse, ReferenceToolCall } from '../types';
+
+const master = { name: 'Đạo Huyền', type: 'npc', description: 'Chưởng môn Thanh Vân', location: 'Thanh Vân Môn', referenceId: 'REF_NP_CHA_0000ABCD' } as Entity;
+
+// Answers with the scripted tool calls in order, then with plain text
+const scriptedModel = (script: LLMFunctionCall[][]) => {
+    const requests: LLMGenerateRequest[] = [];
+    const generate = vi.fn(async (request: LLMGenerateRequest): Promise<LLMResponse> => {
+        requests.push(JSON.parse(JSON.stringify(request)));
+        const functionCalls = script[requests.length - 1];
+        return { text: functionCalls ? '' : 'SẴN SÀNG', usageMetadata: { totalTokenCount: 10 }, ...(functionCalls ? { functionCalls } : {}) };
+    });
+    return { generate, requests };
+};
+
+const turnRequest: LLMGenerateRequest = {
+    model: 'm',
+    contents: [{ role: 'user', parts: [{ text: 'Gặp REF_NP_CHA_0000ABCD' }] }],
+    config: { systemInstruction: 'GM', responseMimeType: 'application/json', responseSchema: { type: SchemaType.OBJECT }, temperature: 0.7 }
+};
+
+describe('referenceTools', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('answers tool calls from the registry and lets the model continue', async () => {
+        vi.spyOn(ReferenceBasedRAG, 'getEntityByReference').mockImplementation(id => id === master.referenceId ? master : null);
+        const { generate, requests } = scriptedModel([
+            [{ name: 'getEntity', args: { referenceId: 'REF_NP_CHA_0000ABCD' } }],
+            [{ id: 'x1', name: 'getEntityRelationships', args: { referenceId: 'REF_NP_CHA_0000ABCD' } }]
+        ]);
+
+        const result = await runReferenceLookup(generate, turnRequest, 7);
+
+        expect(generate).toHaveBeenCalledTimes(3);
+        expect(result.requests).toBe(3);
+        expect(result.tokens).toBe(30);
+        expect(result.calls.map(call => [call.turn, call.hop, call.name, call.success]))
+            .toEqual([[7, 1, 'getEntity', true], [7, 2, 'getEntityRelationships', true]]);
+        expect(result.calls[0].summary).toBe('Đạo Huyền (npc)');
+        expect(result.findings).toContain('Chưởng môn Thanh Vân');
+
+        // Tools replace the response schema, and each round carries the previous answers
+        expect(requests[0].config).toMatchObject({ temperature: 0.7, tools: REFERENCE_TOOLS });
+        expect(requests[0].config?.responseSchema).toBeUndefined();
+        expect(requests[0].config?.responseMimeType).toBeUndefined();
+        const second = requests[1].contents as any[];
+        expect(second).toHaveLength(3);
+        expect(second[1].parts[0].functionCall).toMatchObject({ id: 'getEntity_1_0', name: 'getEntity' });
+        expect(second[2].parts[0].functionResponse).toMatchObject({ id: 'getEntity_1_0', name: 'getEntity' });
+        expect(second[2].parts[0].functionResponse.response.details).toContain('Name: Đạo Huyền');
+    });
+
+    it('stops at the hop limit', async () => {
+        const lookup = [{ name: 'searchEntities', args: { keyword: 'kiếm' } }];
+        const { generate } = scriptedModel([lookup, lookup, lookup, lookup]);
+
+        const result = await runReferenceLookup(generate, turnRequest, 1, 2);
+
+        expect(generate).toHaveBeenCalledTimes(2);
+        expect(result.calls.map(call => call.hop)).toEqual([1, 2]);
+    });
+
+    it('caps the findings handed to the turn prompt', async () => {
+        const findings = ['• searchEntities(a):\n' + 'x'.repeat(400), '• searchEntities(b):\n' + 'y'.repeat(400)];
+        const budget = TokenManager.estimate(findings[0], 'structuredData') + 40;
+
+        const capped = capReferenceFindings(findings, budget);
+        expect(capped[0]).toBe(findings[0]);
+        expect(capped[1]).toMatch(/^• searchEntities\(b\):\ny+…$/);
+        expect(capped[1].length).toBeLessThan(findings[1].length);
+        expect(capped[2]).toContain(String(budget));
+        expect(capReferenceFindings(findings, 10000)).toEqual(findings);
+
+        const { generate } = scriptedModel([[{ name: 'searchEntities', args: { keyword: 'kiếm' } }]]);
+        const result = await runReferenceLookup(generate, turnRequest, 1, 2, 5);
+        expect(result.findings).toContain('lược bớt');
+    });
+
+    it('reports bad calls to the model instead of throwing', () => {
+        expect(executeReferenceTool({ name: 'getEntity', args: {} })).toMatchObject({ success: false, response: { error: 'Thiếu referenceId' } });
+        expect(executeReferenceTool({ name: 'getEntity', args: { referenceId: 'REF_NP_CHA_FFFFFFFF' } }).success).toBe(false);
+        expect(executeReferenceTool({ name: 'deleteWorld', args: {} }).summary).toContain('deleteWorld');
+    });
+
+    it('keeps the newest log entries', () => {
+        const call = (turn: number): ReferenceToolCall => ({ turn, hop: 1, name: 'getEntity', args: {}, success: true, summary: '', timestamp: 0 });
+        const log = appendReferenceToolLog([call(1), call(2)], [call(3)], 2);
+        expect(log.map(entry => entry.turn)).toEqual([2, 3]);
+    });
+});
@@ -0,0 +1,240 @@
+// referenceTools.ts - Exposes ReferenceAPI lookups to the model as function-calling tools
+//
+// The prompt lists entities by referenceId with a one-line summary. Before the turn is generated,
+// the model may call these tools to read the full entries; every call is answered from the
+// reference registry and fed back until the model stops asking or the hop limit is reached.
+// Gemini rejects function calling together with a JSON response schema, so the lookup runs as
+// its own exchange and the answers are handed to the normal generation request as text.
+
+import { SchemaType } from '../types';
+import type { LLMContent, LLMFunctionCall, LLMFunctionDeclaration, LLMGenerateRequest, LLMResponse, ReferenceToolCall } from '../types';
+import { ReferenceAPI } from './ReferenceAPI';
+import { TokenManager } from '../TokenManager';
+
+export const DEFAULT_MAX_REFERENCE_TOOL_HOPS = 3;
+// The findings are added after the prompt budget was enforced, so they get a budget of their own
+export const DEFAULT_MAX_REFERENCE_FINDINGS_TOKENS = 1500;
+export const MAX_REFERENCE_TOOL_LOG = 200;
+
+const SUMMARY_MAX_CHARS = 160;
+
+export const REFERENCE_TOOLS: LLMFunctionDeclaration[] = [
+    {
+        name: 'getEntity',
+        description: 'Đọc đầy đủ thông tin một thực thể (nhân vật, vật phẩm, địa điểm, kỹ năng...) theo mã tham chiếu REF_XX_XXX_XXXXXXXX.',
+        parameters: {
+            type: SchemaType.OBJECT,
+            properties: {
+                referenceId: { type: SchemaType.STRING, description: 'Mã tham chiếu của thực thể' }
+            },
+            required: ['referenceId']
+        }
+    },
+    {
+        name: 'searchEntities',
+        description: 'Tìm thực thể theo từ khóa trong tên, mô tả hoặc loại. Trả về mã tham chiếu và tóm tắt.',
+        parameters: {
+            type: SchemaType.OBJECT,
+            properties: {
+                keyword: { type: SchemaType.STRING, description: 'Từ khóa cần tìm' },
+                limit: { type: SchemaType.INTEGER, description: 'Số kết quả tối đa (mặc định 5)' }
+            },
+            required: ['keyword']
+        }
+    },
+    {
+        name: 'getEntityRelationships',
+        description: 'Liệt kê quan hệ của một thực thể: đồng đội, vị trí, chủ sở hữu.',
+        parameters: {
+            type: SchemaType.OBJECT,
+            properties: {
+                referenceId: { type: SchemaType.STRING, description: 'Mã tham chiếu của thực thể' }
+            },
+            required: ['referenceId']
+        }
+    },
+    {
+        name: 'getMemory',
+        description: 'Đọc một ký ức theo mã tham chiếu.',
+        parameters: {
+            type: SchemaType.OBJECT,
+            properties: {
+                referenceId: { type: SchemaType.STRING, description: 'Mã tham chiếu của ký ức' }
+            },
+            required: ['referenceId']
+        }
+    }
+];
+
+export const REFERENCE_LOOKUP_INSTRUCTION = `\n\n--- TRA CỨU THAM CHIẾU ---\nTrước khi viết lượt tiếp theo, bạn có thể gọi các công cụ tra cứu để đọc đầy đủ thông tin của các mã tham chiếu trong ngữ cảnh. Chỉ tra cứu khi thực sự cần. Khi đã đủ thông tin, chỉ trả lời "SẴN SÀNG" và không viết câu chuyện.`;
+
+const truncate = (text: string): string =>
+    text.length > SUMMARY_MAX_CHARS ? `${text.substring(0, SUMMARY_MAX_CHARS - 3)}...` : text;
+
+const readString = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+export interface ReferenceToolAnswer {
+    success: boolean;
+    response: { [key: string]: any };
+    summary: string;
+}
+
+/**
+ * Answer one tool call from the reference registry. Never throws: failures become an error
+ * response the model can read.
+ */
+export const executeReferenceTool = (call: LLMFunctionCall): ReferenceToolAnswer => {
+    const fail = (error: string): ReferenceToolAnswer => ({ success: false, response: { error }, summary: error });
+    const referenceId = readString(call.args?.referenceId);
+
+    switch (call.name) {
+        case 'getEntity': {
+            if (!referenceId) return fail('Thiếu referenceId');
+            const result = ReferenceAPI.getEntity(referenceId);
+            if (!result.success || !result.entity) return fail(result.error || `Không tìm thấy ${referenceId}`);
+            const details = ReferenceAPI.formatEntityDetails(result.entity);
+            return { success: true, response: { details }, summary: `${result.entity.name} (${result.entity.type})` };
+        }
+        case 'searchEntities': {
+            const keyword = readString(call.args?.keyword);
+            if (!keyword) return fail('Thiếu keyword');
+            const limit = typeof call.args?.limit === 'number' && call.args.limit > 0 ? Math.min(call.args.limit, 10) : 5;
+            const result = ReferenceAPI.searchEntities(keyword, limit);
+            if (!result.success) return fail(result.error || 'Tìm kiếm thất bại');
+            const results = result.results.map(({ referenceId, name, type, summary }) => ({ referenceId, name, type, summary }));
+            return {
+                success: true,
+                response: { results },
+                summary: results.length > 0 ? truncate(results.map(r => r.name).join(', ')) : 'Không có kết quả'
+            };
+        }
+        case 'getEntityRelationships': {
+            if (!referenceId) return fail('Thiếu referenceId');
+            const result = ReferenceAPI.getEntityRelationships(referenceId);
+            if (!result.success) return fail(result.error || `Không tìm thấy ${referenceId}`);
+            return {
+                success: true,
+                response: { relationships: result.relationships },
+                summary: result.relationships.length > 0
+                    ? truncate(result.relationships.map(r => `${r.type}: ${r.name}`).join(', '))
+                    : 'Không có quan hệ'
+            };
+        }
+        case 'getMemory': {
+            if (!referenceId) return fail('Thiếu referenceId');
+            const result = ReferenceAPI.getMemory(referenceId);
+            if (!result.success || !result.memory) return fail(result.error || `Không tìm thấy ${referenceId}`);
+            return { success: true, response: { memory: result.memory.text }, summary: truncate(result.memory.text) };
+        }
+        default:
+            return fail(`Công cụ không tồn tại: ${call.name}`);
+    }
+};
+
+export interface ReferenceLookupResult {
+    calls: ReferenceToolCall[];
+    findings: string;        // Answers formatted for the generation prompt; empty when nothing was looked up
+    tokens: number;          // Tokens spent by the lookup requests
+    requests: number;
+}
+
+const formatArgs = (args: { [key: string]: any }): string =>
+    Object.values(args || {}).map(value => typeof value === 'string' ? value : JSON.stringify(value)).join(', ');
+
+const estimateFindingTokens = (text: string): number => TokenManager.estimate(text, 'structuredData');
+
+/** Keeps findings in order until `maxTokens` is reached; the one that crosses it is cut short */
+export const capReferenceFindings = (findings: string[], maxTokens: number): string[] => {
+    const kept: string[] = [];
+    let remaining = maxTokens;
+    for (const finding of findings) {
+        const tokens = estimateFindingTokens(finding);
+        if (tokens <= remaining) {
+            kept.push(finding);
+            remaining -= tokens;
+            continue;
+        }
+        const chars = Math.floor(finding.length * remaining / tokens);
+        if (chars > 0) kept.push(`${finding.slice(0, chars)}…`);
+        kept.push(`(Phần còn lại của kết quả tra cứu đã bị lược bớt để không vượt quá ${maxTokens} token)`);
+        break;
+    }
+    return kept;
+};
+
+/**
+ * Let the model look things up before the turn is written. Each round sends the conversation
+ * with the tools, answers every call it gets back and continues, for at most `maxHops` rounds.
+ * The findings handed to the turn prompt are capped at `maxFindingsTokens`.
+ *
+ * `request` is the turn request; its response schema is dropped for the lookup exchange.
+ */
+export const runReferenceLookup = async (
+    generate: (request: LLMGenerateRequest) => Promise<LLMResponse>,
+    request: LLMGenerateRequest,
+    turn: number,
+    maxHops: number = DEFAULT_MAX_REFERENCE_TOOL_HOPS,
+    maxFindingsTokens: number = DEFAULT_MAX_REFERENCE_FINDINGS_TOKENS
+): Promise<ReferenceLookupResult> => {
+    const { responseSchema, responseMimeType, ...config } = request.config || {};
+    const contents: LLMContent[] = typeof request.contents === 'string'
+        ? [{ role: 'user', parts: [{ text: request.contents }] }]
+        : [...request.contents];
+    const calls: ReferenceToolCall[] = [];
+    const findings: string[] = [];
+    let tokens = 0;
+    let requests = 0;
+
+    for (let hop = 1; hop <= maxHops; hop++) {
+        const response = await generate({
+            model: request.model,
+            contents,
+            config: {
+                ...config,
+                systemInstruction: `${config.systemInstruction || ''}${REFERENCE_LOOKUP_INSTRUCTION}`,
+                tools: REFERENCE_TOOLS
+            }
+        });
+        requests++;
+        tokens += response.usageMetadata?.totalTokenCount || 0;
+
+        const requested = response.functionCalls || [];
+        if (requested.length === 0) break;
+
+        // Both sides of the exchange need matching ids; not every provider assigns them
+        const hopCalls = requested.map((call, index) => ({ ...call, id: call.id || `${call.name}_${hop}_${index}` }));
+        const answers = hopCalls.map(executeReferenceTool);
+
+        contents.push({ role: 'model', parts: hopCalls.map(call => ({ text: '', functionCall: call })) });
+        contents.push({
+            role: 'user',
+            parts: hopCalls.map((call, index) => ({
+                text: '',
+                functionResponse: { id: call.id, name: call.name, response: answers[index].response }
+            }))
+        });
+
+        hopCalls.forEach((call, index) => {
+            const answer = answers[index];
+            calls.push({
+                turn, hop, name: call.name, args: call.args || {},
+                success: answer.success, summary: answer.summary, timestamp: Date.now()
+            });
+            findings.push(`• ${call.name}(${formatArgs(call.args)}):\n${JSON.stringify(answer.response)}`);
+        });
+    }
+
+    return {
+        calls,
+        findings: findings.length > 0 ? `\n\n--- KẾT QUẢ TRA CỨU THAM CHIẾU ---\n${capReferenceFindings(findings, maxFindingsTokens).join('\n')}\n` : '',
+        tokens,
+        requests
+    };
+};
+
+/** Appends a turn's calls to the log, keeping the newest `max` entries */
+export const appendReferenceToolLog = (
+    log: ReferenceToolCall[],
+    calls: ReferenceToolCall[],
+    max: number = MAX_REFERENCE_TOOL_LOG
+): ReferenceToolCall[] => [...log, ...calls].slice(-max);
@@ -0,0 +1,25 @@
+// regexWorker.ts - Worker entry for RegexSandbox: runs one regex rule per message
+
+import { RegexEngine } from './RegexEngine';
+import type { RegexWorkerRequest, RegexWorkerResponse } from './RegexSandbox';
+
+const engine = new RegexEngine();
+
+// Typed by hand so the worker does not need the WebWorker lib
+const scope = self as unknown as {
+    onmessage: ((event: { data: RegexWorkerRequest }) => void) | null;
+    postMessage: (message: RegexWorkerResponse) => void;
+};
+
+scope.onmessage = event => {
+    const { id, rule, text, params, macroContext } = event.data;
+    try {
+        engine.updateMacroContext(macroContext);
+        scope.postMessage({ id, output: engine.runRegexRule(rule, text, params) });
+    } catch (error) {
+        scope.postMessage({ id, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+};
+
+// The module has loaded; the sandbox starts rule budgets only after this
+scope.postMessage({ id: 0, ready: true });
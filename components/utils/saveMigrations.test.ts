@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { SAVE_MIGRATIONS, CURRENT_SCHEMA_VERSION, migrateSaveData, countRepairs } from './saveMigrations';
+
+const context = { defaultSystemInstruction: 'Bạn là người kể chuyện.' };
+const repoRoot = join(__dirname, '..', '..');
+
+// Sample saves shipped in the repo root; the WorldSetup export is not a game save
+const sampleSaves = readdirSync(repoRoot)
+    .filter(file => file.startsWith('AI-RolePlay-') && file.endsWith('.json') && !file.includes('WorldSetup'))
+    .map(file => ({ file, json: readFileSync(join(repoRoot, file), 'utf-8') }));
+
+const findPc = (save: any) => Object.values(save.knownEntities).find((entity: any) => entity.type === 'pc') as any;
+
+describe('saveMigrations', () => {
+    it('keeps the registry ordered with unique versions', () => {
+        const versions = SAVE_MIGRATIONS.map(step => step.version);
+        expect(versions).toEqual([...versions].sort((a, b) => a - b));
+        expect(new Set(versions).size).toBe(versions.length);
+        expect(CURRENT_SCHEMA_VERSION).toBe(versions[versions.length - 1]);
+    });
+
+    it.each(sampleSaves)('upgrades $file without mutating the input', ({ json }) => {
+        const raw = JSON.parse(json);
+        const before = JSON.stringify(raw);
+        const { save, report } = migrateSaveData(raw, context);
+
+        expect(JSON.stringify(raw)).toBe(before);
+        expect(report.fromVersion).toBe(0);
+        expect(report.steps.map(step => step.version)).toEqual(SAVE_MIGRATIONS.map(step => step.version));
+        expect(save.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+        expect(Array.isArray(save.worldData.realmTiers)).toBe(true);
+        expect(save.party.length).toBeGreaterThan(0);
+        expect(Number.isFinite(save.gameTime.hour)).toBe(true);
+        expect((save as any).userKnowledge).toBeUndefined();
+
+        // A second load of an upgraded save runs nothing
+        const second = migrateSaveData(save, context);
+        expect(second.report.steps).toEqual([]);
+        expect(second.save).toEqual(save);
+    });
+
+    it('renames legacy mastery levels and removes duplicate skills', () => {
+        const sample = sampleSaves.find(({ file }) => file.includes('Vương_Lâm-2025-08-25'))!;
+        const { save, report } = migrateSaveData(JSON.parse(sample.json), context);
+
+        expect(findPc(save).learnedSkills).toEqual(['Linh Quang Trảm (Trung Cấp)', 'Thanh Phong Kiếm Pháp (Trung Cấp)']);
+        const skillSteps = report.steps.filter(step => step.name === 'skill-mastery-levels' || step.name === 'dedupe-learned-skills');
+        expect(skillSteps.every(step => step.repairs.length > 0)).toBe(true);
+    });
+
+    it('fills missing fields and converts userKnowledge in a legacy save', () => {
+        const pc = { name: 'Lý Phàm', type: 'pc', description: 'Nhân vật chính', mastery: 'Bậc Tinh Thông' };
+        const legacy = {
+            worldData: { characterName: 'Lý Phàm' },
+            knownEntities: { [pc.name]: pc },
+            gameHistory: [],
+            userKnowledge: 'Thế giới có ba đại tông môn.',
+            gameTime: { year: 3, month: 2, day: 1, hour: 0 }
+        };
+        const { save, report } = migrateSaveData(legacy, context);
+
+        expect(save.worldData.expName).toBe('Kinh Nghiệm');
+        expect(save.worldData.realmTiers.map((tier: any) => tier.name)).toEqual(['Luyện Khí', 'Trúc Cơ']);
+        expect(save.customRules).toEqual([{ id: 'imported_knowledge', content: 'Thế giới có ba đại tông môn.', isActive: true }]);
+        expect(save.systemInstruction).toBe(context.defaultSystemInstruction);
+        expect(save.party.map(entity => entity.name)).toEqual(['Lý Phàm']);
+        expect(save.gameTime).toEqual({ year: 3, month: 2, day: 1, hour: 0, minute: 0 });
+        expect(findPc(save).mastery).toBe('Cao Cấp');
+        expect(pc.mastery).toBe('Bậc Tinh Thông');
+        expect(countRepairs(report)).toBeGreaterThan(0);
+    });
+
+    it('leaves saves from a newer build untouched', () => {
+        const future = { worldData: {}, knownEntities: {}, gameHistory: [], schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+        const { save, report } = migrateSaveData(future, context);
+
+        expect(report.steps).toEqual([]);
+        expect(report.toVersion).toBe(CURRENT_SCHEMA_VERSION + 1);
+        expect(save).toEqual(future);
+    });
+});
@@ -0,0 +1,242 @@
+// saveMigrations.ts - Ordered, versioned upgrade steps applied to SaveData on load
+//
+// Saves written before schemaVersion existed are treated as version 0 and run every step.
+// Each step is pure: it returns a new save object plus a list of human readable repairs
+// (shown to the player after loading), and never mutates its input.
+
+import type { SaveData, Entity, Memory, SaveMigrationReport, SaveMigrationStepResult } from '../types';
+import { MemoryMigration } from './MemoryMigration';
+
+export interface SaveMigrationContext {
+    defaultSystemInstruction: string;
+}
+
+export interface SaveMigrationStep {
+    version: number;
+    name: string;
+    migrate: (save: any, context: SaveMigrationContext) => { save: any; repairs: string[] };
+}
+
+const DEFAULT_REALM_TIERS = [
+    { id: '1', name: 'Luyện Khí', requiredExp: 0 },
+    { id: '2', name: 'Trúc Cơ', requiredExp: 100 }
+];
+
+// Old mastery names → current levels, checked in order
+const LEGACY_MASTERY_LEVELS: Array<{ patterns: string[]; level: string }> = [
+    { patterns: ['tiểu thành', 'bậc tiểu thành'], level: 'Trung Cấp' },
+    { patterns: ['bậc nhập môn', 'mới học'], level: 'Sơ Cấp' },
+    { patterns: ['bậc tinh thông', 'tinh thông'], level: 'Cao Cấp' },
+    { patterns: ['bậc đại thành', 'đại thành'], level: 'Đại Thành' },
+    { patterns: ['bậc viên mãn', 'viên mãn'], level: 'Viên Mãn' }
+];
+
+const stripMasterySuffix = (skill: string): string => skill.replace(/\s*\([^)]+\)\s*$/, '').trim();
+
+const mapEntities = (
+    knownEntities: { [name: string]: Entity } | undefined,
+    update: (entity: Entity) => Entity
+): { [name: string]: Entity } => {
+    return Object.fromEntries(Object.entries(knownEntities || {}).map(([key, entity]) => [key, update(entity)]));
+};
+
+export const SAVE_MIGRATIONS: SaveMigrationStep[] = [
+    {
+        version: 1,
+        name: 'world-data-defaults',
+        migrate: (save) => {
+            const worldData = save.worldData || {};
+            const repairs: string[] = [];
+            const defaults: { [key: string]: any } = {
+                startLocation: '',
+                customStartLocation: '',
+                expName: 'Kinh Nghiệm',
+                realmTiers: DEFAULT_REALM_TIERS
+            };
+            const patched = { ...worldData };
+            Object.entries(defaults).forEach(([key, value]) => {
+                if (!worldData[key]) {
+                    patched[key] = value;
+                    if (key === 'realmTiers') repairs.push('Thêm hệ thống cảnh giới mặc định (Luyện Khí, Trúc Cơ)');
+                    if (key === 'expName') repairs.push('Đặt tên điểm kinh nghiệm mặc định "Kinh Nghiệm"');
+                }
+            });
+            return { save: { ...save, worldData: patched }, repairs };
+        }
+    },
+    {
+        version: 2,
+        name: 'core-field-defaults',
+        migrate: (save, context) => {
+            const repairs: string[] = [];
+            const patched = { ...save };
+            const fillMissing = (key: string, value: any, label: string) => {
+                if (save[key] === undefined || save[key] === null) {
+                    patched[key] = value;
+                    repairs.push(`Bổ sung trường thiếu: ${label}`);
+                }
+            };
+
+            fillMissing('statuses', [], 'trạng thái');
+            fillMissing('quests', [], 'nhiệm vụ');
+            fillMissing('memories', [], 'ký ức');
+            fillMissing('systemInstruction', context.defaultSystemInstruction, 'chỉ dẫn hệ thống');
+            fillMissing('turnCount', 0, 'số lượt');
+            fillMissing('totalTokens', 0, 'tổng token');
+            fillMissing('chronicle', { memoir: [], chapter: [], turn: [] }, 'biên niên sử');
+            fillMissing('compressedHistory', [], 'lịch sử nén');
+            fillMissing('lastCompressionTurn', 0, 'lượt nén gần nhất');
+            fillMissing('historyStats', { totalEntriesProcessed: 0, totalTokensSaved: 0, compressionCount: 0 }, 'thống kê lịch sử');
+            fillMissing('cleanupStats', { totalCleanupsPerformed: 0, totalTokensSavedFromCleanup: 0, lastCleanupTurn: 0, cleanupHistory: [] }, 'thống kê dọn dẹp');
+
+            if (!save.party) {
+                const pc = Object.values(save.knownEntities || {}).find((entity: any) => entity.type === 'pc');
+                patched.party = pc ? [pc] : [];
+                repairs.push('Tạo lại đội hình từ nhân vật chính');
+            }
+
+            const time = save.gameTime || {};
+            const gameTime = {
+                year: time.year || 1,
+                month: time.month || 1,
+                day: time.day || 1,
+                hour: Number.isFinite(time.hour) ? time.hour : 8,
+                minute: Number.isFinite(time.minute) ? time.minute : 0
+            };
+            if (!save.gameTime || ['year', 'month', 'day', 'hour'].some(key => !Number.isFinite(time[key]))) {
+                repairs.push('Sửa thời gian trong game không hợp lệ');
+            }
+            patched.gameTime = gameTime;
+
+            return { save: patched, repairs };
+        }
+    },
+    {
+        version: 3,
+        name: 'user-knowledge-to-custom-rules',
+        migrate: (save) => {
+            if (save.userKnowledge === undefined) {
+                return { save, repairs: [] };
+            }
+            const { userKnowledge, ...rest } = save;
+            if (!rest.customRules || rest.customRules.length === 0) {
+                rest.customRules = userKnowledge
+                    ? [{ id: 'imported_knowledge', content: userKnowledge, isActive: true }]
+                    : [];
+                return { save: rest, repairs: ['Chuyển "Tri thức người chơi" cũ thành luật tùy chỉnh'] };
+            }
+            return { save: rest, repairs: ['Bỏ trường "Tri thức người chơi" cũ (đã có luật tùy chỉnh)'] };
+        }
+    },
+    {
+        version: 4,
+        name: 'skill-mastery-levels',
+        migrate: (save) => {
+            const repairs: string[] = [];
+            const knownEntities = mapEntities(save.knownEntities, entity => {
+                let updated = entity;
+
+                if (entity.mastery) {
+                    const oldMastery = entity.mastery.toLowerCase();
+                    const match = LEGACY_MASTERY_LEVELS.find(({ patterns }) => patterns.some(pattern => oldMastery.includes(pattern)));
+                    if (match && entity.mastery !== match.level) {
+                        updated = { ...updated, mastery: match.level };
+                        repairs.push(`Đổi cấp độ "${entity.mastery}" của ${entity.name} thành "${match.level}"`);
+                    }
+                }
+
+                if (entity.type === 'pc' && Array.isArray(entity.learnedSkills)) {
+                    const renamed = entity.learnedSkills.map(skill => skill.replace(/tiểu thành/gi, 'Trung Cấp'));
+                    renamed.forEach((skill, index) => {
+                        if (skill !== entity.learnedSkills![index]) {
+                            repairs.push(`Đổi tên kỹ năng "${entity.learnedSkills![index]}" thành "${skill}"`);
+                        }
+                    });
+                    updated = { ...updated, learnedSkills: renamed };
+                }
+                return updated;
+            });
+            return { save: { ...save, knownEntities }, repairs };
+        }
+    },
+    {
+        version: 5,
+        name: 'dedupe-learned-skills',
+        migrate: (save) => {
+            const repairs: string[] = [];
+            const knownEntities = mapEntities(save.knownEntities, entity => {
+                if (entity.type !== 'pc' || !Array.isArray(entity.learnedSkills)) return entity;
+
+                // Keep the first entry for each base skill name, whatever mastery suffix it carries
+                const seenBaseNames = new Set<string>();
+                const learnedSkills = entity.learnedSkills.filter(skill => {
+                    const baseName = stripMasterySuffix(skill.trim());
+                    if (seenBaseNames.has(baseName)) {
+                        repairs.push(`Xóa kỹ năng trùng lặp "${skill.trim()}" của ${entity.name}`);
+                        return false;
+                    }
+                    seenBaseNames.add(baseName);
+                    return true;
+                });
+                return learnedSkills.length === entity.learnedSkills.length ? entity : { ...entity, learnedSkills };
+            });
+            return { save: { ...save, knownEntities }, repairs };
+        }
+    },
+    {
+        version: 6,
+        name: 'enhanced-memories',
+        migrate: (save) => {
+            const memories: Memory[] = save.memories || [];
+            if (!MemoryMigration.needsMigration(memories)) {
+                return { save, repairs: [] };
+            }
+            // Only the upgraded memories are kept; history cleanup still runs on its normal schedule in game
+            const migrated = MemoryMigration.autoMigrateOnLoad(save as SaveData);
+            return {
+                save: { ...save, memories: migrated.memories },
+                repairs: [`Nâng cấp ${memories.length} ký ức lên định dạng mới (còn ${migrated.memories.length})`]
+            };
+        }
+    }
+];
+
+export const CURRENT_SCHEMA_VERSION = SAVE_MIGRATIONS[SAVE_MIGRATIONS.length - 1].version;
+
+export const getSchemaVersion = (save: any): number => {
+    return Number.isInteger(save?.schemaVersion) ? save.schemaVersion : 0;
+};
+
+/**
+ * Runs every step newer than the save's schemaVersion, in order.
+ * Saves from a newer build are returned untouched.
+ */
+export const migrateSaveData = (
+    rawSave: any,
+    context: SaveMigrationContext,
+    migrations: SaveMigrationStep[] = SAVE_MIGRATIONS
+): { save: SaveData; report: SaveMigrationReport } => {
+    const fromVersion = getSchemaVersion(rawSave);
+    const steps: SaveMigrationStepResult[] = [];
+    let save = rawSave;
+
+    for (const step of migrations) {
+        if (step.version <= fromVersion) continue;
+        const result = step.migrate(save, context);
+        save = result.save;
+        steps.push({ version: step.version, name: step.name, repairs: result.repairs });
+        if (result.repairs.length > 0) {
+            console.log(`🔧 Save migration v${step.version} (${step.name}):`, result.repairs);
+        }
+    }
+
+    const toVersion = Math.max(fromVersion, CURRENT_SCHEMA_VERSION);
+    return {
+        save: { ...save, schemaVersion: toVersion },
+        report: { fromVersion, toVersion, steps }
+    };
+};
+
+export const countRepairs = (report: SaveMigrationReport): number => {
+    return report.steps.reduce((total, step) => total + step.repairs.length, 0);
+};
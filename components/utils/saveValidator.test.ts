@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { findFatalSaveErrors, validateSaveData, resolveEntityType } from './saveValidator';
+import { migrateSaveData } from './saveMigrations';
+import { generateObjectiveId } from './questManager';
+import type { SaveData, Entity } from '../types';
+
+const pc = { name: 'Lý Phàm', type: 'pc', description: 'Nhân vật chính' } as Entity;
+
+const makeSave = (overrides: Partial<SaveData> = {}): SaveData => ({
+    worldData: { characterName: 'Lý Phàm' } as SaveData['worldData'],
+    knownEntities: { [pc.name]: pc },
+    statuses: [],
+    quests: [],
+    gameHistory: [],
+    memories: [],
+    party: [pc],
+    customRules: [],
+    systemInstruction: '',
+    turnCount: 3,
+    gameTime: { year: 1, month: 1, day: 1, hour: 8, minute: 0 } as SaveData['gameTime'],
+    chronicle: { memoir: [], chapter: [], turn: [] },
+    ...overrides
+});
+
+describe('saveValidator', () => {
+    it('rejects files without the core sections', () => {
+        expect(findFatalSaveErrors(null)).toHaveLength(1);
+        expect(findFatalSaveErrors({ worldData: {}, knownEntities: [], gameHistory: {} }).map(issue => issue.section))
+            .toEqual(['knownEntities', 'gameHistory']);
+        expect(findFatalSaveErrors(makeSave())).toEqual([]);
+    });
+
+    it('reports nothing for a valid save', () => {
+        const save = makeSave();
+        expect(validateSaveData(save)).toEqual({ save, issues: [] });
+    });
+
+    it('repairs entities, item owners, statuses, quests, party and gameTime', () => {
+        const save = makeSave({
+            knownEntities: {
+                [pc.name]: pc,
+                'Chợ Đông': { name: 'Chợ Đông', type: 'Chợ' as any, description: 'Khu chợ' },
+                'Kiếm Gãy': { name: 'Kiếm Gãy', type: 'item', description: '', owner: 'Hắc Y Nhân' },
+                'Đan Dược': { name: 'Đan Dược', type: 'ITEM' as any, description: '', owner: 'Lý Phàm' }
+            },
+            statuses: [
+                { name: 'Trúng độc', description: '', type: 'Debuff' as any, source: '', owner: 'pc' },
+                { name: 'Mê man', description: '', type: 'debuff', source: '', owner: 'Hắc Y Nhân' }
+            ],
+            quests: [{
+                title: 'Tìm linh dược', description: '', isMainQuest: true, status: 'done' as any,
+                objectives: [{ description: 'Lên núi', completed: false } as any, { id: 'a', description: 'Hái thuốc', completed: true }]
+            }],
+            party: [pc, { name: 'Hắc Y Nhân', type: 'npc', description: '' }],
+            gameTime: { year: 1, month: 13, day: 0, hour: NaN } as any
+        });
+        const before = JSON.stringify(save);
+        const { save: repaired, issues } = validateSaveData(save);
+
+        expect(JSON.stringify(save)).toBe(before);
+        expect(repaired.knownEntities['Chợ Đông'].type).toBe('location');
+        expect(repaired.knownEntities['Đan Dược']).toMatchObject({ type: 'item', owner: 'pc' });
+        expect(repaired.knownEntities['Kiếm Gãy'].owner).toBeUndefined();
+        expect(repaired.statuses).toEqual([{ ...save.statuses[0], type: 'debuff' }]);
+        expect(repaired.quests[0].status).toBe('active');
+        expect(repaired.quests[0].objectives.map(objective => objective.id)).toEqual([generateObjectiveId('Tìm linh dược', 0), 'a']);
+        expect(repaired.party.map(member => member.name)).toEqual([pc.name]);
+        expect(repaired.gameTime).toEqual({ year: 1, month: 12, day: 1, hour: 8, minute: 0 });
+        expect(issues.every(issue => issue.repaired)).toBe(true);
+    });
+
+    it('reports problems it cannot fix safely', () => {
+        const { issues } = validateSaveData(makeSave({
+            knownEntities: { 'Ẩn Danh': { name: 'Vô Danh', type: 'npc', description: '' } }
+        }));
+        expect(issues.filter(issue => !issue.repaired).map(issue => issue.section)).toEqual(['knownEntities', 'knownEntities']);
+    });
+
+    it('maps free-form AI entity types onto EntityType', () => {
+        expect(resolveEntityType('Cơ sở kinh doanh')).toBe('location');
+        expect(resolveEntityType(' NPC ')).toBe('npc');
+        expect(resolveEntityType('Tông môn')).toBe('faction');
+        expect(resolveEntityType('???')).toBeNull();
+    });
+
+    it('repairs the invented entity types in a sample save', () => {
+        const json = readFileSync(join(__dirname, '..', '..', 'AI-RolePlay-Vương_Lâm-2025-08-25T19-54-09-864Z.json'), 'utf-8');
+        const { save: migrated } = migrateSaveData(JSON.parse(json), { defaultSystemInstruction: '' });
+        const { save, issues } = validateSaveData(migrated);
+
+        expect(Object.values(save.knownEntities).every(entity => resolveEntityType(entity.type) === entity.type)).toBe(true);
+        expect(save.quests.every(quest => quest.objectives.every(objective => objective.id))).toBe(true);
+        expect(issues.filter(issue => !issue.repaired)).toEqual([]);
+    });
+});
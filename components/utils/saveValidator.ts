@@ -0,0 +1,284 @@
+// saveValidator.ts - Runtime validation of SaveData with automatic repair where it is safe
+//
+// Runs after saveMigrations.ts has upgraded the save to the current schema. Every check either
+// repairs the data (repaired: true) or only reports it (repaired: false) when a fix would mean
+// guessing at the player's intent.
+
+import type { SaveData, Entity, EntityType, Status, Quest, GameHistoryEntry, SaveValidationIssue } from '../types';
+import { generateObjectiveId } from './questManager';
+
+export const ENTITY_TYPES: EntityType[] = ['pc', 'npc', 'location', 'faction', 'item', 'skill', 'status_effect', 'companion', 'concept'];
+export const STATUS_TYPES: Status['type'][] = ['buff', 'debuff', 'neutral', 'injury'];
+export const QUEST_STATUSES: Quest['status'][] = ['active', 'completed', 'failed'];
+
+// Free-form types the AI has written into saves, matched by substring (lowercase)
+const ENTITY_TYPE_ALIASES: Array<{ patterns: string[]; type: EntityType }> = [
+    { patterns: ['nhân vật chính', 'player'], type: 'pc' },
+    { patterns: ['đồng hành', 'bạn đồng hành'], type: 'companion' },
+    { patterns: ['nhân vật', 'character', 'người'], type: 'npc' },
+    { patterns: ['địa điểm', 'chợ', 'khu', 'cơ sở', 'thành', 'làng', 'place', 'building'], type: 'location' },
+    { patterns: ['phe phái', 'tông môn', 'môn phái', 'gia tộc', 'bang', 'organization'], type: 'faction' },
+    { patterns: ['vật phẩm', 'trang bị', 'đan dược', 'equipment'], type: 'item' },
+    { patterns: ['kỹ năng', 'công pháp', 'ability'], type: 'skill' },
+    { patterns: ['trạng thái', 'status'], type: 'status_effect' }
+];
+
+const MAX_MONTH = 12;
+const MAX_DAY = 30; // commandTagProcessor uses 30-day months
+
+const isPlainObject = (value: unknown): value is { [key: string]: any } =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+class IssueCollector {
+    readonly issues: SaveValidationIssue[] = [];
+
+    repaired(section: string, message: string) {
+        this.issues.push({ section, message, repaired: true });
+    }
+
+    error(section: string, message: string) {
+        this.issues.push({ section, message, repaired: false });
+    }
+}
+
+export const resolveEntityType = (rawType: unknown): EntityType | null => {
+    if (typeof rawType !== 'string') return null;
+    const normalized = rawType.trim().toLowerCase();
+    if ((ENTITY_TYPES as string[]).includes(normalized)) return normalized as EntityType;
+    const alias = ENTITY_TYPE_ALIASES.find(({ patterns }) => patterns.some(pattern => normalized.includes(pattern)));
+    return alias ? alias.type : null;
+};
+
+/**
+ * Problems that make a save unloadable. Checked before migration, since the migration steps
+ * assume these three fields exist.
+ */
+export const findFatalSaveErrors = (raw: unknown): SaveValidationIssue[] => {
+    const collector = new IssueCollector();
+    if (!isPlainObject(raw)) {
+        collector.error('file', 'Tệp không chứa một đối tượng JSON hợp lệ');
+        return collector.issues;
+    }
+    if (!isPlainObject(raw.worldData)) collector.error('worldData', 'Thiếu thông tin thế giới (worldData)');
+    if (!isPlainObject(raw.knownEntities)) collector.error('knownEntities', 'Thiếu danh sách thực thể (knownEntities)');
+    if (!Array.isArray(raw.gameHistory)) collector.error('gameHistory', 'Thiếu lịch sử trò chơi (gameHistory)');
+    return collector.issues;
+};
+
+const validateEntities = (knownEntities: { [name: string]: any }, collector: IssueCollector): { [name: string]: Entity } => {
+    const result: { [name: string]: Entity } = {};
+
+    Object.entries(knownEntities).forEach(([key, entity]) => {
+        if (!isPlainObject(entity)) {
+            collector.repaired('knownEntities', `Xóa thực thể "${key}" không hợp lệ`);
+            return;
+        }
+
+        let repaired: Entity = entity as Entity;
+        if (typeof entity.name !== 'string' || !entity.name.trim()) {
+            repaired = { ...repaired, name: key };
+            collector.repaired('knownEntities', `Đặt tên cho thực thể "${key}" theo khóa của nó`);
+        } else if (entity.name !== key) {
+            collector.error('knownEntities', `Thực thể được lưu dưới khóa "${key}" nhưng có tên "${entity.name}"`);
+        }
+
+        if (!(ENTITY_TYPES as unknown[]).includes(entity.type)) {
+            const resolved = resolveEntityType(entity.type) || 'concept';
+            repaired = { ...repaired, type: resolved };
+            collector.repaired('knownEntities', `Đổi loại "${entity.type ?? '(trống)'}" của "${key}" thành "${resolved}"`);
+        }
+
+        if (typeof entity.description !== 'string') {
+            repaired = { ...repaired, description: entity.description == null ? '' : String(entity.description) };
+            collector.repaired('knownEntities', `Sửa mô tả không hợp lệ của "${key}"`);
+        }
+
+        result[key] = repaired;
+    });
+
+    const pcs = Object.values(result).filter(entity => entity.type === 'pc');
+    if (pcs.length === 0) {
+        collector.error('knownEntities', 'Không tìm thấy nhân vật chính (type "pc")');
+    } else if (pcs.length > 1) {
+        collector.error('knownEntities', `Có ${pcs.length} nhân vật chính: ${pcs.map(pc => pc.name).join(', ')}`);
+    }
+
+    return result;
+};
+
+// An owner is valid when it is 'pc', the PC's own name, or another known entity
+const isKnownOwner = (owner: string, knownEntities: { [name: string]: Entity }): boolean =>
+    owner === 'pc' || !!knownEntities[owner];
+
+const validateItemOwners = (knownEntities: { [name: string]: Entity }, collector: IssueCollector): { [name: string]: Entity } => {
+    const pcName = Object.values(knownEntities).find(entity => entity.type === 'pc')?.name;
+    return Object.fromEntries(Object.entries(knownEntities).map(([key, entity]) => {
+        if (entity.type !== 'item' || !entity.owner) return [key, entity];
+        if (entity.owner === pcName) {
+            collector.repaired('knownEntities', `Chuẩn hóa chủ sở hữu của "${key}" thành "pc"`);
+            return [key, { ...entity, owner: 'pc' }];
+        }
+        if (!isKnownOwner(entity.owner, knownEntities)) {
+            const { owner, ...unowned } = entity;
+            collector.repaired('knownEntities', `Bỏ chủ sở hữu không tồn tại "${owner}" khỏi vật phẩm "${key}"`);
+            return [key, unowned as Entity];
+        }
+        return [key, entity];
+    }));
+};
+
+const validateStatuses = (statuses: unknown, knownEntities: { [name: string]: Entity }, collector: IssueCollector): Status[] => {
+    if (!Array.isArray(statuses)) {
+        collector.repaired('statuses', 'Đặt lại danh sách trạng thái không hợp lệ');
+        return [];
+    }
+
+    return statuses.flatMap((status: any, index: number): Status[] => {
+        if (!isPlainObject(status) || typeof status.name !== 'string' || !status.name.trim()) {
+            collector.repaired('statuses', `Xóa trạng thái #${index + 1} không có tên`);
+            return [];
+        }
+        let repaired = status as Status;
+        if (!STATUS_TYPES.includes(status.type)) {
+            const normalized = typeof status.type === 'string' ? status.type.trim().toLowerCase() : '';
+            const type = (STATUS_TYPES as string[]).includes(normalized) ? normalized as Status['type'] : 'neutral';
+            repaired = { ...repaired, type };
+            collector.repaired('statuses', `Đổi loại "${status.type ?? '(trống)'}" của trạng thái "${status.name}" thành "${type}"`);
+        }
+        if (!status.owner) {
+            repaired = { ...repaired, owner: 'pc' };
+            collector.repaired('statuses', `Gán trạng thái "${status.name}" không có chủ cho nhân vật chính`);
+        } else if (!isKnownOwner(status.owner, knownEntities)) {
+            collector.repaired('statuses', `Xóa trạng thái "${status.name}" của thực thể không tồn tại "${status.owner}"`);
+            return [];
+        }
+        return [repaired];
+    });
+};
+
+const validateQuests = (quests: unknown, collector: IssueCollector): Quest[] => {
+    if (!Array.isArray(quests)) {
+        collector.repaired('quests', 'Đặt lại danh sách nhiệm vụ không hợp lệ');
+        return [];
+    }
+
+    return quests.flatMap((quest: any, index: number): Quest[] => {
+        if (!isPlainObject(quest) || typeof quest.title !== 'string' || !quest.title.trim()) {
+            collector.repaired('quests', `Xóa nhiệm vụ #${index + 1} không có tiêu đề`);
+            return [];
+        }
+        let repaired = quest as Quest;
+
+        if (!QUEST_STATUSES.includes(quest.status)) {
+            repaired = { ...repaired, status: 'active' };
+            collector.repaired('quests', `Đặt trạng thái "${quest.status ?? '(trống)'}" của nhiệm vụ "${quest.title}" thành "active"`);
+        }
+
+        const rawObjectives: any[] = Array.isArray(quest.objectives) ? quest.objectives.filter(isPlainObject) : [];
+        if (rawObjectives.length !== (Array.isArray(quest.objectives) ? quest.objectives.length : -1)) {
+            collector.repaired('quests', `Xóa mục tiêu không hợp lệ của nhiệm vụ "${quest.title}"`);
+        }
+
+        const seenIds = new Set<string>();
+        let missingIds = 0;
+        const objectives = rawObjectives.map((objective, objectiveIndex) => {
+            let id = objective.id;
+            if (typeof id !== 'string' || !id || seenIds.has(id)) {
+                id = generateObjectiveId(quest.title, objectiveIndex);
+                missingIds++;
+            }
+            seenIds.add(id);
+            return {
+                ...objective,
+                id,
+                description: typeof objective.description === 'string' ? objective.description : '',
+                completed: objective.completed === true
+            };
+        });
+        if (missingIds > 0) {
+            collector.repaired('quests', `Tạo ${missingIds} mã mục tiêu cho nhiệm vụ "${quest.title}"`);
+        }
+
+        return [{ ...repaired, objectives, isMainQuest: quest.isMainQuest === true }];
+    });
+};
+
+const validateParty = (party: unknown, knownEntities: { [name: string]: Entity }, collector: IssueCollector): Entity[] => {
+    if (!Array.isArray(party)) {
+        collector.repaired('party', 'Đặt lại đội hình không hợp lệ');
+        return [];
+    }
+    return party.filter((member: any) => {
+        if (isPlainObject(member) && typeof member.name === 'string' && knownEntities[member.name]) return true;
+        collector.repaired('party', `Xóa thành viên "${member?.name ?? '(không tên)'}" không có trong danh sách thực thể`);
+        return false;
+    });
+};
+
+const validateGameHistory = (gameHistory: any[], collector: IssueCollector): GameHistoryEntry[] => {
+    const valid = gameHistory.filter(entry =>
+        isPlainObject(entry) &&
+        (entry.role === 'user' || entry.role === 'model') &&
+        Array.isArray(entry.parts) &&
+        entry.parts.every((part: any) => isPlainObject(part) && typeof part.text === 'string')
+    );
+    if (valid.length !== gameHistory.length) {
+        collector.repaired('gameHistory', `Xóa ${gameHistory.length - valid.length} mục lịch sử hội thoại bị hỏng`);
+    }
+    return valid;
+};
+
+const clampInteger = (value: unknown, min: number, max: number, fallback: number): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+    return Math.min(max, Math.max(min, Math.floor(value)));
+};
+
+const validateGameTime = (gameTime: any, collector: IssueCollector): SaveData['gameTime'] & { minute: number } => {
+    const time = isPlainObject(gameTime) ? gameTime : {};
+    const repaired = {
+        year: clampInteger(time.year, 1, Number.MAX_SAFE_INTEGER, 1),
+        month: clampInteger(time.month, 1, MAX_MONTH, 1),
+        day: clampInteger(time.day, 1, MAX_DAY, 1),
+        hour: clampInteger(time.hour, 0, 23, 8),
+        minute: clampInteger(time.minute, 0, 59, 0)
+    };
+    const changed = (Object.keys(repaired) as Array<keyof typeof repaired>).filter(key => time[key] !== repaired[key]);
+    if (changed.length > 0) {
+        collector.repaired('gameTime', `Sửa thời gian trong game (${changed.join(', ')})`);
+    }
+    return repaired;
+};
+
+/**
+ * Validates every SaveData section and returns a repaired copy. The input is not modified.
+ * Call findFatalSaveErrors first; this assumes worldData, knownEntities and gameHistory exist.
+ */
+export const validateSaveData = (save: SaveData): { save: SaveData; issues: SaveValidationIssue[] } => {
+    const collector = new IssueCollector();
+
+    const knownEntities = validateItemOwners(validateEntities(save.knownEntities, collector), collector);
+    const repaired: SaveData = {
+        ...save,
+        knownEntities,
+        statuses: validateStatuses(save.statuses, knownEntities, collector),
+        quests: validateQuests(save.quests, collector),
+        party: validateParty(save.party, knownEntities, collector),
+        gameHistory: validateGameHistory(save.gameHistory, collector),
+        gameTime: validateGameTime(save.gameTime, collector)
+    };
+
+    if (!Array.isArray(save.memories) || save.memories.some(memory => typeof memory?.text !== 'string')) {
+        repaired.memories = Array.isArray(save.memories) ? save.memories.filter(memory => typeof memory?.text === 'string') : [];
+        collector.repaired('memories', 'Xóa ký ức không có nội dung');
+    }
+    if (!Array.isArray(save.customRules) || save.customRules.some(rule => !isPlainObject(rule) || !rule.id)) {
+        repaired.customRules = Array.isArray(save.customRules) ? save.customRules.filter(rule => isPlainObject(rule) && rule.id) : [];
+        collector.repaired('customRules', 'Xóa luật tùy chỉnh không có mã');
+    }
+    if (typeof save.turnCount !== 'number' || !Number.isFinite(save.turnCount) || save.turnCount < 0) {
+        repaired.turnCount = 0;
+        collector.repaired('turnCount', `Đặt lại số lượt không hợp lệ (${save.turnCount})`);
+    }
+
+    return { save: repaired, issues: collector.issues };
+};
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from 'vitest';
+import { generateSkillChoiceContext, validateSkillChoiceAdjustments } from './skillChoiceEnhancer';
+import type { Entity, SaveData } from '../types';
+
+const makeState = (language: 'vi' | 'en', mastery: string): SaveData => ({
+    worldData: { language },
+    party: [{ name: 'Kael', type: 'pc', description: '', learnedSkills: ['Shadow Strike'] } as Entity],
+    knownEntities: {
+        'Shadow Strike': { name: 'Shadow Strike', type: 'skill', description: 'A fast attack from the shadows', mastery } as Entity
+    }
+} as unknown as SaveData);
+
+describe('skillChoiceEnhancer', () => {
+    it('writes the constraint block in the GM language', () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        const english = generateSkillChoiceContext(makeState('en', 'Advanced'));
+
+        expect(english).toContain('SKILLS AND MASTERY ADJUSTMENTS');
+        expect(english).toContain('[Combat] Use Shadow Strike to strike hard (70% success, Risk: Medium, 5 min)');
+        expect(english).toContain('• Perfected: +20% success rate, 2 risk tiers lower');
+        expect(english).not.toMatch(/[ạảấầậắằặẩẫểễệịọỏốồộớờợụủứừựỳỵđ]/i);
+
+        const vietnamese = generateSkillChoiceContext(makeState('vi', 'Cao Cấp'));
+        expect(vietnamese).toContain('[Chiến đấu] Sử dụng Shadow Strike để tấn công mạnh mẽ (70% thành công, Rủi ro: Trung Bình, 5 phút)');
+        vi.restoreAllMocks();
+    });
+
+    it('checks the marked risk level, not a stray word in the action', () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        expect(validateSkillChoiceAdjustments('Use Shadow Strike on the high ledge (70%, Risk: Medium)', 'Shadow Strike', 'Advanced', 70, 'Medium')).toBe(true);
+        vi.restoreAllMocks();
+    });
+});
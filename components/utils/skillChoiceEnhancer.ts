@@ -5,6 +5,12 @@
 
 import type { Entity, SaveData } from '../types';
 import { applyMasteryAdjustments, type MasteryLevel, type RiskLevel } from './skillMasteryAdjustments';
+import {
+    MASTERY_TIERS, RISK_TIERS, getMasteryLabel, getRiskLabel, getChoiceCategoryLabel, findRiskTierInText, parseRiskTier, formatMasteryLike,
+    type RiskTier, type ChoiceCategory
+} from './gameEnums';
+import { getPromptLocale } from './promptTemplates';
+import type { Locale } from '../i18n';
 
 interface SkillChoiceContext {
     skillName: string;
@@ -17,11 +23,11 @@ interface SkillChoiceContext {
 }
 
 interface SkillChoiceTemplate {
-    category: string;
-    action: string;
+    category: ChoiceCategory;
+    action: Record<Locale, string>;
     baseSuccessRate: number;
-    baseRisk: RiskLevel;
-    timeEstimate: string;
+    baseRisk: RiskTier;
+    minutes: number;
 }
 
 /**
@@ -31,56 +37,91 @@ const SKILL_CHOICE_TEMPLATES: Record<string, SkillChoiceTemplate[]> = {
     // Combat skills
     'combat': [
         {
-            category: '[Chiến Đấu]',
-            action: 'tấn công mạnh mẽ',
+            category: 'combat',
+            action: { vi: 'tấn công mạnh mẽ', en: 'strike hard' },
             baseSuccessRate: 60,
-            baseRisk: 'Cao',
-            timeEstimate: '5 phút'
+            baseRisk: 'high',
+            minutes: 5
         },
         {
-            category: '[Chiến Đấu]',
-            action: 'thực hiện đòn kỹ thuật',
+            category: 'combat',
+            action: { vi: 'thực hiện đòn kỹ thuật', en: 'pull off a technical move' },
             baseSuccessRate: 40,
-            baseRisk: 'Cực Cao',
-            timeEstimate: '3 phút'
+            baseRisk: 'extreme',
+            minutes: 3
         }
     ],
     // Mystical/magical skills
     'mystical': [
         {
-            category: '[Hành Động]',
-            action: 'thi triển để khám phá bí ẩn',
+            category: 'action',
+            action: { vi: 'thi triển để khám phá bí ẩn', en: 'uncover a mystery' },
             baseSuccessRate: 50,
-            baseRisk: 'Trung Bình',
-            timeEstimate: '10 phút'
+            baseRisk: 'medium',
+            minutes: 10
         },
         {
-            category: '[Hành Động]',
-            action: 'sử dụng để hỗ trợ bản thân',
+            category: 'action',
+            action: { vi: 'sử dụng để hỗ trợ bản thân', en: 'strengthen yourself' },
             baseSuccessRate: 70,
-            baseRisk: 'Thấp',
-            timeEstimate: '5 phút'
+            baseRisk: 'low',
+            minutes: 5
         }
     ],
     // Investigation/observation skills
     'investigation': [
         {
-            category: '[Thăm Dò]',
-            action: 'quan sát kỹ lưỡng môi trường xung quanh',
+            category: 'explore',
+            action: { vi: 'quan sát kỹ lưỡng môi trường xung quanh', en: 'study the surroundings closely' },
             baseSuccessRate: 80,
-            baseRisk: 'Thấp',
-            timeEstimate: '15 phút'
+            baseRisk: 'low',
+            minutes: 15
         },
         {
-            category: '[Thăm Dó]',
-            action: 'tìm hiểu thông tin ẩn giấu',
+            category: 'explore',
+            action: { vi: 'tìm hiểu thông tin ẩn giấu', en: 'dig up hidden information' },
             baseSuccessRate: 45,
-            baseRisk: 'Trung Bình',
-            timeEstimate: '20 phút'
+            baseRisk: 'medium',
+            minutes: 20
         }
     ]
 };
 
+// The constraint block in the language the GM writes in
+const SKILL_CONSTRAINT_TEXT: Record<Locale, {
+    title: string;
+    intro: string;
+    choice: (category: string, skill: string, action: string, successRate: number, risk: string, minutes: number) => string;
+    rulesTitle: string;
+    noChange: string;
+    successRate: (bonus: number) => string;
+    riskReduction: (tiers: number) => string;
+    riskTiers: string;
+}> = {
+    vi: {
+        title: '**✨ KỸ NĂNG VÀ MASTERY ADJUSTMENTS ✨**',
+        intro: 'Khi tạo lựa chọn sử dụng kỹ năng, áp dụng CHÍNH XÁC các điều chỉnh sau:',
+        choice: (category, skill, action, successRate, risk, minutes) =>
+            `[${category}] Sử dụng ${skill} để ${action} (${successRate}% thành công, Rủi ro: ${risk}, ${minutes} phút)`,
+        rulesTitle: '**QUY TẮC ĐIỀU CHỈNH MASTERY (PHẢI TUÂN THỦ):**',
+        noChange: 'Không thay đổi',
+        successRate: bonus => `+${bonus}% success rate`,
+        riskReduction: tiers => `giảm ${tiers} risk tier`,
+        riskTiers: 'Risk tiers'
+    },
+    en: {
+        title: '**✨ SKILLS AND MASTERY ADJUSTMENTS ✨**',
+        intro: 'When writing a choice that uses a skill, apply EXACTLY these adjustments:',
+        choice: (category, skill, action, successRate, risk, minutes) =>
+            `[${category}] Use ${skill} to ${action} (${successRate}% success, Risk: ${risk}, ${minutes} min)`,
+        rulesTitle: '**MASTERY ADJUSTMENT RULES (MUST FOLLOW):**',
+        noChange: 'No change',
+        successRate: bonus => `+${bonus}% success rate`,
+        riskReduction: tiers => `${tiers} risk tier${tiers > 1 ? 's' : ''} lower`,
+        riskTiers: 'Risk tiers'
+    }
+};
+
 /**
  * Determine skill type based on name and description
  */
@@ -88,15 +129,18 @@ function categorizeSkill(skillName: string, description: string): string {
     const lowerName = skillName.toLowerCase();
     const lowerDesc = description.toLowerCase();
     
-    if (lowerName.includes('đánh') || lowerName.includes('chiến') || lowerDesc.includes('tấn công') || lowerDesc.includes('chiến đấu')) {
+    if (lowerName.includes('đánh') || lowerName.includes('chiến') || lowerDesc.includes('tấn công') || lowerDesc.includes('chiến đấu')
+        || lowerName.includes('strike') || lowerDesc.includes('attack') || lowerDesc.includes('combat')) {
         return 'combat';
     }
     
-    if (lowerName.includes('nhãn') || lowerName.includes('thuật') || lowerDesc.includes('thần thức') || lowerDesc.includes('linh')) {
+    if (lowerName.includes('nhãn') || lowerName.includes('thuật') || lowerDesc.includes('thần thức') || lowerDesc.includes('linh')
+        || lowerName.includes('spell') || lowerDesc.includes('magic') || lowerDesc.includes('spirit')) {
         return 'mystical';
     }
     
-    if (lowerName.includes('quan sát') || lowerDesc.includes('nhìn') || lowerDesc.includes('khám phá')) {
+    if (lowerName.includes('quan sát') || lowerDesc.includes('nhìn') || lowerDesc.includes('khám phá')
+        || lowerName.includes('perception') || lowerDesc.includes('observe') || lowerDesc.includes('discover')) {
         return 'investigation';
     }
     
@@ -136,9 +180,13 @@ export function generateSkillChoiceContext(gameState: SaveData): string {
         return '';
     }
     
+    // Labels and wording in the language the GM writes in
+    const locale = getPromptLocale(gameState.worldData);
+    const text = SKILL_CONSTRAINT_TEXT[locale];
+
     // Generate constraint text for AI
-    let constraintText = '\n**✨ KỸ NĂNG VÀ MASTERY ADJUSTMENTS ✨**\n';
-    constraintText += 'Khi tạo lựa chọn sử dụng kỹ năng, áp dụng CHÍNH XÁC các điều chỉnh sau:\n\n';
+    let constraintText = `\n${text.title}\n`;
+    constraintText += `${text.intro}\n\n`;
     
     skillContexts.forEach(skill => {
         constraintText += `**${skill.skillName} (${skill.masteryLevel})**:\n`;
@@ -149,16 +197,19 @@ export function generateSkillChoiceContext(gameState: SaveData): string {
         
         // Generate examples with adjustments
         templates.slice(0, 2).forEach(template => {
+            const baseRisk = getRiskLabel(template.baseRisk, locale);
             const adjustments = applyMasteryAdjustments(
                 template.baseSuccessRate,
-                template.baseRisk,
+                baseRisk,
                 skill.masteryLevel
             );
             
+            const category = getChoiceCategoryLabel(template.category, locale);
+            const action = template.action[locale];
             if (adjustments.adjustmentApplied) {
-                constraintText += `  • ${template.category} Sử dụng ${skill.skillName} để ${template.action} (${adjustments.successRate}% thành công, ${adjustments.riskLevel} risk, ${template.timeEstimate})\n`;
+                constraintText += `  • ${text.choice(category, skill.skillName, action, adjustments.successRate, adjustments.riskLevel, template.minutes)}\n`;
             } else {
-                constraintText += `  • ${template.category} Sử dụng ${skill.skillName} để ${template.action} (${template.baseSuccessRate}% thành công, ${template.baseRisk} risk, ${template.timeEstimate})\n`;
+                constraintText += `  • ${text.choice(category, skill.skillName, action, template.baseSuccessRate, baseRisk, template.minutes)}\n`;
             }
         });
         
@@ -166,13 +217,14 @@ export function generateSkillChoiceContext(gameState: SaveData): string {
     });
     
     // Add adjustment rules reminder
-    constraintText += '**QUY TẮC ĐIỀU CHỈNH MASTERY (PHẢI TUÂN THỦ):**\n';
-    constraintText += '• Sơ Cấp: Không thay đổi\n';
-    constraintText += '• Trung Cấp: +5% success rate\n';
-    constraintText += '• Cao Cấp: +10% success rate, giảm 1 risk tier\n';
-    constraintText += '• Đại Thành: +15% success rate, giảm 1 risk tier\n';
-    constraintText += '• Viên Mãn: +20% success rate, giảm 2 risk tier\n';
-    constraintText += '• Risk tiers: Cực Cao → Cao → Trung Bình → Thấp\n\n';
+    constraintText += `${text.rulesTitle}\n`;
+    const [novice, intermediate, advanced, master, perfect] = MASTERY_TIERS.map(tier => getMasteryLabel(tier, locale));
+    constraintText += `• ${novice}: ${text.noChange}\n`;
+    constraintText += `• ${intermediate}: ${text.successRate(5)}\n`;
+    constraintText += `• ${advanced}: ${text.successRate(10)}, ${text.riskReduction(1)}\n`;
+    constraintText += `• ${master}: ${text.successRate(15)}, ${text.riskReduction(1)}\n`;
+    constraintText += `• ${perfect}: ${text.successRate(20)}, ${text.riskReduction(2)}\n`;
+    constraintText += `• ${text.riskTiers}: ${[...RISK_TIERS].reverse().map(tier => getRiskLabel(tier, locale)).join(' → ')}\n\n`;
     
     return constraintText;
 }
@@ -190,7 +242,7 @@ export function validateSkillChoiceAdjustments(
 ): boolean {
     // Extract success rate from choice
     const successMatch = choiceText.match(/(\d+)%/);
-    const riskMatch = choiceText.match(/(Cực Cao|Cao|Trung Bình|Thấp)/);
+    const riskMatch = findRiskTierInText(choiceText);
     
     if (!successMatch || !riskMatch) {
         console.warn(`⚠️ Could not parse success rate or risk from choice: ${choiceText}`);
@@ -198,10 +250,10 @@ export function validateSkillChoiceAdjustments(
     }
     
     const actualSuccessRate = parseInt(successMatch[1], 10);
-    const actualRisk = riskMatch[1];
+    const actualRisk = riskMatch.match;
     
     const successCorrect = actualSuccessRate === expectedSuccessRate;
-    const riskCorrect = actualRisk === expectedRisk;
+    const riskCorrect = riskMatch.tier === parseRiskTier(expectedRisk);
     
     if (!successCorrect || !riskCorrect) {
         console.error(`❌ Mastery adjustment validation failed for ${skillName} (${masteryLevel}):`);
@@ -229,7 +281,7 @@ export function getSkillMasteryStatus(gameState: SaveData): Array<{name: string;
         
         return {
             name: skillEntity?.name || skillName,
-            mastery: skillEntity?.mastery || 'Sơ Cấp',
+            mastery: skillEntity?.mastery || formatMasteryLike('novice'),
             description: skillEntity?.description || 'Không có mô tả'
         };
     });
@@ -239,15 +239,15 @@ describe('Skill Experience Manager', () => {
 
     describe('mastery constants', () => {
         it('should have correct mastery thresholds', () => {
-            expect(MASTERY_THRESHOLDS['Sơ Cấp']).toBe(100);
-            expect(MASTERY_THRESHOLDS['Trung Cấp']).toBe(300);
-            expect(MASTERY_THRESHOLDS['Cao Cấp']).toBe(600);
-            expect(MASTERY_THRESHOLDS['Đại Thành']).toBe(1000);
-            expect(MASTERY_THRESHOLDS['Viên Mãn']).toBe(1500);
+            expect(MASTERY_THRESHOLDS.novice).toBe(100);
+            expect(MASTERY_THRESHOLDS.intermediate).toBe(300);
+            expect(MASTERY_THRESHOLDS.advanced).toBe(600);
+            expect(MASTERY_THRESHOLDS.master).toBe(1000);
+            expect(MASTERY_THRESHOLDS.perfect).toBe(1500);
         });
 
         it('should have correct mastery order', () => {
-            expect(MASTERY_ORDER).toEqual(['Sơ Cấp', 'Trung Cấp', 'Cao Cấp', 'Đại Thành', 'Viên Mãn']);
+            expect(MASTERY_ORDER).toEqual(['novice', 'intermediate', 'advanced', 'master', 'perfect']);
         });
     });
 });
\ No newline at end of file
@@ -4,8 +4,10 @@
  */
 
 import type { Entity } from '../types';
+import { MASTERY_TIERS, parseMasteryTier, formatMasteryLike, type MasteryTier } from './gameEnums';
 
-export type MasteryLevel = 'Sơ Cấp' | 'Trung Cấp' | 'Cao Cấp' | 'Đại Thành' | 'Viên Mãn';
+// Mastery as written on a skill: a label in any locale, e.g. 'Trung Cấp' or 'Intermediate'
+export type MasteryLevel = string;
 
 export interface SkillExpResult {
     skill: Entity;
@@ -16,16 +18,24 @@ export interface SkillExpResult {
 }
 
 // Experience thresholds for each mastery level
-export const MASTERY_THRESHOLDS: { [key in MasteryLevel]: number } = {
-    'Sơ Cấp': 100,      // 0-100 exp for Sơ Cấp
-    'Trung Cấp': 300,   // 0-300 exp for Trung Cấp  
-    'Cao Cấp': 600,     // 0-600 exp for Cao Cấp
-    'Đại Thành': 1000,  // 0-1000 exp for Đại Thành
-    'Viên Mãn': 1500    // 0-1500 exp for Viên Mãn (max level)
+export const MASTERY_THRESHOLDS: Record<MasteryTier, number> = {
+    novice: 100,        // 0-100 exp
+    intermediate: 300,  // 0-300 exp
+    advanced: 600,      // 0-600 exp
+    master: 1000,       // 0-1000 exp
+    perfect: 1500       // 0-1500 exp (max level)
 };
 
 // Order of mastery levels for progression
-export const MASTERY_ORDER: MasteryLevel[] = ['Sơ Cấp', 'Trung Cấp', 'Cao Cấp', 'Đại Thành', 'Viên Mãn'];
+export const MASTERY_ORDER: MasteryTier[] = MASTERY_TIERS;
+
+/** Tier of a skill's mastery text; unknown or missing mastery counts as the first tier */
+export const getMasteryTier = (mastery: string | undefined): MasteryTier => parseMasteryTier(mastery) ?? 'novice';
+
+/** Exp needed to cap a mastery level, whatever language it is written in */
+export const getMasteryThreshold = (mastery: string | undefined): number => MASTERY_THRESHOLDS[getMasteryTier(mastery)];
+
+export const isMaxMastery = (mastery: string | undefined): boolean => getMasteryTier(mastery) === 'perfect';
 
 /**
  * Initialize skill with default experience values if not set
@@ -33,8 +43,8 @@ export const MASTERY_ORDER: MasteryLevel[] = ['Sơ Cấp', 'Trung Cấp', 'Cao C
 export const initializeSkillExp = (skill: Entity): Entity => {
     if (skill.type !== 'skill') return skill;
     
-    const currentMastery = (skill.mastery as MasteryLevel) || 'Sơ Cấp';
-    const maxExp = MASTERY_THRESHOLDS[currentMastery];
+    const currentMastery = skill.mastery || formatMasteryLike('novice');
+    const maxExp = getMasteryThreshold(currentMastery);
     
     return {
         ...skill,
@@ -53,9 +63,9 @@ export const addSkillExp = (skill: Entity, expToAdd: number): SkillExpResult =>
     }
     
     const initializedSkill = initializeSkillExp(skill);
-    const currentMastery = (initializedSkill.mastery as MasteryLevel) || 'Sơ Cấp';
+    const currentMastery = initializedSkill.mastery || formatMasteryLike('novice');
     const currentExp = initializedSkill.skillExp || 0;
-    const maxExp = initializedSkill.maxSkillExp || MASTERY_THRESHOLDS[currentMastery];
+    const maxExp = initializedSkill.maxSkillExp || getMasteryThreshold(currentMastery);
     
     // Check if skill is capped - no EXP can be added
     if (initializedSkill.skillCapped === true || currentExp >= maxExp) {
@@ -64,7 +74,7 @@ export const addSkillExp = (skill: Entity, expToAdd: number): SkillExpResult =>
             skill: {
                 ...initializedSkill,
                 skillCapped: true,
-                breakthroughEligible: currentMastery !== 'Viên Mãn' // Only eligible if not at max mastery
+                breakthroughEligible: !isMaxMastery(currentMastery) // Only eligible if not at max mastery
             }, 
             expGained: 0, 
             masteryLevelUp: false 
@@ -80,7 +90,7 @@ export const addSkillExp = (skill: Entity, expToAdd: number): SkillExpResult =>
         ...initializedSkill,
         skillExp: newExp,
         skillCapped: skillBecameCapped,
-        breakthroughEligible: skillBecameCapped && currentMastery !== 'Viên Mãn'
+        breakthroughEligible: skillBecameCapped && !isMaxMastery(currentMastery)
     };
     
     if (skillBecameCapped) {
@@ -192,22 +202,24 @@ export const calculateSkillExpGain = (usageContext: string): number => {
  * Perform breakthrough attempt on a capped skill
  */
 export const attemptBreakthrough = (skill: Entity, successRate: number = 0.75): SkillExpResult => {
-    if (skill.type !== 'skill' || !skill.skillCapped || skill.mastery === 'Viên Mãn') {
+    if (skill.type !== 'skill' || !skill.skillCapped || isMaxMastery(skill.mastery)) {
         console.warn(`⚠️ Invalid breakthrough attempt for skill ${skill.name}`);
         return { skill, expGained: 0, masteryLevelUp: false };
     }
     
-    const currentMastery = (skill.mastery as MasteryLevel) || 'Sơ Cấp';
-    const currentIndex = MASTERY_ORDER.indexOf(currentMastery);
+    const currentMastery = skill.mastery || formatMasteryLike('novice');
+    const currentIndex = MASTERY_ORDER.indexOf(getMasteryTier(currentMastery));
     const success = Math.random() < successRate;
     
     if (success && currentIndex >= 0 && currentIndex < MASTERY_ORDER.length - 1) {
-        const newMastery = MASTERY_ORDER[currentIndex + 1];
+        const newTier = MASTERY_ORDER[currentIndex + 1];
+        // Written in the language the skill's mastery already uses
+        const newMastery = formatMasteryLike(newTier, currentMastery);
         const updatedSkill: Entity = {
             ...skill,
             mastery: newMastery,
             skillExp: 0, // Reset EXP after breakthrough
-            maxSkillExp: MASTERY_THRESHOLDS[newMastery],
+            maxSkillExp: MASTERY_THRESHOLDS[newTier],
             skillCapped: false, // No longer capped
             breakthroughEligible: false // Reset eligibility
         };
@@ -243,7 +255,7 @@ export const attemptBreakthrough = (skill: Entity, successRate: number = 0.75):
  */
 export const rollForBreakthroughEligibility = (skills: Entity[]): Entity[] => {
     return skills.map(skill => {
-        if (skill.type === 'skill' && skill.skillCapped === true && skill.breakthroughEligible !== true && skill.mastery !== 'Viên Mãn') {
+        if (skill.type === 'skill' && skill.skillCapped === true && skill.breakthroughEligible !== true && !isMaxMastery(skill.mastery)) {
             const roll = Math.random();
             if (roll < 0.20) { // 20% chance
                 console.log(`🎲 Skill ${skill.name} becomes eligible for breakthrough (rolled ${(roll * 100).toFixed(1)}%)`);
@@ -270,5 +282,5 @@ export const canSkillGainExp = (skill: Entity): boolean => {
  */
 export const canSkillBreakthrough = (skill: Entity): boolean => {
     if (skill.type !== 'skill') return false;
-    return skill.skillCapped === true && skill.breakthroughEligible === true && skill.mastery !== 'Viên Mãn';
+    return skill.skillCapped === true && skill.breakthroughEligible === true && !isMaxMastery(skill.mastery);
 };
\ No newline at end of file
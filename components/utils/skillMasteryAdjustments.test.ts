@@ -130,6 +130,12 @@ describe('Skill Mastery Adjustments', () => {
             expect(parseRiskLevelFromChoice('Thấp risk')).toBe('Thấp');
             expect(parseRiskLevelFromChoice('No risk mentioned')).toBe(null);
         });
+
+        test('parseRiskLevelFromChoice: reads the level next to the risk marker, not a stray word', () => {
+            expect(parseRiskLevelFromChoice('Climb the high wall (60%, Risk: Low)')).toBe('Low');
+            expect(parseRiskLevelFromChoice('Sneak through the low tunnel (45%, high risk)')).toBe('High');
+            expect(parseRiskLevelFromChoice('Leo lên vách đá cao (60%, Rủi ro: Thấp)')).toBe('Thấp');
+        });
     });
 
     describe('Adjusted Choice Text Generation', () => {
@@ -157,6 +163,14 @@ describe('Skill Mastery Adjustments', () => {
         });
     });
 
+    describe('English Choice Text', () => {
+        test('generateAdjustedChoiceText: adjusts the marked risk and leaves the action text alone', () => {
+            const result = generateAdjustedChoiceText('Use Shadow Step to climb the high wall (40%, Risk: Medium)', 'Shadow Step', 'Advanced');
+
+            expect(result).toBe('Use Shadow Step to climb the high wall (50%, Risk: Low)');
+        });
+    });
+
     describe('Real-world Examples from Requirements', () => {
         test('Huyết Đế Chú progression example', () => {
             const baseChoice = 'Sử dụng Huyết Đế Chú để tấn công kẻ địch (40% thành công, Cao risk, 10 phút)';
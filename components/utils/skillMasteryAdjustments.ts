@@ -3,8 +3,14 @@
  * Ensures consistent scaling across all skills and choices
  */
 
-export type MasteryLevel = 'Sơ Cấp' | 'Trung Cấp' | 'Cao Cấp' | 'Đại Thành' | 'Viên Mãn';
-export type RiskLevel = 'Cực Cao' | 'Cao' | 'Trung Bình' | 'Thấp';
+import {
+    RISK_TIERS, parseMasteryTier, parseRiskTier, findRiskTierInText, replaceRiskTierInText, formatRiskLike,
+    type MasteryTier, type RiskTier
+} from './gameEnums';
+
+// Mastery and risk as written in a skill or choice: a label in any locale, or the tier id
+export type MasteryLevel = string;
+export type RiskLevel = string;
 
 interface MasteryAdjustment {
     successRateBonus: number; // Percentage points to add
@@ -14,32 +20,36 @@ interface MasteryAdjustment {
 /**
  * Mastery level adjustments configuration
  */
-const MASTERY_ADJUSTMENTS: Record<MasteryLevel, MasteryAdjustment> = {
-    'Sơ Cấp': { successRateBonus: 0, riskReduction: 0 },      // Base level
-    'Trung Cấp': { successRateBonus: 5, riskReduction: 0 },   // +5% success
-    'Cao Cấp': { successRateBonus: 10, riskReduction: 1 },    // +10% success, -1 risk tier
-    'Đại Thành': { successRateBonus: 15, riskReduction: 1 },  // +15% success, -1 risk tier
-    'Viên Mãn': { successRateBonus: 20, riskReduction: 2 }    // +20% success, -2 risk tiers
+const MASTERY_ADJUSTMENTS: Record<MasteryTier, MasteryAdjustment> = {
+    novice: { successRateBonus: 0, riskReduction: 0 },        // Base level
+    intermediate: { successRateBonus: 5, riskReduction: 0 },  // +5% success
+    advanced: { successRateBonus: 10, riskReduction: 1 },     // +10% success, -1 risk tier
+    master: { successRateBonus: 15, riskReduction: 1 },       // +15% success, -1 risk tier
+    perfect: { successRateBonus: 20, riskReduction: 2 }       // +20% success, -2 risk tiers
 };
 
 /**
- * Risk tier hierarchy (for reduction calculations)
- * Higher index = Higher risk. Reduction moves toward lower index (safer)
+ * Check if a string is a valid mastery level
  */
-const RISK_TIERS: RiskLevel[] = ['Thấp', 'Trung Bình', 'Cao', 'Cực Cao'];
+export function isMasteryLevel(value: string): boolean {
+    return parseMasteryTier(value) !== null;
+}
 
 /**
- * Check if a string is a valid mastery level
+ * Check if a string is a valid risk level
  */
-export function isMasteryLevel(value: string): value is MasteryLevel {
-    return ['Sơ Cấp', 'Trung Cấp', 'Cao Cấp', 'Đại Thành', 'Viên Mãn'].includes(value);
+export function isRiskLevel(value: string): boolean {
+    return parseRiskTier(value) !== null;
 }
 
 /**
- * Check if a string is a valid risk level
+ * Lower a risk level by some tiers (RISK_TIERS runs from safest to riskiest), keeping the form it was written in
  */
-export function isRiskLevel(value: string): value is RiskLevel {
-    return ['Cực Cao', 'Cao', 'Trung Bình', 'Thấp'].includes(value);
+export function reduceRiskLevel(riskLevel: string, tiers: number): string {
+    const tier = parseRiskTier(riskLevel);
+    if (!tier) return riskLevel;
+    const reduced: RiskTier = RISK_TIERS[Math.max(0, RISK_TIERS.indexOf(tier) - tiers)];
+    return formatRiskLike(reduced, riskLevel);
 }
 
 /**
@@ -49,12 +59,13 @@ export function isRiskLevel(value: string): value is RiskLevel {
  * @returns Adjusted success rate (0-100), capped at 100
  */
 export function adjustSuccessRate(baseSuccessRate: number, masteryLevel: string): number {
-    if (!isMasteryLevel(masteryLevel)) {
+    const tier = parseMasteryTier(masteryLevel);
+    if (!tier) {
         console.warn(`⚠️ Invalid mastery level: ${masteryLevel}, using base rate`);
         return baseSuccessRate;
     }
 
-    const adjustment = MASTERY_ADJUSTMENTS[masteryLevel];
+    const adjustment = MASTERY_ADJUSTMENTS[tier];
     const adjustedRate = baseSuccessRate + adjustment.successRateBonus;
     
     // Cap at 100%
@@ -72,7 +83,8 @@ export function adjustSuccessRate(baseSuccessRate: number, masteryLevel: string)
  * @returns Adjusted risk level
  */
 export function adjustRiskLevel(baseRiskLevel: string, masteryLevel: string): string {
-    if (!isMasteryLevel(masteryLevel)) {
+    const tier = parseMasteryTier(masteryLevel);
+    if (!tier) {
         console.warn(`⚠️ Invalid mastery level: ${masteryLevel}, using base risk`);
         return baseRiskLevel;
     }
@@ -82,12 +94,8 @@ export function adjustRiskLevel(baseRiskLevel: string, masteryLevel: string): st
         return baseRiskLevel;
     }
 
-    const adjustment = MASTERY_ADJUSTMENTS[masteryLevel];
-    const currentIndex = RISK_TIERS.indexOf(baseRiskLevel);
-    
-    // Reduce risk by specified tiers (move toward lower index = safer)
-    const newIndex = Math.max(0, currentIndex - adjustment.riskReduction);
-    const adjustedRisk = RISK_TIERS[newIndex];
+    const adjustment = MASTERY_ADJUSTMENTS[tier];
+    const adjustedRisk = reduceRiskLevel(baseRiskLevel, adjustment.riskReduction);
     
     if (adjustment.riskReduction > 0) {
         console.log(`🛡️ Risk adjustment: ${baseRiskLevel} → ${adjustedRisk} (${masteryLevel}: -${adjustment.riskReduction} tier${adjustment.riskReduction > 1 ? 's' : ''})`);
@@ -169,14 +177,7 @@ export function parseSuccessRateFromChoice(choiceText: string): number | null {
  * @returns Parsed risk level or null if not found
  */
 export function parseRiskLevelFromChoice(choiceText: string): RiskLevel | null {
-    const riskPattern = /(Cực Cao|Cao|Trung Bình|Thấp)/i;
-    const match = choiceText.match(riskPattern);
-    
-    if (match && isRiskLevel(match[1])) {
-        return match[1] as RiskLevel;
-    }
-    
-    return null;
+    return findRiskTierInText(choiceText)?.label ?? null;
 }
 
 /**
@@ -187,7 +188,7 @@ export function parseRiskLevelFromChoice(choiceText: string): RiskLevel | null {
 export function extractSkillNameFromChoice(choiceText: string): string | null {
     // Common patterns for skill usage in choices
     const patterns = [
-        /(?:sử dụng|dùng|thi triển)\s+([^(,\-\.\n]+)(?:\s*\(|,|\-)/i,  // "sử dụng Huyết Đế Chú ("
+        /(?:sử dụng|dùng|thi triển|\buse|\busing)\s+([^(,\-\.\n]+)(?:\s*\(|,|\-)/i,  // "sử dụng Huyết Đế Chú (", "use Shadow Step ("
         /([^(,\-\.\n]+)\s+để\s+/i,                                     // "Huyết Đế Chú để tấn công"
         /với\s+([^(,\-\.\n]+)/i,                                       // "với Thiên Cơ Bí Nhãn"
         /([A-ZÀÁẠẢÃÂẦẤẬẨẪĂẰẮẶẲẴÈÉẸẺẼÊỀẾỆỂỄÌÍỊỈĨÒÓỌỎÕÔỒỐỘỔỖƠỜỚỢỞỠÙÚỤỦŨƯỪỨỰỬỮỲÝỴỶỸĐ][a-zA-ZÀ-ỹ\s]*?(?:Chú|Thuật|Pháp|Công|Kỹ|Nhãn))/  // Capitalized skill names ending with common suffixes
@@ -239,10 +240,7 @@ export function generateAdjustedChoiceText(
     );
     
     // Replace risk level in the text
-    adjustedText = adjustedText.replace(
-        /(Cực Cao|Cao|Trung Bình|Thấp)/i,
-        adjustments.riskLevel
-    );
+    adjustedText = replaceRiskTierInText(adjustedText, adjustments.riskLevel);
     
     return adjustedText;
 }
@@ -251,9 +249,6 @@ export function generateAdjustedChoiceText(
  * Debug function to get mastery adjustment info
  */
 export function getMasteryAdjustmentInfo(masteryLevel: string): MasteryAdjustment | null {
-    if (!isMasteryLevel(masteryLevel)) {
-        return null;
-    }
-    
-    return MASTERY_ADJUSTMENTS[masteryLevel];
+    const tier = parseMasteryTier(masteryLevel);
+    return tier ? MASTERY_ADJUSTMENTS[tier] : null;
 }
\ No newline at end of file
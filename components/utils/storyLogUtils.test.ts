@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { formatStoryLogForDisplay } from './storyLogUtils';
+import { RegexPlacement, RegexSubstituteMode } from '../types';
+import type { RegexRule } from '../types';
+
+const rule = (placement: RegexPlacement, findRegex: string, replaceString: string, extra: Partial<RegexRule> = {}): RegexRule => ({
+    id: `rule_${placement}`, name: `Rule ${placement}`, findRegex, replaceString, trimStrings: [],
+    placement: [placement], disabled: false, isScoped: false, markdownOnly: false, promptOnly: false,
+    runOnEdit: false, substituteRegex: RegexSubstituteMode.NONE, ...extra
+});
+
+describe('formatStoryLogForDisplay', () => {
+    it('applies dialogue then combat formatting to story entries but not player actions', () => {
+        const log = ['> Tôi nói "xin chào"', 'Tiểu Vân đáp: "Chào huynh." Nàng tung một chưởng, gây 30 sát thương.'];
+        const formatted = formatStoryLogForDisplay(log, [
+            rule(RegexPlacement.COMBAT_FORMATTING, '/(\\d+) sát thương/g', '**$1** sát thương'),
+            rule(RegexPlacement.DIALOGUE_FORMATTING, '/"([^"]+)"/g', '*"$1"*')
+        ]);
+
+        expect(formatted[0]).toBe(log[0]);
+        expect(formatted[1]).toBe('Tiểu Vân đáp: *"Chào huynh."* Nàng tung một chưởng, gây **30** sát thương.');
+        expect(log[1]).not.toContain('**');
+    });
+
+    it('measures depth from the newest entry and skips work without display rules', () => {
+        const log = ['"Một"', '"Hai"', '"Ba"'];
+        const formatted = formatStoryLogForDisplay(log, [
+            rule(RegexPlacement.DIALOGUE_FORMATTING, '/"/g', '«', { maxDepth: 1 })
+        ]);
+
+        expect(formatted).toEqual(['"Một"', '«Hai«', '«Ba«']);
+        expect(formatStoryLogForDisplay(log, [rule(RegexPlacement.AI_OUTPUT, '/"/g', '«')])).toBe(log);
+    });
+});
@@ -1,3 +1,6 @@
+import type { RegexRule } from '../types';
+import { regexEngine, RegexPlacement } from './RegexEngine';
+
 // Constants
 export const MAX_STORY_LOG_ENTRIES = 50;
 
@@ -37,4 +40,25 @@ export const trimStoryLog = (log: string[]): string[] => {
         return log.slice(-MAX_STORY_LOG_ENTRIES);
     }
     return log;
-};
\ No newline at end of file
+};
+
+// Display-only regex placements, applied in this order when rendering the story
+export const DISPLAY_PLACEMENTS = [RegexPlacement.DIALOGUE_FORMATTING, RegexPlacement.COMBAT_FORMATTING];
+
+// Formats story entries for display without changing the stored log. Depth counts back from
+// the newest entry, and player actions ("> ...") are shown exactly as typed.
+export const formatStoryLogForDisplay = (log: string[], rules: RegexRule[]): string[] => {
+    const hasDisplayRules = (rules || []).some(rule =>
+        !rule.disabled && DISPLAY_PLACEMENTS.some(placement => rule.placement.includes(placement))
+    );
+    if (!hasDisplayRules) return log;
+
+    return log.map((entry, index) => {
+        if (entry.startsWith('> ')) return entry;
+        const depth = log.length - 1 - index;
+        return DISPLAY_PLACEMENTS.reduce(
+            (text, placement) => regexEngine.processText(text, placement, rules, { depth }),
+            entry
+        );
+    });
+};
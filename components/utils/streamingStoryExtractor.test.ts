@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { extractStreamingStory } from './streamingStoryExtractor';
+
+describe('extractStreamingStory', () => {
+    it('should return nothing before the story field starts', () => {
+        expect(extractStreamingStory('')).toBe('');
+        expect(extractStreamingStory('{"sto')).toBe('');
+        expect(extractStreamingStory('[COT_REASONING] Bước 1: phân tích... {"story": ')).toBe('');
+    });
+
+    it('should decode a partially streamed story string', () => {
+        expect(extractStreamingStory('{"story": "Gió thổi qua\\nrừng trúc, \\"xào xạc\\"')).toBe('Gió thổi qua\nrừng trúc, "xào xạc"');
+    });
+
+    it('should stop at the closing quote of the story field', () => {
+        const buffer = '{"story": "Trời đã tối.", "choices": ["Đi ngủ"';
+        expect(extractStreamingStory(buffer)).toBe('Trời đã tối.');
+    });
+
+    it('should drop escape sequences split across chunks', () => {
+        expect(extractStreamingStory('{"story": "Xin chào\\')).toBe('Xin chào');
+        expect(extractStreamingStory('{"story": "A\\u00')).toBe('A');
+        expect(extractStreamingStory('{"story": "A\\u00e9')).toBe('Aé');
+    });
+
+    it('should hide complete and half-written command tags', () => {
+        const complete = '{"story": "Lão nhân mỉm cười. [LORE_NPC: name=\\"Lão Trương\\", description=\\"Chủ quán\\"] Ông rót trà.';
+        expect(extractStreamingStory(complete)).toBe('Lão nhân mỉm cười.  Ông rót trà.');
+
+        const partial = '{"story": "Ngươi bước vào quán. [TIME_ELAPSED: hou';
+        expect(extractStreamingStory(partial)).toBe('Ngươi bước vào quán.');
+    });
+});
@@ -0,0 +1,70 @@
+// streamingStoryExtractor.ts - Pulls the "story" field out of a partially streamed JSON response
+// Only used for the live preview; the full response is still parsed by parseApiResponseHandler on completion
+
+const STORY_KEY_REGEX = /"story"\s*:\s*"/;
+const COMPLETE_TAG_REGEX = /\[([A-Z_]+):\s*([^\]]+)\]/g;
+const TRAILING_TAG_REGEX = /\[[A-Z_]*(?::[^\]]*)?$/;
+
+const ESCAPES: { [key: string]: string } = {
+    '"': '"',
+    '\\': '\\',
+    '/': '/',
+    'b': '\b',
+    'f': '\f',
+    'n': '\n',
+    'r': '\r',
+    't': '\t'
+};
+
+/**
+ * Decodes a JSON string body that may be cut off mid-stream.
+ * Stops at the closing quote, or drops an incomplete escape sequence at the end of the buffer.
+ */
+const decodePartialJsonString = (body: string): { value: string; complete: boolean } => {
+    let value = '';
+    let i = 0;
+
+    while (i < body.length) {
+        const char = body[i];
+        if (char === '"') {
+            return { value, complete: true };
+        }
+        if (char !== '\\') {
+            value += char;
+            i++;
+            continue;
+        }
+
+        const next = body[i + 1];
+        if (next === undefined) break; // Escape split across chunks
+        if (next === 'u') {
+            const hex = body.slice(i + 2, i + 6);
+            if (hex.length < 4) break;
+            value += String.fromCharCode(parseInt(hex, 16));
+            i += 6;
+            continue;
+        }
+        value += ESCAPES[next] ?? next;
+        i += 2;
+    }
+
+    return { value, complete: false };
+};
+
+/**
+ * Returns the story text streamed so far, with command tags hidden.
+ * Returns an empty string until the "story" field has started.
+ */
+export const extractStreamingStory = (buffer: string): string => {
+    const keyMatch = STORY_KEY_REGEX.exec(buffer);
+    if (!keyMatch) return '';
+
+    const { value, complete } = decodePartialJsonString(buffer.slice(keyMatch.index + keyMatch[0].length));
+
+    let preview = value.replace(COMPLETE_TAG_REGEX, '');
+    if (!complete) {
+        // Hide a command tag that is still being written
+        preview = preview.replace(TRAILING_TAG_REGEX, '');
+    }
+    return preview.replace(/\n{3,}/g, '\n\n').trim();
+};
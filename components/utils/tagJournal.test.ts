@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import { diffCommandTagState, revertTagChanges, appendTagJournal, markTagChangesReverted, createTagJournalEntry } from './tagJournal';
+import { createCommandTagProcessor } from './commandTagProcessor';
+import { makeCommandTagState, makeCommandTagStore } from './commandTagTestUtils';
+import type { CommandTagState, Entity, TagJournalEntry } from '../types';
+
+const pc = { name: 'Lý Phàm', type: 'pc', description: 'Nhân vật chính' } as Entity;
+const npc = { name: 'Tiểu Vân', type: 'npc', description: 'Sư muội', relationship: 'Xa lạ' } as Entity;
+
+const makeState = (): CommandTagState => makeCommandTagState({
+    knownEntities: { [pc.name]: pc, [npc.name]: npc },
+    statuses: [{ name: 'Trúng độc', description: '', type: 'debuff', source: '', owner: 'pc' }],
+    party: [pc]
+});
+
+describe('tagJournal', () => {
+    it('records only the fields a tag changed', () => {
+        const before = makeState();
+        const after = {
+            ...before,
+            knownEntities: { ...before.knownEntities, [npc.name]: { ...npc, relationship: 'Thân thiết' } },
+            statuses: []
+        };
+
+        expect(diffCommandTagState(before, after)).toEqual([
+            { slice: 'knownEntities', key: npc.name, before: { relationship: 'Xa lạ' }, after: { relationship: 'Thân thiết' }, fields: ['relationship'] },
+            { slice: 'statuses', key: 'pc::Trúng độc', before: before.statuses[0] }
+        ]);
+    });
+
+    it('reverts one change without touching later edits to the same entity', () => {
+        const state = makeState();
+        const [relationshipChange] = diffCommandTagState(state, {
+            ...state,
+            knownEntities: { ...state.knownEntities, [npc.name]: { ...npc, relationship: 'Thân thiết' } }
+        });
+        const current = {
+            ...state,
+            knownEntities: { ...state.knownEntities, [npc.name]: { ...npc, relationship: 'Thân thiết', realm: 'Trúc Cơ' } }
+        };
+
+        const { state: reverted, applied } = revertTagChanges(current, [relationshipChange]);
+        expect(applied).toEqual([true]);
+        expect(reverted.knownEntities![npc.name]).toMatchObject({ relationship: 'Xa lạ', realm: 'Trúc Cơ' });
+        expect(reverted.statuses).toBeUndefined();
+    });
+
+    it('removes added values, restores removed ones and skips stale changes', () => {
+        const state = makeState();
+        const added = { slice: 'knownEntities' as const, key: 'Linh Thạch', after: { name: 'Linh Thạch', type: 'item', description: '' } };
+        const removed = { slice: 'statuses' as const, key: 'pc::Bỏng', before: { name: 'Bỏng', description: '', type: 'debuff', source: '', owner: 'pc' } };
+        const stale = { slice: 'knownEntities' as const, key: 'Hắc Y Nhân', before: { relationship: 'Thù' }, after: { relationship: 'Bạn' }, fields: ['relationship'] };
+        const current = { ...state, knownEntities: { ...state.knownEntities, 'Linh Thạch': added.after as Entity } };
+
+        const { state: reverted, applied } = revertTagChanges(current, [added, removed, stale]);
+        expect(applied).toEqual([true, true, false]);
+        expect(reverted.knownEntities!['Linh Thạch']).toBeUndefined();
+        expect(reverted.statuses!.map(status => status.name)).toEqual(['Trúng độc', 'Bỏng']);
+    });
+
+    it('keeps the journal to the most recent turns and marks reverted changes', () => {
+        const entry = (turn: number): TagJournalEntry => createTagJournalEntry(turn, 'TIME_ELAPSED', '', {}, [
+            { slice: 'gameTime', key: 'gameTime', before: { hour: 8 }, after: { hour: 9 }, fields: ['hour'] }
+        ]);
+        const journal = appendTagJournal([entry(1), entry(2)], [entry(4)], 3);
+        expect(journal.map(e => e.turn)).toEqual([2, 4]);
+
+        const marked = markTagChangesReverted(journal, journal[1].id, [0]);
+        expect(marked[1].changes[0].reverted).toBe(true);
+        expect(marked[0]).toBe(journal[0]);
+    });
+
+    it('receives one entry per committed tag from the command tag processor', () => {
+        const state = makeState();
+        const onTagsCommitted = vi.fn();
+        const { setters } = makeCommandTagStore(state);
+        const processor = createCommandTagProcessor({ ...setters, ...state, regexRules: [], turnCount: 7, onTagsCommitted });
+
+        processor.parseStoryAndTags(
+            `[RELATIONSHIP_CHANGED: npcName="${npc.name}" relationship="Thân thiết"] [SPECIAL_ITEM_GENERATE: questTitle="X"] [STATUS_CURED_SELF: name="Trúng độc"]`
+        );
+
+        const entries: TagJournalEntry[] = onTagsCommitted.mock.calls[0][0];
+        expect(entries.map(e => [e.turn, e.tag])).toEqual([[7, 'RELATIONSHIP_CHANGED'], [7, 'STATUS_CURED_SELF']]);
+        expect(entries[0].attributes).toEqual({ npcName: npc.name, relationship: 'Thân thiết' });
+        expect(entries[0].changes).toEqual([
+            { slice: 'knownEntities', key: npc.name, before: { relationship: 'Xa lạ' }, after: { relationship: 'Thân thiết' }, fields: ['relationship'] }
+        ]);
+    });
+});
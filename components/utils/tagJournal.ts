@@ -0,0 +1,182 @@
+// tagJournal.ts - Records what each command tag changed and reverts single changes
+//
+// Every slice of CommandTagState is treated as a keyed collection (entities by name, statuses
+// by owner and name, ...), so a tag's effect is a list of per-key changes. Reverting a change
+// only touches the fields that tag changed, leaving later edits to the same entity in place.
+
+import type { CommandTagState, TagStateChange, TagJournalEntry } from '../types';
+
+// Journal entries older than this many turns are dropped
+export const MAX_TAG_JOURNAL_TURNS = 20;
+
+type Slice = keyof CommandTagState;
+
+interface SliceAdapter {
+    entries: (value: any) => Map<string, any>;
+    get: (value: any, key: string) => any;
+    set: (value: any, key: string, item: any) => any;
+    remove: (value: any, key: string) => any;
+}
+
+const recordAdapter: SliceAdapter = {
+    entries: value => new Map(Object.entries(value || {})),
+    get: (value, key) => value?.[key],
+    set: (value, key, item) => ({ ...value, [key]: item }),
+    remove: (value, key) => {
+        const next = { ...value };
+        delete next[key];
+        return next;
+    }
+};
+
+const listAdapter = (keyOf: (item: any) => string): SliceAdapter => ({
+    entries: value => new Map((value || []).map((item: any) => [keyOf(item), item])),
+    get: (value, key) => (value || []).find((item: any) => keyOf(item) === key),
+    set: (value, key, item) => {
+        const list = value || [];
+        return list.some((existing: any) => keyOf(existing) === key)
+            ? list.map((existing: any) => keyOf(existing) === key ? item : existing)
+            : [...list, item];
+    },
+    remove: (value, key) => (value || []).filter((item: any) => keyOf(item) !== key)
+});
+
+// gameTime and chronicle are a single value, keyed by the slice name
+const valueAdapter = (slice: Slice): SliceAdapter => ({
+    entries: value => new Map([[slice, value]]),
+    get: value => value,
+    set: (_value, _key, item) => item,
+    remove: value => value
+});
+
+const SLICE_ADAPTERS: { [K in Slice]: SliceAdapter } = {
+    knownEntities: recordAdapter,
+    statuses: listAdapter(status => `${status.owner}::${status.name}`),
+    quests: listAdapter(quest => quest.title),
+    party: listAdapter(member => member.name),
+    memories: listAdapter(memory => memory.text),
+    locationDiscoveryOrder: listAdapter(name => name),
+    gameTime: valueAdapter('gameTime'),
+    chronicle: valueAdapter('chronicle')
+};
+
+const isPlainObject = (value: any): boolean => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const sameValue = (a: any, b: any): boolean => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const pick = (value: any, fields: string[]) => {
+    const picked: { [field: string]: any } = {};
+    fields.forEach(field => {
+        if (value[field] !== undefined) picked[field] = value[field];
+    });
+    return picked;
+};
+
+const diffValue = (slice: Slice, key: string, before: any, after: any): TagStateChange | null => {
+    if (before === after) return null;
+    if (before === undefined) return { slice, key, after };
+    if (after === undefined) return { slice, key, before };
+    if (isPlainObject(before) && isPlainObject(after)) {
+        const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+            .filter(field => !sameValue(before[field], after[field]));
+        if (fields.length === 0) return null;
+        return { slice, key, before: pick(before, fields), after: pick(after, fields), fields };
+    }
+    return sameValue(before, after) ? null : { slice, key, before, after };
+};
+
+/** Per-key changes between two states, for every slice whose reference changed */
+export const diffCommandTagState = (before: CommandTagState, after: CommandTagState): TagStateChange[] => {
+    const changes: TagStateChange[] = [];
+    (Object.keys(SLICE_ADAPTERS) as Slice[]).forEach(slice => {
+        if (before[slice] === after[slice]) return;
+        const adapter = SLICE_ADAPTERS[slice];
+        const beforeEntries = adapter.entries(before[slice]);
+        const afterEntries = adapter.entries(after[slice]);
+        new Set([...beforeEntries.keys(), ...afterEntries.keys()]).forEach(key => {
+            const change = diffValue(slice, key, beforeEntries.get(key), afterEntries.get(key));
+            if (change) changes.push(change);
+        });
+    });
+    return changes;
+};
+
+export const createTagJournalEntry = (
+    turn: number,
+    tag: string,
+    raw: string,
+    attributes: { [key: string]: any },
+    changes: TagStateChange[]
+): TagJournalEntry => ({
+    id: `tag_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    turn, tag, raw, attributes, changes
+});
+
+/** Appends new entries and drops those more than `maxTurns` turns behind the newest */
+export const appendTagJournal = (
+    journal: TagJournalEntry[],
+    entries: TagJournalEntry[],
+    maxTurns: number = MAX_TAG_JOURNAL_TURNS
+): TagJournalEntry[] => {
+    const combined = [...journal, ...entries];
+    if (combined.length === 0) return combined;
+    const newestTurn = Math.max(...combined.map(entry => entry.turn));
+    return combined.filter(entry => entry.turn > newestTurn - maxTurns);
+};
+
+const revertChange = (value: any, change: TagStateChange): { value: any; applied: boolean } => {
+    const adapter = SLICE_ADAPTERS[change.slice];
+    const current = adapter.get(value, change.key);
+
+    if (change.before === undefined) {
+        // Added by the tag: remove it if it is still there
+        return current === undefined ? { value, applied: false } : { value: adapter.remove(value, change.key), applied: true };
+    }
+    if (change.after === undefined) {
+        // Removed by the tag: restore it unless something re-added it since
+        return current !== undefined ? { value, applied: false } : { value: adapter.set(value, change.key, change.before), applied: true };
+    }
+    if (change.fields) {
+        if (!isPlainObject(current)) return { value, applied: false };
+        const patched = { ...current };
+        change.fields.forEach(field => {
+            if (field in change.before) patched[field] = change.before[field];
+            else delete patched[field];
+        });
+        return { value: adapter.set(value, change.key, patched), applied: true };
+    }
+    return { value: adapter.set(value, change.key, change.before), applied: true };
+};
+
+/**
+ * Reverts changes against the current state, newest first. Returns the slices that changed
+ * and, per input change, whether it could be reverted (a change whose target has since been
+ * removed or re-added is skipped).
+ */
+export const revertTagChanges = (
+    state: CommandTagState,
+    changes: TagStateChange[]
+): { state: Partial<CommandTagState>; applied: boolean[] } => {
+    const next: Partial<CommandTagState> = {};
+    const applied = changes.map(() => false);
+    for (let index = changes.length - 1; index >= 0; index--) {
+        const change = changes[index];
+        if (change.reverted) continue;
+        const slice = change.slice;
+        const result = revertChange(slice in next ? next[slice] : state[slice], change);
+        if (result.applied) {
+            (next as any)[slice] = result.value;
+            applied[index] = true;
+        }
+    }
+    return { state: next, applied };
+};
+
+export const markTagChangesReverted = (
+    journal: TagJournalEntry[],
+    entryId: string,
+    changeIndexes: number[]
+): TagJournalEntry[] => journal.map(entry => entry.id !== entryId ? entry : {
+    ...entry,
+    changes: entry.changes.map((change, index) => changeIndexes.includes(index) ? { ...change, reverted: true } : change)
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+    MAIN_BRANCH_ID, createTimelineTree, forkTimeline, switchTimeline,
+    describeSnapshot, diffTimelineStates, buildBranchSaveData
+} from './timelineBranches';
+import type { TurnSnapshot, TurnSnapshotState, Entity, Quest, Status, SaveData } from '../types';
+
+const pc = { name: 'Lý Phàm', type: 'pc', description: 'Nhân vật chính' } as Entity;
+const quest = (status: Quest['status']): Quest => ({
+    title: 'Tìm kiếm linh dược', description: '', objectives: [], isMainQuest: true, status
+});
+const poison: Status = { name: 'Trúng độc', description: '', type: 'debuff', source: 'Rắn độc', owner: 'pc' };
+
+const makeSnapshot = (turn: number, overrides: Partial<TurnSnapshotState> = {}): TurnSnapshot => ({
+    turn,
+    timestamp: turn,
+    state: {
+        knownEntities: { [pc.name]: pc },
+        statuses: [],
+        quests: [],
+        party: [pc],
+        memories: [],
+        gameTime: { year: 1, month: 1, day: 1, hour: 8 },
+        chronicle: { memoir: [], chapter: [], turn: [] },
+        gameHistory: [],
+        storyLog: ['Mở đầu', `> Hành động ${turn}`],
+        choices: [],
+        turnCount: turn,
+        ...overrides
+    }
+});
+
+describe('timelineBranches', () => {
+    it('should fork a new active branch with divergence metadata', () => {
+        const history = [makeSnapshot(0), makeSnapshot(1), makeSnapshot(2)];
+        const forked = forkTimeline(createTimelineTree(), history, 1, 'Đi đường núi')!;
+
+        expect(forked.tree.activeBranchId).toBe(forked.branch.id);
+        expect(forked.tree.branches).toHaveLength(2);
+        expect(forked.branch).toMatchObject({
+            name: 'Đi đường núi',
+            parentBranchId: MAIN_BRANCH_ID,
+            parentTurn: 1,
+            tipTurn: 1,
+            divergence: { parentTipTurn: 2, parentNextAction: 'Hành động 2' }
+        });
+
+        expect(forkTimeline(createTimelineTree(), history, 7, 'x')).toBeNull();
+        expect(switchTimeline(forked.tree, MAIN_BRANCH_ID).activeBranchId).toBe(MAIN_BRANCH_ID);
+        expect(switchTimeline(forked.tree, 'missing')).toBe(forked.tree);
+    });
+
+    it('should label snapshots by the last action, falling back to the chronicle', () => {
+        expect(describeSnapshot(makeSnapshot(3))).toBe('Hành động 3');
+        expect(describeSnapshot(makeSnapshot(3, {
+            storyLog: ['Không có hành động'],
+            chronicle: { memoir: [], chapter: [], turn: ['Gặp sư phụ'] }
+        }))).toBe('Gặp sư phụ');
+        expect(describeSnapshot(makeSnapshot(3, {
+            storyLog: ['Không có hành động'],
+            chronicle: { memoir: [], chapter: [], turn: [] }
+        }))).toBeUndefined();
+    });
+
+    it('should diff entities, quests and statuses between branch tips', () => {
+        const base = makeSnapshot(2, { quests: [quest('active')] }).state;
+        const other = makeSnapshot(4, {
+            knownEntities: { [pc.name]: { ...pc, description: 'Đã bị thương' }, 'Hắc Long': { name: 'Hắc Long', type: 'npc', description: '' } as Entity },
+            quests: [quest('failed')],
+            statuses: [poison]
+        }).state;
+
+        const diff = diffTimelineStates(base, other);
+        expect(diff.entities).toEqual({ added: ['Hắc Long'], removed: [], changed: ['Lý Phàm'] });
+        expect(diff.quests).toEqual({ added: [], removed: [], changed: ['Tìm kiếm linh dược'] });
+        expect(diff.statuses.added).toEqual(['Trúng độc (pc)']);
+        expect(diff.turnDelta).toBe(2);
+    });
+
+    it('should export a branch as a plain save without the timeline tree', () => {
+        const base = {
+            worldData: { characterName: 'Lý Phàm' },
+            customRules: [],
+            turnCount: 9,
+            timelines: createTimelineTree(9)
+        } as unknown as SaveData;
+        const tip = makeSnapshot(4, { statuses: [poison] });
+        const snapshots = { version: 1 as const, pool: [], past: [], future: [] };
+
+        const exported = buildBranchSaveData(base, tip, snapshots);
+        expect(exported.timelines).toBeUndefined();
+        expect(exported.turnCount).toBe(4);
+        expect(exported.statuses).toEqual([poison]);
+        expect(exported.worldData).toBe(base.worldData);
+        expect(exported.turnSnapshots).toBe(snapshots);
+    });
+});
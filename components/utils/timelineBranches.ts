@@ -0,0 +1,123 @@
+// timelineBranches.ts - Pure helpers for the branching timeline tree (fork, switch, diff, export)
+
+import type {
+    SaveData, TimelineTree, TimelineBranch, TimelineDiff, TimelineDiffSection,
+    TurnSnapshot, TurnSnapshotState, SerializedTurnSnapshots
+} from '../types';
+
+export const MAIN_BRANCH_ID = 'main';
+
+export const generateBranchId = (): string => {
+    return `branch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+export const createTimelineTree = (tipTurn: number = 0): TimelineTree => ({
+    activeBranchId: MAIN_BRANCH_ID,
+    branches: [{
+        id: MAIN_BRANCH_ID,
+        name: '',
+        parentBranchId: null,
+        parentTurn: null,
+        createdAt: Date.now(),
+        tipTurn
+    }]
+});
+
+/**
+ * Short label for a snapshot: the player's last action if one is in the story log,
+ * otherwise the latest chronicle turn summary. Undefined when the snapshot has neither.
+ */
+export const describeSnapshot = (snapshot: TurnSnapshot): string | undefined => {
+    const { storyLog, chronicle } = snapshot.state;
+    const lastAction = [...(storyLog || [])].reverse().find(entry => entry.startsWith('> '));
+    if (lastAction) return lastAction.slice(2).trim();
+    const turnSummaries = chronicle?.turn || [];
+    if (turnSummaries.length > 0) return turnSummaries[turnSummaries.length - 1];
+    return undefined;
+};
+
+/**
+ * Adds a branch forked from `parentHistory` at `parentTurn` and makes it active.
+ * Returns null when the turn is not in the parent's history.
+ */
+export const forkTimeline = (
+    tree: TimelineTree,
+    parentHistory: TurnSnapshot[],
+    parentTurn: number,
+    name: string
+): { tree: TimelineTree; branch: TimelineBranch } | null => {
+    const forkIndex = parentHistory.findIndex(snapshot => snapshot.turn === parentTurn);
+    if (forkIndex === -1) return null;
+
+    const parentTip = parentHistory[parentHistory.length - 1];
+    // Only a snapshot of the very next turn says what the parent did instead
+    const nextSnapshot = parentHistory[forkIndex + 1]?.turn === parentTurn + 1 ? parentHistory[forkIndex + 1] : undefined;
+    const branch: TimelineBranch = {
+        id: generateBranchId(),
+        name: name.trim(),
+        parentBranchId: tree.activeBranchId,
+        parentTurn,
+        createdAt: Date.now(),
+        tipTurn: parentTurn,
+        divergence: {
+            parentTipTurn: parentTip.turn,
+            parentNextAction: nextSnapshot ? describeSnapshot(nextSnapshot) : undefined
+        }
+    };
+
+    return {
+        tree: { activeBranchId: branch.id, branches: [...tree.branches, branch] },
+        branch
+    };
+};
+
+/** Marks `branchId` active; returns the tree unchanged if the branch does not exist */
+export const switchTimeline = (tree: TimelineTree, branchId: string): TimelineTree => {
+    if (!tree.branches.some(branch => branch.id === branchId)) return tree;
+    return { ...tree, activeBranchId: branchId };
+};
+
+export const updateBranchTip = (tree: TimelineTree, branchId: string, tipTurn: number): TimelineTree => ({
+    ...tree,
+    branches: tree.branches.map(branch => branch.id === branchId ? { ...branch, tipTurn } : branch)
+});
+
+const diffKeyed = <T>(base: T[], other: T[], keyOf: (item: T) => string): TimelineDiffSection => {
+    const baseMap = new Map(base.map(item => [keyOf(item), JSON.stringify(item)]));
+    const otherMap = new Map(other.map(item => [keyOf(item), JSON.stringify(item)]));
+    const section: TimelineDiffSection = { added: [], removed: [], changed: [] };
+
+    otherMap.forEach((json, key) => {
+        if (!baseMap.has(key)) section.added.push(key);
+        else if (baseMap.get(key) !== json) section.changed.push(key);
+    });
+    baseMap.forEach((_, key) => {
+        if (!otherMap.has(key)) section.removed.push(key);
+    });
+    return section;
+};
+
+/** What `other` has that `base` does not (added), lost (removed) or holds differently (changed) */
+export const diffTimelineStates = (base: TurnSnapshotState, other: TurnSnapshotState): TimelineDiff => ({
+    entities: diffKeyed(Object.values(base.knownEntities || {}), Object.values(other.knownEntities || {}), entity => entity.name),
+    quests: diffKeyed(base.quests || [], other.quests || [], quest => quest.title),
+    statuses: diffKeyed(base.statuses || [], other.statuses || [], status => `${status.name} (${status.owner})`),
+    turnDelta: (other.turnCount || 0) - (base.turnCount || 0)
+});
+
+/**
+ * Builds a regular save for a single branch, loadable through handleLoadGameFromFile.
+ * World setup, rules and token/memory bookkeeping are shared by all branches and come from `base`.
+ */
+export const buildBranchSaveData = (
+    base: SaveData,
+    tip: TurnSnapshot,
+    turnSnapshots: SerializedTurnSnapshots
+): SaveData => {
+    const { timelines, ...rest } = base;
+    return {
+        ...rest,
+        ...tip.state,
+        turnSnapshots
+    };
+};
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { importWorldInfo, exportRulesToWorldInfo, WORLD_INFO_ENTRY_DEFAULTS } from './worldInfo';
+import { RuleHelpers } from './RuleHelpers';
+import { RuleLogic } from '../types';
+
+// Entries as written by SillyTavern, including fields CustomRule has no equivalent for
+const stFile = {
+    entries: {
+        '0': {
+            uid: 0, key: ['Dị năng', 'Siêu năng lực'], keysecondary: [], comment: '[ABILITY] Dị năng',
+            content: 'Giải thích về khả năng.', constant: true, vectorized: false, selective: true, selectiveLogic: 0,
+            addMemo: true, order: 275, position: 4, disable: false, excludeRecursion: true, preventRecursion: false,
+            delayUntilRecursion: false, probability: 100, useProbability: true, depth: 2, group: '', groupOverride: false,
+            groupWeight: 100, scanDepth: null, caseSensitive: null, matchWholeWords: null, useGroupScoring: null,
+            automationId: '', role: 1, sticky: 0, cooldown: 0, delay: 0, displayIndex: 0, characterFilter: { isExclude: false, names: [], tags: [] }
+        },
+        '7': {
+            uid: 7, key: 'Thời tiết', keysecondary: ['mưa'], comment: '', content: 'Trời mưa.', constant: false,
+            vectorized: true, selective: false, selectiveLogic: 3, addMemo: false, order: 0, position: 1, disable: true,
+            excludeRecursion: false, preventRecursion: true, delayUntilRecursion: 2, probability: 40, useProbability: false,
+            depth: 4, group: 'weather,sky', groupOverride: true, groupWeight: 25, scanDepth: 3, caseSensitive: true,
+            matchWholeWords: false, useGroupScoring: true, automationId: 'rain', role: null, sticky: 2, cooldown: null, delay: 5,
+            displayIndex: 1
+        }
+    }
+};
+
+describe('worldInfo', () => {
+    it('maps SillyTavern fields onto rules and keeps the rest', () => {
+        const { rules, errors } = importWorldInfo(stFile);
+        expect(errors).toEqual([]);
+
+        expect(rules[1]).toMatchObject({
+            title: 'WorldInfo Entry 7', keywords: ['Thời tiết'], secondaryKeywords: ['mưa'], logic: RuleLogic.AND_ALL,
+            order: 0, isActive: false, probability: 100, scanDepth: 3, caseSensitive: true, group: 'weather,sky',
+            groupOverride: true, groupWeight: 25, sticky: 2, cooldown: undefined, delay: 5, preventRecursion: true,
+            category: 'worldinfo'
+        });
+        expect(rules[0].excludeRecursion).toBe(true);
+        expect(rules[0].worldInfo!.extra).toMatchObject({ uid: 0, constant: true, position: 4, depth: 2, role: 1, vectorized: false });
+    });
+
+    it('exports unedited imported rules to the exact entries they came from', () => {
+        const { rules } = importWorldInfo(JSON.parse(JSON.stringify(stFile)));
+        expect(exportRulesToWorldInfo(rules)).toEqual(stFile);
+    });
+
+    it('writes edits over the preserved fields and gives new rules free uids', () => {
+        const { rules } = importWorldInfo(JSON.parse(JSON.stringify(stFile)));
+        rules[1].probability = 60;
+        rules[1].scanDepth = 5;
+        const authored = { ...RuleHelpers.createDefaultRule(), id: 'r1', title: 'Tông môn', content: 'Thanh Vân Tông.', keywords: ['Thanh Vân'], sticky: 3 };
+        const duplicate = { ...rules[0], id: 'copy' };
+
+        const { entries } = exportRulesToWorldInfo([...rules, authored, duplicate]);
+
+        expect(Object.keys(entries)).toEqual(['0', '1', '2', '7']);
+        expect(entries['7']).toMatchObject({ probability: 60, useProbability: true, scanDepth: 5, caseSensitive: true, position: 1 });
+        expect(entries['1']).toEqual({
+            ...WORLD_INFO_ENTRY_DEFAULTS, uid: 1, displayIndex: 2, comment: 'Tông môn', content: 'Thanh Vân Tông.',
+            key: ['Thanh Vân'], scanDepth: 5, caseSensitive: false, matchWholeWords: false, sticky: 3
+        });
+        expect(entries['2']).toEqual({ ...entries['0'], uid: 2 });
+
+        const reimported = importWorldInfo({ entries }).rules.find(rule => rule.title === 'Tông môn');
+        expect(reimported).toMatchObject({ content: 'Thanh Vân Tông.', keywords: ['Thanh Vân'], sticky: 3, order: 100 });
+    });
+
+    it('rejects files without entries', () => {
+        expect(importWorldInfo({ name: 'lorebook' }).errors).toHaveLength(1);
+    });
+});
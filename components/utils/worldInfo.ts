@@ -0,0 +1,290 @@
+import { RuleLogic } from '../types';
+import type { CustomRule, WorldInfoPassthrough } from '../types';
+import { RuleHelpers } from './RuleHelpers';
+
+/**
+ * Conversion between CustomRules and SillyTavern World Info files ({"entries": {...}}).
+ *
+ * Fields with a CustomRule equivalent are mapped both ways. Everything else (position, depth,
+ * role, constant, selective, vectorized, ...) is kept in rule.worldInfo and written back on
+ * export. Where a mapping cannot reproduce the ST value by itself (null meaning "use the global
+ * setting", a probability ignored because useProbability is off), the raw value is kept too and
+ * reused for as long as the rule still holds what was imported, so an unedited rule exports to
+ * exactly the entry it came from.
+ */
+
+export type WorldInfoEntry = Record<string, unknown>;
+
+export interface WorldInfoFile {
+    entries: Record<string, WorldInfoEntry>;
+    [key: string]: unknown;
+}
+
+export interface WorldInfoImportResult {
+    rules: CustomRule[];
+    errors: string[];
+}
+
+// Fields of a new SillyTavern entry, used for rules that were not imported from ST
+export const WORLD_INFO_ENTRY_DEFAULTS: WorldInfoEntry = {
+    key: [],
+    keysecondary: [],
+    comment: '',
+    content: '',
+    constant: false,
+    vectorized: false,
+    selective: true,
+    selectiveLogic: 0,
+    addMemo: true,
+    order: 100,
+    position: 0,
+    disable: false,
+    excludeRecursion: false,
+    preventRecursion: false,
+    delayUntilRecursion: false,
+    probability: 100,
+    useProbability: true,
+    depth: 4,
+    group: '',
+    groupOverride: false,
+    groupWeight: 100,
+    scanDepth: null,
+    caseSensitive: null,
+    matchWholeWords: null,
+    useGroupScoring: null,
+    automationId: '',
+    role: null,
+    sticky: 0,
+    cooldown: 0,
+    delay: 0
+};
+
+interface FieldMapping {
+    fields: string[];
+    toRule: (entry: WorldInfoEntry) => Partial<CustomRule>;
+    toEntry: (rule: CustomRule) => WorldInfoEntry;
+}
+
+const toStringList = (value: unknown): string[] => {
+    if (Array.isArray(value)) return value.map(String);
+    return typeof value === 'string' && value ? [value] : [];
+};
+
+const toTurns = (value: unknown): number | undefined =>
+    typeof value === 'number' && value > 0 ? value : undefined;
+
+const FIELD_MAPPINGS: FieldMapping[] = [
+    {
+        fields: ['comment'],
+        toRule: entry => ({ title: typeof entry.comment === 'string' && entry.comment ? entry.comment : `WorldInfo Entry ${entry.uid ?? ''}` }),
+        toEntry: rule => ({ comment: rule.title || '' })
+    },
+    {
+        fields: ['content'],
+        toRule: entry => ({ content: typeof entry.content === 'string' ? entry.content : '' }),
+        toEntry: rule => ({ content: rule.content })
+    },
+    {
+        fields: ['key'],
+        toRule: entry => ({ keywords: toStringList(entry.key) }),
+        toEntry: rule => ({ key: rule.keywords || [] })
+    },
+    {
+        fields: ['keysecondary'],
+        toRule: entry => ({ secondaryKeywords: toStringList(entry.keysecondary) }),
+        toEntry: rule => ({ keysecondary: rule.secondaryKeywords || [] })
+    },
+    {
+        fields: ['selectiveLogic'],
+        toRule: entry => ({ logic: typeof entry.selectiveLogic === 'number' ? entry.selectiveLogic as RuleLogic : RuleLogic.AND_ANY }),
+        toEntry: rule => ({ selectiveLogic: rule.logic ?? RuleLogic.AND_ANY })
+    },
+    {
+        fields: ['order'],
+        toRule: entry => ({ order: typeof entry.order === 'number' ? entry.order : 100 }),
+        toEntry: rule => ({ order: rule.order ?? 100 })
+    },
+    {
+        fields: ['probability', 'useProbability'],
+        toRule: entry => ({
+            probability: entry.useProbability === false || typeof entry.probability !== 'number' ? 100 : entry.probability
+        }),
+        toEntry: rule => ({ probability: rule.probability ?? 100, useProbability: true })
+    },
+    {
+        fields: ['scanDepth'],
+        toRule: entry => ({ scanDepth: typeof entry.scanDepth === 'number' ? entry.scanDepth : 5 }),
+        toEntry: rule => ({ scanDepth: rule.scanDepth ?? null })
+    },
+    {
+        fields: ['caseSensitive'],
+        toRule: entry => ({ caseSensitive: entry.caseSensitive === true }),
+        toEntry: rule => ({ caseSensitive: rule.caseSensitive ?? null })
+    },
+    {
+        fields: ['matchWholeWords'],
+        toRule: entry => ({ matchWholeWords: entry.matchWholeWords === true }),
+        toEntry: rule => ({ matchWholeWords: rule.matchWholeWords ?? null })
+    },
+    {
+        fields: ['disable'],
+        toRule: entry => ({ isActive: entry.disable !== true }),
+        toEntry: rule => ({ disable: !rule.isActive })
+    },
+    {
+        fields: ['group'],
+        toRule: entry => ({ group: typeof entry.group === 'string' && entry.group ? entry.group : undefined }),
+        toEntry: rule => ({ group: rule.group || '' })
+    },
+    {
+        fields: ['groupOverride'],
+        toRule: entry => ({ groupOverride: entry.groupOverride === true }),
+        toEntry: rule => ({ groupOverride: rule.groupOverride === true })
+    },
+    {
+        fields: ['groupWeight'],
+        toRule: entry => ({ groupWeight: typeof entry.groupWeight === 'number' ? entry.groupWeight : undefined }),
+        toEntry: rule => ({ groupWeight: rule.groupWeight ?? 100 })
+    },
+    {
+        fields: ['sticky'],
+        toRule: entry => ({ sticky: toTurns(entry.sticky) }),
+        toEntry: rule => ({ sticky: rule.sticky ?? 0 })
+    },
+    {
+        fields: ['cooldown'],
+        toRule: entry => ({ cooldown: toTurns(entry.cooldown) }),
+        toEntry: rule => ({ cooldown: rule.cooldown ?? 0 })
+    },
+    {
+        fields: ['delay'],
+        toRule: entry => ({ delay: toTurns(entry.delay) }),
+        toEntry: rule => ({ delay: rule.delay ?? 0 })
+    },
+    {
+        fields: ['excludeRecursion'],
+        toRule: entry => ({ excludeRecursion: entry.excludeRecursion === true }),
+        toEntry: rule => ({ excludeRecursion: rule.excludeRecursion === true })
+    },
+    {
+        fields: ['preventRecursion'],
+        toRule: entry => ({ preventRecursion: entry.preventRecursion === true }),
+        toEntry: rule => ({ preventRecursion: rule.preventRecursion === true })
+    }
+];
+
+const MAPPED_FIELDS = new Set(FIELD_MAPPINGS.flatMap(mapping => mapping.fields));
+
+const pick = (source: object, keys: string[]): Record<string, unknown> => {
+    const picked: Record<string, unknown> = {};
+    keys.forEach(key => {
+        if (key in source) picked[key] = (source as Record<string, unknown>)[key];
+    });
+    return picked;
+};
+
+const sameValues = (a: Record<string, unknown>, b: Record<string, unknown>): boolean =>
+    Object.keys(a).every(key => JSON.stringify(a[key]) === JSON.stringify(b[key]));
+
+/**
+ * Convert one World Info entry into a CustomRule, keeping what the rule cannot express
+ */
+export const worldInfoEntryToRule = (entry: WorldInfoEntry, uid: string): CustomRule => {
+    const rule = RuleHelpers.createDefaultRule();
+    rule.id = `worldinfo-${uid}-${Date.now()}`;
+    rule.category = 'worldinfo';
+
+    const extra: Record<string, unknown> = {};
+    Object.keys(entry).forEach(key => {
+        if (!MAPPED_FIELDS.has(key)) extra[key] = entry[key];
+    });
+
+    const original: Record<string, unknown> = {};
+    for (const mapping of FIELD_MAPPINGS) {
+        Object.assign(rule, mapping.toRule(entry));
+
+        // Keep the raw value when mapping it back would not give the same entry
+        const raw = pick(entry, mapping.fields);
+        if (!sameValues(raw, mapping.toEntry(rule))) {
+            Object.assign(original, raw);
+        }
+    }
+
+    rule.tokenWeight = RuleHelpers.estimateTokenWeight(rule.content);
+    rule.worldInfo = Object.keys(original).length > 0 ? { extra, original } : { extra };
+    return rule;
+};
+
+/**
+ * Convert a CustomRule back into a World Info entry
+ */
+export const ruleToWorldInfoEntry = (rule: CustomRule, uid: number): WorldInfoEntry => {
+    // Imported entries start from what they had; fields an old ST version did not write stay out
+    const entry: WorldInfoEntry = rule.worldInfo ? { ...rule.worldInfo.extra } : { ...WORLD_INFO_ENTRY_DEFAULTS };
+    const passthrough: WorldInfoPassthrough = rule.worldInfo || { extra: {} };
+
+    for (const mapping of FIELD_MAPPINGS) {
+        const raw = pick(passthrough.original || {}, mapping.fields);
+        const imported = mapping.toRule({ ...passthrough.extra, ...raw });
+        const unchanged = Object.keys(raw).length > 0 && sameValues(imported, rule as unknown as Record<string, unknown>);
+        Object.assign(entry, unchanged ? raw : mapping.toEntry(rule));
+    }
+
+    entry.uid = uid;
+    return entry;
+};
+
+/**
+ * Parse a World Info file. Entries without content are skipped.
+ */
+export const importWorldInfo = (data: unknown): WorldInfoImportResult => {
+    const file = data as WorldInfoFile;
+    if (!file || typeof file.entries !== 'object' || file.entries === null) {
+        return { rules: [], errors: ['Không phải file WorldInfo hợp lệ của SillyTavern. File cần có định dạng: {"entries": {...}}'] };
+    }
+
+    const rules: CustomRule[] = [];
+    const errors: string[] = [];
+    Object.entries(file.entries).forEach(([uid, entry], index) => {
+        try {
+            if (!entry || typeof entry !== 'object') return;
+            const rule = worldInfoEntryToRule(entry, uid);
+            if (rule.content.trim()) {
+                rules.push(rule);
+            }
+        } catch (error) {
+            errors.push(`Entry ${index + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    });
+    return { rules, errors };
+};
+
+/**
+ * Export rules as a SillyTavern World Info file. Imported entries keep their uid; other
+ * rules (and duplicates of an imported rule) get the next free ones.
+ */
+export const exportRulesToWorldInfo = (rules: CustomRule[]): WorldInfoFile => {
+    const importedUid = (rule: CustomRule) => {
+        const uid = rule.worldInfo?.extra.uid;
+        return typeof uid === 'number' ? uid : undefined;
+    };
+    const reserved = new Set(rules.map(importedUid).filter((uid): uid is number => uid !== undefined));
+    const entries: Record<string, WorldInfoEntry> = {};
+    let nextUid = 0;
+
+    rules.forEach((rule, index) => {
+        let uid = importedUid(rule);
+        if (uid === undefined || String(uid) in entries) {
+            while (reserved.has(nextUid)) nextUid++;
+            uid = nextUid;
+            reserved.add(uid);
+        }
+        const entry = ruleToWorldInfoEntry(rule, uid);
+        if (!rule.worldInfo) {
+            entry.displayIndex = index;
+        }
+        entries[String(uid)] = entry;
+    });
+
+    return { entries };
+};